@@ -1,5 +1,12 @@
+import type { Context } from "hono"
+
 import consola from "consola"
+import { AsyncLocalStorage } from "node:async_hooks"
+
+import type { RequestContext } from "~/lib/context/request"
 
+import { matchesModelPattern } from "~/lib/api-key-auth"
+import { executeWithAccountPool } from "~/lib/token/account-pool"
 import { notifyRateLimiterChanged } from "~/lib/ws"
 
 /**
@@ -18,6 +25,10 @@ import { notifyRateLimiterChanged } from "~/lib/ws"
  * - Exponential backoff: Retry delays double each time (10s → 20s → 40s...)
  * - Retry-After support: Uses server-provided wait time if available
  * - Gradual recovery: Slowly ramps up speed after leaving rate-limited mode
+ * - Concurrency caps: global, per model and per client key, in every mode
+ * - Fair queuing: waiting requests are ordered by priority class, then
+ *   round-robin across client keys, then arrival (slot waits and the
+ *   rate-limited queue alike)
  */
 
 export interface AdaptiveRateLimiterConfig {
@@ -33,6 +44,28 @@ export interface AdaptiveRateLimiterConfig {
   consecutiveSuccessesForRecovery: number
   /** Gradual recovery steps: intervals to use before full speed (default: [5, 2, 1, 0]) */
   gradualRecoverySteps: Array<number>
+  /** Maximum upstream calls in flight at once, 0 = unlimited (default: 0) */
+  maxConcurrent: number
+  /** Maximum upstream calls in flight per client key, 0 = unlimited (default: 0) */
+  maxConcurrentPerKey: number
+  /** Per-model caps keyed by model pattern (`*` wildcards); the first matching pattern applies */
+  maxConcurrentPerModel: Record<string, number>
+  /** Priority by request path pattern (`*` wildcards), for requests without a priority header */
+  priorityRoutes: Record<string, RequestPriority>
+  /** Priority of requests with neither a priority header nor a matching route (default: interactive) */
+  defaultPriority: RequestPriority
+}
+
+/** Priority classes, highest first */
+export const REQUEST_PRIORITIES = ["interactive", "background", "housekeeping"] as const
+
+export type RequestPriority = (typeof REQUEST_PRIORITIES)[number]
+
+/** Request header that assigns a priority class */
+export const PRIORITY_HEADER = "x-copilot-priority"
+
+export function isRequestPriority(value: unknown): value is RequestPriority {
+  return REQUEST_PRIORITIES.includes(value as RequestPriority)
 }
 
 const DEFAULT_CONFIG: AdaptiveRateLimiterConfig = {
@@ -42,9 +75,40 @@ const DEFAULT_CONFIG: AdaptiveRateLimiterConfig = {
   recoveryTimeoutMinutes: 10,
   consecutiveSuccessesForRecovery: 5,
   gradualRecoverySteps: [5, 2, 1, 0], // 5s → 2s → 1s → full speed
+  maxConcurrent: 0,
+  maxConcurrentPerKey: 0,
+  maxConcurrentPerModel: {},
+  priorityRoutes: {},
+  defaultPriority: "interactive",
+}
+
+/** Who an upstream call is made for; decides its place in the queues and which caps it counts against */
+export interface RateLimitTicket {
+  priority: RequestPriority
+  /** Model ID, for per-model caps */
+  model?: string
+  /** API key label or session ID; round-robin unit and per-key cap subject */
+  clientKey?: string
+  /** Called with the 1-based queue position while waiting, and 0 once the call starts */
+  onQueuePosition?: (position: number) => void
 }
 
-interface QueuedRequest<T> {
+/** Anything waiting in one of the limiter's queues */
+interface Waiter {
+  ticket: RateLimitTicket
+  /** Arrival order (FIFO tie-break) */
+  seq: number
+  /** Last position reported through ticket.onQueuePosition */
+  reportedPosition: number
+}
+
+/** A request waiting for a concurrency slot */
+interface SlotWaiter extends Waiter {
+  grant: () => void
+  reject: (error: unknown) => void
+}
+
+interface QueuedRequest<T> extends Waiter {
   execute: () => Promise<T>
   resolve: (value: T) => void
   reject: (error: unknown) => void
@@ -64,6 +128,56 @@ export interface RateLimitedResult<T> {
 
 type RateLimiterMode = "normal" | "rate-limited" | "recovering"
 
+/** Round-robin history is reset once this many client keys have been seen */
+const MAX_TRACKED_CLIENTS = 10_000
+
+function adjustCount(counts: Map<string, number>, key: string, delta: number): void {
+  const next = (counts.get(key) ?? 0) + delta
+  if (next > 0) counts.set(key, next)
+  else counts.delete(key)
+}
+
+/**
+ * Call `release` once a call's result is done with: right away for a response
+ * body, or when a streamed result is drained, fails or is closed early.
+ */
+function releaseWhenSettled<T>(result: T, release: () => void): T {
+  if (!result || typeof result !== "object" || !(Symbol.asyncIterator in result)) {
+    release()
+    return result
+  }
+
+  let released = false
+  const releaseOnce = () => {
+    if (released) return
+    released = true
+    release()
+  }
+  const iterator = (result as AsyncIterable<unknown>)[Symbol.asyncIterator]()
+
+  const wrapped: AsyncIterableIterator<unknown> = {
+    [Symbol.asyncIterator]() {
+      return wrapped
+    },
+    async next() {
+      try {
+        const step = await iterator.next()
+        if (step.done) releaseOnce()
+        return step
+      } catch (error) {
+        releaseOnce()
+        throw error
+      }
+    },
+    // Also called when a consumer stops early (break, client disconnect), even before the first event
+    async return(value?: unknown) {
+      releaseOnce()
+      return (await iterator.return?.(value)) ?? { done: true, value }
+    },
+  }
+  return wrapped as T
+}
+
 /**
  * Adaptive rate limiter that switches between normal, rate-limited, and recovering modes
  * based on API responses.
@@ -80,6 +194,16 @@ export class AdaptiveRateLimiter {
   private recoveryStepIndex = 0
   /** Abort controller for cancelling pending sleeps during shutdown */
   private sleepAbortController = new AbortController()
+  /** Requests waiting for a concurrency slot */
+  private slotWaiters: Array<SlotWaiter> = []
+  private inFlight = 0
+  private inFlightByKey = new Map<string, number>()
+  /** In-flight calls per `maxConcurrentPerModel` pattern */
+  private inFlightByModelPattern = new Map<string, number>()
+  /** Per client key: dispatch sequence number of its last call (round-robin order) */
+  private lastServed = new Map<string, number>()
+  private dispatchSeq = 0
+  private arrivalSeq = 0
 
   constructor(config: Partial<AdaptiveRateLimiterConfig> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config }
@@ -89,15 +213,33 @@ export class AdaptiveRateLimiter {
    * Execute a request with adaptive rate limiting.
    * Returns a promise that resolves when the request succeeds.
    * The request will be retried automatically on 429 errors.
+   * It first waits for a concurrency slot when a cap is reached, and holds
+   * the slot until a streamed result has been consumed or closed.
    */
-  async execute<T>(fn: () => Promise<T>): Promise<RateLimitedResult<T>> {
+  async execute<T>(fn: () => Promise<T>, ticket?: RateLimitTicket): Promise<RateLimitedResult<T>> {
+    const slotTicket = ticket ?? { priority: this.config.defaultPriority }
+    const slotWaitMs = await this.acquireSlot(slotTicket)
+    let settled: RateLimitedResult<T>
+    try {
+      settled = await this.executeInCurrentMode(fn, slotTicket)
+    } catch (error) {
+      this.releaseSlot(slotTicket)
+      throw error
+    }
+    return {
+      result: releaseWhenSettled(settled.result, () => this.releaseSlot(slotTicket)),
+      queueWaitMs: settled.queueWaitMs + slotWaitMs,
+    }
+  }
+
+  private executeInCurrentMode<T>(fn: () => Promise<T>, ticket: RateLimitTicket): Promise<RateLimitedResult<T>> {
     if (this.mode === "normal") {
-      return this.executeInNormalMode(fn)
+      return this.executeInNormalMode(fn, ticket)
     }
     if (this.mode === "recovering") {
-      return this.executeInRecoveringMode(fn)
+      return this.executeInRecoveringMode(fn, ticket)
     }
-    return this.enqueue(fn)
+    return this.enqueue(fn, ticket)
   }
 
   /**
@@ -173,7 +315,7 @@ export class AdaptiveRateLimiter {
   /**
    * Execute in normal mode - full speed
    */
-  private async executeInNormalMode<T>(fn: () => Promise<T>): Promise<RateLimitedResult<T>> {
+  private async executeInNormalMode<T>(fn: () => Promise<T>, ticket: RateLimitTicket): Promise<RateLimitedResult<T>> {
     try {
       const result = await fn()
       return { result, queueWaitMs: 0 }
@@ -182,7 +324,7 @@ export class AdaptiveRateLimiter {
       if (isRateLimit) {
         this.enterRateLimitedMode()
         // Queue this request for retry instead of failing
-        return this.enqueue(fn, retryAfter)
+        return this.enqueue(fn, ticket, retryAfter)
       }
       throw error
     }
@@ -191,7 +333,10 @@ export class AdaptiveRateLimiter {
   /**
    * Execute in recovering mode - gradual speedup
    */
-  private async executeInRecoveringMode<T>(fn: () => Promise<T>): Promise<RateLimitedResult<T>> {
+  private async executeInRecoveringMode<T>(
+    fn: () => Promise<T>,
+    ticket: RateLimitTicket,
+  ): Promise<RateLimitedResult<T>> {
     const startTime = Date.now()
     const currentInterval = this.config.gradualRecoverySteps[this.recoveryStepIndex] ?? 0
 
@@ -232,7 +377,7 @@ export class AdaptiveRateLimiter {
         // Back to rate-limited mode
         consola.warn("[RateLimiter] Hit rate limit during ramp-up, returning to rate-limited mode")
         this.enterRateLimitedMode()
-        return this.enqueue(fn, retryAfter)
+        return this.enqueue(fn, ticket, retryAfter)
       }
       throw error
     }
@@ -330,9 +475,16 @@ export class AdaptiveRateLimiter {
   /**
    * Enqueue a request for later execution
    */
-  private enqueue<T>(fn: () => Promise<T>, retryAfterSeconds?: number): Promise<RateLimitedResult<T>> {
+  private enqueue<T>(
+    fn: () => Promise<T>,
+    ticket: RateLimitTicket,
+    retryAfterSeconds?: number,
+  ): Promise<RateLimitedResult<T>> {
     return new Promise<RateLimitedResult<T>>((resolve, reject) => {
       const request: QueuedRequest<unknown> = {
+        ticket,
+        seq: ++this.arrivalSeq,
+        reportedPosition: 0,
         execute: fn as () => Promise<unknown>,
         resolve: resolve as (value: unknown) => void,
         reject,
@@ -344,10 +496,11 @@ export class AdaptiveRateLimiter {
       this.queue.push(request)
 
       if (this.queue.length > 1) {
-        const position = this.queue.length
+        const position = this.rankWaiters(this.queue).indexOf(request) + 1
         const estimatedWait = (position - 1) * this.config.requestIntervalSeconds
-        consola.info(`[RateLimiter] Request queued (position ${position}, ~${estimatedWait}s wait)`)
+        consola.info(`[RateLimiter] ${ticket.priority} request queued (position ${position}, ~${estimatedWait}s wait)`)
       }
+      this.reportQueuePositions(this.queue)
 
       void this.processQueue()
     })
@@ -375,7 +528,8 @@ export class AdaptiveRateLimiter {
     this.processing = true
 
     while (this.queue.length > 0) {
-      const request = this.queue[0]
+      // Re-ranked every round: a higher priority arrival overtakes requests waiting on a retry
+      const request = this.rankWaiters(this.queue)[0]
 
       // Check if we should try recovery before processing
       if (this.shouldAttemptRecovery()) {
@@ -399,12 +553,14 @@ export class AdaptiveRateLimiter {
       }
 
       this.lastRequestTime = Date.now()
+      this.reportQueuePosition(request, 0)
+      this.markServed(request.ticket)
 
       try {
         const result = await request.execute()
 
         // Success!
-        this.queue.shift()
+        this.removeQueued(request)
         this.consecutiveSuccesses++
         // Clear retry-after on success
         request.retryAfterSeconds = undefined
@@ -432,9 +588,10 @@ export class AdaptiveRateLimiter {
             `[RateLimiter] Request failed with 429 (retry #${request.retryCount}). `
               + `Retrying in ${nextInterval}s (${source})...`,
           )
+          this.reportQueuePositions(this.queue)
         } else {
           // Other error, fail this request and continue with queue
-          this.queue.shift()
+          this.removeQueued(request)
           request.reject(error)
         }
       }
@@ -446,18 +603,149 @@ export class AdaptiveRateLimiter {
     // until recovery conditions are met on next request
   }
 
+  /** Remove a settled request from the rate-limited queue and move the others up */
+  private removeQueued(request: QueuedRequest<unknown>): void {
+    const index = this.queue.indexOf(request)
+    if (index !== -1) this.queue.splice(index, 1)
+    this.reportQueuePositions(this.queue)
+  }
+
+  // ─── Concurrency slots and fair queuing ───
+
+  /** Wait for a concurrency slot; resolves with the time spent waiting (ms) */
+  private acquireSlot(ticket: RateLimitTicket): Promise<number> {
+    if (this.slotWaiters.length === 0 && this.hasCapacity(ticket)) {
+      this.occupySlot(ticket)
+      return Promise.resolve(0)
+    }
+
+    const waitingSince = Date.now()
+    return new Promise<number>((resolve, reject) => {
+      this.slotWaiters.push({
+        ticket,
+        seq: ++this.arrivalSeq,
+        reportedPosition: 0,
+        grant: () => resolve(Date.now() - waitingSince),
+        reject,
+      })
+      this.dispatchSlots()
+    })
+  }
+
+  private releaseSlot(ticket: RateLimitTicket): void {
+    this.countInFlight(ticket, -1)
+    this.dispatchSlots()
+  }
+
+  private occupySlot(ticket: RateLimitTicket): void {
+    this.countInFlight(ticket, 1)
+    this.markServed(ticket)
+  }
+
+  /**
+   * Start waiting requests, best ranked first, while slots are free.
+   * A waiter blocked only by its own model or key cap doesn't hold up the others.
+   */
+  private dispatchSlots(): void {
+    let next = this.rankWaiters(this.slotWaiters).find((waiter) => this.hasCapacity(waiter.ticket))
+    while (next) {
+      this.slotWaiters.splice(this.slotWaiters.indexOf(next), 1)
+      this.occupySlot(next.ticket)
+      this.reportQueuePosition(next, 0)
+      next.grant()
+      next = this.rankWaiters(this.slotWaiters).find((waiter) => this.hasCapacity(waiter.ticket))
+    }
+    this.reportQueuePositions(this.slotWaiters)
+  }
+
+  private hasCapacity(ticket: RateLimitTicket): boolean {
+    const { maxConcurrent, maxConcurrentPerKey } = this.config
+    if (maxConcurrent > 0 && this.inFlight >= maxConcurrent) return false
+    if (
+      maxConcurrentPerKey > 0
+      && ticket.clientKey !== undefined
+      && (this.inFlightByKey.get(ticket.clientKey) ?? 0) >= maxConcurrentPerKey
+    ) {
+      return false
+    }
+    const modelCap = this.getModelCap(ticket.model)
+    return !modelCap || (this.inFlightByModelPattern.get(modelCap.pattern) ?? 0) < modelCap.limit
+  }
+
+  /** The first `maxConcurrentPerModel` entry matching the model */
+  private getModelCap(model: string | undefined): { pattern: string; limit: number } | undefined {
+    if (model === undefined) return undefined
+    for (const [pattern, limit] of Object.entries(this.config.maxConcurrentPerModel)) {
+      if (matchesModelPattern(pattern, model)) return { pattern, limit }
+    }
+    return undefined
+  }
+
+  private countInFlight(ticket: RateLimitTicket, delta: 1 | -1): void {
+    this.inFlight += delta
+    if (ticket.clientKey !== undefined) adjustCount(this.inFlightByKey, ticket.clientKey, delta)
+    const modelCap = this.getModelCap(ticket.model)
+    if (modelCap) adjustCount(this.inFlightByModelPattern, modelCap.pattern, delta)
+  }
+
+  private markServed(ticket: RateLimitTicket): void {
+    // Forgetting every client only resets round-robin order; bounded for long-running servers
+    if (this.lastServed.size >= MAX_TRACKED_CLIENTS) this.lastServed.clear()
+    this.lastServed.set(ticket.clientKey ?? "", ++this.dispatchSeq)
+  }
+
+  /**
+   * Order waiters for dispatch: priority class first; within a class,
+   * clients take turns (each client's oldest waiter, then their second, …),
+   * the client served longest ago going first; arrival order breaks ties.
+   */
+  private rankWaiters<W extends Waiter>(waiters: Array<W>): Array<W> {
+    const turns = new Map<W, number>()
+    const backlog = new Map<string, number>()
+    for (const waiter of [...waiters].sort((a, b) => a.seq - b.seq)) {
+      const key = `${waiter.ticket.priority}:${waiter.ticket.clientKey ?? ""}`
+      const turn = backlog.get(key) ?? 0
+      backlog.set(key, turn + 1)
+      turns.set(waiter, turn)
+    }
+
+    const lastServedOf = (waiter: W) => this.lastServed.get(waiter.ticket.clientKey ?? "") ?? 0
+    return [...waiters].sort(
+      (a, b) =>
+        REQUEST_PRIORITIES.indexOf(a.ticket.priority) - REQUEST_PRIORITIES.indexOf(b.ticket.priority)
+        || (turns.get(a) ?? 0) - (turns.get(b) ?? 0)
+        || lastServedOf(a) - lastServedOf(b)
+        || a.seq - b.seq,
+    )
+  }
+
+  private reportQueuePositions(waiters: Array<Waiter>): void {
+    for (const [index, waiter] of this.rankWaiters(waiters).entries()) {
+      this.reportQueuePosition(waiter, index + 1)
+    }
+  }
+
+  private reportQueuePosition(waiter: Waiter, position: number): void {
+    if (waiter.reportedPosition === position) return
+    waiter.reportedPosition = position
+    waiter.ticket.onQueuePosition?.(position)
+  }
+
   /**
    * Reject all queued requests immediately.
    * Called during shutdown Phase 1 to drain the queue so queued requests
    * don't waste drain time. Returns the number of rejected requests.
    */
   rejectQueued(): number {
-    const count = this.queue.length
+    const count = this.queue.length + this.slotWaiters.length
     while (this.queue.length > 0) {
       const request = this.queue.shift()
       if (!request) break
       request.reject(new Error("Server shutting down"))
     }
+    for (const waiter of this.slotWaiters.splice(0)) {
+      waiter.reject(new Error("Server shutting down"))
+    }
     this.processing = false
 
     // Cancel any pending sleep (processQueue or executeInRecoveringMode)
@@ -492,12 +780,24 @@ export class AdaptiveRateLimiter {
     queueLength: number
     consecutiveSuccesses: number
     rateLimitedAt: number | null
+    /** Upstream calls holding a concurrency slot */
+    inFlight: number
+    /** Requests waiting for a slot or in the rate-limited queue, per priority class */
+    waiting: Record<RequestPriority, number>
   } {
+    const waiting = Object.fromEntries(REQUEST_PRIORITIES.map((priority) => [priority, 0])) as Record<
+      RequestPriority,
+      number
+    >
+    for (const waiter of [...this.slotWaiters, ...this.queue]) waiting[waiter.ticket.priority]++
+
     return {
       mode: this.mode,
       queueLength: this.queue.length,
       consecutiveSuccesses: this.consecutiveSuccesses,
       rateLimitedAt: this.rateLimitedAt,
+      inFlight: this.inFlight,
+      waiting,
     }
   }
 
@@ -510,6 +810,9 @@ export class AdaptiveRateLimiter {
 /** Singleton instance */
 let rateLimiterInstance: AdaptiveRateLimiter | null = null
 
+/** Ticket of the request whose upstream calls are being made (see runWithRateLimitTicket) */
+const ticketStorage = new AsyncLocalStorage<RateLimitTicket>()
+
 /**
  * Initialize the adaptive rate limiter with configuration
  */
@@ -528,6 +831,13 @@ export function initAdaptiveRateLimiter(config: Partial<AdaptiveRateLimiterConfi
       + `interval: ${interval}s, recovery: ${recovery}min or ${successes} successes, `
       + `gradual: [${steps.join("s, ")}s])`,
   )
+
+  const caps = [
+    config.maxConcurrent ? `${config.maxConcurrent} total` : undefined,
+    config.maxConcurrentPerKey ? `${config.maxConcurrentPerKey} per key` : undefined,
+    ...Object.entries(config.maxConcurrentPerModel ?? {}).map(([pattern, limit]) => `${limit} for ${pattern}`),
+  ].filter((cap) => cap !== undefined)
+  if (caps.length > 0) consola.info(`[RateLimiter] Concurrency caps: ${caps.join(", ")}`)
 }
 
 /**
@@ -547,12 +857,49 @@ export function resetAdaptiveRateLimiter(): void {
 /**
  * Execute a request with adaptive rate limiting.
  * If rate limiter is not initialized, executes immediately.
+ * When an account pool is configured, each attempt is routed through it, so
+ * a 402/429 from one account fails over before the limiter sees it.
  * Returns the result along with queue wait time.
  */
-export async function executeWithAdaptiveRateLimit<T>(fn: () => Promise<T>): Promise<RateLimitedResult<T>> {
+export async function executeWithAdaptiveRateLimit<T>(
+  fn: () => Promise<T>,
+  ticket: RateLimitTicket | undefined = ticketStorage.getStore(),
+): Promise<RateLimitedResult<T>> {
+  const routed = () => executeWithAccountPool(fn)
   if (!rateLimiterInstance) {
-    const result = await fn()
+    const result = await routed()
     return { result, queueWaitMs: 0 }
   }
-  return rateLimiterInstance.execute(fn)
+  return rateLimiterInstance.execute(routed, ticket)
+}
+
+// ============================================================================
+// Request scheduling scope
+// ============================================================================
+
+/** Run `fn` (an adapter execution) so the upstream calls it makes are scheduled with this ticket */
+export function runWithRateLimitTicket<T>(ticket: RateLimitTicket | undefined, fn: () => T): T {
+  return ticket ? ticketStorage.run(ticket, fn) : fn()
+}
+
+/** Scheduling ticket for an attempt of a request; queue positions are reported on the request context */
+export function createRateLimitTicket(reqCtx: RequestContext, model: string | undefined): RateLimitTicket {
+  return {
+    priority: reqCtx.priority,
+    model,
+    clientKey: reqCtx.apiKeyLabel ?? reqCtx.sessionId,
+    onQueuePosition: (position) => reqCtx.setQueuePosition(position),
+  }
+}
+
+/** Priority class of an inbound request: the priority header, else the first matching route, else the default */
+export function resolveRequestPriority(c: Context): RequestPriority {
+  const header = c.req.header(PRIORITY_HEADER)?.trim().toLowerCase()
+  if (isRequestPriority(header)) return header
+
+  const config = rateLimiterInstance?.getConfig() ?? DEFAULT_CONFIG
+  for (const [pattern, priority] of Object.entries(config.priorityRoutes)) {
+    if (matchesModelPattern(pattern, c.req.path)) return priority
+  }
+  return config.defaultPriority
 }
@@ -10,6 +10,7 @@
  * - Preserves system messages
  * - Filters orphaned tool_result and tool_use messages
  * - Smart compression of old tool_result content (e.g., Read tool results)
+ * - Optional LLM summary of removed messages (summarize mode)
  */
 
 import consola from "consola"
@@ -27,6 +28,7 @@ import {
   calibrate,
   getLearnedLimits,
 } from "../auto-truncate"
+import { summarizeConversationPrefix } from "../auto-truncate/summarize"
 import {
   ensureAnthropicStartsWithUser,
   filterAnthropicOrphanedToolResults,
@@ -47,12 +49,14 @@ import {
   addCompressionNotice,
   calculateTokenLimit,
   cleanupMessages,
+  createSummaryTurns,
   createTruncationMarker,
   createTruncationSystemContext,
   findOptimalPreserveIndex,
   generateRemovedMessagesSummary,
   smartCompressToolResults,
   stripThinkingBlocks,
+  toTranscriptTurns,
 } from "./auto-truncate/truncation"
 export {
   ensureAnthropicStartsWithUser,
@@ -241,11 +245,14 @@ export async function autoTruncateAnthropic(
   // Calculate system tokens for the binary search
   const systemTokens = await countSystemTokens(payload.system, model)
 
+  // In summarize mode, keep room for the summary turn the model will write
+  const summarize = state.autoTruncateMode === "summarize"
+
   // Find optimal preserve index on working messages
   const preserveIndex = findOptimalPreserveIndex({
     messages: workingMessages,
     systemTokens,
-    tokenLimit,
+    tokenLimit: summarize ? tokenLimit - state.autoTruncateSummaryMaxTokens : tokenLimit,
   })
 
   // Check if we can compact
@@ -282,14 +289,19 @@ export async function autoTruncateAnthropic(
   // Use original messages for summary (uncompressed content is more informative)
   const removedMessages = payload.messages.slice(0, preserveIndex)
   const removedCount = workingMessages.length - preserved.length
-  const summary = generateRemovedMessagesSummary(removedMessages)
 
   // Build new payload with truncation context
   let newSystem = payload.system
   let newMessages = preserved
 
-  // Prefer adding context to system prompt (cleaner for the model)
-  if (payload.system !== undefined) {
+  const llmSummary = summarize ? await summarizeConversationPrefix(toTranscriptTurns(removedMessages)) : undefined
+  if (llmSummary) {
+    // Summary replaces the removed prefix as a user/assistant exchange; preserved starts with user
+    newMessages = [...createSummaryTurns(llmSummary), ...preserved]
+    if (compressedCount > 0) newSystem = addCompressionNotice(payload, compressedCount).system
+  } else if (payload.system !== undefined) {
+    // Prefer adding context to system prompt (cleaner for the model)
+    const summary = generateRemovedMessagesSummary(removedMessages)
     const truncationContext = createTruncationSystemContext(removedCount, compressedCount, summary)
     if (typeof payload.system === "string") {
       newSystem = truncationContext + payload.system
@@ -299,6 +311,7 @@ export async function autoTruncateAnthropic(
     }
   } else {
     // No system prompt, use marker message
+    const summary = generateRemovedMessagesSummary(removedMessages)
     const marker = createTruncationMarker(removedCount, compressedCount, summary)
     newMessages = [marker, ...preserved]
   }
@@ -319,7 +332,7 @@ export async function autoTruncateAnthropic(
 
   // Log single line summary
   const actions: Array<string> = []
-  if (removedCount > 0) actions.push(`removed ${removedCount} msgs`)
+  if (removedCount > 0) actions.push(`${llmSummary ? "summarized" : "removed"} ${removedCount} msgs`)
   if (thinkingStrippedCount > 0) actions.push(`stripped ${thinkingStrippedCount} thinking blocks`)
   if (compressedCount > 0) actions.push(`compressed ${compressedCount} tool_results`)
   const actionInfo = actions.length > 0 ? ` (${actions.join(", ")})` : ""
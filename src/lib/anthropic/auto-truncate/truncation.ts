@@ -2,6 +2,7 @@ import type { Model } from "~/lib/models/client"
 import type { ContentBlock, ContentBlockParam, MessageParam, MessagesPayload } from "~/types/api/anthropic"
 
 import type { AutoTruncateConfig } from "../../auto-truncate"
+import type { TranscriptTurn } from "../../auto-truncate/summarize"
 
 import {
   LARGE_TOOL_RESULT_THRESHOLD,
@@ -10,9 +11,10 @@ import {
   computeSafetyMargin,
   getLearnedLimits,
 } from "../../auto-truncate"
+import { SUMMARY_REQUEST_TEXT, SUMMARY_RESPONSE_PREFIX } from "../../auto-truncate/summarize"
 import { processToolBlocks } from "../sanitize"
 import { ensureAnthropicStartsWithUser } from "./tool-utils"
-import { estimateMessageTokens } from "./token-counting"
+import { contentToText, estimateMessageTokens } from "./token-counting"
 import { isImmutableThinkingAssistantMessage } from "../thinking-immutability"
 
 /**
@@ -320,6 +322,25 @@ export function createTruncationMarker(
   }
 }
 
+/**
+ * Render removed messages as plain-text turns for the summary model.
+ * Thinking is left out; tool calls and results keep their text form.
+ */
+export function toTranscriptTurns(messages: Array<MessageParam>): Array<TranscriptTurn> {
+  return messages.map((msg) => ({ role: msg.role, text: contentToText(msg.content, { includeThinking: false }) }))
+}
+
+/**
+ * Synthetic user/assistant exchange that carries the summary of removed messages.
+ * Text-only, so it never holds tool_use/tool_result blocks that would need pairing.
+ */
+export function createSummaryTurns(summary: string): Array<MessageParam> {
+  return [
+    { role: "user", content: SUMMARY_REQUEST_TEXT },
+    { role: "assistant", content: SUMMARY_RESPONSE_PREFIX + summary },
+  ]
+}
+
 /**
  * Clean up truncated messages after preserve slicing.
  */
@@ -18,9 +18,11 @@ import type { HeadersCapture } from "~/lib/context/request"
 import type { Model } from "~/lib/models/client"
 import type { MessagesPayload, Message as AnthropicResponse, Tool } from "~/types/api/anthropic"
 
+import { upstreamFetch } from "~/lib/cassettes"
 import { copilotBaseUrl } from "~/lib/copilot-api"
 import { HTTPError } from "~/lib/error"
 import { createFetchSignal, captureHttpHeaders, sanitizeHeadersForHistory } from "~/lib/fetch-utils"
+import { applyWireRequestHooks } from "~/lib/plugins"
 import { state } from "~/lib/state"
 
 import { prepareAnthropicRequest, type PreparedAnthropicRequest } from "./request-preparation"
@@ -50,13 +52,13 @@ export async function createAnthropicMessages(
   if (!state.copilotToken) throw new Error("Copilot token not found")
 
   const prepared = prepareAnthropicRequest(payload, opts)
+  const wire = await applyWireRequestHooks("anthropic-messages", prepared.wire)
+  const { headers } = prepared
   opts?.onPrepared?.({
-    wire: prepared.wire,
-    headers: sanitizeHeadersForHistory(prepared.headers),
+    wire,
+    headers: sanitizeHeadersForHistory(headers),
   })
 
-  const { wire, headers } = prepared
-
   // Destructure known fields for typed access
   const model = wire.model as string
   const messages = wire.messages as MessagesPayload["messages"]
@@ -68,7 +70,7 @@ export async function createAnthropicMessages(
   // Apply fetch timeout if configured (connection + response headers)
   const fetchSignal = createFetchSignal()
 
-  const response = await fetch(`${copilotBaseUrl(state)}/v1/messages`, {
+  const response = await upstreamFetch(`${copilotBaseUrl(state)}/v1/messages`, {
     method: "POST",
     headers,
     body: JSON.stringify(wire),
@@ -138,7 +138,8 @@ function adjustThinkingBudget(wire: Record<string, unknown>, resolvedModel?: Mod
  * - disabled:    strip all cache_control from the wire payload
  * - passthrough: leave everything as-is
  * - sanitize:    normalize all cache_control to { type: "ephemeral" }
- * - proxied:     strip client cache_control then auto-inject breakpoints
+ * - proxied:     strip client cache_control then auto-inject breakpoints on tools, system
+ *                and the message history
  */
 function applyCacheControlMode(wire: Record<string, unknown>): void {
   switch (state.cacheControlMode) {
@@ -155,14 +156,15 @@ function applyCacheControlMode(wire: Record<string, unknown>): void {
       // GHC reconstructs content from scratch so client cache_control never passes through;
       // only proxy-controlled breakpoints exist in the final payload.
       walkCacheControl(wire, () => undefined)
-      addToolsAndSystemCacheControl(wire)
+      addMessageCacheControl(wire, addToolsAndSystemCacheControl(wire))
       break
   }
 }
 
-function addToolsAndSystemCacheControl(wire: Record<string, unknown>): void {
+/** Returns how many breakpoints are still available for the message history */
+function addToolsAndSystemCacheControl(wire: Record<string, unknown>): number {
   let remaining = CACHE_CONTROL_BREAKPOINT_LIMIT - countExistingCacheBreakpoints(wire)
-  if (remaining <= 0) return
+  if (remaining <= 0) return 0
 
   const toolResult = addToolCacheControl(wire.tools as Array<Tool> | undefined, remaining)
   if (toolResult.changed) {
@@ -170,12 +172,83 @@ function addToolsAndSystemCacheControl(wire: Record<string, unknown>): void {
     remaining = toolResult.remaining
   }
 
-  if (remaining <= 0) return
+  if (remaining <= 0) return 0
 
   const systemResult = addSystemCacheControl(wire.system as MessagesPayload["system"], remaining)
   if (systemResult.changed) {
     wire.system = systemResult.system
+    remaining--
   }
+
+  return remaining
+}
+
+/**
+ * Spend the remaining breakpoints on the message history, most valuable first:
+ *
+ * 1. the tail — the last message, so this turn's full prefix is written to the cache;
+ * 2. the previous tail — the last user message before the latest assistant reply. That is
+ *    exactly where the previous request put its tail, so this breakpoint reads the cache
+ *    entry written one turn ago even when the new turn added more blocks than the
+ *    API's 20-block lookback covers.
+ *
+ * Each turn the tail rolls forward while the previous one stays put, so a long session
+ * keeps hitting the cache on its ever-growing history.
+ */
+function addMessageCacheControl(wire: Record<string, unknown>, remaining: number): void {
+  if (!Array.isArray(wire.messages) || remaining <= 0) return
+
+  const messages = wire.messages as Array<Record<string, unknown>>
+  const lastAssistantIndex = findLastIndex(messages, (message) => message.role === "assistant")
+  const priorMessages = lastAssistantIndex > 0 ? messages.slice(0, lastAssistantIndex) : []
+  const previousTailIndex = findLastIndex(priorMessages, (message) => message.role === "user")
+
+  const targets = [messages.length - 1, previousTailIndex].filter(
+    (index, position, all) => index >= 0 && all.indexOf(index) === position,
+  )
+
+  let updatedMessages: Array<Record<string, unknown>> | undefined
+  let placed = 0
+  for (const index of targets) {
+    if (placed >= remaining) break
+    const updated = withMessageCacheControl(messages[index])
+    if (!updated) continue
+    updatedMessages ??= [...messages]
+    updatedMessages[index] = updated
+    placed++
+  }
+
+  if (updatedMessages) {
+    wire.messages = updatedMessages
+  }
+}
+
+/** Copy of the message with a breakpoint on its last cacheable block, or undefined if it has none */
+function withMessageCacheControl(message: Record<string, unknown>): Record<string, unknown> | undefined {
+  if (typeof message.content === "string") {
+    if (!message.content) return undefined
+    return {
+      ...message,
+      content: [{ type: "text", text: message.content, cache_control: EPHEMERAL_CACHE_CONTROL }],
+    }
+  }
+
+  if (!Array.isArray(message.content)) return undefined
+
+  const blocks = message.content as Array<Record<string, unknown>>
+  const lastCacheableIndex = findLastIndex(blocks, isCacheableBlock)
+  if (lastCacheableIndex < 0 || blocks[lastCacheableIndex].cache_control) return undefined
+
+  const updatedBlocks = [...blocks]
+  updatedBlocks[lastCacheableIndex] = { ...blocks[lastCacheableIndex], cache_control: EPHEMERAL_CACHE_CONTROL }
+  return { ...message, content: updatedBlocks }
+}
+
+/** Thinking blocks cannot carry cache_control, and the API rejects it on empty text blocks */
+function isCacheableBlock(block: Record<string, unknown>): boolean {
+  if (block.type === "thinking" || block.type === "redacted_thinking") return false
+  if (block.type === "text") return typeof block.text === "string" && block.text.length > 0
+  return true
 }
 
 function countExistingCacheBreakpoints(wire: Record<string, unknown>): number {
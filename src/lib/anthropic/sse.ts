@@ -12,7 +12,7 @@ import consola from "consola"
 
 import type { StreamEvent } from "~/types/api/anthropic"
 
-import { ENDPOINT, isEndpointSupported } from "~/lib/models/endpoint"
+import { ENDPOINT, isEndpointSupported, isResponsesSupported } from "~/lib/models/endpoint"
 import { getShutdownSignal } from "~/lib/shutdown"
 import { state } from "~/lib/state"
 import { combineAbortSignals, raceIteratorNext, STREAM_ABORTED } from "~/lib/stream"
@@ -45,6 +45,24 @@ export function supportsDirectAnthropicApi(modelId: string): ApiRoutingDecision
   return { supported: true, reason: "Anthropic vendor with /v1/messages support" }
 }
 
+/** Upstream API used when a /v1/messages request has to be translated */
+export type AnthropicTranslationTarget = "chat-completions" | "responses"
+
+/**
+ * Pick the upstream API for a model without native /v1/messages support.
+ * Prefers Chat Completions (closer to the Messages shape) and falls back to
+ * the Responses API. Returns undefined for unknown models or models that
+ * expose neither endpoint.
+ */
+export function resolveAnthropicTranslationTarget(modelId: string): AnthropicTranslationTarget | undefined {
+  const model = state.modelIndex.get(modelId)
+  if (!model) return undefined
+
+  if (isEndpointSupported(model, ENDPOINT.CHAT_COMPLETIONS)) return "chat-completions"
+  if (isResponsesSupported(model)) return "responses"
+  return undefined
+}
+
 // ============================================================================
 // Stream processing
 // ============================================================================
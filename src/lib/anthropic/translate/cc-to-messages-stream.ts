@@ -0,0 +1,244 @@
+import type { ServerSentEventMessage } from "fetch-event-stream"
+
+import type { StreamEvent, ThinkingBlock } from "~/types/api/anthropic"
+import type { ChatCompletionChunk, ChatCompletionUsage, FinishReason } from "~/types/api/openai-chat-completions"
+
+import { mapFinishReasonToStopReason, mapUsage } from "./cc-to-messages"
+
+type BlockKind = "thinking" | "text"
+
+export interface MessagesStreamTranslatorState {
+  started: boolean
+  messageId: string
+  model: string
+  /** Kind of the currently open thinking or text block (undefined when none is open) */
+  openBlock: BlockKind | undefined
+  /** Anthropic index of the currently open thinking or text block */
+  openBlockIndex: number
+  nextBlockIndex: number
+  /**
+   * Chat Completions tool_call index → Anthropic content block index. Tool blocks
+   * stay open until finish(): argument deltas of several calls may interleave.
+   */
+  toolBlockIndexMap: Map<number, number>
+  finishReason: FinishReason | null
+  /** Client stop sequence that ended the stream (matched by enforceStopSequences) */
+  stopSequence: string | null
+  usage: ChatCompletionUsage | undefined
+}
+
+/**
+ * Create a stateful translator from Chat Completions chunks to Anthropic stream events.
+ *
+ * Chat Completions interleaves content and tool_call deltas in a flat chunk stream;
+ * Anthropic frames each as a content block with explicit start/stop events. The
+ * translator opens a new block whenever the delta kind changes, keeps tool_use
+ * blocks open until the stream ends and defers `message_delta` / `message_stop`
+ * to `finish()` — with `include_usage`, the usage chunk arrives after the chunk
+ * carrying `finish_reason`.
+ */
+export function createMessagesStreamTranslator(opts: { model: string }): {
+  translate(chunk: ChatCompletionChunk): Array<StreamEvent>
+  finish(): Array<StreamEvent>
+  /** Report the stream as ended by a client stop sequence */
+  stopAt: (sequence: string) => void
+  getState(): MessagesStreamTranslatorState
+} {
+  const state: MessagesStreamTranslatorState = {
+    started: false,
+    messageId: "",
+    model: opts.model,
+    openBlock: undefined,
+    openBlockIndex: -1,
+    nextBlockIndex: 0,
+    toolBlockIndexMap: new Map(),
+    finishReason: null,
+    stopSequence: null,
+    usage: undefined,
+  }
+
+  function translate(chunk: ChatCompletionChunk): Array<StreamEvent> {
+    const events: Array<StreamEvent> = []
+
+    if (!state.started) {
+      state.started = true
+      state.messageId = chunk.id
+      if (chunk.model) state.model = chunk.model
+      events.push(buildMessageStart(state))
+    }
+
+    if (chunk.usage) state.usage = chunk.usage
+
+    const choice = chunk.choices[0] as ChatCompletionChunk["choices"][number] | undefined
+    if (!choice) return events
+
+    const delta = choice.delta as typeof choice.delta & { reasoning_text?: string | null }
+
+    if (delta.reasoning_text) {
+      events.push(...ensureBlock(state, "thinking"), {
+        type: "content_block_delta",
+        index: state.openBlockIndex,
+        delta: { type: "thinking_delta", thinking: delta.reasoning_text },
+      })
+    }
+
+    if (delta.content) {
+      events.push(...ensureBlock(state, "text"), {
+        type: "content_block_delta",
+        index: state.openBlockIndex,
+        delta: { type: "text_delta", text: delta.content },
+      })
+    }
+
+    for (const toolCall of delta.tool_calls ?? []) {
+      let blockIndex = state.toolBlockIndexMap.get(toolCall.index)
+
+      if (blockIndex === undefined) {
+        events.push(...closeBlock(state))
+        blockIndex = state.nextBlockIndex++
+        state.toolBlockIndexMap.set(toolCall.index, blockIndex)
+        events.push({
+          type: "content_block_start",
+          index: blockIndex,
+          content_block: {
+            type: "tool_use",
+            id: toolCall.id ?? `toolu_${state.messageId}_${toolCall.index}`,
+            name: toolCall.function?.name ?? "",
+            input: {},
+            caller: { type: "direct" },
+          },
+        })
+      }
+
+      const args = toolCall.function?.arguments
+      if (args) {
+        events.push({
+          type: "content_block_delta",
+          index: blockIndex,
+          delta: { type: "input_json_delta", partial_json: args },
+        })
+      }
+    }
+
+    if (choice.finish_reason) state.finishReason = choice.finish_reason
+
+    return events
+  }
+
+  function finish(): Array<StreamEvent> {
+    if (!state.started) return []
+
+    const usage = mapUsage(state.usage)
+    return [
+      ...closeBlock(state),
+      ...closeToolBlocks(state),
+      {
+        type: "message_delta",
+        delta: {
+          stop_reason: state.stopSequence === null ? mapFinishReasonToStopReason(state.finishReason) : "stop_sequence",
+          stop_sequence: state.stopSequence,
+          container: null,
+        },
+        usage: {
+          input_tokens: usage.input_tokens,
+          output_tokens: usage.output_tokens,
+          cache_read_input_tokens: usage.cache_read_input_tokens,
+          cache_creation_input_tokens: null,
+          server_tool_use: null,
+        },
+      },
+      { type: "message_stop" },
+    ]
+  }
+
+  return {
+    translate,
+    finish,
+    stopAt: (sequence) => {
+      state.stopSequence = sequence
+    },
+    getState: () => state,
+  }
+}
+
+/**
+ * Translate an upstream Chat Completions SSE stream into Anthropic SSE events.
+ * The output is shaped like a native Copilot /v1/messages stream, so it can be
+ * consumed by processAnthropicStream() unchanged.
+ */
+export async function* translateChatCompletionsStream(
+  upstream: AsyncIterable<ServerSentEventMessage>,
+  translator: {
+    translate(chunk: ChatCompletionChunk): Array<StreamEvent>
+    finish(): Array<StreamEvent>
+  },
+): AsyncGenerator<ServerSentEventMessage> {
+  for await (const rawEvent of upstream) {
+    if (!rawEvent.data || rawEvent.data === "[DONE]") continue
+
+    const chunk = JSON.parse(rawEvent.data) as ChatCompletionChunk
+    for (const event of translator.translate(chunk)) {
+      yield toSseMessage(event)
+    }
+  }
+
+  for (const event of translator.finish()) {
+    yield toSseMessage(event)
+  }
+}
+
+function toSseMessage(event: StreamEvent): ServerSentEventMessage {
+  return { event: event.type, data: JSON.stringify(event) } as ServerSentEventMessage
+}
+
+function buildMessageStart(state: MessagesStreamTranslatorState): StreamEvent {
+  return {
+    type: "message_start",
+    message: {
+      id: state.messageId,
+      type: "message",
+      role: "assistant",
+      model: state.model,
+      content: [],
+      container: null,
+      stop_reason: null,
+      stop_sequence: null,
+      usage: mapUsage(undefined),
+    },
+  }
+}
+
+/** Open a block of the given kind unless one is already open */
+function ensureBlock(state: MessagesStreamTranslatorState, kind: "thinking" | "text"): Array<StreamEvent> {
+  if (state.openBlock === kind) return []
+
+  const events = closeBlock(state)
+  state.openBlock = kind
+  state.openBlockIndex = state.nextBlockIndex++
+  events.push({
+    type: "content_block_start",
+    index: state.openBlockIndex,
+    content_block:
+      // Chat Completions reasoning comes without a signature, so the thinking block has none
+      kind === "thinking" ?
+        ({ type: "thinking", thinking: "" } as ThinkingBlock)
+      : { type: "text", text: "", citations: null },
+  })
+  return events
+}
+
+/** Close the open thinking or text block, if any */
+function closeBlock(state: MessagesStreamTranslatorState): Array<StreamEvent> {
+  if (state.openBlock === undefined) return []
+
+  const index = state.openBlockIndex
+  state.openBlock = undefined
+  state.openBlockIndex = -1
+  return [{ type: "content_block_stop", index }]
+}
+
+function closeToolBlocks(state: MessagesStreamTranslatorState): Array<StreamEvent> {
+  const indexes = [...state.toolBlockIndexMap.values()]
+  state.toolBlockIndexMap.clear()
+  return indexes.map((index) => ({ type: "content_block_stop", index }))
+}
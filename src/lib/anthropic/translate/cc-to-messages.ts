@@ -0,0 +1,93 @@
+import type { AnthropicMessageResponse } from "~/lib/anthropic/client"
+import type { ContentBlock, ThinkingBlock } from "~/types/api/anthropic"
+import type { ChatCompletionResponse, ChatCompletionUsage, FinishReason } from "~/types/api/openai-chat-completions"
+
+import { findStopSequence } from "~/lib/openai/translate"
+import { safeParseJson } from "~/lib/request/response"
+
+type StopReason = AnthropicMessageResponse["stop_reason"]
+
+/**
+ * Translate a non-streaming Chat Completions response into an Anthropic message.
+ * Only the first choice is used — Anthropic messages have a single completion.
+ *
+ * `stopSequences` are enforced here rather than upstream: Chat Completions reports
+ * a matched `stop` as a plain `"stop"`, without saying which sequence it was.
+ */
+export function translateChatCompletionToMessage(
+  response: ChatCompletionResponse,
+  opts: { stopSequences?: Array<string> } = {},
+): AnthropicMessageResponse {
+  const choice = response.choices[0] as ChatCompletionResponse["choices"][number] | undefined
+  const message = choice?.message
+  const content: Array<ContentBlock> = []
+
+  // Copilot extension: some Chat Completions models return their reasoning as `reasoning_text`.
+  // There is no signature to go with it, so none is invented.
+  const reasoningText = (message as { reasoning_text?: string } | undefined)?.reasoning_text
+  if (reasoningText) {
+    content.push({ type: "thinking", thinking: reasoningText } as ThinkingBlock)
+  }
+  const stop = message?.content ? findStopSequence(message.content, opts.stopSequences ?? []) : undefined
+  const text = stop ? message?.content?.slice(0, stop.index) : message?.content
+  if (text) {
+    content.push({ type: "text", text, citations: null })
+  }
+  for (const toolCall of message?.tool_calls ?? []) {
+    content.push({
+      type: "tool_use",
+      id: toolCall.id,
+      name: toolCall.function.name,
+      input: safeParseJson(toolCall.function.arguments),
+      caller: { type: "direct" },
+    })
+  }
+
+  return {
+    id: response.id,
+    type: "message",
+    role: "assistant",
+    model: response.model,
+    content,
+    container: null,
+    stop_reason: stop ? "stop_sequence" : mapFinishReasonToStopReason(choice?.finish_reason ?? null),
+    stop_sequence: stop?.sequence ?? null,
+    usage: mapUsage(response.usage),
+  }
+}
+
+export function mapFinishReasonToStopReason(finishReason: FinishReason | null): StopReason {
+  switch (finishReason) {
+    case "length": {
+      return "max_tokens"
+    }
+    case "tool_calls":
+    case "function_call": {
+      return "tool_use"
+    }
+    case "content_filter": {
+      return "refusal"
+    }
+    default: {
+      return "end_turn"
+    }
+  }
+}
+
+/**
+ * Map Chat Completions usage onto Anthropic usage.
+ * `prompt_tokens` includes cached tokens, while Anthropic reports them separately.
+ */
+export function mapUsage(usage: ChatCompletionUsage | undefined): AnthropicMessageResponse["usage"] {
+  const cachedTokens = usage?.prompt_tokens_details?.cached_tokens ?? 0
+  return {
+    input_tokens: (usage?.prompt_tokens ?? 0) - cachedTokens,
+    output_tokens: usage?.completion_tokens ?? 0,
+    cache_read_input_tokens: cachedTokens > 0 ? cachedTokens : null,
+    cache_creation_input_tokens: null,
+    cache_creation: null,
+    inference_geo: null,
+    server_tool_use: null,
+    service_tier: null,
+  }
+}
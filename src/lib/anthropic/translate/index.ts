@@ -0,0 +1,3 @@
+export { mapFinishReasonToStopReason, translateChatCompletionToMessage } from "./cc-to-messages"
+export { createMessagesStreamTranslator, translateChatCompletionsStream } from "./cc-to-messages-stream"
+export { translateMessagesToChatCompletions } from "./messages-to-cc"
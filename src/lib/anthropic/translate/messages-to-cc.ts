@@ -0,0 +1,238 @@
+import type { Model } from "~/lib/models/client"
+import type {
+  ContentBlockParam,
+  ImageBlockParam,
+  MessageParam,
+  MessagesPayload,
+  Tool as AnthropicTool,
+  ToolChoice as AnthropicToolChoice,
+  ToolResultBlockParam,
+} from "~/types/api/anthropic"
+import type { ChatCompletionsPayload, ContentPart, Message, Tool, ToolCall } from "~/types/api/openai-chat-completions"
+
+type ReasoningEffort = NonNullable<ChatCompletionsPayload["reasoning_effort"]>
+
+export interface TranslateResult {
+  payload: ChatCompletionsPayload
+  droppedParams: Array<string>
+}
+
+export interface TranslateOptions {
+  /** Resolved target model — used to gate `reasoning_effort` on advertised support */
+  model?: Model
+}
+
+/**
+ * Translate an Anthropic Messages payload into a Chat Completions payload.
+ *
+ * Thinking blocks in the conversation history are dropped: their signatures
+ * are only meaningful to Anthropic models. Server-side tools (web_search, etc.)
+ * have no Chat Completions equivalent and are reported in `droppedParams`.
+ * `stop_sequences` are not sent upstream: the response translation enforces them,
+ * so it can report which one matched.
+ */
+export function translateMessagesToChatCompletions(
+  payload: MessagesPayload,
+  opts: TranslateOptions = {},
+): TranslateResult {
+  const droppedParams: Array<string> = []
+  if (payload.top_k !== undefined) droppedParams.push("top_k")
+
+  const messages: Array<Message> = []
+  const systemText = extractSystemText(payload.system)
+  if (systemText) messages.push({ role: "system", content: systemText })
+  for (const message of payload.messages) {
+    messages.push(...translateMessage(message))
+  }
+
+  const functionTools = payload.tools?.filter((tool) => isFunctionTool(tool)) ?? []
+  if (payload.tools && functionTools.length < payload.tools.length) droppedParams.push("server_tools")
+
+  const reasoningEffort = resolveReasoningEffort(payload, opts.model)
+
+  const translatedPayload: ChatCompletionsPayload = {
+    model: payload.model,
+    messages,
+    max_tokens: payload.max_tokens,
+    ...(payload.temperature !== undefined && { temperature: payload.temperature }),
+    ...(payload.top_p !== undefined && { top_p: payload.top_p }),
+    ...(payload.stream && { stream: true, stream_options: { include_usage: true } }),
+    ...(payload.metadata?.user_id && { user: payload.metadata.user_id }),
+    ...(reasoningEffort && { reasoning_effort: reasoningEffort }),
+    ...(functionTools.length > 0 && { tools: functionTools.map((tool) => translateTool(tool)) }),
+    ...(functionTools.length > 0 && payload.tool_choice && { tool_choice: translateToolChoice(payload.tool_choice) }),
+  }
+
+  return {
+    payload: translatedPayload,
+    droppedParams,
+  }
+}
+
+function extractSystemText(system: MessagesPayload["system"]): string {
+  if (!system) return ""
+  if (typeof system === "string") return system
+  return system.map((block) => block.text).join("\n\n")
+}
+
+function translateMessage(message: MessageParam): Array<Message> {
+  if (typeof message.content === "string") {
+    return [{ role: message.role, content: message.content }]
+  }
+
+  return message.role === "assistant" ?
+      translateAssistantMessage(message.content)
+    : translateUserMessage(message.content)
+}
+
+/**
+ * Split a user message into Chat Completions messages.
+ * `tool_result` blocks become `tool` messages, which must directly follow the
+ * assistant `tool_calls` message — so they are emitted before any user content.
+ */
+function translateUserMessage(blocks: Array<ContentBlockParam>): Array<Message> {
+  const toolMessages: Array<Message> = []
+  const parts: Array<ContentPart> = []
+
+  for (const block of blocks) {
+    switch (block.type) {
+      case "text": {
+        parts.push({ type: "text", text: block.text })
+        break
+      }
+      case "image": {
+        parts.push(translateImage(block))
+        break
+      }
+      case "tool_result": {
+        const { text, images } = translateToolResultContent(block)
+        toolMessages.push({ role: "tool", tool_call_id: block.tool_use_id, content: text })
+        // Tool messages cannot carry images — forward them as user content instead
+        parts.push(...images)
+        break
+      }
+      default: {
+        break
+      }
+    }
+  }
+
+  if (parts.length === 0) return toolMessages
+
+  const onlyText = parts.every((part) => part.type === "text")
+  const content = onlyText ? parts.map((part) => (part as { text: string }).text).join("\n\n") : parts
+  return [...toolMessages, { role: "user", content }]
+}
+
+function translateAssistantMessage(blocks: Array<ContentBlockParam>): Array<Message> {
+  const texts: Array<string> = []
+  const toolCalls: Array<ToolCall> = []
+
+  for (const block of blocks) {
+    if (block.type === "text") {
+      texts.push(block.text)
+    } else if (block.type === "tool_use") {
+      toolCalls.push({
+        id: block.id,
+        type: "function",
+        function: {
+          name: block.name,
+          arguments: typeof block.input === "string" ? block.input : JSON.stringify(block.input ?? {}),
+        },
+      })
+    }
+  }
+
+  const text = texts.join("")
+  if (!text && toolCalls.length === 0) return []
+
+  return [
+    {
+      role: "assistant",
+      content: text || null,
+      ...(toolCalls.length > 0 && { tool_calls: toolCalls }),
+    },
+  ]
+}
+
+function translateToolResultContent(block: ToolResultBlockParam): { text: string; images: Array<ContentPart> } {
+  const prefix = block.is_error ? "[error] " : ""
+  if (block.content === undefined) return { text: prefix, images: [] }
+  if (typeof block.content === "string") return { text: `${prefix}${block.content}`, images: [] }
+
+  const texts: Array<string> = []
+  const images: Array<ContentPart> = []
+  for (const part of block.content) {
+    if (part.type === "text") {
+      texts.push(part.text)
+    } else if (part.type === "image") {
+      images.push(translateImage(part))
+    }
+  }
+
+  return { text: `${prefix}${texts.join("\n")}`, images }
+}
+
+function translateImage(block: ImageBlockParam): ContentPart {
+  const source = block.source
+  if (source.type === "base64") {
+    return { type: "image_url", image_url: { url: `data:${source.media_type};base64,${source.data}` } }
+  }
+  return { type: "image_url", image_url: { url: source.url } }
+}
+
+/** Client tools carry an input_schema; server tools are identified by a dated `type` instead */
+function isFunctionTool(tool: AnthropicTool): boolean {
+  return !tool.type || tool.type === "custom" || tool.input_schema !== undefined
+}
+
+function translateTool(tool: AnthropicTool): Tool {
+  return {
+    type: "function",
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.input_schema ?? { type: "object", properties: {} },
+    },
+  }
+}
+
+function translateToolChoice(choice: AnthropicToolChoice): NonNullable<ChatCompletionsPayload["tool_choice"]> {
+  switch (choice.type) {
+    case "any": {
+      return "required"
+    }
+    case "none": {
+      return "none"
+    }
+    case "tool": {
+      return { type: "function", function: { name: choice.name } }
+    }
+    default: {
+      return "auto"
+    }
+  }
+}
+
+/**
+ * Map Anthropic thinking configuration onto `reasoning_effort`.
+ * Explicit `output_config.effort` wins; otherwise the thinking budget is bucketed.
+ * Omitted when the model does not advertise the resulting effort level.
+ */
+function resolveReasoningEffort(payload: MessagesPayload, model: Model | undefined): ReasoningEffort | undefined {
+  let effort: ReasoningEffort | undefined = payload.output_config?.effort
+  if (!effort && payload.thinking?.type === "enabled") {
+    effort = budgetToEffort(payload.thinking.budget_tokens)
+  }
+  if (!effort) return undefined
+
+  const supported = model?.capabilities?.supports?.reasoning_effort as unknown
+  if (model && (!Array.isArray(supported) || !supported.includes(effort))) return undefined
+  return effort
+}
+
+function budgetToEffort(budgetTokens: number): ReasoningEffort {
+  if (budgetTokens <= 4096) return "low"
+  if (budgetTokens <= 16_384) return "medium"
+  return "high"
+}
@@ -0,0 +1,126 @@
+/**
+ * Inbound API-key authentication.
+ *
+ * Disabled until config.yaml declares `auth.api_keys`. Once at least one key is
+ * configured, every route except the public ones (`/`, `/health`, the Web UI
+ * shell) requires a matching key in `Authorization: Bearer <key>`, `x-api-key` or
+ * `x-goog-api-key` (sent by the Google GenAI SDKs). GET requests may instead pass
+ * `?api_key=<key>`: the Web UI's WebSocket and download links cannot set headers.
+ *
+ * The matched policy is stored on the Hono context; handlers read it back with
+ * getApiKeyPolicy() to enforce `allowed_models` and to tag the request with the
+ * key's label (HistoryEntry, request telemetry).
+ */
+
+import type { Context, MiddlewareHandler, Next } from "hono"
+
+import { timingSafeEqual } from "node:crypto"
+
+import { HTTPError } from "~/lib/error"
+import { state } from "~/lib/state"
+
+/** A compiled API key entry from config.yaml `auth.api_keys` */
+export interface ApiKeyPolicy {
+  key: string
+  /** Human-readable label recorded on history entries and telemetry */
+  label: string
+  /**
+   * Model IDs this key may use (matched against the resolved model name).
+   * Entries may contain `*` wildcards. undefined = all models allowed.
+   */
+  allowedModels?: ReadonlyArray<string>
+}
+
+const CONTEXT_KEY = "apiKeyPolicy"
+
+/** Paths reachable without a key: liveness probes and the static Web UI shell */
+function isPublicPath(path: string): boolean {
+  return path === "/" || path === "/health" || path === "/ui" || path.startsWith("/ui/")
+}
+
+/** Extract the presented key from `Authorization: Bearer`, `x-api-key`, `x-goog-api-key` or (GET only) `?api_key=` */
+function extractPresentedKey(c: Context): string | undefined {
+  const authorization = c.req.header("authorization")
+  if (authorization?.toLowerCase().startsWith("bearer ")) {
+    const token = authorization.slice("bearer ".length).trim()
+    if (token) return token
+  }
+  const header = (c.req.header("x-api-key") ?? c.req.header("x-goog-api-key"))?.trim()
+  if (header) return header
+  return c.req.method === "GET" ? c.req.query("api_key")?.trim() || undefined : undefined
+}
+
+function keysEqual(presented: string, expected: string): boolean {
+  const a = Buffer.from(presented)
+  const b = Buffer.from(expected)
+  return a.length === b.length && timingSafeEqual(a, b)
+}
+
+/** Find the policy matching a presented key (compares against every key to avoid early exit) */
+export function findApiKeyPolicy(presented: string): ApiKeyPolicy | undefined {
+  let match: ApiKeyPolicy | undefined
+  for (const policy of state.apiKeys) {
+    if (keysEqual(presented, policy.key)) match ??= policy
+  }
+  return match
+}
+
+export function apiKeyAuthMiddleware(): MiddlewareHandler {
+  return async (c: Context, next: Next) => {
+    if (state.apiKeys.length === 0 || isPublicPath(c.req.path)) {
+      await next()
+      return
+    }
+
+    const presented = extractPresentedKey(c)
+    const policy = presented ? findApiKeyPolicy(presented) : undefined
+    if (!policy) {
+      return c.json(
+        {
+          type: "error",
+          error: {
+            type: "authentication_error",
+            message: presented ? "Invalid API key" : "Missing API key (use Authorization: Bearer or x-api-key)",
+          },
+        },
+        401,
+      )
+    }
+
+    c.set(CONTEXT_KEY, policy)
+    await next()
+  }
+}
+
+/** Policy of the key that authenticated this request (undefined when auth is disabled) */
+export function getApiKeyPolicy(c: Context): ApiKeyPolicy | undefined {
+  return c.get(CONTEXT_KEY) as ApiKeyPolicy | undefined
+}
+
+/** Match a model ID (or any other name) against a pattern with `*` wildcards */
+export function matchesModelPattern(pattern: string, model: string): boolean {
+  if (!pattern.includes("*")) return pattern === model
+  const escaped = pattern.split("*").map((part) => part.replaceAll(/[.+?^${}()|[\]\\]/g, String.raw`\$&`))
+  return new RegExp(`^${escaped.join(".*")}$`).test(model)
+}
+
+export function isModelAllowed(policy: ApiKeyPolicy | undefined, model: string): boolean {
+  if (!policy?.allowedModels) return true
+  return policy.allowedModels.some((pattern) => matchesModelPattern(pattern, model))
+}
+
+/**
+ * Whether the key a request was recorded under may use a model. Request
+ * contexts only carry the key's label, so every key with that label must allow it.
+ */
+export function isModelAllowedForLabel(label: string | undefined, model: string): boolean {
+  if (!label) return true
+  return state.apiKeys.filter((policy) => policy.label === label).every((policy) => isModelAllowed(policy, model))
+}
+
+/** Throw a 403 when the authenticated key may not use the given (resolved) model */
+export function assertModelAllowed(policy: ApiKeyPolicy | undefined, model: string): void {
+  if (isModelAllowed(policy, model)) return
+  const msg = `API key "${policy?.label}" is not allowed to use model "${model}"`
+  throw new HTTPError(msg, 403, msg, model)
+}
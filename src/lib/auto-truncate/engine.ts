@@ -48,6 +48,14 @@ export const DEFAULT_AUTO_TRUNCATE_CONFIG: AutoTruncateConfig = {
 // Learned Limits (per-model, with calibration)
 // ============================================================================
 
+/**
+ * Where a model's limits came from:
+ * - learned: a token limit error reported it
+ * - config:  seeded from `model_limits` in config.yaml, not yet confirmed by an error
+ * - manual:  set through the management API
+ */
+export type ModelLimitsSource = "learned" | "config" | "manual"
+
 /** Per-model learned limits with tokenizer calibration */
 export interface ModelLimits {
   /** Token upper bound (from error response's reported limit) */
@@ -60,9 +68,17 @@ export interface ModelLimits {
   sampleCount: number
   /** Last updated timestamp (ms since epoch) */
   updatedAt: number
+  /** Missing in files written before sources were tracked, which only held learned limits */
+  source?: ModelLimitsSource
+  /** Pinned limits are left alone by learning: neither the limit nor the calibration changes */
+  pinned?: boolean
 }
 
 const learnedLimits = new Map<string, ModelLimits>()
+/** Token limits from config.yaml, kept so a reset can fall back to them */
+let configuredLimits: Partial<Record<string, number>> = {}
+/** Set by an explicit reset, so the limits file may be removed once nothing is left to persist */
+let resetPending = false
 
 /** Get learned limits for a model (including calibration data) */
 export function getLearnedLimits(modelId: string): ModelLimits | undefined {
@@ -77,6 +93,92 @@ export function hasKnownLimits(modelId: string): boolean {
   return learnedLimits.has(modelId)
 }
 
+/** All known limits by model id, learned, seeded or set manually */
+export function getAllModelLimits(): Record<string, ModelLimits> {
+  return Object.fromEntries(learnedLimits)
+}
+
+/**
+ * Seed limits from config.yaml so fresh instances can pre-check requests before
+ * their first token limit error. Seeds never replace learned or manual limits, and
+ * seeds dropped from the config are forgotten.
+ */
+export function seedModelLimits(limits: Record<string, number>): void {
+  for (const [modelId, existing] of learnedLimits) {
+    if (existing.source === "config" && !(modelId in limits)) learnedLimits.delete(modelId)
+  }
+
+  configuredLimits = { ...limits }
+  for (const [modelId, tokenLimit] of Object.entries(limits)) {
+    const existing = learnedLimits.get(modelId)
+    if (existing && existing.source !== "config") continue
+    if (existing?.tokenLimit === tokenLimit) continue
+    learnedLimits.set(modelId, {
+      tokenLimit,
+      calibrationFactor: existing?.calibrationFactor ?? 1.0,
+      sampleCount: existing?.sampleCount ?? 0,
+      updatedAt: Date.now(),
+      source: "config",
+    })
+  }
+}
+
+/**
+ * Manually set a model's limit and/or calibration factor, or (un)pin it.
+ * Throws a RangeError for values the pre-check could not work with.
+ */
+export function setModelLimits(
+  modelId: string,
+  update: { tokenLimit?: number; calibrationFactor?: number; pinned?: boolean },
+): ModelLimits {
+  const existing = learnedLimits.get(modelId)
+  const tokenLimit = update.tokenLimit ?? existing?.tokenLimit
+  if (tokenLimit === undefined || !Number.isInteger(tokenLimit) || tokenLimit <= 0) {
+    throw new RangeError("tokenLimit must be a positive integer")
+  }
+  const calibrationFactor = update.calibrationFactor ?? existing?.calibrationFactor ?? 1.0
+  if (Number.isNaN(calibrationFactor) || calibrationFactor < CALIBRATION_MIN || calibrationFactor > CALIBRATION_MAX) {
+    throw new RangeError(`calibrationFactor must be between ${CALIBRATION_MIN} and ${CALIBRATION_MAX}`)
+  }
+
+  const limits: ModelLimits = {
+    tokenLimit,
+    calibrationFactor,
+    sampleCount: existing?.sampleCount ?? 0,
+    updatedAt: Date.now(),
+    // Config seeds are not persisted, so pinning one turns it into a manual entry
+    source:
+      update.tokenLimit !== undefined || update.calibrationFactor !== undefined || existing?.source === "config" ?
+        "manual"
+      : existing?.source,
+    pinned: update.pinned ?? existing?.pinned ?? false,
+  }
+  learnedLimits.set(modelId, limits)
+  schedulePersist()
+  return limits
+}
+
+/**
+ * Forget what was learned or set for a model; a limit configured in config.yaml is seeded again.
+ * Returns false when nothing was known about the model.
+ */
+export function resetModelLimits(modelId: string): boolean {
+  if (!learnedLimits.delete(modelId)) return false
+  const configured = configuredLimits[modelId]
+  if (configured !== undefined) {
+    learnedLimits.set(modelId, {
+      tokenLimit: configured,
+      calibrationFactor: 1.0,
+      sampleCount: 0,
+      updatedAt: Date.now(),
+      source: "config",
+    })
+  }
+  resetPending = true
+  schedulePersist()
+  return true
+}
+
 // ============================================================================
 // Token Limit Learning
 // ============================================================================
@@ -93,14 +195,20 @@ export function onTokenLimitExceeded(
 ): void {
   // Update learned limits (with calibration data for future pre-checks)
   const existing = learnedLimits.get(modelId)
+  if (existing?.pinned) {
+    consola.debug(`[AutoTruncate] Limits for ${modelId} are pinned, ignoring reported limit ${reportedLimit}`)
+    return
+  }
 
   // Only update if this is the first time or the new limit is lower (more restrictive)
   if (!existing || reportedLimit < existing.tokenLimit) {
     learnedLimits.set(modelId, {
+      ...existing,
       tokenLimit: reportedLimit,
       calibrationFactor: existing?.calibrationFactor ?? 1.0,
       sampleCount: existing?.sampleCount ?? 0,
       updatedAt: Date.now(),
+      source: "learned",
     })
     consola.info(`[AutoTruncate] Learned token limit for ${modelId}: ${reportedLimit}`)
   }
@@ -123,6 +231,8 @@ export function onTokenLimitExceeded(
 /** Reset all dynamic limits (for testing) */
 export function resetAllLimitsForTesting(): void {
   learnedLimits.clear()
+  configuredLimits = {}
+  resetPending = false
   if (persistTimer) {
     clearTimeout(persistTimer)
     persistTimer = null
@@ -147,7 +257,7 @@ const CALIBRATION_MAX = 3.0
 export function updateCalibration(modelId: string, actualTokens: number, estimatedTokens: number): void {
   if (estimatedTokens <= 0) return
   const limits = learnedLimits.get(modelId)
-  if (!limits) return
+  if (!limits || limits.pinned) return
 
   const rawFactor = actualTokens / estimatedTokens
   const clamped = Math.max(CALIBRATION_MIN, Math.min(CALIBRATION_MAX, rawFactor))
@@ -210,11 +320,19 @@ export function schedulePersist(): void {
   }, PERSIST_DEBOUNCE_MS)
 }
 
-/** Write learned limits to disk */
+/** Write learned and manual limits to disk (config seeds are re-read from config.yaml) */
 export async function persistLimits(): Promise<void> {
-  if (learnedLimits.size === 0) return
-  const data: LearnedLimitsFile = { version: 1, limits: Object.fromEntries(learnedLimits) }
+  const limits = [...learnedLimits].filter(([, lim]) => lim.source !== "config")
   try {
+    if (limits.length === 0) {
+      // Everything was reset — don't resurrect it on the next start. Without a reset
+      // (e.g. limits failed to load), the file on disk is left alone.
+      if (resetPending) await fs.rm(PATHS.LEARNED_LIMITS, { force: true })
+      resetPending = false
+      return
+    }
+    resetPending = false
+    const data: LearnedLimitsFile = { version: 1, limits: Object.fromEntries(limits) }
     await fs.writeFile(PATHS.LEARNED_LIMITS, JSON.stringify(data, null, 2), "utf8")
   } catch {
     // Write failure is non-critical — limits will be re-learned on next error
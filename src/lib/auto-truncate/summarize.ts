@@ -0,0 +1,197 @@
+/**
+ * LLM summarization of truncated conversation prefixes ("summarize" auto-truncate mode).
+ *
+ * Instead of replacing dropped messages with a one-line note, the format-specific
+ * truncators render them as plain-text turns and ask `state.autoTruncateSummaryModel`
+ * for a summary through the regular Copilot chat completions client. The call is
+ * charged to the budgets of the request being truncated.
+ *
+ * Summaries are cached per session, keyed by a hash chain over the rendered turns.
+ * When a later request drops a longer prefix that extends a cached one, only the new
+ * turns are sent together with the cached summary, so a growing agent session never
+ * re-summarizes the same messages twice. Requests without a session id are not
+ * cached: unrelated clients would otherwise share one cache bucket.
+ */
+
+import consola from "consola"
+import { createHash } from "node:crypto"
+
+import { executeWithAdaptiveRateLimit } from "~/lib/adaptive-rate-limiter"
+import { chargeBudgetSideCall } from "~/lib/budgets"
+import { resolveModelName } from "~/lib/models/resolver"
+import { createChatCompletions } from "~/lib/openai/chat-completions-client"
+import { state } from "~/lib/state"
+import { getRoutingSessionId } from "~/lib/token/account-context"
+
+/** One removed message flattened to text */
+export interface TranscriptTurn {
+  role: string
+  text: string
+}
+
+/** Text of the synthetic user turn that precedes the summary */
+export const SUMMARY_REQUEST_TEXT =
+  "[CONTEXT COMPACTED] Earlier messages were removed to fit the context window. "
+  + "Summarize what happened so far so we can continue."
+
+/** Prefix of the synthetic assistant turn that carries the summary */
+export const SUMMARY_RESPONSE_PREFIX = "Summary of the earlier conversation:\n\n"
+
+/** Per-turn character range in the summarization transcript (head and tail are kept) */
+const MAX_TURN_CHARS = 4000
+const MIN_TURN_CHARS = 200
+
+/** Character budget for one summarization transcript, shared by its turns */
+const MAX_TRANSCRIPT_CHARS = 200_000
+
+const MAX_CACHED_SESSIONS = 64
+const MAX_SUMMARIES_PER_SESSION = 4
+
+const SUMMARIZER_SYSTEM_PROMPT =
+  "You compress the beginning of a conversation between a user and an AI assistant so the assistant can continue "
+  + "without it. Write a dense summary that keeps: the user's goals and constraints, decisions made, files, "
+  + "commands and identifiers that were touched, tool results that still matter, and open tasks. "
+  + "Write in plain prose or bullets, in the conversation's language. Do not address the user."
+
+interface CachedSummary {
+  turnCount: number
+  hash: string
+  summary: string
+}
+
+/** sessionId → summaries, most recently used session last */
+const summaryCache = new Map<string, Array<CachedSummary>>()
+
+/** Clear the summary cache (for testing) */
+export function resetSummaryCacheForTesting(): void {
+  summaryCache.clear()
+}
+
+/**
+ * Summarize removed conversation turns with the configured summary model.
+ *
+ * Returns `undefined` when the summary model is unavailable or the call fails;
+ * callers fall back to the plain truncation note.
+ */
+export async function summarizeConversationPrefix(turns: Array<TranscriptTurn>): Promise<string | undefined> {
+  if (turns.length === 0) return undefined
+
+  const sessionKey = getRoutingSessionId()
+  const hashes = hashChain(turns)
+  const base = sessionKey ? findCachedPrefix(sessionKey, hashes) : undefined
+
+  if (base?.turnCount === turns.length) {
+    return base.summary
+  }
+
+  const modelId = resolveModelName(state.autoTruncateSummaryModel)
+  const model = state.modelIndex.get(modelId)
+  if (!model) {
+    consola.warn(`[AutoTruncate:Summarize] Summary model "${modelId}" is not available, falling back to truncation`)
+    return undefined
+  }
+
+  const newTurns = turns.slice(base?.turnCount ?? 0)
+  const prompt = buildSummaryPrompt(base?.summary, newTurns)
+
+  try {
+    const { result } = await executeWithAdaptiveRateLimit(() =>
+      createChatCompletions(
+        {
+          model: modelId,
+          messages: [
+            { role: "system", content: SUMMARIZER_SYSTEM_PROMPT },
+            { role: "user", content: prompt },
+          ],
+          max_tokens: state.autoTruncateSummaryMaxTokens,
+          temperature: 0,
+          stream: false,
+        },
+        { resolvedModel: model },
+      ),
+    )
+
+    chargeBudgetSideCall(modelId)
+
+    const content = Symbol.asyncIterator in result ? undefined : result.choices.at(0)?.message.content
+    const summary = typeof content === "string" ? content.trim() : ""
+    if (!summary) {
+      consola.warn("[AutoTruncate:Summarize] Summary model returned no text, falling back to truncation")
+      return undefined
+    }
+
+    if (sessionKey) storeSummary(sessionKey, { turnCount: turns.length, hash: hashes[turns.length], summary })
+    consola.info(
+      `[AutoTruncate:Summarize] Summarized ${newTurns.length} messages with ${modelId}`
+        + (base ? ` (extending cached summary of ${base.turnCount})` : ""),
+    )
+    return summary
+  } catch (error) {
+    consola.warn(
+      "[AutoTruncate:Summarize] Summarization failed, falling back to truncation:",
+      error instanceof Error ? error.message : error,
+    )
+    return undefined
+  }
+}
+
+/** `hashes[i]` identifies `turns.slice(0, i)` */
+function hashChain(turns: Array<TranscriptTurn>): Array<string> {
+  const hashes = [""]
+  for (const turn of turns) {
+    const previous = hashes.at(-1) ?? ""
+    hashes.push(createHash("sha256").update(previous).update(turn.role).update("\0").update(turn.text).digest("hex"))
+  }
+  return hashes
+}
+
+/** Longest cached summary whose prefix the current turns extend */
+function findCachedPrefix(sessionKey: string, hashes: Array<string>): CachedSummary | undefined {
+  const entries = summaryCache.get(sessionKey)
+  if (!entries) return undefined
+
+  // Re-insert to mark the session as recently used
+  summaryCache.delete(sessionKey)
+  summaryCache.set(sessionKey, entries)
+
+  let best: CachedSummary | undefined
+  for (const entry of entries) {
+    if (entry.turnCount >= hashes.length || hashes[entry.turnCount] !== entry.hash) continue
+    if (!best || entry.turnCount > best.turnCount) best = entry
+  }
+  return best
+}
+
+function storeSummary(sessionKey: string, entry: CachedSummary): void {
+  const entries = (summaryCache.get(sessionKey) ?? []).filter((e) => e.turnCount !== entry.turnCount)
+  entries.push(entry)
+  if (entries.length > MAX_SUMMARIES_PER_SESSION) entries.shift()
+
+  summaryCache.delete(sessionKey)
+  summaryCache.set(sessionKey, entries)
+  if (summaryCache.size > MAX_CACHED_SESSIONS) {
+    const oldest = summaryCache.keys().next().value
+    if (oldest !== undefined) summaryCache.delete(oldest)
+  }
+}
+
+function buildSummaryPrompt(previousSummary: string | undefined, turns: Array<TranscriptTurn>): string {
+  // Share the transcript budget evenly so the oldest turns are shortened, not dropped
+  const turnBudget = Math.max(MIN_TURN_CHARS, Math.min(MAX_TURN_CHARS, Math.floor(MAX_TRANSCRIPT_CHARS / turns.length)))
+  const rendered = turns.map((turn) => `[${turn.role}]\n${clipText(turn.text, turnBudget)}`)
+
+  const transcript = `Conversation to summarize:\n\n${rendered.join("\n\n")}`
+  if (!previousSummary) return `${transcript}\n\nWrite the summary now.`
+
+  return [
+    `Summary of the conversation before the messages below:\n${previousSummary}`,
+    transcript,
+    "Write one updated summary that covers both the earlier summary and these messages.",
+  ].join("\n\n")
+}
+
+function clipText(text: string, maxChars: number): string {
+  if (text.length <= maxChars) return text
+  const half = Math.floor(maxChars / 2)
+  return `${text.slice(0, half)}\n[... ${text.length - maxChars} characters omitted ...]\n${text.slice(-half)}`
+}
@@ -0,0 +1,463 @@
+/**
+ * Per-user budgets (config.yaml `budgets`).
+ *
+ * Each rule keys its counters by a subject — the inbound API key label, the
+ * session header or the client IP — so every key, session or address gets its
+ * own allowance. A rule can cap premium requests (the model's billing multiplier
+ * per request) and tokens per clock hour or UTC day, and restrict the models a
+ * subject may use. Requests over budget are rejected with 429 in the client's
+ * error format (BudgetExceededError).
+ *
+ * Premium requests are reserved when a request is admitted (multiplier × n
+ * choices), so a burst of parallel requests cannot overshoot. When the request
+ * settles, every upstream attempt is charged with its own model's multiplier
+ * (retries, fallbacks), side calls such as auto-truncate summaries are charged
+ * as they happen, and the reservation is refunded when the request failed
+ * before any usage came back or was answered from the response cache. Tokens are only known afterwards and are added
+ * when the request settles. Counters are persisted like request telemetry.
+ */
+
+import type { Context } from "hono"
+
+import consola from "consola"
+import { AsyncLocalStorage } from "node:async_hooks"
+import fs from "node:fs/promises"
+
+import type { RequestContextEvent } from "~/lib/context/manager"
+import type { HistoryEntryData, RequestContext } from "~/lib/context/request"
+import type { EndpointType } from "~/lib/history/store"
+
+import { getApiKeyPolicy, matchesModelPattern } from "~/lib/api-key-auth"
+import { PATHS } from "~/lib/config/paths"
+import { BudgetExceededError } from "~/lib/error"
+import { getSessionIdFromHeaders } from "~/lib/history/sessions"
+import { state } from "~/lib/state"
+
+const PERSIST_INTERVAL_MS = 60 * 1000
+
+export type BudgetSubjectKind = "api_key" | "session" | "ip"
+export type BudgetMetric = "premium_requests" | "tokens"
+export type BudgetWindow = "hour" | "day"
+
+export interface BudgetLimit {
+  metric: BudgetMetric
+  window: BudgetWindow
+  limit: number
+}
+
+/** A budget rule compiled from config.yaml `budgets.rules` */
+export interface BudgetRule {
+  name: string
+  by: BudgetSubjectKind
+  /** Subjects the rule applies to (`*` wildcards); undefined = every subject */
+  subjects?: ReadonlyArray<string>
+  limits: ReadonlyArray<BudgetLimit>
+  /** Resolved model IDs subjects may use (`*` wildcards); undefined = all models */
+  allowedModels?: ReadonlyArray<string>
+  /** Highest billing multiplier subjects may use; undefined = no cap */
+  maxMultiplier?: number
+}
+
+/** Who a request is accounted to, per subject kind (absent when the request has none) */
+export type BudgetSubjects = Partial<Record<BudgetSubjectKind, string>>
+
+interface BudgetCounter {
+  rule: string
+  subject: string
+  metric: BudgetMetric
+  window: BudgetWindow
+  windowStart: number
+  used: number
+}
+
+interface BudgetsFileV1 {
+  version: 1
+  counters: Array<BudgetCounter>
+}
+
+/** Rules a request matched and the premium requests reserved for it */
+interface BudgetAdmission {
+  matches: Array<{ rule: BudgetRule; subject: string }>
+  model: string
+  /** Choices each upstream attempt generates (`n`) */
+  choices: number
+  premiumCost: number
+  admittedAt: number
+}
+
+export interface BudgetUsageSnapshot {
+  metric: BudgetMetric
+  window: BudgetWindow
+  used: number
+  limit: number
+  resetsAt: number
+}
+
+export interface BudgetSubjectSnapshot {
+  rule: string
+  by: BudgetSubjectKind
+  subject: string
+  usage: Array<BudgetUsageSnapshot>
+}
+
+let counters = new Map<string, BudgetCounter>()
+const admissions = new Map<string, BudgetAdmission>()
+/** Request ID whose admission pays for upstream calls made outside its attempts */
+const scopeStorage = new AsyncLocalStorage<string>()
+let persistTimer: ReturnType<typeof setInterval> | null = null
+let dirty = false
+let budgetsFilePath = PATHS.BUDGETS
+
+// ============================================================================
+// Windows and counters
+// ============================================================================
+
+function getWindowStart(window: BudgetWindow, timestamp: number): number {
+  const start = new Date(timestamp)
+  if (window === "day") start.setUTCHours(0, 0, 0, 0)
+  else start.setUTCMinutes(0, 0, 0)
+  return start.getTime()
+}
+
+function getWindowEnd(window: BudgetWindow, timestamp: number): number {
+  return getWindowStart(window, timestamp) + (window === "day" ? 24 : 1) * 60 * 60 * 1000
+}
+
+function counterKey(rule: string, subject: string, metric: BudgetMetric, window: BudgetWindow): string {
+  return JSON.stringify([rule, subject, metric, window])
+}
+
+function getUsed(rule: BudgetRule, subject: string, limit: BudgetLimit, now: number): number {
+  const counter = counters.get(counterKey(rule.name, subject, limit.metric, limit.window))
+  return counter?.windowStart === getWindowStart(limit.window, now) ? counter.used : 0
+}
+
+/** Add to a counter; the counter starts over when `at` falls in a newer window */
+function addUsage(rule: BudgetRule, subject: string, limit: BudgetLimit, amount: number, at: number): void {
+  const key = counterKey(rule.name, subject, limit.metric, limit.window)
+  const windowStart = getWindowStart(limit.window, at)
+  const counter = counters.get(key)
+
+  if (counter && counter.windowStart === windowStart) {
+    counter.used = Math.max(0, counter.used + amount)
+  } else if (!counter || counter.windowStart < windowStart) {
+    if (amount <= 0) return
+    counters.set(key, {
+      rule: rule.name,
+      subject,
+      metric: limit.metric,
+      window: limit.window,
+      windowStart,
+      used: amount,
+    })
+  } else {
+    // `at` belongs to a window that has already been replaced
+    return
+  }
+  dirty = true
+}
+
+/** Premium requests one request to `model` costs (its billing multiplier; 0 for included models) */
+function getPremiumCost(model: string): number {
+  return state.modelIndex.get(model)?.billing?.multiplier ?? 0
+}
+
+// ============================================================================
+// Admission
+// ============================================================================
+
+/** Read the client IP from the server connection (or X-Forwarded-For when trusted) */
+export function getClientIp(c: Context): string | undefined {
+  if (state.budgetTrustForwardedFor) {
+    const forwarded = c.req.header("x-forwarded-for")?.split(",")[0]?.trim()
+    if (forwarded) return forwarded
+  }
+
+  // Bun passes its server as `env.server`; @hono/node-server passes the IncomingMessage as `env.incoming`
+  const env = c.env as
+    | {
+        server?: { requestIP?: (request: Request) => { address: string } | null }
+        incoming?: { socket?: { remoteAddress?: string } }
+      }
+    | undefined
+  return env?.server?.requestIP?.(c.req.raw)?.address ?? env?.incoming?.socket?.remoteAddress
+}
+
+/** Subjects of an inbound HTTP request */
+export function getBudgetSubjects(c: Context): BudgetSubjects {
+  return {
+    api_key: getApiKeyPolicy(c)?.label,
+    session: getSessionIdFromHeaders(c.req.raw.headers),
+    ip: getClientIp(c),
+  }
+}
+
+function checkRule(
+  rule: BudgetRule,
+  subject: string,
+  model: string,
+  choices: number,
+  endpoint: EndpointType,
+  now: number,
+): BudgetExceededError | undefined {
+  const who = `${rule.by.replace("_", " ")} "${subject}"`
+
+  if (rule.allowedModels && !rule.allowedModels.some((pattern) => matchesModelPattern(pattern, model))) {
+    return new BudgetExceededError(`Budget "${rule.name}" does not allow ${who} to use model "${model}"`, endpoint)
+  }
+  const multiplier = getPremiumCost(model)
+  if (rule.maxMultiplier !== undefined && multiplier > rule.maxMultiplier) {
+    return new BudgetExceededError(
+      `Budget "${rule.name}" does not allow ${who} to use model "${model}"`
+        + ` (${multiplier}x premium requests, limit ${rule.maxMultiplier}x)`,
+      endpoint,
+    )
+  }
+
+  const cost = multiplier * choices
+
+  for (const limit of rule.limits) {
+    const used = getUsed(rule, subject, limit, now)
+    const exceeded = limit.metric === "premium_requests" ? cost > 0 && used + cost > limit.limit : used >= limit.limit
+    if (!exceeded) continue
+
+    const metric = limit.metric === "premium_requests" ? "premium requests" : "tokens"
+    const retryAfter = Math.ceil((getWindowEnd(limit.window, now) - now) / 1000)
+    return new BudgetExceededError(
+      `Budget "${rule.name}" exceeded for ${who}: ${used}/${limit.limit} ${metric} per ${limit.window}`
+        + ` (resets in ${retryAfter}s)`,
+      endpoint,
+      retryAfter,
+    )
+  }
+
+  return undefined
+}
+
+/**
+ * Whether every rule that admitted a request also allows `model` (its
+ * allowed_models and max_multiplier), e.g. before falling back to it.
+ */
+export function isModelAllowedByBudgets(requestId: string, model: string): boolean {
+  const admission = admissions.get(requestId)
+  if (!admission) return true
+  return admission.matches.every(
+    ({ rule }) =>
+      (!rule.allowedModels || rule.allowedModels.some((pattern) => matchesModelPattern(pattern, model)))
+      && (rule.maxMultiplier === undefined || getPremiumCost(model) <= rule.maxMultiplier),
+  )
+}
+
+/**
+ * Admit a request against the configured budgets. Reserves premium requests
+ * (the model's multiplier for each of `choices`) on every matching rule, or
+ * fails the request context and throws BudgetExceededError (429) when a rule
+ * is exhausted or disallows the model.
+ */
+export function enforceBudgets(
+  reqCtx: RequestContext,
+  subjects: BudgetSubjects,
+  model: string,
+  choices: number | null = 1,
+): void {
+  if (state.budgetRules.length === 0) return
+
+  const now = Date.now()
+  const normalizedChoices = Math.max(1, choices ?? 1)
+  const matches: BudgetAdmission["matches"] = []
+  for (const rule of state.budgetRules) {
+    const subject = subjects[rule.by]
+    if (!subject) continue
+    if (rule.subjects && !rule.subjects.some((pattern) => matchesModelPattern(pattern, subject))) continue
+
+    const error = checkRule(rule, subject, model, normalizedChoices, reqCtx.endpoint, now)
+    if (error) {
+      consola.warn(`[Budgets] ${error.message}`)
+      reqCtx.fail(model, error)
+      throw error
+    }
+    matches.push({ rule, subject })
+  }
+  if (matches.length === 0) return
+
+  const premiumCost = getPremiumCost(model) * normalizedChoices
+  chargePremium(matches, premiumCost, now)
+  admissions.set(reqCtx.id, { matches, model, choices: normalizedChoices, premiumCost, admittedAt: now })
+}
+
+function chargePremium(matches: BudgetAdmission["matches"], amount: number, at: number): void {
+  if (amount === 0) return
+  for (const { rule, subject } of matches) {
+    for (const limit of rule.limits) {
+      if (limit.metric === "premium_requests") addUsage(rule, subject, limit, amount, at)
+    }
+  }
+}
+
+/** Run `fn` (e.g. a retry strategy) so upstream calls it makes itself are charged to the request's budgets */
+export function runWithBudgetScope<T>(reqCtx: RequestContext | undefined, fn: () => T): T {
+  return reqCtx && admissions.has(reqCtx.id) ? scopeStorage.run(reqCtx.id, fn) : fn()
+}
+
+/**
+ * Charge an upstream call made on behalf of the current request outside its
+ * attempts (e.g. an auto-truncate summary) to the budgets that admitted it.
+ */
+export function chargeBudgetSideCall(model: string): void {
+  const requestId = scopeStorage.getStore()
+  const admission = requestId && admissions.get(requestId)
+  if (!admission) return
+  chargePremium(admission.matches, getPremiumCost(model), Date.now())
+}
+
+/** Premium requests the upstream attempts of a settled request cost, each with its own model */
+function getAttemptsCost(admission: BudgetAdmission, attempts: HistoryEntryData["attempts"]): number {
+  if (!attempts || attempts.length === 0) return admission.premiumCost
+  let cost = 0
+  for (const attempt of attempts) cost += getPremiumCost(attempt.model ?? admission.model) * admission.choices
+  return cost
+}
+
+/**
+ * Context consumer: when an admitted request settles, add its token usage and
+ * settle the premium reservation against what its attempts cost, or refund it
+ * when the request failed without any usage or was served from the response cache.
+ */
+export function handleBudgetEvent(event: RequestContextEvent): void {
+  if (event.type !== "completed" && event.type !== "failed") return
+  const admission = admissions.get(event.context.id)
+  if (!admission) return
+  admissions.delete(event.context.id)
+
+  // Served from the response cache: nothing went upstream, so it costs nothing
+  if (event.entry.pipelineInfo?.responseCache) {
+    chargePremium(admission.matches, -admission.premiumCost, admission.admittedAt)
+    return
+  }
+
+  const usage = event.entry.response?.usage
+  const tokens = (usage?.input_tokens ?? 0) + (usage?.output_tokens ?? 0)
+  const now = Date.now()
+
+  if (event.type === "failed" && tokens === 0) {
+    chargePremium(admission.matches, -admission.premiumCost, admission.admittedAt)
+  } else {
+    const difference = getAttemptsCost(admission, event.entry.attempts) - admission.premiumCost
+    chargePremium(admission.matches, difference, difference < 0 ? admission.admittedAt : now)
+  }
+
+  if (tokens === 0) return
+  for (const { rule, subject } of admission.matches) {
+    for (const limit of rule.limits) {
+      if (limit.metric === "tokens") addUsage(rule, subject, limit, tokens, now)
+    }
+  }
+}
+
+// ============================================================================
+// Snapshot and persistence
+// ============================================================================
+
+/** Current usage of every subject that has used a configured budget in its current window */
+export function getBudgetSnapshot(now = Date.now()): Array<BudgetSubjectSnapshot> {
+  const subjects = new Map<string, BudgetSubjectSnapshot>()
+
+  for (const rule of state.budgetRules) {
+    for (const limit of rule.limits) {
+      for (const counter of counters.values()) {
+        if (counter.rule !== rule.name || counter.metric !== limit.metric || counter.window !== limit.window) continue
+        if (counter.windowStart !== getWindowStart(limit.window, now)) continue
+
+        const key = JSON.stringify([rule.name, counter.subject])
+        let snapshot = subjects.get(key)
+        if (!snapshot) {
+          snapshot = { rule: rule.name, by: rule.by, subject: counter.subject, usage: [] }
+          subjects.set(key, snapshot)
+        }
+        snapshot.usage.push({
+          metric: limit.metric,
+          window: limit.window,
+          used: counter.used,
+          limit: limit.limit,
+          resetsAt: getWindowEnd(limit.window, now),
+        })
+      }
+    }
+  }
+
+  return [...subjects.values()]
+}
+
+function isValidCounter(value: unknown): value is BudgetCounter {
+  if (!value || typeof value !== "object") return false
+  const counter = value as Record<string, unknown>
+  return (
+    typeof counter.rule === "string"
+    && typeof counter.subject === "string"
+    && (counter.metric === "premium_requests" || counter.metric === "tokens")
+    && (counter.window === "hour" || counter.window === "day")
+    && typeof counter.windowStart === "number"
+    && typeof counter.used === "number"
+  )
+}
+
+export async function initBudgets(): Promise<void> {
+  stopPeriodicPersistence()
+  counters = new Map()
+  admissions.clear()
+
+  try {
+    const parsed = JSON.parse(await fs.readFile(budgetsFilePath, "utf8")) as BudgetsFileV1
+    const now = Date.now()
+    for (const counter of Array.isArray(parsed.counters) ? parsed.counters : []) {
+      // Counters from windows that have ended are dropped
+      if (!isValidCounter(counter) || counter.windowStart !== getWindowStart(counter.window, now)) continue
+      counters.set(counterKey(counter.rule, counter.subject, counter.metric, counter.window), counter)
+    }
+  } catch {
+    // Missing or malformed file is non-critical; start fresh.
+  }
+
+  startPeriodicPersistence()
+}
+
+export async function persistBudgets(): Promise<void> {
+  if (!dirty) return
+  dirty = false
+  const file: BudgetsFileV1 = { version: 1, counters: [...counters.values()] }
+  try {
+    await fs.writeFile(budgetsFilePath, JSON.stringify(file, null, 2), "utf8")
+  } catch {
+    // Write failure is non-critical; counters continue in memory.
+  }
+}
+
+function startPeriodicPersistence(): void {
+  if (persistTimer) return
+  persistTimer = setInterval(() => {
+    void persistBudgets()
+  }, PERSIST_INTERVAL_MS)
+}
+
+function stopPeriodicPersistence(): void {
+  if (!persistTimer) return
+  clearInterval(persistTimer)
+  persistTimer = null
+}
+
+export async function shutdownBudgets(): Promise<void> {
+  stopPeriodicPersistence()
+  await persistBudgets()
+}
+
+export function _resetBudgetsForTests(): void {
+  stopPeriodicPersistence()
+  counters = new Map()
+  admissions.clear()
+  dirty = false
+  budgetsFilePath = PATHS.BUDGETS
+}
+
+export function _setBudgetsFilePathForTests(path: string): void {
+  budgetsFilePath = path
+}
@@ -0,0 +1,176 @@
+/**
+ * Record-and-replay of upstream Copilot traffic ("cassettes").
+ *
+ * `start --record <dir>` tees every upstream HTTP exchange made through
+ * `upstreamFetch()` into `<dir>/<key>.json`: the wire request (method, path,
+ * sanitized headers, body), the response status and headers, and the raw
+ * response body — for streaming requests, the SSE stream exactly as received.
+ *
+ * `start --replay <dir>` serves those files instead of calling the network.
+ * The recorded body is handed back as a regular `Response`, so SSE parsing,
+ * translation and history recording run exactly as they did live. Requests
+ * are matched on a hash of method, path and canonical JSON body; headers and
+ * the upstream host are ignored, so replays don't depend on the account type
+ * or on per-request ids. Recording the same request twice keeps the latest.
+ *
+ * GitHub calls (Copilot token, quota) are never recorded, since they carry
+ * credentials; in replay mode they are stubbed instead (token/copilot-client).
+ */
+
+import consola from "consola"
+import { createHash, randomUUID } from "node:crypto"
+import fs from "node:fs/promises"
+import path from "node:path"
+
+import { sanitizeHeadersForHistory } from "~/lib/fetch-utils"
+import { canonicalJson } from "~/lib/utils"
+
+export type CassetteMode = "record" | "replay"
+
+/** One recorded upstream exchange, as stored on disk */
+export interface Cassette {
+  key: string
+  recordedAt: number
+  request: {
+    method: string
+    path: string
+    headers: Record<string, string>
+    body?: unknown
+  }
+  response: {
+    status: number
+    headers: Record<string, string>
+    /** Raw response body (SSE text for streaming requests) */
+    body: string
+  }
+}
+
+interface CassetteConfig {
+  mode: CassetteMode
+  dir: string
+}
+
+let activeConfig: CassetteConfig | null = null
+const pendingRecordings = new Set<Promise<void>>()
+
+/** Enable record or replay mode for all upstream requests (null disables) */
+export function setCassetteMode(config: CassetteConfig | null): void {
+  activeConfig = config
+}
+
+export function getCassetteMode(): CassetteMode | undefined {
+  return activeConfig?.mode
+}
+
+// ============================================================================
+// Keys
+// ============================================================================
+
+function parseBody(body: string | undefined): unknown {
+  if (body === undefined) return undefined
+  try {
+    return JSON.parse(body)
+  } catch {
+    return body
+  }
+}
+
+/** Hash of the normalized request: method, path (no host) and canonical body */
+export function computeCassetteKey(method: string, pathname: string, body: unknown): string {
+  return createHash("sha256")
+    .update(`${method.toUpperCase()} ${pathname}\n`)
+    .update(body === undefined ? "" : canonicalJson(body))
+    .digest("hex")
+}
+
+// ============================================================================
+// Fetch
+// ============================================================================
+
+function describeRequest(url: string, init: RequestInit | undefined) {
+  const { pathname, search } = new URL(url)
+  const method = init?.method ?? "GET"
+  const body = parseBody(typeof init?.body === "string" ? init.body : undefined)
+  return { method, path: pathname + search, body, key: computeCassetteKey(method, pathname + search, body) }
+}
+
+async function replay(dir: string, url: string, init: RequestInit | undefined): Promise<Response> {
+  const { method, path: requestPath, key } = describeRequest(url, init)
+
+  let cassette: Cassette
+  try {
+    cassette = JSON.parse(await fs.readFile(path.join(dir, `${key}.json`), "utf8")) as Cassette
+  } catch {
+    consola.warn(`[Cassettes] No recording for ${method} ${requestPath} (${key.slice(0, 12)})`)
+    return Response.json(
+      {
+        error: {
+          type: "cassette_not_found",
+          message: `No recorded response for ${method} ${requestPath} (cassette ${key}) in ${dir}`,
+        },
+      },
+      { status: 404 },
+    )
+  }
+
+  consola.debug(`[Cassettes] Replaying ${method} ${requestPath} (${key.slice(0, 12)})`)
+  return new Response(cassette.response.body, {
+    status: cassette.response.status,
+    headers: cassette.response.headers,
+  })
+}
+
+function record(dir: string, url: string, init: RequestInit | undefined, response: Response): void {
+  const { method, path: requestPath, body, key } = describeRequest(url, init)
+  const requestHeaders = sanitizeHeadersForHistory(Object.fromEntries(new Headers(init?.headers).entries()))
+
+  // Read a clone so the caller consumes the original stream at its own pace.
+  // An aborted stream rejects here and leaves no (truncated) cassette behind.
+  const recording = response
+    .clone()
+    .text()
+    .then(async (responseBody) => {
+      const cassette: Cassette = {
+        key,
+        recordedAt: Date.now(),
+        request: { method, path: requestPath, headers: requestHeaders, body },
+        response: {
+          status: response.status,
+          headers: Object.fromEntries(response.headers.entries()),
+          body: responseBody,
+        },
+      }
+      await fs.mkdir(dir, { recursive: true })
+      const file = path.join(dir, `${key}.json`)
+      // Unique temp name: concurrent identical requests race to the same key
+      const tmp = `${file}.${randomUUID()}.tmp`
+      await fs.writeFile(tmp, JSON.stringify(cassette, null, 2), "utf8")
+      await fs.rename(tmp, file)
+      consola.debug(`[Cassettes] Recorded ${method} ${requestPath} (${key.slice(0, 12)})`)
+    })
+    .catch((error: unknown) => {
+      consola.warn(`[Cassettes] Failed to record ${method} ${requestPath}:`, error)
+    })
+    .finally(() => {
+      pendingRecordings.delete(recording)
+    })
+  pendingRecordings.add(recording)
+}
+
+/**
+ * `fetch()` for Copilot API calls. Passes straight through unless record or
+ * replay mode is active. The request body must be a JSON string (or absent).
+ */
+export async function upstreamFetch(url: string, init?: RequestInit): Promise<Response> {
+  const config = activeConfig
+  if (config?.mode === "replay") return await replay(config.dir, url, init)
+
+  const response = await fetch(url, init)
+  if (config?.mode === "record") record(config.dir, url, init, response)
+  return response
+}
+
+/** Wait for pending cassette writes (tests, shutdown) */
+export async function flushCassettes(): Promise<void> {
+  await Promise.all(pendingRecordings)
+}
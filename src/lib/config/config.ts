@@ -8,15 +8,33 @@
 import consola from "consola"
 import fs from "node:fs/promises"
 
+import type { AdaptiveRateLimiterConfig, RequestPriority } from "~/lib/adaptive-rate-limiter"
+import type { ApiKeyPolicy } from "~/lib/api-key-auth"
+import type { BudgetLimit, BudgetRule } from "~/lib/budgets"
+import type { RedactionMode } from "~/lib/history/store"
+
+import { isRequestPriority } from "~/lib/adaptive-rate-limiter"
+import { seedModelLimits } from "~/lib/auto-truncate"
 import { setHistoryMaxEntries } from "~/lib/history"
+import { loadPlugins } from "~/lib/plugins"
+import { BUILTIN_DETECTORS, type BuiltinDetectorId, isBuiltinDetectorId, type RedactionRule } from "~/lib/redaction"
 import {
   type CacheControlMode,
   type CompiledRewriteRule,
+  type AutoTruncateMode,
   type ContextEditingMode,
   DEFAULT_MODEL_OVERRIDES,
+  type RepetitionPolicy,
   setAnthropicBehavior,
+  setAuthConfig,
+  setBudgetConfig,
+  setAutoTruncateConfig,
   setHistoryConfig,
+  setModelFallbacks,
   setModelOverrides,
+  setRedactionConfig,
+  setRepetitionConfig,
+  setResponseCacheConfig,
   setResponsesConfig,
   setShutdownConfig,
   setTimeoutConfig,
@@ -85,6 +103,146 @@ export function compileRewriteRules(raws: Array<RewriteRule>): Array<CompiledRew
   return raws.map((r) => compileRewriteRule(r)).filter((r): r is CompiledRewriteRule => r !== null)
 }
 
+/** Compile raw API key entries into policies, skipping entries without a key */
+export function compileApiKeyPolicies(raws: Array<ApiKeyConfig>): Array<ApiKeyPolicy> {
+  const policies: Array<ApiKeyPolicy> = []
+  for (const raw of raws) {
+    if (typeof raw.key !== "string" || !raw.key) {
+      consola.warn("[config] Ignoring auth.api_keys entry without a key")
+      continue
+    }
+    policies.push({
+      key: raw.key,
+      label: raw.label || `key-…${raw.key.slice(-4)}`,
+      ...(Array.isArray(raw.allowed_models) && { allowedModels: [...raw.allowed_models] }),
+    })
+  }
+  return policies
+}
+
+const BUDGET_SUBJECT_KINDS = new Set(["api_key", "session", "ip"])
+
+/** Budget limit keys and what they count */
+const BUDGET_LIMIT_KEYS = {
+  premium_requests_per_hour: { metric: "premium_requests", window: "hour" },
+  premium_requests_per_day: { metric: "premium_requests", window: "day" },
+  tokens_per_hour: { metric: "tokens", window: "hour" },
+  tokens_per_day: { metric: "tokens", window: "day" },
+} as const satisfies Record<string, Omit<BudgetLimit, "limit">>
+
+/** Compile budget rules, skipping rules without a name, a valid `by` or any limit */
+export function compileBudgetRules(raws: Array<BudgetRuleConfig>): Array<BudgetRule> {
+  const rules: Array<BudgetRule> = []
+  for (const raw of raws) {
+    if (!raw.name || !BUDGET_SUBJECT_KINDS.has(raw.by)) {
+      consola.warn(`[config] Ignoring budget rule without a name or a valid "by" (api_key, session, ip)`)
+      continue
+    }
+
+    const limits: Array<BudgetLimit> = []
+    for (const [key, kind] of Object.entries(BUDGET_LIMIT_KEYS)) {
+      const limit = raw[key as keyof typeof BUDGET_LIMIT_KEYS]
+      if (typeof limit === "number" && limit >= 0) limits.push({ ...kind, limit })
+    }
+    const hasMaxMultiplier = typeof raw.max_multiplier === "number"
+    if (limits.length === 0 && !Array.isArray(raw.allowed_models) && !hasMaxMultiplier) {
+      consola.warn(`[config] Ignoring budget rule "${raw.name}": it sets no limits`)
+      continue
+    }
+
+    rules.push({
+      name: raw.name,
+      by: raw.by,
+      limits,
+      ...(Array.isArray(raw.subjects) && { subjects: [...raw.subjects] }),
+      ...(Array.isArray(raw.allowed_models) && { allowedModels: [...raw.allowed_models] }),
+      ...(hasMaxMultiplier && { maxMultiplier: raw.max_multiplier }),
+    })
+  }
+  return rules
+}
+
+const REDACTION_MODES = new Set<string>(["mask", "block", "audit"])
+
+function isRedactionMode(value: unknown): value is RedactionMode {
+  return typeof value === "string" && REDACTION_MODES.has(value)
+}
+
+/** Compile the redaction section: enabled built-in detectors first, then custom patterns */
+export function compileRedactionRules(raw: RedactionConfig): Array<RedactionRule> {
+  const rules: Array<RedactionRule> = []
+
+  // Values come straight from YAML, so don't trust the declared type
+  for (const [id, mode] of Object.entries(raw.detectors ?? {}) as Array<[string, unknown]>) {
+    if (mode === "off" || mode === undefined || mode === null) continue
+    if (!isBuiltinDetectorId(id)) {
+      consola.warn(`[config] Unknown redaction detector "${id}"`)
+      continue
+    }
+    if (!isRedactionMode(mode)) {
+      consola.warn(`[config] Invalid mode ${JSON.stringify(mode)} for redaction detector "${id}"`)
+      continue
+    }
+    rules.push({ id, mode, ...BUILTIN_DETECTORS[id] })
+  }
+
+  for (const custom of Array.isArray(raw.custom) ? raw.custom : []) {
+    const mode = custom.mode ?? "mask"
+    if (!custom.name || !custom.pattern || !isRedactionMode(mode)) {
+      consola.warn(`[config] Ignoring redaction pattern without a name, a pattern or a valid mode`)
+      continue
+    }
+    let pattern: RegExp
+    try {
+      pattern = new RegExp(custom.pattern, "g")
+    } catch (err) {
+      consola.warn(`[config] Invalid regex in redaction pattern "${custom.name}"`, err)
+      continue
+    }
+    // A pattern matching the empty string would "match" between every character
+    if (pattern.test("")) {
+      consola.warn(`[config] Ignoring redaction pattern "${custom.name}": it matches the empty string`)
+      continue
+    }
+    rules.push({ id: custom.name, mode, pattern })
+  }
+
+  return rules
+}
+
+/** Compile the rate limiter's concurrency caps and priority classes, skipping invalid entries */
+export function compileRateLimiterScheduling(
+  raw: RateLimiterConfig,
+): Pick<
+  AdaptiveRateLimiterConfig,
+  "maxConcurrent" | "maxConcurrentPerKey" | "maxConcurrentPerModel" | "priorityRoutes" | "defaultPriority"
+> {
+  const maxConcurrentPerModel: Record<string, number> = {}
+  for (const [pattern, limit] of Object.entries(raw.max_concurrent_per_model ?? {})) {
+    if (Number.isInteger(limit) && limit > 0) maxConcurrentPerModel[pattern] = limit
+    else consola.warn(`[config] Ignoring rate_limiter.max_concurrent_per_model "${pattern}": not a positive integer`)
+  }
+
+  const priorityRoutes: Record<string, RequestPriority> = {}
+  for (const [pattern, priority] of Object.entries(raw.priority?.routes ?? {})) {
+    if (isRequestPriority(priority)) priorityRoutes[pattern] = priority
+    else consola.warn(`[config] Ignoring rate_limiter.priority.routes "${pattern}": unknown priority class`)
+  }
+
+  const defaultPriority = raw.priority?.default
+  if (defaultPriority !== undefined && !isRequestPriority(defaultPriority)) {
+    consola.warn(`[config] Ignoring rate_limiter.priority.default: unknown priority class`)
+  }
+
+  return {
+    maxConcurrent: Math.max(0, Math.floor(raw.max_concurrent ?? 0)),
+    maxConcurrentPerKey: Math.max(0, Math.floor(raw.max_concurrent_per_key ?? 0)),
+    maxConcurrentPerModel,
+    priorityRoutes,
+    defaultPriority: isRequestPriority(defaultPriority) ? defaultPriority : "interactive",
+  }
+}
+
 /** Rate limiter configuration section */
 export interface RateLimiterConfig {
   /** Seconds to wait before retrying after rate limit error (default: 10) */
@@ -95,6 +253,19 @@ export interface RateLimiterConfig {
   recovery_timeout?: number
   /** Number of consecutive successes needed to recover (default: 5) */
   consecutive_successes?: number
+  /** Maximum upstream calls in flight at once, 0 = unlimited (default: 0) */
+  max_concurrent?: number
+  /** Maximum upstream calls in flight per API key (or session when auth is off), 0 = unlimited (default: 0) */
+  max_concurrent_per_key?: number
+  /** Maximum upstream calls in flight per model pattern (`*` wildcards, first match applies) */
+  max_concurrent_per_model?: Record<string, number>
+  /** Priority classes for requests without an `x-copilot-priority` header */
+  priority?: {
+    /** Class of requests matching no route (default: interactive) */
+    default?: RequestPriority
+    /** Request path pattern (`*` wildcards) → class; first match applies */
+    routes?: Record<string, RequestPriority>
+  }
 }
 
 /** Anthropic-specific configuration section */
@@ -199,6 +370,12 @@ export interface ResponsesConfig {
   normalize_call_ids?: boolean
   /** Enable upstream WebSocket transport for /responses when supported by the model (default: false). */
   upstream_websocket?: boolean
+  /** Keep responses in memory for previous_response_id chaining and GET /responses/:id (default: true) */
+  local_store?: boolean
+  /** Maximum locally stored responses, least recently used evicted first (0 = unlimited, default: 200) */
+  store_max_entries?: number
+  /** Seconds a stored response stays available after its last use (0 = never expires, default: 86400) */
+  store_ttl_seconds?: number
 }
 
 /** History storage configuration section */
@@ -207,6 +384,140 @@ export interface HistoryConfig {
   limit?: number
   /** Minimum entries to keep even under memory pressure (default: 50) */
   min_entries?: number
+  /** Persist settled entries to disk and restore them on startup (default: false, read at startup) */
+  persist?: boolean
+  /** Delete persisted history older than this many days (0 = forever, default: 7) */
+  retention_days?: number
+  /** Size cap in MB for persisted history, oldest days deleted first (0 = unlimited, default: 1024) */
+  max_disk_mb?: number
+}
+
+/** Response cache configuration section */
+export interface ResponseCacheConfig {
+  /** Serve repeated deterministic requests from disk (default: false) */
+  enabled?: boolean
+  /** Seconds a cached response stays valid (0 = never expires, default: 86400) */
+  ttl_seconds?: number
+  /** Maximum cached responses, oldest evicted first (0 = unlimited, default: 1000) */
+  max_entries?: number
+}
+
+/** Auto-truncate configuration section */
+export interface AutoTruncateSectionConfig {
+  /** What replaces removed messages: "truncate" | "summarize" (default: "truncate") */
+  mode?: AutoTruncateMode
+  /** Model that writes summaries in summarize mode (default: "claude-haiku-4.5") */
+  summary_model?: string
+  /** Output token cap for one summary (default: 2048) */
+  summary_max_tokens?: number
+}
+
+/** Repetition detector configuration section */
+export interface RepetitionConfig {
+  /** What to do when streamed output loops: "warn" | "abort" | "abort-and-retry" (default: "warn") */
+  policy?: RepetitionPolicy
+  /** Shortest repeated pattern in characters that counts as a loop (default: 10) */
+  min_pattern_length?: number
+  /** Repetitions of the pattern needed to trigger the policy (default: 3) */
+  min_repetitions?: number
+}
+
+/** A single inbound API key entry */
+export interface ApiKeyConfig {
+  /** The secret clients send via `Authorization: Bearer` or `x-api-key` */
+  key: string
+  /** Label recorded on history entries and telemetry (default: last 4 chars of the key) */
+  label?: string
+  /** Resolved model IDs this key may use; `*` wildcards allowed (default: all models) */
+  allowed_models?: Array<string>
+}
+
+/** Inbound authentication configuration section */
+export interface AuthConfig {
+  /**
+   * API keys accepted by the proxy. When non-empty, all routes except `/`,
+   * `/health` and the Web UI shell require one of these keys.
+   */
+  api_keys?: Array<ApiKeyConfig>
+}
+
+/** A budget rule: limits applied to each subject (API key, session or client IP) separately */
+export interface BudgetRuleConfig {
+  /** Shown in 429 messages and on the dashboard; counters are keyed by it */
+  name: string
+  /** What identifies a subject: the API key label, the session header or the client IP */
+  by: "api_key" | "session" | "ip"
+  /** Subjects the rule applies to; `*` wildcards allowed (default: every subject) */
+  subjects?: Array<string>
+  /** Premium requests (billing multiplier per request) per clock hour / UTC day */
+  premium_requests_per_hour?: number
+  premium_requests_per_day?: number
+  /** Input + output tokens per clock hour / UTC day */
+  tokens_per_hour?: number
+  tokens_per_day?: number
+  /** Resolved model IDs subjects may use; `*` wildcards allowed (default: all models) */
+  allowed_models?: Array<string>
+  /** Highest billing multiplier subjects may use (e.g. 1 excludes 3x models) */
+  max_multiplier?: number
+}
+
+/** Per-user budgets configuration section */
+export interface BudgetsConfig {
+  rules?: Array<BudgetRuleConfig>
+  /** Take the client IP for `by: ip` rules from X-Forwarded-For (only behind a trusted proxy; default: false) */
+  trust_forwarded_for?: boolean
+}
+
+/** A custom redaction detector */
+export interface RedactionPatternConfig {
+  /** Shown in findings and in the `[REDACTED:<name>]` mask */
+  name: string
+  /** JavaScript regular expression */
+  pattern: string
+  /** Default: mask */
+  mode?: RedactionMode
+}
+
+/** Secret / PII redaction configuration section */
+export interface RedactionConfig {
+  /** Built-in detectors to enable and their mode (omitted or "off" = disabled) */
+  detectors?: Partial<Record<BuiltinDetectorId, RedactionMode | "off">>
+  /** Additional regex detectors */
+  custom?: Array<RedactionPatternConfig>
+}
+
+/** One extra GitHub account in the upstream account pool */
+export interface AccountPoolAccountConfig {
+  /** Name shown in /api/status and logs */
+  label: string
+  /** GitHub token with Copilot access */
+  github_token: string
+  /** Copilot plan of this account (default: individual) */
+  account_type?: "individual" | "business" | "enterprise"
+  /** Override the detected VSCode version for this account */
+  vscode_version?: string
+}
+
+/** Upstream account pool configuration section (startup-only) */
+export interface AccountPoolConfig {
+  /** How requests are assigned to accounts (default: round-robin) */
+  strategy?: "round-robin" | "least-premium-usage" | "sticky-session"
+  /** Seconds an account is skipped after a 429 without Retry-After (default: 60) */
+  cooldown_seconds?: number
+  /** Seconds an account is skipped after a 402 without Retry-After (default: 3600) */
+  quota_cooldown_seconds?: number
+  /** Accounts used in addition to the primary (--github-token / login) account */
+  accounts?: Array<AccountPoolAccountConfig>
+}
+
+/** OpenTelemetry trace export configuration section (startup-only) */
+export interface TracingConfig {
+  /** OTLP/HTTP traces URL, e.g. http://localhost:4318/v1/traces (tracing is off when unset) */
+  endpoint?: string
+  /** Extra headers sent to the collector (e.g. authorization) */
+  headers?: Record<string, string>
+  /** `service.name` resource attribute (default: copilot-api) */
+  service_name?: string
 }
 
 /** Application configuration loaded from config.yaml */
@@ -226,12 +537,34 @@ export interface Config {
   anthropic?: AnthropicConfig
   /** Responses API configuration */
   "openai-responses"?: ResponsesConfig
+  /** Inbound API-key authentication */
+  auth?: AuthConfig
+  /** Hook plugin modules, run in order (paths relative to the config directory, or package names) */
+  plugins?: Array<string>
+  /** Secret / PII detectors for outbound prompts and stored history */
+  redaction?: RedactionConfig
+  /** Per-user budgets: premium requests, tokens and model allowlists per API key, session or IP */
+  budgets?: BudgetsConfig
+  /** Additional upstream GitHub accounts (not hot-reloadable) */
+  account_pool?: AccountPoolConfig
+  /** OTLP trace export (not hot-reloadable) */
+  tracing?: TracingConfig
   /** Model name overrides: request model → target model */
   model_overrides?: Record<string, string>
+  /** Fallback chains: model → models to try in order on 503/5xx upstream failures */
+  model_fallbacks?: Record<string, Array<string>>
+  /** Known prompt token limits: model → tokens. Seeds auto-truncate before the first limit error */
+  model_limits?: Record<string, number>
   /** Compress old tool_result content before truncating (default: true) */
   compress_tool_results_before_truncate?: boolean
+  /** How auto-truncate replaces the messages it removes */
+  auto_truncate?: AutoTruncateSectionConfig
   /** History storage configuration */
   history?: HistoryConfig
+  /** Exact-match response cache for deterministic requests */
+  response_cache?: ResponseCacheConfig
+  /** Looping-output detection on streamed responses */
+  repetition_detector?: RepetitionConfig
   /** Shutdown timing configuration */
   shutdown?: ShutdownConfig
   /** Stream idle timeout in seconds for all paths (default: 300, 0 = no timeout) */
@@ -330,12 +663,13 @@ let lastAppliedMtimeMs = 0
  * Load config.yaml and apply all hot-reloadable settings to global state.
  *
  * Scalar fields: only overridden when explicitly present in config (deleted keys keep current runtime value).
- * Collection fields (model_overrides, rewrite_system_reminders array): entire replacement when present.
+ * Collection fields (model_overrides, model_fallbacks, rewrite_system_reminders array): entire replacement when present.
+ * model_limits: entire replacement, also when removed.
  *
  * Safe to call per-request — loadConfig() is mtime-cached, so unchanged config
  * only costs one stat() syscall.
  *
- * NOT hot-reloaded: rate_limiter (stateful singleton initialized at startup).
+ * NOT hot-reloaded: rate_limiter, account_pool, tracing (stateful singletons initialized at startup).
  */
 export async function applyConfigToState(): Promise<Config> {
   const config = await loadConfig()
@@ -390,16 +724,65 @@ export async function applyConfigToState(): Promise<Config> {
     })
   }
 
+  // Inbound API keys (collection: entire replacement)
+  if (config.auth && Array.isArray(config.auth.api_keys)) {
+    setAuthConfig({ apiKeys: compileApiKeyPolicies(config.auth.api_keys) })
+  }
+
+  // Redaction rules (collection: entire replacement)
+  if (config.redaction) {
+    setRedactionConfig({ redactionRules: compileRedactionRules(config.redaction) })
+  }
+
+  // Budget rules (collection: entire replacement)
+  if (config.budgets) {
+    setBudgetConfig({
+      budgetRules: Array.isArray(config.budgets.rules) ? compileBudgetRules(config.budgets.rules) : [],
+      budgetTrustForwardedFor: config.budgets.trust_forwarded_for ?? false,
+    })
+  }
+
+  // Hook plugins (collection: entire replacement — a removed entry unloads its plugin)
+  if (Array.isArray(config.plugins)) {
+    await loadPlugins(config.plugins.filter((item) => typeof item === "string" && item.length > 0))
+  }
+
   // Model overrides (collection: entire replacement from defaults + config)
   // User deletes a key → it reverts to default; user adds a key → it overrides default
   if (config.model_overrides) {
     setModelOverrides({ ...DEFAULT_MODEL_OVERRIDES, ...config.model_overrides })
   }
 
+  // Model fallback chains (collection: entire replacement when present)
+  if (config.model_fallbacks) {
+    const chains: Record<string, Array<string>> = {}
+    for (const [model, chain] of Object.entries(config.model_fallbacks)) {
+      if (Array.isArray(chain)) chains[model] = chain.filter((item) => typeof item === "string" && item.length > 0)
+    }
+    setModelFallbacks(chains)
+  }
+
+  // Model limit seeds (collection: entire replacement — a removed key drops its seed)
+  const seeds: Record<string, number> = {}
+  for (const [model, limit] of Object.entries(config.model_limits ?? {})) {
+    if (Number.isInteger(limit) && limit > 0) seeds[model] = limit
+  }
+  seedModelLimits(seeds)
+
   // Other settings (scalar: override only when present)
   if (config.compress_tool_results_before_truncate !== undefined)
     setAnthropicBehavior({ compressToolResultsBeforeTruncate: config.compress_tool_results_before_truncate })
 
+  // Auto-truncate (nested: override only when present)
+  if (config.auto_truncate) {
+    const a = config.auto_truncate
+    if (a.mode !== undefined) setAutoTruncateConfig({ autoTruncateMode: a.mode })
+    if (a.summary_model) setAutoTruncateConfig({ autoTruncateSummaryModel: a.summary_model })
+    if (a.summary_max_tokens !== undefined) {
+      setAutoTruncateConfig({ autoTruncateSummaryMaxTokens: a.summary_max_tokens })
+    }
+  }
+
   // History settings (nested: override only when present)
   if (config.history) {
     const h = config.history
@@ -408,6 +791,24 @@ export async function applyConfigToState(): Promise<Config> {
       setHistoryMaxEntries(h.limit)
     }
     if (h.min_entries !== undefined) setHistoryConfig({ historyMinEntries: h.min_entries })
+    if (h.retention_days !== undefined) setHistoryConfig({ historyRetentionDays: h.retention_days })
+    if (h.max_disk_mb !== undefined) setHistoryConfig({ historyMaxDiskMb: h.max_disk_mb })
+  }
+
+  // Response cache (nested: override only when present)
+  if (config.response_cache) {
+    const r = config.response_cache
+    if (r.enabled !== undefined) setResponseCacheConfig({ responseCacheEnabled: r.enabled })
+    if (r.ttl_seconds !== undefined) setResponseCacheConfig({ responseCacheTtl: r.ttl_seconds })
+    if (r.max_entries !== undefined) setResponseCacheConfig({ responseCacheMaxEntries: r.max_entries })
+  }
+
+  // Repetition detector (nested: override only when present)
+  if (config.repetition_detector) {
+    const r = config.repetition_detector
+    if (r.policy !== undefined) setRepetitionConfig({ repetitionPolicy: r.policy })
+    if (r.min_pattern_length !== undefined) setRepetitionConfig({ repetitionMinPatternLength: r.min_pattern_length })
+    if (r.min_repetitions !== undefined) setRepetitionConfig({ repetitionMinRepetitions: r.min_repetitions })
   }
 
   // Shutdown timing (scalar: override only when present)
@@ -432,6 +833,12 @@ export async function applyConfigToState(): Promise<Config> {
     setResponsesConfig({ normalizeResponsesCallIds: responsesConfig.normalize_call_ids })
   if (responsesConfig && responsesConfig.upstream_websocket !== undefined)
     setResponsesConfig({ upstreamWebSocket: responsesConfig.upstream_websocket })
+  if (responsesConfig && responsesConfig.local_store !== undefined)
+    setResponsesConfig({ responsesLocalStore: responsesConfig.local_store })
+  if (responsesConfig && responsesConfig.store_max_entries !== undefined)
+    setResponsesConfig({ responsesStoreMaxEntries: responsesConfig.store_max_entries })
+  if (responsesConfig && responsesConfig.store_ttl_seconds !== undefined)
+    setResponsesConfig({ responsesStoreTtl: responsesConfig.store_ttl_seconds })
 
   syncModelRefreshLoop()
 
@@ -12,7 +12,10 @@ export const PATHS = {
   CONFIG_YAML: path.join(APP_DIR, "config.yaml"),
   LEARNED_LIMITS: path.join(APP_DIR, "learned-limits.json"),
   REQUEST_TELEMETRY: path.join(APP_DIR, "request-telemetry.json"),
+  BUDGETS: path.join(APP_DIR, "budgets.json"),
   ERROR_DIR: path.join(APP_DIR, "errmsgs"),
+  HISTORY_DIR: path.join(APP_DIR, "history"),
+  RESPONSE_CACHE_DIR: path.join(APP_DIR, "response-cache"),
 }
 
 export async function ensurePaths(): Promise<void> {
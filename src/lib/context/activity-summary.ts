@@ -16,6 +16,9 @@ export interface RequestActivitySnapshot {
   attemptCount: number
   currentStrategy?: string
   queueWaitMs: number
+  priority: RequestContext["priority"]
+  /** Position in a rate limiter queue while waiting */
+  queuePosition?: number
   transport?: RequestTransport
 }
 
@@ -40,6 +43,8 @@ export function summarizeRequestContext(context: RequestContext): RequestActivit
     attemptCount: context.attempts?.length ?? 0,
     currentStrategy: context.currentAttempt?.strategy,
     queueWaitMs: context.queueWaitMs ?? 0,
+    priority: context.priority,
+    ...(context.queuePosition ? { queuePosition: context.queuePosition } : {}),
     ...(context.transport ? { transport: context.transport } : {}),
   }
 }
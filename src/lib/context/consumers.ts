@@ -1,15 +1,19 @@
 /**
  * Context event consumers — bridge between RequestContext events and subsystems.
  *
- * Three consumers subscribe to RequestContextManager "change" events:
+ * Consumers subscribing to RequestContextManager "change" events:
  * 1. History consumer → inserts/updates HistoryEntry in the store
  * 2. TUI consumer → updates tuiLogger for terminal display
  * 3. (WebSocket is handled implicitly via store's notifyEntryAdded/Updated)
+ * 4. Error persistence, tracing and budget consumers (registered below, defined in their own modules)
  */
 
 import type { HistoryEntry, MessageContent } from "~/lib/history"
 
+import { getReplayScope } from "~/lib/history/replay"
 import { insertEntry, isHistoryEnabled, updateEntry } from "~/lib/history/store"
+import { redactForStorage } from "~/lib/redaction"
+import { state } from "~/lib/state"
 import { tuiLogger } from "~/lib/tui"
 
 import type { RequestContextEvent, RequestContextManager } from "./manager"
@@ -35,11 +39,14 @@ function handleHistoryEvent(event: RequestContextEvent): void {
         const orig = event.context.originalRequest
         if (!orig) break
         const ctx = event.context
+        const replay = getReplayScope()
 
         const entry: HistoryEntry = {
           id: ctx.id,
           ...(ctx.sessionId ? { sessionId: ctx.sessionId } : {}),
           ...(ctx.rawPath ? { rawPath: ctx.rawPath } : {}),
+          ...(ctx.apiKeyLabel ? { apiKeyLabel: ctx.apiKeyLabel } : {}),
+          ...(replay ? { replayOf: replay.sourceId } : {}),
           endpoint: ctx.endpoint,
           ...buildHistoryActivityPatch(ctx),
           request: {
@@ -48,10 +55,13 @@ function handleHistoryEvent(event: RequestContextEvent): void {
             stream: orig.stream,
             tools: orig.tools as HistoryEntry["request"]["tools"],
             system: orig.system as HistoryEntry["request"]["system"],
+            payload: orig.payload,
           },
         }
 
-        insertEntry(entry)
+        insertEntry(redactForStorage(entry, state.redactionRules))
+        // The first entry a replay creates is its result (later ones would be nested requests)
+        if (replay) replay.entryId ??= ctx.id
       }
       if (event.field === "attempts" || event.field === "queueWaitMs") {
         updateEntry(event.context.id, buildHistoryActivityPatch(event.context))
@@ -62,6 +72,9 @@ function handleHistoryEvent(event: RequestContextEvent): void {
       if (event.field === "pipelineInfo" && event.context.pipelineInfo) {
         updateEntry(event.context.id, { pipelineInfo: event.context.pipelineInfo })
       }
+      if (event.field === "redactions") {
+        updateEntry(event.context.id, { redactions: [...event.context.redactions] })
+      }
       break
     }
 
@@ -72,7 +85,8 @@ function handleHistoryEvent(event: RequestContextEvent): void {
 
     case "completed":
     case "failed": {
-      const entryData = event.entry
+      // Request and response content (and SSE events) are stored with secrets masked
+      const entryData = redactForStorage(event.entry, state.redactionRules)
       const response = toHistoryResponse(entryData)
 
       updateEntry(entryData.id, {
@@ -159,6 +173,10 @@ function handleTuiEvent(event: RequestContextEvent): void {
           tuiLogger.updateRequest(tuiLogId, { tags: [transportTag] })
         }
       }
+      if (event.field === "queuePosition") {
+        const queuePosition = event.context.queuePosition ?? 0
+        tuiLogger.updateRequest(tuiLogId, { queuePosition, status: queuePosition > 0 ? "queued" : "executing" })
+      }
       break
     }
 
@@ -234,10 +252,15 @@ function toTransportTag(transport: HistoryEntry["transport"] | undefined): strin
 
 // ─── Registration ───
 
+import { handleBudgetEvent } from "~/lib/budgets"
+import { handleTracingEvent } from "~/lib/tracing"
+
 import { handleErrorPersistence } from "./error-persistence"
 
 export function registerContextConsumers(manager: RequestContextManager): void {
   manager.on("change", handleHistoryEvent)
   manager.on("change", handleTuiEvent)
   manager.on("change", handleErrorPersistence)
+  manager.on("change", handleTracingEvent)
+  manager.on("change", handleBudgetEvent)
 }
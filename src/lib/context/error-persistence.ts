@@ -23,6 +23,8 @@ import * as fs from "node:fs/promises"
 import * as path from "node:path"
 
 import { PATHS } from "~/lib/config/paths"
+import { redactForStorage } from "~/lib/redaction"
+import { state } from "~/lib/state"
 
 import type { RequestContextEvent } from "./manager"
 import type { HistoryEntryData } from "./request"
@@ -35,7 +37,7 @@ import type { HistoryEntryData } from "./request"
 export function handleErrorPersistence(event: RequestContextEvent): void {
   if (event.type !== "failed") return
 
-  writeErrorEntry(event.entry).catch((err: unknown) => {
+  writeErrorEntry(redactForStorage(event.entry, state.redactionRules)).catch((err: unknown) => {
     consola.debug(`[ErrorPersistence] Failed to write error file: ${String(err)}`)
   })
 }
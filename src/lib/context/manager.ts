@@ -16,12 +16,13 @@
 
 import { consola } from "consola"
 
+import type { RequestPriority } from "~/lib/adaptive-rate-limiter"
 import type { EndpointType } from "~/lib/history/store"
 
+import { recordRequestMetrics } from "~/lib/metrics"
+import { recordAcceptedRequest, recordSettledRequest } from "~/lib/request-telemetry"
 import { state } from "~/lib/state"
-
 import { notifyActiveRequestChanged } from "~/lib/ws"
-import { recordAcceptedRequest, recordSettledRequest } from "~/lib/request-telemetry"
 
 import type { HistoryEntryData, RequestContext, RequestContextEventData, RequestState } from "./request"
 
@@ -41,7 +42,18 @@ export type RequestContextEvent =
 
 export interface RequestContextManager {
   /** Create and register a new active request context */
-  create(opts: { endpoint: EndpointType; sessionId?: string; tuiLogId?: string; rawPath?: string }): RequestContext
+  create(opts: {
+    endpoint: EndpointType
+    sessionId?: string
+    tuiLogId?: string
+    rawPath?: string
+    /** Label of the inbound API key that authenticated the request */
+    apiKeyLabel?: string
+    /** Inbound W3C `traceparent` header (OTLP tracing) */
+    traceParent?: string
+    /** Scheduling class in the rate limiter queues (default: interactive) */
+    priority?: RequestPriority
+  }): RequestContext
 
   /** Get an active request by ID */
   get(id: string): RequestContext | undefined
@@ -175,6 +187,13 @@ export function createRequestContextManager(): RequestContextManager {
             field: rawEvent.field,
           })
         }
+        if (rawEvent.field === "queuePosition") {
+          notifyActiveRequestChanged({
+            action: "queue_position_changed",
+            request: summarizeRequestContext(context),
+            activeCount: activeContexts.size,
+          })
+        }
         break
       }
       case "completed": {
@@ -184,7 +203,9 @@ export function createRequestContextManager(): RequestContextManager {
             endedAt: rawEvent.entry.endedAt,
             success: rawEvent.entry.response?.success ?? true,
             usage: rawEvent.entry.response?.usage,
+            apiKeyLabel: rawEvent.entry.apiKeyLabel,
           })
+          recordRequestMetrics(rawEvent.entry)
           emit({
             type: "completed",
             context,
@@ -206,7 +227,9 @@ export function createRequestContextManager(): RequestContextManager {
             endedAt: rawEvent.entry.endedAt,
             success: rawEvent.entry.response?.success ?? false,
             usage: rawEvent.entry.response?.usage,
+            apiKeyLabel: rawEvent.entry.apiKeyLabel,
           })
+          recordRequestMetrics(rawEvent.entry)
           emit({
             type: "failed",
             context,
@@ -234,6 +257,9 @@ export function createRequestContextManager(): RequestContextManager {
         sessionId: opts.sessionId,
         tuiLogId: opts.tuiLogId,
         rawPath: opts.rawPath,
+        apiKeyLabel: opts.apiKeyLabel,
+        traceParent: opts.traceParent,
+        priority: opts.priority,
         onEvent: handleContextEvent,
       })
       recordAcceptedRequest(ctx.startTime)
@@ -6,10 +6,13 @@
  * Each retry creates a new Attempt in the attempts array.
  */
 
+import type { RequestPriority } from "~/lib/adaptive-rate-limiter"
 import type { ApiError } from "~/lib/error"
 import type {
   EndpointType,
   PipelineInfo,
+  PluginHookInfo,
+  RedactionFinding,
   SanitizationInfo,
   SseEventRecord,
   TruncationInfo,
@@ -56,6 +59,9 @@ export function createRequestContext(opts: {
   sessionId?: string
   tuiLogId?: string
   rawPath?: string
+  apiKeyLabel?: string
+  traceParent?: string
+  priority?: RequestPriority
   onEvent: RequestContextEventCallback
 }): RequestContext {
   const id = `req_${Date.now()}_${++idCounter}`
@@ -68,10 +74,13 @@ export function createRequestContext(opts: {
   let _originalRequest: OriginalRequest | null = null
   let _response: ResponseData | null = null
   let _pipelineInfo: PipelineInfo | null = null
+  const _pluginHooks: Array<PluginHookInfo> = []
   let _sseEvents: Array<SseEventRecord> | null = null
   let _httpHeaders: { request: Record<string, string>; response: Record<string, string> } | null = null
   let _queueWaitMs = 0
+  let _queuePosition: number | undefined
   const _warningMessages: Array<WarningMessage> = []
+  let _redactions: Array<RedactionFinding> = []
   const _attempts: Array<Attempt> = []
   let _endTime: number | null = null
   /** Guard: once complete() or fail() is called, subsequent calls are no-ops */
@@ -92,6 +101,9 @@ export function createRequestContext(opts: {
     },
     tuiLogId: opts.tuiLogId,
     rawPath: opts.rawPath,
+    apiKeyLabel: opts.apiKeyLabel,
+    traceParent: opts.traceParent,
+    priority: opts.priority ?? "interactive",
     startTime,
     get endTime() {
       return _endTime
@@ -114,7 +126,8 @@ export function createRequestContext(opts: {
       return _response
     },
     get pipelineInfo() {
-      return _pipelineInfo
+      // Plugin hooks are tracked separately so handlers can keep replacing the rest wholesale
+      return _pluginHooks.length > 0 ? { ..._pipelineInfo, plugins: [..._pluginHooks] } : _pipelineInfo
     },
     get httpHeaders() {
       return _httpHeaders
@@ -131,9 +144,15 @@ export function createRequestContext(opts: {
     get queueWaitMs() {
       return _queueWaitMs
     },
+    get queuePosition() {
+      return _queuePosition
+    },
     get warningMessages() {
       return _warningMessages
     },
+    get redactions() {
+      return _redactions
+    },
 
     setSessionId(sessionId: string | undefined) {
       _sessionId = sessionId
@@ -150,6 +169,11 @@ export function createRequestContext(opts: {
       emit({ type: "updated", context: ctx, field: "pipelineInfo" })
     },
 
+    addPluginHook(info: PluginHookInfo) {
+      _pluginHooks.push(info)
+      emit({ type: "updated", context: ctx, field: "pipelineInfo" })
+    },
+
     setSseEvents(events: Array<SseEventRecord>) {
       _sseEvents = events.length > 0 ? events : null
     },
@@ -170,6 +194,11 @@ export function createRequestContext(opts: {
       emit({ type: "updated", context: ctx, field: "warningMessages" })
     },
 
+    setRedactions(findings: Array<RedactionFinding>) {
+      _redactions = findings
+      emit({ type: "updated", context: ctx, field: "redactions" })
+    },
+
     beginAttempt(attemptOpts: {
       strategy?: string
       waitMs?: number
@@ -245,6 +274,13 @@ export function createRequestContext(opts: {
       emit({ type: "updated", context: ctx, field: "queueWaitMs" })
     },
 
+    setQueuePosition(position: number) {
+      const next = position > 0 ? position : undefined
+      if (next === _queuePosition) return
+      _queuePosition = next
+      emit({ type: "updated", context: ctx, field: "queuePosition" })
+    },
+
     transition(newState: RequestState, meta?: Record<string, unknown>) {
       const previousState = _state
       _state = newState
@@ -309,6 +345,7 @@ export function createRequestContext(opts: {
         endpoint: opts.endpoint,
         ...(_sessionId ? { sessionId: _sessionId } : {}),
         ...(opts.rawPath ? { rawPath: opts.rawPath } : {}),
+        ...(opts.apiKeyLabel ? { apiKeyLabel: opts.apiKeyLabel } : {}),
         startedAt: startTime,
         endedAt,
         state: _state,
@@ -320,6 +357,7 @@ export function createRequestContext(opts: {
         durationMs: endedAt - startTime,
         ...(ctx.transport ? { transport: ctx.transport } : {}),
         ...(_warningMessages.length > 0 && { warningMessages: [..._warningMessages] }),
+        ...(_redactions.length > 0 && { redactions: [..._redactions] }),
         request: {
           model: _originalRequest?.model,
           messages: _originalRequest?.messages,
@@ -343,8 +381,9 @@ export function createRequestContext(opts: {
         entry.truncation = lastTruncation
       }
 
-      if (_pipelineInfo) {
-        entry.pipelineInfo = _pipelineInfo
+      const pipelineInfo = ctx.pipelineInfo
+      if (pipelineInfo) {
+        entry.pipelineInfo = pipelineInfo
       }
 
       if (_sseEvents) {
@@ -393,6 +432,7 @@ export function createRequestContext(opts: {
           truncation: a.truncation,
           sanitization: a.sanitization,
           effectiveMessageCount: a.effectiveRequest?.messages.length,
+          model: a.effectiveRequest?.model || undefined,
         }))
       }
 
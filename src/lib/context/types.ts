@@ -1,7 +1,10 @@
+import type { RequestPriority } from "~/lib/adaptive-rate-limiter"
 import type { ApiError } from "~/lib/error"
 import type {
   EndpointType,
   PipelineInfo,
+  PluginHookInfo,
+  RedactionFinding,
   RequestLifecycleState,
   RequestTransport,
   SanitizationInfo,
@@ -99,6 +102,7 @@ export interface HistoryEntryData {
   id: string
   endpoint: EndpointType
   rawPath?: string
+  apiKeyLabel?: string
   startedAt: number
   endedAt: number
   state: RequestState
@@ -111,6 +115,7 @@ export interface HistoryEntryData {
   sessionId?: string
   transport?: RequestTransport
   warningMessages?: Array<WarningMessage>
+  redactions?: Array<RedactionFinding>
 
   request: {
     model?: string
@@ -159,6 +164,8 @@ export interface HistoryEntryData {
     truncation?: TruncationInfo
     sanitization?: SanitizationInfo
     effectiveMessageCount?: number
+    /** Model sent on this attempt (changes after a model fallback) */
+    model?: string
   }>
 }
 
@@ -182,6 +189,12 @@ export interface RequestContext {
   readonly sessionId: string | undefined
   readonly tuiLogId: string | undefined
   readonly rawPath: string | undefined
+  /** Label of the inbound API key that authenticated the request (undefined when auth is disabled) */
+  readonly apiKeyLabel: string | undefined
+  /** Inbound W3C `traceparent` header; the request's trace span continues that trace */
+  readonly traceParent: string | undefined
+  /** Scheduling class in the rate limiter queues */
+  readonly priority: RequestPriority
   readonly startTime: number
   readonly endTime: number | null
   readonly endpoint: EndpointType
@@ -199,14 +212,21 @@ export interface RequestContext {
   readonly attempts: ReadonlyArray<Attempt>
   readonly currentAttempt: Attempt | null
   readonly queueWaitMs: number
+  /** 1-based position in a rate limiter queue while waiting (undefined when not queued) */
+  readonly queuePosition: number | undefined
   readonly warningMessages: ReadonlyArray<WarningMessage>
+  /** Redaction detector matches in the client's prompt */
+  readonly redactions: ReadonlyArray<RedactionFinding>
 
   setSessionId(sessionId: string | undefined): void
   setOriginalRequest(req: OriginalRequest): void
   setPipelineInfo(info: PipelineInfo): void
+  /** Record a plugin hook run; surfaces as `pipelineInfo.plugins` */
+  addPluginHook(info: PluginHookInfo): void
   setSseEvents(events: Array<SseEventRecord>): void
   setHttpHeaders(capture: HeadersCapture): void
   addWarningMessage(warning: WarningMessage): void
+  setRedactions(findings: Array<RedactionFinding>): void
   beginAttempt(opts: {
     strategy?: string
     waitMs?: number
@@ -220,6 +240,8 @@ export interface RequestContext {
   setAttemptResponse(response: ResponseData): void
   setAttemptError(error: ApiError): void
   addQueueWaitMs(ms: number): void
+  /** Report the queue position; 0 when the upstream call starts */
+  setQueuePosition(position: number): void
   transition(newState: RequestState, meta?: Record<string, unknown>): void
   complete(response: ResponseData): void
   fail(model: string, error: unknown): void
@@ -3,6 +3,7 @@ import { randomUUID } from "node:crypto"
 import type { State } from "./state"
 
 import { setVSCodeVersion } from "./state"
+import { getActiveAccount } from "./token/account-context"
 
 export const standardHeaders = () => ({
   "content-type": "application/json",
@@ -29,10 +30,24 @@ const GITHUB_API_VERSION = "2022-11-28"
  */
 const INTERACTION_ID = randomUUID()
 
-export const copilotBaseUrl = (state: State) =>
-  state.accountType === "individual" ?
-    "https://api.githubcopilot.com"
-  : `https://api.${state.accountType}.githubcopilot.com`
+type UpstreamIdentity = Pick<State, "accountType" | "copilotToken" | "githubToken" | "vsCodeVersion">
+
+/** Identity for upstream calls: the pool account in scope, else the global one */
+function upstreamIdentity(state: State): UpstreamIdentity {
+  const account = getActiveAccount()
+  if (!account) return state
+  return {
+    accountType: account.accountType,
+    copilotToken: account.copilotToken,
+    githubToken: account.githubToken,
+    vsCodeVersion: account.vsCodeVersion ?? state.vsCodeVersion,
+  }
+}
+
+export const copilotBaseUrl = (state: State) => {
+  const { accountType } = upstreamIdentity(state)
+  return accountType === "individual" ? "https://api.githubcopilot.com" : `https://api.${accountType}.githubcopilot.com`
+}
 
 export const copilotWsUrl = (state: State) => copilotBaseUrl(state).replace(/^https:\/\//u, "wss://") + "/responses"
 
@@ -46,13 +61,14 @@ export interface CopilotHeaderOptions {
 }
 
 export const copilotHeaders = (state: State, opts?: CopilotHeaderOptions) => {
+  const identity = upstreamIdentity(state)
   const requestId = randomUUID()
   const interactionType = opts?.intent ?? "conversation-panel"
   const headers: Record<string, string> = {
-    Authorization: `Bearer ${state.copilotToken}`,
+    Authorization: `Bearer ${identity.copilotToken}`,
     "content-type": standardHeaders()["content-type"],
     "copilot-integration-id": "vscode-chat",
-    "editor-version": `vscode/${state.vsCodeVersion}`,
+    "editor-version": `vscode/${identity.vsCodeVersion}`,
     "editor-plugin-version": EDITOR_PLUGIN_VERSION,
     "user-agent": USER_AGENT,
     "openai-intent": interactionType,
@@ -78,15 +94,18 @@ export const copilotHeaders = (state: State, opts?: CopilotHeaderOptions) => {
 }
 
 export const GITHUB_API_BASE_URL = "https://api.github.com"
-export const githubHeaders = (state: State) => ({
-  ...standardHeaders(),
-  authorization: `token ${state.githubToken}`,
-  "editor-version": `vscode/${state.vsCodeVersion}`,
-  "editor-plugin-version": EDITOR_PLUGIN_VERSION,
-  "user-agent": USER_AGENT,
-  "x-github-api-version": GITHUB_API_VERSION,
-  "x-vscode-user-agent-library-version": "electron-fetch",
-})
+export const githubHeaders = (state: State) => {
+  const identity = upstreamIdentity(state)
+  return {
+    ...standardHeaders(),
+    authorization: `token ${identity.githubToken}`,
+    "editor-version": `vscode/${identity.vsCodeVersion}`,
+    "editor-plugin-version": EDITOR_PLUGIN_VERSION,
+    "user-agent": USER_AGENT,
+    "x-github-api-version": GITHUB_API_VERSION,
+    "x-vscode-user-agent-library-version": "electron-fetch",
+  }
+}
 
 export const GITHUB_BASE_URL = "https://github.com"
 export const GITHUB_CLIENT_ID = "Iv1.b507a08c87ecfe98"
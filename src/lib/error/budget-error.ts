@@ -0,0 +1,28 @@
+import type { EndpointType } from "~/lib/history/store"
+
+import { HTTPError } from "./http-error"
+
+/** A config.yaml `budgets` rule rejected the request; forwarded as 429 in the client's own error format */
+export class BudgetExceededError extends HTTPError {
+  /** Client format the error body is rendered in */
+  readonly endpoint: EndpointType
+  /** Seconds until the exhausted window resets (undefined when the model itself is not allowed) */
+  readonly retryAfter?: number
+
+  constructor(message: string, endpoint: EndpointType, retryAfter?: number) {
+    super(message, 429, message)
+    this.endpoint = endpoint
+    this.retryAfter = retryAfter
+  }
+
+  /** Error body as the client's API would return it */
+  toResponseBody() {
+    if (this.endpoint === "anthropic-messages") {
+      return { type: "error", error: { type: "rate_limit_error", message: this.message } }
+    }
+    if (this.endpoint === "gemini-generate-content") {
+      return { error: { code: 429, message: this.message, status: "RESOURCE_EXHAUSTED" } }
+    }
+    return { error: { message: this.message, type: "insufficient_quota", param: null, code: "insufficient_quota" } }
+  }
+}
@@ -3,6 +3,7 @@ import type { ContentfulStatusCode } from "hono/utils/http-status"
 
 import consola from "consola"
 
+import { BudgetExceededError } from "./budget-error"
 import { HTTPError } from "./http-error"
 import { extractTokenLimitFromResponseText, isUpstreamRateLimited } from "./parsing"
 import { formatErrorWithCause, parseRetryAfterHeader } from "./utils"
@@ -97,6 +98,12 @@ function formatContentFilteredError(responseText: string) {
 export function forwardError(c: Context, error: unknown) {
   // Error file persistence is handled by the error-persistence consumer
   // (subscribes to "failed" events on RequestContext) — no inline writing here.
+  if (error instanceof BudgetExceededError) {
+    consola.warn(`HTTP 429: ${error.message}`)
+    const headers = error.retryAfter !== undefined ? { "Retry-After": String(error.retryAfter) } : undefined
+    return c.json(error.toResponseBody(), 429, headers)
+  }
+
   if (error instanceof HTTPError) {
     const limitInfo = error.status === 400 ? extractTokenLimitFromResponseText(error.responseText) : null
 
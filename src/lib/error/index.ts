@@ -1,3 +1,4 @@
+export { BudgetExceededError } from "./budget-error"
 export { classifyError, type ApiError, type ApiErrorType } from "./classify"
 export { forwardError } from "./forward"
 export { HTTPError } from "./http-error"
@@ -0,0 +1,88 @@
+import type { ServerSentEventMessage } from "fetch-event-stream"
+
+import type { GeminiCandidate, GeminiPart, GenerateContentResponse } from "~/types/api/gemini"
+import type { ChatCompletionChunk, ChatCompletionUsage, FinishReason } from "~/types/api/openai-chat-completions"
+
+import { mapFinishReason, mapUsage, toFunctionCallPart } from "./cc-to-gemini"
+
+interface PendingToolCall {
+  id: string
+  function: { name: string; arguments: string }
+}
+
+interface CandidateState {
+  /** Chat Completions tool_call index → call whose arguments are still streaming */
+  toolCalls: Map<number, PendingToolCall>
+  finishReason: FinishReason | null
+}
+
+/**
+ * Translate an upstream Chat Completions SSE stream into Gemini stream chunks.
+ *
+ * Text and reasoning deltas are forwarded as they arrive. Gemini streams each
+ * function call whole, so tool call arguments are buffered; the calls,
+ * finish reasons and usage go out together in the last chunk, since with
+ * `include_usage` the usage chunk arrives after the one carrying `finish_reason`.
+ */
+export async function* translateChatStreamToGemini(
+  upstream: AsyncIterable<ServerSentEventMessage>,
+): AsyncGenerator<ServerSentEventMessage> {
+  const candidates = new Map<number, CandidateState>()
+  let responseId = ""
+  let modelVersion = ""
+  let usage: ChatCompletionUsage | undefined
+
+  for await (const rawEvent of upstream) {
+    if (!rawEvent.data || rawEvent.data === "[DONE]") continue
+
+    const chunk = JSON.parse(rawEvent.data) as ChatCompletionChunk
+    responseId ||= chunk.id
+    modelVersion ||= chunk.model
+    if (chunk.usage) usage = chunk.usage
+
+    const deltas: Array<GeminiCandidate> = []
+    for (const choice of chunk.choices) {
+      let candidate = candidates.get(choice.index)
+      if (!candidate) {
+        candidate = { toolCalls: new Map(), finishReason: null }
+        candidates.set(choice.index, candidate)
+      }
+
+      const delta = choice.delta as typeof choice.delta & { reasoning_text?: string | null }
+      const parts: Array<GeminiPart> = []
+      if (delta.reasoning_text) parts.push({ text: delta.reasoning_text, thought: true })
+      if (delta.content) parts.push({ text: delta.content })
+
+      for (const toolCall of delta.tool_calls ?? []) {
+        const pending = candidate.toolCalls.get(toolCall.index) ?? {
+          id: toolCall.id ?? `call_${choice.index}_${toolCall.index}`,
+          function: { name: "", arguments: "" },
+        }
+        pending.function.name ||= toolCall.function?.name ?? ""
+        pending.function.arguments += toolCall.function?.arguments ?? ""
+        candidate.toolCalls.set(toolCall.index, pending)
+      }
+
+      if (choice.finish_reason) candidate.finishReason = choice.finish_reason
+      if (parts.length > 0) deltas.push({ index: choice.index, content: { role: "model", parts } })
+    }
+
+    if (deltas.length > 0) yield toSseMessage({ candidates: deltas, modelVersion, responseId })
+  }
+
+  if (candidates.size === 0) candidates.set(0, { toolCalls: new Map(), finishReason: null })
+  yield toSseMessage({
+    candidates: [...candidates].map(([index, candidate]) => ({
+      index,
+      content: { role: "model", parts: [...candidate.toolCalls.values()].map((call) => toFunctionCallPart(call)) },
+      finishReason: mapFinishReason(candidate.finishReason),
+    })),
+    usageMetadata: mapUsage(usage),
+    modelVersion,
+    responseId,
+  })
+}
+
+function toSseMessage(response: GenerateContentResponse): ServerSentEventMessage {
+  return { data: JSON.stringify(response) } as ServerSentEventMessage
+}
@@ -0,0 +1,68 @@
+import type { GeminiFinishReason, GeminiPart, GeminiUsageMetadata, GenerateContentResponse } from "~/types/api/gemini"
+import type {
+  ChatCompletionResponse,
+  ChatCompletionUsage,
+  FinishReason,
+  ToolCall,
+} from "~/types/api/openai-chat-completions"
+
+import { safeParseJson } from "~/lib/request/response"
+
+/** Translate a non-streaming Chat Completions response into a Gemini response, one candidate per choice */
+export function translateChatCompletionToGemini(response: ChatCompletionResponse): GenerateContentResponse {
+  return {
+    candidates: response.choices.map((choice) => {
+      // Copilot extension: some Chat Completions models return their reasoning as `reasoning_text`
+      const reasoningText = (choice.message as { reasoning_text?: string }).reasoning_text
+      const parts: Array<GeminiPart> = []
+      if (reasoningText) parts.push({ text: reasoningText, thought: true })
+      if (choice.message.content) parts.push({ text: choice.message.content })
+      parts.push(...(choice.message.tool_calls ?? []).map((toolCall) => toFunctionCallPart(toolCall)))
+
+      return {
+        index: choice.index,
+        content: { role: "model", parts },
+        finishReason: mapFinishReason(choice.finish_reason),
+      }
+    }),
+    usageMetadata: mapUsage(response.usage),
+    modelVersion: response.model,
+    responseId: response.id,
+  }
+}
+
+export function toFunctionCallPart(toolCall: Pick<ToolCall, "id" | "function">): GeminiPart {
+  return {
+    functionCall: { id: toolCall.id, name: toolCall.function.name, args: safeParseJson(toolCall.function.arguments) },
+  }
+}
+
+/** Gemini reports function calls as a normal STOP */
+export function mapFinishReason(finishReason: FinishReason | null): GeminiFinishReason {
+  switch (finishReason) {
+    case "length": {
+      return "MAX_TOKENS"
+    }
+    case "content_filter": {
+      return "SAFETY"
+    }
+    default: {
+      return "STOP"
+    }
+  }
+}
+
+export function mapUsage(usage: ChatCompletionUsage | undefined): GeminiUsageMetadata {
+  const promptTokens = usage?.prompt_tokens ?? 0
+  const completionTokens = usage?.completion_tokens ?? 0
+  const cachedTokens = usage?.prompt_tokens_details?.cached_tokens
+  const reasoningTokens = usage?.completion_tokens_details?.reasoning_tokens
+
+  return {
+    promptTokenCount: promptTokens,
+    candidatesTokenCount: completionTokens,
+    totalTokenCount: usage?.total_tokens ?? promptTokens + completionTokens,
+    ...(cachedTokens && { cachedContentTokenCount: cachedTokens }),
+    ...(reasoningTokens && { thoughtsTokenCount: reasoningTokens }),
+  }
+}
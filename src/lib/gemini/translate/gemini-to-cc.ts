@@ -0,0 +1,322 @@
+import type { Model } from "~/lib/models/client"
+import type {
+  GeminiContent,
+  GeminiGenerateContentPayload,
+  GeminiGenerationConfig,
+  GeminiPart,
+  GeminiTool,
+  GeminiToolConfig,
+} from "~/types/api/gemini"
+import type {
+  ChatCompletionsPayload,
+  ContentPart,
+  Message,
+  ResponseFormat,
+  Tool,
+  ToolCall,
+} from "~/types/api/openai-chat-completions"
+
+import { HTTPError } from "~/lib/error"
+
+type ReasoningEffort = NonNullable<ChatCompletionsPayload["reasoning_effort"]>
+
+export interface TranslateResult {
+  payload: ChatCompletionsPayload
+  droppedParams: Array<string>
+}
+
+export interface TranslateOptions {
+  /** Resolved target model — used to gate `reasoning_effort` on advertised support */
+  model?: Model
+}
+
+/**
+ * Translate a Gemini generateContent request into a Chat Completions payload.
+ *
+ * Gemini function calls only carry an id on newer models, so calls without one
+ * get a generated id and each functionResponse is paired with the oldest
+ * unanswered call of the same name. Thought parts from earlier model turns are
+ * dropped. Built-in tools (googleSearch, codeExecution, …), safety settings,
+ * cached content and `topK` have no Chat Completions equivalent and are
+ * reported in `droppedParams`.
+ */
+export function translateGeminiToChatCompletions(
+  payload: GeminiGenerateContentPayload,
+  opts: TranslateOptions = {},
+): TranslateResult {
+  const config = payload.generationConfig ?? {}
+  const droppedParams: Array<string> = []
+  if (config.topK !== undefined) droppedParams.push("topK")
+  if (payload.safetySettings && payload.safetySettings.length > 0) droppedParams.push("safetySettings")
+  if (payload.cachedContent) droppedParams.push("cachedContent")
+
+  const messages: Array<Message> = []
+  const systemText = extractSystemText(payload.systemInstruction)
+  if (systemText) messages.push({ role: "system", content: systemText })
+  messages.push(...translateContents(payload.contents))
+
+  const { tools, builtinTools } = translateTools(payload.tools)
+  if (builtinTools.length > 0) droppedParams.push(...builtinTools)
+
+  const reasoningEffort = resolveReasoningEffort(config, opts.model)
+  const responseFormat = translateResponseFormat(config)
+
+  const translatedPayload: ChatCompletionsPayload = {
+    model: payload.model,
+    messages,
+    ...(config.maxOutputTokens !== undefined && { max_tokens: config.maxOutputTokens }),
+    ...(config.temperature !== undefined && { temperature: config.temperature }),
+    ...(config.topP !== undefined && { top_p: config.topP }),
+    ...(config.candidateCount !== undefined && { n: config.candidateCount }),
+    ...(config.stopSequences && config.stopSequences.length > 0 && { stop: config.stopSequences }),
+    ...(config.presencePenalty !== undefined && { presence_penalty: config.presencePenalty }),
+    ...(config.frequencyPenalty !== undefined && { frequency_penalty: config.frequencyPenalty }),
+    ...(config.seed !== undefined && { seed: config.seed }),
+    ...(responseFormat && { response_format: responseFormat }),
+    ...(reasoningEffort && { reasoning_effort: reasoningEffort }),
+    ...(payload.stream && { stream: true, stream_options: { include_usage: true } }),
+    ...(tools.length > 0 && { tools }),
+    ...(tools.length > 0 && payload.toolConfig && { tool_choice: translateToolConfig(payload.toolConfig) }),
+  }
+
+  return {
+    payload: translatedPayload,
+    droppedParams,
+  }
+}
+
+function extractSystemText(system: GeminiGenerateContentPayload["systemInstruction"]): string {
+  if (!system) return ""
+  if (typeof system === "string") return system
+  return system.parts
+    .map((part) => part.text ?? "")
+    .filter(Boolean)
+    .join("\n\n")
+}
+
+/** Tracks generated call ids so function responses without an id can be paired by name */
+class PendingCalls {
+  private readonly byName = new Map<string, Array<string>>()
+
+  add(name: string, id: string) {
+    const ids = this.byName.get(name) ?? []
+    ids.push(id)
+    this.byName.set(name, ids)
+  }
+
+  take(name: string, id: string | undefined): string {
+    const ids = this.byName.get(name) ?? []
+    if (id !== undefined) {
+      const index = ids.indexOf(id)
+      if (index !== -1) ids.splice(index, 1)
+      return id
+    }
+    return ids.shift() ?? `call_${name}`
+  }
+}
+
+function translateContents(contents: Array<GeminiContent>): Array<Message> {
+  const pending = new PendingCalls()
+  const messages: Array<Message> = []
+
+  for (const [turn, content] of contents.entries()) {
+    messages.push(
+      ...(content.role === "model" ?
+        translateModelContent(content.parts, turn, pending)
+      : translateUserContent(content.parts, pending)),
+    )
+  }
+  return messages
+}
+
+/**
+ * Split a user (or `function`) turn into Chat Completions messages.
+ * functionResponse parts become `tool` messages, which must directly follow the
+ * assistant `tool_calls` message — so they are emitted before any user content.
+ */
+function translateUserContent(parts: Array<GeminiPart>, pending: PendingCalls): Array<Message> {
+  const toolMessages: Array<Message> = []
+  const contentParts: Array<ContentPart> = []
+
+  for (const part of parts) {
+    if (part.functionResponse) {
+      const { id, name, response } = part.functionResponse
+      toolMessages.push({ role: "tool", tool_call_id: pending.take(name, id), content: JSON.stringify(response) })
+    } else if (part.text !== undefined) {
+      if (!part.thought) contentParts.push({ type: "text", text: part.text })
+    } else {
+      contentParts.push(translateMediaPart(part))
+    }
+  }
+
+  if (contentParts.length === 0) return toolMessages
+
+  const onlyText = contentParts.every((part) => part.type === "text")
+  const content = onlyText ? contentParts.map((part) => (part as { text: string }).text).join("\n\n") : contentParts
+  return [...toolMessages, { role: "user", content }]
+}
+
+function translateModelContent(parts: Array<GeminiPart>, turn: number, pending: PendingCalls): Array<Message> {
+  const texts: Array<string> = []
+  const toolCalls: Array<ToolCall> = []
+
+  for (const [index, part] of parts.entries()) {
+    if (part.functionCall) {
+      const { name, args } = part.functionCall
+      const id = part.functionCall.id ?? `call_${turn}_${index}`
+      pending.add(name, id)
+      toolCalls.push({ id, type: "function", function: { name, arguments: JSON.stringify(args ?? {}) } })
+    } else if (part.text !== undefined && !part.thought) {
+      texts.push(part.text)
+    }
+  }
+
+  const text = texts.join("")
+  if (!text && toolCalls.length === 0) return []
+
+  return [
+    {
+      role: "assistant",
+      content: text || null,
+      ...(toolCalls.length > 0 && { tool_calls: toolCalls }),
+    },
+  ]
+}
+
+/** Images are the only media Chat Completions accepts */
+function translateMediaPart(part: GeminiPart): ContentPart {
+  if (part.inlineData?.mimeType.startsWith("image/")) {
+    return { type: "image_url", image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` } }
+  }
+  if (part.fileData && (!part.fileData.mimeType || part.fileData.mimeType.startsWith("image/"))) {
+    return { type: "image_url", image_url: { url: part.fileData.fileUri } }
+  }
+
+  const kind = Object.keys(part).find((key) => key !== "thoughtSignature") ?? "empty"
+  const mimeType = part.inlineData?.mimeType ?? part.fileData?.mimeType
+  const msg = `Unsupported content part: ${kind}${mimeType ? ` (${mimeType})` : ""}; only text, images and function calls are supported`
+  throw new HTTPError(msg, 400, msg)
+}
+
+function translateTools(geminiTools: Array<GeminiTool> | undefined): {
+  tools: Array<Tool>
+  builtinTools: Array<string>
+} {
+  const tools: Array<Tool> = []
+  const builtinTools = new Set<string>()
+
+  for (const tool of geminiTools ?? []) {
+    for (const [key, value] of Object.entries(tool)) {
+      if (key !== "functionDeclarations" && value !== undefined) builtinTools.add(key)
+    }
+    for (const declaration of tool.functionDeclarations ?? []) {
+      tools.push({
+        type: "function",
+        function: {
+          name: declaration.name,
+          description: declaration.description,
+          parameters:
+            declaration.parametersJsonSchema
+            ?? (declaration.parameters ? toJsonSchema(declaration.parameters) : { type: "object", properties: {} }),
+        },
+      })
+    }
+  }
+
+  return { tools, builtinTools: [...builtinTools] }
+}
+
+function translateToolConfig(config: GeminiToolConfig): NonNullable<ChatCompletionsPayload["tool_choice"]> {
+  const { mode, allowedFunctionNames } = config.functionCallingConfig ?? {}
+  switch (mode) {
+    case "ANY": {
+      return allowedFunctionNames?.length === 1 ?
+          { type: "function", function: { name: allowedFunctionNames[0] } }
+        : "required"
+    }
+    case "NONE": {
+      return "none"
+    }
+    default: {
+      return "auto"
+    }
+  }
+}
+
+function translateResponseFormat(config: GeminiGenerationConfig): ResponseFormat | undefined {
+  if (config.responseMimeType !== "application/json") return undefined
+
+  const schema = config.responseJsonSchema ?? (config.responseSchema && toJsonSchema(config.responseSchema))
+  if (!schema) return { type: "json_object" }
+  return { type: "json_schema", json_schema: { name: "response", schema } }
+}
+
+/**
+ * Convert a Gemini OpenAPI-style schema to JSON Schema: type names are
+ * lowercased, `nullable` becomes a `null` type and `propertyOrdering` is dropped.
+ */
+export function toJsonSchema(schema: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = {}
+
+  for (const [key, value] of Object.entries(schema)) {
+    switch (key) {
+      case "type": {
+        result.type = typeof value === "string" ? value.toLowerCase() : value
+        break
+      }
+      case "properties": {
+        result.properties = Object.fromEntries(
+          Object.entries(value as Record<string, Record<string, unknown>>).map(([name, child]) => [
+            name,
+            toJsonSchema(child),
+          ]),
+        )
+        break
+      }
+      case "items": {
+        result.items = toJsonSchema(value as Record<string, unknown>)
+        break
+      }
+      case "anyOf": {
+        result.anyOf = (value as Array<Record<string, unknown>>).map((child) => toJsonSchema(child))
+        break
+      }
+      case "nullable":
+      case "propertyOrdering": {
+        break
+      }
+      default: {
+        result[key] = value
+      }
+    }
+  }
+
+  if (schema.nullable === true && typeof result.type === "string") {
+    result.type = [result.type, "null"]
+  }
+  return result
+}
+
+/**
+ * Map Gemini thinking configuration onto `reasoning_effort`.
+ * An explicit `thinkingLevel` wins; otherwise a positive budget is bucketed.
+ * Omitted when the model does not advertise the resulting effort level.
+ */
+function resolveReasoningEffort(config: GeminiGenerationConfig, model: Model | undefined): ReasoningEffort | undefined {
+  const thinking = config.thinkingConfig
+  let effort: ReasoningEffort | undefined = thinking?.thinkingLevel
+  if (!effort && thinking?.thinkingBudget !== undefined && thinking.thinkingBudget > 0) {
+    effort = budgetToEffort(thinking.thinkingBudget)
+  }
+  if (!effort) return undefined
+
+  const supported = model?.capabilities?.supports?.reasoning_effort as unknown
+  if (model && (!Array.isArray(supported) || !supported.includes(effort))) return undefined
+  return effort
+}
+
+function budgetToEffort(budgetTokens: number): ReasoningEffort {
+  if (budgetTokens <= 4096) return "low"
+  if (budgetTokens <= 16_384) return "medium"
+  return "high"
+}
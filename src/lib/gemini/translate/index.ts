@@ -0,0 +1,3 @@
+export { translateChatCompletionToGemini } from "./cc-to-gemini"
+export { translateChatStreamToGemini } from "./cc-to-gemini-stream"
+export { toJsonSchema, translateGeminiToChatCompletions } from "./gemini-to-cc"
@@ -0,0 +1,86 @@
+import type { CacheEfficiency, EndpointType, Session, UsageData } from "./types"
+
+import { historyIndexes } from "./state"
+
+/** Anthropic keeps cache entries for five minutes; a miss after a longer pause is an expiry */
+const CACHE_TTL_MS = 5 * 60_000
+/** A turn busted the cache when it read back less than this share of the previous turn's prefix */
+const CACHE_BUST_READ_RATIO = 0.5
+/** Cache reads cost 10% of the base input price */
+const CACHE_READ_SAVING = 0.9
+
+interface CacheUsageSample {
+  entryId: string
+  endpoint: EndpointType
+  model: string
+  usage: UsageData
+  /** When the response completed */
+  timestamp: number
+}
+
+export function createCacheEfficiency(): CacheEfficiency {
+  return { promptTokens: 0, readTokens: 0, creationTokens: 0, hitRate: 0, tokensSaved: 0, busts: 0 }
+}
+
+/**
+ * Fold one response's usage into its session's cache stats.
+ *
+ * A bust is a turn that had to write the cache again instead of reading back the prefix the
+ * previous turn (same session and model) left there — the prompt changed somewhere before the
+ * breakpoint. Misses after the cache TTL has passed are expiries and are not counted.
+ */
+export function recordSessionCacheUsage(session: Session, sample: CacheUsageSample): void {
+  session.cache ??= createCacheEfficiency()
+  const stats = session.cache
+  const read = sample.usage.cache_read_input_tokens ?? 0
+  const creation = sample.usage.cache_creation_input_tokens ?? 0
+
+  addCacheUsage(stats, {
+    // Anthropic reports input_tokens net of cache reads and writes; the OpenAI-style
+    // endpoints report the whole prompt, cached tokens included.
+    promptTokens:
+      sample.endpoint === "anthropic-messages" ?
+        sample.usage.input_tokens + read + creation
+      : sample.usage.input_tokens,
+    readTokens: read,
+    creationTokens: creation,
+    busts: 0,
+  })
+
+  let prefixes = historyIndexes.sessionCachePrefixes.get(session.id)
+  if (!prefixes) {
+    prefixes = new Map()
+    historyIndexes.sessionCachePrefixes.set(session.id, prefixes)
+  }
+
+  const previous = prefixes.get(sample.model)
+  if (
+    previous
+    && creation > 0
+    && read < previous.tokens * CACHE_BUST_READ_RATIO
+    && sample.timestamp - previous.timestamp <= CACHE_TTL_MS
+  ) {
+    stats.busts++
+    stats.lastBust = {
+      entryId: sample.entryId,
+      timestamp: sample.timestamp,
+      expectedTokens: previous.tokens,
+      readTokens: read,
+    }
+  }
+
+  prefixes.set(sample.model, { tokens: read + creation, timestamp: sample.timestamp })
+}
+
+/** Add counters into a running total and recompute its derived rates */
+export function addCacheUsage(
+  target: CacheEfficiency,
+  usage: Pick<CacheEfficiency, "busts" | "creationTokens" | "promptTokens" | "readTokens">,
+): void {
+  target.promptTokens += usage.promptTokens
+  target.readTokens += usage.readTokens
+  target.creationTokens += usage.creationTokens
+  target.busts += usage.busts
+  target.hitRate = target.promptTokens > 0 ? target.readTokens / target.promptTokens : 0
+  target.tokensSaved = Math.round(target.readTokens * CACHE_READ_SAVING)
+}
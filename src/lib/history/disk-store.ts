@@ -0,0 +1,365 @@
+/**
+ * On-disk history backend — append-only JSONL, one pair of files per UTC day:
+ *
+ *   <dir>/2026-04-01.jsonl        full HistoryEntry, one per line
+ *   <dir>/2026-04-01.index.jsonl  { id, offset, length, summary }, one per line
+ *
+ * Startup reads only the index files, so summaries for days of history are
+ * available without keeping full entries in the heap. Full entries are read
+ * back on demand by byte offset. An entry written more than once (e.g. updated
+ * after it settled) is resolved to its last index record.
+ *
+ * Retention drops whole days, oldest first, once they are older than the
+ * configured age or the directory exceeds the configured size.
+ */
+
+import consola from "consola"
+import { closeSync, openSync, readSync } from "node:fs"
+import fs from "node:fs/promises"
+import path from "node:path"
+
+import type { EntrySummary, HistoryEntry } from "./types"
+
+// ============================================================================
+// Backend interface
+// ============================================================================
+
+export interface HistoryRetentionLimits {
+  /** Drop days older than this many days (0 = keep forever) */
+  maxAgeDays: number
+  /** Drop oldest days while the store exceeds this many bytes (0 = unlimited) */
+  maxBytes: number
+}
+
+/** Storage behind the in-memory history window */
+export interface HistoryBackend {
+  /** Load summaries of every retained entry, oldest first */
+  load(): Promise<Array<EntrySummary>>
+  /** Queue a settled entry for writing (later writes of the same id win) */
+  append(entry: HistoryEntry, summary: EntrySummary): void
+  /** Whether an entry has been queued or written (and can be read back) */
+  has(id: string): boolean
+  /** Read a full entry back (from disk, or from the write queue) */
+  read(id: string): HistoryEntry | undefined
+  /** Remove every entry belonging to a session */
+  deleteSession(sessionId: string): Promise<void>
+  /** Remove all persisted history */
+  clear(): Promise<void>
+  /** Apply retention limits; returns ids of the entries that were dropped */
+  prune(limits: HistoryRetentionLimits, now?: number): Promise<Array<string>>
+  /** Wait for queued writes to land on disk */
+  flush(): Promise<void>
+}
+
+// ============================================================================
+// JSONL implementation
+// ============================================================================
+
+interface IndexRecord {
+  id: string
+  offset: number
+  length: number
+  summary: EntrySummary
+}
+
+interface EntryLocation extends IndexRecord {
+  day: string
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const INDEX_SUFFIX = ".index.jsonl"
+const DATA_SUFFIX = ".jsonl"
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+function dayKey(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10)
+}
+
+function parseIndexLine(line: string): IndexRecord | undefined {
+  try {
+    const record = JSON.parse(line) as Partial<IndexRecord>
+    if (
+      typeof record.id !== "string"
+      || typeof record.offset !== "number"
+      || typeof record.length !== "number"
+      || !record.summary
+    ) {
+      return undefined
+    }
+    return record as IndexRecord
+  } catch {
+    // A torn last line after a crash is expected; skip it.
+    return undefined
+  }
+}
+
+async function fileSize(filePath: string): Promise<number> {
+  try {
+    return (await fs.stat(filePath)).size
+  } catch {
+    return 0
+  }
+}
+
+export function createJsonlHistoryBackend(dir: string): HistoryBackend {
+  const locations = new Map<string, EntryLocation>()
+  /** Entries queued but not yet written, served from memory until they land */
+  const pending = new Map<string, { entry: HistoryEntry; seq: number }>()
+  let appendSeq = 0
+  const dataSizes = new Map<string, number>()
+  let writeChain: Promise<void> = Promise.resolve()
+
+  const dataPath = (day: string) => path.join(dir, `${day}${DATA_SUFFIX}`)
+  const indexPath = (day: string) => path.join(dir, `${day}${INDEX_SUFFIX}`)
+
+  /** Serialize all file mutations so offsets stay consistent */
+  function enqueue(task: () => Promise<void>): Promise<void> {
+    const run = writeChain.then(task)
+    writeChain = run.catch((error: unknown) => {
+      consola.warn("[history] Disk write failed:", error)
+    })
+    return writeChain
+  }
+
+  async function listDays(): Promise<Array<string>> {
+    try {
+      const files = await fs.readdir(dir)
+      return files
+        .filter((file) => file.endsWith(INDEX_SUFFIX))
+        .map((file) => file.slice(0, -INDEX_SUFFIX.length))
+        .filter((day) => DAY_PATTERN.test(day))
+        .sort()
+    } catch {
+      return []
+    }
+  }
+
+  /** Synchronous because getEntry() is; only ever reads one entry */
+  function readBytes(location: EntryLocation): string | undefined {
+    let fd: number | undefined
+    try {
+      fd = openSync(dataPath(location.day), "r")
+      const buffer = Buffer.alloc(location.length)
+      const bytesRead = readSync(fd, buffer, 0, location.length, location.offset)
+      return buffer.toString("utf8", 0, bytesRead)
+    } catch {
+      return undefined
+    } finally {
+      if (fd !== undefined) closeSync(fd)
+    }
+  }
+
+  /** Async counterpart of readBytes for the write queue, which may copy a whole day */
+  async function readBytesAsync(location: EntryLocation): Promise<string | undefined> {
+    let handle: fs.FileHandle | undefined
+    try {
+      handle = await fs.open(dataPath(location.day), "r")
+      const buffer = Buffer.alloc(location.length)
+      const { bytesRead } = await handle.read(buffer, 0, location.length, location.offset)
+      return buffer.toString("utf8", 0, bytesRead)
+    } catch {
+      return undefined
+    } finally {
+      await handle?.close()
+    }
+  }
+
+  /** Rewrite a day keeping only the latest record of entries that pass `keep` */
+  async function rewriteDay(day: string, keep: (location: EntryLocation) => boolean): Promise<void> {
+    const kept = [...locations.values()].filter((location) => location.day === day && keep(location))
+    for (const location of locations.values()) {
+      if (location.day === day && !keep(location)) locations.delete(location.id)
+    }
+
+    if (kept.length === 0) {
+      await removeDayFiles(day)
+      return
+    }
+
+    const dataLines: Array<string> = []
+    const indexLines: Array<string> = []
+    const relocated: Array<EntryLocation> = []
+    let offset = 0
+    for (const location of kept) {
+      const line = await readBytesAsync(location)
+      if (line === undefined) {
+        locations.delete(location.id)
+        continue
+      }
+      const length = Buffer.byteLength(line)
+      relocated.push({ ...location, offset, length })
+      dataLines.push(line)
+      indexLines.push(`${JSON.stringify({ id: location.id, offset, length, summary: location.summary })}\n`)
+      offset += length
+    }
+
+    const tmpData = `${dataPath(day)}.tmp`
+    const tmpIndex = `${indexPath(day)}.tmp`
+    await fs.writeFile(tmpData, dataLines.join(""), "utf8")
+    await fs.writeFile(tmpIndex, indexLines.join(""), "utf8")
+    await fs.rename(tmpData, dataPath(day))
+    await fs.rename(tmpIndex, indexPath(day))
+    dataSizes.set(day, offset)
+    for (const location of relocated) locations.set(location.id, location)
+  }
+
+  async function removeDayFiles(day: string): Promise<void> {
+    await fs.rm(dataPath(day), { force: true })
+    await fs.rm(indexPath(day), { force: true })
+    dataSizes.delete(day)
+  }
+
+  return {
+    async load() {
+      await fs.mkdir(dir, { recursive: true })
+      locations.clear()
+      dataSizes.clear()
+
+      for (const day of await listDays()) {
+        dataSizes.set(day, await fileSize(dataPath(day)))
+        const raw = await fs.readFile(indexPath(day), "utf8").catch(() => "")
+        for (const line of raw.split("\n")) {
+          if (!line) continue
+          const record = parseIndexLine(line)
+          if (record) locations.set(record.id, { ...record, day })
+        }
+      }
+
+      return [...locations.values()].map((location) => location.summary).sort((a, b) => a.startedAt - b.startedAt)
+    },
+
+    append(entry, summary) {
+      const day = dayKey(entry.startedAt)
+      const line = `${JSON.stringify(entry)}\n`
+      const seq = ++appendSeq
+      pending.set(entry.id, { entry, seq })
+
+      void enqueue(async () => {
+        // Dropped by deleteSession()/clear() while queued
+        if (!pending.has(entry.id)) return
+
+        await fs.mkdir(dir, { recursive: true })
+        const offset = dataSizes.get(day) ?? (await fileSize(dataPath(day)))
+        const length = Buffer.byteLength(line)
+        await fs.appendFile(dataPath(day), line, "utf8")
+        dataSizes.set(day, offset + length)
+
+        const record: IndexRecord = { id: entry.id, offset, length, summary }
+        await fs.appendFile(indexPath(day), `${JSON.stringify(record)}\n`, "utf8")
+
+        // A re-written entry may have moved days if startedAt changed
+        const previous = locations.get(entry.id)
+        if (previous && previous.day !== day) {
+          await rewriteDay(previous.day, (location) => location.id !== entry.id)
+        }
+        locations.set(entry.id, { ...record, day })
+      }).finally(() => {
+        if (pending.get(entry.id)?.seq === seq) pending.delete(entry.id)
+      })
+    },
+
+    has(id) {
+      return pending.has(id) || locations.has(id)
+    },
+
+    read(id) {
+      const queued = pending.get(id)
+      if (queued) return queued.entry
+      const location = locations.get(id)
+      if (!location) return undefined
+      const line = readBytes(location)
+      if (!line) return undefined
+      try {
+        return JSON.parse(line) as HistoryEntry
+      } catch {
+        return undefined
+      }
+    },
+
+    deleteSession(sessionId) {
+      return enqueue(async () => {
+        const days = new Set<string>()
+        for (const [id, queued] of pending) {
+          if (queued.entry.sessionId === sessionId) pending.delete(id)
+        }
+        for (const location of locations.values()) {
+          if (location.summary.sessionId === sessionId) days.add(location.day)
+        }
+        for (const day of days) {
+          await rewriteDay(day, (location) => location.summary.sessionId !== sessionId)
+        }
+      })
+    },
+
+    clear() {
+      return enqueue(async () => {
+        for (const day of await listDays()) await removeDayFiles(day)
+        locations.clear()
+        pending.clear()
+      })
+    },
+
+    async prune(limits, now = Date.now()) {
+      const removed: Array<string> = []
+
+      await enqueue(async () => {
+        const days = await listDays()
+        const today = dayKey(now)
+        const dropDay = async (day: string) => {
+          for (const location of locations.values()) {
+            if (location.day === day) {
+              locations.delete(location.id)
+              removed.push(location.id)
+            }
+          }
+          await removeDayFiles(day)
+        }
+
+        const remaining: Array<string> = []
+        const cutoff = limits.maxAgeDays > 0 ? dayKey(now - limits.maxAgeDays * DAY_MS) : undefined
+        for (const day of days) {
+          if (cutoff && day < cutoff) {
+            await dropDay(day)
+          } else {
+            remaining.push(day)
+          }
+        }
+
+        if (limits.maxBytes > 0) {
+          const sizes = new Map<string, number>()
+          for (const day of remaining) {
+            sizes.set(day, (await fileSize(dataPath(day))) + (await fileSize(indexPath(day))))
+          }
+          let total = [...sizes.values()].reduce((sum, size) => sum + size, 0)
+          // The current day is never dropped for size; it is still being written
+          for (const day of remaining) {
+            if (total <= limits.maxBytes || day === today) break
+            total -= sizes.get(day) ?? 0
+            await dropDay(day)
+          }
+        }
+      })
+
+      return removed
+    },
+
+    flush() {
+      return writeChain
+    },
+  }
+}
+
+// ============================================================================
+// Active backend
+// ============================================================================
+
+let activeBackend: HistoryBackend | null = null
+
+/** Backend used by the history store, or null when history lives only in memory */
+export function getHistoryBackend(): HistoryBackend | null {
+  return activeBackend
+}
+
+export function setHistoryBackend(backend: HistoryBackend | null): void {
+  activeBackend = backend
+}
@@ -1,6 +1,8 @@
 import type { EntrySummary, HistoryEntry } from "./types"
 
 import { notifyEntryAdded, notifyEntryUpdated, notifyHistoryCleared, notifyStatsUpdated } from "../ws"
+import { recordSessionCacheUsage } from "./cache-stats"
+import { getHistoryBackend } from "./disk-store"
 import { historyIndexes, historyState, invalidateHistoryStats, resetHistoryIndexes } from "./state"
 import { getCurrentSession } from "./sessions"
 import { getStats } from "./stats"
@@ -47,11 +49,12 @@ function extractPreviewText(entry: HistoryEntry): string {
   return ""
 }
 
-function toSummary(entry: HistoryEntry): EntrySummary {
+export function toSummary(entry: HistoryEntry): EntrySummary {
   return {
     id: entry.id,
     ...(entry.sessionId ? { sessionId: entry.sessionId } : {}),
     rawPath: entry.rawPath,
+    ...(entry.apiKeyLabel ? { apiKeyLabel: entry.apiKeyLabel } : {}),
     startedAt: entry.startedAt,
     endedAt: entry.endedAt,
     endpoint: entry.endpoint,
@@ -69,8 +72,9 @@ function toSummary(entry: HistoryEntry): EntrySummary {
     responseError: entry.response?.error,
     usage: entry.response?.usage,
     durationMs: entry.durationMs,
+    ...(entry.pipelineInfo?.responseCache ? { cacheHit: true } : {}),
+    ...(entry.replayOf ? { replayOf: entry.replayOf } : {}),
     previewText: extractPreviewText(entry),
-    searchText: "",
   }
 }
 
@@ -123,7 +127,7 @@ function attachEntryToSession(entry: HistoryEntry): void {
   updateSessionMetadata(entry)
 }
 
-function detachEntryFromSession(entry: HistoryEntry): void {
+function detachEntryFromSession(entry: Pick<HistoryEntry, "sessionId">): void {
   if (!entry.sessionId) return
   const sessionId = entry.sessionId
   const session = historyState.sessions.get(sessionId)
@@ -136,6 +140,7 @@ function detachEntryFromSession(entry: HistoryEntry): void {
     historyIndexes.sessionEntryCount.delete(sessionId)
     historyIndexes.sessionModelsSet.delete(sessionId)
     historyIndexes.sessionToolsSet.delete(sessionId)
+    historyIndexes.sessionCachePrefixes.delete(sessionId)
     historyState.sessions.delete(sessionId)
   } else {
     historyIndexes.sessionEntryCount.set(sessionId, sessionCount)
@@ -147,9 +152,14 @@ function removeOldestEntries(count: number): number {
 
   const actualCount = Math.min(count, historyState.entries.length)
   const removed = historyState.entries.splice(0, actualCount)
+  const backend = getHistoryBackend()
   for (const entry of removed) {
     historyIndexes.entryIndex.delete(entry.id)
+    // Entries already on disk keep their summary and session membership;
+    // getEntry() reads them back on demand.
+    if (backend?.has(entry.id)) continue
     historyIndexes.summaryIndex.delete(entry.id)
+    historyIndexes.searchTextIndex.delete(entry.id)
     detachEntryFromSession(entry)
   }
 
@@ -213,6 +223,7 @@ export function updateEntry(
       | "attempts"
       | "transport"
       | "warningMessages"
+      | "redactions"
     >
   >,
 ): void {
@@ -248,6 +259,7 @@ export function updateEntry(
   if (update.wireRequest) entry.wireRequest = update.wireRequest
   if (update.attempts) entry.attempts = update.attempts
   if (update.warningMessages) entry.warningMessages = update.warningMessages
+  if (update.redactions) entry.redactions = update.redactions
 
   if (update.response) {
     const session = entry.sessionId ? historyState.sessions.get(entry.sessionId) : undefined
@@ -255,17 +267,112 @@ export function updateEntry(
       session.totalInputTokens += update.response.usage.input_tokens
       session.totalOutputTokens += update.response.usage.output_tokens
       session.lastActivity = Date.now()
+      // Responses replayed from the proxy's response cache never reached upstream
+      if (update.response.success && !entry.pipelineInfo?.responseCache) {
+        recordSessionCacheUsage(session, {
+          entryId: entry.id,
+          endpoint: entry.endpoint,
+          model: update.response.model || entry.request.model || "unknown",
+          usage: update.response.usage,
+          timestamp: entry.endedAt ?? session.lastActivity,
+        })
+      }
     }
   }
 
   invalidateHistoryStats()
+  // Search text only depends on the request and response
+  if (update.request || update.response) historyIndexes.searchTextIndex.delete(entry.id)
   const summary = toSummary(entry)
   historyIndexes.summaryIndex.set(entry.id, summary)
+
+  // The final update carries the response; persist once the entry has settled
+  // (and again if it is updated afterwards).
+  const backend = getHistoryBackend()
+  if (backend && (update.response || backend.has(entry.id))) {
+    backend.append(entry, summary)
+  }
+
   notifyEntryUpdated(summary)
   notifyStatsUpdated(getStats())
 }
 
+/**
+ * Rebuild summaries and sessions from persisted history after a restart.
+ * Full entries stay on disk until requested.
+ */
+export function restorePersistedSummaries(summaries: Array<EntrySummary>): void {
+  for (const summary of summaries) {
+    if (historyIndexes.summaryIndex.has(summary.id)) continue
+    historyIndexes.summaryIndex.set(summary.id, summary)
+    if (!summary.sessionId) continue
+
+    const sessionId = summary.sessionId
+    let session = historyState.sessions.get(sessionId)
+    if (!session) {
+      session = {
+        id: sessionId,
+        startTime: summary.startedAt,
+        lastActivity: summary.startedAt,
+        requestCount: 0,
+        totalInputTokens: 0,
+        totalOutputTokens: 0,
+        models: [],
+        endpoints: [],
+      }
+      historyState.sessions.set(sessionId, session)
+      historyIndexes.sessionModelsSet.set(sessionId, new Set())
+    }
+
+    session.requestCount++
+    session.startTime = Math.min(session.startTime, summary.startedAt)
+    session.lastActivity = Math.max(session.lastActivity, summary.endedAt ?? summary.startedAt)
+    session.totalInputTokens += summary.usage?.input_tokens ?? 0
+    session.totalOutputTokens += summary.usage?.output_tokens ?? 0
+    if (!session.endpoints.includes(summary.endpoint)) session.endpoints.push(summary.endpoint)
+    if (summary.usage && summary.responseSuccess && !summary.cacheHit) {
+      recordSessionCacheUsage(session, {
+        entryId: summary.id,
+        endpoint: summary.endpoint,
+        model: summary.responseModel || summary.requestModel || "unknown",
+        usage: summary.usage,
+        timestamp: summary.endedAt ?? summary.startedAt,
+      })
+    }
+
+    const model = summary.requestModel
+    const modelsSet = historyIndexes.sessionModelsSet.get(sessionId)
+    if (model && modelsSet && !modelsSet.has(model)) {
+      modelsSet.add(model)
+      session.models.push(model)
+    }
+    historyIndexes.sessionEntryCount.set(sessionId, (historyIndexes.sessionEntryCount.get(sessionId) ?? 0) + 1)
+  }
+
+  invalidateHistoryStats()
+}
+
+/** Drop summaries of persisted entries removed by retention (in-memory entries are kept) */
+export function forgetPersistedEntries(ids: Array<string>): void {
+  let changed = false
+  for (const id of ids) {
+    if (historyIndexes.entryIndex.has(id)) continue
+    const summary = historyIndexes.summaryIndex.get(id)
+    if (!summary) continue
+    historyIndexes.summaryIndex.delete(id)
+    historyIndexes.searchTextIndex.delete(id)
+    detachEntryFromSession(summary)
+    changed = true
+  }
+
+  if (changed) {
+    invalidateHistoryStats()
+    notifyStatsUpdated(getStats())
+  }
+}
+
 export function clearHistory(): void {
+  void getHistoryBackend()?.clear()
   historyState.entries = []
   historyState.sessions = new Map()
   historyState.currentSessionId = ""
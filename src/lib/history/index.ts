@@ -7,12 +7,17 @@
 // Memory pressure monitor
 export { startMemoryPressureMonitor, stopMemoryPressureMonitor } from "./memory-pressure"
 
+// Disk persistence
+export { pruneHistoryStorage, startHistoryPersistence, stopHistoryPersistence } from "./persistence"
+
 // Store (persistence and query)
 export {
   clearHistory,
   deleteSession,
   evictOldestEntries,
+  exportEntryTranscript,
   exportHistory,
+  exportSessionTranscript,
   getCurrentSession,
   getEntry,
   getHistory,
@@ -27,13 +32,17 @@ export {
   initHistory,
   insertEntry,
   isHistoryEnabled,
+  isTranscriptFormat,
   registerResponseSession,
+  renderTranscript,
   resolveResponseSessionId,
   setHistoryMaxEntries,
+  TRANSCRIPT_FORMATS,
   updateEntry,
 } from "./store"
 
 export type {
+  CacheEfficiency,
   ContentBlock,
   CursorResult,
   EndpointType,
@@ -46,15 +55,23 @@ export type {
   ImageSource,
   MessageContent,
   PipelineInfo,
+  PluginHookInfo,
+  PluginHookName,
   PreprocessInfo,
   QueryOptions,
   RedactedThinkingContentBlock,
+  RedactionFinding,
+  RedactionMode,
+  ReplayOverrides,
+  ReplaySource,
   RequestLifecycleState,
   RequestTransport,
+  ResponseCacheInfo,
   SanitizationInfo,
   ServerToolResultContentBlock,
   ServerToolUseContentBlock,
   Session,
+  SessionCacheStats,
   SessionResult,
   SseEventRecord,
   SummaryResult,
@@ -66,6 +83,7 @@ export type {
   ToolResultImageBlock,
   ToolResultTextBlock,
   ToolUseContentBlock,
+  TranscriptFormat,
   TruncationInfo,
   UsageData,
   WebSearchToolResultContentBlock,
@@ -0,0 +1,86 @@
+/**
+ * History persistence — keeps the debugging trail across restarts and
+ * memory-pressure evictions.
+ *
+ * When enabled (`history.persist: true`), settled entries are written to the
+ * JSONL backend under PATHS.HISTORY_DIR. The in-memory store still holds the
+ * most recent `history.limit` full entries; older ones keep only their summary
+ * in memory and are read back from disk when the UI opens them.
+ *
+ * Retention (`history.retention_days`, `history.max_disk_mb`) runs at startup
+ * and then hourly.
+ */
+
+import consola from "consola"
+
+import { PATHS } from "~/lib/config/paths"
+import { state } from "~/lib/state"
+
+import { createJsonlHistoryBackend, getHistoryBackend, setHistoryBackend, type HistoryBackend } from "./disk-store"
+import { forgetPersistedEntries, restorePersistedSummaries } from "./entries"
+
+/** Retention check interval in milliseconds */
+const RETENTION_INTERVAL_MS = 60 * 60 * 1000
+
+let retentionTimer: ReturnType<typeof setInterval> | null = null
+
+/** Apply the configured retention limits to persisted history */
+export async function pruneHistoryStorage(now = Date.now()): Promise<number> {
+  const backend = getHistoryBackend()
+  if (!backend) return 0
+
+  const removed = await backend.prune(
+    {
+      maxAgeDays: state.historyRetentionDays,
+      maxBytes: state.historyMaxDiskMb * 1024 * 1024,
+    },
+    now,
+  )
+  forgetPersistedEntries(removed)
+  if (removed.length > 0) {
+    consola.debug(`[history] Retention removed ${removed.length} persisted entries`)
+  }
+  return removed.length
+}
+
+/**
+ * Enable persistence and restore summaries of previously persisted entries.
+ * Must run after initHistory().
+ */
+export async function startHistoryPersistence(options: { dir?: string; backend?: HistoryBackend } = {}): Promise<void> {
+  await stopHistoryPersistence()
+
+  const backend = options.backend ?? createJsonlHistoryBackend(options.dir ?? PATHS.HISTORY_DIR)
+  const summaries = await backend.load()
+  setHistoryBackend(backend)
+  restorePersistedSummaries(summaries)
+  await pruneHistoryStorage()
+
+  if (summaries.length > 0) {
+    consola.info(`[history] Restored ${summaries.length} persisted entries`)
+  }
+
+  retentionTimer = setInterval(() => {
+    pruneHistoryStorage().catch((error: unknown) => {
+      consola.warn("[history] Retention check failed:", error)
+    })
+  }, RETENTION_INTERVAL_MS)
+
+  // Don't prevent process exit
+  if ("unref" in retentionTimer) {
+    retentionTimer.unref()
+  }
+}
+
+/** Flush pending writes and detach the backend */
+export async function stopHistoryPersistence(): Promise<void> {
+  if (retentionTimer) {
+    clearInterval(retentionTimer)
+    retentionTimer = null
+  }
+
+  const backend = getHistoryBackend()
+  if (!backend) return
+  await backend.flush()
+  setHistoryBackend(null)
+}
@@ -1,49 +1,58 @@
+import { getHistoryBackend } from "./disk-store"
 import { ensureSearchText, historyIndexes, historyState } from "./state"
 import type { CursorResult, EntrySummary, HistoryEntry, HistoryResult, QueryOptions } from "./types"
 
-export function getHistory(options: QueryOptions = {}): HistoryResult {
-  const { cursor, limit = 50, model, endpoint, success, from, to, search, sessionId } = options
+/**
+ * Summaries matching the query filters, newest first.
+ *
+ * `summaryIndex` iterates in insertion order; reversing it before the stable
+ * sort keeps entries started in the same millisecond newest first.
+ */
+function querySummaries(options: QueryOptions): Array<EntrySummary> {
+  const { model, endpoint, success, from, to, search, sessionId } = options
 
-  let filtered = [...historyState.entries]
+  let summaries = Array.from(historyIndexes.summaryIndex.values())
 
-  if (sessionId) {
-    filtered = filtered.filter((entry) => entry.sessionId === sessionId)
-  }
+  if (sessionId) summaries = summaries.filter((summary) => summary.sessionId === sessionId)
   if (model) {
     const modelLower = model.toLowerCase()
-    filtered = filtered.filter(
-      (entry) =>
-        entry.request.model?.toLowerCase().includes(modelLower)
-        || entry.response?.model.toLowerCase().includes(modelLower),
+    summaries = summaries.filter(
+      (summary) =>
+        summary.requestModel?.toLowerCase().includes(modelLower)
+        || summary.responseModel?.toLowerCase().includes(modelLower),
     )
   }
-  if (endpoint) {
-    filtered = filtered.filter((entry) => entry.endpoint === endpoint)
-  }
-  if (success !== undefined) {
-    filtered = filtered.filter((entry) => entry.response?.success === success)
-  }
-  if (from) {
-    filtered = filtered.filter((entry) => entry.startedAt >= from)
-  }
-  if (to) {
-    filtered = filtered.filter((entry) => entry.startedAt <= to)
-  }
+  if (endpoint) summaries = summaries.filter((summary) => summary.endpoint === endpoint)
+  if (success !== undefined) summaries = summaries.filter((summary) => summary.responseSuccess === success)
+  if (from) summaries = summaries.filter((summary) => summary.startedAt >= from)
+  if (to) summaries = summaries.filter((summary) => summary.startedAt <= to)
+
   if (search) {
-    const searchLower = search.toLowerCase()
-    filtered = filtered.filter((entry) => ensureSearchText(entry.id).includes(searchLower))
+    const needle = search.toLowerCase()
+    summaries = summaries.filter((summary) => ensureSearchText(summary.id).includes(needle))
   }
 
-  filtered.sort((a, b) => b.startedAt - a.startedAt)
+  return summaries.reverse().sort((a, b) => b.startedAt - a.startedAt)
+}
+
+export function getHistory(options: QueryOptions = {}): HistoryResult {
+  const { cursor, limit = 50 } = options
+
+  // Page over summaries so entries persisted to disk are included; only the
+  // requested page is materialized.
+  const summaries = querySummaries(options)
 
-  const total = filtered.length
+  const total = summaries.length
   let startIdx = 0
   if (cursor) {
-    const cursorIdx = filtered.findIndex((entry) => entry.id === cursor)
+    const cursorIdx = summaries.findIndex((summary) => summary.id === cursor)
     if (cursorIdx !== -1) startIdx = cursorIdx + 1
   }
 
-  const entries = filtered.slice(startIdx, startIdx + limit)
+  const entries = summaries
+    .slice(startIdx, startIdx + limit)
+    .map((summary) => getEntry(summary.id))
+    .filter((entry): entry is HistoryEntry => entry !== undefined)
   return {
     entries,
     total,
@@ -53,8 +62,13 @@ export function getHistory(options: QueryOptions = {}): HistoryResult {
   }
 }
 
+/** Get a full entry from the in-memory window, falling back to persisted history */
 export function getEntry(id: string): HistoryEntry | undefined {
-  return historyIndexes.entryIndex.get(id) ?? historyState.entries.find((entry) => entry.id === id)
+  return (
+    historyIndexes.entryIndex.get(id)
+    ?? historyState.entries.find((entry) => entry.id === id)
+    ?? getHistoryBackend()?.read(id)
+  )
 }
 
 export function getSummary(id: string): EntrySummary | undefined {
@@ -62,30 +76,9 @@ export function getSummary(id: string): EntrySummary | undefined {
 }
 
 export function getHistorySummaries(options: QueryOptions = {}): CursorResult<EntrySummary> {
-  const { cursor, limit = 50, direction = "older", model, endpoint, success, from, to, search, sessionId } = options
-
-  let summaries = Array.from(historyIndexes.summaryIndex.values())
-
-  if (sessionId) summaries = summaries.filter((summary) => summary.sessionId === sessionId)
-  if (model) {
-    const modelLower = model.toLowerCase()
-    summaries = summaries.filter(
-      (summary) =>
-        summary.requestModel?.toLowerCase().includes(modelLower)
-        || summary.responseModel?.toLowerCase().includes(modelLower),
-    )
-  }
-  if (endpoint) summaries = summaries.filter((summary) => summary.endpoint === endpoint)
-  if (success !== undefined) summaries = summaries.filter((summary) => summary.responseSuccess === success)
-  if (from) summaries = summaries.filter((summary) => summary.startedAt >= from)
-  if (to) summaries = summaries.filter((summary) => summary.startedAt <= to)
-
-  if (search) {
-    const needle = search.toLowerCase()
-    summaries = summaries.filter((summary) => ensureSearchText(summary.id).includes(needle))
-  }
+  const { cursor, limit = 50, direction = "older" } = options
 
-  summaries.sort((a, b) => b.startedAt - a.startedAt || b.id.localeCompare(a.id))
+  const summaries = querySummaries(options)
 
   const total = summaries.length
   let startIdx = 0
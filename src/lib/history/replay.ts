@@ -0,0 +1,112 @@
+/**
+ * Replaying history entries.
+ *
+ * A replay re-executes an entry's original payload (as the client sent it) or
+ * its effective payload (as the pipeline last executed it) through the route
+ * handler for that format, optionally with the model, system prompt, messages
+ * or max_tokens overridden. The handler runs inside runAsReplay(); the history
+ * consumer tags the entry it creates with `replayOf` and reports its id back
+ * through the scope.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks"
+
+import { HTTPError } from "~/lib/error"
+
+import type { EndpointType, HistoryEntry, ReplayOverrides, ReplaySource } from "./types"
+
+export interface ReplayScope {
+  readonly sourceId: string
+  /** Id of the history entry the replayed request created */
+  entryId?: string
+}
+
+const replayStorage = new AsyncLocalStorage<ReplayScope>()
+
+export function runAsReplay<T>(scope: ReplayScope, fn: () => T): T {
+  return replayStorage.run(scope, fn)
+}
+
+/** Replay the current request belongs to (undefined for client requests) */
+export function getReplayScope(): ReplayScope | undefined {
+  return replayStorage.getStore()
+}
+
+/** The payload a replay starts from, with the format of the handler that executes it */
+export function getReplayPayload(
+  entry: HistoryEntry,
+  source: ReplaySource,
+): { format: EndpointType; payload: Record<string, unknown> } | undefined {
+  if (source === "effective") {
+    const effective = entry.effectiveRequest
+    if (!effective?.payload) return undefined
+    return { format: effective.format ?? entry.endpoint, payload: effective.payload as Record<string, unknown> }
+  }
+
+  if (!entry.request.payload) return undefined
+  return { format: entry.endpoint, payload: entry.request.payload as Record<string, unknown> }
+}
+
+/** Apply replay overrides to a copy of `payload`, at the places its format keeps them */
+export function applyReplayOverrides(
+  format: EndpointType,
+  payload: Record<string, unknown>,
+  overrides: ReplayOverrides,
+): Record<string, unknown> {
+  const result = structuredClone(payload)
+  if (overrides.model !== undefined) result.model = overrides.model
+
+  switch (format) {
+    case "anthropic-messages": {
+      if (overrides.system !== undefined) result.system = overrides.system
+      if (overrides.messages) result.messages = overrides.messages
+      if (overrides.max_tokens !== undefined) result.max_tokens = overrides.max_tokens
+      break
+    }
+    case "openai-chat-completions": {
+      if (overrides.messages) result.messages = overrides.messages
+      if (overrides.system !== undefined) {
+        const messages = (result.messages ?? []) as Array<{ role?: string }>
+        const firstTurn = messages.findIndex((message) => message.role !== "system" && message.role !== "developer")
+        result.messages = [
+          { role: "system", content: overrides.system },
+          ...messages.slice(firstTurn === -1 ? messages.length : firstTurn),
+        ]
+      }
+      if (overrides.max_tokens !== undefined) {
+        result["max_completion_tokens" in result ? "max_completion_tokens" : "max_tokens"] = overrides.max_tokens
+      }
+      break
+    }
+    case "openai-responses": {
+      if (overrides.system !== undefined) result.instructions = overrides.system
+      if (overrides.messages) result.input = overrides.messages
+      if (overrides.max_tokens !== undefined) result.max_output_tokens = overrides.max_tokens
+      break
+    }
+    case "gemini-generate-content": {
+      if (overrides.system !== undefined) result.systemInstruction = { parts: [{ text: overrides.system }] }
+      if (overrides.messages) result.contents = overrides.messages
+      if (overrides.max_tokens !== undefined) {
+        result.generationConfig = {
+          ...(result.generationConfig as Record<string, unknown> | undefined),
+          maxOutputTokens: overrides.max_tokens,
+        }
+      }
+      break
+    }
+    case "openai-completions": {
+      if (overrides.system !== undefined || overrides.messages) {
+        const msg = "Legacy completions have a prompt, not a system prompt or messages to override"
+        throw new HTTPError(msg, 400, msg)
+      }
+      if (overrides.max_tokens !== undefined) result.max_tokens = overrides.max_tokens
+      break
+    }
+    default: {
+      break
+    }
+  }
+
+  return result
+}
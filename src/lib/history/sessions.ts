@@ -1,4 +1,5 @@
 import { notifySessionDeleted, notifyStatsUpdated } from "../ws"
+import { getHistoryBackend } from "./disk-store"
 import { historyIndexes, historyState, invalidateHistoryStats } from "./state"
 import { getStats } from "./stats"
 import type { CursorResult, EndpointType, HistoryEntry, Session, SessionResult } from "./types"
@@ -94,7 +95,11 @@ export function getSession(id: string): Session | undefined {
 
 export function getSessionEntries(sessionId: string, options: { cursor?: string; limit?: number } = {}): CursorResult<HistoryEntry> {
   const { cursor, limit = 50 } = options
-  const all = historyState.entries.filter((entry) => entry.sessionId === sessionId).sort((a, b) => a.startedAt - b.startedAt)
+  // Page over summaries so entries persisted to disk are included; only the
+  // requested page is materialized.
+  const all = Array.from(historyIndexes.summaryIndex.values())
+    .filter((summary) => summary.sessionId === sessionId)
+    .sort((a, b) => a.startedAt - b.startedAt)
 
   const total = all.length
   let startIdx = 0
@@ -103,9 +108,12 @@ export function getSessionEntries(sessionId: string, options: { cursor?: string;
     if (cursorIdx !== -1) startIdx = cursorIdx + 1
   }
 
-  const entries = all.slice(startIdx, startIdx + limit)
-  const nextCursor = startIdx + limit < total ? (entries.at(-1)?.id ?? null) : null
-  const prevCursor = startIdx > 0 ? (entries[0]?.id ?? null) : null
+  const page = all.slice(startIdx, startIdx + limit)
+  const entries = page
+    .map((summary) => historyIndexes.entryIndex.get(summary.id) ?? getHistoryBackend()?.read(summary.id))
+    .filter((entry): entry is HistoryEntry => entry !== undefined)
+  const nextCursor = startIdx + limit < total ? (page.at(-1)?.id ?? null) : null
+  const prevCursor = startIdx > 0 ? (page[0]?.id ?? null) : null
 
   return { entries, total, nextCursor, prevCursor }
 }
@@ -120,16 +128,24 @@ export function deleteSession(sessionId: string): boolean {
     if (entry.sessionId === sessionId) {
       historyIndexes.entryIndex.delete(entry.id)
       historyIndexes.summaryIndex.delete(entry.id)
+      historyIndexes.searchTextIndex.delete(entry.id)
     } else {
       remaining.push(entry)
     }
   }
 
   historyState.entries = remaining
+  for (const summary of historyIndexes.summaryIndex.values()) {
+    if (summary.sessionId !== sessionId) continue
+    historyIndexes.summaryIndex.delete(summary.id)
+    historyIndexes.searchTextIndex.delete(summary.id)
+  }
+  void getHistoryBackend()?.deleteSession(sessionId)
   historyState.sessions.delete(sessionId)
   historyIndexes.sessionEntryCount.delete(sessionId)
   historyIndexes.sessionModelsSet.delete(sessionId)
   historyIndexes.sessionToolsSet.delete(sessionId)
+  historyIndexes.sessionCachePrefixes.delete(sessionId)
 
   for (const [responseId, mappedSessionId] of historyIndexes.responseSessionIndex) {
     if (mappedSessionId === sessionId) {
@@ -1,5 +1,7 @@
 import type { EntrySummary, HistoryEntry, HistoryState, HistoryStats, Session } from "./types"
 
+import { getHistoryBackend } from "./disk-store"
+
 export const historyState: HistoryState = {
   enabled: false,
   entries: [],
@@ -11,10 +13,14 @@ export const historyState: HistoryState = {
 export const historyIndexes = {
   entryIndex: new Map<string, HistoryEntry>(),
   summaryIndex: new Map<string, EntrySummary>(),
+  /** Lowercased search text per entry, built by the first search that needs it */
+  searchTextIndex: new Map<string, string>(),
   sessionEntryCount: new Map<string, number>(),
   sessionModelsSet: new Map<string, Set<string>>(),
   sessionToolsSet: new Map<string, Set<string>>(),
   responseSessionIndex: new Map<string, string>(),
+  /** Per session and model: prompt prefix the latest response left in the cache */
+  sessionCachePrefixes: new Map<string, Map<string, { tokens: number; timestamp: number }>>(),
 }
 
 export const historyStatsCache: {
@@ -28,10 +34,12 @@ export const historyStatsCache: {
 export function resetHistoryIndexes(): void {
   historyIndexes.entryIndex.clear()
   historyIndexes.summaryIndex.clear()
+  historyIndexes.searchTextIndex.clear()
   historyIndexes.sessionEntryCount.clear()
   historyIndexes.sessionModelsSet.clear()
   historyIndexes.sessionToolsSet.clear()
   historyIndexes.responseSessionIndex.clear()
+  historyIndexes.sessionCachePrefixes.clear()
 }
 
 export function invalidateHistoryStats(): void {
@@ -107,15 +115,13 @@ function buildSearchText(entry: HistoryEntry): string {
 }
 
 export function ensureSearchText(id: string): string {
-  const summary = historyIndexes.summaryIndex.get(id)
-  if (!summary) return ""
-  if (summary.searchText === "") {
-    const entry = historyIndexes.entryIndex.get(id)
-    if (entry) {
-      summary.searchText = buildSearchText(entry)
-    }
-  }
-  return summary.searchText
+  const cached = historyIndexes.searchTextIndex.get(id)
+  if (cached !== undefined) return cached
+  const entry = historyIndexes.entryIndex.get(id) ?? getHistoryBackend()?.read(id)
+  if (!entry) return ""
+  const searchText = buildSearchText(entry)
+  historyIndexes.searchTextIndex.set(id, searchText)
+  return searchText
 }
 
 export function initHistory(enabled: boolean, maxEntries: number): void {
@@ -1,3 +1,4 @@
+import { addCacheUsage, createCacheEfficiency } from "./cache-stats"
 import { historyStatsCache, historyState } from "./state"
 import type { HistoryStats } from "./types"
 
@@ -70,6 +71,11 @@ export function getStats(): HistoryStats {
     .slice(-24)
     .map(([hour, count]) => ({ hour, count }))
 
+  const cache = createCacheEfficiency()
+  for (const session of historyState.sessions.values()) {
+    if (session.cache) addCacheUsage(cache, session.cache)
+  }
+
   const stats: HistoryStats = {
     totalRequests: entries.length,
     successfulRequests: successCount,
@@ -81,6 +87,7 @@ export function getStats(): HistoryStats {
     endpointDistribution: endpointDist,
     recentActivity,
     activeSessions: historyState.sessions.size,
+    cache,
   }
 
   historyStatsCache.dirty = false
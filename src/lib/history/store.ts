@@ -12,8 +12,16 @@ export {
 } from "./sessions"
 export { exportHistory, getStats } from "./stats"
 export { historyState, initHistory, isHistoryEnabled, setHistoryMaxEntries } from "./state"
+export {
+  exportEntryTranscript,
+  exportSessionTranscript,
+  isTranscriptFormat,
+  renderTranscript,
+  TRANSCRIPT_FORMATS,
+} from "./transcript"
 
 export type {
+  CacheEfficiency,
   ContentBlock,
   CursorResult,
   EndpointType,
@@ -26,15 +34,23 @@ export type {
   ImageSource,
   MessageContent,
   PipelineInfo,
+  PluginHookInfo,
+  PluginHookName,
   PreprocessInfo,
   QueryOptions,
   RedactedThinkingContentBlock,
+  RedactionFinding,
+  RedactionMode,
+  ReplayOverrides,
+  ReplaySource,
   RequestLifecycleState,
   RequestTransport,
+  ResponseCacheInfo,
   SanitizationInfo,
   ServerToolResultContentBlock,
   ServerToolUseContentBlock,
   Session,
+  SessionCacheStats,
   SessionResult,
   SummaryResult,
   SseEventRecord,
@@ -46,6 +62,7 @@ export type {
   ToolResultImageBlock,
   ToolResultTextBlock,
   ToolUseContentBlock,
+  TranscriptFormat,
   TruncationInfo,
   UsageData,
   WarningMessage,
@@ -0,0 +1,636 @@
+/**
+ * Session and entry transcripts.
+ *
+ * Markdown and HTML transcripts are for reading: each entry shows the messages
+ * it added to the conversation (clients resend the whole conversation on every
+ * request, so the part already shown by the previous entry is skipped), its
+ * response, and a marker where auto-truncation dropped messages before the
+ * request went upstream.
+ *
+ * The JSONL formats write one training example per successful entry — the full
+ * request conversation followed by the response — in OpenAI fine-tuning
+ * (`{messages, tools}`) or Anthropic Messages (`{system, messages, tools}`) shape.
+ */
+
+import type { HistoryEntry, MessageContent, ToolDefinition, TranscriptFormat, TruncationInfo } from "./types"
+
+import { getEntry } from "./queries"
+import { getSession, getSessionEntries } from "./sessions"
+
+export const TRANSCRIPT_FORMATS: Record<TranscriptFormat, { contentType: string; extension: string }> = {
+  markdown: { contentType: "text/markdown; charset=utf-8", extension: "md" },
+  html: { contentType: "text/html; charset=utf-8", extension: "html" },
+  "openai-jsonl": { contentType: "application/x-ndjson", extension: "jsonl" },
+  "anthropic-jsonl": { contentType: "application/x-ndjson", extension: "jsonl" },
+}
+
+export function isTranscriptFormat(value: string): value is TranscriptFormat {
+  return Object.hasOwn(TRANSCRIPT_FORMATS, value)
+}
+
+/** Transcript of every entry in a session, oldest first; undefined for an unknown session */
+export function exportSessionTranscript(sessionId: string, format: TranscriptFormat): string | undefined {
+  if (!getSession(sessionId)) return undefined
+  const { entries } = getSessionEntries(sessionId, { limit: Number.POSITIVE_INFINITY })
+  return renderTranscript(entries, format, `Session ${sessionId}`)
+}
+
+/** Transcript of a single entry; undefined for an unknown entry */
+export function exportEntryTranscript(entryId: string, format: TranscriptFormat): string | undefined {
+  const entry = getEntry(entryId)
+  if (!entry) return undefined
+  return renderTranscript([entry], format, `Request ${entryId}`)
+}
+
+export function renderTranscript(entries: Array<HistoryEntry>, format: TranscriptFormat, title: string): string {
+  switch (format) {
+    case "markdown": {
+      return renderMarkdown(buildTurns(entries), title)
+    }
+    case "html": {
+      return renderHtml(buildTurns(entries), title)
+    }
+    case "openai-jsonl": {
+      return toJsonl(entries, toOpenAIExample)
+    }
+    case "anthropic-jsonl": {
+      return toJsonl(entries, toAnthropicExample)
+    }
+    default: {
+      throw new Error(`Unknown transcript format: ${String(format)}`)
+    }
+  }
+}
+
+// ============================================================================
+// Normalized messages
+// ============================================================================
+
+/**
+ * History messages mix Anthropic content blocks with OpenAI `tool_calls` and
+ * `tool` messages; transcripts work on this common shape instead.
+ */
+type TranscriptPart =
+  | { type: "text"; text: string }
+  | { type: "thinking"; text: string; signature?: string }
+  | { type: "redacted_thinking"; data?: string }
+  | { type: "tool_use"; id: string; name: string; input: unknown }
+  | { type: "tool_result"; toolUseId: string; text: string; isError: boolean }
+  | { type: "image"; url?: string; mediaType?: string; data?: string }
+  /** Any other block (server tools, web search results, files), kept as recorded */
+  | { type: "other"; block: Record<string, unknown> }
+
+interface TranscriptMessage {
+  role: string
+  parts: Array<TranscriptPart>
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" ? (value as Record<string, unknown>) : {}
+}
+
+function asString(value: unknown): string {
+  return typeof value === "string" ? value : ""
+}
+
+/** Text of a string or an array of text blocks; other blocks become placeholders */
+function contentText(content: unknown): string {
+  if (typeof content === "string") return content
+  if (!Array.isArray(content)) return content === null || content === undefined ? "" : JSON.stringify(content)
+  return content
+    .map((block) => {
+      const record = asRecord(block)
+      if (typeof record.text === "string") return record.text
+      return `[${typeof record.type === "string" ? record.type : "block"}]`
+    })
+    .join("\n")
+}
+
+function parseArguments(args: string): unknown {
+  try {
+    return JSON.parse(args)
+  } catch {
+    return args
+  }
+}
+
+function toPart(block: unknown): TranscriptPart | undefined {
+  const record = asRecord(block)
+  switch (record.type) {
+    case "text":
+    case "input_text":
+    case "output_text": {
+      return typeof record.text === "string" && record.text ? { type: "text", text: record.text } : undefined
+    }
+    case "thinking": {
+      return {
+        type: "thinking",
+        text: typeof record.thinking === "string" ? record.thinking : "",
+        ...(typeof record.signature === "string" && { signature: record.signature }),
+      }
+    }
+    case "redacted_thinking": {
+      return { type: "redacted_thinking", ...(typeof record.data === "string" && { data: record.data }) }
+    }
+    case "tool_use": {
+      return { type: "tool_use", id: asString(record.id), name: asString(record.name), input: record.input }
+    }
+    case "tool_result": {
+      return {
+        type: "tool_result",
+        toolUseId: asString(record.tool_use_id),
+        text: contentText(record.content),
+        isError: record.is_error === true,
+      }
+    }
+    case "image": {
+      const source = asRecord(record.source)
+      if (source.type === "url") return { type: "image", url: asString(source.url) }
+      return { type: "image", mediaType: asString(source.media_type), data: asString(source.data) }
+    }
+    case "image_url": {
+      return { type: "image", url: asString(asRecord(record.image_url).url) }
+    }
+    default: {
+      return Object.keys(record).length > 0 ? { type: "other", block: record } : undefined
+    }
+  }
+}
+
+function toTranscriptMessage(message: MessageContent): TranscriptMessage {
+  if (message.role === "tool") {
+    return {
+      role: "tool",
+      parts: [
+        {
+          type: "tool_result",
+          toolUseId: message.tool_call_id ?? "",
+          text: contentText(message.content),
+          isError: false,
+        },
+      ],
+    }
+  }
+
+  const parts: Array<TranscriptPart> = []
+  if (typeof message.content === "string") {
+    if (message.content) parts.push({ type: "text", text: message.content })
+  } else if (Array.isArray(message.content)) {
+    for (const block of message.content) {
+      const part = toPart(block)
+      if (part) parts.push(part)
+    }
+  }
+  for (const call of message.tool_calls ?? []) {
+    parts.push({
+      type: "tool_use",
+      id: call.id,
+      name: call.function.name,
+      input: parseArguments(call.function.arguments),
+    })
+  }
+  return { role: message.role, parts }
+}
+
+/** Identity of a message for spotting the resent part of a conversation (ignores thinking signatures) */
+function messageKey(message: TranscriptMessage): string {
+  const parts = message.parts.map((part) => (part.type === "thinking" ? { type: part.type, text: part.text } : part))
+  // Chat Completions and Responses resend tool output as `tool` messages of their own
+  return JSON.stringify({ role: message.role === "tool" ? "user" : message.role, parts })
+}
+
+function systemText(entry: HistoryEntry): string {
+  const system = entry.request.system
+  if (!system) return ""
+  return typeof system === "string" ? system : system.map((block) => block.text).join("\n\n")
+}
+
+/** Tool definitions with their schemas; Chat Completions and Responses entries keep those only in the payload */
+function entryTools(entry: HistoryEntry): Array<{ name: string; description?: string; schema: unknown }> {
+  const payloadTools = asRecord(entry.request.payload).tools
+  const schemas = new Map<string, unknown>()
+  if (Array.isArray(payloadTools)) {
+    for (const tool of payloadTools) {
+      const record = asRecord(tool)
+      const fn = asRecord(record.function)
+      const name = fn.name ?? record.name
+      const schema = fn.parameters ?? record.parameters ?? record.input_schema
+      if (typeof name === "string" && schema) schemas.set(name, schema)
+    }
+  }
+  return (entry.request.tools ?? []).map((tool: ToolDefinition) => ({
+    name: tool.name,
+    ...(tool.description && { description: tool.description }),
+    schema: tool.input_schema ?? schemas.get(tool.name) ?? { type: "object", properties: {} },
+  }))
+}
+
+// ============================================================================
+// Readable transcripts
+// ============================================================================
+
+interface TranscriptTurn {
+  entry: HistoryEntry
+  /** Only set when it differs from the previous entry's system prompt */
+  system?: string
+  /** Messages new in this entry */
+  messages: Array<TranscriptMessage>
+  /** Leading messages already shown by earlier entries */
+  resent: number
+  /** Position in `messages` before which the truncation marker goes */
+  truncationAt?: number
+  truncation?: TruncationInfo
+  response?: TranscriptMessage
+}
+
+/** First original message index the upstream request kept, when auto-truncation dropped some */
+function truncationPoint(entry: HistoryEntry): number | undefined {
+  const truncation = entry.pipelineInfo?.truncation
+  if (!truncation?.removedMessageCount) return undefined
+  return entry.pipelineInfo?.messageMapping?.[0] ?? truncation.removedMessageCount
+}
+
+function buildTurns(entries: Array<HistoryEntry>): Array<TranscriptTurn> {
+  const turns: Array<TranscriptTurn> = []
+  let known: Array<string> = []
+  let previousSystem = ""
+
+  for (const entry of entries) {
+    const messages = (entry.request.messages ?? []).map((message) => toTranscriptMessage(message))
+    const keys = messages.map((message) => messageKey(message))
+    let resent = 0
+    while (resent < keys.length && resent < known.length && keys[resent] === known[resent]) resent++
+
+    const response = entry.response?.content ? toTranscriptMessage(entry.response.content) : undefined
+    const system = systemText(entry)
+    const point = truncationPoint(entry)
+
+    turns.push({
+      entry,
+      ...(system && system !== previousSystem && { system }),
+      messages: messages.slice(resent),
+      resent,
+      ...(point !== undefined && {
+        truncationAt: Math.max(point - resent, 0),
+        truncation: entry.pipelineInfo?.truncation,
+      }),
+      response,
+    })
+
+    known = response ? [...keys, messageKey(response)] : keys
+    previousSystem = system
+  }
+  return turns
+}
+
+function roleLabel(role: string): string {
+  return role.charAt(0).toUpperCase() + role.slice(1)
+}
+
+function formatCount(value: number): string {
+  return value.toLocaleString("en-US")
+}
+
+function truncationText(truncation: TruncationInfo): string {
+  const count = truncation.removedMessageCount
+  return (
+    `${count} earlier message${count === 1 ? "" : "s"} dropped before sending `
+    + `(${formatCount(truncation.originalTokens)} → ${formatCount(truncation.compactedTokens)} tokens)`
+  )
+}
+
+function entryHeading(entry: HistoryEntry, index: number): string {
+  const model = entry.response?.model || entry.request.model || "unknown model"
+  return `${index + 1}. ${model} · ${entry.endpoint}`
+}
+
+function entryMeta(entry: HistoryEntry): Array<string> {
+  const meta = [new Date(entry.startedAt).toISOString()]
+  const usage = entry.response?.usage
+  if (usage) meta.push(`${formatCount(usage.input_tokens)} in / ${formatCount(usage.output_tokens)} out`)
+  if (entry.durationMs !== undefined) meta.push(`${(entry.durationMs / 1000).toFixed(1)}s`)
+  if (entry.response?.stop_reason) meta.push(entry.response.stop_reason)
+  return meta
+}
+
+function resentText(count: number): string {
+  return `Resends the ${count} message${count === 1 ? "" : "s"} above.`
+}
+
+// ─── Markdown ───
+
+/** Code fence longer than any backtick run in the text */
+function fence(text: string, lang = ""): string {
+  const longest = Math.max(2, ...Array.from(text.matchAll(/`+/g), (match) => match[0].length))
+  const marker = "`".repeat(longest + 1)
+  return `${marker}${lang}\n${text}\n${marker}`
+}
+
+function markdownPart(part: TranscriptPart): string {
+  switch (part.type) {
+    case "text": {
+      return part.text
+    }
+    case "thinking": {
+      return `<details>\n<summary>Thinking</summary>\n\n${part.text}\n\n</details>`
+    }
+    case "redacted_thinking": {
+      return "_[redacted thinking]_"
+    }
+    case "tool_use": {
+      return `**Tool call** \`${part.name}\` (\`${part.id}\`)\n\n${fence(JSON.stringify(part.input, null, 2), "json")}`
+    }
+    case "tool_result": {
+      const label = part.isError ? "**Tool error**" : "**Tool result**"
+      return `${label} (\`${part.toolUseId}\`)\n\n${fence(part.text)}`
+    }
+    case "image": {
+      return part.url ? `![image](${part.url})` : `_[image: ${part.mediaType || "inline"}]_`
+    }
+    default: {
+      return `**${String(part.block.type)}**\n\n${fence(JSON.stringify(part.block, null, 2), "json")}`
+    }
+  }
+}
+
+function markdownMessage(message: TranscriptMessage): string {
+  return [`### ${roleLabel(message.role)}`, ...message.parts.map((part) => markdownPart(part))].join("\n\n")
+}
+
+function renderMarkdown(turns: Array<TranscriptTurn>, title: string): string {
+  const sections = [`# ${title}`]
+
+  for (const [index, turn] of turns.entries()) {
+    const { entry } = turn
+    const lines = [`## ${entryHeading(entry, index)}`, `\`${entry.id}\` · ${entryMeta(entry).join(" · ")}`]
+    if (turn.system) lines.push(`### System\n\n${turn.system}`)
+    if (turn.resent > 0) lines.push(`_${resentText(turn.resent)}_`)
+
+    for (const [position, message] of turn.messages.entries()) {
+      if (turn.truncation && position === turn.truncationAt) {
+        lines.push(`> **Truncated:** ${truncationText(turn.truncation)}`)
+      }
+      lines.push(markdownMessage(message))
+    }
+    if (turn.truncation && turn.truncationAt !== undefined && turn.truncationAt >= turn.messages.length) {
+      lines.push(`> **Truncated:** ${truncationText(turn.truncation)}`)
+    }
+
+    if (turn.response) lines.push(markdownMessage(turn.response))
+    if (entry.response?.error) lines.push(`> **Error:** ${entry.response.error}`)
+    sections.push(lines.join("\n\n"))
+  }
+
+  return `${sections.join("\n\n---\n\n")}\n`
+}
+
+// ─── HTML ───
+
+function escapeHtml(text: string): string {
+  return text.replaceAll("&", "&amp;").replaceAll("<", "&lt;").replaceAll(">", "&gt;").replaceAll('"', "&quot;")
+}
+
+function htmlPart(part: TranscriptPart): string {
+  switch (part.type) {
+    case "text": {
+      return `<div class="text">${escapeHtml(part.text)}</div>`
+    }
+    case "thinking": {
+      return `<details class="thinking"><summary>Thinking</summary><div class="text">${escapeHtml(part.text)}</div></details>`
+    }
+    case "redacted_thinking": {
+      return `<div class="note">[redacted thinking]</div>`
+    }
+    case "tool_use": {
+      return (
+        `<div class="tool"><div class="label">Tool call <code>${escapeHtml(part.name)}</code> `
+        + `<span class="id">${escapeHtml(part.id)}</span></div>`
+        + `<pre>${escapeHtml(JSON.stringify(part.input, null, 2))}</pre></div>`
+      )
+    }
+    case "tool_result": {
+      return (
+        `<div class="tool${part.isError ? " error" : ""}"><div class="label">${part.isError ? "Tool error" : "Tool result"} `
+        + `<span class="id">${escapeHtml(part.toolUseId)}</span></div><pre>${escapeHtml(part.text)}</pre></div>`
+      )
+    }
+    case "image": {
+      const src = part.url ?? (part.data ? `data:${part.mediaType};base64,${part.data}` : "")
+      return src ? `<img src="${escapeHtml(src)}" alt="image">` : `<div class="note">[image]</div>`
+    }
+    default: {
+      return (
+        `<div class="tool"><div class="label">${escapeHtml(String(part.block.type))}</div>`
+        + `<pre>${escapeHtml(JSON.stringify(part.block, null, 2))}</pre></div>`
+      )
+    }
+  }
+}
+
+function htmlMessage(message: TranscriptMessage): string {
+  return (
+    `<div class="message role-${escapeHtml(message.role)}"><div class="role">${escapeHtml(roleLabel(message.role))}</div>`
+    + `${message.parts.map((part) => htmlPart(part)).join("")}</div>`
+  )
+}
+
+const HTML_STYLE = `
+body { font-family: system-ui, sans-serif; max-width: 960px; margin: 2rem auto; padding: 0 1rem; color: #1f2328; }
+h2 { margin-top: 2.5rem; border-top: 1px solid #d0d7de; padding-top: 1.5rem; }
+.meta, .note, .id { color: #656d76; font-size: 0.85rem; }
+.message { margin: 1rem 0; padding: 0.75rem 1rem; border: 1px solid #d0d7de; border-radius: 6px; }
+.role-user, .role-tool { background: #f6f8fa; }
+.role-system, .role-developer { background: #fff8c5; }
+.role { font-weight: 600; margin-bottom: 0.5rem; }
+.text { white-space: pre-wrap; word-break: break-word; }
+.thinking { color: #656d76; margin: 0.5rem 0; }
+.tool { margin: 0.5rem 0; }
+.tool.error .label { color: #cf222e; }
+pre { background: #f6f8fa; padding: 0.75rem; overflow-x: auto; border-radius: 6px; }
+.truncation { border-left: 4px solid #bf8700; padding: 0.5rem 1rem; background: #fff8c5; }
+.error-banner { border-left: 4px solid #cf222e; padding: 0.5rem 1rem; background: #ffebe9; }
+img { max-width: 100%; }
+`
+
+function renderHtml(turns: Array<TranscriptTurn>, title: string): string {
+  const body: Array<string> = [`<h1>${escapeHtml(title)}</h1>`]
+
+  for (const [index, turn] of turns.entries()) {
+    const { entry } = turn
+    const truncation =
+      turn.truncation ? `<div class="truncation">Truncated: ${escapeHtml(truncationText(turn.truncation))}</div>` : ""
+    body.push(
+      `<section id="${escapeHtml(entry.id)}">`,
+      `<h2>${escapeHtml(entryHeading(entry, index))}</h2>`,
+      `<div class="meta"><code>${escapeHtml(entry.id)}</code> · ${escapeHtml(entryMeta(entry).join(" · "))}</div>`,
+    )
+    if (turn.system) body.push(htmlMessage({ role: "system", parts: [{ type: "text", text: turn.system }] }))
+    if (turn.resent > 0) body.push(`<p class="note">${resentText(turn.resent)}</p>`)
+
+    for (const [position, message] of turn.messages.entries()) {
+      if (position === turn.truncationAt) body.push(truncation)
+      body.push(htmlMessage(message))
+    }
+    if (turn.truncationAt !== undefined && turn.truncationAt >= turn.messages.length) body.push(truncation)
+
+    if (turn.response) body.push(htmlMessage(turn.response))
+    if (entry.response?.error) body.push(`<div class="error-banner">Error: ${escapeHtml(entry.response.error)}</div>`)
+    body.push("</section>")
+  }
+
+  return [
+    "<!doctype html>",
+    '<html lang="en">',
+    `<head><meta charset="utf-8"><title>${escapeHtml(title)}</title><style>${HTML_STYLE}</style></head>`,
+    `<body>\n${body.join("\n")}\n</body>`,
+    "</html>",
+    "",
+  ].join("\n")
+}
+
+// ============================================================================
+// Fine-tuning JSONL
+// ============================================================================
+
+function toJsonl(
+  entries: Array<HistoryEntry>,
+  toExample: (entry: HistoryEntry, conversation: Array<TranscriptMessage>) => unknown,
+): string {
+  const lines: Array<string> = []
+  for (const entry of entries) {
+    // Only completed exchanges make training examples
+    if (!entry.response?.success || !entry.response.content) continue
+    const conversation = [...(entry.request.messages ?? []), entry.response.content].map((message) =>
+      toTranscriptMessage(message),
+    )
+    lines.push(JSON.stringify(toExample(entry, conversation)))
+  }
+  return lines.length > 0 ? `${lines.join("\n")}\n` : ""
+}
+
+function textOf(parts: Array<TranscriptPart>): string {
+  return parts
+    .filter((part) => part.type === "text")
+    .map((part) => part.text)
+    .join("\n\n")
+}
+
+/** OpenAI fine-tuning example: thinking is dropped, tool results become `tool` messages */
+function toOpenAIExample(entry: HistoryEntry, conversation: Array<TranscriptMessage>) {
+  const messages: Array<Record<string, unknown>> = []
+  const system = systemText(entry)
+  if (system) messages.push({ role: "system", content: system })
+
+  for (const message of conversation) {
+    if (message.role === "assistant") {
+      const toolCalls = message.parts
+        .filter((part) => part.type === "tool_use")
+        .map((part) => ({
+          id: part.id,
+          type: "function",
+          function: {
+            name: part.name,
+            arguments: typeof part.input === "string" ? part.input : JSON.stringify(part.input ?? {}),
+          },
+        }))
+      messages.push({
+        role: "assistant",
+        content: textOf(message.parts) || null,
+        ...(toolCalls.length > 0 && { tool_calls: toolCalls }),
+      })
+      continue
+    }
+
+    for (const part of message.parts) {
+      if (part.type === "tool_result") messages.push({ role: "tool", tool_call_id: part.toolUseId, content: part.text })
+    }
+    const content = message.parts.flatMap((part): Array<{ type: string; [key: string]: unknown }> => {
+      if (part.type === "text") return [{ type: "text", text: part.text }]
+      if (part.type !== "image") return []
+      const url = part.url ?? `data:${part.mediaType};base64,${part.data}`
+      return [{ type: "image_url", image_url: { url } }]
+    })
+    if (content.length === 0) continue
+    const textOnly = content.every((part) => part.type === "text")
+    messages.push({ role: message.role, content: textOnly ? textOf(message.parts) : content })
+  }
+
+  const tools = entryTools(entry)
+  return {
+    messages,
+    ...(tools.length > 0 && {
+      tools: tools.map((tool) => ({
+        type: "function",
+        function: { name: tool.name, description: tool.description, parameters: tool.schema },
+      })),
+    }),
+  }
+}
+
+function toAnthropicBlock(part: TranscriptPart): unknown {
+  switch (part.type) {
+    case "text": {
+      return { type: "text", text: part.text }
+    }
+    case "thinking": {
+      return { type: "thinking", thinking: part.text, ...(part.signature && { signature: part.signature }) }
+    }
+    case "redacted_thinking": {
+      return { type: "redacted_thinking", ...(part.data && { data: part.data }) }
+    }
+    case "tool_use": {
+      return { type: "tool_use", id: part.id, name: part.name, input: part.input ?? {} }
+    }
+    case "tool_result": {
+      return {
+        type: "tool_result",
+        tool_use_id: part.toolUseId,
+        content: part.text,
+        ...(part.isError && { is_error: true }),
+      }
+    }
+    case "image": {
+      return {
+        type: "image",
+        source:
+          part.url ? { type: "url", url: part.url } : { type: "base64", media_type: part.mediaType, data: part.data },
+      }
+    }
+    default: {
+      return part.block
+    }
+  }
+}
+
+/**
+ * Anthropic Messages example: system and developer messages move to `system`,
+ * `tool` messages become user tool_result blocks, and consecutive messages of
+ * one role are merged so roles alternate.
+ */
+function toAnthropicExample(entry: HistoryEntry, conversation: Array<TranscriptMessage>) {
+  const system = [systemText(entry)]
+  const messages: Array<{ role: string; content: Array<unknown> }> = []
+
+  for (const message of conversation) {
+    if (message.role === "system" || message.role === "developer") {
+      system.push(textOf(message.parts))
+      continue
+    }
+    const role = message.role === "assistant" ? "assistant" : "user"
+    const blocks = message.parts.map((part) => toAnthropicBlock(part))
+    if (blocks.length === 0) continue
+    const last = messages.at(-1)
+    if (last?.role === role) last.content.push(...blocks)
+    else messages.push({ role, content: blocks })
+  }
+
+  const systemPrompt = system.filter(Boolean).join("\n\n")
+  const tools = entryTools(entry)
+  return {
+    ...(systemPrompt && { system: systemPrompt }),
+    messages,
+    ...(tools.length > 0 && {
+      tools: tools.map((tool) => ({ name: tool.name, description: tool.description, input_schema: tool.schema })),
+    }),
+  }
+}
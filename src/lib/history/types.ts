@@ -1,5 +1,10 @@
 /** Supported API endpoint types */
-export type EndpointType = "anthropic-messages" | "openai-chat-completions" | "openai-responses"
+export type EndpointType =
+  | "anthropic-messages"
+  | "openai-chat-completions"
+  | "openai-completions"
+  | "openai-responses"
+  | "gemini-generate-content"
 
 export type RequestTransport = "http" | "upstream-ws" | "upstream-ws-fallback"
 export type RequestLifecycleState = "pending" | "executing" | "streaming" | "completed" | "failed"
@@ -140,11 +145,41 @@ export interface SseEventRecord {
   data: unknown
 }
 
+/** Set when the response was replayed from the response cache instead of calling upstream */
+export interface ResponseCacheInfo {
+  /** sha256 of the normalized effective payload */
+  key: string
+  /** When the replayed response was originally recorded */
+  storedAt: number
+}
+
+export type PluginHookName = "onRequest" | "onWireRequest" | "onStreamEvent" | "onResponse" | "onError"
+
+/** One plugin hook run; `onStreamEvent` runs are aggregated per plugin and stream */
+export interface PluginHookInfo {
+  plugin: string
+  hook: PluginHookName
+  /** Attempt the hook ran for (request hooks run again on retries) */
+  attempt?: number
+  durationMs: number
+  /** Top-level fields the hook added, removed or changed */
+  changedFields?: Array<string>
+  /** `onStreamEvent`: events seen, rewritten and dropped */
+  events?: { seen: number; modified: number; dropped: number }
+  /** The hook rejected the request */
+  vetoed?: boolean
+  /** The hook threw; its changes were discarded */
+  error?: string
+}
+
 export interface PipelineInfo {
   truncation?: TruncationInfo
   preprocessing?: PreprocessInfo
   sanitization?: Array<SanitizationInfo>
   messageMapping?: Array<number>
+  responseCache?: ResponseCacheInfo
+  /** Hooks run by config.yaml plugins, in execution order */
+  plugins?: Array<PluginHookInfo>
 }
 
 export interface WarningMessage {
@@ -152,6 +187,19 @@ export interface WarningMessage {
   message: string
 }
 
+/** What a redaction detector does with a match in an outbound prompt */
+export type RedactionMode = "mask" | "block" | "audit"
+
+/** Matches of one redaction detector in the request's prompt content */
+export interface RedactionFinding {
+  /** Built-in detector id (`aws_key`, `email`, …) or the name of a custom pattern */
+  detector: string
+  mode: RedactionMode
+  count: number
+  /** Payload paths of the matching strings (first 10), e.g. `messages[2].content[0].text` */
+  paths: Array<string>
+}
+
 export interface UsageData {
   input_tokens: number
   output_tokens: number
@@ -170,6 +218,8 @@ export interface HistoryEntry {
   id: string
   sessionId?: string
   rawPath?: string
+  /** Label of the inbound API key that made the request (see config auth.api_keys) */
+  apiKeyLabel?: string
   startedAt: number
   endedAt?: number
   endpoint: EndpointType
@@ -182,6 +232,10 @@ export interface HistoryEntry {
   durationMs?: number
   transport?: RequestTransport
   warningMessages?: Array<WarningMessage>
+  /** Secrets and PII found in the prompt by the redaction detectors (see config `redaction`) */
+  redactions?: Array<RedactionFinding>
+  /** Id of the entry this request replayed (POST /history/api/entries/:id/replay) */
+  replayOf?: string
   request: {
     model?: string
     messages?: Array<MessageContent>
@@ -191,6 +245,8 @@ export interface HistoryEntry {
     max_tokens?: number
     temperature?: number
     thinking?: unknown
+    /** Full client payload, kept so the entry can be replayed */
+    payload?: unknown
   }
   effectiveRequest?: {
     model?: string
@@ -231,6 +287,8 @@ export interface HistoryEntry {
     truncation?: TruncationInfo
     sanitization?: SanitizationInfo
     effectiveMessageCount?: number
+    /** Model sent on this attempt (changes after a model fallback) */
+    model?: string
   }>
 }
 
@@ -244,6 +302,34 @@ export interface Session {
   models: Array<string>
   endpoints: Array<EndpointType>
   toolsUsed?: Array<string>
+  /** Prompt-cache efficiency, present once a response with usage arrived */
+  cache?: SessionCacheStats
+}
+
+/** Prompt-cache efficiency accumulated from upstream usage reports */
+export interface CacheEfficiency {
+  /** Prompt tokens across responses, whether served from the cache or not */
+  promptTokens: number
+  /** `cache_read_input_tokens` */
+  readTokens: number
+  /** `cache_creation_input_tokens` */
+  creationTokens: number
+  /** Share of prompt tokens served from the cache (0–1) */
+  hitRate: number
+  /** Full-price input tokens avoided: cache reads are billed at a tenth of the input price */
+  tokensSaved: number
+  /** Turns that re-wrote a prefix the previous turn had cached, i.e. the prefix changed */
+  busts: number
+}
+
+export interface SessionCacheStats extends CacheEfficiency {
+  lastBust?: {
+    entryId: string
+    timestamp: number
+    /** Prefix tokens the previous turn left in the cache */
+    expectedTokens: number
+    readTokens: number
+  }
 }
 
 export interface HistoryState {
@@ -254,6 +340,21 @@ export interface HistoryState {
   maxEntries: number
 }
 
+/** Which recorded payload a replay re-executes: as the client sent it, or as last executed */
+export type ReplaySource = "original" | "effective"
+
+export interface ReplayOverrides {
+  model?: string
+  /** Replaces the system prompt (instructions / systemInstruction for Responses and Gemini payloads) */
+  system?: string
+  /** Replaces the conversation, in the payload's own format (`input` / `contents` for Responses and Gemini) */
+  messages?: Array<unknown>
+  max_tokens?: number
+}
+
+/** Session and entry transcript formats (GET /history/api/sessions/:id/export) */
+export type TranscriptFormat = "markdown" | "html" | "openai-jsonl" | "anthropic-jsonl"
+
 export interface QueryOptions {
   cursor?: string
   limit?: number
@@ -298,12 +399,15 @@ export interface HistoryStats {
   endpointDistribution: Record<string, number>
   recentActivity: Array<{ hour: string; count: number }>
   activeSessions: number
+  /** Prompt-cache efficiency summed over all sessions */
+  cache: CacheEfficiency
 }
 
 export interface EntrySummary {
   id: string
   sessionId?: string
   rawPath?: string
+  apiKeyLabel?: string
   startedAt: number
   endedAt?: number
   endpoint: EndpointType
@@ -326,8 +430,11 @@ export interface EntrySummary {
     cache_creation_input_tokens?: number
   }
   durationMs?: number
+  /** Served from the response cache */
+  cacheHit?: boolean
+  /** Id of the entry this request replayed */
+  replayOf?: string
   previewText: string
-  searchText: string
 }
 
 export interface SummaryResult {
@@ -0,0 +1,330 @@
+/**
+ * Prometheus / OpenMetrics exposition.
+ *
+ * Counters and histograms live in this module and are fed from two places:
+ *   - RequestContextManager settle events (requests, latency, tokens, retries, queue wait)
+ *   - TuiLogger (time to first token, upstream stream bytes)
+ *
+ * Gauges (rate limiter mode, token expiry, history size, heap) are read from
+ * their owning modules at scrape time. Everything is in-memory and resets on
+ * restart — Prometheus handles counter resets natively.
+ */
+
+import type { HistoryEntryData } from "~/lib/context/types"
+import type { TuiLogEntry } from "~/lib/tui/types"
+
+import { getAdaptiveRateLimiter } from "~/lib/adaptive-rate-limiter"
+import { getRequestContextManager } from "~/lib/context/manager"
+import { getMemoryPressureStats } from "~/lib/history/memory-pressure"
+import { historyState } from "~/lib/history/store"
+import { resolveModelName } from "~/lib/models/resolver"
+import { serverStartTime, state } from "~/lib/state"
+
+export const OPENMETRICS_CONTENT_TYPE = "application/openmetrics-text; version=1.0.0; charset=utf-8"
+
+const PREFIX = "copilot_api"
+
+const LATENCY_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300, 600]
+const FIRST_TOKEN_BUCKETS = [0.1, 0.25, 0.5, 1, 2, 5, 10, 20, 30, 60, 120]
+const QUEUE_WAIT_BUCKETS = [0.1, 0.5, 1, 5, 10, 30, 60, 120, 300]
+
+const RATE_LIMITER_MODES = ["normal", "rate-limited", "recovering"] as const
+
+type Labels = Record<string, string>
+
+interface CounterSeries {
+  labels: Labels
+  value: number
+}
+
+interface HistogramSeries {
+  labels: Labels
+  /** Non-cumulative per-bucket counts; cumulated on render */
+  bucketCounts: Array<number>
+  sum: number
+  count: number
+}
+
+interface CounterFamily {
+  name: string
+  help: string
+  unit?: string
+  series: Map<string, CounterSeries>
+}
+
+interface HistogramFamily {
+  name: string
+  help: string
+  unit: string
+  buckets: ReadonlyArray<number>
+  series: Map<string, HistogramSeries>
+}
+
+function counter(name: string, help: string, unit?: string): CounterFamily {
+  return { name: `${PREFIX}_${name}`, help, unit, series: new Map() }
+}
+
+function histogram(name: string, help: string, buckets: ReadonlyArray<number>): HistogramFamily {
+  return { name: `${PREFIX}_${name}`, help, unit: "seconds", buckets, series: new Map() }
+}
+
+const requestsTotal = counter(
+  "requests",
+  "Settled API requests by endpoint, model and status (ok, upstream HTTP status, or error).",
+)
+const tokensTotal = counter("tokens", "Tokens reported by upstream usage, by model and token type.")
+const retriesTotal = counter("retries", "Pipeline retries by the strategy that triggered them.")
+const streamBytesTotal = counter("stream_received_bytes", "Bytes of SSE data received from upstream.", "bytes")
+const requestDuration = histogram(
+  "request_duration_seconds",
+  "End-to-end request latency by endpoint and model.",
+  LATENCY_BUCKETS,
+)
+const firstTokenLatency = histogram(
+  "time_to_first_token_seconds",
+  "Time from request start to the first upstream stream event, by model.",
+  FIRST_TOKEN_BUCKETS,
+)
+const queueWait = histogram(
+  "queue_wait_seconds",
+  "Time requests spent waiting in the rate limiter queue.",
+  QUEUE_WAIT_BUCKETS,
+)
+
+const counters: Array<CounterFamily> = [requestsTotal, tokensTotal, retriesTotal, streamBytesTotal]
+const histograms: Array<HistogramFamily> = [requestDuration, firstTokenLatency, queueWait]
+
+// ─── Recording ───
+
+function seriesKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels))
+}
+
+function incCounter(family: CounterFamily, labels: Labels, by = 1): void {
+  if (by <= 0) return
+  const key = seriesKey(labels)
+  const series = family.series.get(key)
+  if (series) {
+    series.value += by
+  } else {
+    family.series.set(key, { labels, value: by })
+  }
+}
+
+function observe(family: HistogramFamily, labels: Labels, value: number): void {
+  const key = seriesKey(labels)
+  let series = family.series.get(key)
+  if (!series) {
+    series = { labels, bucketCounts: Array.from({ length: family.buckets.length }, () => 0), sum: 0, count: 0 }
+    family.series.set(key, series)
+  }
+  const index = family.buckets.findIndex((bound) => value <= bound)
+  if (index !== -1) series.bucketCounts[index] += 1
+  series.sum += value
+  series.count += 1
+}
+
+function requestStatus(entry: HistoryEntryData): string {
+  if (entry.response?.success ?? entry.state === "completed") return "ok"
+  return entry.response?.status ? String(entry.response.status) : "error"
+}
+
+/**
+ * Model label value: the first name that resolves to a catalog model, or
+ * "other". Client-supplied names never become label values directly, so they
+ * cannot grow the number of series without bound.
+ */
+function modelLabel(...names: Array<string | undefined>): string {
+  for (const name of names) {
+    const trimmed = name?.trim()
+    if (!trimmed) continue
+    if (state.modelIndex.has(trimmed)) return trimmed
+    const resolved = resolveModelName(trimmed)
+    if (state.modelIndex.has(resolved)) return resolved
+  }
+  return "other"
+}
+
+/** Record a settled request (called by RequestContextManager on completed/failed) */
+export function recordRequestMetrics(entry: HistoryEntryData): void {
+  const model = modelLabel(entry.response?.model, entry.request.model)
+  const endpoint = entry.endpoint
+
+  incCounter(requestsTotal, { endpoint, model, status: requestStatus(entry) })
+  observe(requestDuration, { endpoint, model }, Math.max(0, entry.endedAt - entry.startedAt) / 1000)
+  observe(queueWait, {}, entry.queueWaitMs / 1000)
+
+  const usage = entry.response?.usage
+  if (usage) {
+    incCounter(tokensTotal, { model, type: "input" }, usage.input_tokens)
+    incCounter(tokensTotal, { model, type: "output" }, usage.output_tokens)
+    incCounter(tokensTotal, { model, type: "cache_read" }, usage.cache_read_input_tokens ?? 0)
+    incCounter(tokensTotal, { model, type: "cache_write" }, usage.cache_creation_input_tokens ?? 0)
+    incCounter(tokensTotal, { model, type: "reasoning" }, usage.output_tokens_details?.reasoning_tokens ?? 0)
+  }
+
+  for (const attempt of entry.attempts ?? []) {
+    if (attempt.strategy) incCounter(retriesTotal, { strategy: attempt.strategy })
+  }
+}
+
+/** Record the first upstream stream event of a TUI-tracked request */
+export function recordFirstStreamEvent(entry: TuiLogEntry, now = Date.now()): void {
+  observe(firstTokenLatency, { model: modelLabel(entry.model) }, Math.max(0, now - entry.startTime) / 1000)
+}
+
+/** Record upstream stream volume when a TUI-tracked request finishes */
+export function recordStreamFinished(entry: TuiLogEntry): void {
+  if (entry.streamBytesIn) incCounter(streamBytesTotal, { model: modelLabel(entry.model) }, entry.streamBytesIn)
+}
+
+// ─── Rendering ───
+
+function escapeLabelValue(value: string): string {
+  return value
+    .replaceAll("\\", "\\\\")
+    .replaceAll('"', String.raw`\"`)
+    .replaceAll("\n", String.raw`\n`)
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([key, value]) => `${key}="${escapeLabelValue(value)}"`)
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : ""
+}
+
+function formatValue(value: number): string {
+  if (value === Number.POSITIVE_INFINITY) return "+Inf"
+  return Number.isFinite(value) ? String(value) : "NaN"
+}
+
+function writeHeader(lines: Array<string>, name: string, type: string, help: string, unit?: string): void {
+  lines.push(`# TYPE ${name} ${type}`)
+  if (unit) lines.push(`# UNIT ${name} ${unit}`)
+  lines.push(`# HELP ${name} ${help}`)
+}
+
+function renderCounter(lines: Array<string>, family: CounterFamily): void {
+  writeHeader(lines, family.name, "counter", family.help, family.unit)
+  for (const series of family.series.values()) {
+    lines.push(`${family.name}_total${formatLabels(series.labels)} ${formatValue(series.value)}`)
+  }
+}
+
+function renderHistogram(lines: Array<string>, family: HistogramFamily): void {
+  writeHeader(lines, family.name, "histogram", family.help, family.unit)
+  for (const series of family.series.values()) {
+    let cumulative = 0
+    for (const [index, bound] of family.buckets.entries()) {
+      cumulative += series.bucketCounts[index]
+      lines.push(`${family.name}_bucket${formatLabels({ ...series.labels, le: String(bound) })} ${cumulative}`)
+    }
+    lines.push(
+      `${family.name}_bucket${formatLabels({ ...series.labels, le: "+Inf" })} ${series.count}`,
+      `${family.name}_count${formatLabels(series.labels)} ${series.count}`,
+      `${family.name}_sum${formatLabels(series.labels)} ${formatValue(series.sum)}`,
+    )
+  }
+}
+
+function renderGauge(
+  lines: Array<string>,
+  name: string,
+  help: string,
+  samples: Array<{ labels?: Labels; value: number }>,
+  unit?: string,
+): void {
+  const fullName = `${PREFIX}_${name}`
+  writeHeader(lines, fullName, "gauge", help, unit)
+  for (const sample of samples) {
+    lines.push(`${fullName}${formatLabels(sample.labels ?? {})} ${formatValue(sample.value)}`)
+  }
+}
+
+function renderGauges(lines: Array<string>): void {
+  const limiterStatus = getAdaptiveRateLimiter()?.getStatus()
+  renderGauge(
+    lines,
+    "rate_limiter_mode",
+    "Adaptive rate limiter mode (1 for the current mode; absent when the limiter is disabled).",
+    limiterStatus ?
+      RATE_LIMITER_MODES.map((mode) => ({ labels: { mode }, value: limiterStatus.mode === mode ? 1 : 0 }))
+    : [],
+  )
+  renderGauge(
+    lines,
+    "rate_limiter_queue_length",
+    "Requests waiting in the adaptive rate limiter queue.",
+    limiterStatus ? [{ value: limiterStatus.queueLength }] : [],
+  )
+  renderGauge(
+    lines,
+    "rate_limiter_in_flight",
+    "Upstream calls holding an adaptive rate limiter concurrency slot.",
+    limiterStatus ? [{ value: limiterStatus.inFlight }] : [],
+  )
+  renderGauge(
+    lines,
+    "rate_limiter_waiting_requests",
+    "Requests waiting for a concurrency slot or in the rate-limited queue, by priority class.",
+    limiterStatus ?
+      Object.entries(limiterStatus.waiting).map(([priority, value]) => ({ labels: { priority }, value }))
+    : [],
+  )
+
+  let activeCount = 0
+  try {
+    activeCount = getRequestContextManager().activeCount
+  } catch {
+    // Manager not initialized yet
+  }
+  renderGauge(lines, "active_requests", "Requests currently in flight.", [{ value: activeCount }])
+
+  renderGauge(
+    lines,
+    "copilot_token_expiry_timestamp_seconds",
+    "Unix time at which the current Copilot token expires.",
+    state.copilotTokenInfo ? [{ value: state.copilotTokenInfo.expiresAt }] : [],
+    "seconds",
+  )
+
+  const memStats = getMemoryPressureStats()
+  renderGauge(lines, "history_entries", "Entries held in the in-memory request history.", [
+    { value: historyState.entries.length },
+  ])
+  renderGauge(lines, "history_max_entries", "Current history capacity (lowered under memory pressure).", [
+    { value: memStats.currentMaxEntries },
+  ])
+  renderGauge(lines, "history_evicted_entries", "History entries evicted under memory pressure since start.", [
+    { value: memStats.totalEvictedCount },
+  ])
+  renderGauge(lines, "heap_used_bytes", "V8/JSC heap in use.", [{ value: process.memoryUsage().heapUsed }], "bytes")
+  renderGauge(
+    lines,
+    "heap_limit_bytes",
+    "Heap size limit used for memory-pressure eviction.",
+    memStats.heapLimitMB === null ? [] : [{ value: memStats.heapLimitMB * 1024 * 1024 }],
+    "bytes",
+  )
+  renderGauge(
+    lines,
+    "start_time_seconds",
+    "Unix time at which the server started.",
+    serverStartTime > 0 ? [{ value: serverStartTime / 1000 }] : [],
+    "seconds",
+  )
+}
+
+/** Render all metrics in OpenMetrics text format (terminated by `# EOF`) */
+export function renderOpenMetrics(): string {
+  const lines: Array<string> = []
+  for (const family of counters) renderCounter(lines, family)
+  for (const family of histograms) renderHistogram(lines, family)
+  renderGauges(lines)
+  lines.push("# EOF")
+  return `${lines.join("\n")}\n`
+}
+
+export function _resetMetricsForTests(): void {
+  for (const family of counters) family.series.clear()
+  for (const family of histograms) family.series.clear()
+}
@@ -1,3 +1,4 @@
+import { upstreamFetch } from "~/lib/cassettes"
 import { copilotBaseUrl, copilotHeaders } from "~/lib/copilot-api"
 import { HTTPError } from "~/lib/error"
 import { createFetchSignal } from "~/lib/fetch-utils"
@@ -10,7 +11,7 @@ export async function cacheModels(): Promise<void> {
 }
 
 export const getModels = async () => {
-  const response = await fetch(`${copilotBaseUrl(state)}/models`, {
+  const response = await upstreamFetch(`${copilotBaseUrl(state)}/models`, {
     headers: copilotHeaders(state),
     signal: createFetchSignal(),
   })
@@ -7,6 +7,8 @@ import type { Model } from "./client"
 export const ENDPOINT = {
   MESSAGES: "/v1/messages",
   CHAT_COMPLETIONS: "/chat/completions",
+  /** Legacy text completions (code-completion models only) */
+  COMPLETIONS: "/completions",
   RESPONSES: "/responses",
   /** WebSocket transport for Responses API. */
   WS_RESPONSES: "ws:/responses",
@@ -69,6 +71,18 @@ export function isWsResponsesSupported(model: Model | undefined): boolean {
   return model.supported_endpoints.includes(ENDPOINT.WS_RESPONSES)
 }
 
+/**
+ * Check if a model explicitly supports the legacy `/completions` endpoint.
+ *
+ * Like WebSocket transport, this is never assumed for legacy models: only
+ * code-completion models advertise it, and everything else is served by
+ * translating to `/chat/completions`.
+ */
+export function isNativeCompletionsSupported(model: Model | undefined): boolean {
+  if (!model?.supported_endpoints) return false
+  return model.supported_endpoints.includes(ENDPOINT.COMPLETIONS)
+}
+
 /**
  * Assert that a model supports a given endpoint, throwing a descriptive error if not.
  * Returns the validated model for chaining.
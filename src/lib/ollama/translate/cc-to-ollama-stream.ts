@@ -0,0 +1,83 @@
+import type { ServerSentEventMessage } from "fetch-event-stream"
+
+import type { OllamaChatResponse } from "~/types/api/ollama"
+import type { ChatCompletionChunk, ChatCompletionUsage, FinishReason } from "~/types/api/openai-chat-completions"
+
+import { type OllamaResponseOptions, mapDoneReason, mapMetrics, toOllamaToolCall } from "./cc-to-ollama"
+
+interface PendingToolCall {
+  function: { name: string; arguments: string }
+}
+
+/**
+ * Translate a Chat Completions SSE stream into Ollama chat chunks.
+ *
+ * Only the first choice is forwarded (Ollama has no `n`). Text and thinking
+ * deltas go out as they arrive. Ollama sends each tool call whole, so
+ * arguments are buffered and the calls sent in one chunk just before the
+ * final `done` chunk, which carries the done reason and token counts.
+ * An `error` event (sent by the Chat Completions route when the upstream
+ * stream fails) is thrown.
+ */
+export async function* translateChatStreamToOllama(
+  upstream: AsyncIterable<ServerSentEventMessage>,
+  opts: OllamaResponseOptions,
+): AsyncGenerator<OllamaChatResponse> {
+  const toolCalls = new Map<number, PendingToolCall>()
+  let finishReason: FinishReason | null = null
+  let usage: ChatCompletionUsage | undefined
+
+  const chunkOf = (message: OllamaChatResponse["message"]): OllamaChatResponse => ({
+    model: opts.model,
+    created_at: new Date().toISOString(),
+    message,
+    done: false,
+  })
+
+  for await (const rawEvent of upstream) {
+    if (!rawEvent.data || rawEvent.data === "[DONE]") continue
+
+    if (rawEvent.event === "error") {
+      const { error } = JSON.parse(rawEvent.data) as { error?: { message?: string } }
+      throw new Error(error?.message ?? "Upstream stream error")
+    }
+
+    const chunk = JSON.parse(rawEvent.data) as ChatCompletionChunk
+    if (chunk.usage) usage = chunk.usage
+
+    const choice = chunk.choices.find((c) => c.index === 0)
+    if (!choice) continue
+
+    const delta = choice.delta as typeof choice.delta & { reasoning_text?: string | null }
+    for (const toolCall of delta.tool_calls ?? []) {
+      const pending = toolCalls.get(toolCall.index) ?? { function: { name: "", arguments: "" } }
+      pending.function.name ||= toolCall.function?.name ?? ""
+      pending.function.arguments += toolCall.function?.arguments ?? ""
+      toolCalls.set(toolCall.index, pending)
+    }
+    if (choice.finish_reason) finishReason = choice.finish_reason
+
+    if (delta.content || delta.reasoning_text) {
+      yield chunkOf({
+        role: "assistant",
+        content: delta.content ?? "",
+        ...(delta.reasoning_text && { thinking: delta.reasoning_text }),
+      })
+    }
+  }
+
+  if (toolCalls.size > 0) {
+    yield chunkOf({
+      role: "assistant",
+      content: "",
+      tool_calls: [...toolCalls.values()].map((call, index) => toOllamaToolCall(call, index)),
+    })
+  }
+
+  yield {
+    ...chunkOf({ role: "assistant", content: "" }),
+    done: true,
+    done_reason: mapDoneReason(finishReason),
+    ...mapMetrics(usage, opts.startedAt),
+  }
+}
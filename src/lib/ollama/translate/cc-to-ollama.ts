@@ -0,0 +1,76 @@
+import type {
+  OllamaChatResponse,
+  OllamaDoneReason,
+  OllamaGenerateResponse,
+  OllamaMetrics,
+  OllamaToolCall,
+} from "~/types/api/ollama"
+import type {
+  ChatCompletionResponse,
+  ChatCompletionUsage,
+  FinishReason,
+  ToolCall,
+} from "~/types/api/openai-chat-completions"
+
+import { safeParseJson } from "~/lib/request/response"
+
+export interface OllamaResponseOptions {
+  /** Model name as the client requested it (Ollama echoes it back) */
+  model: string
+  /** `performance.now()` when the request arrived, for `total_duration` */
+  startedAt: number
+}
+
+/** Translate a non-streaming Chat Completions response into an Ollama chat response (first choice only) */
+export function translateChatCompletionToOllama(
+  response: ChatCompletionResponse,
+  opts: OllamaResponseOptions,
+): OllamaChatResponse {
+  const choice = response.choices.at(0)
+  // Copilot extension: some Chat Completions models return their reasoning as `reasoning_text`
+  const reasoningText = (choice?.message as { reasoning_text?: string } | undefined)?.reasoning_text
+  const toolCalls = choice?.message.tool_calls ?? []
+
+  return {
+    model: opts.model,
+    created_at: new Date().toISOString(),
+    message: {
+      role: "assistant",
+      content: choice?.message.content ?? "",
+      ...(reasoningText && { thinking: reasoningText }),
+      ...(toolCalls.length > 0 && { tool_calls: toolCalls.map((call, index) => toOllamaToolCall(call, index)) }),
+    },
+    done: true,
+    done_reason: mapDoneReason(choice?.finish_reason ?? null),
+    ...mapMetrics(response.usage, opts.startedAt),
+  }
+}
+
+/** `/api/generate` responses carry the same fields with the message flattened into `response` */
+export function toOllamaGenerateResponse(chat: OllamaChatResponse): OllamaGenerateResponse {
+  const { message, ...rest } = chat
+  return {
+    ...rest,
+    response: message.content,
+    ...(message.thinking && { thinking: message.thinking }),
+  }
+}
+
+export function toOllamaToolCall(toolCall: Pick<ToolCall, "function">, index: number): OllamaToolCall {
+  return {
+    function: { index, name: toolCall.function.name, arguments: safeParseJson(toolCall.function.arguments) },
+  }
+}
+
+/** Ollama reports tool calls and content filtering as a normal stop */
+export function mapDoneReason(finishReason: FinishReason | null): OllamaDoneReason {
+  return finishReason === "length" ? "length" : "stop"
+}
+
+export function mapMetrics(usage: ChatCompletionUsage | undefined, startedAt: number): OllamaMetrics {
+  return {
+    total_duration: Math.round((performance.now() - startedAt) * 1e6),
+    prompt_eval_count: usage?.prompt_tokens ?? 0,
+    eval_count: usage?.completion_tokens ?? 0,
+  }
+}
@@ -0,0 +1,3 @@
+export { type OllamaResponseOptions, toOllamaGenerateResponse, translateChatCompletionToOllama } from "./cc-to-ollama"
+export { translateChatStreamToOllama } from "./cc-to-ollama-stream"
+export { translateOllamaChatToChatCompletions, translateOllamaGenerateToChatCompletions } from "./ollama-to-cc"
@@ -0,0 +1,209 @@
+import type { Model } from "~/lib/models/client"
+import type {
+  OllamaChatRequest,
+  OllamaFormat,
+  OllamaGenerateRequest,
+  OllamaMessage,
+  OllamaRequestBase,
+  OllamaThink,
+} from "~/types/api/ollama"
+import type {
+  ChatCompletionsPayload,
+  ContentPart,
+  Message,
+  ResponseFormat,
+  ToolCall,
+} from "~/types/api/openai-chat-completions"
+
+type ReasoningEffort = NonNullable<ChatCompletionsPayload["reasoning_effort"]>
+
+/** Ollama options with a Chat Completions equivalent; the rest only tune a local runner */
+const MAPPED_OPTIONS = new Set([
+  "temperature",
+  "top_p",
+  "num_predict",
+  "stop",
+  "seed",
+  "presence_penalty",
+  "frequency_penalty",
+])
+
+export interface TranslateResult {
+  payload: ChatCompletionsPayload
+  droppedParams: Array<string>
+}
+
+export interface TranslateOptions {
+  /** Resolved target model — used to gate `reasoning_effort` on advertised support */
+  model?: Model
+}
+
+/**
+ * Translate an Ollama `/api/chat` request into a Chat Completions payload.
+ *
+ * Ollama tool calls carry no id, so each call gets a generated one and each
+ * `tool` message is paired with the oldest unanswered call of its `tool_name`
+ * (or simply the oldest one when the client omits the name). Thinking from
+ * earlier assistant turns is dropped.
+ */
+export function translateOllamaChatToChatCompletions(
+  request: OllamaChatRequest,
+  opts: TranslateOptions = {},
+): TranslateResult {
+  const result = buildPayload(request, translateMessages(request.messages ?? []), opts)
+  if (request.tools && request.tools.length > 0) {
+    result.payload.tools = request.tools.map((tool) => ({
+      type: "function",
+      function: {
+        name: tool.function.name,
+        description: tool.function.description,
+        parameters: tool.function.parameters ?? { type: "object", properties: {} },
+      },
+    }))
+  }
+  return result
+}
+
+/**
+ * Translate an Ollama `/api/generate` request into a single-turn Chat
+ * Completions payload. Fill-in-the-middle (`suffix`), prompt templates, raw
+ * mode and the token `context` have no chat equivalent and are reported in
+ * `droppedParams`.
+ */
+export function translateOllamaGenerateToChatCompletions(
+  request: OllamaGenerateRequest,
+  opts: TranslateOptions = {},
+): TranslateResult {
+  const messages: Array<Message> = []
+  if (request.system) messages.push({ role: "system", content: request.system })
+  messages.push({ role: "user", content: toUserContent(request.prompt ?? "", request.images) })
+
+  const result = buildPayload(request, messages, opts)
+  for (const key of ["suffix", "template", "raw", "context"] as const) {
+    if (request[key]) result.droppedParams.push(key)
+  }
+  return result
+}
+
+function buildPayload(request: OllamaRequestBase, messages: Array<Message>, opts: TranslateOptions): TranslateResult {
+  const options = request.options ?? {}
+  const droppedParams = Object.keys(options)
+    .filter((key) => !MAPPED_OPTIONS.has(key) && options[key] !== undefined)
+    .map((key) => `options.${key}`)
+
+  // num_predict -1 (infinite) and -2 (fill context) leave the model's default limit
+  const maxTokens = options.num_predict !== undefined && options.num_predict > 0 ? options.num_predict : undefined
+  const responseFormat = translateFormat(request.format)
+  const reasoningEffort = resolveReasoningEffort(request.think, opts.model)
+
+  const payload: ChatCompletionsPayload = {
+    model: request.model,
+    messages,
+    ...(maxTokens !== undefined && { max_tokens: maxTokens }),
+    ...(options.temperature !== undefined && { temperature: options.temperature }),
+    ...(options.top_p !== undefined && { top_p: options.top_p }),
+    ...(options.stop && options.stop.length > 0 && { stop: options.stop }),
+    ...(options.seed !== undefined && { seed: options.seed }),
+    ...(options.presence_penalty !== undefined && { presence_penalty: options.presence_penalty }),
+    ...(options.frequency_penalty !== undefined && { frequency_penalty: options.frequency_penalty }),
+    ...(responseFormat && { response_format: responseFormat }),
+    ...(reasoningEffort && { reasoning_effort: reasoningEffort }),
+    // Ollama streams unless told otherwise
+    ...(request.stream !== false && { stream: true, stream_options: { include_usage: true } }),
+  }
+
+  return { payload, droppedParams }
+}
+
+/** Tracks generated call ids so tool results can be paired with their calls */
+class PendingCalls {
+  private readonly calls: Array<{ id: string; name: string }> = []
+
+  add(id: string, name: string) {
+    this.calls.push({ id, name })
+  }
+
+  take(name: string | undefined): string {
+    const index = name === undefined ? -1 : this.calls.findIndex((call) => call.name === name)
+    const taken = this.calls.splice(Math.max(index, 0), 1)
+    return taken.length > 0 ? taken[0].id : `call_${name ?? "unknown"}`
+  }
+}
+
+function translateMessages(messages: Array<OllamaMessage>): Array<Message> {
+  const pending = new PendingCalls()
+  const translated: Array<Message> = []
+
+  for (const [turn, message] of messages.entries()) {
+    switch (message.role) {
+      case "system": {
+        translated.push({ role: "system", content: message.content })
+        break
+      }
+      case "assistant": {
+        const toolCalls: Array<ToolCall> = (message.tool_calls ?? []).map((call, index) => {
+          const id = `call_${turn}_${index}`
+          pending.add(id, call.function.name)
+          return {
+            id,
+            type: "function",
+            function: { name: call.function.name, arguments: JSON.stringify(call.function.arguments) },
+          }
+        })
+        translated.push({
+          role: "assistant",
+          content: toolCalls.length > 0 ? message.content || null : message.content,
+          ...(toolCalls.length > 0 && { tool_calls: toolCalls }),
+        })
+        break
+      }
+      case "tool": {
+        translated.push({ role: "tool", tool_call_id: pending.take(message.tool_name), content: message.content })
+        break
+      }
+      default: {
+        translated.push({ role: "user", content: toUserContent(message.content, message.images) })
+      }
+    }
+  }
+  return translated
+}
+
+function toUserContent(text: string, images: Array<string> | undefined): string | Array<ContentPart> {
+  if (!images || images.length === 0) return text
+
+  const parts: Array<ContentPart> = text ? [{ type: "text", text }] : []
+  for (const image of images) {
+    parts.push({ type: "image_url", image_url: { url: toDataUrl(image) } })
+  }
+  return parts
+}
+
+/** Ollama sends bare base64; the media type is sniffed from the encoded magic bytes */
+function toDataUrl(image: string): string {
+  if (image.startsWith("data:")) return image
+
+  let mediaType = "image/png"
+  if (image.startsWith("/9j/")) mediaType = "image/jpeg"
+  else if (image.startsWith("R0lGOD")) mediaType = "image/gif"
+  else if (image.startsWith("UklGR")) mediaType = "image/webp"
+  return `data:${mediaType};base64,${image}`
+}
+
+function translateFormat(format: OllamaFormat | undefined): ResponseFormat | undefined {
+  if (!format) return undefined
+  if (format === "json") return { type: "json_object" }
+  return { type: "json_schema", json_schema: { name: "response", schema: format } }
+}
+
+/**
+ * Map a `think` level onto `reasoning_effort`, omitted when the model does not
+ * advertise it. `think: true`/`false` leave the model's default behaviour.
+ */
+function resolveReasoningEffort(think: OllamaThink | undefined, model: Model | undefined): ReasoningEffort | undefined {
+  if (typeof think !== "string") return undefined
+
+  const supported = model?.capabilities?.supports?.reasoning_effort as unknown
+  if (model && (!Array.isArray(supported) || !supported.includes(think))) return undefined
+  return think
+}
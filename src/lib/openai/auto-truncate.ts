@@ -8,6 +8,7 @@
  * - Preserves system messages
  * - Filters orphaned tool_result and tool_use messages
  * - Optional smart compression of old tool_result content
+ * - Optional LLM summary of removed messages (summarize mode)
  */
 
 import consola from "consola"
@@ -16,28 +17,26 @@ import type { Model } from "~/lib/models/client"
 import type { ChatCompletionsPayload, Message } from "~/types/api/openai-chat-completions"
 
 import { getTokenCount } from "~/lib/models/tokenizer"
+import { state } from "~/lib/state"
 import { bytesToKB } from "~/lib/utils"
 
 import type { AutoTruncateConfig } from "../auto-truncate"
 
-import {
-  DEFAULT_AUTO_TRUNCATE_CONFIG,
-  calibrate,
-  computeSafetyMargin,
-  getLearnedLimits,
-} from "../auto-truncate"
-import { state } from "~/lib/state"
-import { extractOpenAISystemMessages } from "./orphan-filter"
+import { DEFAULT_AUTO_TRUNCATE_CONFIG, calibrate, computeSafetyMargin, getLearnedLimits } from "../auto-truncate"
+import { summarizeConversationPrefix } from "../auto-truncate/summarize"
+import { estimateMessageTokens } from "./auto-truncate/token-counting"
 import {
   addCompressionNotice,
   cleanupMessages,
+  createSummaryTurns,
   createTruncationMarker,
   createTruncationSystemContext,
   findOptimalPreserveIndex,
   generateRemovedMessagesSummary,
   smartCompressToolResults,
+  toTranscriptTurns,
 } from "./auto-truncate/truncation"
-import { estimateMessageTokens } from "./auto-truncate/token-counting"
+import { extractOpenAISystemMessages } from "./orphan-filter"
 
 // ============================================================================
 // Result Types
@@ -282,11 +281,14 @@ async function truncateByMessageRemoval(
   // Calculate system message token sizes
   const systemTokens = systemMessages.reduce((sum, m) => sum + estimateMessageTokens(m), 0)
 
+  // In summarize mode, keep room for the summary turn the model will write
+  const summarize = state.autoTruncateMode === "summarize"
+
   // Find optimal preserve index
   const preserveIndex = findOptimalPreserveIndex({
     messages: conversationMessages,
     systemTokens,
-    tokenLimit: ctx.tokenLimit,
+    tokenLimit: summarize ? ctx.tokenLimit - state.autoTruncateSummaryMaxTokens : ctx.tokenLimit,
   })
 
   // Check if we can compact
@@ -319,14 +321,24 @@ async function truncateByMessageRemoval(
   // Calculate removed messages and generate summary
   const removedMessages = conversationMessages.slice(0, preserveIndex)
   const removedCount = conversationMessages.length - preserved.length
-  const summary = generateRemovedMessagesSummary(removedMessages)
 
   // Build new payload with truncation context
   let newSystemMessages = systemMessages
   let newMessages = preserved
 
-  // Prefer adding context to last system message (cleaner for the model)
-  if (systemMessages.length > 0) {
+  // Summarize the uncompressed originals (compression maps messages 1:1)
+  const originalRemoved = extractOpenAISystemMessages(ctx.payload.messages).conversationMessages.slice(0, preserveIndex)
+  const llmSummary = summarize ? await summarizeConversationPrefix(toTranscriptTurns(originalRemoved)) : undefined
+
+  if (llmSummary) {
+    // Summary replaces the removed prefix as a user/assistant exchange; preserved starts with user
+    newMessages = [...createSummaryTurns(llmSummary), ...preserved]
+    if (compressedCount > 0) {
+      newSystemMessages = addCompressionNotice({ ...ctx.payload, messages: systemMessages }, compressedCount).messages
+    }
+  } else if (systemMessages.length > 0) {
+    // Prefer adding context to last system message (cleaner for the model)
+    const summary = generateRemovedMessagesSummary(removedMessages)
     const truncationContext = createTruncationSystemContext(removedCount, compressedCount, summary)
     const lastSystemIdx = systemMessages.length - 1
     const lastSystem = systemMessages[lastSystemIdx]
@@ -340,6 +352,7 @@ async function truncateByMessageRemoval(
     newSystemMessages = [...systemMessages.slice(0, lastSystemIdx), updatedSystem]
   } else {
     // No system messages, use marker message
+    const summary = generateRemovedMessagesSummary(removedMessages)
     const marker = createTruncationMarker(removedCount, compressedCount, summary)
     newMessages = [marker, ...preserved]
   }
@@ -355,7 +368,7 @@ async function truncateByMessageRemoval(
 
   // Log single line summary
   const actions: Array<string> = []
-  if (removedCount > 0) actions.push(`removed ${removedCount} msgs`)
+  if (removedCount > 0) actions.push(`${llmSummary ? "summarized" : "removed"} ${removedCount} msgs`)
   if (compressedCount > 0) actions.push(`compressed ${compressedCount} tool_results`)
   const actionInfo = actions.length > 0 ? ` (${actions.join(", ")})` : ""
 
@@ -391,6 +404,7 @@ async function truncateByMessageRemoval(
  * 1. Check if compaction is needed
  * 2. Try compressing tool results (old first, then all)
  * 3. If still over limit, remove messages via binary search
+ *    (summarizing them instead in summarize mode)
  */
 export async function autoTruncateOpenAI(
   payload: ChatCompletionsPayload,
@@ -1,6 +1,9 @@
 import type { ChatCompletionsPayload, Message } from "~/types/api/openai-chat-completions"
 
+import type { TranscriptTurn } from "../../auto-truncate/summarize"
+
 import { LARGE_TOOL_RESULT_THRESHOLD, compressToolResultContent } from "../../auto-truncate"
+import { SUMMARY_REQUEST_TEXT, SUMMARY_RESPONSE_PREFIX } from "../../auto-truncate/summarize"
 import {
   ensureOpenAIStartsWithUser,
   extractOpenAISystemMessages,
@@ -243,6 +246,37 @@ export function createTruncationMarker(
   }
 }
 
+/**
+ * Render removed messages as plain-text turns for the summary model.
+ */
+export function toTranscriptTurns(messages: Array<Message>): Array<TranscriptTurn> {
+  return messages.map((msg) => {
+    const parts: Array<string> = []
+    if (typeof msg.content === "string") {
+      parts.push(msg.content)
+    } else if (msg.content) {
+      for (const part of msg.content) {
+        if (part.type === "text") parts.push(part.text)
+      }
+    }
+    for (const toolCall of msg.tool_calls ?? []) {
+      parts.push(`[tool_call: ${toolCall.function.name}] ${toolCall.function.arguments}`)
+    }
+    return { role: msg.role, text: parts.join("\n") }
+  })
+}
+
+/**
+ * Synthetic user/assistant exchange that carries the summary of removed messages.
+ * Plain text without tool_calls, so no tool message can be left unpaired by it.
+ */
+export function createSummaryTurns(summary: string): Array<Message> {
+  return [
+    { role: "user", content: SUMMARY_REQUEST_TEXT },
+    { role: "assistant", content: SUMMARY_RESPONSE_PREFIX + summary },
+  ]
+}
+
 /**
  * Extract system token approximation from OpenAI messages.
  */
@@ -7,9 +7,11 @@ import type { HeadersCapture } from "~/lib/context/request"
 import type { Model } from "~/lib/models/client"
 import type { ChatCompletionsPayload, ChatCompletionResponse } from "~/types/api/openai-chat-completions"
 
+import { upstreamFetch } from "~/lib/cassettes"
 import { copilotBaseUrl } from "~/lib/copilot-api"
 import { HTTPError } from "~/lib/error"
 import { createFetchSignal, captureHttpHeaders, sanitizeHeadersForHistory } from "~/lib/fetch-utils"
+import { applyWireRequestHooks } from "~/lib/plugins"
 import { state } from "~/lib/state"
 import { prepareChatCompletionsRequest, type PreparedOpenAIRequest } from "./request-preparation"
 
@@ -28,16 +30,17 @@ export const createChatCompletions = async (
   if (!state.copilotToken) throw new Error("Copilot token not found")
 
   const prepared = prepareChatCompletionsRequest(payload, opts)
+  const wire = await applyWireRequestHooks("openai-chat-completions", prepared.wire)
+  const { headers } = prepared
   opts?.onPrepared?.({
-    wire: prepared.wire,
-    headers: sanitizeHeadersForHistory(prepared.headers),
+    wire,
+    headers: sanitizeHeadersForHistory(headers),
   })
-  const { wire, headers } = prepared
 
   // Apply fetch timeout if configured (connection + response headers)
   const fetchSignal = createFetchSignal()
 
-  const response = await fetch(`${copilotBaseUrl(state)}/chat/completions`, {
+  const response = await upstreamFetch(`${copilotBaseUrl(state)}/chat/completions`, {
     method: "POST",
     headers,
     body: JSON.stringify(wire),
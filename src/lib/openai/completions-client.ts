@@ -0,0 +1,66 @@
+/**
+ * Native legacy Completions client for Copilot /completions.
+ * Only used for models that advertise the endpoint; everything else is
+ * translated to Chat Completions by the /v1/completions handler.
+ */
+
+import type { ServerSentEventMessage } from "fetch-event-stream"
+
+import consola from "consola"
+import { events } from "fetch-event-stream"
+
+import type { HeadersCapture } from "~/lib/context/request"
+import type { Model } from "~/lib/models/client"
+import type { CompletionResponse, CompletionsPayload } from "~/types/api/openai-completions"
+
+import { upstreamFetch } from "~/lib/cassettes"
+import { copilotBaseUrl, copilotHeaders } from "~/lib/copilot-api"
+import { HTTPError } from "~/lib/error"
+import { createFetchSignal, captureHttpHeaders, sanitizeHeadersForHistory } from "~/lib/fetch-utils"
+import { applyWireRequestHooks } from "~/lib/plugins"
+import { state } from "~/lib/state"
+
+import type { PreparedOpenAIRequest } from "./request-preparation"
+
+interface CreateCompletionsOptions {
+  resolvedModel?: Model
+  headersCapture?: HeadersCapture
+  onPrepared?: (request: PreparedOpenAIRequest<CompletionsPayload>) => void
+}
+
+export const createCompletions = async (
+  payload: CompletionsPayload,
+  opts?: CreateCompletionsOptions,
+): Promise<CompletionResponse | AsyncGenerator<ServerSentEventMessage>> => {
+  if (!state.copilotToken) throw new Error("Copilot token not found")
+
+  const headers: Record<string, string> = {
+    ...copilotHeaders(state, { modelRequestHeaders: opts?.resolvedModel?.request_headers }),
+    "X-Initiator": "user",
+  }
+  const wire = await applyWireRequestHooks("openai-completions", payload)
+  opts?.onPrepared?.({ wire, headers: sanitizeHeadersForHistory(headers) })
+
+  const response = await upstreamFetch(`${copilotBaseUrl(state)}/completions`, {
+    method: "POST",
+    headers,
+    body: JSON.stringify(wire),
+    signal: createFetchSignal(),
+  })
+
+  // Capture HTTP headers for history (before error check — capture even on failure)
+  if (opts?.headersCapture) {
+    captureHttpHeaders(opts.headersCapture, headers, response)
+  }
+
+  if (!response.ok) {
+    consola.error("Failed to create completions", response)
+    throw await HTTPError.fromResponse("Failed to create completions", response, wire.model)
+  }
+
+  if (wire.stream) {
+    return events(response)
+  }
+
+  return (await response.json()) as CompletionResponse
+}
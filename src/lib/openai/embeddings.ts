@@ -1,3 +1,4 @@
+import { upstreamFetch } from "~/lib/cassettes"
 import { copilotHeaders, copilotBaseUrl } from "~/lib/copilot-api"
 import { HTTPError } from "~/lib/error"
 import { createFetchSignal } from "~/lib/fetch-utils"
@@ -12,7 +13,7 @@ export const createEmbeddings = async (payload: EmbeddingRequest) => {
     input: typeof payload.input === "string" ? [payload.input] : payload.input,
   }
 
-  const response = await fetch(`${copilotBaseUrl(state)}/embeddings`, {
+  const response = await upstreamFetch(`${copilotBaseUrl(state)}/embeddings`, {
     method: "POST",
     headers: copilotHeaders(state),
     body: JSON.stringify(normalizedPayload),
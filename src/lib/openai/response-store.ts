@@ -0,0 +1,239 @@
+/**
+ * Local stateful Responses API store.
+ *
+ * Copilot only keeps conversation state on the upstream WebSocket that produced a
+ * response, so `previous_response_id` would otherwise be meaningless for HTTP
+ * requests. Responses created with `store` not set to `false` are kept here in
+ * memory, and a follow-up request that references one gets its full input chain
+ * (previous context + previous output + new input) materialized before it is
+ * sent upstream.
+ *
+ * Each entry holds only the input of its own turn and a reference to the entry it
+ * continued, so a chain of N turns is stored once. The reference keeps an evicted
+ * parent alive for as long as a chain is built on top of it. Eviction is LRU with
+ * a sliding TTL; both limits and the on/off switch are read from state on every
+ * call, so they are hot-reloadable.
+ *
+ * Entries belong to the API key label of the request that created them: another
+ * key (or a keyless request) cannot read, list, delete or chain onto them.
+ */
+
+import consola from "consola"
+
+import type { ResponsesStreamAccumulator } from "~/lib/openai/responses-stream-accumulator"
+import type { ResponsesInputItem, ResponsesPayload, ResponsesResponse } from "~/types/api/openai-responses"
+
+import { state } from "~/lib/state"
+
+/** A response kept for `previous_response_id` chaining and retrieval */
+export interface StoredResponse {
+  /** Response object as returned by `GET /responses/:id` */
+  response: ResponsesResponse
+  /** Entry of `previous_response_id`, whose context and output precede `input` */
+  parent?: StoredResponse
+  /** Input items sent with this turn */
+  input: Array<ResponsesInputItem>
+  /** API key label of the request that created the response */
+  apiKeyLabel?: string
+  lastUsedAt: number
+}
+
+/** OpenAI-style list object returned by `GET /responses/:id/input_items` */
+export interface ResponsesInputItemList {
+  object: "list"
+  data: Array<ResponsesInputItem & { id: string }>
+  first_id: string | null
+  last_id: string | null
+  has_more: boolean
+}
+
+export interface InputItemListOptions {
+  order?: "asc" | "desc"
+  after?: string
+  limit?: number
+}
+
+const DEFAULT_LIST_LIMIT = 20
+const MAX_LIST_LIMIT = 100
+
+/** responseId → entry, least recently used first */
+const responses = new Map<string, StoredResponse>()
+
+/** Clear all stored responses (for testing) */
+export function resetResponseStoreForTesting(): void {
+  responses.clear()
+}
+
+// ============================================================================
+// Lookup & eviction
+// ============================================================================
+
+function isExpired(entry: StoredResponse, now: number): boolean {
+  return state.responsesStoreTtl > 0 && now - entry.lastUsedAt > state.responsesStoreTtl * 1000
+}
+
+/**
+ * Get a stored response and mark it as recently used. None while the store is
+ * disabled, or when the response belongs to another API key.
+ */
+export function getStoredResponse(
+  id: string,
+  apiKeyLabel: string | undefined,
+  now = Date.now(),
+): StoredResponse | undefined {
+  if (!state.responsesLocalStore) return undefined
+  const entry = responses.get(id)
+  if (!entry || entry.apiKeyLabel !== apiKeyLabel) return undefined
+
+  responses.delete(id)
+  if (isExpired(entry, now)) return undefined
+
+  entry.lastUsedAt = now
+  responses.set(id, entry)
+  return entry
+}
+
+/** Delete a stored response. Returns false when the id is unknown, already expired or another key's. */
+export function deleteStoredResponse(id: string, apiKeyLabel: string | undefined, now = Date.now()): boolean {
+  return getStoredResponse(id, apiKeyLabel, now) !== undefined && responses.delete(id)
+}
+
+function evict(now: number): void {
+  for (const [id, entry] of responses) {
+    if (!isExpired(entry, now)) break
+    responses.delete(id)
+  }
+
+  const maxEntries = state.responsesStoreMaxEntries
+  while (maxEntries > 0 && responses.size > maxEntries) {
+    const oldest = responses.keys().next().value
+    if (oldest === undefined) break
+    responses.delete(oldest)
+  }
+}
+
+// ============================================================================
+// Input chain materialization
+// ============================================================================
+
+function toInputItems(input: ResponsesPayload["input"]): Array<ResponsesInputItem> {
+  return typeof input === "string" ? [{ type: "message", role: "user", content: input }] : input
+}
+
+/** Output items of a stored response as input items for the next turn */
+function outputAsInput(response: ResponsesResponse): Array<ResponsesInputItem> {
+  // Reasoning without encrypted content cannot be round-tripped without server-side state
+  return response.output.filter(
+    (item) => item.type !== "reasoning" || item.encrypted_content,
+  ) as Array<ResponsesInputItem>
+}
+
+/** Every input item a stored response was generated from, including earlier turns of its chain */
+function getStoredContext(entry: StoredResponse): Array<ResponsesInputItem> {
+  const turns: Array<StoredResponse> = []
+  for (let turn = entry.parent; turn; turn = turn.parent) turns.push(turn)
+
+  const context: Array<ResponsesInputItem> = []
+  for (const turn of turns.reverse()) context.push(...turn.input, ...outputAsInput(turn.response))
+  context.push(...entry.input)
+  return context
+}
+
+/**
+ * Replace `previous_response_id` with the stored input chain it refers to.
+ *
+ * Returns the payload unchanged when the local store is disabled, the request
+ * doesn't chain, or the id is not stored locally for the caller's API key (it
+ * is then left for upstream).
+ */
+export function materializeResponseChain(payload: ResponsesPayload, apiKeyLabel: string | undefined): ResponsesPayload {
+  if (!state.responsesLocalStore || !payload.previous_response_id) return payload
+
+  const previous = getStoredResponse(payload.previous_response_id, apiKeyLabel)
+  if (!previous) return payload
+
+  const { previous_response_id: previousResponseId, ...rest } = payload
+  const input = [...getStoredContext(previous), ...outputAsInput(previous.response), ...toInputItems(payload.input)]
+  consola.debug(`[ResponseStore] Materialized ${previousResponseId}: ${input.length} input items`)
+  return { ...rest, input }
+}
+
+// ============================================================================
+// Recording
+// ============================================================================
+
+/**
+ * Store a finished response for later chaining and retrieval.
+ *
+ * `payload` is the request as the client sent it (before materialization);
+ * requests with `store: false` are not kept.
+ */
+export function recordStoredResponse(
+  payload: ResponsesPayload,
+  response: ResponsesResponse,
+  apiKeyLabel: string | undefined,
+  now = Date.now(),
+): void {
+  if (!state.responsesLocalStore || payload.store === false || !response.id) return
+
+  const previous = payload.previous_response_id ? responses.get(payload.previous_response_id) : undefined
+  if (payload.previous_response_id && (!previous || previous.apiKeyLabel !== apiKeyLabel)) {
+    // The chain started before this process, was evicted or is another key's — a partial context would be wrong
+    consola.debug(`[ResponseStore] Not storing ${response.id}: ${payload.previous_response_id} is unknown`)
+    return
+  }
+
+  responses.delete(response.id)
+  responses.set(response.id, {
+    // Echo what the client asked for — upstream saw neither field when the chain was materialized
+    response: { ...response, previous_response_id: payload.previous_response_id ?? null, store: true },
+    parent: previous,
+    input: toInputItems(payload.input),
+    apiKeyLabel,
+    lastUsedAt: now,
+  })
+  evict(now)
+}
+
+/** Store a streamed response from its accumulator, if the stream reached a terminal event */
+export function recordStoredStreamResponse(
+  payload: ResponsesPayload,
+  acc: ResponsesStreamAccumulator,
+  apiKeyLabel: string | undefined,
+): void {
+  if (!acc.response || acc.response.status === "in_progress") return
+  const output = acc.response.output.length > 0 ? acc.response.output : acc.outputItems
+  recordStoredResponse(payload, { ...acc.response, output }, apiKeyLabel)
+}
+
+// ============================================================================
+// Input item listing
+// ============================================================================
+
+/** Paginated input items of a stored response, shaped like OpenAI's list endpoint */
+export function listStoredInputItems(entry: StoredResponse, opts: InputItemListOptions = {}): ResponsesInputItemList {
+  const responseId = entry.response.id
+  const items = getStoredContext(entry).map((item, index) => ({
+    ...item,
+    type: item.type ?? "message",
+    id: item.id ?? `item_${responseId}_${index}`,
+  }))
+  if (opts.order !== "asc") items.reverse()
+
+  let start = 0
+  if (opts.after) {
+    const cursorIndex = items.findIndex((item) => item.id === opts.after)
+    // An unknown cursor yields an empty page rather than starting over
+    start = cursorIndex === -1 ? items.length : cursorIndex + 1
+  }
+  const limit = Math.min(Math.max(opts.limit ?? DEFAULT_LIST_LIMIT, 1), MAX_LIST_LIMIT)
+  const data = items.slice(start, start + limit)
+
+  return {
+    object: "list",
+    data,
+    first_id: data.at(0)?.id ?? null,
+    last_id: data.at(-1)?.id ?? null,
+    has_more: start + limit < items.length,
+  }
+}
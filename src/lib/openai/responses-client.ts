@@ -13,17 +13,22 @@ import type { RequestTransport } from "~/lib/history"
 import type { Model } from "~/lib/models/client"
 import type { ResponsesPayload, ResponsesResponse, ResponsesStreamEvent } from "~/types/api/openai-responses"
 
+import { getCassetteMode, upstreamFetch } from "~/lib/cassettes"
 import { copilotBaseUrl } from "~/lib/copilot-api"
 import { HTTPError } from "~/lib/error"
 import { createFetchSignal, captureHttpHeaders, sanitizeHeadersForHistory } from "~/lib/fetch-utils"
 import { isWsResponsesSupported } from "~/lib/models/endpoint"
+import { applyWireRequestHooks } from "~/lib/plugins"
 import { state } from "~/lib/state"
 
 import { prepareResponsesRequest, type PreparedOpenAIRequest } from "./request-preparation"
+import { materializeResponseChain } from "./response-store"
 import { getUpstreamWsManager } from "./upstream-ws"
 
 interface CreateResponsesOptions {
   resolvedModel?: Model
+  /** API key label of the caller; `previous_response_id` only chains onto its own stored responses */
+  apiKeyLabel?: string
   headersCapture?: HeadersCapture
   onPrepared?: (request: PreparedOpenAIRequest<ResponsesPayload>) => void
   onTransport?: (transport: RequestTransport) => void
@@ -38,23 +43,23 @@ export const createResponses = async (
 ): Promise<ResponsesResponse | AsyncGenerator<ServerSentEventMessage>> => {
   if (!state.copilotToken) throw new Error("Copilot token not found")
 
-  const prepared = prepareResponsesRequest(payload, opts)
-  opts?.onPrepared?.({
-    wire: prepared.wire,
-    headers: sanitizeHeadersForHistory(prepared.headers),
-  })
-  const { wire } = prepared
+  const useWebSocket = Boolean(payload.stream) && canUseUpstreamWebSocket(opts?.resolvedModel)
+  const manager = getUpstreamWsManager()
+  const reusable =
+    useWebSocket && typeof payload.previous_response_id === "string" ?
+      manager.findReusable({
+        previousResponseId: payload.previous_response_id,
+        model: payload.model,
+      })
+    : undefined
+
+  // Copilot only holds conversation state on the upstream WebSocket that produced
+  // previous_response_id; anywhere else the chain is rebuilt from the local store
+  let prepared = await prepareResponses(reusable ? payload : materializeResponseChain(payload, opts?.apiKeyLabel), opts)
   let usedFallback = false
 
-  if (wire.stream && canUseUpstreamWebSocket(opts?.resolvedModel)) {
-    const manager = getUpstreamWsManager()
-    const reusable =
-      typeof wire.previous_response_id === "string" ?
-        manager.findReusable({
-          previousResponseId: wire.previous_response_id,
-          model: wire.model,
-        })
-      : undefined
+  if (useWebSocket) {
+    const { wire } = prepared
     const connection = reusable ?? (await manager.create({ headers: prepared.headers, model: wire.model }))
 
     try {
@@ -85,6 +90,9 @@ export const createResponses = async (
         `[responses] Upstream WS failed before first event, falling back to HTTP `
           + `(${manager.consecutiveFallbacks}/3): ${error instanceof Error ? error.message : String(error)}`,
       )
+
+      // The connection that held the conversation state is gone
+      if (reusable) prepared = await prepareResponses(materializeResponseChain(payload, opts?.apiKeyLabel), opts)
     }
   }
 
@@ -94,7 +102,22 @@ export const createResponses = async (
   return createResponsesViaHttp(prepared, opts?.headersCapture)
 }
 
+async function prepareResponses(
+  payload: ResponsesPayload,
+  opts?: CreateResponsesOptions,
+): Promise<PreparedOpenAIRequest<ResponsesPayload>> {
+  const prepared = prepareResponsesRequest(payload, opts)
+  const wire = await applyWireRequestHooks("openai-responses", prepared.wire)
+  opts?.onPrepared?.({
+    wire,
+    headers: sanitizeHeadersForHistory(prepared.headers),
+  })
+  return { ...prepared, wire }
+}
+
 function canUseUpstreamWebSocket(model: Model | undefined): boolean {
+  // Cassettes capture HTTP exchanges only
+  if (getCassetteMode()) return false
   const manager = getUpstreamWsManager()
   return state.upstreamWebSocket && !manager.temporarilyDisabled && !manager.stopped && isWsResponsesSupported(model)
 }
@@ -107,7 +130,7 @@ async function createResponsesViaHttp(
   // Apply fetch timeout if configured (connection + response headers)
   const fetchSignal = createFetchSignal()
 
-  const response = await fetch(`${copilotBaseUrl(state)}/responses`, {
+  const response = await upstreamFetch(`${copilotBaseUrl(state)}/responses`, {
     method: "POST",
     headers,
     body: JSON.stringify(wire),
@@ -4,7 +4,7 @@
  */
 
 import type { BaseStreamAccumulator } from "~/lib/anthropic/stream-accumulator"
-import type { ResponsesStreamEvent } from "~/types/api/openai-responses"
+import type { ResponsesOutputItem, ResponsesResponse, ResponsesStreamEvent } from "~/types/api/openai-responses"
 
 /** Internal tool call accumulator using string array to avoid O(n²) concatenation */
 interface ToolCallAccumulator {
@@ -27,6 +27,10 @@ export interface ResponsesStreamAccumulator extends BaseStreamAccumulator {
   reasoningTokens: number
   /** Cached input tokens (from input_tokens_details) */
   cachedInputTokens: number
+  /** Latest full response object from a lifecycle event (created/in_progress/completed/failed/incomplete) */
+  response?: ResponsesResponse
+  /** Finished output items in arrival order (from output_item.done) */
+  outputItems: Array<ResponsesOutputItem>
 }
 
 export function createResponsesStreamAccumulator(): ResponsesStreamAccumulator {
@@ -42,6 +46,7 @@ export function createResponsesStreamAccumulator(): ResponsesStreamAccumulator {
     contentParts: [],
     reasoningTokens: 0,
     cachedInputTokens: 0,
+    outputItems: [],
   }
 }
 
@@ -59,12 +64,14 @@ export function accumulateResponsesStreamEvent(event: ResponsesStreamEvent, acc:
   switch (event.type) {
     case "response.created":
     case "response.in_progress": {
+      acc.response = event.response
       if (event.response.model) acc.model = event.response.model
       if (event.response.id) acc.responseId = event.response.id
       break
     }
 
     case "response.completed": {
+      acc.response = event.response
       acc.status = event.response.status
       if (event.response.model) acc.model = event.response.model
       if (event.response.usage) {
@@ -78,6 +85,7 @@ export function accumulateResponsesStreamEvent(event: ResponsesStreamEvent, acc:
 
     case "response.failed":
     case "response.incomplete": {
+      acc.response = event.response
       acc.status = event.response.status
       break
     }
@@ -121,6 +129,7 @@ export function accumulateResponsesStreamEvent(event: ResponsesStreamEvent, acc:
     }
 
     case "response.output_item.done": {
+      acc.outputItems.push(event.item)
       // Final output item — if it's a function call that wasn't already finalized
       // via arguments.done, finalize it now
       if (event.item.type === "function_call") {
@@ -0,0 +1,227 @@
+/**
+ * Proxy-side emulation of Chat Completions parameters the Responses API lacks.
+ *
+ * Used when a Chat Completions request is served through `/responses`:
+ * - `stop` is enforced on the translated output — text is cut before the first
+ *   stop sequence and the choice finishes with `finish_reason: "stop"`.
+ * - `n` fans out into `n` independent upstream calls whose single choices are
+ *   merged into one response (or one interleaved stream), re-indexed 0..n-1.
+ *
+ * The remaining dropped params (`seed`, penalties, `logit_bias`, `logprobs`)
+ * have no equivalent and are reported to the client instead.
+ */
+
+import type { ServerSentEventMessage } from "fetch-event-stream"
+
+import type {
+  ChatCompletionChunk,
+  ChatCompletionResponse,
+  ChatCompletionUsage,
+  ChatCompletionsPayload,
+} from "~/types/api/openai-chat-completions"
+
+/** Params dropped by the Responses translation that this module emulates */
+export const EMULATED_CC_PARAMS: ReadonlySet<string> = new Set(["stop", "n"])
+
+/** Upper bound for `n` — each choice is a separate upstream request */
+export const MAX_EMULATED_CHOICES = 16
+
+/** Stop sequences of a request, without empty strings */
+export function getStopSequences(stop: ChatCompletionsPayload["stop"]): Array<string> {
+  if (!stop) return []
+  return (typeof stop === "string" ? [stop] : stop).filter((sequence) => sequence.length > 0)
+}
+
+/** The earliest stop sequence in `text` and where it starts */
+export function findStopSequence(text: string, stops: Array<string>): { index: number; sequence: string } | undefined {
+  let earliest: { index: number; sequence: string } | undefined
+  for (const sequence of stops) {
+    const index = text.indexOf(sequence)
+    if (index !== -1 && (!earliest || index < earliest.index)) earliest = { index, sequence }
+  }
+  return earliest
+}
+
+// ============================================================================
+// Stop sequences
+// ============================================================================
+
+/** Cut every choice's content at its first stop sequence */
+export function applyStopSequences(response: ChatCompletionResponse, stops: Array<string>): ChatCompletionResponse {
+  if (stops.length === 0) return response
+
+  return {
+    ...response,
+    choices: response.choices.map((choice) => {
+      const content = choice.message.content
+      const match = content ? findStopSequence(content, stops) : undefined
+      if (!match || !content) return choice
+      return {
+        ...choice,
+        message: { ...choice.message, content: content.slice(0, match.index) },
+        finish_reason: "stop",
+      }
+    }),
+  }
+}
+
+/**
+ * Enforce stop sequences on a translated single-choice Chat Completions stream.
+ *
+ * The tail of the text that could still become a stop sequence is held back
+ * until the next delta decides it. On a match the stream ends right away with
+ * `finish_reason: "stop"`, so a trailing usage chunk is not forwarded;
+ * `onStop` learns which sequence matched.
+ */
+export async function* enforceStopSequences(
+  upstream: AsyncIterable<ServerSentEventMessage>,
+  stops: Array<string>,
+  onStop?: (sequence: string) => void,
+): AsyncGenerator<ServerSentEventMessage> {
+  if (stops.length === 0) {
+    yield* upstream
+    return
+  }
+
+  const holdback = Math.max(...stops.map((stop) => stop.length)) - 1
+  let pending = ""
+  let lastChunk: ChatCompletionChunk | undefined
+
+  const toEvent = (chunk: ChatCompletionChunk): ServerSentEventMessage =>
+    ({ data: JSON.stringify(chunk), event: "message" }) as ServerSentEventMessage
+  const withContent = (chunk: ChatCompletionChunk, content: string, finishReason: "stop" | null = null) =>
+    toEvent({
+      ...chunk,
+      choices: [{ index: 0, delta: { content }, finish_reason: finishReason, logprobs: null }],
+      usage: undefined,
+    })
+
+  for await (const rawEvent of upstream) {
+    if (!rawEvent.data || rawEvent.data === "[DONE]") continue
+
+    const chunk = JSON.parse(rawEvent.data) as ChatCompletionChunk
+    lastChunk = chunk
+    const choice = chunk.choices.at(0)
+    const content = choice?.delta.content
+
+    if (choice && content) {
+      const text = pending + content
+      const match = findStopSequence(text, stops)
+      if (match) {
+        onStop?.(match.sequence)
+        yield withContent(chunk, text.slice(0, match.index), "stop")
+        pending = ""
+        break
+      }
+
+      // Nothing follows a finishing chunk, so nothing needs to be held back
+      const emitLength = choice.finish_reason ? text.length : Math.max(0, text.length - holdback)
+      pending = text.slice(emitLength)
+      const emitted = text.slice(0, emitLength)
+      const { content: _content, ...rest } = choice.delta
+      // Keep the chunk if it carries anything besides the held-back text (role, tool calls, finish)
+      if (emitted || Object.keys(rest).length > 0 || choice.finish_reason) {
+        yield toEvent({ ...chunk, choices: [{ ...choice, delta: { ...rest, content: emitted } }] })
+      }
+      continue
+    }
+
+    // Anything else (role, tool calls, finish, usage) comes after the held-back text
+    if (pending) {
+      yield withContent(chunk, pending)
+      pending = ""
+    }
+    yield rawEvent
+  }
+
+  // Upstream ended without a finishing chunk; the held-back text is still output
+  if (pending && lastChunk) yield withContent(lastChunk, pending)
+  yield { data: "[DONE]" } as ServerSentEventMessage
+}
+
+// ============================================================================
+// n > 1 fan-out
+// ============================================================================
+
+function sumUsage(usages: Array<ChatCompletionUsage | undefined>): ChatCompletionUsage | undefined {
+  const present = usages.filter((usage): usage is ChatCompletionUsage => usage !== undefined)
+  if (present.length === 0) return undefined
+
+  // Every choice was a full upstream request, so prompt tokens are billed n times too
+  return present.reduce((total, usage) => ({
+    prompt_tokens: total.prompt_tokens + usage.prompt_tokens,
+    completion_tokens: total.completion_tokens + usage.completion_tokens,
+    total_tokens: total.total_tokens + usage.total_tokens,
+  }))
+}
+
+/** Merge single-choice responses into one response with `choices[i]` from `responses[i]` */
+export function mergeChoiceResponses(responses: Array<ChatCompletionResponse>): ChatCompletionResponse {
+  const [first] = responses
+  const usage = sumUsage(responses.map((response) => response.usage))
+
+  return {
+    ...first,
+    choices: responses.flatMap((response, index) =>
+      response.choices.slice(0, 1).map((choice) => ({ ...choice, index })),
+    ),
+    usage,
+  }
+}
+
+/**
+ * Interleave single-choice streams into one stream whose chunks carry
+ * `index: i` for stream `i`, all under the first chunk's id.
+ * Usage chunks are summed and sent once, before the final `[DONE]`.
+ */
+export async function* mergeChoiceStreams(
+  streams: Array<AsyncIterable<ServerSentEventMessage>>,
+): AsyncGenerator<ServerSentEventMessage> {
+  const iterators = streams.map((stream) => stream[Symbol.asyncIterator]())
+  const next = (index: number) => iterators[index].next().then((result) => ({ index, result }))
+  const inFlight = new Map(iterators.map((_, index) => [index, next(index)]))
+
+  const usages: Array<ChatCompletionUsage> = []
+  let template: ChatCompletionChunk | undefined
+
+  try {
+    while (inFlight.size > 0) {
+      const { index, result } = await Promise.race(inFlight.values())
+      if (result.done) {
+        inFlight.delete(index)
+        continue
+      }
+      inFlight.set(index, next(index))
+
+      const rawEvent = result.value
+      if (!rawEvent.data || rawEvent.data === "[DONE]") continue
+
+      const chunk = JSON.parse(rawEvent.data) as ChatCompletionChunk
+      template ??= chunk
+      if (chunk.usage) usages.push(chunk.usage)
+      if (chunk.choices.length === 0) continue
+
+      yield {
+        data: JSON.stringify({
+          ...chunk,
+          id: template.id,
+          choices: chunk.choices.map((choice) => ({ ...choice, index })),
+          usage: undefined,
+        }),
+        event: "message",
+      } as ServerSentEventMessage
+    }
+
+    const usage = sumUsage(usages)
+    if (template && usage) {
+      yield { data: JSON.stringify({ ...template, choices: [], usage }), event: "message" } as ServerSentEventMessage
+    }
+    yield { data: "[DONE]" } as ServerSentEventMessage
+  } finally {
+    // Close the streams still running (consumer stopped early or one stream failed)
+    for (const [index, pending] of inFlight) {
+      void pending.catch(() => undefined)
+      void iterators[index].return?.().catch(() => undefined)
+    }
+  }
+}
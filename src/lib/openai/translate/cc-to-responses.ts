@@ -69,6 +69,7 @@ export function translateChatCompletionsToResponses(payload: ChatCompletionsPayl
     ...(payload.user !== undefined && { user: payload.user }),
     ...(payload.service_tier !== undefined && { service_tier: payload.service_tier }),
     ...(payload.top_logprobs !== undefined && payload.top_logprobs !== null && { top_logprobs: payload.top_logprobs }),
+    ...(payload.reasoning_effort && { reasoning: { effort: payload.reasoning_effort } }),
     ...(payload.tools && { tools: translateTools(payload.tools) }),
     ...(payload.tool_choice && { tool_choice: translateToolChoice(payload.tool_choice) }),
     ...(payload.response_format && {
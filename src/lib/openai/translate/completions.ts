@@ -0,0 +1,183 @@
+/**
+ * Legacy Completions (`/v1/completions`) ⇄ Chat Completions translation.
+ *
+ * A text prompt becomes a single user message behind a system instruction
+ * that asks for a bare continuation; with `suffix` it becomes a fill-in-the-
+ * middle request around a marker. `n`, `stop`, sampling params and `seed`
+ * carry over unchanged, `logprobs: N` maps to `logprobs` + `top_logprobs`.
+ * `echo` is emulated by prepending the prompt to every choice (prompt tokens
+ * get no logprobs). `best_of` has no chat equivalent and is dropped.
+ */
+
+import type { ServerSentEventMessage } from "fetch-event-stream"
+
+import type {
+  ChatCompletionChunk,
+  ChatCompletionResponse,
+  ChatCompletionsPayload,
+  FinishReason,
+} from "~/types/api/openai-chat-completions"
+import type {
+  CompletionChunk,
+  CompletionFinishReason,
+  CompletionLogprobs,
+  CompletionResponse,
+  CompletionsPayload,
+} from "~/types/api/openai-completions"
+
+import { HTTPError } from "~/lib/error"
+
+/** Marks the insertion point in fill-in-the-middle prompts */
+export const FIM_MARKER = "<|fim_middle|>"
+
+const CONTINUATION_INSTRUCTIONS =
+  "You are a text completion engine. Continue the user's text exactly where it ends. "
+  + "Reply with only the continuation: do not repeat the text, add commentary, or wrap it in code fences."
+
+const FIM_INSTRUCTIONS =
+  `You are a code completion engine. The user's text contains a single ${FIM_MARKER} marker. `
+  + "Reply with only the text that belongs at the marker so that it joins the text before and after it: "
+  + "do not repeat the surrounding text, add commentary, or wrap it in code fences."
+
+/** The single text prompt of a request (arrays of one prompt are accepted) */
+export function getCompletionPrompt(payload: CompletionsPayload): string {
+  const { prompt } = payload
+  if (typeof prompt === "string") return prompt
+  if (Array.isArray(prompt) && prompt.length === 1 && typeof prompt[0] === "string") return prompt[0]
+
+  const msg = "prompt must be a string (token-id prompts and multiple prompts per request are not supported)"
+  throw new HTTPError(msg, 400, msg)
+}
+
+export function translateCompletionsToChatCompletions(payload: CompletionsPayload): ChatCompletionsPayload {
+  const prompt = getCompletionPrompt(payload)
+  const suffix = payload.suffix ?? ""
+  const wantsLogprobs = typeof payload.logprobs === "number"
+
+  return {
+    model: payload.model,
+    messages: [
+      { role: "system", content: suffix ? FIM_INSTRUCTIONS : CONTINUATION_INSTRUCTIONS },
+      { role: "user", content: suffix ? `${prompt}${FIM_MARKER}${suffix}` : prompt },
+    ],
+    max_tokens: payload.max_tokens,
+    temperature: payload.temperature,
+    top_p: payload.top_p,
+    n: payload.n,
+    stop: payload.stop,
+    stream: payload.stream,
+    stream_options: payload.stream ? payload.stream_options : undefined,
+    presence_penalty: payload.presence_penalty,
+    frequency_penalty: payload.frequency_penalty,
+    logit_bias: payload.logit_bias,
+    seed: payload.seed,
+    user: payload.user,
+    ...(wantsLogprobs && { logprobs: true, top_logprobs: payload.logprobs }),
+  }
+}
+
+// ============================================================================
+// Responses
+// ============================================================================
+
+interface ChatTokenLogprob {
+  token: string
+  logprob: number
+  top_logprobs?: Array<{ token: string; logprob: number }>
+}
+
+/** Convert chat token logprobs to the legacy parallel-array shape, offsets starting at `textOffset` */
+function translateLogprobs(logprobs: unknown, textOffset: number): CompletionLogprobs | null {
+  const content = (logprobs as { content?: Array<ChatTokenLogprob> | null } | null | undefined)?.content
+  if (!content) return null
+
+  const result: Required<CompletionLogprobs> = { tokens: [], token_logprobs: [], top_logprobs: [], text_offset: [] }
+  let offset = textOffset
+  for (const entry of content) {
+    result.tokens.push(entry.token)
+    result.token_logprobs.push(entry.logprob)
+    result.top_logprobs.push(Object.fromEntries((entry.top_logprobs ?? []).map((top) => [top.token, top.logprob])))
+    result.text_offset.push(offset)
+    offset += entry.token.length
+  }
+  return result
+}
+
+function translateFinishReason(reason: FinishReason | null | undefined): CompletionFinishReason {
+  // tool_calls / function_call can't happen without tools; treat them as a normal stop
+  return reason === "length" || reason === "content_filter" ? reason : "stop"
+}
+
+export function translateChatCompletionToCompletion(
+  response: ChatCompletionResponse,
+  payload: CompletionsPayload,
+): CompletionResponse {
+  const echo = payload.echo ? getCompletionPrompt(payload) : ""
+
+  return {
+    id: response.id,
+    object: "text_completion",
+    created: response.created,
+    model: response.model,
+    choices: response.choices.map((choice) => ({
+      index: choice.index,
+      text: echo + (choice.message.content ?? ""),
+      logprobs: translateLogprobs(choice.logprobs, echo.length),
+      finish_reason: translateFinishReason(choice.finish_reason),
+    })),
+    ...(response.usage && { usage: response.usage }),
+    ...(response.system_fingerprint && { system_fingerprint: response.system_fingerprint }),
+  }
+}
+
+/**
+ * Translate a Chat Completions SSE stream into `text_completion` chunks.
+ * With `echo`, each choice's first chunk is preceded by one carrying the prompt.
+ */
+export async function* translateChatStreamToCompletions(
+  upstream: AsyncIterable<ServerSentEventMessage>,
+  payload: CompletionsPayload,
+): AsyncGenerator<ServerSentEventMessage> {
+  const echo = payload.echo ? getCompletionPrompt(payload) : ""
+  /** choice index → text offset of its next token */
+  const offsets = new Map<number, number>()
+
+  for await (const rawEvent of upstream) {
+    if (!rawEvent.data || rawEvent.data === "[DONE]") continue
+
+    const chunk = JSON.parse(rawEvent.data) as ChatCompletionChunk
+    const toCompletion = (choices: CompletionChunk["choices"]): ServerSentEventMessage =>
+      ({
+        data: JSON.stringify({
+          id: chunk.id,
+          object: "text_completion",
+          created: chunk.created,
+          model: chunk.model,
+          choices,
+          ...(chunk.usage && { usage: chunk.usage }),
+        } satisfies CompletionChunk),
+      }) as ServerSentEventMessage
+
+    const choices: CompletionChunk["choices"] = []
+    for (const choice of chunk.choices) {
+      let offset = offsets.get(choice.index)
+      if (offset === undefined) {
+        offset = echo.length
+        if (echo) yield toCompletion([{ index: choice.index, text: echo, logprobs: null, finish_reason: null }])
+      }
+
+      const text = choice.delta.content ?? ""
+      offsets.set(choice.index, offset + text.length)
+      choices.push({
+        index: choice.index,
+        text,
+        logprobs: translateLogprobs(choice.logprobs, offset),
+        finish_reason: choice.finish_reason ? translateFinishReason(choice.finish_reason) : null,
+      })
+    }
+
+    if (choices.length > 0 || chunk.usage) yield toCompletion(choices)
+  }
+
+  yield { data: "[DONE]" } as ServerSentEventMessage
+}
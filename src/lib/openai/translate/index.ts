@@ -1,3 +1,19 @@
+export {
+  applyStopSequences,
+  EMULATED_CC_PARAMS,
+  enforceStopSequences,
+  findStopSequence,
+  getStopSequences,
+  MAX_EMULATED_CHOICES,
+  mergeChoiceResponses,
+  mergeChoiceStreams,
+} from "./cc-emulation"
 export { splitInstructionsAndConversation, translateChatCompletionsToResponses } from "./cc-to-responses"
+export {
+  getCompletionPrompt,
+  translateChatCompletionToCompletion,
+  translateChatStreamToCompletions,
+  translateCompletionsToChatCompletions,
+} from "./completions"
 export { translateResponsesResponseToCC } from "./responses-to-cc"
 export { createStreamTranslator, translateResponsesStream } from "./responses-to-cc-stream"
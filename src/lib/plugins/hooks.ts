@@ -0,0 +1,294 @@
+/**
+ * Running plugin hooks for a request.
+ *
+ * The pipeline runs `onRequest` on every attempt's effective payload, wraps the
+ * adapter result with `onResponse` / `onStreamEvent`, and calls `onError` when
+ * the request fails. `onWireRequest` runs inside the upstream clients, which find
+ * the request through an async-local scope set around `adapter.execute()`.
+ *
+ * Hooks get a copy of the value, so a hook that throws leaves the request as it
+ * was; only a veto (`ctx.veto()`) stops the request. Every run is recorded on the
+ * request context with its duration and the top-level fields it changed.
+ */
+
+import type { ServerSentEventMessage } from "fetch-event-stream"
+
+import consola from "consola"
+import { AsyncLocalStorage } from "node:async_hooks"
+
+import type { RequestContext } from "~/lib/context/request"
+import type { EndpointType, PluginHookInfo, PluginHookName } from "~/lib/history/store"
+
+import { classifyError, getErrorMessage, HTTPError } from "~/lib/error"
+
+import type {
+  LoadedPlugin,
+  PluginContext,
+  PluginError,
+  PluginRequest,
+  PluginResponse,
+  PluginStreamEvent,
+} from "./types"
+
+import { getPlugins, hasPlugins } from "./loader"
+
+/** Thrown by `ctx.veto()`; forwarded to the client as an HTTP error */
+export class PluginVetoError extends HTTPError {
+  readonly plugin: string
+
+  constructor(plugin: string, message: string, status: number) {
+    const text = `Request rejected by plugin "${plugin}": ${message}`
+    super(text, status, text)
+    this.plugin = plugin
+  }
+}
+
+const scopeStorage = new AsyncLocalStorage<RequestContext>()
+
+/** Run `fn` (an adapter execution) so the upstream clients can apply `onWireRequest` hooks */
+export function runWithPluginScope<T>(reqCtx: RequestContext | undefined, fn: () => T): T {
+  return reqCtx && hasPlugins() ? scopeStorage.run(reqCtx, fn) : fn()
+}
+
+function createPluginContext(reqCtx: RequestContext, plugin: LoadedPlugin): PluginContext {
+  return {
+    requestId: reqCtx.id,
+    endpoint: reqCtx.endpoint,
+    sessionId: reqCtx.sessionId,
+    apiKeyLabel: reqCtx.apiKeyLabel,
+    attempt: Math.max(0, reqCtx.attempts.length - 1),
+    veto(message: string, status = 403): never {
+      throw new PluginVetoError(plugin.name, message, status)
+    },
+  }
+}
+
+function elapsedMs(startedAt: number): number {
+  return Math.round((performance.now() - startedAt) * 100) / 100
+}
+
+/** Top-level keys whose JSON differs between two values */
+function diffTopLevelFields(before: object, after: object): Array<string> {
+  const a = before as Record<string, unknown>
+  const b = after as Record<string, unknown>
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)])
+  return [...keys].filter((key) => JSON.stringify(a[key]) !== JSON.stringify(b[key]))
+}
+
+// ============================================================================
+// Payload and response hooks
+// ============================================================================
+
+type ValueHookName = Extract<PluginHookName, "onRequest" | "onWireRequest" | "onResponse">
+
+async function runValueHooks<T extends object>(
+  reqCtx: RequestContext,
+  hookName: ValueHookName,
+  value: T,
+  invoke: (plugin: LoadedPlugin, copy: T, ctx: PluginContext) => Promise<T>,
+): Promise<T> {
+  let current = value
+
+  for (const plugin of getPlugins()) {
+    if (!plugin.hooks[hookName]) continue
+
+    const ctx = createPluginContext(reqCtx, plugin)
+    const info: PluginHookInfo = { plugin: plugin.name, hook: hookName, attempt: ctx.attempt, durationMs: 0 }
+    const startedAt = performance.now()
+
+    try {
+      const next = await invoke(plugin, structuredClone(current), ctx)
+      info.durationMs = elapsedMs(startedAt)
+      const changedFields = diffTopLevelFields(current, next)
+      if (changedFields.length > 0) info.changedFields = changedFields
+      current = next
+    } catch (error) {
+      info.durationMs = elapsedMs(startedAt)
+      if (error instanceof PluginVetoError) {
+        info.vetoed = true
+        reqCtx.addPluginHook(info)
+        throw error
+      }
+      info.error = getErrorMessage(error)
+      consola.warn(`[Plugins] ${plugin.name}.${hookName} failed, its changes are ignored: ${info.error}`)
+    }
+
+    reqCtx.addPluginHook(info)
+  }
+
+  return current
+}
+
+/** Apply `onRequest` hooks to an attempt's effective payload */
+export async function runRequestHooks<T>(reqCtx: RequestContext, format: EndpointType, payload: T): Promise<T> {
+  if (!hasPlugins()) return payload
+
+  return runValueHooks(reqCtx, "onRequest", payload as PluginRequest["payload"], async (plugin, copy, ctx) => {
+    const request = { format, payload: copy } as PluginRequest
+    return (await plugin.hooks.onRequest?.(request, ctx)) ?? request.payload
+  }) as Promise<T>
+}
+
+/** Apply `onWireRequest` hooks to the payload an upstream client is about to send */
+export async function applyWireRequestHooks<T extends object>(format: EndpointType, wire: T): Promise<T> {
+  const reqCtx = scopeStorage.getStore()
+  if (!reqCtx || !hasPlugins()) return wire
+
+  return runValueHooks(reqCtx, "onWireRequest", wire as PluginRequest["payload"], async (plugin, copy, ctx) => {
+    const request = { format, payload: copy } as PluginRequest
+    return (await plugin.hooks.onWireRequest?.(request, ctx)) ?? request.payload
+  }) as Promise<T>
+}
+
+/**
+ * Apply response hooks to an adapter result: `onStreamEvent` for streams,
+ * `onResponse` for response bodies.
+ */
+export async function applyResponseHooks(reqCtx: RequestContext, format: EndpointType, result: unknown) {
+  if (!hasPlugins() || !result || typeof result !== "object") return result
+
+  if (Symbol.asyncIterator in result) {
+    if (!getPlugins().some((plugin) => plugin.hooks.onStreamEvent)) return result
+    return applyStreamEventHooks(reqCtx, format, result as AsyncIterable<ServerSentEventMessage>)
+  }
+
+  return runValueHooks(reqCtx, "onResponse", result as PluginResponse["body"], async (plugin, copy, ctx) => {
+    const response = { format, body: copy } as PluginResponse
+    return (await plugin.hooks.onResponse?.(response, ctx)) ?? response.body
+  })
+}
+
+// ============================================================================
+// Stream event hooks
+// ============================================================================
+
+interface StreamHookStats {
+  plugin: LoadedPlugin
+  ctx: PluginContext
+  durationMs: number
+  seen: number
+  modified: number
+  dropped: number
+  vetoed?: boolean
+  error?: string
+}
+
+async function* applyStreamEventHooks(
+  reqCtx: RequestContext,
+  format: EndpointType,
+  stream: AsyncIterable<ServerSentEventMessage>,
+): AsyncGenerator<ServerSentEventMessage> {
+  const stats: Array<StreamHookStats> = getPlugins()
+    .filter((plugin) => plugin.hooks.onStreamEvent)
+    .map((plugin) => ({
+      plugin,
+      ctx: createPluginContext(reqCtx, plugin),
+      durationMs: 0,
+      seen: 0,
+      modified: 0,
+      dropped: 0,
+    }))
+
+  try {
+    for await (const rawEvent of stream) {
+      if (!rawEvent.data || rawEvent.data === "[DONE]") {
+        yield rawEvent
+        continue
+      }
+
+      let serialized: string
+      try {
+        serialized = JSON.stringify(JSON.parse(rawEvent.data))
+      } catch {
+        yield rawEvent
+        continue
+      }
+
+      let dropped = false
+      let modified = false
+      for (const stat of stats) {
+        // Each hook gets a fresh copy, so a hook that throws halfway leaves no trace
+        const event = { format, event: rawEvent.event, data: JSON.parse(serialized) as unknown } as PluginStreamEvent
+        stat.seen++
+        const startedAt = performance.now()
+
+        try {
+          const result = await stat.plugin.hooks.onStreamEvent?.(event, stat.ctx)
+          stat.durationMs += performance.now() - startedAt
+          if (result === null) {
+            stat.dropped++
+            dropped = true
+            break
+          }
+
+          const next = JSON.stringify(result ?? event.data)
+          if (next !== serialized) {
+            stat.modified++
+            modified = true
+            serialized = next
+          }
+        } catch (error) {
+          stat.durationMs += performance.now() - startedAt
+          if (error instanceof PluginVetoError) {
+            stat.vetoed = true
+            throw error
+          }
+          if (!stat.error) {
+            consola.warn(
+              `[Plugins] ${stat.plugin.name}.onStreamEvent failed, event left unchanged: ${getErrorMessage(error)}`,
+            )
+          }
+          stat.error = getErrorMessage(error)
+        }
+      }
+
+      if (dropped) continue
+      yield modified ? { ...rawEvent, data: serialized } : rawEvent
+    }
+  } catch (error) {
+    await runErrorHooks(reqCtx, error)
+    throw error
+  } finally {
+    for (const stat of stats) {
+      if (stat.seen === 0) continue
+      reqCtx.addPluginHook({
+        plugin: stat.plugin.name,
+        hook: "onStreamEvent",
+        attempt: stat.ctx.attempt,
+        durationMs: Math.round(stat.durationMs * 100) / 100,
+        events: { seen: stat.seen, modified: stat.modified, dropped: stat.dropped },
+        ...(stat.vetoed && { vetoed: true }),
+        ...(stat.error && { error: stat.error }),
+      })
+    }
+  }
+}
+
+// ============================================================================
+// Error hooks
+// ============================================================================
+
+/** Notify `onError` hooks of a failed request. Hook failures are logged and ignored. */
+export async function runErrorHooks(reqCtx: RequestContext, error: unknown): Promise<void> {
+  if (!hasPlugins()) return
+
+  const apiError = classifyError(error)
+  for (const plugin of getPlugins()) {
+    if (!plugin.hooks.onError) continue
+
+    const ctx = createPluginContext(reqCtx, plugin)
+    const info: PluginHookInfo = { plugin: plugin.name, hook: "onError", attempt: ctx.attempt, durationMs: 0 }
+    const startedAt = performance.now()
+    const pluginError: PluginError = { message: apiError.message, status: apiError.status, type: apiError.type }
+
+    try {
+      await plugin.hooks.onError(pluginError, ctx)
+    } catch (hookError) {
+      info.error = getErrorMessage(hookError)
+      consola.warn(`[Plugins] ${plugin.name}.onError failed: ${info.error}`)
+    }
+
+    info.durationMs = elapsedMs(startedAt)
+    reqCtx.addPluginHook(info)
+  }
+}
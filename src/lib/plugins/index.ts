@@ -0,0 +1,28 @@
+/**
+ * Request/response hook plugins loaded from config.yaml `plugins`.
+ * Re-exports from focused sub-modules.
+ */
+
+// Hooks
+export {
+  applyResponseHooks,
+  applyWireRequestHooks,
+  PluginVetoError,
+  runErrorHooks,
+  runRequestHooks,
+  runWithPluginScope,
+} from "./hooks"
+// Loader
+export { getPlugins, hasPlugins, loadPlugins, setPluginsForTesting } from "./loader"
+
+// Plugin API
+export type {
+  CopilotApiPlugin,
+  LoadedPlugin,
+  PluginContext,
+  PluginError,
+  PluginFormatTypes,
+  PluginRequest,
+  PluginResponse,
+  PluginStreamEvent,
+} from "./types"
@@ -0,0 +1,85 @@
+/**
+ * Loading of the modules listed under `plugins` in config.yaml.
+ *
+ * Relative paths are resolved against the config directory; anything else that
+ * isn't an absolute path is imported as a package name. The list is re-read on
+ * every config reload and a changed list reloads all plugins, but an edited
+ * plugin file is only picked up after a restart (imported modules are cached).
+ * A plugin that fails to load is skipped with an error; the others still load.
+ */
+
+import consola from "consola"
+import path from "node:path"
+import { pathToFileURL } from "node:url"
+
+import { PATHS } from "~/lib/config/paths"
+import { getErrorMessage } from "~/lib/error"
+
+import type { CopilotApiPlugin, LoadedPlugin } from "./types"
+
+const HOOK_NAMES = ["onRequest", "onWireRequest", "onStreamEvent", "onResponse", "onError"] as const
+
+let plugins: Array<LoadedPlugin> = []
+let loadedSources: Array<string> | undefined
+
+/** Plugins in config order */
+export function getPlugins(): ReadonlyArray<LoadedPlugin> {
+  return plugins
+}
+
+export function hasPlugins(): boolean {
+  return plugins.length > 0
+}
+
+/** Replace the loaded plugins with in-memory ones (for testing) */
+export function setPluginsForTesting(list: Array<CopilotApiPlugin & { name: string }>): void {
+  plugins = list.map((hooks) => ({ name: hooks.name, source: "<test>", hooks }))
+  loadedSources = undefined
+}
+
+/** Load the configured plugin modules, unless the list is unchanged since the last call */
+export async function loadPlugins(sources: Array<string>): Promise<void> {
+  if (loadedSources && sources.length === loadedSources.length && sources.every((s, i) => s === loadedSources?.[i])) {
+    return
+  }
+  loadedSources = [...sources]
+
+  const loaded: Array<LoadedPlugin> = []
+  for (const source of sources) {
+    try {
+      loaded.push(await importPlugin(source))
+    } catch (error) {
+      consola.error(`[Plugins] Failed to load "${source}": ${getErrorMessage(error)}`)
+    }
+  }
+
+  plugins = loaded
+  if (loaded.length > 0) {
+    consola.info(`[Plugins] Loaded ${loaded.map((plugin) => plugin.name).join(", ")}`)
+  }
+}
+
+async function importPlugin(source: string): Promise<LoadedPlugin> {
+  const isPath = source.startsWith(".") || path.isAbsolute(source)
+  const specifier = isPath ? pathToFileURL(path.resolve(path.dirname(PATHS.CONFIG_YAML), source)).href : source
+
+  const mod = (await import(specifier)) as { default?: unknown }
+  // A factory lets a plugin set itself up (read files, open clients) before the first request
+  const exported: unknown = typeof mod.default === "function" ? await (mod.default as () => unknown)() : mod.default
+  if (!exported || typeof exported !== "object") {
+    throw new TypeError("the module's default export must be a plugin object or a function returning one")
+  }
+
+  const hooks = exported as CopilotApiPlugin
+  for (const hookName of HOOK_NAMES) {
+    if (hooks[hookName] !== undefined && typeof hooks[hookName] !== "function") {
+      throw new TypeError(`${hookName} must be a function`)
+    }
+  }
+  if (!HOOK_NAMES.some((hookName) => hooks[hookName])) {
+    consola.warn(`[Plugins] "${source}" defines no hooks`)
+  }
+
+  const name = hooks.name ?? path.basename(source).replace(/\.[cm]?[jt]s$/, "")
+  return { name, source, hooks }
+}
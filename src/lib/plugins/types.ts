@@ -0,0 +1,102 @@
+/**
+ * Plugin API — the types a config.yaml plugin module is written against.
+ *
+ * A plugin module default-exports a `CopilotApiPlugin` (or a function returning
+ * one). Hooks receive a copy of the payload, response or stream event in the
+ * format named by its `format` field; they may mutate it in place or return a
+ * replacement. Returning nothing keeps the (possibly mutated) value.
+ */
+
+import type { ApiErrorType } from "~/lib/error"
+import type { EndpointType } from "~/lib/history/store"
+import type { Message as AnthropicResponse, MessagesPayload, StreamEvent } from "~/types/api/anthropic"
+import type { GeminiGenerateContentPayload, GenerateContentResponse } from "~/types/api/gemini"
+import type {
+  ChatCompletionChunk,
+  ChatCompletionResponse,
+  ChatCompletionsPayload,
+} from "~/types/api/openai-chat-completions"
+import type { CompletionChunk, CompletionResponse, CompletionsPayload } from "~/types/api/openai-completions"
+import type { ResponsesPayload, ResponsesResponse, ResponsesStreamEvent } from "~/types/api/openai-responses"
+
+/** Payload, response and stream event types of each API format */
+export interface PluginFormatTypes {
+  "anthropic-messages": { payload: MessagesPayload; response: AnthropicResponse; event: StreamEvent }
+  "openai-chat-completions": {
+    payload: ChatCompletionsPayload
+    response: ChatCompletionResponse
+    event: ChatCompletionChunk
+  }
+  "openai-completions": { payload: CompletionsPayload; response: CompletionResponse; event: CompletionChunk }
+  "openai-responses": { payload: ResponsesPayload; response: ResponsesResponse; event: ResponsesStreamEvent }
+  "gemini-generate-content": {
+    payload: GeminiGenerateContentPayload
+    response: GenerateContentResponse
+    event: GenerateContentResponse
+  }
+}
+
+/** A request payload; `format` narrows `payload` */
+export type PluginRequest = {
+  [F in EndpointType]: { format: F; payload: PluginFormatTypes[F]["payload"] }
+}[EndpointType]
+
+/** A non-streaming response body */
+export type PluginResponse = {
+  [F in EndpointType]: { format: F; body: PluginFormatTypes[F]["response"] }
+}[EndpointType]
+
+/** One parsed SSE event of a streamed response (`[DONE]` markers are not passed to hooks) */
+export type PluginStreamEvent = {
+  [F in EndpointType]: { format: F; event: string | undefined; data: PluginFormatTypes[F]["event"] }
+}[EndpointType]
+
+export interface PluginContext {
+  /** History entry id of the request */
+  readonly requestId: string
+  /** Endpoint the client called (the payload format can differ on translated paths) */
+  readonly endpoint: EndpointType
+  readonly sessionId: string | undefined
+  /** Label of the inbound API key, when `auth.api_keys` is configured */
+  readonly apiKeyLabel: string | undefined
+  /** Zero-based attempt index (retries and model fallbacks start new attempts) */
+  readonly attempt: number
+  /** Reject the request. The client gets `status` (default 403) with `message`; nothing further is sent upstream. */
+  veto(message: string, status?: number): never
+}
+
+// eslint-disable-next-line @typescript-eslint/no-invalid-void-type -- hooks that mutate in place return nothing
+type HookResult<T> = T | void | Promise<T | void>
+
+export interface CopilotApiPlugin {
+  /** Shown in history and logs (default: the module's file name) */
+  name?: string
+  /**
+   * Effective request, after the proxy's own preprocessing and before translation.
+   * Runs again for every retry attempt, so it should be idempotent.
+   */
+  onRequest?: (request: PluginRequest, ctx: PluginContext) => HookResult<PluginRequest["payload"]>
+  /** Exact payload sent upstream, after translation to the upstream format */
+  onWireRequest?: (request: PluginRequest, ctx: PluginContext) => HookResult<PluginRequest["payload"]>
+  /** Streamed responses, one event at a time. Return `null` to drop the event. */
+  onStreamEvent?: (event: PluginStreamEvent, ctx: PluginContext) => HookResult<PluginStreamEvent["data"] | null>
+  /** Non-streaming response body, in the format the client receives */
+  onResponse?: (response: PluginResponse, ctx: PluginContext) => HookResult<PluginResponse["body"]>
+  /** The request failed (upstream error, veto, or a stream error). Observe-only. */
+  onError?: (error: PluginError, ctx: PluginContext) => void | Promise<void>
+}
+
+export interface PluginError {
+  message: string
+  /** HTTP status (0 when the failure wasn't an HTTP error) */
+  status: number
+  type: ApiErrorType
+}
+
+/** A plugin loaded from config.yaml */
+export interface LoadedPlugin {
+  name: string
+  /** Config entry the plugin was loaded from */
+  source: string
+  hooks: CopilotApiPlugin
+}
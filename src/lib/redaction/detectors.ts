@@ -0,0 +1,67 @@
+/**
+ * Built-in secret / PII detectors and the compiled rule type.
+ *
+ * Patterns are deliberately specific (token prefixes, PEM armor, the JWT
+ * header/payload shape) so prose and code don't trip them. Each detector has a
+ * literal `hint` that every match contains; strings without it are skipped
+ * before the regex runs, which keeps scanning large prompts cheap.
+ */
+
+import type { RedactionMode } from "~/lib/history/store"
+
+/** A redaction rule compiled from config.yaml `redaction` */
+export interface RedactionRule {
+  /** Built-in detector id or custom pattern name; shown in findings and masks */
+  id: string
+  mode: RedactionMode
+  /** Global regex */
+  pattern: RegExp
+  /** Substring every match contains (fast pre-check) */
+  hint?: string
+}
+
+interface BuiltinDetector {
+  pattern: RegExp
+  hint?: string
+}
+
+export const BUILTIN_DETECTORS = {
+  /** Access key IDs, and secret keys assigned to their usual variable names */
+  aws_key: {
+    pattern:
+      /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b|\b(?:aws_secret_access_key|AWS_SECRET_ACCESS_KEY|SecretAccessKey)["']?\s*[:=]\s*["']?[A-Za-z0-9/+]{40}(?![A-Za-z0-9/+])/g,
+  },
+  /** Classic (`ghp_`, `gho_`, …) and fine-grained (`github_pat_`) tokens */
+  github_token: {
+    pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_\w{22,255})\b/g,
+  },
+  /** User, project and service account keys (all embed the `T3BlbkFJ` marker) */
+  openai_key: {
+    pattern: /\bsk-[\w-]{16,}T3BlbkFJ[\w-]{16,}/g,
+    hint: "T3BlbkFJ",
+  },
+  /** PEM private keys of any type; an unterminated block is masked to the end of the string */
+  private_key: {
+    pattern: /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY-----[\s\S]*?(?:-----END (?:[A-Z0-9]+ )*PRIVATE KEY-----|$)/g,
+    hint: "PRIVATE KEY-----",
+  },
+  jwt: {
+    pattern: /\beyJ[\w-]{5,}\.eyJ[\w-]{5,}\.[\w-]*/g,
+    hint: "eyJ",
+  },
+  email: {
+    pattern: /\b[\w.%+-]+@[A-Z0-9-]+(?:\.[A-Z0-9-]+)*\.[A-Z]{2,}\b/gi,
+    hint: "@",
+  },
+} satisfies Record<string, BuiltinDetector>
+
+export type BuiltinDetectorId = keyof typeof BUILTIN_DETECTORS
+
+export function isBuiltinDetectorId(id: string): id is BuiltinDetectorId {
+  return Object.hasOwn(BUILTIN_DETECTORS, id)
+}
+
+/** Replacement text for a masked match */
+export function maskFor(rule: RedactionRule): string {
+  return `[REDACTED:${rule.id}]`
+}
@@ -0,0 +1,63 @@
+/**
+ * Secret and PII redaction for outbound prompts (config.yaml `redaction`).
+ *
+ * Handlers call applyRedactionPolicy() on the client payload right after the
+ * request context is created, so everything downstream — sanitize, retries,
+ * plugins, the response cache, upstream — sees the redacted payload. Per rule:
+ *   - mask:  matches are replaced with `[REDACTED:<id>]`
+ *   - block: the request fails with 400 before anything is sent upstream
+ *   - audit: matches are only recorded
+ * Findings land on the HistoryEntry. Stored records (history, error dumps) are
+ * masked for every rule, including audit ones, by redactForStorage().
+ */
+
+import consola from "consola"
+
+import type { RequestContext } from "~/lib/context/request"
+
+import { HTTPError } from "~/lib/error"
+import { state } from "~/lib/state"
+import { withRequestSpan } from "~/lib/tracing"
+
+import { scanRequestContent } from "./scanner"
+
+export { BUILTIN_DETECTORS, type BuiltinDetectorId, isBuiltinDetectorId, type RedactionRule } from "./detectors"
+export { redactForStorage, scanRequestContent } from "./scanner"
+
+/** A `block` rule matched the prompt */
+export class RedactionBlockedError extends HTTPError {
+  constructor(message: string) {
+    super(message, 400, message)
+  }
+}
+
+/**
+ * Scan the prompt content of a client payload with the configured rules.
+ * Records the findings on the request context and returns the payload with
+ * `mask` matches replaced. Throws RedactionBlockedError (after failing the
+ * request context) when a `block` rule matched.
+ */
+export function applyRedactionPolicy<T extends { model: string }>(reqCtx: RequestContext, payload: T): T {
+  const rules = state.redactionRules
+  if (rules.length === 0) return payload
+
+  const { payload: redacted, findings } = withRequestSpan(reqCtx, "redact", () =>
+    scanRequestContent(reqCtx.endpoint, payload, rules),
+  )
+  if (findings.length === 0) return payload
+
+  reqCtx.setRedactions(findings)
+  consola.info(
+    `[Redaction] ${findings.map((finding) => `${finding.detector}×${finding.count} (${finding.mode})`).join(", ")}`,
+  )
+
+  const blocked = findings.filter((finding) => finding.mode === "block")
+  if (blocked.length > 0) {
+    const found = blocked.map((finding) => `${finding.detector} in ${finding.paths.join(", ")}`).join("; ")
+    const error = new RedactionBlockedError(`Request blocked by redaction policy: found ${found}`)
+    reqCtx.fail(payload.model, error)
+    throw error
+  }
+
+  return redacted
+}
@@ -0,0 +1,129 @@
+/**
+ * Applying redaction rules to request payloads and stored records.
+ *
+ * The walk is copy-on-write: containers are copied only along the paths of
+ * strings that changed, so the parsed client body is never mutated and
+ * untouched subtrees keep their identity. Opaque upstream blobs (thinking
+ * signatures, encrypted reasoning) are never scanned — rewriting them would
+ * break the conversation.
+ */
+
+import type { EndpointType, RedactionFinding } from "~/lib/history/store"
+
+import { maskFor, type RedactionRule } from "./detectors"
+
+/** Max payload paths listed per finding */
+const MAX_FINDING_PATHS = 10
+
+const OPAQUE_KEYS = new Set(["signature", "encrypted_content", "thoughtSignature"])
+
+/** Top-level payload fields that carry prompt content, per client format */
+const CONTENT_FIELDS: Record<EndpointType, Array<string>> = {
+  "anthropic-messages": ["system", "messages"],
+  "openai-chat-completions": ["messages"],
+  "openai-completions": ["prompt", "suffix"],
+  "openai-responses": ["instructions", "input"],
+  "gemini-generate-content": ["systemInstruction", "contents"],
+}
+
+type StringVisitor = (text: string, path: string) => string
+
+function walkStrings(value: unknown, path: string, visit: StringVisitor): unknown {
+  if (typeof value === "string") return visit(value, path)
+
+  if (Array.isArray(value)) {
+    let copy: Array<unknown> | undefined
+    for (const [index, item] of value.entries()) {
+      const next = walkStrings(item, `${path}[${index}]`, visit)
+      if (next === item) continue
+      copy ??= [...value]
+      copy[index] = next
+    }
+    return copy ?? value
+  }
+
+  if (value && typeof value === "object") {
+    let copy: Record<string, unknown> | undefined
+    for (const [key, child] of Object.entries(value)) {
+      if (OPAQUE_KEYS.has(key)) continue
+      const next = walkStrings(child, path ? `${path}.${key}` : key, visit)
+      if (next === child) continue
+      copy ??= { ...(value as Record<string, unknown>) }
+      copy[key] = next
+    }
+    return copy ?? value
+  }
+
+  return value
+}
+
+/** Replace matches of `rule` in `text`, returning the new text and the match count */
+function replaceMatches(text: string, rule: RedactionRule): { text: string; count: number } {
+  if (rule.hint && !text.includes(rule.hint)) return { text, count: 0 }
+
+  let count = 0
+  const replaced = text.replace(rule.pattern, () => {
+    count++
+    return maskFor(rule)
+  })
+  return { text: replaced, count }
+}
+
+export interface ContentScanResult<T> {
+  /** The payload with `mask` matches replaced (the input itself when nothing was masked) */
+  payload: T
+  /** One finding per rule that matched, in order of first match */
+  findings: Array<RedactionFinding>
+}
+
+/**
+ * Scan the prompt content of a client payload. `mask` matches are replaced;
+ * `block` and `audit` matches are only reported.
+ */
+export function scanRequestContent<T extends object>(
+  format: EndpointType,
+  payload: T,
+  rules: ReadonlyArray<RedactionRule>,
+): ContentScanResult<T> {
+  const findings = new Map<string, RedactionFinding>()
+
+  const visit: StringVisitor = (text, path) => {
+    let result = text
+    for (const rule of rules) {
+      const { text: replaced, count } = replaceMatches(result, rule)
+      if (count === 0) continue
+
+      const finding = findings.get(rule.id) ?? { detector: rule.id, mode: rule.mode, count: 0, paths: [] }
+      finding.count += count
+      if (finding.paths.length < MAX_FINDING_PATHS && !finding.paths.includes(path)) finding.paths.push(path)
+      findings.set(rule.id, finding)
+
+      if (rule.mode === "mask") result = replaced
+    }
+    return result
+  }
+
+  let result = payload
+  for (const field of CONTENT_FIELDS[format]) {
+    const value = (payload as Record<string, unknown>)[field]
+    if (value === undefined) continue
+    const next = walkStrings(value, field, visit)
+    if (next !== value) result = { ...result, [field]: next }
+  }
+
+  return { payload: result, findings: [...findings.values()] }
+}
+
+/**
+ * Mask the matches of every rule, whatever its mode, anywhere in a record
+ * headed for storage (history entries, error dumps).
+ */
+export function redactForStorage<T>(value: T, rules: ReadonlyArray<RedactionRule>): T {
+  if (rules.length === 0) return value
+
+  return walkStrings(value, "", (text) => {
+    let result = text
+    for (const rule of rules) result = replaceMatches(result, rule).text
+    return result
+  }) as T
+}
@@ -13,8 +13,6 @@
  * it means a pattern of length `period` has repeated enough times.
  */
 
-import consola from "consola"
-
 // ============================================================================
 // Configuration
 // ============================================================================
@@ -165,28 +163,3 @@ function findRepeatingPeriod(s: string): number {
 
   return n // No repetition found
 }
-
-// ============================================================================
-// Convenience: Stream integration helper
-// ============================================================================
-
-/**
- * Create a repetition detector callback for use in stream processing.
- * Returns a function that accepts text deltas and logs a warning on first detection.
- */
-export function createStreamRepetitionChecker(
-  label: string,
-  config?: Partial<RepetitionDetectorConfig>,
-): (textDelta: string) => boolean {
-  const detector = new RepetitionDetector(config)
-  let warned = false
-
-  return (textDelta: string): boolean => {
-    const isRepetitive = detector.feed(textDelta)
-    if (isRepetitive && !warned) {
-      warned = true
-      consola.warn(`[RepetitionDetector] ${label}: Repetitive output detected in stream`)
-    }
-    return isRepetitive
-  }
-}
@@ -31,7 +31,15 @@ interface RequestTelemetryFileV2 {
   modelBuckets: Record<string, Record<string, PersistedModelTelemetry>>
 }
 
-type RequestTelemetryFile = RequestTelemetryFileV1 | RequestTelemetryFileV2
+interface RequestTelemetryFileV3 {
+  version: 3
+  buckets: Record<string, number>
+  modelBuckets: Record<string, Record<string, PersistedModelTelemetry>>
+  /** Same shape as modelBuckets, keyed by API key label instead of model (absent in hand-edited files) */
+  apiKeyBuckets?: Record<string, Record<string, PersistedModelTelemetry>>
+}
+
+type RequestTelemetryFile = RequestTelemetryFileV1 | RequestTelemetryFileV2 | RequestTelemetryFileV3
 
 export interface RequestTelemetryBucket {
   timestamp: number
@@ -71,6 +79,10 @@ export interface RequestTelemetryModelSeriesSnapshot extends RequestTelemetryMod
   buckets: Array<RequestTelemetryModelBucket>
 }
 
+export interface RequestTelemetryApiKeySnapshot extends Omit<RequestTelemetryModelSnapshot, "model"> {
+  label: string
+}
+
 export interface RequestTelemetrySnapshot {
   acceptedSinceStart: number
   bucketSizeMinutes: number
@@ -79,6 +91,9 @@ export interface RequestTelemetrySnapshot {
   buckets: Array<RequestTelemetryBucket>
   modelsSinceStart: Array<RequestTelemetryModelSnapshot>
   modelsLast7d: Array<RequestTelemetryModelSeriesSnapshot>
+  /** Per inbound API key (empty when auth is disabled) */
+  apiKeysSinceStart: Array<RequestTelemetryApiKeySnapshot>
+  apiKeysLast7d: Array<RequestTelemetryApiKeySnapshot>
 }
 
 interface MutableModelTelemetry {
@@ -97,6 +112,8 @@ let acceptedSinceStart = 0
 let bucketCounts = new Map<number, number>()
 let modelStatsSinceStart = new Map<string, MutableModelTelemetry>()
 let modelBucketStats = new Map<number, Map<string, MutableModelTelemetry>>()
+let apiKeyStatsSinceStart = new Map<string, MutableModelTelemetry>()
+let apiKeyBucketStats = new Map<number, Map<string, MutableModelTelemetry>>()
 let persistTimer: ReturnType<typeof setInterval> | null = null
 let telemetryFilePath = PATHS.REQUEST_TELEMETRY
 
@@ -161,11 +178,14 @@ function getOrCreateModelStats(
   return stats
 }
 
-function getOrCreateModelBucket(timestamp: number): Map<string, MutableModelTelemetry> {
-  let bucket = modelBucketStats.get(timestamp)
+function getOrCreateBucket(
+  source: Map<number, Map<string, MutableModelTelemetry>>,
+  timestamp: number,
+): Map<string, MutableModelTelemetry> {
+  let bucket = source.get(timestamp)
   if (!bucket) {
     bucket = new Map()
-    modelBucketStats.set(timestamp, bucket)
+    source.set(timestamp, bucket)
   }
   return bucket
 }
@@ -208,6 +228,11 @@ function pruneBuckets(now = Date.now()): void {
       modelBucketStats.delete(key)
     }
   }
+  for (const key of apiKeyBucketStats.keys()) {
+    if (key < earliest) {
+      apiKeyBucketStats.delete(key)
+    }
+  }
 }
 
 function buildFilledBuckets(now = Date.now()): Array<RequestTelemetryBucket> {
@@ -271,16 +296,7 @@ function buildLast7dModelSnapshots(now = Date.now()): Array<RequestTelemetryMode
 
   for (const [timestamp, bucket] of modelBucketStats.entries()) {
     for (const [model, stats] of bucket.entries()) {
-      const target = getOrCreateModelStats(aggregate, model)
-      target.requestCount += stats.requestCount
-      target.successCount += stats.successCount
-      target.failureCount += stats.failureCount
-      target.totalDurationMs += stats.totalDurationMs
-      target.inputTokens += stats.inputTokens
-      target.outputTokens += stats.outputTokens
-      target.cacheReadInputTokens += stats.cacheReadInputTokens
-      target.cacheCreationInputTokens += stats.cacheCreationInputTokens
-      target.reasoningTokens += stats.reasoningTokens
+      addTelemetry(getOrCreateModelStats(aggregate, model), stats)
 
       let buckets = series.get(model)
       if (!buckets) {
@@ -313,6 +329,32 @@ function buildLast7dModelSnapshots(now = Date.now()): Array<RequestTelemetryMode
     )
 }
 
+function addTelemetry(target: MutableModelTelemetry, stats: MutableModelTelemetry): void {
+  target.requestCount += stats.requestCount
+  target.successCount += stats.successCount
+  target.failureCount += stats.failureCount
+  target.totalDurationMs += stats.totalDurationMs
+  target.inputTokens += stats.inputTokens
+  target.outputTokens += stats.outputTokens
+  target.cacheReadInputTokens += stats.cacheReadInputTokens
+  target.cacheCreationInputTokens += stats.cacheCreationInputTokens
+  target.reasoningTokens += stats.reasoningTokens
+}
+
+function toApiKeySnapshots(source: Iterable<[string, MutableModelTelemetry]>): Array<RequestTelemetryApiKeySnapshot> {
+  return buildModelSnapshots(source).map(({ model, ...rest }) => ({ label: model, ...rest }))
+}
+
+function buildLast7dApiKeySnapshots(): Array<RequestTelemetryApiKeySnapshot> {
+  const aggregate = new Map<string, MutableModelTelemetry>()
+  for (const bucket of apiKeyBucketStats.values()) {
+    for (const [label, stats] of bucket.entries()) {
+      addTelemetry(getOrCreateModelStats(aggregate, label), stats)
+    }
+  }
+  return toApiKeySnapshots(aggregate.entries())
+}
+
 function startPeriodicPersistence(): void {
   if (persistTimer) return
   persistTimer = setInterval(() => {
@@ -326,8 +368,10 @@ function stopPeriodicPersistence(): void {
   persistTimer = null
 }
 
-function loadModelBuckets(raw: Record<string, Record<string, PersistedModelTelemetry>>): void {
-  modelBucketStats = new Map(
+function loadBuckets(
+  raw: Record<string, Record<string, PersistedModelTelemetry>>,
+): Map<number, Map<string, MutableModelTelemetry>> {
+  return new Map(
     Object.entries(raw)
       .map(([bucketKey, bucketValue]) => {
         const bucketTimestamp = Number(bucketKey)
@@ -354,6 +398,8 @@ export async function initRequestTelemetry(): Promise<void> {
   bucketCounts = new Map()
   modelStatsSinceStart = new Map()
   modelBucketStats = new Map()
+  apiKeyStatsSinceStart = new Map()
+  apiKeyBucketStats = new Map()
 
   try {
     const raw = await fs.readFile(telemetryFilePath, "utf8")
@@ -366,8 +412,11 @@ export async function initRequestTelemetry(): Promise<void> {
       )
     }
 
-    if (parsed.version === 2 && parsed.modelBuckets && typeof parsed.modelBuckets === "object") {
-      loadModelBuckets(parsed.modelBuckets)
+    if (parsed.version !== 1 && parsed.modelBuckets && typeof parsed.modelBuckets === "object") {
+      modelBucketStats = loadBuckets(parsed.modelBuckets)
+    }
+    if (parsed.version === 3 && parsed.apiKeyBuckets && typeof parsed.apiKeyBuckets === "object") {
+      apiKeyBucketStats = loadBuckets(parsed.apiKeyBuckets)
     }
   } catch {
     // Missing or malformed file is non-critical; start fresh.
@@ -391,6 +440,8 @@ export function recordSettledRequest(
     endedAt: number
     success: boolean
     usage?: UsageData
+    /** Label of the inbound API key, when auth is enabled */
+    apiKeyLabel?: string
   },
 ): void {
   const normalizedModel = model.trim() || "unknown"
@@ -398,9 +449,15 @@ export function recordSettledRequest(
   applySettledTelemetry(sinceStartStats, opts)
 
   const bucketTimestamp = getBucketStart(opts.startedAt)
-  const bucket = getOrCreateModelBucket(bucketTimestamp)
+  const bucket = getOrCreateBucket(modelBucketStats, bucketTimestamp)
   const bucketStats = getOrCreateModelStats(bucket, normalizedModel)
   applySettledTelemetry(bucketStats, opts)
+
+  if (opts.apiKeyLabel) {
+    applySettledTelemetry(getOrCreateModelStats(apiKeyStatsSinceStart, opts.apiKeyLabel), opts)
+    const apiKeyBucket = getOrCreateBucket(apiKeyBucketStats, bucketTimestamp)
+    applySettledTelemetry(getOrCreateModelStats(apiKeyBucket, opts.apiKeyLabel), opts)
+  }
   pruneBuckets(opts.startedAt)
 }
 
@@ -417,35 +474,44 @@ export function getRequestTelemetrySnapshot(now = Date.now()): RequestTelemetryS
     buckets,
     modelsSinceStart: buildModelSnapshots(modelStatsSinceStart.entries()),
     modelsLast7d: buildLast7dModelSnapshots(now),
+    apiKeysSinceStart: toApiKeySnapshots(apiKeyStatsSinceStart.entries()),
+    apiKeysLast7d: buildLast7dApiKeySnapshots(),
   }
 }
 
+function serializeBuckets(
+  source: Map<number, Map<string, MutableModelTelemetry>>,
+): Record<string, Record<string, PersistedModelTelemetry>> {
+  return Object.fromEntries(
+    [...source.entries()].map(([bucketTimestamp, bucket]) => [
+      String(bucketTimestamp),
+      Object.fromEntries(
+        [...bucket.entries()].map(([key, stats]) => [
+          key,
+          {
+            requestCount: stats.requestCount,
+            successCount: stats.successCount,
+            failureCount: stats.failureCount,
+            totalDurationMs: stats.totalDurationMs,
+            inputTokens: stats.inputTokens,
+            outputTokens: stats.outputTokens,
+            cacheReadInputTokens: stats.cacheReadInputTokens,
+            cacheCreationInputTokens: stats.cacheCreationInputTokens,
+            reasoningTokens: stats.reasoningTokens,
+          },
+        ]),
+      ),
+    ]),
+  )
+}
+
 export async function persistRequestTelemetry(): Promise<void> {
   pruneBuckets()
-  const file: RequestTelemetryFileV2 = {
-    version: 2,
+  const file: RequestTelemetryFileV3 = {
+    version: 3,
     buckets: Object.fromEntries([...bucketCounts.entries()].map(([key, value]) => [String(key), value])),
-    modelBuckets: Object.fromEntries(
-      [...modelBucketStats.entries()].map(([bucketTimestamp, bucket]) => [
-        String(bucketTimestamp),
-        Object.fromEntries(
-          [...bucket.entries()].map(([model, stats]) => [
-            model,
-            {
-              requestCount: stats.requestCount,
-              successCount: stats.successCount,
-              failureCount: stats.failureCount,
-              totalDurationMs: stats.totalDurationMs,
-              inputTokens: stats.inputTokens,
-              outputTokens: stats.outputTokens,
-              cacheReadInputTokens: stats.cacheReadInputTokens,
-              cacheCreationInputTokens: stats.cacheCreationInputTokens,
-              reasoningTokens: stats.reasoningTokens,
-            },
-          ]),
-        ),
-      ]),
-    ),
+    modelBuckets: serializeBuckets(modelBucketStats),
+    apiKeyBuckets: serializeBuckets(apiKeyBucketStats),
   }
   try {
     await fs.writeFile(telemetryFilePath, JSON.stringify(file, null, 2), "utf8")
@@ -465,6 +531,8 @@ export function _resetRequestTelemetryForTests(): void {
   bucketCounts = new Map()
   modelStatsSinceStart = new Map()
   modelBucketStats = new Map()
+  apiKeyStatsSinceStart = new Map()
+  apiKeyBucketStats = new Map()
   telemetryFilePath = PATHS.REQUEST_TELEMETRY
 }
 
@@ -26,6 +26,8 @@ export { isNonStreaming, prependMarkerToResponse, safeParseJson } from "./respon
 export type { TruncateOptions, TruncateResult } from "./strategies/auto-truncate"
 
 export { createAutoTruncateStrategy } from "./strategies/auto-truncate"
+export type { ModelFallbackOptions } from "./strategies/model-fallback"
+export { createModelFallbackStrategy, getModelFallbackChain } from "./strategies/model-fallback"
 
 // Truncation
 export type { TruncateResultInfo } from "./truncation"
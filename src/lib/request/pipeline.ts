@@ -12,7 +12,12 @@ import type { ApiError } from "~/lib/error"
 import type { EndpointType, SanitizationInfo } from "~/lib/history/store"
 import type { Model } from "~/lib/models/client"
 
+import { createRateLimitTicket, runWithRateLimitTicket } from "~/lib/adaptive-rate-limiter"
+import { runWithBudgetScope } from "~/lib/budgets"
 import { classifyError } from "~/lib/error"
+import { applyResponseHooks, PluginVetoError, runErrorHooks, runRequestHooks, runWithPluginScope } from "~/lib/plugins"
+import { runWithRoutingSession } from "~/lib/token/account-context"
+import { SpanKind, startRequestSpan } from "~/lib/tracing"
 
 // --- FormatAdapter ---
 
@@ -29,8 +34,11 @@ export interface SanitizeResult<TPayload> {
 export interface FormatAdapter<TPayload> {
   readonly format: EndpointType
   sanitize(payload: TPayload): SanitizeResult<TPayload>
-  /** Execute API call — raw execution without rate limiting wrapper */
-  execute(payload: TPayload): Promise<{ result: unknown; queueWaitMs: number }>
+  /**
+   * Execute API call — raw execution without rate limiting wrapper.
+   * `model` is the attempt's resolved model (changes when a strategy falls back).
+   */
+  execute(payload: TPayload, model: Model | undefined): Promise<{ result: unknown; queueWaitMs: number }>
   logPayloadSize(payload: TPayload): void | Promise<void>
 }
 
@@ -41,10 +49,19 @@ export interface RetryContext<TPayload> {
   originalPayload: TPayload
   model: Model | undefined
   maxRetries: number
+  /** Context of the request being retried (absent when the pipeline runs without one) */
+  requestContext?: RequestContext
 }
 
 export type RetryAction<TPayload> =
-  | { action: "retry"; payload: TPayload; waitMs?: number; meta?: Record<string, unknown> }
+  | {
+      action: "retry"
+      payload: TPayload
+      waitMs?: number
+      /** Switch subsequent attempts to this model (model fallback) */
+      model?: Model
+      meta?: Record<string, unknown>
+    }
   | { action: "abort"; error: ApiError }
 
 export interface RetryStrategy<TPayload> {
@@ -60,8 +77,12 @@ export interface RetryStrategy<TPayload> {
 export interface PipelineResult {
   response: unknown
   effectivePayload: unknown
+  /** Payload of the successful attempt before onRequest hooks (re-send it to have hooks applied once) */
+  requestPayload: unknown
   queueWaitMs: number
   totalRetries: number
+  /** Model of the successful attempt (differs from the requested one after a fallback) */
+  model: Model | undefined
 }
 
 export interface PipelineOptions<TPayload> {
@@ -92,44 +113,89 @@ export interface PipelineOptions<TPayload> {
 export async function executeRequestPipeline<TPayload>(opts: PipelineOptions<TPayload>): Promise<PipelineResult> {
   const { adapter, strategies, originalPayload, model, maxRetries = 3, requestContext, onBeforeAttempt, onRetry } = opts
 
-  let effectivePayload = opts.payload
+  // Payload before onRequest hooks; strategies rebuild this one, so hooks apply once per attempt
+  let requestPayload = opts.payload
+  let effectivePayload = requestPayload
+  let currentModel = model
   let lastError: unknown = null
   let totalQueueWaitMs = 0
   let lastStrategyName: string | undefined
 
   for (let attempt = 0; attempt <= maxRetries; attempt++) {
     // 1. Create attempt first (ensures currentAttempt is available for subsequent calls)
+    const attemptStrategy = attempt > 0 ? lastStrategyName : undefined
     requestContext?.beginAttempt({
-      strategy: attempt > 0 ? lastStrategyName : undefined,
+      strategy: attemptStrategy,
     })
     lastStrategyName = undefined
 
-    // 2. Auto-record effective payload on each attempt (covers all handlers)
+    // 2. Plugin onRequest hooks — on every attempt, since strategies may rebuild the payload from the original
+    effectivePayload = requestPayload
+    if (requestContext) {
+      try {
+        effectivePayload = await runRequestHooks(requestContext, adapter.format, requestPayload)
+      } catch (error) {
+        // Only a veto gets here; hook failures are ignored
+        lastError = error
+        requestContext.setAttemptError(classifyError(error))
+        break
+      }
+    }
+
+    // 3. Auto-record effective payload on each attempt (covers all handlers)
     if (requestContext) {
       const p = effectivePayload as Record<string, unknown>
       requestContext.setAttemptEffectiveRequest({
         model: typeof p.model === "string" ? p.model : "",
-        resolvedModel: model,
+        resolvedModel: currentModel,
         messages: Array.isArray(p.messages) ? p.messages : [],
         payload: effectivePayload,
         format: adapter.format,
       })
     }
 
-    // 3. External callback (currentAttempt now exists)
+    // 4. External callback (currentAttempt now exists)
     onBeforeAttempt?.(attempt, effectivePayload)
     requestContext?.transition("executing")
 
+    const attemptStartedAt = Date.now()
+    const attemptSpan = startRequestSpan(requestContext, "upstream attempt", {
+      kind: SpanKind.CLIENT,
+      attributes: {
+        "copilot_api.attempt": attempt,
+        "copilot_api.strategy": attemptStrategy,
+        "gen_ai.request.model": currentModel?.id,
+      },
+    })
+
     try {
-      const { result: response, queueWaitMs } = await adapter.execute(effectivePayload)
+      const ticket = requestContext && createRateLimitTicket(requestContext, currentModel?.id)
+      const { result, queueWaitMs } = await runWithRoutingSession(requestContext?.sessionId, () =>
+        runWithRateLimitTicket(ticket, () =>
+          runWithPluginScope(requestContext, () => adapter.execute(effectivePayload, currentModel)),
+        ),
+      )
       totalQueueWaitMs += queueWaitMs
       requestContext?.addQueueWaitMs(queueWaitMs)
 
+      // Queue wait is only known afterwards; record it as the leading part of the attempt
+      if (queueWaitMs > 0) {
+        startRequestSpan(requestContext, "rate_limiter.queue_wait", {
+          parent: attemptSpan,
+          startTimeMs: attemptStartedAt,
+        })?.end(attemptStartedAt + queueWaitMs)
+      }
+
+      const response = requestContext ? await applyResponseHooks(requestContext, adapter.format, result) : result
+      attemptSpan?.end()
+
       return {
         response,
         effectivePayload,
+        requestPayload,
         queueWaitMs: totalQueueWaitMs,
         totalRetries: attempt,
+        model: currentModel,
       }
     } catch (error) {
       lastError = error
@@ -137,9 +203,13 @@ export async function executeRequestPipeline<TPayload>(opts: PipelineOptions<TPa
       // Classify and record the error on the current attempt (always, including final attempt)
       const apiError = classifyError(error)
       requestContext?.setAttemptError(apiError)
+      attemptSpan
+        ?.setAttributes({ "error.type": apiError.type, "http.response.status_code": apiError.status || undefined })
+        .setError(apiError.message)
+        .end()
 
-      // Don't retry if we've exhausted attempts
-      if (attempt >= maxRetries) break
+      // Don't retry if we've exhausted attempts or a plugin rejected the request
+      if (attempt >= maxRetries || error instanceof PluginVetoError) break
 
       // Find first strategy that can handle this error
       let handled = false
@@ -149,12 +219,21 @@ export async function executeRequestPipeline<TPayload>(opts: PipelineOptions<TPa
         const retryContext: RetryContext<TPayload> = {
           attempt,
           originalPayload,
-          model,
+          model: currentModel,
           maxRetries,
+          requestContext,
         }
 
+        const strategySpan = startRequestSpan(requestContext, `strategy ${strategy.name}`, {
+          attributes: { "copilot_api.strategy": strategy.name, "error.type": apiError.type },
+        })
+
         try {
-          const action = await strategy.handle(apiError, effectivePayload, retryContext)
+          // Strategies may call upstream themselves (e.g. auto-truncate summarization)
+          const action = await runWithRoutingSession(requestContext?.sessionId, () =>
+            runWithBudgetScope(requestContext, () => strategy.handle(apiError, requestPayload, retryContext)),
+          )
+          strategySpan?.setAttributes({ "copilot_api.strategy_action": action.action }).end()
 
           if (action.action === "retry") {
             consola.debug(
@@ -172,7 +251,8 @@ export async function executeRequestPipeline<TPayload>(opts: PipelineOptions<TPa
             }
 
             lastStrategyName = strategy.name
-            effectivePayload = action.payload
+            requestPayload = action.payload
+            if (action.model) currentModel = action.model
             onRetry?.(attempt, strategy.name, action.payload, action.meta)
             handled = true
             break
@@ -181,6 +261,7 @@ export async function executeRequestPipeline<TPayload>(opts: PipelineOptions<TPa
           // action === "abort": fall through to break
           break
         } catch (strategyError) {
+          strategySpan?.setError(strategyError instanceof Error ? strategyError.message : String(strategyError)).end()
           consola.warn(
             `[Pipeline] Strategy "${strategy.name}" failed on attempt ${attempt + 1}:`,
             strategyError instanceof Error ? strategyError.message : strategyError,
@@ -202,6 +283,8 @@ export async function executeRequestPipeline<TPayload>(opts: PipelineOptions<TPa
       await adapter.logPayloadSize(effectivePayload)
     }
 
+    if (requestContext) await runErrorHooks(requestContext, lastError)
+
     throw lastError instanceof Error ? lastError : new Error("Unknown error")
   }
 
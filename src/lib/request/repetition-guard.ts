@@ -0,0 +1,619 @@
+/**
+ * Repetition policy for streamed responses.
+ *
+ * Wraps the upstream SSE stream a handler forwards to the client and feeds the
+ * generated text into a RepetitionDetector. What happens when the model starts
+ * looping depends on `state.repetitionPolicy`:
+ *
+ * - `warn` — the stream continues untouched; the event is recorded as a warning.
+ * - `abort` — the upstream stream is closed (stopping token generation) and the
+ *   client stream is ended with the format's normal terminal events, so clients
+ *   see an ordinary stop instead of an error.
+ * - `abort-and-retry` — after closing the upstream stream, the request is sent
+ *   once more with a nudge (higher temperature plus an instruction not to repeat)
+ *   and the retry's output is spliced onto the client stream. If the retry fails
+ *   to start or loops as well, the stream is ended as with `abort`.
+ *
+ * Each client format supplies a RepetitionStreamFormat that knows how to read
+ * text deltas, close what an aborted stream left open, and renumber the retry's
+ * events so they continue the original stream.
+ */
+
+import type { ServerSentEventMessage } from "fetch-event-stream"
+
+import consola from "consola"
+
+import type { RequestContext } from "~/lib/context/request"
+import type { Model } from "~/lib/models/client"
+import type { MessagesPayload } from "~/types/api/anthropic"
+import type { GeminiGenerateContentPayload, GenerateContentResponse } from "~/types/api/gemini"
+import type { ChatCompletionsPayload } from "~/types/api/openai-chat-completions"
+import type { CompletionsPayload } from "~/types/api/openai-completions"
+import type {
+  ResponsesOutputItem,
+  ResponsesOutputTextContent,
+  ResponsesPayload,
+  ResponsesResponse,
+  ResponsesStreamEvent,
+} from "~/types/api/openai-responses"
+
+import { createRateLimitTicket, runWithRateLimitTicket } from "~/lib/adaptive-rate-limiter"
+import { applyResponseHooks, runRequestHooks, runWithPluginScope } from "~/lib/plugins"
+import { RepetitionDetector } from "~/lib/repetition-detector"
+import { type RepetitionPolicy, state } from "~/lib/state"
+import { runWithRoutingSession } from "~/lib/token/account-context"
+import { tuiLogger } from "~/lib/tui"
+
+import type { FormatAdapter } from "./pipeline"
+
+export const REPETITION_WARNING_CODE = "repetition_detected"
+
+/** Appended to the system prompt / instructions of the retried request */
+export const REPETITION_NUDGE =
+  "Your previous reply got stuck repeating the same text over and over. "
+  + "Answer again from the start and do not repeat yourself."
+
+// ============================================================================
+// Guard
+// ============================================================================
+
+/** Per-format knowledge the guard needs to end or splice a stream */
+export interface RepetitionStreamFormat {
+  /**
+   * Generated text carried by an event (undefined for non-text events).
+   * With several choices (`n` > 1) only the first is returned: the guard runs
+   * one detector, and interleaving choices would break up a loop in any one of
+   * them. The others sample the same prompt, and an abort ends them together.
+   */
+  extractText(event: ServerSentEventMessage): string | undefined
+  /** Track stream state (open blocks/items, ids, sequence numbers); called for every forwarded event */
+  observe(event: ServerSentEventMessage): void
+  /** Close whatever the aborted stream left open (content blocks, output items) */
+  interrupt(): Array<ServerSentEventMessage>
+  /** Terminal events that end the client stream with a normal stop */
+  finish(): Array<ServerSentEventMessage>
+  /** Rewrite a retry-stream event so it continues the aborted stream; null drops it */
+  continueWith(event: ServerSentEventMessage): ServerSentEventMessage | null
+}
+
+export interface RepetitionGuardOptions {
+  reqCtx: RequestContext
+  format: RepetitionStreamFormat
+  /** Resend the request with a nudge; only used by the `abort-and-retry` policy */
+  retry?: () => Promise<AsyncIterable<ServerSentEventMessage>>
+}
+
+/** Whether the guard fired on this request (looping streams are never cached) */
+export function wasRepetitionDetected(reqCtx: RequestContext): boolean {
+  return reqCtx.warningMessages.some((warning) => warning.code === REPETITION_WARNING_CODE)
+}
+
+/** Wrap an upstream stream so `state.repetitionPolicy` applies to it */
+export async function* guardStreamRepetition(
+  upstream: AsyncIterable<ServerSentEventMessage>,
+  opts: RepetitionGuardOptions,
+): AsyncGenerator<ServerSentEventMessage> {
+  const { reqCtx, format } = opts
+  const policy = state.repetitionPolicy
+  const detector = new RepetitionDetector({
+    minPatternLength: state.repetitionMinPatternLength,
+    minRepetitions: state.repetitionMinRepetitions,
+  })
+
+  if (policy === "warn") {
+    for await (const event of upstream) {
+      const text = format.extractText(event)
+      if (text && !detector.isDetected && detector.feed(text)) {
+        recordRepetition(reqCtx, policy, "stream continued")
+      }
+      yield event
+    }
+    return
+  }
+
+  if (!(yield* forwardUntilRepetition(upstream, format, detector))) return
+
+  const retryStream = policy === "abort-and-retry" ? await startRetry(opts) : undefined
+  yield* format.interrupt()
+
+  if (!retryStream) {
+    recordRepetition(reqCtx, policy, "upstream stream aborted")
+    yield* format.finish()
+    return
+  }
+
+  recordRepetition(reqCtx, policy, "upstream stream aborted and request retried with a nudge")
+  detector.reset()
+  if (
+    !(yield* forwardUntilRepetition(
+      mapStream(retryStream, (event) => format.continueWith(event)),
+      format,
+      detector,
+    ))
+  )
+    return
+
+  recordRepetition(reqCtx, policy, "retry repeated itself too; upstream stream aborted")
+  yield* format.interrupt()
+  yield* format.finish()
+}
+
+/** Forward events until the stream ends (→ false) or starts repeating (→ true, upstream closed) */
+async function* forwardUntilRepetition(
+  upstream: AsyncIterable<ServerSentEventMessage>,
+  format: RepetitionStreamFormat,
+  detector: RepetitionDetector,
+): AsyncGenerator<ServerSentEventMessage, boolean> {
+  const iterator = upstream[Symbol.asyncIterator]()
+  let finished = false
+
+  try {
+    for (;;) {
+      const result = await iterator.next()
+      if (result.done) {
+        finished = true
+        return false
+      }
+
+      const text = format.extractText(result.value)
+      if (text && detector.feed(text)) return true
+
+      format.observe(result.value)
+      yield result.value
+    }
+  } finally {
+    // Closing the upstream iterator cancels the HTTP body, which stops generation
+    if (!finished) await closeQuietly(iterator)
+  }
+}
+
+async function* mapStream(
+  upstream: AsyncIterable<ServerSentEventMessage>,
+  map: (event: ServerSentEventMessage) => ServerSentEventMessage | null,
+): AsyncGenerator<ServerSentEventMessage> {
+  for await (const event of upstream) {
+    const mapped = map(event)
+    if (mapped) yield mapped
+  }
+}
+
+async function closeQuietly(iterator: AsyncIterator<unknown>): Promise<void> {
+  try {
+    await iterator.return?.()
+  } catch (error) {
+    consola.debug("[RepetitionGuard] Error while closing upstream stream:", error)
+  }
+}
+
+async function startRetry(opts: RepetitionGuardOptions): Promise<AsyncIterable<ServerSentEventMessage> | undefined> {
+  if (!opts.retry) return undefined
+  try {
+    return await opts.retry()
+  } catch (error) {
+    consola.warn("[RepetitionGuard] Retry after repetition failed:", error instanceof Error ? error.message : error)
+    return undefined
+  }
+}
+
+function recordRepetition(reqCtx: RequestContext, policy: RepetitionPolicy, outcome: string): void {
+  const message = `Model output started repeating itself (policy: ${policy}); ${outcome}`
+  consola.warn(`[RepetitionGuard] ${reqCtx.originalRequest?.model ?? "unknown model"}: ${message}`)
+  reqCtx.addWarningMessage({ code: REPETITION_WARNING_CODE, message })
+  if (reqCtx.tuiLogId) tuiLogger.updateRequest(reqCtx.tuiLogId, { tags: ["repetition"] })
+}
+
+// ============================================================================
+// Retry
+// ============================================================================
+
+export interface RepetitionRetryOptions<TPayload> {
+  adapter: FormatAdapter<TPayload>
+  /** The payload of the attempt that looped before onRequest hooks (already nudged by the caller) */
+  payload: TPayload
+  model: Model | undefined
+  reqCtx: RequestContext
+}
+
+/**
+ * Re-execute a request outside the pipeline, recorded as a "repetition-retry"
+ * attempt. Retry strategies don't apply: a failure just ends the stream as `abort`.
+ */
+export async function executeRepetitionRetry<TPayload>(
+  opts: RepetitionRetryOptions<TPayload>,
+): Promise<AsyncIterable<ServerSentEventMessage>> {
+  const { adapter, model, reqCtx } = opts
+
+  reqCtx.beginAttempt({ strategy: "repetition-retry" })
+  const payload = await runRequestHooks(reqCtx, adapter.format, opts.payload)
+  const p = payload as Record<string, unknown>
+  reqCtx.setAttemptEffectiveRequest({
+    model: typeof p.model === "string" ? p.model : "",
+    resolvedModel: model,
+    messages: Array.isArray(p.messages) ? p.messages : [],
+    payload,
+    format: adapter.format,
+  })
+
+  // Scheduled like a pipeline attempt: the request's priority and client key still apply
+  const ticket = createRateLimitTicket(reqCtx, model?.id)
+  const { result, queueWaitMs } = await runWithRoutingSession(reqCtx.sessionId, () =>
+    runWithRateLimitTicket(ticket, () => runWithPluginScope(reqCtx, () => adapter.execute(payload, model))),
+  )
+  reqCtx.addQueueWaitMs(queueWaitMs)
+
+  if (!result || typeof result !== "object" || !(Symbol.asyncIterator in result)) {
+    throw new Error("Repetition retry did not return a stream")
+  }
+  return (await applyResponseHooks(reqCtx, adapter.format, result)) as AsyncIterable<ServerSentEventMessage>
+}
+
+/** Raise an explicit temperature so the retry is less likely to fall into the same loop */
+function nudgeTemperature(temperature: number | null | undefined): number | null | undefined {
+  return typeof temperature === "number" ? Math.min(1, temperature + 0.3) : temperature
+}
+
+function appendNudge(text: string | null | undefined): string {
+  return text ? `${text}\n\n${REPETITION_NUDGE}` : REPETITION_NUDGE
+}
+
+export function nudgeMessagesPayload(payload: MessagesPayload): MessagesPayload {
+  const system =
+    Array.isArray(payload.system) ?
+      [...payload.system, { type: "text" as const, text: REPETITION_NUDGE }]
+    : appendNudge(payload.system)
+  // Extended thinking requires the default temperature
+  const thinking = payload.thinking !== undefined && payload.thinking.type !== "disabled"
+  return {
+    ...payload,
+    system,
+    ...(!thinking && payload.temperature !== undefined && { temperature: Math.min(1, payload.temperature + 0.3) }),
+  }
+}
+
+export function nudgeChatCompletionsPayload(payload: ChatCompletionsPayload): ChatCompletionsPayload {
+  const first = payload.messages.at(0)
+  const messages =
+    first?.role === "system" && typeof first.content === "string" ?
+      [{ ...first, content: appendNudge(first.content) }, ...payload.messages.slice(1)]
+    : [{ role: "system" as const, content: REPETITION_NUDGE }, ...payload.messages]
+  return { ...payload, messages, temperature: nudgeTemperature(payload.temperature) }
+}
+
+export function nudgeResponsesPayload(payload: ResponsesPayload): ResponsesPayload {
+  return {
+    ...payload,
+    instructions: appendNudge(payload.instructions),
+    temperature: nudgeTemperature(payload.temperature),
+  }
+}
+
+/** Legacy completions have no instructions to extend; penalize repeated tokens instead */
+export function nudgeCompletionsPayload(payload: CompletionsPayload): CompletionsPayload {
+  return {
+    ...payload,
+    temperature: nudgeTemperature(payload.temperature),
+    frequency_penalty: Math.min(2, (payload.frequency_penalty ?? 0) + 0.5),
+    // The prompt was already echoed by the aborted stream
+    echo: false,
+  }
+}
+
+export function nudgeGeminiPayload(payload: GeminiGenerateContentPayload): GeminiGenerateContentPayload {
+  const system = payload.systemInstruction
+  const systemInstruction =
+    typeof system === "object" ?
+      { ...system, parts: [...system.parts, { text: REPETITION_NUDGE }] }
+    : { parts: [{ text: appendNudge(system) }] }
+  const generationConfig = payload.generationConfig && {
+    ...payload.generationConfig,
+    temperature: nudgeTemperature(payload.generationConfig.temperature) ?? undefined,
+  }
+  return { ...payload, systemInstruction, ...(generationConfig && { generationConfig }) }
+}
+
+// ============================================================================
+// Stream formats
+// ============================================================================
+
+function parseEventData(event: ServerSentEventMessage): unknown {
+  if (!event.data || event.data === "[DONE]") return undefined
+  try {
+    return JSON.parse(event.data)
+  } catch {
+    return undefined
+  }
+}
+
+function sseEvent(type: string | undefined, data: unknown): ServerSentEventMessage {
+  return { event: type, data: JSON.stringify(data) } as ServerSentEventMessage
+}
+
+interface AnthropicStreamEventShape {
+  type: string
+  index?: number
+  delta?: { type?: string; text?: string }
+}
+
+/**
+ * Anthropic Messages events. Retry events continue the same message: its
+ * message_start is dropped and content block indexes are shifted past the
+ * aborted stream's blocks.
+ */
+export function createAnthropicRepetitionFormat(): RepetitionStreamFormat {
+  const openBlocks = new Set<number>()
+  let nextIndex = 0
+  let retryOffset: number | undefined
+  let textLength = 0
+
+  return {
+    extractText(event) {
+      const parsed = parseEventData(event) as AnthropicStreamEventShape | undefined
+      if (parsed?.type !== "content_block_delta" || parsed.delta?.type !== "text_delta") return undefined
+      return parsed.delta.text
+    },
+    observe(event) {
+      const parsed = parseEventData(event) as AnthropicStreamEventShape | undefined
+      if (parsed?.index === undefined) return
+      if (parsed.type === "content_block_start") {
+        openBlocks.add(parsed.index)
+        nextIndex = Math.max(nextIndex, parsed.index + 1)
+      } else if (parsed.type === "content_block_stop") {
+        openBlocks.delete(parsed.index)
+      } else if (parsed.delta?.type === "text_delta") {
+        textLength += parsed.delta.text?.length ?? 0
+      }
+    },
+    interrupt() {
+      const events = [...openBlocks].map((index) =>
+        sseEvent("content_block_stop", { type: "content_block_stop", index }),
+      )
+      openBlocks.clear()
+      return events
+    },
+    finish() {
+      return [
+        sseEvent("message_delta", {
+          type: "message_delta",
+          delta: { stop_reason: "end_turn", stop_sequence: null },
+          // Upstream never reported a final count; estimate from the forwarded text
+          usage: { output_tokens: Math.ceil(textLength / 4) },
+        }),
+        sseEvent("message_stop", { type: "message_stop" }),
+      ]
+    },
+    continueWith(event) {
+      retryOffset ??= nextIndex
+      const parsed = parseEventData(event) as (AnthropicStreamEventShape & Record<string, unknown>) | undefined
+      if (!parsed) return event
+      if (parsed.type === "message_start") return null
+      if (parsed.index === undefined) return event
+      return { ...event, data: JSON.stringify({ ...parsed, index: parsed.index + retryOffset }) }
+    },
+  }
+}
+
+interface StreamChunkShape {
+  id?: string
+  created?: number
+  model?: string
+  /** Chat Completions choices carry `delta.content`, legacy completion choices carry `text` */
+  choices?: Array<{ index: number; text?: string; delta?: { content?: string | null } }>
+}
+
+/** Chat Completions and legacy completion chunks: self-contained deltas ended by `[DONE]` */
+function createChunkStreamFormat(
+  object: "chat.completion.chunk" | "text_completion",
+  buildStopChoice: (index: number) => Record<string, unknown>,
+): RepetitionStreamFormat {
+  let id = ""
+  let created = 0
+  let model = ""
+  const choiceIndexes = new Set<number>()
+
+  return {
+    extractText(event) {
+      const chunk = parseEventData(event) as StreamChunkShape | undefined
+      // First choice only (see RepetitionStreamFormat.extractText)
+      const choice = chunk?.choices?.find((c) => c.index === 0)
+      return (choice?.delta?.content ?? choice?.text) || undefined
+    },
+    observe(event) {
+      const chunk = parseEventData(event) as StreamChunkShape | undefined
+      if (!chunk) return
+      id ||= chunk.id ?? ""
+      created ||= chunk.created ?? 0
+      model ||= chunk.model ?? ""
+      for (const choice of chunk.choices ?? []) choiceIndexes.add(choice.index)
+    },
+    interrupt: () => [],
+    finish() {
+      const indexes = choiceIndexes.size > 0 ? [...choiceIndexes] : [0]
+      return [
+        sseEvent(undefined, { id, object, created, model, choices: indexes.map((index) => buildStopChoice(index)) }),
+        { data: "[DONE]" } as ServerSentEventMessage,
+      ]
+    },
+    // The retry's chunks need no rewriting
+    continueWith: (event) => event,
+  }
+}
+
+/** OpenAI Chat Completions chunks (also used for streams translated from Responses) */
+export function createChatCompletionsRepetitionFormat(): RepetitionStreamFormat {
+  return createChunkStreamFormat("chat.completion.chunk", (index) => ({
+    index,
+    delta: {},
+    finish_reason: "stop",
+    logprobs: null,
+  }))
+}
+
+/** Legacy `text_completion` chunks */
+export function createCompletionsRepetitionFormat(): RepetitionStreamFormat {
+  return createChunkStreamFormat("text_completion", (index) => ({
+    index,
+    text: "",
+    logprobs: null,
+    finish_reason: "stop",
+  }))
+}
+
+/** Gemini chunks: self-contained candidate deltas, the last one carrying `finishReason` */
+export function createGeminiRepetitionFormat(): RepetitionStreamFormat {
+  let responseId: string | undefined
+  let modelVersion: string | undefined
+  const candidateIndexes = new Set<number>()
+
+  return {
+    extractText(event) {
+      const chunk = parseEventData(event) as GenerateContentResponse | undefined
+      // First candidate only (see RepetitionStreamFormat.extractText)
+      const candidate = chunk?.candidates?.find((c) => c.index === 0)
+      const parts = candidate?.content.parts.filter((part) => part.text && !part.thought) ?? []
+      return parts.map((part) => part.text).join("") || undefined
+    },
+    observe(event) {
+      const chunk = parseEventData(event) as GenerateContentResponse | undefined
+      if (!chunk) return
+      responseId ??= chunk.responseId
+      modelVersion ??= chunk.modelVersion
+      for (const candidate of chunk.candidates ?? []) candidateIndexes.add(candidate.index)
+    },
+    interrupt: () => [],
+    finish() {
+      const indexes = candidateIndexes.size > 0 ? [...candidateIndexes] : [0]
+      return [
+        sseEvent(undefined, {
+          candidates: indexes.map((index) => ({ index, content: { role: "model", parts: [] }, finishReason: "STOP" })),
+          modelVersion,
+          responseId,
+        } satisfies GenerateContentResponse),
+      ]
+    },
+    continueWith: (event) => event,
+  }
+}
+
+interface OpenResponsesItem {
+  item: ResponsesOutputItem
+  /** content_index → text of parts that haven't been closed yet */
+  openParts: Map<number, string>
+}
+
+/**
+ * OpenAI Responses events. Aborted message items are closed as `incomplete`
+ * and the stream ends with response.completed. Retry events continue the same
+ * response: created/in_progress are dropped, output indexes are shifted past
+ * the aborted items, and sequence numbers keep counting from the last one sent.
+ */
+export function createResponsesRepetitionFormat(): RepetitionStreamFormat {
+  let response: ResponsesResponse | undefined
+  let sequenceNumber = -1
+  const openItems = new Map<number, OpenResponsesItem>()
+  const doneItems = new Map<number, ResponsesOutputItem>()
+  let retryOffset: number | undefined
+
+  const nextIndex = () => Math.max(-1, ...openItems.keys(), ...doneItems.keys()) + 1
+  const emit = (data: Record<string, unknown> & { type: string }) =>
+    sseEvent(data.type, { ...data, sequence_number: ++sequenceNumber })
+  const outputSnapshot = (beforeIndex = Infinity) =>
+    [...doneItems.entries()]
+      .filter(([index]) => index < beforeIndex)
+      .sort(([a], [b]) => a - b)
+      .map(([, item]) => item)
+
+  return {
+    extractText(event) {
+      const parsed = parseEventData(event) as ResponsesStreamEvent | undefined
+      return parsed?.type === "response.output_text.delta" ? parsed.delta : undefined
+    },
+    observe(event) {
+      const parsed = parseEventData(event) as ResponsesStreamEvent | undefined
+      if (!parsed) return
+      if ("sequence_number" in parsed) sequenceNumber = Math.max(sequenceNumber, parsed.sequence_number)
+
+      switch (parsed.type) {
+        case "response.created":
+        case "response.in_progress": {
+          response ??= parsed.response
+          break
+        }
+        case "response.output_item.added": {
+          openItems.set(parsed.output_index, { item: parsed.item, openParts: new Map() })
+          break
+        }
+        case "response.content_part.added": {
+          openItems.get(parsed.output_index)?.openParts.set(parsed.content_index, "")
+          break
+        }
+        case "response.output_text.delta": {
+          const parts = openItems.get(parsed.output_index)?.openParts
+          parts?.set(parsed.content_index, (parts.get(parsed.content_index) ?? "") + parsed.delta)
+          break
+        }
+        case "response.content_part.done": {
+          openItems.get(parsed.output_index)?.openParts.delete(parsed.content_index)
+          break
+        }
+        case "response.output_item.done": {
+          openItems.delete(parsed.output_index)
+          doneItems.set(parsed.output_index, parsed.item)
+          break
+        }
+        default: {
+          break
+        }
+      }
+    },
+    interrupt() {
+      const events: Array<ServerSentEventMessage> = []
+      for (const [outputIndex, { item, openParts }] of [...openItems].sort(([a], [b]) => a - b)) {
+        let closed: ResponsesOutputItem = { ...item, status: "incomplete" }
+        if (item.type === "message") {
+          const parts: Array<ResponsesOutputTextContent> = []
+          for (const [contentIndex, text] of openParts) {
+            const part: ResponsesOutputTextContent = { type: "output_text", text, annotations: [] }
+            parts.push(part)
+            events.push(
+              emit({ type: "response.output_text.done", output_index: outputIndex, content_index: contentIndex, text }),
+              emit({
+                type: "response.content_part.done",
+                output_index: outputIndex,
+                content_index: contentIndex,
+                part,
+              }),
+            )
+          }
+          closed = { ...item, status: "incomplete", content: [...item.content, ...parts] }
+        }
+        events.push(emit({ type: "response.output_item.done", output_index: outputIndex, item: closed }))
+        doneItems.set(outputIndex, closed)
+      }
+      openItems.clear()
+      return events
+    },
+    finish() {
+      return [
+        emit({
+          type: "response.completed",
+          response: { ...response, status: "completed", output: outputSnapshot(), usage: null },
+        }),
+      ]
+    },
+    continueWith(event) {
+      retryOffset ??= nextIndex()
+      const parsed = parseEventData(event) as (ResponsesStreamEvent & Record<string, unknown>) | undefined
+      if (!parsed) return event
+      if (parsed.type === "response.created" || parsed.type === "response.in_progress") return null
+
+      const rewritten: Record<string, unknown> = { ...parsed, sequence_number: ++sequenceNumber }
+      if (typeof parsed.output_index === "number") rewritten.output_index = parsed.output_index + retryOffset
+      if (parsed.type === "response.completed" || parsed.type === "response.incomplete") {
+        // Report the whole spliced output under the id the client saw in response.created
+        const output = [...outputSnapshot(retryOffset), ...parsed.response.output]
+        rewritten.response = { ...parsed.response, ...(response && { id: response.id }), output }
+      }
+      return { ...event, data: JSON.stringify(rewritten) }
+    },
+  }
+}
@@ -4,10 +4,10 @@
 
 import type { ChatCompletionResponse } from "~/types/api/openai-chat-completions"
 
-/** Type guard for non-streaming responses */
-export function isNonStreaming(
-  response: ChatCompletionResponse | AsyncIterable<unknown>,
-): response is ChatCompletionResponse {
+/** Type guard for non-streaming responses (chat completions, or any other `choices`-bearing body) */
+export function isNonStreaming<T extends { choices: unknown } = ChatCompletionResponse>(
+  response: T | AsyncIterable<unknown>,
+): response is T {
   return Object.hasOwn(response, "choices")
 }
 
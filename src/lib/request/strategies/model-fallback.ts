@@ -0,0 +1,131 @@
+/**
+ * Model fallback retry strategy.
+ *
+ * When the upstream model is overloaded (503 `upstream_rate_limited`) or failing
+ * (other 5xx), retries the request on the next model of its configured fallback
+ * chain (config.yaml `model_fallbacks`), e.g.
+ * claude-opus-4.6-1m → claude-opus-4.6 → claude-sonnet-4.6.
+ *
+ * The switch is returned as a retry action carrying the new Model, so the
+ * pipeline records it as a separate attempt and hands the new model to the
+ * adapter — per-model preparation (thinking budget, beta headers, vision,
+ * auto-truncate limits) then runs against the fallback model's capabilities.
+ */
+
+import consola from "consola"
+
+import type { RequestContext } from "~/lib/context/request"
+import type { ApiError } from "~/lib/error"
+import type { Model } from "~/lib/models/client"
+
+import { isModelAllowedForLabel } from "~/lib/api-key-auth"
+import { isModelAllowedByBudgets } from "~/lib/budgets"
+import { resolveModelName } from "~/lib/models/resolver"
+import { state } from "~/lib/state"
+
+import type { RetryAction, RetryContext, RetryStrategy } from "../pipeline"
+
+export interface ModelFallbackOptions<TPayload> {
+  /** Whether a fallback model can serve this request's endpoint (default: any model) */
+  isSupported?: (model: Model) => boolean
+  /** Re-run endpoint-specific preparation for the new model (payload.model is already replaced) */
+  prepare?: (payload: TPayload, model: Model) => TPayload
+  /** Label for log messages */
+  label: string
+}
+
+/**
+ * Map a chain entry to a model ID. Exact IDs from state.modelIndex are taken
+ * as-is — running them through resolveModelName() would apply model_overrides,
+ * which commonly redirect a fallback target back to the failing model.
+ * Anything else is treated as an alias.
+ */
+function resolveFallbackModelId(name: string): string {
+  return state.modelIndex.has(name) ? name : resolveModelName(name)
+}
+
+/**
+ * Look up the fallback chain for a resolved model ID.
+ * Config keys may be aliases or full names.
+ */
+export function getModelFallbackChain(modelId: string): ReadonlyArray<string> {
+  for (const [key, chain] of Object.entries(state.modelFallbacks)) {
+    if (resolveFallbackModelId(key) === modelId) return chain
+  }
+  return []
+}
+
+/** The request's API key (allowed_models) and budgets (allowed_models, max_multiplier) apply to fallbacks too */
+function isAllowedForRequest(reqCtx: RequestContext | undefined, modelId: string): boolean {
+  if (!reqCtx) return true
+  return isModelAllowedForLabel(reqCtx.apiKeyLabel, modelId) && isModelAllowedByBudgets(reqCtx.id, modelId)
+}
+
+function isFallbackError(error: ApiError): boolean {
+  return error.type === "upstream_rate_limited" || error.type === "server_error"
+}
+
+/**
+ * Create a model fallback retry strategy.
+ *
+ * The chain is taken from the first model that fails; each model is tried at
+ * most once per pipeline execution. Unknown models, models that cannot serve
+ * the endpoint and models the request's API key or budgets do not allow are
+ * skipped. Aborts when the chain is exhausted.
+ */
+export function createModelFallbackStrategy<TPayload extends { model: string }>(
+  opts: ModelFallbackOptions<TPayload>,
+): RetryStrategy<TPayload> {
+  const tried = new Set<string>()
+  let chain: ReadonlyArray<string> | undefined
+  let exhausted = false
+
+  return {
+    name: "model-fallback",
+
+    canHandle(error: ApiError): boolean {
+      return isFallbackError(error) && !exhausted && Object.keys(state.modelFallbacks).length > 0
+    },
+
+    handle(error: ApiError, currentPayload: TPayload, context: RetryContext<TPayload>): Promise<RetryAction<TPayload>> {
+      tried.add(currentPayload.model)
+      chain ??= getModelFallbackChain(currentPayload.model)
+
+      for (const candidate of chain) {
+        const modelId = resolveFallbackModelId(candidate)
+        if (tried.has(modelId)) continue
+        tried.add(modelId)
+
+        const model = state.modelIndex.get(modelId)
+        if (!model) {
+          consola.warn(`[ModelFallback:${opts.label}] Skipping unknown fallback model "${candidate}"`)
+          continue
+        }
+        if (opts.isSupported && !opts.isSupported(model)) {
+          consola.debug(`[ModelFallback:${opts.label}] Skipping "${modelId}": endpoint not supported`)
+          continue
+        }
+        if (!isAllowedForRequest(context.requestContext, modelId)) {
+          consola.debug(`[ModelFallback:${opts.label}] Skipping "${modelId}": not allowed for this request`)
+          continue
+        }
+
+        consola.warn(
+          `[ModelFallback:${opts.label}] Attempt ${context.attempt + 1}/${context.maxRetries + 1}: `
+            + `${currentPayload.model} failed with ${error.status}, falling back to ${modelId}`,
+        )
+
+        const payload = { ...currentPayload, model: modelId }
+        return Promise.resolve({
+          action: "retry",
+          payload: opts.prepare ? opts.prepare(payload, model) : payload,
+          model,
+          meta: { fallbackFrom: currentPayload.model, fallbackTo: modelId },
+        })
+      }
+
+      exhausted = true
+      return Promise.resolve({ action: "abort", error })
+    },
+  }
+}
@@ -10,15 +10,19 @@ import consola from "consola"
 
 import type { ApiError } from "~/lib/error"
 
-import { getCopilotTokenManager } from "~/lib/token"
+import { getAccountPool, getCopilotTokenManager } from "~/lib/token"
 
 import type { RetryAction, RetryContext, RetryStrategy } from "../pipeline"
 
 /**
- * Refresh the Copilot token via the global manager.
+ * Refresh the Copilot token of the account that produced the error — a pool
+ * account's own manager, otherwise the global one.
  * Returns true on success, false on failure.
  */
-async function refreshCopilotToken(): Promise<boolean> {
+async function refreshCopilotToken(error: ApiError): Promise<boolean> {
+  const pooled = await getAccountPool()?.refreshTokenForError(error.raw)
+  if (pooled !== undefined) return pooled
+
   const manager = getCopilotTokenManager()
   if (!manager) return false
   const result = await manager.refresh()
@@ -54,7 +58,7 @@ export function createTokenRefreshStrategy<TPayload>(): RetryStrategy<TPayload>
           + `Got ${error.status}, refreshing Copilot token...`,
       )
 
-      const success = await refreshCopilotToken()
+      const success = await refreshCopilotToken(error)
       hasRefreshed = true
 
       if (!success) {
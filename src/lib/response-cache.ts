@@ -0,0 +1,248 @@
+/**
+ * Exact-match response cache for deterministic requests.
+ *
+ * Opt-in via config `response_cache.enabled`. A request is cacheable when it
+ * runs at temperature 0, or when the client sends `x-copilot-api-cache: true`
+ * (`false` opts a request out). The key is a sha256 of the endpoint plus the
+ * effective payload after sanitize and model resolution, with object keys
+ * sorted so field order doesn't matter.
+ *
+ * Each entry is one JSON file in the cache directory holding the response data
+ * recorded for history plus either the JSON body (non-streaming) or every SSE
+ * event forwarded to the client (streaming), which is replayed with its
+ * original event names. TTL and entry cap are read from state on every call,
+ * so both are hot-reloadable.
+ */
+
+import type { Context } from "hono"
+
+import consola from "consola"
+import { streamSSE } from "hono/streaming"
+import { createHash } from "node:crypto"
+import fs from "node:fs/promises"
+import path from "node:path"
+
+import type { RequestContext, ResponseData } from "~/lib/context/request"
+import type { EndpointType, SseEventRecord } from "~/lib/history/store"
+
+import { PATHS } from "~/lib/config/paths"
+import { getReplayScope } from "~/lib/history/replay"
+import { hasPlugins } from "~/lib/plugins"
+import { state } from "~/lib/state"
+import { tuiLogger } from "~/lib/tui"
+import { canonicalJson } from "~/lib/utils"
+
+export const RESPONSE_CACHE_HEADER = "x-copilot-api-cache"
+
+/** A recorded response, as stored on disk */
+export interface CachedResponse {
+  key: string
+  endpoint: EndpointType
+  storedAt: number
+  /** Response data recorded on the original request's history entry */
+  response: ResponseData
+  /** JSON body returned to the client (non-streaming) */
+  body?: unknown
+  /** SSE events forwarded to the client; `type` is the SSE event name, `data` the raw data line (streaming) */
+  events?: Array<SseEventRecord>
+}
+
+export interface ResponseCache {
+  get(key: string, now?: number): Promise<CachedResponse | undefined>
+  set(entry: CachedResponse): Promise<void>
+}
+
+// ============================================================================
+// Keys
+// ============================================================================
+
+export function computeResponseCacheKey(endpoint: EndpointType, payload: unknown): string {
+  return createHash("sha256").update(endpoint).update("\n").update(canonicalJson(payload)).digest("hex")
+}
+
+/**
+ * Cache key for a request, or undefined when the request isn't cacheable
+ * (cache disabled, non-zero temperature without the opt-in header, or opted out).
+ * Plugins disable the cache: a replay would skip their hooks, including vetoes.
+ * History replays always go upstream, since comparing fresh output is their point.
+ */
+export function resolveResponseCacheKey(
+  c: Context,
+  endpoint: EndpointType,
+  payload: { temperature?: number | null },
+): string | undefined {
+  if (!state.responseCacheEnabled || hasPlugins() || getReplayScope()) return undefined
+
+  const header = c.req.header(RESPONSE_CACHE_HEADER)?.trim().toLowerCase()
+  if (header === "false" || header === "0") return undefined
+  if (header !== "true" && header !== "1" && payload.temperature !== 0) return undefined
+
+  return computeResponseCacheKey(endpoint, payload)
+}
+
+// ============================================================================
+// Disk storage
+// ============================================================================
+
+const KEY_PATTERN = /^[\da-f]{64}$/
+
+export function createResponseCache(dir: string): ResponseCache {
+  /** key → storedAt, loaded from file mtimes on first use */
+  let index: Map<string, number> | null = null
+  let writeChain: Promise<void> = Promise.resolve()
+
+  const filePath = (key: string) => path.join(dir, `${key}.json`)
+
+  async function loadIndex(): Promise<Map<string, number>> {
+    if (index) return index
+    const loaded = new Map<string, number>()
+    try {
+      for (const file of await fs.readdir(dir)) {
+        const key = file.slice(0, -".json".length)
+        if (!file.endsWith(".json") || !KEY_PATTERN.test(key)) continue
+        try {
+          loaded.set(key, (await fs.stat(filePath(key))).mtimeMs)
+        } catch {
+          // Removed concurrently
+        }
+      }
+    } catch {
+      // Directory doesn't exist yet
+    }
+    index ??= loaded
+    return index
+  }
+
+  async function remove(key: string): Promise<void> {
+    index?.delete(key)
+    await fs.rm(filePath(key), { force: true })
+  }
+
+  /** Drop the oldest entries beyond the configured cap */
+  async function evict(entries: Map<string, number>): Promise<void> {
+    const maxEntries = state.responseCacheMaxEntries
+    if (maxEntries <= 0 || entries.size <= maxEntries) return
+    const oldestFirst = [...entries].sort((a, b) => a[1] - b[1])
+    for (const [key] of oldestFirst.slice(0, entries.size - maxEntries)) {
+      await remove(key)
+    }
+  }
+
+  return {
+    async get(key, now = Date.now()) {
+      if (!KEY_PATTERN.test(key)) return undefined
+      const entries = await loadIndex()
+      if (!entries.has(key)) return undefined
+
+      let entry: CachedResponse
+      try {
+        entry = JSON.parse(await fs.readFile(filePath(key), "utf8")) as CachedResponse
+      } catch {
+        await remove(key)
+        return undefined
+      }
+
+      const ttlMs = state.responseCacheTtl * 1000
+      if (ttlMs > 0 && now - entry.storedAt > ttlMs) {
+        await remove(key)
+        return undefined
+      }
+      return entry
+    },
+
+    set(entry) {
+      const run = writeChain.then(async () => {
+        const entries = await loadIndex()
+        await fs.mkdir(dir, { recursive: true })
+        const tmp = `${filePath(entry.key)}.tmp`
+        await fs.writeFile(tmp, JSON.stringify(entry), "utf8")
+        await fs.rename(tmp, filePath(entry.key))
+        entries.set(entry.key, entry.storedAt)
+        await evict(entries)
+      })
+      writeChain = run.catch((error: unknown) => {
+        consola.warn("[ResponseCache] Failed to store response:", error)
+      })
+      return writeChain
+    },
+  }
+}
+
+// ============================================================================
+// Active cache
+// ============================================================================
+
+let activeCache: ResponseCache | null = null
+
+export function getResponseCache(): ResponseCache {
+  activeCache ??= createResponseCache(PATHS.RESPONSE_CACHE_DIR)
+  return activeCache
+}
+
+/** Replace the active cache (tests; null resets to the default directory) */
+export function setResponseCache(cache: ResponseCache | null): void {
+  activeCache = cache
+}
+
+/** Look up a cached response; lookup errors count as a miss */
+export async function lookupCachedResponse(key: string | undefined): Promise<CachedResponse | undefined> {
+  if (!key) return undefined
+  try {
+    return await getResponseCache().get(key)
+  } catch (error) {
+    consola.warn("[ResponseCache] Lookup failed:", error)
+    return undefined
+  }
+}
+
+/** Record a response under `key` (fire-and-forget; a no-op without a key) */
+export function storeCachedResponse(key: string | undefined, entry: Omit<CachedResponse, "key" | "storedAt">): void {
+  if (!key) return
+  void getResponseCache().set({ ...entry, key, storedAt: Date.now() })
+}
+
+/** Collects the SSE events forwarded to the client so a streamed response can be cached */
+export function createSseRecorder() {
+  const startMs = Date.now()
+  const events: Array<SseEventRecord> = []
+  return {
+    events,
+    record(event: string | undefined, data: string) {
+      events.push({ offsetMs: Date.now() - startMs, type: event ?? "", data })
+    },
+  }
+}
+
+// ============================================================================
+// Replay
+// ============================================================================
+
+/**
+ * Answer a request from the cache: replay the recorded body or SSE events and
+ * settle the request context with the recorded response data.
+ */
+export function replayCachedResponse(c: Context, reqCtx: RequestContext, cached: CachedResponse) {
+  consola.debug(`[ResponseCache] Hit ${cached.key.slice(0, 12)} (recorded ${new Date(cached.storedAt).toISOString()})`)
+
+  reqCtx.setPipelineInfo({
+    ...reqCtx.pipelineInfo,
+    responseCache: { key: cached.key, storedAt: cached.storedAt },
+  })
+  if (reqCtx.tuiLogId) {
+    tuiLogger.updateRequest(reqCtx.tuiLogId, { tags: ["cache-hit"] })
+  }
+
+  const events = cached.events
+  if (!events) {
+    reqCtx.complete(cached.response)
+    return c.json(cached.body as object)
+  }
+
+  reqCtx.transition("streaming")
+  return streamSSE(c, async (stream) => {
+    for (const event of events) {
+      await stream.writeSSE({ event: event.type || undefined, data: event.data as string })
+    }
+    reqCtx.complete(cached.response)
+  })
+}
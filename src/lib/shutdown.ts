@@ -21,12 +21,15 @@ import type { AdaptiveRateLimiter } from "./adaptive-rate-limiter"
 import type { TuiLogEntry } from "./tui"
 
 import { getAdaptiveRateLimiter } from "./adaptive-rate-limiter"
+import { shutdownBudgets } from "./budgets"
+import { flushCassettes } from "./cassettes"
 import { getRequestContextManager } from "./context/manager"
-import { closeAllClients, getClientCount, stopMemoryPressureMonitor } from "./history"
+import { closeAllClients, getClientCount, stopHistoryPersistence, stopMemoryPressureMonitor } from "./history"
 import { peekUpstreamWsManager } from "./openai/upstream-ws"
 import { shutdownRequestTelemetry } from "./request-telemetry"
 import { state } from "./state"
 import { stopTokenRefresh } from "./token"
+import { shutdownTracing } from "./tracing"
 import { tuiLogger } from "./tui"
 import { notifyShutdownPhaseChanged } from "./ws"
 
@@ -340,7 +343,13 @@ function finalize(tracker: { destroy: () => void }): void {
   setPhase("finalized")
   shutdownDrainAbortController = null
   tracker.destroy()
-  void shutdownRequestTelemetry().finally(() => {
+  void Promise.all([
+    shutdownRequestTelemetry(),
+    flushCassettes(),
+    shutdownBudgets(),
+    stopHistoryPersistence(),
+    shutdownTracing(),
+  ]).finally(() => {
     consola.info("Shutdown complete")
     shutdownResolve?.()
   })
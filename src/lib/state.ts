@@ -3,6 +3,9 @@ import type { Model, ModelsResponse } from "~/lib/models/client"
 import { setHistoryMaxEntries } from "~/lib/history"
 
 import type { AdaptiveRateLimiterConfig } from "./adaptive-rate-limiter"
+import type { ApiKeyPolicy } from "./api-key-auth"
+import type { BudgetRule } from "./budgets"
+import type { RedactionRule } from "./redaction/detectors"
 import type { CopilotTokenInfo, TokenInfo } from "./token/types"
 
 /**
@@ -12,6 +15,18 @@ import type { CopilotTokenInfo, TokenInfo } from "./token/types"
  */
 export type ContextEditingMode = "off" | "clear-thinking" | "clear-tooluse" | "clear-both"
 
+/**
+ * What to do when a streamed response starts repeating itself.
+ * See ~/lib/request/repetition-guard for how each policy ends the client stream.
+ */
+export type RepetitionPolicy = "warn" | "abort" | "abort-and-retry"
+
+/**
+ * How auto-truncate replaces the messages it drops from the start of the conversation.
+ * See ~/lib/auto-truncate/summarize for the summarization call and its cache.
+ */
+export type AutoTruncateMode = "truncate" | "summarize"
+
 /**
  * Cache control mode for Anthropic requests.
  * Controls how cache_control fields are handled in the wire payload.
@@ -65,6 +80,21 @@ export interface State {
    */
   readonly compressToolResultsBeforeTruncate: boolean
 
+  /**
+   * What auto-truncate puts in place of the messages it removes.
+   *
+   * - `"truncate"` — a short note listing message counts and tool names (default).
+   * - `"summarize"` — an LLM-written summary from `autoTruncateSummaryModel`,
+   *   spliced in as a synthetic user/assistant turn and cached per session.
+   */
+  readonly autoTruncateMode: AutoTruncateMode
+
+  /** Model used to summarize removed messages in summarize mode. Aliases are resolved. */
+  readonly autoTruncateSummaryModel: string
+
+  /** Output token cap for one summary; also reserved from the context budget. Default: 2048. */
+  readonly autoTruncateSummaryMaxTokens: number
+
   /** Strip Anthropic server-side tools from requests when upstream doesn't support them */
   readonly stripServerTools: boolean
 
@@ -87,6 +117,15 @@ export interface State {
    */
   readonly modelOverrides: Record<string, string>
 
+  /**
+   * Model fallback chains: resolved model → models to try, in order, when it
+   * fails upstream with 503 `upstream_rate_limited` or 5xx.
+   *
+   * Entries may be full model names or aliases. Empty by default (no fallback);
+   * config.yaml `model_fallbacks` replaces entirely.
+   */
+  readonly modelFallbacks: Record<string, ReadonlyArray<string>>
+
   /**
    * Deduplicate repeated tool calls: remove duplicate tool_use/tool_result pairs,
    * keeping only the last occurrence of each matching combination.
@@ -164,6 +203,46 @@ export interface State {
    */
   readonly historyMinEntries: number
 
+  /**
+   * Persisted history older than this many days is deleted.
+   * 0 = keep forever. Default: 7. Only used when history persistence is enabled.
+   */
+  readonly historyRetentionDays: number
+
+  /**
+   * Size cap (MB) for persisted history; oldest days are deleted first.
+   * 0 = unlimited. Default: 1024. Only used when history persistence is enabled.
+   */
+  readonly historyMaxDiskMb: number
+
+  /**
+   * Serve repeated deterministic requests from the on-disk response cache.
+   * Only requests with temperature 0 (or an explicit x-copilot-api-cache header) are cached.
+   * Default: false.
+   */
+  readonly responseCacheEnabled: boolean
+
+  /** Seconds a cached response stays valid. 0 = never expires. Default: 86400. */
+  readonly responseCacheTtl: number
+
+  /** Maximum cached responses on disk; oldest are evicted first. 0 = unlimited. Default: 1000. */
+  readonly responseCacheMaxEntries: number
+
+  /**
+   * Action taken when streamed output loops on a repeated pattern.
+   *
+   * - `"warn"` — record a warning and keep streaming (default).
+   * - `"abort"` — close the upstream stream and end the client stream with a normal stop.
+   * - `"abort-and-retry"` — abort, then resend once with a nudge and stream the retry's output.
+   */
+  readonly repetitionPolicy: RepetitionPolicy
+
+  /** Shortest repeated pattern (characters) that counts as a loop. Default: 10. */
+  readonly repetitionMinPatternLength: number
+
+  /** Consecutive repetitions of the pattern needed to trigger the policy. Default: 3. */
+  readonly repetitionMinRepetitions: number
+
   /**
    * Fetch timeout in seconds.
    * Time from request start to receiving HTTP response headers.
@@ -225,6 +304,39 @@ export interface State {
    * Disabled by default; enable with config openai-responses.upstream_websocket: true.
    */
   readonly upstreamWebSocket: boolean
+
+  /**
+   * Keep Responses API responses in memory so `previous_response_id` chains can be
+   * materialized locally and `GET /v1/responses/:id` works. Default: true.
+   */
+  readonly responsesLocalStore: boolean
+
+  /** Maximum locally stored responses; least recently used are evicted first. 0 = unlimited. Default: 200. */
+  readonly responsesStoreMaxEntries: number
+
+  /** Seconds a stored response stays available after it was last used. 0 = never expires. Default: 86400. */
+  readonly responsesStoreTtl: number
+
+  /**
+   * Inbound API keys with per-key policies (label, allowed models).
+   * Empty = authentication disabled. Configured via config auth.api_keys.
+   */
+  readonly apiKeys: ReadonlyArray<ApiKeyPolicy>
+
+  /**
+   * Secret / PII detectors applied to outbound prompts and stored history.
+   * Empty = redaction disabled. Configured via config redaction.
+   */
+  readonly redactionRules: ReadonlyArray<RedactionRule>
+
+  /**
+   * Per-subject budget rules (premium requests, tokens, model allowlists).
+   * Empty = budgets disabled. Configured via config budgets.rules.
+   */
+  readonly budgetRules: ReadonlyArray<BudgetRule>
+
+  /** Take the client IP for `by: ip` budgets from X-Forwarded-For. Default: false. */
+  readonly budgetTrustForwardedFor: boolean
 }
 
 type MutableState = {
@@ -257,10 +369,14 @@ function cloneState(source: MutableState): MutableState {
   return {
     ...source,
     adaptiveRateLimitConfig: source.adaptiveRateLimitConfig ? { ...source.adaptiveRateLimitConfig } : undefined,
+    apiKeys: [...source.apiKeys],
+    redactionRules: [...source.redactionRules],
+    budgetRules: [...source.budgetRules],
     copilotTokenInfo: source.copilotTokenInfo ? { ...source.copilotTokenInfo } : undefined,
     modelIds: new Set(source.modelIds),
     modelIndex: new Map(source.modelIndex),
     modelOverrides: { ...source.modelOverrides },
+    modelFallbacks: { ...source.modelFallbacks },
     models: cloneModels(source.models),
     rewriteSystemReminders: cloneRewriteRules(source.rewriteSystemReminders),
     systemPromptOverrides: [...source.systemPromptOverrides],
@@ -274,6 +390,15 @@ function cloneStatePatch(patch: Partial<MutableState>): Partial<MutableState> {
   if ("adaptiveRateLimitConfig" in patch) {
     cloned.adaptiveRateLimitConfig = patch.adaptiveRateLimitConfig ? { ...patch.adaptiveRateLimitConfig } : undefined
   }
+  if ("apiKeys" in patch) {
+    cloned.apiKeys = patch.apiKeys ? [...patch.apiKeys] : undefined
+  }
+  if ("redactionRules" in patch) {
+    cloned.redactionRules = patch.redactionRules ? [...patch.redactionRules] : undefined
+  }
+  if ("budgetRules" in patch) {
+    cloned.budgetRules = patch.budgetRules ? [...patch.budgetRules] : undefined
+  }
   if ("copilotTokenInfo" in patch) {
     cloned.copilotTokenInfo = patch.copilotTokenInfo ? { ...patch.copilotTokenInfo } : undefined
   }
@@ -286,6 +411,9 @@ function cloneStatePatch(patch: Partial<MutableState>): Partial<MutableState> {
   if ("modelOverrides" in patch) {
     cloned.modelOverrides = patch.modelOverrides ? { ...patch.modelOverrides } : undefined
   }
+  if ("modelFallbacks" in patch) {
+    cloned.modelFallbacks = patch.modelFallbacks ? { ...patch.modelFallbacks } : undefined
+  }
   if ("models" in patch) {
     cloned.models = cloneModels(patch.models)
   }
@@ -358,7 +486,33 @@ export function setModelOverrides(modelOverrides: Record<string, string>): void
   updateState({ modelOverrides })
 }
 
-export function setHistoryConfig(patch: Partial<Pick<MutableState, "historyLimit" | "historyMinEntries">>): void {
+export function setModelFallbacks(modelFallbacks: Record<string, ReadonlyArray<string>>): void {
+  updateState({ modelFallbacks })
+}
+
+export function setHistoryConfig(
+  patch: Partial<
+    Pick<MutableState, "historyLimit" | "historyMinEntries" | "historyRetentionDays" | "historyMaxDiskMb">
+  >,
+): void {
+  updateState(patch)
+}
+
+export function setResponseCacheConfig(
+  patch: Partial<Pick<MutableState, "responseCacheEnabled" | "responseCacheTtl" | "responseCacheMaxEntries">>,
+): void {
+  updateState(patch)
+}
+
+export function setAutoTruncateConfig(
+  patch: Partial<Pick<MutableState, "autoTruncateMode" | "autoTruncateSummaryModel" | "autoTruncateSummaryMaxTokens">>,
+): void {
+  updateState(patch)
+}
+
+export function setRepetitionConfig(
+  patch: Partial<Pick<MutableState, "repetitionPolicy" | "repetitionMinPatternLength" | "repetitionMinRepetitions">>,
+): void {
   updateState(patch)
 }
 
@@ -377,11 +531,32 @@ export function setTimeoutConfig(
 }
 
 export function setResponsesConfig(
-  patch: Partial<Pick<MutableState, "normalizeResponsesCallIds" | "upstreamWebSocket">>,
+  patch: Partial<
+    Pick<
+      MutableState,
+      | "normalizeResponsesCallIds"
+      | "upstreamWebSocket"
+      | "responsesLocalStore"
+      | "responsesStoreMaxEntries"
+      | "responsesStoreTtl"
+    >
+  >,
 ): void {
   updateState(patch)
 }
 
+export function setAuthConfig(patch: Partial<Pick<MutableState, "apiKeys">>): void {
+  updateState(patch)
+}
+
+export function setRedactionConfig(patch: Partial<Pick<MutableState, "redactionRules">>): void {
+  updateState(patch)
+}
+
+export function setBudgetConfig(patch: Partial<Pick<MutableState, "budgetRules" | "budgetTrustForwardedFor">>): void {
+  updateState(patch)
+}
+
 /**
  * Capture a deep-enough clone of state for test restoration.
  * Tests should prefer this over direct mutation snapshots so State can stay readonly.
@@ -443,6 +618,9 @@ export const CONFIG_MANAGED_DEFAULTS = {
   rewriteSystemReminders: false as const,
   systemPromptOverrides: [] as Array<CompiledRewriteRule>,
   compressToolResultsBeforeTruncate: true,
+  autoTruncateMode: "truncate" as const,
+  autoTruncateSummaryModel: "claude-haiku-4.5",
+  autoTruncateSummaryMaxTokens: 2048,
   fetchTimeout: 300,
   streamIdleTimeout: 300,
   staleRequestMaxAge: 600,
@@ -451,8 +629,24 @@ export const CONFIG_MANAGED_DEFAULTS = {
   shutdownAbortWait: 120,
   historyLimit: 200,
   historyMinEntries: 50,
+  historyRetentionDays: 7,
+  historyMaxDiskMb: 1024,
+  responseCacheEnabled: false,
+  responseCacheTtl: 86_400,
+  responseCacheMaxEntries: 1000,
+  repetitionPolicy: "warn" as const,
+  repetitionMinPatternLength: 10,
+  repetitionMinRepetitions: 3,
   normalizeResponsesCallIds: true,
   upstreamWebSocket: false,
+  responsesLocalStore: true,
+  responsesStoreMaxEntries: 200,
+  responsesStoreTtl: 86_400,
+  apiKeys: [] as ReadonlyArray<ApiKeyPolicy>,
+  redactionRules: [] as ReadonlyArray<RedactionRule>,
+  budgetRules: [] as ReadonlyArray<BudgetRule>,
+  budgetTrustForwardedFor: false,
+  modelFallbacks: {} as Record<string, ReadonlyArray<string>>,
 }
 
 export function resetConfigManagedState(): void {
@@ -472,7 +666,13 @@ export function resetConfigManagedState(): void {
     systemPromptOverrides: [...CONFIG_MANAGED_DEFAULTS.systemPromptOverrides],
     compressToolResultsBeforeTruncate: CONFIG_MANAGED_DEFAULTS.compressToolResultsBeforeTruncate,
   })
+  setAutoTruncateConfig({
+    autoTruncateMode: CONFIG_MANAGED_DEFAULTS.autoTruncateMode,
+    autoTruncateSummaryModel: CONFIG_MANAGED_DEFAULTS.autoTruncateSummaryModel,
+    autoTruncateSummaryMaxTokens: CONFIG_MANAGED_DEFAULTS.autoTruncateSummaryMaxTokens,
+  })
   setModelOverrides({ ...DEFAULT_MODEL_OVERRIDES })
+  setModelFallbacks({ ...CONFIG_MANAGED_DEFAULTS.modelFallbacks })
   setTimeoutConfig({
     fetchTimeout: CONFIG_MANAGED_DEFAULTS.fetchTimeout,
     streamIdleTimeout: CONFIG_MANAGED_DEFAULTS.streamIdleTimeout,
@@ -486,18 +686,46 @@ export function resetConfigManagedState(): void {
   setHistoryConfig({
     historyLimit: CONFIG_MANAGED_DEFAULTS.historyLimit,
     historyMinEntries: CONFIG_MANAGED_DEFAULTS.historyMinEntries,
+    historyRetentionDays: CONFIG_MANAGED_DEFAULTS.historyRetentionDays,
+    historyMaxDiskMb: CONFIG_MANAGED_DEFAULTS.historyMaxDiskMb,
   })
   setHistoryMaxEntries(CONFIG_MANAGED_DEFAULTS.historyLimit)
+  setResponseCacheConfig({
+    responseCacheEnabled: CONFIG_MANAGED_DEFAULTS.responseCacheEnabled,
+    responseCacheTtl: CONFIG_MANAGED_DEFAULTS.responseCacheTtl,
+    responseCacheMaxEntries: CONFIG_MANAGED_DEFAULTS.responseCacheMaxEntries,
+  })
+  setRepetitionConfig({
+    repetitionPolicy: CONFIG_MANAGED_DEFAULTS.repetitionPolicy,
+    repetitionMinPatternLength: CONFIG_MANAGED_DEFAULTS.repetitionMinPatternLength,
+    repetitionMinRepetitions: CONFIG_MANAGED_DEFAULTS.repetitionMinRepetitions,
+  })
   setResponsesConfig({
     normalizeResponsesCallIds: CONFIG_MANAGED_DEFAULTS.normalizeResponsesCallIds,
     upstreamWebSocket: CONFIG_MANAGED_DEFAULTS.upstreamWebSocket,
+    responsesLocalStore: CONFIG_MANAGED_DEFAULTS.responsesLocalStore,
+    responsesStoreMaxEntries: CONFIG_MANAGED_DEFAULTS.responsesStoreMaxEntries,
+    responsesStoreTtl: CONFIG_MANAGED_DEFAULTS.responsesStoreTtl,
+  })
+  setAuthConfig({ apiKeys: [...CONFIG_MANAGED_DEFAULTS.apiKeys] })
+  setRedactionConfig({ redactionRules: [...CONFIG_MANAGED_DEFAULTS.redactionRules] })
+  setBudgetConfig({
+    budgetRules: [...CONFIG_MANAGED_DEFAULTS.budgetRules],
+    budgetTrustForwardedFor: CONFIG_MANAGED_DEFAULTS.budgetTrustForwardedFor,
   })
 }
 
 const mutableState: MutableState = {
   accountType: "individual",
+  apiKeys: [...CONFIG_MANAGED_DEFAULTS.apiKeys],
+  redactionRules: [...CONFIG_MANAGED_DEFAULTS.redactionRules],
+  budgetRules: [...CONFIG_MANAGED_DEFAULTS.budgetRules],
+  budgetTrustForwardedFor: CONFIG_MANAGED_DEFAULTS.budgetTrustForwardedFor,
   autoTruncate: true,
   compressToolResultsBeforeTruncate: CONFIG_MANAGED_DEFAULTS.compressToolResultsBeforeTruncate,
+  autoTruncateMode: CONFIG_MANAGED_DEFAULTS.autoTruncateMode,
+  autoTruncateSummaryModel: CONFIG_MANAGED_DEFAULTS.autoTruncateSummaryModel,
+  autoTruncateSummaryMaxTokens: CONFIG_MANAGED_DEFAULTS.autoTruncateSummaryMaxTokens,
   contextEditingMode: CONFIG_MANAGED_DEFAULTS.contextEditingMode,
   contextEditingTrigger: CONFIG_MANAGED_DEFAULTS.contextEditingTrigger,
   contextEditingKeepTools: CONFIG_MANAGED_DEFAULTS.contextEditingKeepTools,
@@ -511,9 +739,18 @@ const mutableState: MutableState = {
   fetchTimeout: CONFIG_MANAGED_DEFAULTS.fetchTimeout,
   historyLimit: CONFIG_MANAGED_DEFAULTS.historyLimit,
   historyMinEntries: CONFIG_MANAGED_DEFAULTS.historyMinEntries,
+  historyRetentionDays: CONFIG_MANAGED_DEFAULTS.historyRetentionDays,
+  historyMaxDiskMb: CONFIG_MANAGED_DEFAULTS.historyMaxDiskMb,
+  responseCacheEnabled: CONFIG_MANAGED_DEFAULTS.responseCacheEnabled,
+  responseCacheTtl: CONFIG_MANAGED_DEFAULTS.responseCacheTtl,
+  responseCacheMaxEntries: CONFIG_MANAGED_DEFAULTS.responseCacheMaxEntries,
+  repetitionPolicy: CONFIG_MANAGED_DEFAULTS.repetitionPolicy,
+  repetitionMinPatternLength: CONFIG_MANAGED_DEFAULTS.repetitionMinPatternLength,
+  repetitionMinRepetitions: CONFIG_MANAGED_DEFAULTS.repetitionMinRepetitions,
   modelIds: new Set(),
   modelIndex: new Map(),
   modelOverrides: { ...DEFAULT_MODEL_OVERRIDES },
+  modelFallbacks: { ...CONFIG_MANAGED_DEFAULTS.modelFallbacks },
   rewriteSystemReminders: CONFIG_MANAGED_DEFAULTS.rewriteSystemReminders,
   showGitHubToken: false,
   shutdownAbortWait: CONFIG_MANAGED_DEFAULTS.shutdownAbortWait,
@@ -525,6 +762,9 @@ const mutableState: MutableState = {
   stripReadToolResultTags: CONFIG_MANAGED_DEFAULTS.stripReadToolResultTags,
   normalizeResponsesCallIds: CONFIG_MANAGED_DEFAULTS.normalizeResponsesCallIds,
   upstreamWebSocket: CONFIG_MANAGED_DEFAULTS.upstreamWebSocket,
+  responsesLocalStore: CONFIG_MANAGED_DEFAULTS.responsesLocalStore,
+  responsesStoreMaxEntries: CONFIG_MANAGED_DEFAULTS.responsesStoreMaxEntries,
+  responsesStoreTtl: CONFIG_MANAGED_DEFAULTS.responsesStoreTtl,
   verbose: false,
 }
 
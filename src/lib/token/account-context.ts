@@ -0,0 +1,46 @@
+/**
+ * Async-local upstream routing scope.
+ *
+ * When the account pool routes a call to a secondary GitHub account, the call
+ * runs inside runWithAccount() and copilotHeaders()/copilotBaseUrl()/
+ * githubHeaders() pick up that account's identity instead of the global one.
+ * Outside any scope (the default single-account setup) nothing changes.
+ *
+ * The pipeline also records the request's session id so sticky routing can
+ * pin a session to one account without threading it through every client.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks"
+
+import type { State } from "~/lib/state"
+
+/** Upstream identity of a pool account */
+export interface AccountIdentity {
+  readonly label: string
+  readonly githubToken: string
+  readonly copilotToken?: string
+  readonly accountType: State["accountType"]
+  /** Overrides the globally detected VSCode version */
+  readonly vsCodeVersion?: string
+}
+
+const accountStorage = new AsyncLocalStorage<AccountIdentity>()
+const sessionStorage = new AsyncLocalStorage<string | undefined>()
+
+export function runWithAccount<T>(account: AccountIdentity, fn: () => T): T {
+  return accountStorage.run(account, fn)
+}
+
+/** Account the current upstream call is routed to (undefined = global identity) */
+export function getActiveAccount(): AccountIdentity | undefined {
+  return accountStorage.getStore()
+}
+
+export function runWithRoutingSession<T>(sessionId: string | undefined, fn: () => T): T {
+  return sessionStorage.run(sessionId, fn)
+}
+
+/** Session id of the request being executed, for sticky account routing and per-session caches */
+export function getRoutingSessionId(): string | undefined {
+  return sessionStorage.getStore()
+}
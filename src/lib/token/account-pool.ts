@@ -0,0 +1,366 @@
+/**
+ * Multi-account GitHub token pool.
+ *
+ * The identity set up by initTokenManagers() is the primary account; extra
+ * accounts from config.yaml `account_pool.accounts` each get their own
+ * CopilotTokenManager refresh loop. Upstream calls made through
+ * executeWithAdaptiveRateLimit() are routed to one account by the configured
+ * strategy and fail over to the next available account when one answers 402
+ * (quota_exceeded) or 429 (rate_limited). The failing account cools down for
+ * the server's Retry-After, or the configured default, before it is picked again.
+ *
+ * Only when every account is cooling down does the error reach the adaptive
+ * rate limiter, which then queues and backs off as in single-account mode.
+ */
+
+import consola from "consola"
+
+import type { State } from "~/lib/state"
+
+import { classifyError, formatErrorWithCause, type ApiError } from "~/lib/error"
+
+import { getRoutingSessionId, runWithAccount, type AccountIdentity } from "./account-context"
+import { getCopilotToken, getCopilotUsage } from "./copilot-client"
+import { CopilotTokenManager } from "./copilot-token-manager"
+import { GitHubTokenManager } from "./github-token-manager"
+
+export type AccountRoutingStrategy = "round-robin" | "least-premium-usage" | "sticky-session"
+
+export const ACCOUNT_ROUTING_STRATEGIES: ReadonlyArray<AccountRoutingStrategy> = [
+  "round-robin",
+  "least-premium-usage",
+  "sticky-session",
+]
+
+export interface PoolAccountOptions {
+  label: string
+  githubToken: string
+  accountType: State["accountType"]
+  vsCodeVersion?: string
+}
+
+export interface AccountPoolOptions {
+  strategy?: AccountRoutingStrategy
+  /** Secondary accounts (the primary identity is always part of the pool) */
+  accounts: Array<PoolAccountOptions>
+  /** Label shown for the primary account (default: "primary") */
+  primaryLabel?: string
+  /** Cooldown after a 429 without Retry-After, in seconds (default: 60) */
+  rateLimitCooldownSeconds?: number
+  /** Cooldown after a 402 without Retry-After, in seconds (default: 3600) */
+  quotaCooldownSeconds?: number
+}
+
+export interface PoolAccountStatus {
+  label: string
+  primary: boolean
+  accountType: State["accountType"]
+  /** False when the account's Copilot token could not be obtained */
+  enabled: boolean
+  available: boolean
+  cooldownUntil: number | null
+  premiumPercentRemaining: number | null
+  requestCount: number
+  failoverCount: number
+  lastError: string | null
+}
+
+interface PoolAccount {
+  label: string
+  /** undefined for the primary account, which uses the global identity */
+  identity?: AccountIdentity
+  accountType: State["accountType"]
+  tokenManager: CopilotTokenManager | null
+  enabled: boolean
+  cooldownUntil: number
+  premiumPercentRemaining: number | null
+  requestCount: number
+  failoverCount: number
+  lastError: string | null
+}
+
+/** Interval for refreshing premium quota snapshots (least-premium-usage) */
+const USAGE_REFRESH_INTERVAL_MS = 5 * 60 * 1000
+
+/** Cap on remembered session → account pins */
+const MAX_STICKY_SESSIONS = 10_000
+
+function isFailoverError(error: ApiError): boolean {
+  return error.type === "quota_exceeded" || error.type === "rate_limited"
+}
+
+export class AccountPool {
+  private accounts: Array<PoolAccount>
+  private strategy: AccountRoutingStrategy
+  private rateLimitCooldownMs: number
+  private quotaCooldownMs: number
+  private cursor = 0
+  private stickySessions = new Map<string, PoolAccount>()
+  /** Which secondary account produced a non-failover error (for token refresh) */
+  private errorOwners = new WeakMap<object, PoolAccount>()
+  private usageTimer: ReturnType<typeof setInterval> | null = null
+
+  constructor(options: AccountPoolOptions, primaryAccountType: State["accountType"]) {
+    this.strategy = options.strategy ?? "round-robin"
+    this.rateLimitCooldownMs = (options.rateLimitCooldownSeconds ?? 60) * 1000
+    this.quotaCooldownMs = (options.quotaCooldownSeconds ?? 3600) * 1000
+
+    const primary: PoolAccount = this.createAccount(options.primaryLabel ?? "primary", primaryAccountType)
+    this.accounts = [
+      primary,
+      ...options.accounts.map((account) => {
+        const poolAccount = this.createAccount(account.label, account.accountType)
+        poolAccount.identity = {
+          label: account.label,
+          githubToken: account.githubToken,
+          accountType: account.accountType,
+          vsCodeVersion: account.vsCodeVersion,
+        }
+        return poolAccount
+      }),
+    ]
+  }
+
+  private createAccount(label: string, accountType: State["accountType"]): PoolAccount {
+    return {
+      label,
+      accountType,
+      tokenManager: null,
+      enabled: true,
+      cooldownUntil: 0,
+      premiumPercentRemaining: null,
+      requestCount: 0,
+      failoverCount: 0,
+      lastError: null,
+    }
+  }
+
+  /**
+   * Acquire Copilot tokens for the secondary accounts and start their refresh
+   * loops. Accounts whose token cannot be obtained are disabled, not fatal.
+   */
+  async start(): Promise<void> {
+    await Promise.all(this.accounts.filter((account) => account.identity).map((account) => this.startAccount(account)))
+
+    if (this.strategy === "least-premium-usage") {
+      await this.refreshUsage()
+      this.usageTimer = setInterval(() => {
+        this.refreshUsage().catch((error: unknown) => {
+          consola.warn("[AccountPool] Usage refresh failed:", error)
+        })
+      }, USAGE_REFRESH_INTERVAL_MS)
+      if ("unref" in this.usageTimer) this.usageTimer.unref()
+    }
+
+    const enabled = this.accounts.filter((account) => account.enabled).map((account) => account.label)
+    consola.info(`[AccountPool] ${enabled.length} account(s) active (${this.strategy}): ${enabled.join(", ")}`)
+  }
+
+  private async startAccount(account: PoolAccount): Promise<void> {
+    const identity = account.identity
+    if (!identity) return
+
+    // Prime the manager with the configured token so a 401 during refresh
+    // resolves to "not refreshable" instead of falling back to other providers.
+    const githubTokenManager = new GitHubTokenManager({
+      cliToken: identity.githubToken,
+      onTokenExpired: () => {
+        consola.error(
+          `[AccountPool] GitHub token for "${account.label}" was rejected; update account_pool in config.yaml`,
+        )
+      },
+    })
+    await githubTokenManager.getToken()
+
+    account.tokenManager = new CopilotTokenManager({
+      githubTokenManager,
+      fetchToken: () => runWithAccount(identity, () => getCopilotToken()),
+      onToken: (tokenInfo) => {
+        account.identity = { ...(account.identity ?? identity), copilotToken: tokenInfo.token }
+      },
+    })
+
+    try {
+      await account.tokenManager.initialize()
+    } catch (error) {
+      account.enabled = false
+      account.lastError = error instanceof Error ? formatErrorWithCause(error) : String(error)
+      account.tokenManager.stopAutoRefresh()
+      consola.error(`[AccountPool] Account "${account.label}" disabled: ${account.lastError}`)
+    }
+  }
+
+  stop(): void {
+    if (this.usageTimer) {
+      clearInterval(this.usageTimer)
+      this.usageTimer = null
+    }
+    for (const account of this.accounts) account.tokenManager?.stopAutoRefresh()
+  }
+
+  /** Refresh premium quota snapshots used by least-premium-usage routing */
+  async refreshUsage(): Promise<void> {
+    await Promise.all(
+      this.accounts
+        .filter((account) => account.enabled)
+        .map(async (account) => {
+          try {
+            const usage = await this.runOn(account, () => getCopilotUsage())
+            const premium = usage.quota_snapshots.premium_interactions
+            account.premiumPercentRemaining = premium.unlimited ? 100 : premium.percent_remaining
+          } catch (error) {
+            consola.debug(`[AccountPool] Usage lookup failed for "${account.label}":`, error)
+          }
+        }),
+    )
+  }
+
+  private runOn<T>(account: PoolAccount, fn: () => T): T {
+    return account.identity ? runWithAccount(account.identity, fn) : fn()
+  }
+
+  private isAvailable(account: PoolAccount, now: number): boolean {
+    return account.enabled && account.cooldownUntil <= now
+  }
+
+  /** Next available account by strategy, skipping `exclude` */
+  private pick(sessionId: string | undefined, exclude: Set<PoolAccount>, now: number): PoolAccount | undefined {
+    const candidates = this.accounts.filter((account) => !exclude.has(account) && this.isAvailable(account, now))
+    if (candidates.length === 0) return undefined
+
+    if (this.strategy === "sticky-session" && sessionId) {
+      const pinned = this.stickySessions.get(sessionId)
+      if (pinned && candidates.includes(pinned)) return pinned
+    }
+
+    const start = this.cursor++ % this.accounts.length
+    const rotated = [...this.accounts.slice(start), ...this.accounts.slice(0, start)].filter((account) =>
+      candidates.includes(account),
+    )
+
+    let chosen = rotated[0]
+    if (this.strategy === "least-premium-usage") {
+      for (const account of rotated) {
+        if ((account.premiumPercentRemaining ?? 100) > (chosen.premiumPercentRemaining ?? 100)) chosen = account
+      }
+    }
+
+    if (this.strategy === "sticky-session" && sessionId) this.pin(sessionId, chosen)
+    return chosen
+  }
+
+  private pin(sessionId: string, account: PoolAccount): void {
+    this.stickySessions.delete(sessionId)
+    this.stickySessions.set(sessionId, account)
+    if (this.stickySessions.size > MAX_STICKY_SESSIONS) {
+      const oldest = this.stickySessions.keys().next().value
+      if (oldest !== undefined) this.stickySessions.delete(oldest)
+    }
+  }
+
+  /** Select an account; when all are cooling down, the one that recovers first */
+  select(sessionId?: string, now = Date.now()): PoolAccount {
+    const available = this.pick(sessionId, new Set(), now)
+    if (available) return available
+    const enabled = this.accounts.filter((account) => account.enabled)
+    const pool = enabled.length > 0 ? enabled : this.accounts
+    return pool.reduce((soonest, account) => (account.cooldownUntil < soonest.cooldownUntil ? account : soonest))
+  }
+
+  private coolDown(account: PoolAccount, error: ApiError): void {
+    const fallbackMs = error.type === "quota_exceeded" ? this.quotaCooldownMs : this.rateLimitCooldownMs
+    const cooldownMs = error.retryAfter !== undefined ? error.retryAfter * 1000 : fallbackMs
+    account.cooldownUntil = Date.now() + cooldownMs
+    account.failoverCount++
+    account.lastError = `${error.status} ${error.type}`
+  }
+
+  /**
+   * Run an upstream call on a selected account, failing over on 402/429 while
+   * other accounts are available.
+   */
+  async execute<T>(fn: () => Promise<T>, sessionId = getRoutingSessionId()): Promise<T> {
+    const tried = new Set<PoolAccount>()
+    let account = this.select(sessionId)
+
+    for (;;) {
+      tried.add(account)
+      account.requestCount++
+      try {
+        await account.tokenManager?.ensureValidToken()
+        return await this.runOn(account, fn)
+      } catch (error) {
+        const apiError = classifyError(error)
+        if (!isFailoverError(apiError)) {
+          if (account.identity && error && typeof error === "object") this.errorOwners.set(error, account)
+          throw error
+        }
+
+        this.coolDown(account, apiError)
+        const next = this.pick(sessionId, tried, Date.now())
+        if (!next) throw error
+
+        consola.warn(`[AccountPool] "${account.label}" returned ${apiError.status}, failing over to "${next.label}"`)
+        account = next
+      }
+    }
+  }
+
+  /**
+   * Refresh the Copilot token of the secondary account that produced `error`.
+   * Returns undefined when the error did not come from a secondary account.
+   */
+  async refreshTokenForError(error: unknown): Promise<boolean | undefined> {
+    if (!error || typeof error !== "object") return undefined
+    const account = this.errorOwners.get(error)
+    if (!account?.tokenManager) return undefined
+    return (await account.tokenManager.refresh()) !== null
+  }
+
+  getStatus(now = Date.now()): Array<PoolAccountStatus> {
+    return this.accounts.map((account) => ({
+      label: account.label,
+      primary: !account.identity,
+      accountType: account.accountType,
+      enabled: account.enabled,
+      available: this.isAvailable(account, now),
+      cooldownUntil: account.cooldownUntil > now ? account.cooldownUntil : null,
+      premiumPercentRemaining: account.premiumPercentRemaining,
+      requestCount: account.requestCount,
+      failoverCount: account.failoverCount,
+      lastError: account.lastError,
+    }))
+  }
+}
+
+// ============================================================================
+// Singleton
+// ============================================================================
+
+let accountPool: AccountPool | null = null
+
+/** Create the pool (primary + configured accounts) and start token refresh loops */
+export async function initAccountPool(
+  options: AccountPoolOptions,
+  primaryAccountType: State["accountType"],
+): Promise<AccountPool> {
+  stopAccountPool()
+  const pool = new AccountPool(options, primaryAccountType)
+  await pool.start()
+  accountPool = pool
+  return pool
+}
+
+export function getAccountPool(): AccountPool | null {
+  return accountPool
+}
+
+export function stopAccountPool(): void {
+  accountPool?.stop()
+  accountPool = null
+}
+
+/** Route an upstream call through the pool; a direct call when no pool is configured */
+export function executeWithAccountPool<T>(fn: () => Promise<T>): Promise<T> {
+  return accountPool ? accountPool.execute(fn) : fn()
+}
@@ -1,5 +1,6 @@
 /** Copilot API client — token and usage */
 
+import { getCassetteMode } from "~/lib/cassettes"
 import { COPILOT_INTERNAL_API_VERSION, GITHUB_API_BASE_URL, githubHeaders } from "~/lib/copilot-api"
 import { HTTPError } from "~/lib/error"
 import { state } from "~/lib/state"
@@ -8,7 +9,19 @@ import { state } from "~/lib/state"
 // Token
 // ============================================================================
 
+/** Lifetime of the placeholder token handed out in replay mode */
+const REPLAY_TOKEN_TTL_SECONDS = 24 * 60 * 60
+
 export const getCopilotToken = async (): Promise<CopilotTokenResponse> => {
+  // Replay never talks to GitHub; cassettes ignore auth, so a placeholder will do
+  if (getCassetteMode() === "replay") {
+    return {
+      token: "replay",
+      expires_at: Math.floor(Date.now() / 1000) + REPLAY_TOKEN_TTL_SECONDS,
+      refresh_in: REPLAY_TOKEN_TTL_SECONDS,
+    }
+  }
+
   const response = await fetch(`${GITHUB_API_BASE_URL}/copilot_internal/v2/token`, {
     headers: { ...githubHeaders(state), "x-github-api-version": COPILOT_INTERNAL_API_VERSION },
     signal: AbortSignal.timeout(15_000),
@@ -36,6 +49,11 @@ export interface CopilotTokenResponse {
 // ============================================================================
 
 export const getCopilotUsage = async (): Promise<CopilotUsageResponse> => {
+  if (getCassetteMode() === "replay") {
+    const msg = "Copilot usage is not available in replay mode"
+    throw new HTTPError(msg, 503, msg)
+  }
+
   const response = await fetch(`${GITHUB_API_BASE_URL}/copilot_internal/user`, {
     headers: { ...githubHeaders(state), "x-github-api-version": COPILOT_INTERNAL_API_VERSION },
     signal: AbortSignal.timeout(15_000),
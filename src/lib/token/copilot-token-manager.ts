@@ -6,7 +6,7 @@ import { setCopilotToken, setGitHubToken } from "~/lib/state"
 import type { GitHubTokenManager } from "./github-token-manager"
 import type { CopilotTokenInfo } from "./types"
 
-import { getCopilotToken } from "./copilot-client"
+import { getCopilotToken, type CopilotTokenResponse } from "./copilot-client"
 
 export interface CopilotTokenManagerOptions {
   /** GitHub token manager instance */
@@ -15,6 +15,10 @@ export interface CopilotTokenManagerOptions {
   minRefreshIntervalSeconds?: number
   /** Maximum retries for token refresh (default: 3) */
   maxRetries?: number
+  /** Token endpoint call (default: getCopilotToken with the global identity) */
+  fetchToken?: () => Promise<CopilotTokenResponse>
+  /** Called with each newly acquired token (default: publish to global state) */
+  onToken?: (tokenInfo: CopilotTokenInfo) => void
 }
 
 /**
@@ -31,6 +35,8 @@ export class CopilotTokenManager {
   private refreshTimeout: ReturnType<typeof setTimeout> | null = null
   private minRefreshIntervalMs: number
   private maxRetries: number
+  private fetchToken: () => Promise<CopilotTokenResponse>
+  private onToken: (tokenInfo: CopilotTokenInfo) => void
   /** Shared promise to prevent concurrent refresh attempts */
   private refreshInFlight: Promise<CopilotTokenInfo | null> | null = null
   /** Set when a refresh attempt fails; cleared on next success */
@@ -40,6 +46,8 @@ export class CopilotTokenManager {
     this.githubTokenManager = options.githubTokenManager
     this.minRefreshIntervalMs = (options.minRefreshIntervalSeconds ?? 60) * 1000
     this.maxRetries = options.maxRetries ?? 3
+    this.fetchToken = options.fetchToken ?? (() => getCopilotToken())
+    this.onToken = options.onToken ?? ((tokenInfo) => setCopilotToken(tokenInfo.token))
   }
 
   /**
@@ -55,8 +63,7 @@ export class CopilotTokenManager {
   async initialize(): Promise<CopilotTokenInfo> {
     const tokenInfo = await this.fetchCopilotToken()
 
-    // Update global state
-    setCopilotToken(tokenInfo.token)
+    this.onToken(tokenInfo)
 
     // Show token in verbose mode
     consola.debug("GitHub Copilot Token fetched successfully!")
@@ -71,7 +78,7 @@ export class CopilotTokenManager {
    * Fetch a new Copilot token from the API.
    */
   private async fetchCopilotToken(): Promise<CopilotTokenInfo> {
-    const response = await getCopilotToken()
+    const response = await this.fetchToken()
 
     const tokenInfo: CopilotTokenInfo = {
       token: response.token,
@@ -201,7 +208,7 @@ export class CopilotTokenManager {
       .then((tokenInfo) => {
         if (tokenInfo) {
           this._refreshNeeded = false
-          setCopilotToken(tokenInfo.token)
+          this.onToken(tokenInfo)
           // Reschedule based on new token's refresh_in
           this.scheduleRefresh(tokenInfo.refreshIn)
           consola.verbose(`[CopilotToken] Token refreshed (next refresh_in=${tokenInfo.refreshIn}s)`)
@@ -1,3 +1,15 @@
+export {
+  ACCOUNT_ROUTING_STRATEGIES,
+  AccountPool,
+  type AccountPoolOptions,
+  type AccountRoutingStrategy,
+  executeWithAccountPool,
+  getAccountPool,
+  initAccountPool,
+  type PoolAccountOptions,
+  type PoolAccountStatus,
+  stopAccountPool,
+} from "./account-pool"
 export { CopilotTokenManager, type CopilotTokenManagerOptions } from "./copilot-token-manager"
 
 // Managers
@@ -16,6 +28,7 @@ import consola from "consola"
 import { setGitHubToken, setTokenState, state } from "~/lib/state"
 import { getGitHubUser } from "~/lib/token/github-client"
 
+import { stopAccountPool } from "./account-pool"
 import { CopilotTokenManager } from "./copilot-token-manager"
 import { GitHubTokenManager } from "./github-token-manager"
 
@@ -138,6 +151,7 @@ export function getCopilotTokenManager(): CopilotTokenManager | null {
  */
 export function stopTokenRefresh(): void {
   copilotTokenManager?.stopAutoRefresh()
+  stopAccountPool()
 }
 
 /**
@@ -0,0 +1,184 @@
+/**
+ * OTLP/HTTP trace exporter (JSON encoding).
+ *
+ * Finished spans are queued and POSTed to the collector's `/v1/traces`
+ * endpoint in batches — on a timer, when a batch fills up, and once more on
+ * shutdown. Export failures are logged and the batch is dropped; tracing never
+ * blocks or fails a request.
+ */
+
+import consola from "consola"
+
+import type { AttributeValue, FinishedSpan } from "./span"
+
+const DEFAULT_FLUSH_INTERVAL_MS = 5_000
+const MAX_BATCH_SIZE = 256
+/** Queue bound while the collector is unreachable (oldest spans dropped first) */
+const MAX_QUEUE_SIZE = 4_096
+const EXPORT_TIMEOUT_MS = 10_000
+
+export interface TraceExporterOptions {
+  /** Full OTLP/HTTP traces URL, e.g. http://localhost:4318/v1/traces */
+  endpoint: string
+  /** Extra request headers (collector auth) */
+  headers?: Record<string, string>
+  /** `service.name` resource attribute */
+  serviceName: string
+  /** `service.version` resource attribute */
+  serviceVersion?: string
+  flushIntervalMs?: number
+}
+
+type OtlpAnyValue = { stringValue: string } | { boolValue: boolean } | { intValue: string } | { doubleValue: number }
+
+function toAnyValue(value: AttributeValue): OtlpAnyValue {
+  if (typeof value === "string") return { stringValue: value }
+  if (typeof value === "boolean") return { boolValue: value }
+  return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value }
+}
+
+function toKeyValues(attributes: Record<string, AttributeValue>) {
+  return Object.entries(attributes).map(([key, value]) => ({ key, value: toAnyValue(value) }))
+}
+
+/** Milliseconds → unix nanoseconds as a decimal string (exceeds Number precision) */
+function toUnixNano(ms: number): string {
+  return (BigInt(Math.round(ms * 1000)) * 1000n).toString()
+}
+
+/** Encode spans as an OTLP ExportTraceServiceRequest (JSON mapping) */
+export function encodeSpans(
+  spans: ReadonlyArray<FinishedSpan>,
+  resource: { serviceName: string; serviceVersion?: string },
+): unknown {
+  const resourceAttributes: Record<string, AttributeValue> = { "service.name": resource.serviceName }
+  if (resource.serviceVersion) resourceAttributes["service.version"] = resource.serviceVersion
+
+  return {
+    resourceSpans: [
+      {
+        resource: { attributes: toKeyValues(resourceAttributes) },
+        scopeSpans: [
+          {
+            scope: { name: "copilot-api", version: resource.serviceVersion },
+            spans: spans.map((span) => ({
+              traceId: span.traceId,
+              spanId: span.spanId,
+              ...(span.parentSpanId ? { parentSpanId: span.parentSpanId } : {}),
+              name: span.name,
+              kind: span.kind,
+              startTimeUnixNano: toUnixNano(span.startTimeMs),
+              endTimeUnixNano: toUnixNano(span.endTimeMs),
+              attributes: toKeyValues(span.attributes),
+              status: span.status,
+            })),
+          },
+        ],
+      },
+    ],
+  }
+}
+
+export class OtlpTraceExporter {
+  private queue: Array<FinishedSpan> = []
+  private timer: ReturnType<typeof setInterval> | null = null
+  private droppedCount = 0
+  private lastErrorLoggedAt = 0
+  private readonly options: TraceExporterOptions
+
+  constructor(options: TraceExporterOptions) {
+    this.options = options
+  }
+
+  start(): void {
+    if (this.timer) return
+    this.timer = setInterval(() => {
+      void this.flush()
+    }, this.options.flushIntervalMs ?? DEFAULT_FLUSH_INTERVAL_MS)
+    this.timer.unref()
+  }
+
+  enqueue(span: FinishedSpan): void {
+    this.queue.push(span)
+    if (this.queue.length > MAX_QUEUE_SIZE) {
+      this.queue.shift()
+      this.droppedCount++
+    }
+    if (this.queue.length >= MAX_BATCH_SIZE) void this.flush()
+  }
+
+  /** Export everything queued so far */
+  async flush(): Promise<void> {
+    while (this.queue.length > 0) {
+      const batch = this.queue.splice(0, MAX_BATCH_SIZE)
+      await this.send(batch)
+    }
+  }
+
+  async shutdown(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+    await this.flush()
+    if (this.droppedCount > 0) {
+      consola.warn(`[Tracing] Dropped ${this.droppedCount} spans while the collector was unreachable`)
+    }
+  }
+
+  private async send(batch: Array<FinishedSpan>): Promise<void> {
+    try {
+      const response = await fetch(this.options.endpoint, {
+        method: "POST",
+        headers: { "content-type": "application/json", ...this.options.headers },
+        body: JSON.stringify(
+          encodeSpans(batch, { serviceName: this.options.serviceName, serviceVersion: this.options.serviceVersion }),
+        ),
+        signal: AbortSignal.timeout(EXPORT_TIMEOUT_MS),
+      })
+      if (!response.ok) {
+        this.logExportError(`collector responded ${response.status} ${response.statusText}`)
+      }
+    } catch (error) {
+      this.logExportError(error instanceof Error ? error.message : String(error))
+    }
+  }
+
+  /** Log at most once a minute so an unreachable collector doesn't flood the console */
+  private logExportError(message: string): void {
+    const now = Date.now()
+    if (now - this.lastErrorLoggedAt < 60_000) {
+      consola.debug(`[Tracing] Span export failed: ${message}`)
+      return
+    }
+    this.lastErrorLoggedAt = now
+    consola.warn(`[Tracing] Span export to ${this.options.endpoint} failed: ${message}`)
+  }
+}
+
+// ─── Singleton ───
+
+let exporter: OtlpTraceExporter | null = null
+
+export function initTracing(options: TraceExporterOptions): void {
+  exporter = new OtlpTraceExporter(options)
+  exporter.start()
+  consola.info(`[Tracing] Exporting OTLP traces to ${options.endpoint}`)
+}
+
+/** The active exporter, or null when tracing is disabled */
+export function getTraceExporter(): OtlpTraceExporter | null {
+  return exporter
+}
+
+/** Flush pending spans and disable tracing */
+export async function shutdownTracing(): Promise<void> {
+  const current = exporter
+  exporter = null
+  await current?.shutdown()
+}
+
+/** Install an exporter directly (tests) */
+export function _setTraceExporterForTests(value: OtlpTraceExporter | null): void {
+  exporter = value
+}
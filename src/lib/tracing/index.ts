@@ -0,0 +1,17 @@
+/**
+ * Tracing module — optional OpenTelemetry (OTLP/HTTP) trace export
+ *
+ * Enabled by config.yaml `tracing.endpoint`. Re-exports the span helpers used
+ * by handlers and the request pipeline.
+ */
+
+export {
+  getTraceExporter,
+  initTracing,
+  OtlpTraceExporter,
+  shutdownTracing,
+  type TraceExporterOptions,
+} from "./exporter"
+export { handleTracingEvent, startRequestSpan, startSpan, withRequestSpan } from "./request-spans"
+export { type FinishedSpan, Span, type SpanAttributes, type SpanContext, SpanKind } from "./span"
+export { parseTraceParent } from "./traceparent"
@@ -0,0 +1,168 @@
+/**
+ * Request-scoped spans.
+ *
+ * Each RequestContext gets a SERVER root span (continuing the inbound
+ * `traceparent` trace when present). Lifecycle spans come from context events
+ * (handleTracingEvent, registered alongside the history/TUI consumers):
+ *   - root: created → completed/failed, with model, token usage and error type
+ *   - stream: transition to "streaming" → settle
+ * Pipeline stages (sanitize, upstream attempts, rate limiter queue wait, retry
+ * strategies such as auto-truncate) open child spans via startRequestSpan().
+ *
+ * Everything is a no-op while tracing is disabled.
+ */
+
+import type { RequestContextEvent } from "~/lib/context/manager"
+import type { HistoryEntryData, RequestContext } from "~/lib/context/types"
+
+import type { SpanAttributes, SpanContext, SpanKindValue } from "./span"
+
+import { getTraceExporter } from "./exporter"
+import { Span, SpanKind } from "./span"
+import { parseTraceParent } from "./traceparent"
+
+interface RequestSpans {
+  root: Span
+  stream?: Span
+}
+
+/** Open spans of in-flight requests, keyed by RequestContext id */
+const activeRequests = new Map<string, RequestSpans>()
+
+/**
+ * Start a span. Returns null when tracing is disabled or the parent trace
+ * was not sampled (parent-based sampling; new traces are always sampled).
+ */
+export function startSpan(
+  name: string,
+  opts: { parent?: SpanContext; kind?: SpanKindValue; startTimeMs?: number; attributes?: SpanAttributes } = {},
+): Span | null {
+  const exporter = getTraceExporter()
+  if (!exporter || opts.parent?.sampled === false) return null
+
+  const span = new Span(name, {
+    parent: opts.parent,
+    kind: opts.kind ?? SpanKind.INTERNAL,
+    startTimeMs: opts.startTimeMs ?? Date.now(),
+    onEnd: (finished) => exporter.enqueue(finished),
+  })
+  if (opts.attributes) span.setAttributes(opts.attributes)
+  return span
+}
+
+/** Start a child span of the request's root span (null when the request isn't traced) */
+export function startRequestSpan(
+  ctx: RequestContext | undefined,
+  name: string,
+  opts: { parent?: Span | null; kind?: SpanKindValue; startTimeMs?: number; attributes?: SpanAttributes } = {},
+): Span | null {
+  if (!ctx) return null
+  const root = activeRequests.get(ctx.id)?.root
+  if (!root) return null
+  return startSpan(name, { ...opts, parent: (opts.parent ?? root).context })
+}
+
+/** Run a synchronous step inside a child span of the request */
+export function withRequestSpan<T>(ctx: RequestContext | undefined, name: string, fn: () => T): T {
+  const span = startRequestSpan(ctx, name)
+  try {
+    return fn()
+  } catch (error) {
+    span?.setError(error instanceof Error ? error.message : String(error))
+    throw error
+  } finally {
+    span?.end()
+  }
+}
+
+function usageAttributes(entry: HistoryEntryData): SpanAttributes {
+  const usage = entry.response?.usage
+  if (!usage) return {}
+  return {
+    "gen_ai.usage.input_tokens": usage.input_tokens,
+    "gen_ai.usage.output_tokens": usage.output_tokens,
+    "gen_ai.usage.cache_read_input_tokens": usage.cache_read_input_tokens,
+    "gen_ai.usage.cache_creation_input_tokens": usage.cache_creation_input_tokens,
+    "gen_ai.usage.reasoning_tokens": usage.output_tokens_details?.reasoning_tokens,
+  }
+}
+
+function settleRequestSpans(ctx: RequestContext, entry: HistoryEntryData | undefined): void {
+  const spans = activeRequests.get(ctx.id)
+  if (!spans) return
+  activeRequests.delete(ctx.id)
+
+  const endTime = entry?.endedAt ?? Date.now()
+  spans.stream?.end(endTime)
+
+  spans.root.setAttributes({
+    "gen_ai.response.model": entry?.response?.model || undefined,
+    "copilot_api.attempt_count": ctx.attempts.length,
+    "copilot_api.queue_wait_ms": ctx.queueWaitMs,
+    ...(entry ? usageAttributes(entry) : {}),
+  })
+  if (ctx.state === "failed") {
+    const apiError = ctx.currentAttempt?.error
+    spans.root.setAttributes({
+      "error.type": apiError?.type ?? "unknown",
+      "http.response.status_code": entry?.response?.status ?? apiError?.status,
+    })
+    spans.root.setError(entry?.response?.error)
+  }
+  spans.root.end(endTime)
+}
+
+/** RequestContextManager consumer that maintains the root and stream spans */
+export function handleTracingEvent(event: RequestContextEvent): void {
+  const ctx = event.context
+
+  switch (event.type) {
+    case "created": {
+      const root = startSpan(ctx.rawPath ?? ctx.endpoint, {
+        parent: parseTraceParent(ctx.traceParent),
+        kind: SpanKind.SERVER,
+        startTimeMs: ctx.startTime,
+        attributes: {
+          "copilot_api.request_id": ctx.id,
+          "copilot_api.endpoint": ctx.endpoint,
+          "copilot_api.api_key_label": ctx.apiKeyLabel,
+          "url.path": ctx.rawPath,
+          "session.id": ctx.sessionId,
+        },
+      })
+      if (root) activeRequests.set(ctx.id, { root })
+      break
+    }
+
+    case "updated": {
+      if (event.field !== "originalRequest") break
+      activeRequests.get(ctx.id)?.root.setAttributes({
+        "gen_ai.request.model": ctx.originalRequest?.model,
+        "copilot_api.stream": ctx.originalRequest?.stream,
+      })
+      break
+    }
+
+    case "state_changed": {
+      const spans = activeRequests.get(ctx.id)
+      if (spans && ctx.state === "streaming" && !spans.stream) {
+        spans.stream = startRequestSpan(ctx, "stream") ?? undefined
+      }
+      break
+    }
+
+    case "completed":
+    case "failed": {
+      settleRequestSpans(ctx, event.entry)
+      break
+    }
+
+    default: {
+      break
+    }
+  }
+}
+
+export function _resetRequestSpansForTests(): void {
+  activeRequests.clear()
+}
@@ -0,0 +1,100 @@
+/** Minimal span model for OTLP trace export */
+
+import { randomBytes } from "node:crypto"
+
+export type AttributeValue = string | number | boolean
+
+/** Attributes with undefined values are dropped */
+export type SpanAttributes = Record<string, AttributeValue | undefined>
+
+export interface SpanContext {
+  traceId: string
+  spanId: string
+  sampled: boolean
+}
+
+/** OTLP SpanKind values */
+export const SpanKind = {
+  INTERNAL: 1,
+  SERVER: 2,
+  CLIENT: 3,
+} as const
+
+export type SpanKindValue = (typeof SpanKind)[keyof typeof SpanKind]
+
+/** A span that has ended, ready for export */
+export interface FinishedSpan {
+  traceId: string
+  spanId: string
+  parentSpanId?: string
+  name: string
+  kind: SpanKindValue
+  startTimeMs: number
+  endTimeMs: number
+  attributes: Record<string, AttributeValue>
+  /** OTLP StatusCode: 0 unset, 1 ok, 2 error */
+  status: { code: 0 | 1 | 2; message?: string }
+}
+
+export function generateTraceId(): string {
+  return randomBytes(16).toString("hex")
+}
+
+export function generateSpanId(): string {
+  return randomBytes(8).toString("hex")
+}
+
+interface SpanOptions {
+  parent?: SpanContext
+  kind: SpanKindValue
+  startTimeMs: number
+  onEnd: (span: FinishedSpan) => void
+}
+
+export class Span {
+  readonly name: string
+  readonly context: SpanContext
+  private readonly opts: SpanOptions
+  private readonly attributes: Record<string, AttributeValue> = {}
+  private status: FinishedSpan["status"] = { code: 0 }
+  private ended = false
+
+  constructor(name: string, opts: SpanOptions) {
+    this.name = name
+    this.opts = opts
+    this.context = {
+      traceId: opts.parent?.traceId ?? generateTraceId(),
+      spanId: generateSpanId(),
+      sampled: true,
+    }
+  }
+
+  setAttributes(attributes: SpanAttributes): this {
+    for (const [key, value] of Object.entries(attributes)) {
+      if (value !== undefined) this.attributes[key] = value
+    }
+    return this
+  }
+
+  setError(message?: string): this {
+    this.status = { code: 2, message }
+    return this
+  }
+
+  /** End the span (idempotent) and hand it to the exporter */
+  end(endTimeMs = Date.now()): void {
+    if (this.ended) return
+    this.ended = true
+    this.opts.onEnd({
+      traceId: this.context.traceId,
+      spanId: this.context.spanId,
+      parentSpanId: this.opts.parent?.spanId,
+      name: this.name,
+      kind: this.opts.kind,
+      startTimeMs: this.opts.startTimeMs,
+      endTimeMs: Math.max(endTimeMs, this.opts.startTimeMs),
+      attributes: { ...this.attributes },
+      status: this.status,
+    })
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * W3C Trace Context `traceparent` header parsing.
+ *
+ * Format: `{version}-{trace-id}-{parent-id}-{trace-flags}`, e.g.
+ * `00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01`.
+ */
+
+import type { SpanContext } from "./span"
+
+const TRACEPARENT_RE = /^([\da-f]{2})-([\da-f]{32})-([\da-f]{16})-([\da-f]{2})(?:-.*)?$/
+const INVALID_TRACE_ID = "0".repeat(32)
+const INVALID_SPAN_ID = "0".repeat(16)
+
+/** Parse a traceparent header. Returns undefined for missing or malformed values. */
+export function parseTraceParent(header: string | undefined): SpanContext | undefined {
+  if (!header) return undefined
+  const match = TRACEPARENT_RE.exec(header.trim().toLowerCase())
+  if (!match) return undefined
+
+  const [, version, traceId, spanId, flags] = match
+  // Version ff is forbidden; future versions may append fields (accepted by the regex)
+  if (version === "ff" || traceId === INVALID_TRACE_ID || spanId === INVALID_SPAN_ID) return undefined
+  if (version === "00" && header.trim().length !== 55) return undefined
+
+  return { traceId, spanId, sampled: (Number.parseInt(flags, 16) & 1) === 1 }
+}
@@ -42,7 +42,9 @@ export function tuiMiddleware(): MiddlewareHandler {
       method,
       path,
       model: "",
-      isHistoryAccess: path.startsWith("/history"),
+      // Periodic scrapes are logged like history polling (only errors shown);
+      // replays are real upstream requests and are logged in full
+      isHistoryAccess: (path.startsWith("/history") && !path.endsWith("/replay")) || path === "/metrics",
       requestBodySize,
     })
 
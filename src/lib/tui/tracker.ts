@@ -1,5 +1,6 @@
 /** TUI logger - manages request log entries independently of rendering */
 
+import { recordFirstStreamEvent, recordStreamFinished } from "~/lib/metrics"
 import { state } from "~/lib/state"
 import { generateId } from "~/lib/utils"
 
@@ -88,7 +89,10 @@ export class TuiLogger {
     if (update.error !== undefined) entry.error = update.error
     if (update.queuePosition !== undefined) entry.queuePosition = update.queuePosition
     if (update.queueWaitMs !== undefined) entry.queueWaitMs = update.queueWaitMs
-    if (update.streamBytesIn !== undefined) entry.streamBytesIn = update.streamBytesIn
+    if (update.streamBytesIn !== undefined) {
+      if (entry.streamBytesIn === undefined) recordFirstStreamEvent(entry)
+      entry.streamBytesIn = update.streamBytesIn
+    }
     if (update.streamEventsIn !== undefined) entry.streamEventsIn = update.streamEventsIn
     if (update.streamBlockType !== undefined) entry.streamBlockType = update.streamBlockType
     if (update.tags) {
@@ -134,6 +138,7 @@ export class TuiLogger {
       entry.outputTokens = outcome.usage.outputTokens
     }
     entry.durationMs = Date.now() - entry.startTime
+    recordStreamFinished(entry)
 
     this.renderer?.onRequestComplete(entry)
     this.moveToCompleted(id, entry)
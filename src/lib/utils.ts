@@ -19,3 +19,16 @@ export function generateId(randomLength = 7): string {
       .slice(2, 2 + randomLength)
   )
 }
+
+/** JSON with sorted object keys (undefined fields dropped, like JSON.stringify) */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map((item) => canonicalJson(item ?? null)).join(",")}]`
+  if (value && typeof value === "object") {
+    const fields = Object.keys(value)
+      .sort()
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`)
+    return `{${fields.join(",")}}`
+  }
+  return JSON.stringify(value)
+}
@@ -4,7 +4,7 @@ import type { Context } from "hono"
 import consola from "consola"
 import { SSEStreamingApi, streamSSE } from "hono/streaming"
 
-import type { RequestContext } from "~/lib/context/request"
+import type { RequestContext, ResponseData } from "~/lib/context/request"
 import type { HeadersCapture } from "~/lib/context/request"
 import type { MessageContent } from "~/lib/history"
 import type { Model } from "~/lib/models/client"
@@ -16,8 +16,10 @@ import type {
 } from "~/types/api/openai-chat-completions"
 import type { ResponsesResponse } from "~/types/api/openai-responses"
 
-import { executeWithAdaptiveRateLimit } from "~/lib/adaptive-rate-limiter"
+import { executeWithAdaptiveRateLimit, resolveRequestPriority } from "~/lib/adaptive-rate-limiter"
+import { assertModelAllowed, getApiKeyPolicy } from "~/lib/api-key-auth"
 import { MAX_AUTO_TRUNCATE_RETRIES } from "~/lib/auto-truncate"
+import { enforceBudgets, getBudgetSubjects } from "~/lib/budgets"
 import { getRequestContextManager } from "~/lib/context/manager"
 import { HTTPError } from "~/lib/error"
 import { getSessionIdFromHeaders } from "~/lib/history/store"
@@ -33,28 +35,60 @@ import { createResponses } from "~/lib/openai/responses-client"
 import { sanitizeOpenAIMessages } from "~/lib/openai/sanitize"
 import { createOpenAIStreamAccumulator, accumulateOpenAIStreamEvent } from "~/lib/openai/stream-accumulator"
 import {
+  EMULATED_CC_PARAMS,
+  MAX_EMULATED_CHOICES,
+  applyStopSequences,
   createStreamTranslator,
+  enforceStopSequences,
+  getStopSequences,
+  mergeChoiceResponses,
+  mergeChoiceStreams,
   translateChatCompletionsToResponses,
   translateResponsesResponseToCC,
   translateResponsesStream,
 } from "~/lib/openai/translate"
+import { applyRedactionPolicy } from "~/lib/redaction"
 import { buildOpenAIResponseData, isNonStreaming, logPayloadSizeInfo } from "~/lib/request"
 import { executeRequestPipeline, type RetryStrategy } from "~/lib/request/pipeline"
+import {
+  createChatCompletionsRepetitionFormat,
+  executeRepetitionRetry,
+  guardStreamRepetition,
+  nudgeChatCompletionsPayload,
+  wasRepetitionDetected,
+} from "~/lib/request/repetition-guard"
 import { createAutoTruncateStrategy, type TruncateResult } from "~/lib/request/strategies/auto-truncate"
+import { createModelFallbackStrategy } from "~/lib/request/strategies/model-fallback"
 import { createNetworkRetryStrategy } from "~/lib/request/strategies/network-retry"
 import { createTokenRefreshStrategy } from "~/lib/request/strategies/token-refresh"
+import {
+  createSseRecorder,
+  lookupCachedResponse,
+  replayCachedResponse,
+  resolveResponseCacheKey,
+  storeCachedResponse,
+} from "~/lib/response-cache"
 import { getShutdownSignal } from "~/lib/shutdown"
 import { state } from "~/lib/state"
 import { STREAM_ABORTED, StreamIdleTimeoutError, combineAbortSignals, raceIteratorNext } from "~/lib/stream"
 import { processOpenAIMessages } from "~/lib/system-prompt"
+import { withRequestSpan } from "~/lib/tracing"
 import { tuiLogger } from "~/lib/tui"
 import { isNullish } from "~/lib/utils"
 import { extractInputItems, normalizeCallIds } from "~/routes/responses/pipeline"
 
 const DROPPED_CC_PARAMS_WARNING_CODE = "cc_to_responses_dropped_params"
 
-export async function handleChatCompletion(c: Context) {
-  const originalPayload = await c.req.json<ChatCompletionsPayload>()
+/** Response header listing request params that were not forwarded upstream */
+const WARNING_HEADER = "x-copilot-api-warning"
+
+/**
+ * Handle a Chat Completions request. `payload` is passed by facades (the Ollama
+ * routes) that translate their own request body, and by history replays;
+ * otherwise the body is parsed.
+ */
+export async function handleChatCompletion(c: Context, payload?: ChatCompletionsPayload) {
+  let originalPayload = payload ?? (await c.req.json<ChatCompletionsPayload>())
 
   // Resolve model name aliases and date-suffixed versions
   const clientModel = originalPayload.model
@@ -64,6 +98,10 @@ export async function handleChatCompletion(c: Context) {
     originalPayload.model = resolvedModel
   }
 
+  // Enforce the inbound API key's model allowlist (before any history entry exists)
+  const apiKey = getApiKeyPolicy(c)
+  assertModelAllowed(apiKey, originalPayload.model)
+
   // Find the selected model
   const selectedModel = state.modelIndex.get(originalPayload.model)
 
@@ -80,6 +118,9 @@ export async function handleChatCompletion(c: Context) {
     sessionId: getSessionIdFromHeaders(c.req.raw.headers),
     tuiLogId,
     rawPath: c.req.path,
+    apiKeyLabel: apiKey?.label,
+    traceParent: c.req.header("traceparent"),
+    priority: resolveRequestPriority(c),
   })
   reqCtx.setOriginalRequest({
     // Use client's original model name (before resolution/overrides)
@@ -101,8 +142,16 @@ export async function handleChatCompletion(c: Context) {
     })
   }
 
+  // Reject requests over a configured budget (reserves premium requests for this one)
+  enforceBudgets(reqCtx, getBudgetSubjects(c), originalPayload.model, originalPayload.n)
+
+  // Mask (or reject) secrets in the prompt before any further processing
+  originalPayload = applyRedactionPolicy(reqCtx, originalPayload)
+
   // Sanitize messages (filter orphaned tool blocks, system-reminders)
-  const { payload: sanitizedPayload } = sanitizeOpenAIMessages(originalPayload)
+  const { payload: sanitizedPayload } = withRequestSpan(reqCtx, "sanitize", () =>
+    sanitizeOpenAIMessages(originalPayload),
+  )
 
   const finalPayload =
     isNullish(sanitizedPayload.max_tokens) ?
@@ -116,6 +165,11 @@ export async function handleChatCompletion(c: Context) {
     consola.debug("Set max_tokens to:", JSON.stringify(finalPayload.max_tokens))
   }
 
+  // Deterministic repeats of a recorded request are answered from the response cache
+  const cacheKey = resolveResponseCacheKey(c, "openai-chat-completions", finalPayload)
+  const cached = await lookupCachedResponse(cacheKey)
+  if (cached) return replayCachedResponse(c, reqCtx, cached)
+
   if (isEndpointSupported(selectedModel, ENDPOINT.CHAT_COMPLETIONS)) {
     return executeRequest({
       c,
@@ -123,10 +177,16 @@ export async function handleChatCompletion(c: Context) {
       originalPayload,
       selectedModel,
       reqCtx,
+      cacheKey,
     })
   }
 
   if (isResponsesSupported(selectedModel)) {
+    const n = finalPayload.n ?? 1
+    if (!Number.isInteger(n) || n < 1 || n > MAX_EMULATED_CHOICES) {
+      const msg = `n must be an integer between 1 and ${MAX_EMULATED_CHOICES} for models served via ${ENDPOINT.RESPONSES}`
+      throw new HTTPError(msg, 400, msg)
+    }
     if (tuiLogId) {
       tuiLogger.updateRequest(tuiLogId, { tags: ["via-responses"] })
     }
@@ -136,6 +196,7 @@ export async function handleChatCompletion(c: Context) {
       originalPayload,
       selectedModel,
       reqCtx,
+      cacheKey,
     })
   }
 
@@ -150,6 +211,8 @@ interface ExecuteRequestOptions {
   originalPayload: ChatCompletionsPayload
   selectedModel: Model | undefined
   reqCtx: RequestContext
+  /** Response cache key (undefined when the request isn't cacheable) */
+  cacheKey: string | undefined
 }
 
 /**
@@ -157,21 +220,21 @@ interface ExecuteRequestOptions {
  * Handles 413 and token limit errors with auto-truncation.
  */
 async function executeRequest(opts: ExecuteRequestOptions) {
-  const { c, payload, originalPayload, selectedModel, reqCtx } = opts
+  const { c, payload, originalPayload, selectedModel, reqCtx, cacheKey } = opts
 
   // Build adapter and strategy for the pipeline
   const headersCapture: HeadersCapture = {}
   const adapter: FormatAdapter<ChatCompletionsPayload> = {
     format: "openai-chat-completions",
     sanitize: (p) => sanitizeOpenAIMessages(p),
-    execute: (p) =>
+    execute: (p, model) =>
       executeWithAdaptiveRateLimit(() =>
         createChatCompletions(p, {
-          resolvedModel: selectedModel,
+          resolvedModel: model,
           headersCapture,
           onPrepared: ({ wire, headers }) => {
             reqCtx.setAttemptWireRequest({
-              model: typeof wire.model === "string" ? wire.model : payload.model,
+              model: typeof wire.model === "string" ? wire.model : p.model,
               messages: Array.isArray(wire.messages) ? wire.messages : [],
               payload: wire,
               headers,
@@ -183,7 +246,9 @@ async function executeRequest(opts: ExecuteRequestOptions) {
     logPayloadSize: (p) => logPayloadSizeInfo(p, selectedModel),
   }
 
-  const strategies = createChatCompletionsStrategies("Completions")
+  const strategies = createChatCompletionsStrategies("Completions", originalPayload, (model) =>
+    isEndpointSupported(model, ENDPOINT.CHAT_COMPLETIONS),
+  )
 
   return executeRequestWithAdapter({
     c,
@@ -191,6 +256,7 @@ async function executeRequest(opts: ExecuteRequestOptions) {
     originalPayload,
     selectedModel,
     reqCtx,
+    cacheKey,
     adapter,
     strategies,
     headersCapture,
@@ -198,55 +264,65 @@ async function executeRequest(opts: ExecuteRequestOptions) {
 }
 
 async function executeRequestViaResponses(opts: ExecuteRequestOptions) {
-  const { c, payload, originalPayload, selectedModel, reqCtx } = opts
+  const { c, payload, originalPayload, selectedModel, reqCtx, cacheKey } = opts
   const headersCapture: HeadersCapture = {}
   const adapter: FormatAdapter<ChatCompletionsPayload> = {
     format: "openai-chat-completions",
     sanitize: (p) => sanitizeOpenAIMessages(p),
-    execute: async (ccPayload) => {
+    execute: async (ccPayload, model) => {
       const { payload: responsesPayload, droppedParams } = translateChatCompletionsToResponses(ccPayload)
-      if (droppedParams.length > 0) {
-        recordDroppedCcParamsWarning(reqCtx, ccPayload.model, droppedParams)
+      const unsupportedParams = droppedParams.filter((param) => !EMULATED_CC_PARAMS.has(param))
+      if (unsupportedParams.length > 0) {
+        recordDroppedCcParamsWarning(c, reqCtx, ccPayload.model, unsupportedParams)
       }
 
       const finalPayload = state.normalizeResponsesCallIds ? normalizeCallIds(responsesPayload) : responsesPayload
-      const result = await executeWithAdaptiveRateLimit(() =>
-        createResponses(finalPayload, {
-          resolvedModel: selectedModel,
-          headersCapture,
-          onPrepared: ({ wire, headers }) => {
-            reqCtx.setAttemptWireRequest({
-              model: typeof wire.model === "string" ? wire.model : ccPayload.model,
-              messages: extractInputItems(wire.input),
-              payload: wire,
-              headers,
-              format: "openai-responses",
-            })
-          },
-        }),
+      // `n` is emulated with one upstream request per choice
+      const results = await executeChoices(ccPayload.n ?? 1, () =>
+        executeWithAdaptiveRateLimit(() =>
+          createResponses(finalPayload, {
+            resolvedModel: model,
+            headersCapture,
+            onPrepared: ({ wire, headers }) => {
+              reqCtx.setAttemptWireRequest({
+                model: typeof wire.model === "string" ? wire.model : ccPayload.model,
+                messages: extractInputItems(wire.input),
+                payload: wire,
+                headers,
+                format: "openai-responses",
+              })
+            },
+          }),
+        ),
       )
+      const queueWaitMs = Math.max(...results.map((result) => result.queueWaitMs))
+      const stops = getStopSequences(ccPayload.stop)
 
       if (!ccPayload.stream) {
-        return {
-          result: translateResponsesResponseToCC(result.result as ResponsesResponse),
-          queueWaitMs: result.queueWaitMs,
-        }
+        const responses = results.map((result) =>
+          applyStopSequences(translateResponsesResponseToCC(result.result as ResponsesResponse), stops),
+        )
+        return { result: responses.length === 1 ? responses[0] : mergeChoiceResponses(responses), queueWaitMs }
       }
 
-      const translatedStream = translateResponsesStream(
-        result.result as AsyncIterable<ServerSentEventMessage>,
-        createStreamTranslator({ includeUsage: ccPayload.stream_options?.include_usage ?? false }),
+      const streams = results.map((result) =>
+        enforceStopSequences(
+          translateResponsesStream(
+            result.result as AsyncIterable<ServerSentEventMessage>,
+            createStreamTranslator({ includeUsage: ccPayload.stream_options?.include_usage ?? false }),
+          ),
+          stops,
+        ),
       )
 
-      return {
-        result: translatedStream,
-        queueWaitMs: result.queueWaitMs,
-      }
+      return { result: streams.length === 1 ? streams[0] : mergeChoiceStreams(streams), queueWaitMs }
     },
     logPayloadSize: (p) => logPayloadSizeInfo(p, selectedModel),
   }
 
-  const strategies = createChatCompletionsStrategies("Completions(→Responses)")
+  const strategies = createChatCompletionsStrategies("Completions(→Responses)", originalPayload, (model) =>
+    isResponsesSupported(model),
+  )
 
   return executeRequestWithAdapter({
     c,
@@ -254,13 +330,37 @@ async function executeRequestViaResponses(opts: ExecuteRequestOptions) {
     originalPayload,
     selectedModel,
     reqCtx,
+    cacheKey,
     adapter,
     strategies,
     headersCapture,
   })
 }
 
-function recordDroppedCcParamsWarning(reqCtx: RequestContext, model: string, droppedParams: Array<string>) {
+/**
+ * Run one upstream call per requested choice.
+ * If any call fails, streams already opened by the others are closed before rethrowing.
+ */
+async function executeChoices<T extends { result: unknown }>(count: number, run: () => Promise<T>): Promise<Array<T>> {
+  if (count === 1) return [await run()]
+
+  const settled = await Promise.allSettled(Array.from({ length: count }, () => run()))
+  const failure = settled.find((outcome) => outcome.status === "rejected")
+  if (!failure) return settled.map((outcome) => (outcome as PromiseFulfilledResult<T>).value)
+
+  for (const outcome of settled) {
+    const result = outcome.status === "fulfilled" ? outcome.value.result : undefined
+    if (result && typeof result === "object" && Symbol.asyncIterator in result) {
+      void (result as AsyncGenerator).return(undefined)
+    }
+  }
+  throw failure.reason
+}
+
+function recordDroppedCcParamsWarning(c: Context, reqCtx: RequestContext, model: string, droppedParams: Array<string>) {
+  // Machine-readable copy for clients; the history entry keeps the human-readable warning
+  c.header(WARNING_HEADER, JSON.stringify({ code: DROPPED_CC_PARAMS_WARNING_CODE, params: droppedParams }))
+
   const paramsText = droppedParams.join(", ")
   const message = `Chat Completions -> Responses translation dropped unsupported params: ${paramsText}`
   const alreadyRecorded = reqCtx.warningMessages.some(
@@ -280,10 +380,21 @@ function recordDroppedCcParamsWarning(reqCtx: RequestContext, model: string, dro
   }
 }
 
-function createChatCompletionsStrategies(label: string): Array<RetryStrategy<ChatCompletionsPayload>> {
+function createChatCompletionsStrategies(
+  label: string,
+  originalPayload: ChatCompletionsPayload,
+  isSupported: (model: Model) => boolean,
+): Array<RetryStrategy<ChatCompletionsPayload>> {
   return [
     createNetworkRetryStrategy<ChatCompletionsPayload>(),
     createTokenRefreshStrategy<ChatCompletionsPayload>(),
+    createModelFallbackStrategy<ChatCompletionsPayload>({
+      isSupported,
+      // A defaulted max_tokens came from the previous model's limit — re-derive it
+      prepare: (p, model) =>
+        isNullish(originalPayload.max_tokens) ? { ...p, max_tokens: model.capabilities?.limits?.max_output_tokens } : p,
+      label,
+    }),
     createAutoTruncateStrategy<ChatCompletionsPayload>({
       truncate: (p, model, truncOpts) =>
         autoTruncateOpenAI(p, model, truncOpts) as Promise<TruncateResult<ChatCompletionsPayload>>,
@@ -301,7 +412,7 @@ interface ExecuteRequestWithAdapterOptions extends ExecuteRequestOptions {
 }
 
 async function executeRequestWithAdapter(opts: ExecuteRequestWithAdapterOptions) {
-  const { c, payload, originalPayload, selectedModel, reqCtx, adapter, strategies, headersCapture } = opts
+  const { c, payload, originalPayload, selectedModel, reqCtx, cacheKey, adapter, strategies, headersCapture } = opts
 
   // Track truncation result for non-streaming response marker
   let truncateResult: OpenAIAutoTruncateResult | undefined
@@ -335,7 +446,7 @@ async function executeRequestWithAdapter(opts: ExecuteRequestWithAdapterOptions)
     const response = result.response
 
     if (isNonStreaming(response as ChatCompletionResponse | AsyncIterable<unknown>)) {
-      return handleNonStreamingResponse(c, response as ChatCompletionResponse, reqCtx, truncateResult)
+      return handleNonStreamingResponse(c, response as ChatCompletionResponse, reqCtx, truncateResult, cacheKey)
     }
 
     consola.debug("Streaming response")
@@ -348,10 +459,19 @@ async function executeRequestWithAdapter(opts: ExecuteRequestWithAdapterOptions)
       await handleStreamingResponse({
         stream,
         response: response as AsyncIterable<ServerSentEventMessage>,
-        payload,
+        // Effective payload: its model reflects a fallback switch
+        payload: result.effectivePayload as ChatCompletionsPayload,
         reqCtx,
         truncateResult,
+        cacheKey,
         clientAbortSignal: clientAbort.signal,
+        repetitionRetry: () =>
+          executeRepetitionRetry({
+            adapter,
+            payload: nudgeChatCompletionsPayload(result.requestPayload as ChatCompletionsPayload),
+            model: result.model,
+            reqCtx,
+          }),
       })
     })
   } catch (error) {
@@ -367,6 +487,7 @@ function handleNonStreamingResponse(
   originalResponse: ChatCompletionResponse,
   reqCtx: RequestContext,
   truncateResult: OpenAIAutoTruncateResult | undefined,
+  cacheKey: string | undefined,
 ) {
   // Prepend truncation marker if auto-truncate was performed (only in verbose mode)
   let response = originalResponse
@@ -385,7 +506,7 @@ function handleNonStreamingResponse(
   const choice = response.choices[0]
   const usage = response.usage
 
-  reqCtx.complete({
+  const responseData: ResponseData = {
     success: true,
     model: response.model,
     usage: {
@@ -397,8 +518,10 @@ function handleNonStreamingResponse(
     },
     stop_reason: choice.finish_reason ?? undefined,
     content: choice.message,
-  })
+  }
+  reqCtx.complete(responseData)
 
+  storeCachedResponse(cacheKey, { endpoint: "openai-chat-completions", response: responseData, body: response })
   return c.json(response)
 }
 
@@ -409,15 +532,26 @@ interface StreamingOptions {
   payload: ChatCompletionsPayload
   reqCtx: RequestContext
   truncateResult: OpenAIAutoTruncateResult | undefined
+  /** Response cache key; the forwarded events are recorded under it when the stream completes */
+  cacheKey: string | undefined
   /** Abort signal that fires when the downstream client disconnects */
   clientAbortSignal?: AbortSignal
+  /** Resends the request with a nudge when the repetition policy is `abort-and-retry` */
+  repetitionRetry?: () => Promise<AsyncIterable<ServerSentEventMessage>>
 }
 
 // Handle streaming response
 async function handleStreamingResponse(opts: StreamingOptions) {
-  const { stream, response, payload, reqCtx, truncateResult, clientAbortSignal } = opts
+  const { stream, payload, reqCtx, truncateResult, cacheKey, clientAbortSignal } = opts
   const acc = createOpenAIStreamAccumulator()
+  const response = guardStreamRepetition(opts.response, {
+    reqCtx,
+    format: createChatCompletionsRepetitionFormat(),
+    retry: opts.repetitionRetry,
+  })
   const idleTimeoutMs = state.streamIdleTimeout * 1000
+  const cacheRecorder = cacheKey ? createSseRecorder() : undefined
+  let sawDone = false
 
   // Streaming metrics for TUI footer
   let bytesIn = 0
@@ -445,6 +579,7 @@ async function handleStreamingResponse(opts: StreamingOptions) {
         data: JSON.stringify(markerChunk),
         event: "message",
       })
+      cacheRecorder?.record("message", JSON.stringify(markerChunk))
       acc.rawContent += marker
     }
 
@@ -487,10 +622,21 @@ async function handleStreamingResponse(opts: StreamingOptions) {
         id: rawEvent.id !== undefined ? String(rawEvent.id) : undefined,
         retry: rawEvent.retry,
       })
+      cacheRecorder?.record(rawEvent.event, rawEvent.data ?? "")
+      if (rawEvent.data === "[DONE]") sawDone = true
     }
 
     const responseData = buildOpenAIResponseData(acc, payload.model)
     reqCtx.complete(responseData)
+    // Only complete streams are cached — a disconnect or shutdown ends the loop early,
+    // and a stream cut off by the repetition guard ends with synthetic events
+    if (cacheRecorder && sawDone && !wasRepetitionDetected(reqCtx)) {
+      storeCachedResponse(cacheKey, {
+        endpoint: "openai-chat-completions",
+        response: responseData,
+        events: cacheRecorder.events,
+      })
+    }
   } catch (error) {
     consola.error("[ChatCompletions] Stream error:", error)
     reqCtx.fail(acc.model || payload.model, error)
@@ -0,0 +1,367 @@
+/**
+ * Legacy OpenAI Completions (`/v1/completions`) handler.
+ *
+ * Models that advertise Copilot's native `/completions` endpoint get the
+ * request as-is; everything else is translated to Chat Completions and the
+ * result translated back into `text_completion` objects/chunks (see
+ * ~/lib/openai/translate/completions). Either way the client sees the legacy
+ * format and history records the request as `openai-completions`.
+ */
+
+import type { ServerSentEventMessage } from "fetch-event-stream"
+import type { Context } from "hono"
+
+import consola from "consola"
+import { SSEStreamingApi, streamSSE } from "hono/streaming"
+
+import type { HeadersCapture, RequestContext, ResponseData } from "~/lib/context/request"
+import type { Model } from "~/lib/models/client"
+import type { FormatAdapter, RetryStrategy } from "~/lib/request/pipeline"
+import type { ChatCompletionResponse } from "~/types/api/openai-chat-completions"
+import type { CompletionChunk, CompletionResponse, CompletionsPayload } from "~/types/api/openai-completions"
+
+import { executeWithAdaptiveRateLimit, resolveRequestPriority } from "~/lib/adaptive-rate-limiter"
+import { assertModelAllowed, getApiKeyPolicy } from "~/lib/api-key-auth"
+import { enforceBudgets, getBudgetSubjects } from "~/lib/budgets"
+import { getRequestContextManager } from "~/lib/context/manager"
+import { HTTPError } from "~/lib/error"
+import { getSessionIdFromHeaders } from "~/lib/history/store"
+import { ENDPOINT, isEndpointSupported, isNativeCompletionsSupported } from "~/lib/models/endpoint"
+import { resolveModelName } from "~/lib/models/resolver"
+import { createChatCompletions } from "~/lib/openai/chat-completions-client"
+import { createCompletions } from "~/lib/openai/completions-client"
+import {
+  getCompletionPrompt,
+  translateChatCompletionToCompletion,
+  translateChatStreamToCompletions,
+  translateCompletionsToChatCompletions,
+} from "~/lib/openai/translate"
+import { applyRedactionPolicy } from "~/lib/redaction"
+import { isNonStreaming } from "~/lib/request"
+import { executeRequestPipeline } from "~/lib/request/pipeline"
+import {
+  createCompletionsRepetitionFormat,
+  executeRepetitionRetry,
+  guardStreamRepetition,
+  nudgeCompletionsPayload,
+} from "~/lib/request/repetition-guard"
+import { createModelFallbackStrategy } from "~/lib/request/strategies/model-fallback"
+import { createNetworkRetryStrategy } from "~/lib/request/strategies/network-retry"
+import { createTokenRefreshStrategy } from "~/lib/request/strategies/token-refresh"
+import { getShutdownSignal } from "~/lib/shutdown"
+import { state } from "~/lib/state"
+import { STREAM_ABORTED, StreamIdleTimeoutError, combineAbortSignals, raceIteratorNext } from "~/lib/stream"
+import { tuiLogger } from "~/lib/tui"
+
+/** Models that can serve a legacy completion: natively, or via chat completions */
+function canServeCompletions(model: Model | undefined): boolean {
+  return isNativeCompletionsSupported(model) || isEndpointSupported(model, ENDPOINT.CHAT_COMPLETIONS)
+}
+
+/** Handle a legacy completion (`payload` is passed when replaying a history entry) */
+export async function handleCompletion(c: Context, payload?: CompletionsPayload) {
+  let originalPayload = payload ?? (await c.req.json<CompletionsPayload>())
+  // Rejects token-id and multi-prompt requests before anything is recorded
+  const prompt = getCompletionPrompt(originalPayload)
+
+  // Resolve model name aliases and date-suffixed versions
+  const clientModel = originalPayload.model
+  const resolvedModel = resolveModelName(clientModel)
+  if (resolvedModel !== clientModel) {
+    consola.debug(`Model name resolved: ${clientModel} → ${resolvedModel}`)
+    originalPayload.model = resolvedModel
+  }
+
+  // Enforce the inbound API key's model allowlist (before any history entry exists)
+  const apiKey = getApiKeyPolicy(c)
+  assertModelAllowed(apiKey, originalPayload.model)
+
+  const selectedModel = state.modelIndex.get(originalPayload.model)
+  if (!canServeCompletions(selectedModel)) {
+    const msg = `Model "${originalPayload.model}" does not support the ${ENDPOINT.COMPLETIONS} endpoint`
+    throw new HTTPError(msg, 400, msg)
+  }
+
+  const tuiLogId = c.get("tuiLogId") as string | undefined
+
+  // Create request context — triggers "created" event → history consumer inserts entry
+  const reqCtx = getRequestContextManager().create({
+    endpoint: "openai-completions",
+    sessionId: getSessionIdFromHeaders(c.req.raw.headers),
+    tuiLogId,
+    rawPath: c.req.path,
+    apiKeyLabel: apiKey?.label,
+    traceParent: c.req.header("traceparent"),
+    priority: resolveRequestPriority(c),
+  })
+  reqCtx.setOriginalRequest({
+    model: clientModel,
+    messages: [{ role: "user", content: prompt }],
+    stream: originalPayload.stream ?? false,
+    payload: originalPayload,
+  })
+
+  if (tuiLogId) {
+    tuiLogger.updateRequest(tuiLogId, {
+      model: originalPayload.model,
+      ...(clientModel !== originalPayload.model && { clientModel }),
+      ...(!isNativeCompletionsSupported(selectedModel) && { tags: ["via-chat-completions"] }),
+    })
+  }
+
+  // Reject requests over a configured budget (reserves premium requests for this one)
+  enforceBudgets(reqCtx, getBudgetSubjects(c), originalPayload.model, originalPayload.n)
+
+  // Mask (or reject) secrets in the prompt before any further processing
+  originalPayload = applyRedactionPolicy(reqCtx, originalPayload)
+
+  const headersCapture: HeadersCapture = {}
+  const adapter: FormatAdapter<CompletionsPayload> = {
+    format: "openai-completions",
+    // A bare prompt has no tool blocks or reminders to strip
+    sanitize: (p) => ({ payload: p, blocksRemoved: 0, systemReminderRemovals: 0 }),
+    execute: (p, model) =>
+      isNativeCompletionsSupported(model) ?
+        executeNative(p, model, reqCtx, headersCapture)
+      : executeViaChatCompletions(p, model, reqCtx, headersCapture),
+    logPayloadSize: () => {},
+  }
+
+  const strategies: Array<RetryStrategy<CompletionsPayload>> = [
+    createNetworkRetryStrategy<CompletionsPayload>(),
+    createTokenRefreshStrategy<CompletionsPayload>(),
+    createModelFallbackStrategy<CompletionsPayload>({ isSupported: canServeCompletions, label: "Completions(legacy)" }),
+  ]
+
+  try {
+    const result = await executeRequestPipeline({
+      adapter,
+      strategies,
+      payload: originalPayload,
+      originalPayload,
+      model: selectedModel,
+      requestContext: reqCtx,
+    })
+
+    reqCtx.setHttpHeaders(headersCapture)
+
+    const response = result.response as CompletionResponse | AsyncIterable<ServerSentEventMessage>
+    const model = (result.effectivePayload as CompletionsPayload).model
+
+    if (isNonStreaming(response)) {
+      const first = response.choices[0] as CompletionResponse["choices"][0] | undefined
+      reqCtx.complete(
+        buildCompletionResponseData({
+          model: response.model || model,
+          text: first?.text ?? "",
+          finishReason: first?.finish_reason,
+          inputTokens: response.usage?.prompt_tokens ?? 0,
+          outputTokens: response.usage?.completion_tokens ?? 0,
+        }),
+      )
+      return c.json(response)
+    }
+
+    consola.debug("Streaming response")
+    reqCtx.transition("streaming")
+
+    return streamSSE(c, async (stream) => {
+      const clientAbort = new AbortController()
+      stream.onAbort(() => clientAbort.abort())
+
+      await handleStreamingResponse({
+        stream,
+        response,
+        model,
+        reqCtx,
+        clientAbortSignal: clientAbort.signal,
+        repetitionRetry: () =>
+          executeRepetitionRetry({
+            adapter,
+            payload: nudgeCompletionsPayload(result.requestPayload as CompletionsPayload),
+            model: result.model,
+            reqCtx,
+          }),
+      })
+    })
+  } catch (error) {
+    reqCtx.setHttpHeaders(headersCapture)
+    reqCtx.fail(originalPayload.model, error)
+    throw error
+  }
+}
+
+async function executeNative(
+  payload: CompletionsPayload,
+  model: Model | undefined,
+  reqCtx: RequestContext,
+  headersCapture: HeadersCapture,
+) {
+  return await executeWithAdaptiveRateLimit(() =>
+    createCompletions(payload, {
+      resolvedModel: model,
+      headersCapture,
+      onPrepared: ({ wire, headers }) => {
+        reqCtx.setAttemptWireRequest({
+          model: wire.model,
+          messages: [],
+          payload: wire,
+          headers,
+          format: "openai-completions",
+        })
+      },
+    }),
+  )
+}
+
+const DROPPED_COMPLETIONS_PARAMS_WARNING_CODE = "completions_to_cc_dropped_params"
+
+async function executeViaChatCompletions(
+  payload: CompletionsPayload,
+  model: Model | undefined,
+  reqCtx: RequestContext,
+  headersCapture: HeadersCapture,
+) {
+  const ccPayload = translateCompletionsToChatCompletions(payload)
+  // Chat Completions has no best_of; the request gets n choices and no server-side ranking
+  if ((payload.best_of ?? 1) > 1) recordDroppedCompletionsParamsWarning(reqCtx, ccPayload.model, ["best_of"])
+  const { result, queueWaitMs } = await executeWithAdaptiveRateLimit(() =>
+    createChatCompletions(ccPayload, {
+      resolvedModel: model,
+      headersCapture,
+      onPrepared: ({ wire, headers }) => {
+        reqCtx.setAttemptWireRequest({
+          model: typeof wire.model === "string" ? wire.model : ccPayload.model,
+          messages: Array.isArray(wire.messages) ? wire.messages : [],
+          payload: wire,
+          headers,
+          format: "openai-chat-completions",
+        })
+      },
+    }),
+  )
+
+  if (!payload.stream) {
+    return { result: translateChatCompletionToCompletion(result as ChatCompletionResponse, payload), queueWaitMs }
+  }
+  return {
+    result: translateChatStreamToCompletions(result as AsyncIterable<ServerSentEventMessage>, payload),
+    queueWaitMs,
+  }
+}
+
+function recordDroppedCompletionsParamsWarning(reqCtx: RequestContext, model: string, droppedParams: Array<string>) {
+  const message = `Completions translation dropped unsupported params: ${droppedParams.join(", ")}`
+  const alreadyRecorded = reqCtx.warningMessages.some(
+    (warning) => warning.code === DROPPED_COMPLETIONS_PARAMS_WARNING_CODE && warning.message === message,
+  )
+  if (alreadyRecorded) return
+
+  consola.warn(`[Completions→CC] model=${model} ${message}`)
+  reqCtx.addWarningMessage({ code: DROPPED_COMPLETIONS_PARAMS_WARNING_CODE, message })
+}
+
+interface CompletionSummary {
+  model: string
+  text: string
+  finishReason: string | null | undefined
+  inputTokens: number
+  outputTokens: number
+}
+
+/** History records the first choice's text as the assistant message */
+function buildCompletionResponseData(summary: CompletionSummary): ResponseData {
+  return {
+    success: true,
+    model: summary.model,
+    usage: { input_tokens: summary.inputTokens, output_tokens: summary.outputTokens },
+    stop_reason: summary.finishReason ?? undefined,
+    content: { role: "assistant", content: summary.text },
+  }
+}
+
+/** Options for handleStreamingResponse */
+interface StreamingOptions {
+  stream: SSEStreamingApi
+  response: AsyncIterable<ServerSentEventMessage>
+  model: string
+  reqCtx: RequestContext
+  /** Abort signal that fires when the downstream client disconnects */
+  clientAbortSignal?: AbortSignal
+  /** Resends the request with a nudge when the repetition policy is `abort-and-retry` */
+  repetitionRetry?: () => Promise<AsyncIterable<ServerSentEventMessage>>
+}
+
+async function handleStreamingResponse(opts: StreamingOptions) {
+  const { stream, reqCtx, clientAbortSignal } = opts
+  const response = guardStreamRepetition(opts.response, {
+    reqCtx,
+    format: createCompletionsRepetitionFormat(),
+    retry: opts.repetitionRetry,
+  })
+  const acc: CompletionSummary = { model: "", text: "", finishReason: undefined, inputTokens: 0, outputTokens: 0 }
+  const idleTimeoutMs = state.streamIdleTimeout * 1000
+
+  // Streaming metrics for TUI footer
+  let bytesIn = 0
+  let eventsIn = 0
+
+  try {
+    const iterator = response[Symbol.asyncIterator]()
+
+    for (;;) {
+      const abortSignal = combineAbortSignals(getShutdownSignal(), clientAbortSignal)
+      const result = await raceIteratorNext(iterator.next(), { idleTimeoutMs, abortSignal })
+
+      if (result === STREAM_ABORTED) break
+      if (result.done) break
+
+      const rawEvent = result.value
+
+      bytesIn += rawEvent.data?.length ?? 0
+      eventsIn++
+
+      if (reqCtx.tuiLogId) {
+        tuiLogger.updateRequest(reqCtx.tuiLogId, { streamBytesIn: bytesIn, streamEventsIn: eventsIn })
+      }
+
+      // Accumulate the first choice for history (skip [DONE] and empty data)
+      if (rawEvent.data && rawEvent.data !== "[DONE]") {
+        try {
+          const chunk = JSON.parse(rawEvent.data) as CompletionChunk
+          if (chunk.model && !acc.model) acc.model = chunk.model
+          if (chunk.usage) {
+            acc.inputTokens = chunk.usage.prompt_tokens
+            acc.outputTokens = chunk.usage.completion_tokens
+          }
+          for (const choice of chunk.choices) {
+            if (choice.index !== 0) continue
+            acc.text += choice.text
+            if (choice.finish_reason) acc.finishReason = choice.finish_reason
+          }
+        } catch {
+          // Ignore parse errors
+        }
+      }
+
+      // Legacy clients expect unnamed events
+      await stream.writeSSE({ data: rawEvent.data ?? "" })
+    }
+
+    reqCtx.complete(buildCompletionResponseData({ ...acc, model: acc.model || opts.model }))
+  } catch (error) {
+    consola.error("[Completions] Stream error:", error)
+    reqCtx.fail(acc.model || opts.model, error)
+
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    await stream.writeSSE({
+      data: JSON.stringify({
+        error: {
+          message: errorMessage,
+          type: error instanceof StreamIdleTimeoutError ? "timeout_error" : "server_error",
+        },
+      }),
+      event: "error",
+    })
+  }
+}
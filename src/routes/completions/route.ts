@@ -0,0 +1,15 @@
+import { Hono } from "hono"
+
+import { forwardError } from "~/lib/error"
+
+import { handleCompletion } from "./handler"
+
+export const completionRoutes = new Hono()
+
+completionRoutes.post("/", async (c) => {
+  try {
+    return await handleCompletion(c)
+  } catch (error) {
+    return forwardError(c, error)
+  }
+})
@@ -24,6 +24,9 @@ configRoutes.get("/", (c) => {
     // ─── Anthropic pipeline ───
     autoTruncate: state.autoTruncate,
     compressToolResultsBeforeTruncate: state.compressToolResultsBeforeTruncate,
+    autoTruncateMode: state.autoTruncateMode,
+    autoTruncateSummaryModel: state.autoTruncateSummaryModel,
+    autoTruncateSummaryMaxTokens: state.autoTruncateSummaryMaxTokens,
     stripServerTools: state.stripServerTools,
     immutableThinkingMessages: state.immutableThinkingMessages,
     dedupToolCalls: state.dedupToolCalls,
@@ -41,6 +44,9 @@ configRoutes.get("/", (c) => {
     // ─── OpenAI Responses ───
     normalizeResponsesCallIds: state.normalizeResponsesCallIds,
     upstreamWebSocket: state.upstreamWebSocket,
+    responsesLocalStore: state.responsesLocalStore,
+    responsesStoreMaxEntries: state.responsesStoreMaxEntries,
+    responsesStoreTtl: state.responsesStoreTtl,
 
     // ─── Timeouts ───
     fetchTimeout: state.fetchTimeout,
@@ -55,9 +61,35 @@ configRoutes.get("/", (c) => {
     // ─── History ───
     historyLimit: state.historyLimit,
     historyMinEntries: state.historyMinEntries,
+    historyRetentionDays: state.historyRetentionDays,
+    historyMaxDiskMb: state.historyMaxDiskMb,
+
+    // ─── Response cache ───
+    responseCacheEnabled: state.responseCacheEnabled,
+    responseCacheTtl: state.responseCacheTtl,
+    responseCacheMaxEntries: state.responseCacheMaxEntries,
+
+    // ─── Repetition detector ───
+    repetitionPolicy: state.repetitionPolicy,
+    repetitionMinPatternLength: state.repetitionMinPatternLength,
+    repetitionMinRepetitions: state.repetitionMinRepetitions,
 
     // ─── Model overrides ───
     modelOverrides: state.modelOverrides,
+    modelFallbacks: state.modelFallbacks,
+
+    // ─── Auth (labels and policies only — never the secrets) ───
+    apiKeys: state.apiKeys.map((policy) => ({
+      label: policy.label,
+      allowedModels: policy.allowedModels ?? null,
+    })),
+
+    // ─── Redaction (detector ids and modes) ───
+    redactionRules: state.redactionRules.map((rule) => ({ id: rule.id, mode: rule.mode })),
+
+    // ─── Budgets ───
+    budgetRules: state.budgetRules,
+    budgetTrustForwardedFor: state.budgetTrustForwardedFor,
 
     // ─── Rate limiter (config snapshot, not live state) ───
     rateLimiter: state.adaptiveRateLimitConfig ?? null,
@@ -66,7 +98,8 @@ configRoutes.get("/", (c) => {
 
 configRoutes.get("/yaml", async (c) => {
   try {
-    const config = await loadRawConfigFile()
+    // `auth` and `account_pool` are not editable from the UI and hold secrets — keep them out of the response
+    const { auth: _auth, account_pool: _accountPool, ...config } = await loadRawConfigFile()
     return c.json(config)
   } catch (error) {
     const message = error instanceof Error ? error.message : "Failed to read config.yaml"
@@ -115,7 +148,7 @@ configRoutes.put("/yaml", async (c) => {
   resetConfigManagedState()
   await applyConfigToState()
 
-  const saved = await loadRawConfigFile()
+  const { auth: _auth, account_pool: _accountPool, ...saved } = await loadRawConfigFile()
   return c.json(saved)
 })
 
@@ -147,16 +180,21 @@ type ValidationResult = { valid: true; value: Config } | { valid: false; details
 const TOP_LEVEL_KEYS = new Set([
   "proxy",
   "model_overrides",
+  "model_fallbacks",
+  "model_limits",
   "stream_idle_timeout",
   "fetch_timeout",
   "stale_request_max_age",
   "model_refresh_interval",
   "shutdown",
   "history",
+  "response_cache",
+  "repetition_detector",
   "anthropic",
   "openai-responses",
   "rate_limiter",
   "compress_tool_results_before_truncate",
+  "auto_truncate",
   "system_prompt_overrides",
   "system_prompt_prepend",
   "system_prompt_append",
@@ -179,8 +217,17 @@ const ANTHROPIC_KEYS = new Set([
 ])
 
 const SHUTDOWN_KEYS = new Set(["graceful_wait", "abort_wait"])
-const HISTORY_KEYS = new Set(["limit", "min_entries"])
-const RESPONSES_KEYS = new Set(["normalize_call_ids", "upstream_websocket"])
+const HISTORY_KEYS = new Set(["limit", "min_entries", "persist", "retention_days", "max_disk_mb"])
+const RESPONSE_CACHE_KEYS = new Set(["enabled", "ttl_seconds", "max_entries"])
+const AUTO_TRUNCATE_KEYS = new Set(["mode", "summary_model", "summary_max_tokens"])
+const REPETITION_DETECTOR_KEYS = new Set(["policy", "min_pattern_length", "min_repetitions"])
+const RESPONSES_KEYS = new Set([
+  "normalize_call_ids",
+  "upstream_websocket",
+  "local_store",
+  "store_max_entries",
+  "store_ttl_seconds",
+])
 const RATE_LIMITER_KEYS = new Set(["retry_interval", "request_interval", "recovery_timeout", "consecutive_successes"])
 const ANTHROPIC_COLLECTION_KEYS = new Set(["rewrite_system_reminders", "non_deferred_tools"])
 
@@ -203,6 +250,12 @@ function validateConfigBody(input: unknown): ValidationResult {
   if (hasOwn(body, "model_overrides")) {
     validateStringMap(body.model_overrides, "model_overrides", details)
   }
+  if (hasOwn(body, "model_fallbacks")) {
+    validateFallbackChains(body.model_fallbacks, "model_fallbacks", details)
+  }
+  if (hasOwn(body, "model_limits")) {
+    validateModelLimits(body.model_limits, "model_limits", details)
+  }
   if (hasOwn(body, "stream_idle_timeout"))
     validateNonNegativeInteger(body.stream_idle_timeout, "stream_idle_timeout", details)
   if (hasOwn(body, "fetch_timeout")) validateNonNegativeInteger(body.fetch_timeout, "fetch_timeout", details)
@@ -212,6 +265,13 @@ function validateConfigBody(input: unknown): ValidationResult {
     validateNonNegativeInteger(body.model_refresh_interval, "model_refresh_interval", details)
   if (hasOwn(body, "compress_tool_results_before_truncate"))
     validateBoolean(body.compress_tool_results_before_truncate, "compress_tool_results_before_truncate", details)
+  if (hasOwn(body, "auto_truncate")) {
+    validateNestedObject(body.auto_truncate, "auto_truncate", AUTO_TRUNCATE_KEYS, details, (value, path) => {
+      if (path === "auto_truncate.mode") validateEnum(value, path, new Set(["truncate", "summarize"]), details)
+      else if (path === "auto_truncate.summary_model") validateOptionalString(value, path, details)
+      else validateNonNegativeInteger(value, path, details)
+    })
+  }
   if (hasOwn(body, "system_prompt_prepend"))
     validateOptionalString(body.system_prompt_prepend, "system_prompt_prepend", details)
   if (hasOwn(body, "system_prompt_append"))
@@ -225,14 +285,36 @@ function validateConfigBody(input: unknown): ValidationResult {
     )
   }
   if (hasOwn(body, "history")) {
-    validateNestedObject(body.history, "history", HISTORY_KEYS, details, (value, path) =>
-      validateNonNegativeInteger(value, path, details),
+    validateNestedObject(body.history, "history", HISTORY_KEYS, details, (value, path) => {
+      if (path === "history.persist") validateBoolean(value, path, details)
+      else validateNonNegativeInteger(value, path, details)
+    })
+  }
+  if (hasOwn(body, "response_cache")) {
+    validateNestedObject(body.response_cache, "response_cache", RESPONSE_CACHE_KEYS, details, (value, path) => {
+      if (path === "response_cache.enabled") validateBoolean(value, path, details)
+      else validateNonNegativeInteger(value, path, details)
+    })
+  }
+  if (hasOwn(body, "repetition_detector")) {
+    validateNestedObject(
+      body.repetition_detector,
+      "repetition_detector",
+      REPETITION_DETECTOR_KEYS,
+      details,
+      (value, path) => {
+        if (path === "repetition_detector.policy") {
+          validateEnum(value, path, new Set(["warn", "abort", "abort-and-retry"]), details)
+        } else validateNonNegativeInteger(value, path, details)
+      },
     )
   }
   if (hasOwn(body, "openai-responses")) {
-    validateNestedObject(body["openai-responses"], "openai-responses", RESPONSES_KEYS, details, (value, path) =>
-      validateBoolean(value, path, details),
-    )
+    validateNestedObject(body["openai-responses"], "openai-responses", RESPONSES_KEYS, details, (value, path) => {
+      if (path === "openai-responses.store_max_entries" || path === "openai-responses.store_ttl_seconds") {
+        validateNonNegativeInteger(value, path, details)
+      } else validateBoolean(value, path, details)
+    })
   }
   if (hasOwn(body, "rate_limiter")) {
     validateNestedObject(body.rate_limiter, "rate_limiter", RATE_LIMITER_KEYS, details, (value, path) =>
@@ -365,6 +447,42 @@ function validateStringMap(value: unknown, field: string, details: Array<ConfigV
   }
 }
 
+function validateFallbackChains(value: unknown, field: string, details: Array<ConfigValidationDetail>): void {
+  if (value === null) return
+  if (!isPlainObject(value)) {
+    pushDetail(details, field, "Must be an object or null", value)
+    return
+  }
+
+  for (const [key, chain] of Object.entries(value)) {
+    if (key.trim().length === 0) {
+      pushDetail(details, `${field}.${key}`, "Fallback key must be a non-empty string", key)
+    }
+    if (!Array.isArray(chain) || chain.length === 0) {
+      pushDetail(details, `${field}.${key}`, "Fallback chain must be a non-empty array of model names", chain)
+      continue
+    }
+    validateStringArray(chain, `${field}.${key}`, details)
+  }
+}
+
+function validateModelLimits(value: unknown, field: string, details: Array<ConfigValidationDetail>): void {
+  if (value === null) return
+  if (!isPlainObject(value)) {
+    pushDetail(details, field, "Must be an object or null", value)
+    return
+  }
+
+  for (const [key, limit] of Object.entries(value)) {
+    if (key.trim().length === 0) {
+      pushDetail(details, `${field}.${key}`, "Model key must be a non-empty string", key)
+    }
+    if (!Number.isInteger(limit) || Number(limit) <= 0) {
+      pushDetail(details, `${field}.${key}`, "Token limit must be a positive integer", limit)
+    }
+  }
+}
+
 function validateStringArray(value: unknown, field: string, details: Array<ConfigValidationDetail>): void {
   if (value === null) return
   if (!Array.isArray(value)) {
@@ -541,15 +659,22 @@ function mergeConfigIntoDocument(doc: ConfigDocument, body: Config): void {
   if (hasOwn(body, "compress_tool_results_before_truncate")) {
     setScalar(doc, ["compress_tool_results_before_truncate"], body.compress_tool_results_before_truncate)
   }
+  if (hasOwn(body, "auto_truncate")) setNestedScalarContainer(doc, ["auto_truncate"], body.auto_truncate)
   if (hasOwn(body, "system_prompt_prepend")) setScalar(doc, ["system_prompt_prepend"], body.system_prompt_prepend)
   if (hasOwn(body, "system_prompt_append")) setScalar(doc, ["system_prompt_append"], body.system_prompt_append)
   if (hasOwn(body, "model_overrides")) replaceCollection(doc, ["model_overrides"], body.model_overrides)
+  if (hasOwn(body, "model_fallbacks")) replaceCollection(doc, ["model_fallbacks"], body.model_fallbacks)
+  if (hasOwn(body, "model_limits")) replaceCollection(doc, ["model_limits"], body.model_limits)
   if (hasOwn(body, "system_prompt_overrides")) {
     replaceCollection(doc, ["system_prompt_overrides"], body.system_prompt_overrides)
   }
   if (hasOwn(body, "rate_limiter")) setNestedScalarContainer(doc, ["rate_limiter"], body.rate_limiter)
   if (hasOwn(body, "shutdown")) setNestedScalarContainer(doc, ["shutdown"], body.shutdown)
   if (hasOwn(body, "history")) setNestedScalarContainer(doc, ["history"], body.history)
+  if (hasOwn(body, "response_cache")) setNestedScalarContainer(doc, ["response_cache"], body.response_cache)
+  if (hasOwn(body, "repetition_detector")) {
+    setNestedScalarContainer(doc, ["repetition_detector"], body.repetition_detector)
+  }
   if (hasOwn(body, "openai-responses")) setNestedScalarContainer(doc, ["openai-responses"], body["openai-responses"])
 
   if (hasOwn(body, "anthropic")) {
@@ -1,13 +1,18 @@
 import { Hono } from "hono"
 
+import { assertModelAllowed, getApiKeyPolicy } from "~/lib/api-key-auth"
 import { forwardError } from "~/lib/error"
+import { resolveModelName } from "~/lib/models/resolver"
 import { createEmbeddings, type EmbeddingRequest } from "~/lib/openai/embeddings"
 
 export const embeddingsRoutes = new Hono()
 
 embeddingsRoutes.post("/", async (c) => {
   try {
-    const payload = await c.req.json<EmbeddingRequest>()
+    const body = await c.req.json<EmbeddingRequest>()
+    // Resolve aliases first, so allowed_models is checked against the model actually called
+    const payload = { ...body, model: resolveModelName(body.model) }
+    assertModelAllowed(getApiKeyPolicy(c), payload.model)
     const response = await createEmbeddings(payload)
 
     return c.json(response)
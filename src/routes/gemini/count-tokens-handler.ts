@@ -0,0 +1,53 @@
+import type { Context } from "hono"
+
+import consola from "consola"
+
+import type { CountTokensRequest } from "~/types/api/gemini"
+
+import { HTTPError } from "~/lib/error"
+import { translateGeminiToChatCompletions } from "~/lib/gemini/translate"
+import { ENDPOINT } from "~/lib/models/endpoint"
+import { resolveModelName } from "~/lib/models/resolver"
+import { getTokenCount } from "~/lib/models/tokenizer"
+import { state } from "~/lib/state"
+import { tuiLogger } from "~/lib/tui"
+
+import { canServeGemini } from "./handler"
+
+/**
+ * Handles Gemini `:countTokens`.
+ *
+ * The request is translated to Chat Completions, as for generateContent, and
+ * counted locally with the model's tokenizer. Model turns count too: Gemini
+ * reports the total for everything in `contents`. The count is an estimate.
+ */
+export async function handleGeminiCountTokens(c: Context, clientModel: string) {
+  const tuiLogId = c.get("tuiLogId") as string | undefined
+  const body = await c.req.json<CountTokensRequest>()
+
+  const model = resolveModelName(clientModel)
+  if (tuiLogId) {
+    tuiLogger.updateRequest(tuiLogId, { model })
+  }
+
+  const selectedModel = state.modelIndex.get(model)
+  if (!selectedModel || !canServeGemini(selectedModel)) {
+    const msg = `Model "${model}" does not support the ${ENDPOINT.CHAT_COMPLETIONS} endpoint`
+    throw new HTTPError(msg, 400, msg)
+  }
+
+  const request = body.generateContentRequest ?? { contents: body.contents ?? [] }
+  const { payload } = translateGeminiToChatCompletions({ ...request, model, stream: false })
+  const { input, output } = await getTokenCount(payload, selectedModel)
+  const totalTokens = input + output
+
+  consola.debug(
+    `[countTokens] ${totalTokens} tokens (tokenizer: ${selectedModel.capabilities?.tokenizer ?? "o200k_base"})`,
+  )
+
+  if (tuiLogId) {
+    tuiLogger.updateRequest(tuiLogId, { inputTokens: totalTokens })
+  }
+
+  return c.json({ totalTokens })
+}
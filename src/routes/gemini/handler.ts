@@ -0,0 +1,427 @@
+/**
+ * Gemini generateContent / streamGenerateContent handler.
+ *
+ * Copilot serves Gemini (and every other chat model) through
+ * `/chat/completions`, so requests are translated to Chat Completions and the
+ * result translated back into Gemini responses or stream chunks (see
+ * ~/lib/gemini/translate). History records the request as
+ * `gemini-generate-content`, with the conversation in its translated form.
+ *
+ * Streams are sent as SSE with `?alt=sse` (what the Google GenAI SDKs
+ * request), otherwise as one JSON array written element by element.
+ */
+
+import type { ServerSentEventMessage } from "fetch-event-stream"
+import type { Context } from "hono"
+
+import consola from "consola"
+import { stream as streamBody, streamSSE } from "hono/streaming"
+
+import type { HeadersCapture, RequestContext, ResponseData } from "~/lib/context/request"
+import type { Model } from "~/lib/models/client"
+import type { FormatAdapter, RetryStrategy } from "~/lib/request/pipeline"
+import type { GeminiGenerateContentPayload, GenerateContentRequest, GenerateContentResponse } from "~/types/api/gemini"
+import type { ChatCompletionResponse, ToolCall } from "~/types/api/openai-chat-completions"
+
+import { executeWithAdaptiveRateLimit, resolveRequestPriority } from "~/lib/adaptive-rate-limiter"
+import { assertModelAllowed, getApiKeyPolicy } from "~/lib/api-key-auth"
+import { enforceBudgets, getBudgetSubjects } from "~/lib/budgets"
+import { getRequestContextManager } from "~/lib/context/manager"
+import { HTTPError } from "~/lib/error"
+import {
+  translateChatCompletionToGemini,
+  translateChatStreamToGemini,
+  translateGeminiToChatCompletions,
+} from "~/lib/gemini/translate"
+import { getSessionIdFromHeaders } from "~/lib/history/store"
+import { ENDPOINT, isEndpointSupported } from "~/lib/models/endpoint"
+import { resolveModelName } from "~/lib/models/resolver"
+import { createChatCompletions } from "~/lib/openai/chat-completions-client"
+import { applyRedactionPolicy } from "~/lib/redaction"
+import { executeRequestPipeline } from "~/lib/request/pipeline"
+import {
+  createGeminiRepetitionFormat,
+  executeRepetitionRetry,
+  guardStreamRepetition,
+  nudgeGeminiPayload,
+} from "~/lib/request/repetition-guard"
+import { createModelFallbackStrategy } from "~/lib/request/strategies/model-fallback"
+import { createNetworkRetryStrategy } from "~/lib/request/strategies/network-retry"
+import { createTokenRefreshStrategy } from "~/lib/request/strategies/token-refresh"
+import { getShutdownSignal } from "~/lib/shutdown"
+import { state } from "~/lib/state"
+import { STREAM_ABORTED, StreamIdleTimeoutError, combineAbortSignals, raceIteratorNext } from "~/lib/stream"
+import { tuiLogger } from "~/lib/tui"
+
+const DROPPED_GEMINI_PARAMS_WARNING_CODE = "gemini_to_cc_dropped_params"
+
+/** Models that can serve a Gemini request (always via chat completions) */
+export function canServeGemini(model: Model | undefined): boolean {
+  return isEndpointSupported(model, ENDPOINT.CHAT_COMPLETIONS)
+}
+
+/**
+ * Handle generateContent / streamGenerateContent. `request` is passed when
+ * replaying a history entry; otherwise the body is parsed.
+ */
+export async function handleGenerateContent(
+  c: Context,
+  clientModel: string,
+  stream: boolean,
+  request?: GenerateContentRequest,
+) {
+  const body = request ?? (await c.req.json<GenerateContentRequest>())
+  if (!Array.isArray(body.contents)) {
+    const msg = "contents must be an array"
+    throw new HTTPError(msg, 400, msg)
+  }
+
+  // Resolve model name aliases and date-suffixed versions
+  const resolvedModel = resolveModelName(clientModel)
+  if (resolvedModel !== clientModel) {
+    consola.debug(`Model name resolved: ${clientModel} → ${resolvedModel}`)
+  }
+  let originalPayload: GeminiGenerateContentPayload = { ...body, model: resolvedModel, stream }
+
+  // Enforce the inbound API key's model allowlist (before any history entry exists)
+  const apiKey = getApiKeyPolicy(c)
+  assertModelAllowed(apiKey, originalPayload.model)
+
+  const selectedModel = state.modelIndex.get(originalPayload.model)
+  if (!canServeGemini(selectedModel)) {
+    const msg = `Model "${originalPayload.model}" does not support the ${ENDPOINT.CHAT_COMPLETIONS} endpoint`
+    throw new HTTPError(msg, 400, msg)
+  }
+
+  // Rejects unsupported parts (audio, documents, executable code) before anything is recorded
+  const { payload: translated } = translateGeminiToChatCompletions(originalPayload, { model: selectedModel })
+
+  const tuiLogId = c.get("tuiLogId") as string | undefined
+
+  // Create request context — triggers "created" event → history consumer inserts entry
+  const reqCtx = getRequestContextManager().create({
+    endpoint: "gemini-generate-content",
+    sessionId: getSessionIdFromHeaders(c.req.raw.headers),
+    tuiLogId,
+    rawPath: c.req.path,
+    apiKeyLabel: apiKey?.label,
+    traceParent: c.req.header("traceparent"),
+    priority: resolveRequestPriority(c),
+  })
+  reqCtx.setOriginalRequest({
+    model: clientModel,
+    messages: translated.messages,
+    stream,
+    tools: translated.tools?.map((t) => ({ name: t.function.name, description: t.function.description })),
+    payload: originalPayload,
+  })
+
+  if (tuiLogId) {
+    tuiLogger.updateRequest(tuiLogId, {
+      model: originalPayload.model,
+      ...(clientModel !== originalPayload.model && { clientModel }),
+      tags: ["via-chat-completions"],
+    })
+  }
+
+  // Reject requests over a configured budget (reserves premium requests for this one)
+  enforceBudgets(reqCtx, getBudgetSubjects(c), originalPayload.model, translated.n)
+
+  // Mask (or reject) secrets in the prompt before any further processing
+  originalPayload = applyRedactionPolicy(reqCtx, originalPayload)
+
+  const headersCapture: HeadersCapture = {}
+  const adapter: FormatAdapter<GeminiGenerateContentPayload> = {
+    format: "gemini-generate-content",
+    // Contents are translated as-is; there are no Anthropic-style reminders or orphan blocks to strip
+    sanitize: (p) => ({ payload: p, blocksRemoved: 0, systemReminderRemovals: 0 }),
+    execute: (p, model) => executeViaChatCompletions(p, model, reqCtx, headersCapture),
+    logPayloadSize: () => {},
+  }
+
+  const strategies: Array<RetryStrategy<GeminiGenerateContentPayload>> = [
+    createNetworkRetryStrategy<GeminiGenerateContentPayload>(),
+    createTokenRefreshStrategy<GeminiGenerateContentPayload>(),
+    createModelFallbackStrategy<GeminiGenerateContentPayload>({ isSupported: canServeGemini, label: "Gemini" }),
+  ]
+
+  try {
+    const result = await executeRequestPipeline({
+      adapter,
+      strategies,
+      payload: originalPayload,
+      originalPayload,
+      model: selectedModel,
+      requestContext: reqCtx,
+    })
+
+    reqCtx.setHttpHeaders(headersCapture)
+
+    const response = result.response as GenerateContentResponse | AsyncIterable<ServerSentEventMessage>
+    const model = (result.effectivePayload as GeminiGenerateContentPayload).model
+
+    if (!isStream(response)) {
+      const acc = createGeminiSummary()
+      accumulateGeminiResponse(acc, response)
+      reqCtx.complete(buildGeminiResponseData({ ...acc, model: acc.model || model }))
+      return c.json(response)
+    }
+
+    consola.debug("Streaming response")
+    reqCtx.transition("streaming")
+
+    const streamOptions = {
+      response,
+      model,
+      reqCtx,
+      repetitionRetry: () =>
+        executeRepetitionRetry({
+          adapter,
+          payload: nudgeGeminiPayload(result.requestPayload as GeminiGenerateContentPayload),
+          model: result.model,
+          reqCtx,
+        }),
+    }
+
+    if (c.req.query("alt") === "sse") {
+      return streamSSE(c, async (sse) => {
+        const clientAbort = new AbortController()
+        sse.onAbort(() => clientAbort.abort())
+
+        await handleStreamingResponse({
+          ...streamOptions,
+          clientAbortSignal: clientAbort.signal,
+          send: (data) => sse.writeSSE({ data }),
+          end: () => Promise.resolve(),
+        })
+      })
+    }
+
+    c.header("Content-Type", "application/json")
+    return streamBody(c, async (out) => {
+      const clientAbort = new AbortController()
+      out.onAbort(() => clientAbort.abort())
+
+      let separator = "["
+      await handleStreamingResponse({
+        ...streamOptions,
+        clientAbortSignal: clientAbort.signal,
+        send: async (data) => {
+          await out.write(`${separator}${data}`)
+          separator = ",\r\n"
+        },
+        end: async () => {
+          await out.write(separator === "[" ? "[]" : "]")
+        },
+      })
+    })
+  } catch (error) {
+    reqCtx.setHttpHeaders(headersCapture)
+    reqCtx.fail(originalPayload.model, error)
+    throw error
+  }
+}
+
+async function executeViaChatCompletions(
+  payload: GeminiGenerateContentPayload,
+  model: Model | undefined,
+  reqCtx: RequestContext,
+  headersCapture: HeadersCapture,
+) {
+  const { payload: ccPayload, droppedParams } = translateGeminiToChatCompletions(payload, { model })
+  if (droppedParams.length > 0) {
+    recordDroppedGeminiParamsWarning(reqCtx, payload.model, droppedParams)
+  }
+
+  const { result, queueWaitMs } = await executeWithAdaptiveRateLimit(() =>
+    createChatCompletions(ccPayload, {
+      resolvedModel: model,
+      headersCapture,
+      onPrepared: ({ wire, headers }) => {
+        reqCtx.setAttemptWireRequest({
+          model: wire.model,
+          messages: wire.messages,
+          payload: wire,
+          headers,
+          format: "openai-chat-completions",
+        })
+      },
+    }),
+  )
+
+  if (!payload.stream) {
+    return { result: translateChatCompletionToGemini(result as ChatCompletionResponse), queueWaitMs }
+  }
+  return { result: translateChatStreamToGemini(result as AsyncIterable<ServerSentEventMessage>), queueWaitMs }
+}
+
+/** Record each distinct set of dropped params once per request (retries translate again) */
+function recordDroppedGeminiParamsWarning(reqCtx: RequestContext, model: string, droppedParams: Array<string>) {
+  const message = `Gemini translation dropped unsupported params: ${droppedParams.join(", ")}`
+  const alreadyRecorded = reqCtx.warningMessages.some(
+    (warning) => warning.code === DROPPED_GEMINI_PARAMS_WARNING_CODE && warning.message === message,
+  )
+  if (alreadyRecorded) return
+
+  consola.warn(`[Gemini→CC] model=${model} ${message}`)
+  reqCtx.addWarningMessage({ code: DROPPED_GEMINI_PARAMS_WARNING_CODE, message })
+}
+
+function isStream(
+  response: GenerateContentResponse | AsyncIterable<ServerSentEventMessage>,
+): response is AsyncIterable<ServerSentEventMessage> {
+  return Symbol.asyncIterator in response
+}
+
+// ============================================================================
+// History
+// ============================================================================
+
+interface GeminiSummary {
+  model: string
+  text: string
+  toolCalls: Array<ToolCall>
+  finishReason: string | undefined
+  inputTokens: number
+  outputTokens: number
+  cachedTokens: number | undefined
+}
+
+function createGeminiSummary(): GeminiSummary {
+  return {
+    model: "",
+    text: "",
+    toolCalls: [],
+    finishReason: undefined,
+    inputTokens: 0,
+    outputTokens: 0,
+    cachedTokens: undefined,
+  }
+}
+
+/** Fold a response (or one stream chunk) into the summary; only the first candidate is recorded */
+function accumulateGeminiResponse(acc: GeminiSummary, response: GenerateContentResponse) {
+  if (response.modelVersion && !acc.model) acc.model = response.modelVersion
+  if (response.usageMetadata) {
+    acc.inputTokens = response.usageMetadata.promptTokenCount
+    acc.outputTokens = response.usageMetadata.candidatesTokenCount
+    acc.cachedTokens = response.usageMetadata.cachedContentTokenCount
+  }
+
+  const candidate = response.candidates?.find((c) => c.index === 0)
+  if (!candidate) return
+  for (const part of candidate.content.parts) {
+    if (part.functionCall) {
+      acc.toolCalls.push({
+        id: part.functionCall.id ?? `call_${acc.toolCalls.length}`,
+        type: "function",
+        function: { name: part.functionCall.name, arguments: JSON.stringify(part.functionCall.args ?? {}) },
+      })
+    } else if (part.text && !part.thought) {
+      acc.text += part.text
+    }
+  }
+  if (candidate.finishReason) acc.finishReason = candidate.finishReason
+}
+
+/** History records the first candidate as a Chat Completions assistant message */
+function buildGeminiResponseData(summary: GeminiSummary): ResponseData {
+  return {
+    success: true,
+    model: summary.model,
+    usage: {
+      input_tokens: summary.inputTokens,
+      output_tokens: summary.outputTokens,
+      ...(summary.cachedTokens !== undefined && { cache_read_input_tokens: summary.cachedTokens }),
+    },
+    stop_reason: summary.finishReason,
+    content: {
+      role: "assistant",
+      content: summary.text || null,
+      ...(summary.toolCalls.length > 0 && { tool_calls: summary.toolCalls }),
+    },
+  }
+}
+
+// ============================================================================
+// Streaming
+// ============================================================================
+
+/** Options for handleStreamingResponse */
+interface StreamingOptions {
+  response: AsyncIterable<ServerSentEventMessage>
+  model: string
+  reqCtx: RequestContext
+  /** Write one serialized chunk in the client's stream framing */
+  send: (data: string) => Promise<void>
+  /** Close the framing (the JSON array's closing bracket) */
+  end: () => Promise<void>
+  /** Abort signal that fires when the downstream client disconnects */
+  clientAbortSignal?: AbortSignal
+  /** Resends the request with a nudge when the repetition policy is `abort-and-retry` */
+  repetitionRetry?: () => Promise<AsyncIterable<ServerSentEventMessage>>
+}
+
+async function handleStreamingResponse(opts: StreamingOptions) {
+  const { reqCtx, clientAbortSignal } = opts
+  const response = guardStreamRepetition(opts.response, {
+    reqCtx,
+    format: createGeminiRepetitionFormat(),
+    retry: opts.repetitionRetry,
+  })
+  const acc = createGeminiSummary()
+  const idleTimeoutMs = state.streamIdleTimeout * 1000
+
+  // Streaming metrics for TUI footer
+  let bytesIn = 0
+  let eventsIn = 0
+
+  try {
+    const iterator = response[Symbol.asyncIterator]()
+
+    for (;;) {
+      const abortSignal = combineAbortSignals(getShutdownSignal(), clientAbortSignal)
+      const result = await raceIteratorNext(iterator.next(), { idleTimeoutMs, abortSignal })
+
+      if (result === STREAM_ABORTED) break
+      if (result.done) break
+
+      const rawEvent = result.value
+      if (!rawEvent.data) continue
+
+      bytesIn += rawEvent.data.length
+      eventsIn++
+
+      if (reqCtx.tuiLogId) {
+        tuiLogger.updateRequest(reqCtx.tuiLogId, { streamBytesIn: bytesIn, streamEventsIn: eventsIn })
+      }
+
+      try {
+        accumulateGeminiResponse(acc, JSON.parse(rawEvent.data) as GenerateContentResponse)
+      } catch {
+        // Ignore parse errors
+      }
+
+      await opts.send(rawEvent.data)
+    }
+
+    reqCtx.complete(buildGeminiResponseData({ ...acc, model: acc.model || opts.model }))
+  } catch (error) {
+    consola.error("[Gemini] Stream error:", error)
+    reqCtx.fail(acc.model || opts.model, error)
+
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    const timedOut = error instanceof StreamIdleTimeoutError
+    await opts.send(
+      JSON.stringify({
+        error: {
+          code: timedOut ? 504 : 500,
+          message: errorMessage,
+          status: timedOut ? "DEADLINE_EXCEEDED" : "INTERNAL",
+        },
+      }),
+    )
+  }
+
+  await opts.end()
+}
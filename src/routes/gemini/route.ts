@@ -0,0 +1,40 @@
+import { Hono } from "hono"
+
+import { HTTPError, forwardError } from "~/lib/error"
+
+import { handleGeminiCountTokens } from "./count-tokens-handler"
+import { handleGenerateContent } from "./handler"
+
+export const geminiRoutes = new Hono()
+
+/** Gemini addresses methods as `/models/{model}:{method}` */
+geminiRoutes.post("/:target", async (c) => {
+  try {
+    const target = c.req.param("target")
+    const separator = target.lastIndexOf(":")
+    const model = target.slice(0, separator)
+    const method = target.slice(separator + 1)
+
+    if (separator > 0) {
+      switch (method) {
+        case "generateContent": {
+          return await handleGenerateContent(c, model, false)
+        }
+        case "streamGenerateContent": {
+          return await handleGenerateContent(c, model, true)
+        }
+        case "countTokens": {
+          return await handleGeminiCountTokens(c, model)
+        }
+        default: {
+          break
+        }
+      }
+    }
+
+    const msg = `Unsupported Gemini method: ${target}`
+    throw new HTTPError(msg, 404, msg)
+  } catch (error) {
+    return forwardError(c, error)
+  }
+})
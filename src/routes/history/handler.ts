@@ -3,7 +3,9 @@ import type { Context } from "hono"
 import {
   clearHistory,
   deleteSession,
+  exportEntryTranscript,
   exportHistory,
+  exportSessionTranscript,
   getEntry,
   getHistorySummaries,
   getSession,
@@ -11,8 +13,11 @@ import {
   getSessions,
   getStats,
   isHistoryEnabled,
+  isTranscriptFormat,
+  TRANSCRIPT_FORMATS,
   type EndpointType,
   type QueryOptions,
+  type TranscriptFormat,
 } from "~/lib/history"
 
 export function handleGetEntries(c: Context) {
@@ -93,6 +98,41 @@ export function handleExport(c: Context) {
   return c.body(data)
 }
 
+/** Transcript download: ?format=markdown (default) | html | openai-jsonl | anthropic-jsonl */
+function parseTranscriptFormat(c: Context): TranscriptFormat | undefined {
+  const format = c.req.query("format") || "markdown"
+  return isTranscriptFormat(format) ? format : undefined
+}
+
+function sendTranscript(c: Context, data: string, format: TranscriptFormat, name: string) {
+  const { contentType, extension } = TRANSCRIPT_FORMATS[format]
+  const filename = `${name.replaceAll(/[^\w.-]/g, "_")}.${extension}`
+  c.header("Content-Type", contentType)
+  c.header("Content-Disposition", `attachment; filename=${filename}`)
+  return c.body(data)
+}
+
+const TRANSCRIPT_FORMAT_ERROR = `format must be one of: ${Object.keys(TRANSCRIPT_FORMATS).join(", ")}`
+
+export function handleExportEntry(c: Context) {
+  if (!isHistoryEnabled()) {
+    return c.json({ error: "History recording is not enabled" }, 400)
+  }
+
+  const format = parseTranscriptFormat(c)
+  if (!format) {
+    return c.json({ error: TRANSCRIPT_FORMAT_ERROR }, 400)
+  }
+
+  const id = c.req.param("id")
+  const data = id ? exportEntryTranscript(id, format) : undefined
+  if (!id || data === undefined) {
+    return c.json({ error: "Entry not found" }, 404)
+  }
+
+  return sendTranscript(c, data, format, `entry-${id}`)
+}
+
 /** Session management endpoints */
 export function handleGetSessions(c: Context) {
   if (!isHistoryEnabled()) {
@@ -148,3 +188,22 @@ export function handleDeleteSession(c: Context) {
 
   return c.json({ success: true, message: "Session deleted" })
 }
+
+export function handleExportSession(c: Context) {
+  if (!isHistoryEnabled()) {
+    return c.json({ error: "History recording is not enabled" }, 400)
+  }
+
+  const format = parseTranscriptFormat(c)
+  if (!format) {
+    return c.json({ error: TRANSCRIPT_FORMAT_ERROR }, 400)
+  }
+
+  const id = c.req.param("id")
+  const data = id ? exportSessionTranscript(id, format) : undefined
+  if (!id || data === undefined) {
+    return c.json({ error: "Session not found" }, 404)
+  }
+
+  return sendTranscript(c, data, format, `session-${id}`)
+}
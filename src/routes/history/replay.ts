@@ -0,0 +1,126 @@
+/**
+ * POST /history/api/entries/:id/replay — re-run a recorded request.
+ *
+ * The entry's original (client) or effective (last executed) payload goes
+ * through the route handler for its format with the caller's context, so the
+ * replay gets model resolution, budgets, redaction and history like any other
+ * request. The response is the new history entry, linked to the source via
+ * `replayOf`.
+ */
+
+import type { Context } from "hono"
+
+import type { MessagesPayload } from "~/types/api/anthropic"
+import type { GeminiGenerateContentPayload } from "~/types/api/gemini"
+import type { ChatCompletionsPayload } from "~/types/api/openai-chat-completions"
+import type { CompletionsPayload } from "~/types/api/openai-completions"
+import type { ResponsesPayload } from "~/types/api/openai-responses"
+
+import { forwardError } from "~/lib/error"
+import { type EndpointType, type ReplayOverrides, type ReplaySource, getEntry, isHistoryEnabled } from "~/lib/history"
+import { type ReplayScope, applyReplayOverrides, getReplayPayload, runAsReplay } from "~/lib/history/replay"
+import { handleChatCompletion } from "~/routes/chat-completions/handler"
+import { handleCompletion } from "~/routes/completions/handler"
+import { handleGenerateContent } from "~/routes/gemini/handler"
+import { handleMessages } from "~/routes/messages/handler"
+import { handleResponses } from "~/routes/responses/handler"
+
+type ReplayHandler = (c: Context, payload: Record<string, unknown>) => Promise<Response>
+
+const REPLAY_HANDLERS: Record<EndpointType, ReplayHandler> = {
+  "anthropic-messages": (c, payload) => handleMessages(c, payload as unknown as MessagesPayload),
+  "openai-chat-completions": (c, payload) => handleChatCompletion(c, payload as unknown as ChatCompletionsPayload),
+  "openai-completions": (c, payload) => handleCompletion(c, payload as unknown as CompletionsPayload),
+  "openai-responses": (c, payload) => handleResponses(c, payload as unknown as ResponsesPayload),
+  "gemini-generate-content": (c, payload) => {
+    // The recorded payload carries the model and stream flag Gemini puts in the URL
+    const { model, stream, ...request } = payload as unknown as GeminiGenerateContentPayload
+    return handleGenerateContent(c, model, stream, request)
+  },
+}
+
+interface ReplayRequest {
+  source: ReplaySource
+  overrides: ReplayOverrides
+}
+
+export async function handleReplayEntry(c: Context) {
+  if (!isHistoryEnabled()) {
+    return c.json({ error: "History recording is not enabled" }, 400)
+  }
+
+  const id = c.req.param("id")
+  const entry = id ? getEntry(id) : undefined
+  if (!id || !entry) {
+    return c.json({ error: "Entry not found" }, 404)
+  }
+
+  const parsed = parseReplayRequest(await c.req.text())
+  if ("error" in parsed) {
+    return c.json({ error: parsed.error }, 400)
+  }
+
+  const source = getReplayPayload(entry, parsed.source)
+  if (!source) {
+    return c.json({ error: `Entry has no ${parsed.source} payload to replay` }, 400)
+  }
+
+  const scope: ReplayScope = { sourceId: id }
+  try {
+    const payload = applyReplayOverrides(source.format, source.payload, parsed.overrides)
+    const response = await runAsReplay(scope, () => REPLAY_HANDLERS[source.format](c, payload))
+    // Read streamed bodies to the end so the new entry is complete when we return it
+    await response.arrayBuffer()
+  } catch (error) {
+    // Failures after the request was recorded are part of the replay's result
+    if (!scope.entryId) return forwardError(c, error)
+  }
+
+  const replayed = scope.entryId ? getEntry(scope.entryId) : undefined
+  if (!replayed) {
+    return c.json({ error: "Replay was not recorded" }, 500)
+  }
+  // Not c.json(): a streaming handler has already set SSE headers on the context
+  return Response.json(replayed)
+}
+
+function parseReplayRequest(text: string): ReplayRequest | { error: string } {
+  let body: unknown = {}
+  if (text.trim()) {
+    try {
+      body = JSON.parse(text)
+    } catch {
+      return { error: "Request body must be valid JSON" }
+    }
+  }
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return { error: "Request body must be a JSON object" }
+  }
+
+  const { source = "original", model, system, messages, max_tokens } = body as Record<string, unknown>
+  if (source !== "original" && source !== "effective") {
+    return { error: 'source must be "original" or "effective"' }
+  }
+  if (model !== undefined && (typeof model !== "string" || !model)) {
+    return { error: "model must be a non-empty string" }
+  }
+  if (system !== undefined && typeof system !== "string") {
+    return { error: "system must be a string" }
+  }
+  if (messages !== undefined && !Array.isArray(messages)) {
+    return { error: "messages must be an array" }
+  }
+  if (max_tokens !== undefined && (!Number.isInteger(max_tokens) || (max_tokens as number) <= 0)) {
+    return { error: "max_tokens must be a positive integer" }
+  }
+
+  return {
+    source,
+    overrides: {
+      ...(model !== undefined && { model }),
+      ...(system !== undefined && { system }),
+      ...(messages !== undefined && { messages: messages as Array<unknown> }),
+      ...(max_tokens !== undefined && { max_tokens: max_tokens as number }),
+    },
+  }
+}
@@ -4,12 +4,15 @@ import {
   handleDeleteEntries,
   handleDeleteSession,
   handleExport,
+  handleExportEntry,
+  handleExportSession,
   handleGetEntries,
   handleGetEntry,
   handleGetSession,
   handleGetSessions,
   handleGetStats,
 } from "./handler"
+import { handleReplayEntry } from "./replay"
 
 export const historyRoutes = new Hono()
 
@@ -19,6 +22,8 @@ historyRoutes.all("/", (c) => c.json({ error: "Not Found" }, 404))
 /** API endpoints */
 historyRoutes.get("/api/entries", handleGetEntries)
 historyRoutes.get("/api/entries/:id", handleGetEntry)
+historyRoutes.get("/api/entries/:id/export", handleExportEntry)
+historyRoutes.post("/api/entries/:id/replay", handleReplayEntry)
 historyRoutes.delete("/api/entries", handleDeleteEntries)
 historyRoutes.get("/api/stats", handleGetStats)
 historyRoutes.get("/api/export", handleExport)
@@ -26,4 +31,5 @@ historyRoutes.get("/api/export", handleExport)
 /** Session endpoints */
 historyRoutes.get("/api/sessions", handleGetSessions)
 historyRoutes.get("/api/sessions/:id", handleGetSession)
+historyRoutes.get("/api/sessions/:id/export", handleExportSession)
 historyRoutes.delete("/api/sessions/:id", handleDeleteSession)
@@ -10,13 +10,18 @@ import { initWebSocket } from "~/lib/ws"
 
 import { initResponsesWebSocket } from "./responses/ws"
 import { chatCompletionRoutes } from "./chat-completions/route"
+import { completionRoutes } from "./completions/route"
 import { configRoutes } from "./config/route"
 import { embeddingsRoutes } from "./embeddings/route"
 import { eventLoggingRoutes } from "./event-logging/route"
+import { geminiRoutes } from "./gemini/route"
 import { historyRoutes } from "./history/route"
+import { limitsRoutes } from "./limits/route"
 import { logsRoutes } from "./logs/route"
 import { messagesRoutes } from "./messages/route"
+import { metricsRoutes } from "./metrics/route"
 import { modelsRoutes } from "./models/route"
+import { ollamaRoutes } from "./ollama/route"
 import { responsesRoutes } from "./responses/route"
 import { statusRoutes } from "./status/route"
 import { tokenRoutes } from "./token/route"
@@ -29,12 +34,14 @@ import { type UiRoutesOptions, createUiRoutes } from "./ui/route"
 export function registerHttpRoutes(app: Hono, options: UiRoutesOptions = {}) {
   // OpenAI-compatible endpoints
   app.route("/chat/completions", chatCompletionRoutes)
+  app.route("/completions", completionRoutes)
   app.route("/models", modelsRoutes)
   app.route("/embeddings", embeddingsRoutes)
   app.route("/responses", responsesRoutes)
 
   // OpenAI-compatible with /v1 prefix
   app.route("/v1/chat/completions", chatCompletionRoutes)
+  app.route("/v1/completions", completionRoutes)
   app.route("/v1/models", modelsRoutes)
   app.route("/v1/embeddings", embeddingsRoutes)
   app.route("/v1/responses", responsesRoutes)
@@ -43,11 +50,21 @@ export function registerHttpRoutes(app: Hono, options: UiRoutesOptions = {}) {
   app.route("/v1/messages", messagesRoutes)
   app.route("/api/event_logging", eventLoggingRoutes)
 
+  // Gemini-compatible endpoints
+  app.route("/v1beta/models", geminiRoutes)
+
+  // Ollama-compatible endpoints (/api/chat, /api/generate, /api/tags, /api/show, /api/version)
+  app.route("/api", ollamaRoutes)
+
   // Management API
   app.route("/api/status", statusRoutes)
   app.route("/api/tokens", tokenRoutes)
   app.route("/api/config", configRoutes)
   app.route("/api/logs", logsRoutes)
+  app.route("/api/limits", limitsRoutes)
+
+  // Prometheus scrape target
+  app.route("/metrics", metricsRoutes)
 
   // History API and standalone Web UI entry
   app.route("/history", historyRoutes)
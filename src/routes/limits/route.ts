@@ -0,0 +1,94 @@
+/**
+ * Learned model limits — what auto-truncate knows about each model's prompt token limit
+ * and how far the GPT tokenizer estimate is off for it.
+ *
+ * GET    /           all known limits next to the limits the model catalog advertises
+ * PUT    /:model     manual override of tokenLimit / calibrationFactor, and pinning
+ * DELETE /:model     forget learned and manual values (config.yaml seeds come back)
+ *
+ * `:model` may be an alias; limits are keyed by the resolved model ID, like learning does.
+ */
+
+import { Hono } from "hono"
+
+import {
+  computeSafetyMargin,
+  getAllModelLimits,
+  getLearnedLimits,
+  type ModelLimits,
+  resetModelLimits,
+  setModelLimits,
+} from "~/lib/auto-truncate"
+import { resolveModelName } from "~/lib/models/resolver"
+import { state } from "~/lib/state"
+
+export const limitsRoutes = new Hono()
+
+function toView(model: string, limits: ModelLimits) {
+  const advertised = state.models?.data.find((m) => m.id === model)?.capabilities?.limits
+  return {
+    model,
+    ...limits,
+    source: limits.source ?? "learned",
+    pinned: limits.pinned ?? false,
+    safetyMargin: computeSafetyMargin(limits.sampleCount),
+    advertised:
+      advertised ?
+        {
+          maxContextWindowTokens: advertised.max_context_window_tokens ?? null,
+          maxPromptTokens: advertised.max_prompt_tokens ?? null,
+          maxOutputTokens: advertised.max_output_tokens ?? null,
+        }
+      : null,
+  }
+}
+
+limitsRoutes.get("/", (c) => {
+  const limits = Object.entries(getAllModelLimits())
+    .map(([model, lim]) => toView(model, lim))
+    .sort((a, b) => a.model.localeCompare(b.model))
+  return c.json({ limits })
+})
+
+limitsRoutes.put("/:model", async (c) => {
+  const model = resolveModelName(c.req.param("model"))
+  let body: unknown
+  try {
+    body = await c.req.json()
+  } catch {
+    return c.json({ error: "Request body must be valid JSON" }, 400)
+  }
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return c.json({ error: "Request body must be a JSON object" }, 400)
+  }
+
+  const { tokenLimit, calibrationFactor, pinned } = body as Record<string, unknown>
+  if (tokenLimit !== undefined && typeof tokenLimit !== "number") {
+    return c.json({ error: "tokenLimit must be a number" }, 400)
+  }
+  if (calibrationFactor !== undefined && typeof calibrationFactor !== "number") {
+    return c.json({ error: "calibrationFactor must be a number" }, 400)
+  }
+  if (pinned !== undefined && typeof pinned !== "boolean") {
+    return c.json({ error: "pinned must be a boolean" }, 400)
+  }
+  if (tokenLimit === undefined && !getLearnedLimits(model)) {
+    return c.json({ error: `No limits known for ${model}; provide tokenLimit` }, 400)
+  }
+
+  try {
+    return c.json(toView(model, setModelLimits(model, { tokenLimit, calibrationFactor, pinned })))
+  } catch (error) {
+    if (error instanceof RangeError) return c.json({ error: error.message }, 400)
+    throw error
+  }
+})
+
+limitsRoutes.delete("/:model", (c) => {
+  const model = resolveModelName(c.req.param("model"))
+  if (!resetModelLimits(model)) {
+    return c.json({ error: `No limits known for ${model}` }, 404)
+  }
+  const seeded = getLearnedLimits(model)
+  return c.json({ model, reset: true, limits: seeded ? toView(model, seeded) : null })
+})
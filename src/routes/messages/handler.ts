@@ -1,7 +1,8 @@
 /**
  * Anthropic /v1/messages route handler.
  * Parses payload, resolves model, processes system prompt,
- * and orchestrates completion (streaming / non-streaming).
+ * and orchestrates completion (streaming / non-streaming), either directly
+ * or translated through Chat Completions / Responses.
  */
 
 import type { ServerSentEventMessage } from "fetch-event-stream"
@@ -10,12 +11,15 @@ import type { Context } from "hono"
 import consola from "consola"
 import { SSEStreamingApi, streamSSE } from "hono/streaming"
 
-import type { HeadersCapture, RequestContext } from "~/lib/context/request"
+import type { HeadersCapture, RequestContext, ResponseData } from "~/lib/context/request"
 import type { MessageContent, ToolDefinition } from "~/lib/history"
 import type { PreprocessInfo, SseEventRecord } from "~/lib/history/store"
+import type { Model } from "~/lib/models/client"
 import type { MessagesPayload } from "~/types/api/anthropic"
+import type { ChatCompletionResponse, ChatCompletionsPayload } from "~/types/api/openai-chat-completions"
+import type { ResponsesResponse } from "~/types/api/openai-responses"
 
-import { executeWithAdaptiveRateLimit } from "~/lib/adaptive-rate-limiter"
+import { executeWithAdaptiveRateLimit, resolveRequestPriority } from "~/lib/adaptive-rate-limiter"
 import { type AnthropicAutoTruncateResult, autoTruncateAnthropic } from "~/lib/anthropic/auto-truncate"
 import { createAnthropicMessages, type AnthropicMessageResponse } from "~/lib/anthropic/client"
 import { buildMessageMapping } from "~/lib/anthropic/message-mapping"
@@ -31,26 +35,65 @@ import {
   logServerToolBlock,
   logServerToolBlocks,
 } from "~/lib/anthropic/server-tool-filter"
-import { processAnthropicStream, supportsDirectAnthropicApi } from "~/lib/anthropic/sse"
+import {
+  type AnthropicTranslationTarget,
+  processAnthropicStream,
+  resolveAnthropicTranslationTarget,
+  supportsDirectAnthropicApi,
+} from "~/lib/anthropic/sse"
 import { createAnthropicStreamAccumulator } from "~/lib/anthropic/stream-accumulator"
+import {
+  createMessagesStreamTranslator,
+  translateChatCompletionsStream,
+  translateChatCompletionToMessage,
+  translateMessagesToChatCompletions,
+} from "~/lib/anthropic/translate"
+import { assertModelAllowed, getApiKeyPolicy } from "~/lib/api-key-auth"
 import { MAX_AUTO_TRUNCATE_RETRIES } from "~/lib/auto-truncate"
+import { enforceBudgets, getBudgetSubjects } from "~/lib/budgets"
 import { getRequestContextManager } from "~/lib/context/manager"
 import { HTTPError } from "~/lib/error"
 import { getSessionIdFromHeaders } from "~/lib/history/store"
 import { resolveModelName } from "~/lib/models/resolver"
-import { createStreamRepetitionChecker } from "~/lib/repetition-detector"
+import { createChatCompletions } from "~/lib/openai/chat-completions-client"
+import { createResponses } from "~/lib/openai/responses-client"
+import {
+  createStreamTranslator,
+  enforceStopSequences,
+  translateChatCompletionsToResponses,
+  translateResponsesResponseToCC,
+  translateResponsesStream,
+} from "~/lib/openai/translate"
+import { applyRedactionPolicy } from "~/lib/redaction"
 import { buildAnthropicResponseData, createTruncationMarker, prependMarkerToResponse } from "~/lib/request"
 import { logPayloadSizeInfoAnthropic } from "~/lib/request/payload"
 import { executeRequestPipeline, type FormatAdapter } from "~/lib/request/pipeline"
+import {
+  createAnthropicRepetitionFormat,
+  executeRepetitionRetry,
+  guardStreamRepetition,
+  nudgeMessagesPayload,
+  wasRepetitionDetected,
+} from "~/lib/request/repetition-guard"
 import { createAutoTruncateStrategy, type TruncateResult } from "~/lib/request/strategies/auto-truncate"
 import { createContextManagementRetryStrategy } from "~/lib/request/strategies/context-management-retry"
 import { createDeferredToolRetryStrategy } from "~/lib/request/strategies/deferred-tool-retry"
+import { createModelFallbackStrategy } from "~/lib/request/strategies/model-fallback"
 import { createNetworkRetryStrategy } from "~/lib/request/strategies/network-retry"
 import { createTokenRefreshStrategy } from "~/lib/request/strategies/token-refresh"
+import {
+  createSseRecorder,
+  lookupCachedResponse,
+  replayCachedResponse,
+  resolveResponseCacheKey,
+  storeCachedResponse,
+} from "~/lib/response-cache"
 import { state } from "~/lib/state"
 import { StreamIdleTimeoutError } from "~/lib/stream"
 import { processAnthropicSystem } from "~/lib/system-prompt"
+import { withRequestSpan } from "~/lib/tracing"
 import { tuiLogger } from "~/lib/tui"
+import { extractInputItems, normalizeCallIds } from "~/routes/responses/pipeline"
 
 // ============================================================================
 // Main entry point — Anthropic /v1/messages completion
@@ -59,10 +102,13 @@ import { tuiLogger } from "~/lib/tui"
 /**
  * Handle an Anthropic /v1/messages request.
  * Parses payload, resolves model name, processes system prompt,
- * creates RequestContext, and routes to direct Anthropic API.
+ * creates RequestContext, and routes to direct Anthropic API — or, for models
+ * without native /v1/messages support, to the translated Chat Completions /
+ * Responses path. `payload` is passed when replaying a history entry;
+ * otherwise the body is parsed.
  */
-export async function handleMessages(c: Context) {
-  const anthropicPayload = await c.req.json<MessagesPayload>()
+export async function handleMessages(c: Context, payload?: MessagesPayload) {
+  let anthropicPayload = payload ?? (await c.req.json<MessagesPayload>())
 
   // Resolve model name aliases and date-suffixed versions
   // e.g., "haiku" → "claude-haiku-4.5", "claude-sonnet-4-20250514" → "claude-sonnet-4"
@@ -74,6 +120,10 @@ export async function handleMessages(c: Context) {
   }
   const clientModelName = clientModel !== resolvedModel ? clientModel : undefined
 
+  // Enforce the inbound API key's model allowlist
+  const apiKey = getApiKeyPolicy(c)
+  assertModelAllowed(apiKey, anthropicPayload.model)
+
   // System prompt collection + config-based overrides (always active)
   if (anthropicPayload.system) {
     anthropicPayload.system = await processAnthropicSystem(anthropicPayload.system, anthropicPayload.model)
@@ -86,11 +136,16 @@ export async function handleMessages(c: Context) {
   // when routing fails (reqCtx.create() triggers history insertion, and a subsequent throw
   // without reqCtx.fail() would leave an entry with no response)
   const routingDecision = supportsDirectAnthropicApi(anthropicPayload.model)
-  if (!routingDecision.supported) {
+  const translationTarget =
+    routingDecision.supported ? undefined : resolveAnthropicTranslationTarget(anthropicPayload.model)
+  if (!routingDecision.supported && !translationTarget) {
     const msg = `Model "${anthropicPayload.model}" does not support /v1/messages: ${routingDecision.reason}`
     throw new HTTPError(msg, 400, msg)
   }
-  consola.debug(`[AnthropicRouting] ${anthropicPayload.model}: ${routingDecision.reason}`)
+  consola.debug(
+    `[AnthropicRouting] ${anthropicPayload.model}: ${routingDecision.reason}`
+      + (translationTarget ? ` → translating via ${translationTarget}` : ""),
+  )
 
   // Create request context — this triggers the "created" event → history consumer inserts entry
   const manager = getRequestContextManager()
@@ -99,6 +154,9 @@ export async function handleMessages(c: Context) {
     sessionId: getSessionIdFromHeaders(c.req.raw.headers),
     tuiLogId,
     rawPath: c.req.path,
+    apiKeyLabel: apiKey?.label,
+    traceParent: c.req.header("traceparent"),
+    priority: resolveRequestPriority(c),
   })
   reqCtx.setOriginalRequest({
     // Use client's original model name (before resolution/overrides)
@@ -118,6 +176,12 @@ export async function handleMessages(c: Context) {
     })
   }
 
+  // Reject requests over a configured budget (reserves premium requests for this one)
+  enforceBudgets(reqCtx, getBudgetSubjects(c), anthropicPayload.model)
+
+  // Mask (or reject) secrets in the prompt before any further processing
+  anthropicPayload = applyRedactionPolicy(reqCtx, anthropicPayload)
+
   // Phase 1: One-time preprocessing (idempotent, before routing)
   const preprocessed = preprocessAnthropicMessages(anthropicPayload.messages)
   anthropicPayload.messages = preprocessed.messages
@@ -126,6 +190,10 @@ export async function handleMessages(c: Context) {
     dedupedToolCallCount: preprocessed.dedupedToolCallCount,
   }
 
+  if (translationTarget) {
+    return handleTranslatedCompletion(c, anthropicPayload, reqCtx, preprocessInfo, translationTarget)
+  }
+
   return handleDirectAnthropicCompletion(c, anthropicPayload, reqCtx, preprocessInfo)
 }
 
@@ -133,8 +201,19 @@ export async function handleMessages(c: Context) {
 // Direct Anthropic completion orchestration
 // ============================================================================
 
+/** Keep max_tokens within a fallback model's output limit */
+function clampMaxTokensToModel(payload: MessagesPayload, model: Model): MessagesPayload {
+  const limit = model.capabilities?.limits?.max_output_tokens
+  return limit && payload.max_tokens > limit ? { ...payload, max_tokens: limit } : payload
+}
+
 // Handle completion using direct Anthropic API (no translation needed)
-async function handleDirectAnthropicCompletion(c: Context, anthropicPayload: MessagesPayload, reqCtx: RequestContext, preprocessInfo: PreprocessInfo) {
+async function handleDirectAnthropicCompletion(
+  c: Context,
+  anthropicPayload: MessagesPayload,
+  reqCtx: RequestContext,
+  preprocessInfo: PreprocessInfo,
+) {
   consola.debug("Using direct Anthropic API path for model:", anthropicPayload.model)
 
   // Find model for auto-truncate and usage adjustment
@@ -146,7 +225,9 @@ async function handleDirectAnthropicCompletion(c: Context, anthropicPayload: Mes
   const toolPreprocessed = preprocessTools(anthropicPayload)
 
   // Always sanitize messages to filter orphaned tool_result/tool_use blocks
-  const { payload: initialSanitized, stats: sanitizationStats } = sanitizeAnthropicMessages(toolPreprocessed)
+  const { payload: initialSanitized, stats: sanitizationStats } = withRequestSpan(reqCtx, "sanitize", () =>
+    sanitizeAnthropicMessages(toolPreprocessed),
+  )
   const initialSanitizationInfo = toSanitizationInfo(sanitizationStats)
 
   // Record sanitization/preprocessing if anything was modified
@@ -173,15 +254,20 @@ async function handleDirectAnthropicCompletion(c: Context, anthropicPayload: Mes
     if (tags.length > 0) tuiLogger.updateRequest(reqCtx.tuiLogId, { tags })
   }
 
+  // Deterministic repeats of a recorded request are answered from the response cache
+  const cacheKey = resolveResponseCacheKey(c, "anthropic-messages", initialSanitized)
+  const cached = await lookupCachedResponse(cacheKey)
+  if (cached) return replayCachedResponse(c, reqCtx, cached)
+
   // Build adapter and strategy for the pipeline
   const headersCapture: HeadersCapture = {}
   const adapter: FormatAdapter<MessagesPayload> = {
     format: "anthropic-messages",
     sanitize: (p) => sanitizeAnthropicMessages(preprocessTools(p)),
-    execute: (p) =>
+    execute: (p, model) =>
       executeWithAdaptiveRateLimit(() =>
         createAnthropicMessages(p, {
-          resolvedModel: selectedModel,
+          resolvedModel: model,
           headersCapture,
           onPrepared: ({ wire, headers }) => {
             reqCtx.setAttemptWireRequest({
@@ -192,13 +278,19 @@ async function handleDirectAnthropicCompletion(c: Context, anthropicPayload: Mes
               format: "anthropic-messages",
             })
           },
-        })),
+        }),
+      ),
     logPayloadSize: (p) => logPayloadSizeInfoAnthropic(p, selectedModel),
   }
 
   const strategies = [
     createNetworkRetryStrategy<MessagesPayload>(),
     createTokenRefreshStrategy<MessagesPayload>(),
+    createModelFallbackStrategy<MessagesPayload>({
+      isSupported: (model) => supportsDirectAnthropicApi(model.id).supported,
+      prepare: clampMaxTokensToModel,
+      label: "Anthropic",
+    }),
     createContextManagementRetryStrategy<MessagesPayload>(),
     createDeferredToolRetryStrategy<MessagesPayload>(),
     createAutoTruncateStrategy<MessagesPayload>({
@@ -282,13 +374,222 @@ async function handleDirectAnthropicCompletion(c: Context, anthropicPayload: Mes
           response: response as AsyncIterable<ServerSentEventMessage>,
           anthropicPayload: effectivePayload,
           reqCtx,
+          cacheKey,
           clientAbortSignal: clientAbort.signal,
+          repetitionRetry: () =>
+            executeRepetitionRetry({
+              adapter,
+              payload: nudgeMessagesPayload(result.requestPayload as MessagesPayload),
+              model: result.model,
+              reqCtx,
+            }),
         })
       })
     }
 
     // Non-streaming response
-    return handleDirectAnthropicNonStreamingResponse(c, response as AnthropicMessageResponse, reqCtx, truncateResult)
+    return handleDirectAnthropicNonStreamingResponse(
+      c,
+      response as AnthropicMessageResponse,
+      reqCtx,
+      truncateResult,
+      cacheKey,
+    )
+  } catch (error) {
+    reqCtx.setHttpHeaders(headersCapture)
+    reqCtx.fail(anthropicPayload.model, error)
+    throw error
+  }
+}
+
+// ============================================================================
+// Translated completion orchestration (non-Anthropic models)
+// ============================================================================
+
+const DROPPED_MESSAGES_PARAMS_WARNING_CODE = "messages_to_cc_dropped_params"
+
+/**
+ * Handle completion for models without native /v1/messages support.
+ *
+ * Sanitize and auto-truncate operate on the Anthropic payload; translation to
+ * Chat Completions (and on to Responses when needed) happens inside the adapter,
+ * and upstream results are translated back into Anthropic messages / SSE events
+ * so the regular Anthropic response handlers can forward and record them.
+ */
+async function handleTranslatedCompletion(
+  c: Context,
+  anthropicPayload: MessagesPayload,
+  reqCtx: RequestContext,
+  preprocessInfo: PreprocessInfo,
+  target: AnthropicTranslationTarget,
+) {
+  consola.debug(`Using translated ${target} path for model:`, anthropicPayload.model)
+
+  const selectedModel = state.modelIndex.get(anthropicPayload.model)
+
+  // Tool preprocessing (stubs, tool_search, defer_loading) is Anthropic-specific — only sanitize here
+  const { payload: initialSanitized, stats: sanitizationStats } = withRequestSpan(reqCtx, "sanitize", () =>
+    sanitizeAnthropicMessages(anthropicPayload),
+  )
+  const initialSanitizationInfo = toSanitizationInfo(sanitizationStats)
+
+  const hasPreprocessing = preprocessInfo.dedupedToolCallCount > 0 || preprocessInfo.strippedReadTagCount > 0
+  if (sanitizationStats.totalBlocksRemoved > 0 || sanitizationStats.systemReminderRemovals > 0 || hasPreprocessing) {
+    reqCtx.setPipelineInfo({
+      preprocessing: preprocessInfo,
+      sanitization: [initialSanitizationInfo],
+      messageMapping: buildMessageMapping(anthropicPayload.messages, initialSanitized.messages),
+    })
+  }
+
+  if (reqCtx.tuiLogId) {
+    tuiLogger.updateRequest(reqCtx.tuiLogId, { tags: [`via-${target}`] })
+  }
+
+  const cacheKey = resolveResponseCacheKey(c, "anthropic-messages", initialSanitized)
+  const cached = await lookupCachedResponse(cacheKey)
+  if (cached) return replayCachedResponse(c, reqCtx, cached)
+
+  const headersCapture: HeadersCapture = {}
+  const adapter: FormatAdapter<MessagesPayload> = {
+    format: "anthropic-messages",
+    sanitize: (p) => sanitizeAnthropicMessages(p),
+    execute: async (p, model) => {
+      const { payload: ccPayload, droppedParams } = translateMessagesToChatCompletions(p, { model })
+      if (droppedParams.length > 0) {
+        recordDroppedMessagesParamsWarning(reqCtx, p.model, droppedParams)
+      }
+
+      const { result, queueWaitMs } =
+        target === "chat-completions" ?
+          await executeWithAdaptiveRateLimit(() =>
+            createChatCompletions(ccPayload, {
+              resolvedModel: model,
+              headersCapture,
+              onPrepared: ({ wire, headers }) => {
+                reqCtx.setAttemptWireRequest({
+                  model: wire.model,
+                  messages: wire.messages,
+                  payload: wire,
+                  headers,
+                  format: "openai-chat-completions",
+                })
+              },
+            }),
+          )
+        : await executeViaResponses(ccPayload, model, headersCapture, reqCtx)
+
+      const stopSequences = p.stop_sequences?.filter((sequence) => sequence.length > 0) ?? []
+      if (!p.stream) {
+        return {
+          result: translateChatCompletionToMessage(result as ChatCompletionResponse, { stopSequences }),
+          queueWaitMs,
+        }
+      }
+
+      const translator = createMessagesStreamTranslator({ model: p.model })
+      return {
+        result: translateChatCompletionsStream(
+          enforceStopSequences(result as AsyncIterable<ServerSentEventMessage>, stopSequences, translator.stopAt),
+          translator,
+        ),
+        queueWaitMs,
+      }
+    },
+    logPayloadSize: (p) => logPayloadSizeInfoAnthropic(p, selectedModel),
+  }
+
+  const strategies = [
+    createNetworkRetryStrategy<MessagesPayload>(),
+    createTokenRefreshStrategy<MessagesPayload>(),
+    createModelFallbackStrategy<MessagesPayload>({
+      // The adapter's translation target is fixed for this request
+      isSupported: (model) =>
+        !supportsDirectAnthropicApi(model.id).supported && resolveAnthropicTranslationTarget(model.id) === target,
+      prepare: clampMaxTokensToModel,
+      label: `Anthropic(→${target})`,
+    }),
+    createAutoTruncateStrategy<MessagesPayload>({
+      truncate: (p, model, opts) => autoTruncateAnthropic(p, model, opts) as Promise<TruncateResult<MessagesPayload>>,
+      resanitize: (p) => sanitizeAnthropicMessages(p),
+      isEnabled: () => state.autoTruncate,
+      label: `Anthropic(→${target})`,
+    }),
+  ]
+
+  let truncateResult: AnthropicAutoTruncateResult | undefined
+
+  try {
+    const result = await executeRequestPipeline({
+      adapter,
+      strategies,
+      payload: initialSanitized,
+      originalPayload: anthropicPayload,
+      model: selectedModel,
+      maxRetries: MAX_AUTO_TRUNCATE_RETRIES,
+      requestContext: reqCtx,
+      onRetry: (attempt, _strategyName, newPayload, meta) => {
+        const retryTruncateResult = meta?.truncateResult as AnthropicAutoTruncateResult | undefined
+        if (retryTruncateResult) {
+          truncateResult = retryTruncateResult
+          reqCtx.setPipelineInfo({
+            preprocessing: preprocessInfo,
+            sanitization: [initialSanitizationInfo],
+            truncation: {
+              wasTruncated: true,
+              removedMessageCount: retryTruncateResult.removedMessageCount,
+              originalTokens: retryTruncateResult.originalTokens,
+              compactedTokens: retryTruncateResult.compactedTokens,
+              processingTimeMs: retryTruncateResult.processingTimeMs,
+            },
+            messageMapping: buildMessageMapping(anthropicPayload.messages, newPayload.messages),
+          })
+        }
+
+        if (reqCtx.tuiLogId) {
+          tuiLogger.updateRequest(reqCtx.tuiLogId, { tags: [`via-${target}`, "truncated", `retry-${attempt + 1}`] })
+        }
+      },
+    })
+
+    reqCtx.setHttpHeaders(headersCapture)
+
+    const response = result.response
+    const effectivePayload = result.effectivePayload as MessagesPayload
+
+    if (Symbol.asyncIterator in (response as object)) {
+      consola.debug(`Streaming response from Copilot (translated via ${target})`)
+      reqCtx.transition("streaming")
+
+      return streamSSE(c, async (stream) => {
+        const clientAbort = new AbortController()
+        stream.onAbort(() => clientAbort.abort())
+
+        await handleDirectAnthropicStreamingResponse({
+          stream,
+          response: response as AsyncIterable<ServerSentEventMessage>,
+          anthropicPayload: effectivePayload,
+          reqCtx,
+          cacheKey,
+          clientAbortSignal: clientAbort.signal,
+          repetitionRetry: () =>
+            executeRepetitionRetry({
+              adapter,
+              payload: nudgeMessagesPayload(result.requestPayload as MessagesPayload),
+              model: result.model,
+              reqCtx,
+            }),
+        })
+      })
+    }
+
+    return handleDirectAnthropicNonStreamingResponse(
+      c,
+      response as AnthropicMessageResponse,
+      reqCtx,
+      truncateResult,
+      cacheKey,
+    )
   } catch (error) {
     reqCtx.setHttpHeaders(headersCapture)
     reqCtx.fail(anthropicPayload.model, error)
@@ -296,6 +597,62 @@ async function handleDirectAnthropicCompletion(c: Context, anthropicPayload: Mes
   }
 }
 
+/**
+ * Send a translated Chat Completions payload to the Responses API and translate
+ * the result back, reusing the Chat Completions → Responses translation layer.
+ */
+async function executeViaResponses(
+  ccPayload: ChatCompletionsPayload,
+  selectedModel: Model | undefined,
+  headersCapture: HeadersCapture,
+  reqCtx: RequestContext,
+): Promise<{ result: unknown; queueWaitMs: number }> {
+  const { payload: responsesPayload, droppedParams } = translateChatCompletionsToResponses(ccPayload)
+  if (droppedParams.length > 0) {
+    recordDroppedMessagesParamsWarning(reqCtx, ccPayload.model, droppedParams)
+  }
+
+  const finalPayload = state.normalizeResponsesCallIds ? normalizeCallIds(responsesPayload) : responsesPayload
+  const { result, queueWaitMs } = await executeWithAdaptiveRateLimit(() =>
+    createResponses(finalPayload, {
+      resolvedModel: selectedModel,
+      headersCapture,
+      onPrepared: ({ wire, headers }) => {
+        reqCtx.setAttemptWireRequest({
+          model: wire.model,
+          messages: extractInputItems(wire.input),
+          payload: wire,
+          headers,
+          format: "openai-responses",
+        })
+      },
+    }),
+  )
+
+  if (!ccPayload.stream) {
+    return { result: translateResponsesResponseToCC(result as ResponsesResponse), queueWaitMs }
+  }
+
+  return {
+    result: translateResponsesStream(
+      result as AsyncIterable<ServerSentEventMessage>,
+      createStreamTranslator({ includeUsage: true }),
+    ),
+    queueWaitMs,
+  }
+}
+
+function recordDroppedMessagesParamsWarning(reqCtx: RequestContext, model: string, droppedParams: Array<string>) {
+  const message = `Messages translation dropped unsupported params: ${droppedParams.join(", ")}`
+  const alreadyRecorded = reqCtx.warningMessages.some(
+    (warning) => warning.code === DROPPED_MESSAGES_PARAMS_WARNING_CODE && warning.message === message,
+  )
+  if (alreadyRecorded) return
+
+  consola.warn(`[Messages→CC] model=${model} ${message}`)
+  reqCtx.addWarningMessage({ code: DROPPED_MESSAGES_PARAMS_WARNING_CODE, message })
+}
+
 // ============================================================================
 // Response handlers (streaming / non-streaming)
 // ============================================================================
@@ -306,20 +663,30 @@ interface DirectAnthropicStreamHandlerOptions {
   response: AsyncIterable<ServerSentEventMessage>
   anthropicPayload: MessagesPayload
   reqCtx: RequestContext
+  /** Response cache key; the forwarded events are recorded under it when the stream completes */
+  cacheKey?: string
   /** Abort signal that fires when the downstream client disconnects */
   clientAbortSignal?: AbortSignal
+  /** Resends the request with a nudge when the repetition policy is `abort-and-retry` */
+  repetitionRetry?: () => Promise<AsyncIterable<ServerSentEventMessage>>
 }
 
 /** Handle streaming direct Anthropic response (passthrough SSE events) */
 async function handleDirectAnthropicStreamingResponse(opts: DirectAnthropicStreamHandlerOptions) {
-  const { stream, response, anthropicPayload, reqCtx, clientAbortSignal } = opts
+  const { stream, anthropicPayload, reqCtx, cacheKey, clientAbortSignal } = opts
   const acc = createAnthropicStreamAccumulator()
 
-  // Repetition detection — feed text deltas and log warning on first detection
-  const checkRepetition = createStreamRepetitionChecker(anthropicPayload.model)
+  // Repetition policy — looping output is warned about, or cut off (and optionally retried)
+  const response = guardStreamRepetition(opts.response, {
+    reqCtx,
+    format: createAnthropicRepetitionFormat(),
+    retry: opts.repetitionRetry,
+  })
 
   // SSE event recording for debugging (excludes high-volume content_block_delta and ping)
   const sseEvents: Array<SseEventRecord> = []
+  const cacheRecorder = cacheKey ? createSseRecorder() : undefined
+  let sawMessageStop = false
 
   // Streaming metrics for TUI footer and debug timing
   const streamStartMs = Date.now()
@@ -381,14 +748,6 @@ async function handleDirectAnthropicStreamingResponse(opts: DirectAnthropicStrea
         })
       }
 
-      // Check for repetitive output in text deltas
-      if (parsed?.type === "content_block_delta") {
-        const delta = parsed.delta as { type: string; text?: string }
-        if (delta.type === "text_delta" && delta.text) {
-          checkRepetition(delta.text)
-        }
-      }
-
       // Forward event to client, filtering server tool blocks
       const forwardData = serverToolFilter.rewriteEvent(parsed, rawEvent.data ?? "")
       if (forwardData === null) continue
@@ -399,6 +758,8 @@ async function handleDirectAnthropicStreamingResponse(opts: DirectAnthropicStrea
         id: rawEvent.id !== undefined ? String(rawEvent.id) : undefined,
         retry: rawEvent.retry,
       })
+      cacheRecorder?.record(rawEvent.event, forwardData)
+      if (parsed?.type === "message_stop") sawMessageStop = true
     }
 
     // Debug: stream completion summary
@@ -414,6 +775,15 @@ async function handleDirectAnthropicStreamingResponse(opts: DirectAnthropicStrea
     } else {
       const responseData = buildAnthropicResponseData(acc, anthropicPayload.model)
       reqCtx.complete(responseData)
+      // Only complete streams are cached — a disconnect or shutdown ends the loop early,
+      // and a stream cut off by the repetition guard ends with synthetic events
+      if (cacheRecorder && sawMessageStop && !wasRepetitionDetected(reqCtx)) {
+        storeCachedResponse(cacheKey, {
+          endpoint: "anthropic-messages",
+          response: responseData,
+          events: cacheRecorder.events,
+        })
+      }
     }
   } catch (error) {
     consola.error("Direct Anthropic stream error:", error)
@@ -437,8 +807,9 @@ function handleDirectAnthropicNonStreamingResponse(
   response: AnthropicMessageResponse,
   reqCtx: RequestContext,
   truncateResult: AnthropicAutoTruncateResult | undefined,
+  cacheKey: string | undefined,
 ) {
-  reqCtx.complete({
+  const responseData: ResponseData = {
     success: true,
     model: response.model,
     usage: {
@@ -449,7 +820,8 @@ function handleDirectAnthropicNonStreamingResponse(
     },
     stop_reason: response.stop_reason ?? undefined,
     content: { role: "assistant", content: response.content },
-  })
+  }
+  reqCtx.complete(responseData)
 
   // Add truncation marker to response if verbose mode and truncation occurred
   let finalResponse = response
@@ -462,6 +834,7 @@ function handleDirectAnthropicNonStreamingResponse(
   logServerToolBlocks(finalResponse.content as unknown as Array<Record<string, unknown> & { type: string }>)
   finalResponse = filterServerToolBlocksFromResponse(finalResponse)
 
+  storeCachedResponse(cacheKey, { endpoint: "anthropic-messages", response: responseData, body: finalResponse })
   return c.json(finalResponse)
 }
 
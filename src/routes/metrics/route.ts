@@ -0,0 +1,15 @@
+/**
+ * Prometheus scrape endpoint.
+ * Serves request, token, retry, rate limiter, token expiry, and history metrics
+ * in OpenMetrics text format.
+ */
+
+import { Hono } from "hono"
+
+import { OPENMETRICS_CONTENT_TYPE, renderOpenMetrics } from "~/lib/metrics"
+
+export const metricsRoutes = new Hono()
+
+metricsRoutes.get("/", (c) => {
+  return c.body(renderOpenMetrics(), 200, { "Content-Type": OPENMETRICS_CONTENT_TYPE })
+})
@@ -2,6 +2,7 @@ import { Hono } from "hono"
 
 import type { Model } from "~/lib/models/client"
 
+import { getApiKeyPolicy, isModelAllowed } from "~/lib/api-key-auth"
 import { forwardError } from "~/lib/error"
 import { cacheModels } from "~/lib/models/client"
 import { state } from "~/lib/state"
@@ -23,7 +24,9 @@ modelsRoutes.get("/", async (c) => {
 
     // `?detail=true` remains accepted for backwards compatibility but is now a
     // no-op because the default response already returns the full public model.
-    const models = state.models?.data.map(stripInternalFields)
+    // Keys with an allowed_models policy only see the models they may use.
+    const apiKey = getApiKeyPolicy(c)
+    const models = state.models?.data.filter((model) => isModelAllowed(apiKey, model.id)).map(stripInternalFields)
 
     return c.json({
       object: state.models?.object ?? "list",
@@ -43,7 +46,7 @@ modelsRoutes.get("/:model", async (c) => {
     const modelId = c.req.param("model")
     const model = state.modelIndex.get(modelId)
 
-    if (!model) {
+    if (!model || !isModelAllowed(getApiKeyPolicy(c), model.id)) {
       return c.json(
         {
           error: {
@@ -0,0 +1,152 @@
+/**
+ * Ollama `/api/chat` and `/api/generate` handlers.
+ *
+ * A facade over the Chat Completions route: the request is translated and
+ * passed to handleChatCompletion, so history, budgets, redaction, the response
+ * cache and the Responses API fallback all apply unchanged. History records
+ * these requests as `openai-chat-completions` under their `/api/*` path.
+ * The route's JSON or SSE response is translated back into an Ollama response
+ * or NDJSON stream (see ~/lib/ollama/translate).
+ */
+
+import type { Context } from "hono"
+
+import consola from "consola"
+import { events } from "fetch-event-stream"
+import { stream as streamBody } from "hono/streaming"
+
+import type { OllamaChatRequest, OllamaChatResponse, OllamaGenerateRequest } from "~/types/api/ollama"
+import type { ChatCompletionResponse, ChatCompletionsPayload } from "~/types/api/openai-chat-completions"
+
+import { assertModelAllowed, getApiKeyPolicy } from "~/lib/api-key-auth"
+import { HTTPError, getErrorMessage } from "~/lib/error"
+import { resolveModelName } from "~/lib/models/resolver"
+import {
+  toOllamaGenerateResponse,
+  translateChatCompletionToOllama,
+  translateChatStreamToOllama,
+  translateOllamaChatToChatCompletions,
+  translateOllamaGenerateToChatCompletions,
+} from "~/lib/ollama/translate"
+import { state } from "~/lib/state"
+import { tuiLogger } from "~/lib/tui"
+import { handleChatCompletion } from "~/routes/chat-completions/handler"
+
+/** Ollama clients may append the default `:latest` tag to names listed by /api/tags */
+export function stripLatestTag(name: string): string {
+  return name.endsWith(":latest") ? name.slice(0, -":latest".length) : name
+}
+
+export async function handleOllamaChat(c: Context) {
+  const body = await c.req.json<OllamaChatRequest>()
+  if (body.messages !== undefined && !Array.isArray(body.messages)) {
+    const msg = "messages must be an array"
+    throw new HTTPError(msg, 400, msg)
+  }
+
+  const model = stripLatestTag(body.model)
+  const selectedModel = findModel(c, model)
+
+  // An empty conversation only asks Ollama to load the model
+  if (!body.messages?.length) {
+    return c.json(loadResponse(body.model))
+  }
+
+  const { payload, droppedParams } = translateOllamaChatToChatCompletions({ ...body, model }, { model: selectedModel })
+  return forwardToChatCompletions(c, { requestedModel: body.model, payload, droppedParams, format: (chunk) => chunk })
+}
+
+export async function handleOllamaGenerate(c: Context) {
+  const body = await c.req.json<OllamaGenerateRequest>()
+
+  const model = stripLatestTag(body.model)
+  const selectedModel = findModel(c, model)
+
+  // An empty prompt only asks Ollama to load the model
+  if (!body.prompt && !body.images?.length) {
+    return c.json(toOllamaGenerateResponse(loadResponse(body.model)))
+  }
+
+  const { payload, droppedParams } = translateOllamaGenerateToChatCompletions(
+    { ...body, model },
+    { model: selectedModel },
+  )
+  return forwardToChatCompletions(c, {
+    requestedModel: body.model,
+    payload,
+    droppedParams,
+    format: toOllamaGenerateResponse,
+  })
+}
+
+/** Ollama answers unknown models with a 404 (the Chat Completions route would try upstream) */
+function findModel(c: Context, model: string) {
+  const resolvedModel = resolveModelName(model)
+  assertModelAllowed(getApiKeyPolicy(c), resolvedModel)
+
+  const selectedModel = state.modelIndex.get(resolvedModel)
+  if (!selectedModel) {
+    const msg = `model "${model}" not found`
+    throw new HTTPError(msg, 404, msg)
+  }
+  return selectedModel
+}
+
+function loadResponse(model: string): OllamaChatResponse {
+  return {
+    model,
+    created_at: new Date().toISOString(),
+    message: { role: "assistant", content: "" },
+    done: true,
+    done_reason: "load",
+  }
+}
+
+interface ForwardOptions<T> {
+  /** Model name as sent by the client, echoed back in every response */
+  requestedModel: string
+  payload: ChatCompletionsPayload
+  droppedParams: Array<string>
+  /** Shape a chat response for the endpoint (`/api/generate` flattens the message) */
+  format: (chunk: OllamaChatResponse) => T
+}
+
+async function forwardToChatCompletions<T>(c: Context, opts: ForwardOptions<T>) {
+  const { payload, format } = opts
+  const translateOptions = { model: opts.requestedModel, startedAt: performance.now() }
+
+  // Runner options (num_ctx, num_gpu, …) are sent by most clients on every request, so not a warning
+  if (opts.droppedParams.length > 0) {
+    consola.debug(`[Ollama→CC] model=${payload.model} ignored: ${opts.droppedParams.join(", ")}`)
+  }
+
+  const tuiLogId = c.get("tuiLogId") as string | undefined
+  if (tuiLogId) {
+    tuiLogger.updateRequest(tuiLogId, { tags: ["ollama"] })
+  }
+
+  const response = await handleChatCompletion(c, payload)
+
+  if (!payload.stream) {
+    const result = (await response.json()) as ChatCompletionResponse
+    return c.json(format(translateChatCompletionToOllama(result, translateOptions)))
+  }
+
+  c.header("Content-Type", "application/x-ndjson")
+  return streamBody(c, async (out) => {
+    const clientAbort = new AbortController()
+    out.onAbort(() => clientAbort.abort())
+
+    try {
+      const upstream = events(response, clientAbort.signal)
+      for await (const chunk of translateChatStreamToOllama(upstream, translateOptions)) {
+        await out.writeln(JSON.stringify(format(chunk)))
+      }
+    } catch (error) {
+      // The Chat Completions route has already recorded the failure; Ollama streams errors as a final line
+      if (!clientAbort.signal.aborted) {
+        await out.writeln(JSON.stringify({ error: getErrorMessage(error) }))
+      }
+    }
+  })
+}
@@ -0,0 +1,78 @@
+import { createHash } from "node:crypto"
+
+import type { Model } from "~/lib/models/client"
+import type { OllamaModelDetails, OllamaModelEntry, OllamaShowResponse } from "~/types/api/ollama"
+
+import { ENDPOINT, isEndpointSupported, isResponsesSupported } from "~/lib/models/endpoint"
+
+/** Copilot does not say when a model changed; report when the proxy started */
+const MODIFIED_AT = new Date().toISOString()
+
+/** Models the Chat Completions route can serve, directly or via the Responses API */
+export function isOllamaChatModel(model: Model): boolean {
+  if (model.capabilities?.type === "embeddings") return false
+  return isEndpointSupported(model, ENDPOINT.CHAT_COMPLETIONS) || isResponsesSupported(model)
+}
+
+function getContextLength(model: Model): number | undefined {
+  const limits = model.capabilities?.limits
+  return limits?.max_context_window_tokens ?? limits?.max_prompt_tokens
+}
+
+function getDetails(model: Model): OllamaModelDetails {
+  const family = model.capabilities?.family ?? model.vendor
+  return {
+    parent_model: "",
+    format: "",
+    family,
+    families: [family],
+    parameter_size: "",
+    quantization_level: "",
+  }
+}
+
+/** An `/api/tags` entry; weights are remote, so size is 0 and the digest is derived from id and version */
+export function toOllamaModelEntry(model: Model): OllamaModelEntry {
+  const contextLength = getContextLength(model)
+  return {
+    name: model.id,
+    model: model.id,
+    modified_at: MODIFIED_AT,
+    size: 0,
+    digest: createHash("sha256").update(`${model.id}@${model.version}`).digest("hex"),
+    details: getDetails(model),
+    ...(contextLength !== undefined && { context_length: contextLength }),
+  }
+}
+
+/**
+ * An `/api/show` response. The context window goes in `model_info` under
+ * `<architecture>.context_length` and in `parameters` as `num_ctx`, the two
+ * places clients such as Continue look for it.
+ */
+export function toOllamaShowResponse(model: Model): OllamaShowResponse {
+  const details = getDetails(model)
+  const contextLength = getContextLength(model)
+  const supports = model.capabilities?.supports ?? {}
+
+  const capabilities = ["completion"]
+  if (supports.tool_calls) capabilities.push("tools")
+  if (supports.vision) capabilities.push("vision")
+  if (supports.reasoning_effort || supports.adaptive_thinking || supports.max_thinking_budget) {
+    capabilities.push("thinking")
+  }
+
+  return {
+    modelfile: "",
+    parameters: contextLength !== undefined ? `num_ctx ${contextLength}` : "",
+    template: "",
+    details,
+    model_info: {
+      "general.architecture": details.family,
+      "general.basename": model.id,
+      ...(contextLength !== undefined && { [`${details.family}.context_length`]: contextLength }),
+    },
+    capabilities,
+    modified_at: MODIFIED_AT,
+  }
+}
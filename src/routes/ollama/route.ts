@@ -0,0 +1,88 @@
+import type { Context } from "hono"
+import type { ContentfulStatusCode } from "hono/utils/http-status"
+
+import { Hono } from "hono"
+
+import type { OllamaShowRequest } from "~/types/api/ollama"
+
+import { getApiKeyPolicy, isModelAllowed } from "~/lib/api-key-auth"
+import { forwardError } from "~/lib/error"
+import { cacheModels } from "~/lib/models/client"
+import { resolveModelName } from "~/lib/models/resolver"
+import { state } from "~/lib/state"
+
+import packageJson from "../../../package.json"
+import { handleOllamaChat, handleOllamaGenerate, stripLatestTag } from "./handler"
+import { isOllamaChatModel, toOllamaModelEntry, toOllamaShowResponse } from "./models"
+
+export const ollamaRoutes = new Hono()
+
+/**
+ * Ollama clients read errors as `{ "error": "<message>" }`; status, message and
+ * Retry-After come from forwardError.
+ */
+async function forwardOllamaError(c: Context, error: unknown) {
+  const response = forwardError(c, error)
+  const body = (await response.json()) as { error?: string | { message?: string } }
+  const message = typeof body.error === "string" ? body.error : (body.error?.message ?? "Unknown error")
+  const retryAfter = response.headers.get("Retry-After")
+
+  return c.json(
+    { error: message },
+    response.status as ContentfulStatusCode,
+    retryAfter ? { "Retry-After": retryAfter } : undefined,
+  )
+}
+
+ollamaRoutes.get("/version", (c) => c.json({ version: packageJson.version }))
+
+ollamaRoutes.get("/tags", async (c) => {
+  try {
+    if (!state.models) {
+      await cacheModels()
+    }
+
+    const apiKey = getApiKeyPolicy(c)
+    const models = (state.models?.data ?? []).filter(
+      (model) => isOllamaChatModel(model) && isModelAllowed(apiKey, model.id),
+    )
+    return c.json({ models: models.map((model) => toOllamaModelEntry(model)) })
+  } catch (error) {
+    return forwardOllamaError(c, error)
+  }
+})
+
+ollamaRoutes.post("/show", async (c) => {
+  try {
+    if (!state.models) {
+      await cacheModels()
+    }
+
+    const body = await c.req.json<OllamaShowRequest>()
+    const name = stripLatestTag(body.model ?? body.name ?? "")
+    const model = state.modelIndex.get(resolveModelName(name))
+
+    if (!model || !isModelAllowed(getApiKeyPolicy(c), model.id)) {
+      return c.json({ error: `model "${name}" not found` }, 404)
+    }
+    return c.json(toOllamaShowResponse(model))
+  } catch (error) {
+    return forwardOllamaError(c, error)
+  }
+})
+
+ollamaRoutes.post("/chat", async (c) => {
+  try {
+    return await handleOllamaChat(c)
+  } catch (error) {
+    return forwardOllamaError(c, error)
+  }
+})
+
+ollamaRoutes.post("/generate", async (c) => {
+  try {
+    return await handleOllamaGenerate(c)
+  } catch (error) {
+    return forwardOllamaError(c, error)
+  }
+})
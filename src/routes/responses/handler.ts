@@ -13,18 +13,29 @@ import { streamSSE } from "hono/streaming"
 import type { HeadersCapture, RequestContext } from "~/lib/context/request"
 import type { ResponsesPayload, ResponsesResponse, ResponsesStreamEvent } from "~/types/api/openai-responses"
 
+import { resolveRequestPriority } from "~/lib/adaptive-rate-limiter"
+import { assertModelAllowed, getApiKeyPolicy } from "~/lib/api-key-auth"
+import { enforceBudgets, getBudgetSubjects } from "~/lib/budgets"
 import { getRequestContextManager } from "~/lib/context/manager"
 import { HTTPError } from "~/lib/error"
 import { getSessionIdFromHeaders, registerResponseSession, resolveResponseSessionId } from "~/lib/history/store"
 import { ENDPOINT, isResponsesSupported } from "~/lib/models/endpoint"
 import { resolveModelName } from "~/lib/models/resolver"
+import { recordStoredResponse, recordStoredStreamResponse } from "~/lib/openai/response-store"
 import { responsesInputToMessages, responsesOutputToContent } from "~/lib/openai/responses-conversion"
 import {
   accumulateResponsesStreamEvent,
   createResponsesStreamAccumulator,
 } from "~/lib/openai/responses-stream-accumulator"
+import { applyRedactionPolicy } from "~/lib/redaction"
 import { executeRequestPipeline } from "~/lib/request/pipeline"
 import { buildResponsesResponseData } from "~/lib/request/recording"
+import {
+  createResponsesRepetitionFormat,
+  executeRepetitionRetry,
+  guardStreamRepetition,
+  nudgeResponsesPayload,
+} from "~/lib/request/repetition-guard"
 import { getShutdownSignal } from "~/lib/shutdown"
 import { state } from "~/lib/state"
 import { STREAM_ABORTED, StreamIdleTimeoutError, combineAbortSignals, raceIteratorNext } from "~/lib/stream"
@@ -35,9 +46,9 @@ import { createResponsesAdapter, createResponsesStrategies, normalizeCallIds } f
 
 // Re-export conversion functions (other modules may import from ./handler)
 
-/** Handle an inbound Responses API request */
-export async function handleResponses(c: Context) {
-  let payload = await c.req.json<ResponsesPayload>()
+/** Handle an inbound Responses API request (`body` is passed when replaying a history entry) */
+export async function handleResponses(c: Context, body?: ResponsesPayload) {
+  let payload = body ?? (await c.req.json<ResponsesPayload>())
 
   // Resolve model name aliases
   const clientModel = payload.model
@@ -47,6 +58,10 @@ export async function handleResponses(c: Context) {
     payload.model = resolvedModel
   }
 
+  // Enforce the inbound API key's model allowlist
+  const apiKey = getApiKeyPolicy(c)
+  assertModelAllowed(apiKey, payload.model)
+
   // Validate that the model supports /responses endpoint
   const selectedModel = state.modelIndex.get(payload.model)
   if (!isResponsesSupported(selectedModel)) {
@@ -72,6 +87,9 @@ export async function handleResponses(c: Context) {
     sessionId: getSessionIdFromHeaders(c.req.raw.headers) ?? resolveResponseSessionId(payload.previous_response_id),
     tuiLogId,
     rawPath: c.req.path,
+    apiKeyLabel: apiKey?.label,
+    traceParent: c.req.header("traceparent"),
+    priority: resolveRequestPriority(c),
   })
 
   // Record original request for history
@@ -92,6 +110,12 @@ export async function handleResponses(c: Context) {
     })
   }
 
+  // Reject requests over a configured budget (reserves premium requests for this one)
+  enforceBudgets(reqCtx, getBudgetSubjects(c), payload.model)
+
+  // Mask (or reject) secrets in the prompt before any further processing
+  payload = applyRedactionPolicy(reqCtx, payload)
+
   return handleDirectResponses({ c, payload, reqCtx })
 }
 
@@ -120,6 +144,7 @@ async function handleDirectResponses(opts: ResponsesHandlerOptions) {
     (transport) => {
       reqCtx.setAttemptTransport(transport)
     },
+    reqCtx.apiKeyLabel,
   )
   const strategies = createResponsesStrategies()
 
@@ -138,6 +163,8 @@ async function handleDirectResponses(opts: ResponsesHandlerOptions) {
     reqCtx.setHttpHeaders(headersCapture)
 
     const response = pipelineResult.response
+    // Reflects a model fallback switch, if any
+    const effectiveModel = (pipelineResult.effectivePayload as ResponsesPayload).model
     // Note: queueWaitMs is already accumulated by the pipeline via requestContext.addQueueWaitMs()
 
     // Determine streaming vs non-streaming based on the request payload,
@@ -150,6 +177,7 @@ async function handleDirectResponses(opts: ResponsesHandlerOptions) {
         reqCtx.setSessionId(responsesResponse.id)
       }
       registerResponseSession(responsesResponse.id, reqCtx.sessionId)
+      recordStoredResponse(payload, responsesResponse, reqCtx.apiKeyLabel)
       const content = responsesOutputToContent(responsesResponse.output)
 
       reqCtx.complete({
@@ -189,7 +217,18 @@ async function handleDirectResponses(opts: ResponsesHandlerOptions) {
       let eventsIn = 0
 
       try {
-        const iterator = (response as AsyncIterable<ServerSentEventMessage>)[Symbol.asyncIterator]()
+        const guarded = guardStreamRepetition(response as AsyncIterable<ServerSentEventMessage>, {
+          reqCtx,
+          format: createResponsesRepetitionFormat(),
+          retry: () =>
+            executeRepetitionRetry({
+              adapter,
+              payload: nudgeResponsesPayload(pipelineResult.requestPayload as ResponsesPayload),
+              model: pipelineResult.model,
+              reqCtx,
+            }),
+        })
+        const iterator = guarded[Symbol.asyncIterator]()
 
         for (;;) {
           const abortSignal = combineAbortSignals(getShutdownSignal(), clientAbort.signal)
@@ -229,7 +268,8 @@ async function handleDirectResponses(opts: ResponsesHandlerOptions) {
           reqCtx.setSessionId(acc.responseId)
         }
         registerResponseSession(acc.responseId, reqCtx.sessionId)
-        const responseData = buildResponsesResponseData(acc, payload.model)
+        recordStoredStreamResponse(payload, acc, reqCtx.apiKeyLabel)
+        const responseData = buildResponsesResponseData(acc, effectiveModel)
         reqCtx.complete(responseData)
       } catch (error) {
         consola.error("[Responses] Stream error:", error)
@@ -15,7 +15,9 @@ import type { FormatAdapter } from "~/lib/request/pipeline"
 import type { ResponsesInputItem, ResponsesPayload } from "~/types/api/openai-responses"
 
 import { executeWithAdaptiveRateLimit } from "~/lib/adaptive-rate-limiter"
+import { isResponsesSupported } from "~/lib/models/endpoint"
 import { createResponses } from "~/lib/openai/responses-client"
+import { createModelFallbackStrategy } from "~/lib/request/strategies/model-fallback"
 import { createNetworkRetryStrategy } from "~/lib/request/strategies/network-retry"
 import { createTokenRefreshStrategy } from "~/lib/request/strategies/token-refresh"
 
@@ -25,14 +27,16 @@ export function createResponsesAdapter(
   headersCapture?: HeadersCapture,
   onPrepared?: (request: WireRequest) => void,
   onTransport?: (transport: RequestTransport) => void,
+  apiKeyLabel?: string,
 ): FormatAdapter<ResponsesPayload> {
   return {
     format: "openai-responses",
     sanitize: (p) => ({ payload: p, blocksRemoved: 0, systemReminderRemovals: 0 }),
-    execute: (p) =>
+    execute: (p, model) =>
       executeWithAdaptiveRateLimit(() =>
         createResponses(p, {
-          resolvedModel: selectedModel,
+          resolvedModel: model ?? selectedModel,
+          apiKeyLabel,
           headersCapture,
           onTransport,
           onPrepared: ({ wire, headers }) => {
@@ -55,7 +59,14 @@ export function createResponsesAdapter(
 
 /** Create the retry strategies for Responses API pipeline execution */
 export function createResponsesStrategies() {
-  return [createNetworkRetryStrategy<ResponsesPayload>(), createTokenRefreshStrategy<ResponsesPayload>()]
+  return [
+    createNetworkRetryStrategy<ResponsesPayload>(),
+    createTokenRefreshStrategy<ResponsesPayload>(),
+    createModelFallbackStrategy<ResponsesPayload>({
+      isSupported: (model) => isResponsesSupported(model),
+      label: "Responses",
+    }),
+  ]
 }
 
 export function extractInputItems(input: string | Array<ResponsesInputItem>): Array<unknown> {
@@ -1,11 +1,16 @@
 /**
  * OpenAI Responses API route definition.
- * Handles POST /responses and POST /v1/responses.
+ * Handles POST /responses and POST /v1/responses, plus retrieval of locally
+ * stored responses (GET/DELETE /responses/:id, GET /responses/:id/input_items).
  */
 
+import type { Context } from "hono"
+
 import { Hono } from "hono"
 
+import { getApiKeyPolicy } from "~/lib/api-key-auth"
 import { forwardError } from "~/lib/error"
+import { deleteStoredResponse, getStoredResponse, listStoredInputItems } from "~/lib/openai/response-store"
 
 import { handleResponses } from "./handler"
 
@@ -18,3 +23,50 @@ responsesRoutes.post("/", async (c) => {
     return forwardError(c, error)
   }
 })
+
+/**
+ * OpenAI-style 404 for ids that were never stored, were stored with `store: false`, have been evicted,
+ * or belong to another API key
+ */
+function responseNotFound(c: Context, id: string) {
+  return c.json(
+    {
+      error: {
+        message: `Response with id '${id}' not found.`,
+        type: "invalid_request_error",
+        param: null,
+        code: null,
+      },
+    },
+    404,
+  )
+}
+
+responsesRoutes.get("/:id", (c) => {
+  const id = c.req.param("id")
+  const entry = getStoredResponse(id, getApiKeyPolicy(c)?.label)
+  if (!entry) return responseNotFound(c, id)
+  return c.json(entry.response)
+})
+
+responsesRoutes.delete("/:id", (c) => {
+  const id = c.req.param("id")
+  if (!deleteStoredResponse(id, getApiKeyPolicy(c)?.label)) return responseNotFound(c, id)
+  return c.json({ id, object: "response.deleted", deleted: true })
+})
+
+responsesRoutes.get("/:id/input_items", (c) => {
+  const id = c.req.param("id")
+  const entry = getStoredResponse(id, getApiKeyPolicy(c)?.label)
+  if (!entry) return responseNotFound(c, id)
+
+  const order = c.req.query("order")
+  const limit = c.req.query("limit")
+  return c.json(
+    listStoredInputItems(entry, {
+      order: order === "asc" || order === "desc" ? order : undefined,
+      after: c.req.query("after"),
+      limit: limit ? Number.parseInt(limit, 10) || undefined : undefined,
+    }),
+  )
+})
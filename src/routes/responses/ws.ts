@@ -9,25 +9,40 @@
  * WebSocket message → extract payload → pipeline → SSE events → WS JSON frames.
  */
 
+import type { ServerSentEventMessage } from "fetch-event-stream"
 import type { Hono } from "hono"
 import type { UpgradeWebSocket, WSContext } from "hono/ws"
 
 import consola from "consola"
 
+import type { RequestPriority } from "~/lib/adaptive-rate-limiter"
+import type { ApiKeyPolicy } from "~/lib/api-key-auth"
 import type { HeadersCapture } from "~/lib/context/request"
 import type { ResponsesPayload, ResponsesStreamEvent } from "~/types/api/openai-responses"
 
+import { resolveRequestPriority } from "~/lib/adaptive-rate-limiter"
+import { getApiKeyPolicy, isModelAllowed } from "~/lib/api-key-auth"
+import { type BudgetSubjects, enforceBudgets, getBudgetSubjects } from "~/lib/budgets"
 import { getRequestContextManager } from "~/lib/context/manager"
+import { getErrorMessage } from "~/lib/error"
 import { registerResponseSession, resolveResponseSessionId } from "~/lib/history/store"
 import { isResponsesSupported } from "~/lib/models/endpoint"
 import { resolveModelName } from "~/lib/models/resolver"
+import { recordStoredStreamResponse } from "~/lib/openai/response-store"
 import { responsesInputToMessages } from "~/lib/openai/responses-conversion"
 import {
   accumulateResponsesStreamEvent,
   createResponsesStreamAccumulator,
 } from "~/lib/openai/responses-stream-accumulator"
+import { applyRedactionPolicy } from "~/lib/redaction"
 import { executeRequestPipeline } from "~/lib/request/pipeline"
 import { buildResponsesResponseData } from "~/lib/request/recording"
+import {
+  createResponsesRepetitionFormat,
+  executeRepetitionRetry,
+  guardStreamRepetition,
+  nudgeResponsesPayload,
+} from "~/lib/request/repetition-guard"
 import { getShutdownSignal } from "~/lib/shutdown"
 import { state } from "~/lib/state"
 import { STREAM_ABORTED, raceIteratorNext } from "~/lib/stream"
@@ -108,12 +123,27 @@ function sendErrorAndClose(ws: WSContext, message: string, code?: string): void
 // ============================================================================
 
 /** Handle a response.create message over WebSocket */
-async function handleResponseCreate(ws: WSContext, rawPayload: ResponsesPayload): Promise<void> {
+async function handleResponseCreate(
+  ws: WSContext,
+  rawPayload: ResponsesPayload,
+  apiKey: ApiKeyPolicy | undefined,
+  budgetSubjects: BudgetSubjects,
+  priority: RequestPriority,
+): Promise<void> {
   let payload = rawPayload
   const requestedModel = payload.model
   const resolvedModel = resolveModelName(requestedModel)
   payload.model = resolvedModel
 
+  if (!isModelAllowed(apiKey, resolvedModel)) {
+    sendErrorAndClose(
+      ws,
+      `API key "${apiKey?.label}" is not allowed to use model "${resolvedModel}"`,
+      "permission_error",
+    )
+    return
+  }
+
   // Check endpoint support
   const selectedModel = state.modelIndex.get(resolvedModel)
   if (!isResponsesSupported(selectedModel)) {
@@ -142,6 +172,8 @@ async function handleResponseCreate(ws: WSContext, rawPayload: ResponsesPayload)
     sessionId: resolveResponseSessionId(payload.previous_response_id),
     tuiLogId,
     rawPath: "/v1/responses",
+    apiKeyLabel: apiKey?.label,
+    priority,
   })
 
   reqCtx.setOriginalRequest({
@@ -161,6 +193,22 @@ async function handleResponseCreate(ws: WSContext, rawPayload: ResponsesPayload)
     })
   }
 
+  // Reject requests over a configured budget (reserves premium requests for this one)
+  try {
+    enforceBudgets(reqCtx, budgetSubjects, resolvedModel)
+  } catch (error) {
+    sendErrorAndClose(ws, getErrorMessage(error), "insufficient_quota")
+    return
+  }
+
+  // Mask (or reject) secrets in the prompt before any further processing
+  try {
+    payload = applyRedactionPolicy(reqCtx, payload)
+  } catch (error) {
+    sendErrorAndClose(ws, getErrorMessage(error), "invalid_request_error")
+    return
+  }
+
   // Build pipeline adapter and strategies (shared with HTTP handler)
   const headersCapture: HeadersCapture = {}
   const adapter = createResponsesAdapter(
@@ -172,6 +220,7 @@ async function handleResponseCreate(ws: WSContext, rawPayload: ResponsesPayload)
     (transport) => {
       reqCtx.setAttemptTransport(transport)
     },
+    reqCtx.apiKeyLabel,
   )
   const strategies = createResponsesStrategies()
 
@@ -194,7 +243,18 @@ async function handleResponseCreate(ws: WSContext, rawPayload: ResponsesPayload)
 
     // Stream SSE events → WebSocket JSON frames
     // The pipeline returns an AsyncIterable<ServerSentEventMessage> for streaming
-    const iterator = (response as AsyncIterable<{ data?: string; event?: string }>)[Symbol.asyncIterator]()
+    const guarded = guardStreamRepetition(response as AsyncIterable<ServerSentEventMessage>, {
+      reqCtx,
+      format: createResponsesRepetitionFormat(),
+      retry: () =>
+        executeRepetitionRetry({
+          adapter,
+          payload: nudgeResponsesPayload(pipelineResult.requestPayload as ResponsesPayload),
+          model: pipelineResult.model,
+          reqCtx,
+        }),
+    })
+    const iterator = guarded[Symbol.asyncIterator]()
     const acc = createResponsesStreamAccumulator()
     const idleTimeoutMs = state.streamIdleTimeout > 0 ? state.streamIdleTimeout * 1000 : 0
     let eventsReceived = 0
@@ -234,6 +294,7 @@ async function handleResponseCreate(ws: WSContext, rawPayload: ResponsesPayload)
       reqCtx.setSessionId(acc.responseId)
     }
     registerResponseSession(acc.responseId, reqCtx.sessionId)
+    recordStoredStreamResponse(payload, acc, reqCtx.apiKeyLabel)
     const responseData = buildResponsesResponseData(acc, resolvedModel)
     reqCtx.complete(responseData)
 
@@ -266,50 +327,57 @@ async function handleResponseCreate(ws: WSContext, rawPayload: ResponsesPayload)
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export function initResponsesWebSocket(rootApp: Hono, upgradeWs: UpgradeWebSocket<any>): void {
   // Create the WebSocket handler
-  const wsHandler = upgradeWs(() => ({
-    onOpen(_event: Event, _ws: WSContext) {
-      consola.debug("[WS] Responses API WebSocket connected")
-    },
-
-    onClose(_event: Event, _ws: WSContext) {
-      consola.debug("[WS] Responses API WebSocket disconnected")
-    },
-
-    async onMessage(event: MessageEvent, ws: WSContext) {
-      // Parse the incoming message
-      let message: unknown
-      try {
-        const raw = typeof event.data === "string" ? event.data : String(event.data)
-        message = JSON.parse(raw)
-      } catch {
-        sendErrorAndClose(ws, "Invalid JSON message", "invalid_request_error")
-        return
-      }
-
-      // Extract and validate payload
-      const payload = extractPayload(message)
-      if (!payload) {
-        sendErrorAndClose(
-          ws,
-          'Invalid message: expected { type: "response.create", response: { model, input, ... } }',
-          "invalid_request_error",
-        )
-        return
-      }
-
-      // Handle the response creation
-      await handleResponseCreate(ws, payload)
-    },
-
-    onError(event: Event, ws: WSContext) {
-      consola.error("[WS] Responses API WebSocket error:", event)
-      try {
-        ws.close(1011, "Internal error")
-      } catch {
-        // Already closed
-      }
-    },
-  }))
+  // The upgrade request already passed apiKeyAuthMiddleware — its policy, budget subjects and priority apply to
+  // every message
+  const wsHandler = upgradeWs((c) => {
+    const apiKey = getApiKeyPolicy(c)
+    const budgetSubjects = getBudgetSubjects(c)
+    const priority = resolveRequestPriority(c)
+    return {
+      onOpen(_event: Event, _ws: WSContext) {
+        consola.debug("[WS] Responses API WebSocket connected")
+      },
+
+      onClose(_event: Event, _ws: WSContext) {
+        consola.debug("[WS] Responses API WebSocket disconnected")
+      },
+
+      async onMessage(event: MessageEvent, ws: WSContext) {
+        // Parse the incoming message
+        let message: unknown
+        try {
+          const raw = typeof event.data === "string" ? event.data : String(event.data)
+          message = JSON.parse(raw)
+        } catch {
+          sendErrorAndClose(ws, "Invalid JSON message", "invalid_request_error")
+          return
+        }
+
+        // Extract and validate payload
+        const payload = extractPayload(message)
+        if (!payload) {
+          sendErrorAndClose(
+            ws,
+            'Invalid message: expected { type: "response.create", response: { model, input, ... } }',
+            "invalid_request_error",
+          )
+          return
+        }
+
+        // Handle the response creation
+        await handleResponseCreate(ws, payload, apiKey, budgetSubjects, priority)
+      },
+
+      onError(event: Event, ws: WSContext) {
+        consola.error("[WS] Responses API WebSocket error:", event)
+        try {
+          ws.close(1011, "Internal error")
+        } catch {
+          // Already closed
+        }
+      },
+    }
+  })
 
   // Register on both paths (GET for WebSocket upgrade, coexists with POST for HTTP)
   rootApp.get("/v1/responses", wsHandler)
@@ -1,12 +1,13 @@
 /**
  * Aggregated server status endpoint.
- * Returns health, auth, quota, rate limiter, memory, shutdown, and model counts
+ * Returns health, auth, quota, account pool, rate limiter, budgets, memory, shutdown, and model counts
  * in a single request.
  */
 
 import { Hono } from "hono"
 
 import { getAdaptiveRateLimiter } from "~/lib/adaptive-rate-limiter"
+import { getBudgetSnapshot } from "~/lib/budgets"
 import { getRequestContextManager } from "~/lib/context/manager"
 import { getMemoryPressureStats } from "~/lib/history/memory-pressure"
 import { historyState } from "~/lib/history/store"
@@ -14,6 +15,7 @@ import { peekUpstreamWsManager } from "~/lib/openai/upstream-ws"
 import { getRequestTelemetrySnapshot } from "~/lib/request-telemetry"
 import { getIsShuttingDown, getShutdownPhase } from "~/lib/shutdown"
 import { serverStartTime, state } from "~/lib/state"
+import { getAccountPool } from "~/lib/token/account-pool"
 import { getCopilotUsage, type QuotaDetail } from "~/lib/token/copilot-client"
 
 import packageJson from "../../../package.json"
@@ -92,6 +94,8 @@ statusRoutes.get("/", async (c) => {
 
     quota,
 
+    accountPool: getAccountPool()?.getStatus(now) ?? null,
+
     activeRequests: {
       count: activeCount,
     },
@@ -100,6 +104,8 @@ statusRoutes.get("/", async (c) => {
 
     requestTelemetry,
 
+    budgets: getBudgetSnapshot(now),
+
     memory: {
       heapUsedMB: memStats.heapUsedMB,
       heapLimitMB: memStats.heapLimitMB,
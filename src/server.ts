@@ -3,6 +3,7 @@ import { Hono } from "hono"
 import { cors } from "hono/cors"
 import { trimTrailingSlash } from "hono/trailing-slash"
 
+import { apiKeyAuthMiddleware } from "./lib/api-key-auth"
 import { applyConfigToState } from "./lib/config/config"
 import { forwardError } from "./lib/error"
 import { state } from "./lib/state"
@@ -55,6 +56,9 @@ export function createServer(options: ServerOptions = {}) {
 
   server.use(tuiMiddleware())
   server.use(cors())
+  // Inbound API-key auth (no-op until config.yaml declares auth.api_keys).
+  // After cors() so preflight OPTIONS requests are answered without a key.
+  server.use(apiKeyAuthMiddleware())
   server.use(trimTrailingSlash())
 
   server.get("/", (c) => c.text("Server running"))
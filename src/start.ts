@@ -9,12 +9,14 @@ import type { Model } from "./lib/models/client"
 import packageJson from "../package.json"
 import { initAdaptiveRateLimiter } from "./lib/adaptive-rate-limiter"
 import { loadPersistedLimits } from "./lib/auto-truncate"
-import { applyConfigToState } from "./lib/config/config"
+import { initBudgets } from "./lib/budgets"
+import { setCassetteMode } from "./lib/cassettes"
+import { applyConfigToState, compileRateLimiterScheduling } from "./lib/config/config"
 import { PATHS, ensurePaths } from "./lib/config/paths"
 import { registerContextConsumers } from "./lib/context/consumers"
 import { initRequestContextManager } from "./lib/context/manager"
 import { cacheVSCodeVersion } from "./lib/copilot-api"
-import { initHistory, startMemoryPressureMonitor } from "./lib/history"
+import { initHistory, startHistoryPersistence, startMemoryPressureMonitor } from "./lib/history"
 import { cacheModels } from "./lib/models/client"
 import { getEffectiveEndpoints } from "./lib/models/endpoint"
 import { startModelRefreshLoop } from "./lib/models/refresh-loop"
@@ -22,8 +24,9 @@ import { initProxy } from "./lib/proxy"
 import { initRequestTelemetry } from "./lib/request-telemetry"
 import { startServer } from "./lib/serve"
 import { setServerInstance, setupShutdownHandlers, waitForShutdown } from "./lib/shutdown"
-import { setCliState, setServerStartTime, state } from "./lib/state"
-import { initTokenManagers } from "./lib/token"
+import { setCliState, setCopilotToken, setGitHubToken, setServerStartTime, state } from "./lib/state"
+import { ACCOUNT_ROUTING_STRATEGIES, initAccountPool, initTokenManagers } from "./lib/token"
+import { initTracing } from "./lib/tracing"
 import { initTuiLogger } from "./lib/tui"
 import { createWebSocketAdapter, setConnectedDataFactory } from "./lib/ws"
 import { registerWsRoutes } from "./routes"
@@ -96,6 +99,10 @@ interface RunServerOptions {
   httpProxyFromEnv: boolean
   autoTruncate: boolean
   externalUiUrl?: string
+  /** Write every upstream exchange to cassette files in this directory */
+  record?: string
+  /** Serve upstream responses from cassette files in this directory (no GitHub token needed) */
+  replay?: string
 }
 
 export async function runServer(options: RunServerOptions): Promise<void> {
@@ -106,6 +113,10 @@ export async function runServer(options: RunServerOptions): Promise<void> {
     consola.error(`Invalid account type: "${options.accountType}". Must be one of: ${VALID_ACCOUNT_TYPES.join(", ")}`)
     process.exit(1)
   }
+  if (options.record && options.replay) {
+    consola.error("--record and --replay cannot be used together")
+    process.exit(1)
+  }
   let externalUiUrl: string | undefined
   if (options.externalUiUrl) {
     try {
@@ -152,6 +163,14 @@ export async function runServer(options: RunServerOptions): Promise<void> {
   const proxyUrl = options.proxy ?? config.proxy
   initProxy({ url: proxyUrl, fromEnv: !proxyUrl && options.httpProxyFromEnv })
 
+  if (options.record) {
+    setCassetteMode({ mode: "record", dir: options.record })
+    consola.info(`Recording upstream traffic to ${options.record}`)
+  } else if (options.replay) {
+    setCassetteMode({ mode: "replay", dir: options.replay })
+    consola.info(`Replaying upstream traffic from ${options.replay} (no network access)`)
+  }
+
   // Rate limiter configuration (used in Phase 3)
   const rlConfig = config.rate_limiter
   const rlRetryInterval = rlConfig?.retry_interval ?? 10
@@ -168,12 +187,27 @@ export async function runServer(options: RunServerOptions): Promise<void> {
       requestIntervalSeconds: rlRequestInterval,
       recoveryTimeoutMinutes: rlRecoveryTimeout,
       consecutiveSuccessesForRecovery: rlConsecutiveSuccesses,
+      ...compileRateLimiterScheduling(rlConfig ?? {}),
     })
   }
 
   initHistory(true, state.historyLimit)
+  if (config.history?.persist) {
+    await startHistoryPersistence()
+  }
   startMemoryPressureMonitor()
   await initRequestTelemetry()
+  await initBudgets()
+
+  // OTLP trace export (startup-only; spans are built from request context events)
+  if (config.tracing?.endpoint) {
+    initTracing({
+      endpoint: config.tracing.endpoint,
+      headers: config.tracing.headers,
+      serviceName: config.tracing.service_name ?? "copilot-api",
+      serviceVersion: packageJson.version,
+    })
+  }
 
   // Initialize request context manager and register event consumers
   // Must be after initHistory so history store is ready to receive events
@@ -203,17 +237,56 @@ export async function runServer(options: RunServerOptions): Promise<void> {
   // ===========================================================================
   // Phase 4: External Dependencies (network)
   // ===========================================================================
-  // cacheVSCodeVersion is independent network call
-  await cacheVSCodeVersion()
+  if (options.replay) {
+    // Cassettes ignore auth headers; placeholders satisfy the token checks
+    setGitHubToken("replay")
+    setCopilotToken("replay")
+  } else {
+    // cacheVSCodeVersion is independent network call
+    await cacheVSCodeVersion()
 
-  // Initialize token management and authenticate
-  await initTokenManagers({ cliToken: options.githubToken })
+    // Initialize token management and authenticate
+    await initTokenManagers({ cliToken: options.githubToken })
+  }
+
+  // Additional upstream accounts (startup-only, each with its own token refresh loop)
+  const poolConfig = config.account_pool
+  if (!options.replay && poolConfig?.accounts && poolConfig.accounts.length > 0) {
+    const strategy = poolConfig.strategy ?? "round-robin"
+    if (!ACCOUNT_ROUTING_STRATEGIES.includes(strategy)) {
+      consola.error(`Invalid account_pool.strategy "${strategy}". Available: ${ACCOUNT_ROUTING_STRATEGIES.join(", ")}`)
+      process.exit(1)
+    }
+    const accounts = poolConfig.accounts.filter((account) => {
+      if (account.label && account.github_token) return true
+      consola.warn("[config] Ignoring account_pool.accounts entry without label or github_token")
+      return false
+    })
+    await initAccountPool(
+      {
+        strategy,
+        rateLimitCooldownSeconds: poolConfig.cooldown_seconds,
+        quotaCooldownSeconds: poolConfig.quota_cooldown_seconds,
+        accounts: accounts.map((account) => ({
+          label: account.label,
+          githubToken: account.github_token,
+          accountType: account.account_type ?? "individual",
+          vsCodeVersion: account.vscode_version,
+        })),
+      },
+      state.accountType,
+    )
+  }
 
   // Fetch available models from Copilot API
   try {
     await cacheModels()
   } catch (error) {
     consola.error("Failed to fetch models from Copilot API:", error instanceof Error ? error.message : error)
+    if (options.replay) {
+      consola.error(`No usable /models recording in ${options.replay}. Record one with --record first.`)
+      process.exit(1)
+    }
     consola.error(
       `Verify that --account-type "${state.accountType}" is correct. `
         + `Available types: ${VALID_ACCOUNT_TYPES.join(", ")}`,
@@ -354,6 +427,15 @@ export const start = defineCommand({
       type: "string",
       description: "Proxy /ui to an external frontend dev/build server (for example http://localhost:5173)",
     },
+    record: {
+      type: "string",
+      description: "Record every upstream request and response (including raw SSE) to cassette files in this directory",
+    },
+    replay: {
+      type: "string",
+      description:
+        "Serve upstream responses from cassette files in this directory instead of the network (no GitHub token)",
+    },
   },
   run({ args }) {
     // Check for unknown arguments
@@ -394,6 +476,9 @@ export const start = defineCommand({
       // external-ui-url
       "external-ui-url",
       "externalUiUrl",
+      // record / replay
+      "record",
+      "replay",
     ])
     const unknownArgs = Object.keys(args).filter((key) => !knownArgs.has(key))
     if (unknownArgs.length > 0) {
@@ -412,6 +497,8 @@ export const start = defineCommand({
       httpProxyFromEnv: args["http-proxy-from-env"],
       autoTruncate: args["auto-truncate"],
       externalUiUrl: args["external-ui-url"],
+      record: args.record,
+      replay: args.replay,
     })
   },
 })
@@ -0,0 +1,153 @@
+/**
+ * Google Gemini API types (`/v1beta/models/{model}:generateContent`).
+ *
+ * Our own definitions of the subset the proxy translates, in the REST API's
+ * camelCase JSON. Fields we only pass over (safety settings, cached content)
+ * are typed loosely.
+ */
+
+export type GeminiRole = "user" | "model" | "function"
+
+export interface GeminiContent {
+  /** Omitted on single-turn requests, where it defaults to `user` */
+  role?: GeminiRole
+  parts: Array<GeminiPart>
+}
+
+export interface GeminiPart {
+  text?: string
+  /** The part is a reasoning summary, not answer text */
+  thought?: boolean
+  /** Opaque reasoning state returned by Gemini models */
+  thoughtSignature?: string
+  inlineData?: GeminiBlob
+  fileData?: { mimeType?: string; fileUri: string }
+  functionCall?: GeminiFunctionCall
+  functionResponse?: GeminiFunctionResponse
+  executableCode?: unknown
+  codeExecutionResult?: unknown
+}
+
+export interface GeminiBlob {
+  mimeType: string
+  /** Base64-encoded bytes */
+  data: string
+}
+
+export interface GeminiFunctionCall {
+  /** Newer models set an id that the matching functionResponse echoes back */
+  id?: string
+  name: string
+  args?: Record<string, unknown>
+}
+
+export interface GeminiFunctionResponse {
+  id?: string
+  name: string
+  response: Record<string, unknown>
+}
+
+export interface GeminiFunctionDeclaration {
+  name: string
+  description?: string
+  /** OpenAPI-style schema (`type: "OBJECT"`, …) */
+  parameters?: Record<string, unknown>
+  /** Plain JSON Schema (alternative to `parameters`) */
+  parametersJsonSchema?: Record<string, unknown>
+}
+
+export interface GeminiTool {
+  functionDeclarations?: Array<GeminiFunctionDeclaration>
+  /** Built-in tools (googleSearch, codeExecution, urlContext, …) */
+  [builtin: string]: unknown
+}
+
+export interface GeminiToolConfig {
+  functionCallingConfig?: {
+    mode?: "MODE_UNSPECIFIED" | "AUTO" | "ANY" | "NONE" | "VALIDATED"
+    allowedFunctionNames?: Array<string>
+  }
+}
+
+export interface GeminiThinkingConfig {
+  includeThoughts?: boolean
+  /** Token budget; 0 disables thinking, -1 lets the model decide */
+  thinkingBudget?: number
+  thinkingLevel?: "low" | "medium" | "high"
+}
+
+export interface GeminiGenerationConfig {
+  stopSequences?: Array<string>
+  responseMimeType?: string
+  /** OpenAPI-style schema */
+  responseSchema?: Record<string, unknown>
+  /** Plain JSON Schema (alternative to `responseSchema`) */
+  responseJsonSchema?: Record<string, unknown>
+  candidateCount?: number
+  maxOutputTokens?: number
+  temperature?: number
+  topP?: number
+  topK?: number
+  seed?: number
+  presencePenalty?: number
+  frequencyPenalty?: number
+  thinkingConfig?: GeminiThinkingConfig
+}
+
+/** Request body of generateContent / streamGenerateContent */
+export interface GenerateContentRequest {
+  contents: Array<GeminiContent>
+  systemInstruction?: GeminiContent | string
+  tools?: Array<GeminiTool>
+  toolConfig?: GeminiToolConfig
+  generationConfig?: GeminiGenerationConfig
+  safetySettings?: Array<unknown>
+  cachedContent?: string
+}
+
+/**
+ * The request as the proxy handles it: the body plus the model and streaming
+ * mode, which the Gemini API takes from the URL.
+ */
+export interface GeminiGenerateContentPayload extends GenerateContentRequest {
+  model: string
+  stream: boolean
+}
+
+/** countTokens accepts either bare `contents` or a full generateContent request */
+export interface CountTokensRequest {
+  contents?: Array<GeminiContent>
+  generateContentRequest?: GenerateContentRequest & { model?: string }
+}
+
+export type GeminiFinishReason =
+  | "FINISH_REASON_UNSPECIFIED"
+  | "STOP"
+  | "MAX_TOKENS"
+  | "SAFETY"
+  | "RECITATION"
+  | "OTHER"
+  | "MALFORMED_FUNCTION_CALL"
+
+export interface GeminiCandidate {
+  index: number
+  content: { role: "model"; parts: Array<GeminiPart> }
+  /** Absent on stream chunks until the candidate is finished */
+  finishReason?: GeminiFinishReason
+}
+
+export interface GeminiUsageMetadata {
+  promptTokenCount: number
+  candidatesTokenCount: number
+  totalTokenCount: number
+  cachedContentTokenCount?: number
+  thoughtsTokenCount?: number
+}
+
+/** Non-streaming response, and each chunk of a streamed one */
+export interface GenerateContentResponse {
+  candidates?: Array<GeminiCandidate>
+  usageMetadata?: GeminiUsageMetadata
+  modelVersion?: string
+  responseId?: string
+}
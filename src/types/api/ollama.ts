@@ -0,0 +1,153 @@
+/**
+ * Ollama API types (`/api/chat`, `/api/generate`, `/api/tags`, `/api/show`).
+ *
+ * Our own definitions of the subset local-model tooling sends. Runtime options
+ * that only make sense for a local runner (`num_ctx`, `num_gpu`, mirostat, …)
+ * are accepted and ignored, so `options` is typed loosely.
+ */
+
+export type OllamaRole = "system" | "user" | "assistant" | "tool"
+
+/** `think` accepts a level on models with graded reasoning */
+export type OllamaThink = boolean | "low" | "medium" | "high"
+
+/** `"json"` for any JSON object, or a JSON schema */
+export type OllamaFormat = "json" | Record<string, unknown>
+
+export interface OllamaOptions {
+  temperature?: number
+  top_p?: number
+  top_k?: number
+  /** Max tokens to generate; -1 (infinite) and -2 (fill context) mean no limit */
+  num_predict?: number
+  stop?: Array<string>
+  seed?: number
+  presence_penalty?: number
+  frequency_penalty?: number
+  [key: string]: unknown
+}
+
+export interface OllamaToolCall {
+  function: {
+    index?: number
+    name: string
+    /** Parsed arguments, unlike Chat Completions' JSON string */
+    arguments: Record<string, unknown>
+  }
+}
+
+export interface OllamaMessage {
+  role: OllamaRole
+  content: string
+  thinking?: string
+  /** Base64-encoded images, without a data URL prefix */
+  images?: Array<string>
+  tool_calls?: Array<OllamaToolCall>
+  /** Name of the tool whose result a `tool` message carries */
+  tool_name?: string
+}
+
+export interface OllamaTool {
+  type: "function"
+  function: {
+    name: string
+    description?: string
+    parameters?: Record<string, unknown>
+  }
+}
+
+export interface OllamaRequestBase {
+  model: string
+  format?: OllamaFormat
+  options?: OllamaOptions
+  /** Defaults to true */
+  stream?: boolean
+  think?: OllamaThink
+  keep_alive?: string | number
+}
+
+export interface OllamaChatRequest extends OllamaRequestBase {
+  /** Empty or omitted to (pre)load the model */
+  messages?: Array<OllamaMessage>
+  tools?: Array<OllamaTool>
+}
+
+export interface OllamaGenerateRequest extends OllamaRequestBase {
+  /** Empty or omitted to (pre)load the model */
+  prompt?: string
+  suffix?: string
+  system?: string
+  images?: Array<string>
+  template?: string
+  raw?: boolean
+  /** Token context returned by an earlier generate call (deprecated upstream) */
+  context?: Array<number>
+}
+
+/** Timing and token counts sent with the final (`done: true`) response */
+export interface OllamaMetrics {
+  /** Nanoseconds */
+  total_duration?: number
+  prompt_eval_count?: number
+  eval_count?: number
+}
+
+export type OllamaDoneReason = "stop" | "length" | "load"
+
+export interface OllamaChatResponse extends OllamaMetrics {
+  model: string
+  created_at: string
+  message: OllamaMessage
+  done: boolean
+  done_reason?: OllamaDoneReason
+}
+
+export interface OllamaGenerateResponse extends OllamaMetrics {
+  model: string
+  created_at: string
+  response: string
+  thinking?: string
+  done: boolean
+  done_reason?: OllamaDoneReason
+}
+
+export interface OllamaModelDetails {
+  parent_model: string
+  format: string
+  family: string
+  families: Array<string>
+  parameter_size: string
+  quantization_level: string
+}
+
+export interface OllamaModelEntry {
+  name: string
+  model: string
+  modified_at: string
+  size: number
+  digest: string
+  details: OllamaModelDetails
+  /** Not part of Ollama's schema: the model's context window, when Copilot reports one */
+  context_length?: number
+}
+
+export interface OllamaTagsResponse {
+  models: Array<OllamaModelEntry>
+}
+
+export interface OllamaShowRequest {
+  model?: string
+  /** Older clients send `name` */
+  name?: string
+}
+
+export interface OllamaShowResponse {
+  modelfile: string
+  parameters: string
+  template: string
+  details: OllamaModelDetails
+  /** GGUF-style metadata; clients read `<architecture>.context_length` */
+  model_info: Record<string, string | number>
+  capabilities: Array<string>
+  modified_at: string
+}
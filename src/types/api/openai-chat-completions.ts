@@ -121,6 +121,7 @@ export interface ChatCompletionsPayload {
   top_logprobs?: number | null
   response_format?: ResponseFormat | null
   seed?: number | null
+  reasoning_effort?: "low" | "medium" | "high" | null
   tools?: Array<Tool> | null
   tool_choice?: "none" | "auto" | "required" | { type: "function"; function: { name: string } } | null
   parallel_tool_calls?: boolean | null
@@ -0,0 +1,46 @@
+/**
+ * Legacy OpenAI Completions API types (`/v1/completions`).
+ *
+ * Responses and stream chunks share one shape (`object: "text_completion"`),
+ * taken from the `openai` SDK. The request type is our own: we only accept
+ * text prompts, not token-id arrays.
+ */
+
+import type { Completion, CompletionChoice } from "openai/resources/completions"
+
+export type CompletionResponse = Completion
+export type CompletionResponseChoice = CompletionChoice
+export type CompletionLogprobs = CompletionChoice.Logprobs
+export type CompletionFinishReason = CompletionChoice["finish_reason"]
+
+export interface CompletionsPayload {
+  model: string
+  prompt: string | Array<string>
+  suffix?: string | null
+  max_tokens?: number | null
+  temperature?: number | null
+  top_p?: number | null
+  n?: number | null
+  stream?: boolean | null
+  stream_options?: { include_usage?: boolean } | null
+  /** Number of most likely tokens to return log probabilities for (0–5) */
+  logprobs?: number | null
+  /** Prepend the prompt to each completion */
+  echo?: boolean | null
+  stop?: string | Array<string> | null
+  presence_penalty?: number | null
+  frequency_penalty?: number | null
+  best_of?: number | null
+  logit_bias?: Record<string, number> | null
+  seed?: number | null
+  user?: string | null
+}
+
+/** Streaming chunk: same shape as the response, but `finish_reason` is null until the last chunk */
+export interface CompletionChunk extends Omit<Completion, "choices"> {
+  choices: Array<CompletionChunkChoice>
+}
+
+export interface CompletionChunkChoice extends Omit<CompletionChoice, "finish_reason"> {
+  finish_reason: CompletionFinishReason | null
+}
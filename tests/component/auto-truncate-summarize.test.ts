@@ -0,0 +1,163 @@
+/**
+ * Component tests for the summarize auto-truncate mode.
+ *
+ * Tests: summary splicing for Anthropic & OpenAI formats, per-session
+ * summary cache, incremental re-summarization, fallback to truncation.
+ */
+
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test"
+
+import type { Model } from "~/lib/models/client"
+import type { MessagesPayload } from "~/types/api/anthropic"
+import type { ChatCompletionResponse, ChatCompletionsPayload } from "~/types/api/openai-chat-completions"
+
+import { autoTruncateAnthropic } from "~/lib/anthropic/auto-truncate"
+import { resetAllLimitsForTesting } from "~/lib/auto-truncate"
+import {
+  SUMMARY_REQUEST_TEXT,
+  SUMMARY_RESPONSE_PREFIX,
+  resetSummaryCacheForTesting,
+} from "~/lib/auto-truncate/summarize"
+import { autoTruncateOpenAI } from "~/lib/openai/auto-truncate"
+import * as chatClient from "~/lib/openai/chat-completions-client"
+import {
+  type StateSnapshot,
+  restoreStateForTests,
+  setAutoTruncateConfig,
+  setModels,
+  snapshotStateForTests,
+} from "~/lib/state"
+import { runWithRoutingSession } from "~/lib/token/account-context"
+
+import { mockModel } from "../helpers/factories"
+
+// Same sizing as auto-truncate.test.ts: 100 × 10KB messages exceed a 50K token window
+const targetModel = mockModel("claude-sonnet-4", {
+  capabilities: {
+    tokenizer: "o200k_base",
+    limits: { max_prompt_tokens: 50000, max_output_tokens: 16000, max_context_window_tokens: 50000 },
+  },
+} as Partial<Model>)
+
+let snapshot: StateSnapshot
+let summarizerSpy: ReturnType<typeof spyOn<typeof chatClient, "createChatCompletions">>
+let summaryPrompts: Array<string>
+
+function summaryResponse(text: string): ChatCompletionResponse {
+  return {
+    id: "chatcmpl-summary",
+    object: "chat.completion",
+    created: 1,
+    model: "claude-haiku-4.5",
+    choices: [{ index: 0, message: { role: "assistant", content: text }, finish_reason: "stop", logprobs: null }],
+  }
+}
+
+function conversation(count: number): Array<{ role: "user" | "assistant"; content: string }> {
+  return Array.from({ length: count }, (_, i) => ({
+    role: i % 2 === 0 ? "user" : "assistant",
+    content: `turn ${i} ` + "x".repeat(10000),
+  }))
+}
+
+beforeEach(() => {
+  snapshot = snapshotStateForTests()
+  resetAllLimitsForTesting()
+  resetSummaryCacheForTesting()
+  setModels({ object: "list", data: [targetModel, mockModel("claude-haiku-4.5")] })
+  setAutoTruncateConfig({ autoTruncateMode: "summarize" })
+
+  summaryPrompts = []
+  summarizerSpy = spyOn(chatClient, "createChatCompletions").mockImplementation((payload: ChatCompletionsPayload) => {
+    summaryPrompts.push(payload.messages.at(-1)?.content as string)
+    return Promise.resolve(summaryResponse(`summary #${summaryPrompts.length}`))
+  })
+})
+
+afterEach(() => {
+  summarizerSpy.mockRestore()
+  restoreStateForTests(snapshot)
+})
+
+describe("Auto-Truncate summarize mode (Anthropic)", () => {
+  test("splices the summary in as a user/assistant exchange before the preserved messages", async () => {
+    const payload: MessagesPayload = { model: "claude-sonnet-4", max_tokens: 1024, messages: conversation(100) }
+
+    const result = await runWithRoutingSession("session-a", () => autoTruncateAnthropic(payload, targetModel))
+
+    expect(result.wasTruncated).toBe(true)
+    expect(summarizerSpy).toHaveBeenCalledTimes(1)
+    expect(summarizerSpy.mock.calls[0][0]).toMatchObject({ model: "claude-haiku-4.5", stream: false })
+    expect(result.payload.messages.slice(0, 2)).toEqual([
+      { role: "user", content: SUMMARY_REQUEST_TEXT },
+      { role: "assistant", content: `${SUMMARY_RESPONSE_PREFIX}summary #1` },
+    ])
+    expect(result.payload.messages[2]?.role).toBe("user")
+    // The summary replaces the truncation note
+    expect(result.payload.system).toBeUndefined()
+    expect(summaryPrompts[0].includes("turn 0 ")).toBe(true)
+  })
+
+  test("reuses the cached summary and only sends newly removed messages", async () => {
+    const first: MessagesPayload = { model: "claude-sonnet-4", max_tokens: 1024, messages: conversation(100) }
+    await runWithRoutingSession("session-a", () => autoTruncateAnthropic(first, targetModel))
+    await runWithRoutingSession("session-a", () => autoTruncateAnthropic(first, targetModel))
+    expect(summarizerSpy).toHaveBeenCalledTimes(1)
+
+    const grown: MessagesPayload = { ...first, messages: conversation(110) }
+    const result = await runWithRoutingSession("session-a", () => autoTruncateAnthropic(grown, targetModel))
+
+    expect(summarizerSpy).toHaveBeenCalledTimes(2)
+    expect(summaryPrompts[1].includes("summary #1")).toBe(true)
+    expect(summaryPrompts[1].includes("turn 0 ")).toBe(false)
+    expect(result.payload.messages[1]?.content).toBe(`${SUMMARY_RESPONSE_PREFIX}summary #2`)
+
+    // Another session does not see session-a's summaries
+    await runWithRoutingSession("session-b", () => autoTruncateAnthropic(first, targetModel))
+    expect(summarizerSpy).toHaveBeenCalledTimes(3)
+  })
+
+  test("does not cache summaries of requests without a session id", async () => {
+    const payload: MessagesPayload = { model: "claude-sonnet-4", max_tokens: 1024, messages: conversation(100) }
+    await autoTruncateAnthropic(payload, targetModel)
+    await autoTruncateAnthropic(payload, targetModel)
+
+    expect(summarizerSpy).toHaveBeenCalledTimes(2)
+  })
+
+  test("falls back to the truncation note when summarization fails", async () => {
+    summarizerSpy.mockImplementation(() => Promise.reject(new Error("upstream down")))
+    const payload: MessagesPayload = {
+      model: "claude-sonnet-4",
+      max_tokens: 1024,
+      system: "You are helpful.",
+      messages: conversation(100),
+    }
+
+    const result = await autoTruncateAnthropic(payload, targetModel)
+
+    expect(result.wasTruncated).toBe(true)
+    expect(result.payload.system).toContain("[CONVERSATION CONTEXT]")
+    expect(result.payload.messages[0]?.content).not.toBe(SUMMARY_REQUEST_TEXT)
+  })
+})
+
+describe("Auto-Truncate summarize mode (OpenAI)", () => {
+  test("keeps system messages first and splices the summary after them", async () => {
+    const payload: ChatCompletionsPayload = {
+      model: "claude-sonnet-4",
+      messages: [{ role: "system", content: "You are helpful." }, ...conversation(100)],
+    }
+
+    const result = await autoTruncateOpenAI(payload, targetModel)
+
+    expect(result.wasTruncated).toBe(true)
+    expect(summarizerSpy).toHaveBeenCalledTimes(1)
+    expect(result.payload.messages.slice(0, 3)).toEqual([
+      { role: "system", content: "You are helpful." },
+      { role: "user", content: SUMMARY_REQUEST_TEXT },
+      { role: "assistant", content: `${SUMMARY_RESPONSE_PREFIX}summary #1` },
+    ])
+    expect(result.payload.messages[3]?.role).toBe("user")
+  })
+})
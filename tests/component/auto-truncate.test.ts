@@ -25,7 +25,11 @@ import {
   hasKnownLimits,
   onTokenLimitExceeded,
   resetAllLimitsForTesting,
+  resetModelLimits,
+  seedModelLimits,
+  setModelLimits,
   tryParseAndLearnLimit,
+  updateCalibration,
 } from "~/lib/auto-truncate"
 import { HTTPError } from "~/lib/error"
 import { autoTruncateOpenAI, checkNeedsCompactionOpenAI } from "~/lib/openai/auto-truncate"
@@ -786,6 +790,64 @@ describe("hasKnownLimits", () => {
   })
 })
 
+describe("Model limit seeds and overrides", () => {
+  beforeEach(() => {
+    resetAllLimitsForTesting()
+  })
+
+  test("seeds limits from config without replacing learned ones", () => {
+    onTokenLimitExceeded("gpt-4o", 128000, 130000)
+    seedModelLimits({ "claude-sonnet-4": 168000, "gpt-4o": 100000 })
+
+    expect(getLearnedLimits("claude-sonnet-4")).toMatchObject({ tokenLimit: 168000, source: "config" })
+    expect(getLearnedLimits("gpt-4o")).toMatchObject({ tokenLimit: 128000, source: "learned" })
+  })
+
+  test("forgets seeds removed from the config", () => {
+    seedModelLimits({ "claude-sonnet-4": 168000 })
+    seedModelLimits({})
+    expect(hasKnownLimits("claude-sonnet-4")).toBe(false)
+  })
+
+  test("manual overrides validate their values", () => {
+    expect(setModelLimits("claude-sonnet-4", { tokenLimit: 90000, calibrationFactor: 1.2 })).toMatchObject({
+      tokenLimit: 90000,
+      calibrationFactor: 1.2,
+      source: "manual",
+      pinned: false,
+    })
+    expect(() => setModelLimits("gpt-4o", { calibrationFactor: 1.2 })).toThrow(RangeError)
+    expect(() => setModelLimits("claude-sonnet-4", { tokenLimit: 1.5 })).toThrow(RangeError)
+    expect(() => setModelLimits("claude-sonnet-4", { calibrationFactor: 5 })).toThrow(RangeError)
+  })
+
+  test("pinned limits ignore token limit errors and calibration samples", () => {
+    setModelLimits("claude-sonnet-4", { tokenLimit: 90000, pinned: true })
+    onTokenLimitExceeded("claude-sonnet-4", 80000, 100000, 60000)
+    updateCalibration("claude-sonnet-4", 100000, 60000)
+
+    expect(getLearnedLimits("claude-sonnet-4")).toMatchObject({
+      tokenLimit: 90000,
+      calibrationFactor: 1,
+      sampleCount: 0,
+    })
+  })
+
+  test("pinning a config seed takes it over as a manual entry", () => {
+    seedModelLimits({ "claude-sonnet-4": 168000 })
+    expect(setModelLimits("claude-sonnet-4", { pinned: true })).toMatchObject({ source: "manual", pinned: true })
+  })
+
+  test("reset falls back to the configured seed", () => {
+    seedModelLimits({ "claude-sonnet-4": 168000 })
+    setModelLimits("claude-sonnet-4", { tokenLimit: 90000 })
+
+    expect(resetModelLimits("claude-sonnet-4")).toBe(true)
+    expect(getLearnedLimits("claude-sonnet-4")).toMatchObject({ tokenLimit: 168000, source: "config" })
+    expect(resetModelLimits("gpt-4o")).toBe(false)
+  })
+})
+
 describe("Tiered compression (Step 2.5 / Step 1.5)", () => {
   // Model with a very low token limit to force compression
   const tinyModel: Model = {
@@ -199,6 +199,19 @@ openai-responses:
     expect(state.upstreamWebSocket).toBe(true)
   })
 
+  test("applies openai-responses local store settings", async () => {
+    await writeConfig(`
+openai-responses:
+  local_store: false
+  store_max_entries: 50
+  store_ttl_seconds: 600
+`)
+    await applyConfigToState()
+    expect(state.responsesLocalStore).toBe(false)
+    expect(state.responsesStoreMaxEntries).toBe(50)
+    expect(state.responsesStoreTtl).toBe(600)
+  })
+
   test("leaves upstreamWebSocket unchanged when config has no openai-responses section", async () => {
     setStateForTests({ upstreamWebSocket: true })
     await writeConfig("fetch_timeout: 30\n")
@@ -334,6 +347,23 @@ system_prompt_overrides:
     // Should NOT be reset to []
     expect(state.systemPromptOverrides).toHaveLength(1)
   })
+
+  test("auth.api_keys: compiles policies with default labels and skips entries without a key", async () => {
+    await writeConfig(`
+auth:
+  api_keys:
+    - key: sk-team-a
+      label: team-a
+      allowed_models: [gpt-4o, "claude-*"]
+    - key: sk-anonymous-1234
+    - label: missing-key
+`)
+    await applyConfigToState()
+    expect(state.apiKeys).toEqual([
+      { key: "sk-team-a", label: "team-a", allowedModels: ["gpt-4o", "claude-*"] },
+      { key: "sk-anonymous-1234", label: "key-…1234" },
+    ])
+  })
 })
 
 describe("applyConfigToState: empty / missing config", () => {
@@ -396,6 +426,66 @@ history:
     expect(state.historyLimit).toBe(50)
     expect(historyState.maxEntries).toBe(50)
   })
+
+  test("applies persisted-history retention limits", async () => {
+    await writeConfig(`
+history:
+  retention_days: 30
+  max_disk_mb: 256
+`)
+    await applyConfigToState()
+
+    expect(state.historyRetentionDays).toBe(30)
+    expect(state.historyMaxDiskMb).toBe(256)
+  })
+})
+
+describe("applyConfigToState: response_cache", () => {
+  test("applies the response cache settings", async () => {
+    await writeConfig(`
+response_cache:
+  enabled: true
+  ttl_seconds: 3600
+  max_entries: 25
+`)
+    await applyConfigToState()
+
+    expect(state.responseCacheEnabled).toBe(true)
+    expect(state.responseCacheTtl).toBe(3600)
+    expect(state.responseCacheMaxEntries).toBe(25)
+  })
+})
+
+describe("applyConfigToState: auto_truncate", () => {
+  test("applies the summarize mode and summary model settings", async () => {
+    await writeConfig(`
+auto_truncate:
+  mode: summarize
+  summary_model: gpt-4.1-mini
+  summary_max_tokens: 1024
+`)
+    await applyConfigToState()
+
+    expect(state.autoTruncateMode).toBe("summarize")
+    expect(state.autoTruncateSummaryModel).toBe("gpt-4.1-mini")
+    expect(state.autoTruncateSummaryMaxTokens).toBe(1024)
+  })
+})
+
+describe("applyConfigToState: repetition_detector", () => {
+  test("applies the repetition policy and thresholds", async () => {
+    await writeConfig(`
+repetition_detector:
+  policy: abort-and-retry
+  min_pattern_length: 20
+  min_repetitions: 4
+`)
+    await applyConfigToState()
+
+    expect(state.repetitionPolicy).toBe("abort-and-retry")
+    expect(state.repetitionMinPatternLength).toBe(20)
+    expect(state.repetitionMinRepetitions).toBe(4)
+  })
 })
 
 describe("config-managed defaults", () => {
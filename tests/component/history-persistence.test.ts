@@ -0,0 +1,145 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test"
+import fs from "node:fs/promises"
+import os from "node:os"
+import path from "node:path"
+
+import type { HistoryEntry } from "~/lib/history"
+
+import {
+  deleteSession,
+  getCurrentSession,
+  getEntry,
+  getHistory,
+  getHistorySummaries,
+  getSession,
+  getSessionEntries,
+  historyState,
+  initHistory,
+  insertEntry,
+  pruneHistoryStorage,
+  startHistoryPersistence,
+  stopHistoryPersistence,
+  updateEntry,
+} from "~/lib/history"
+import { getHistoryBackend } from "~/lib/history/disk-store"
+import { type StateSnapshot, restoreStateForTests, setHistoryConfig, snapshotStateForTests } from "~/lib/state"
+import { generateId } from "~/lib/utils"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+let tmpDir: string
+let snapshot: StateSnapshot
+
+/** Insert an entry and settle it with a response (which triggers persistence) */
+function settleEntry(sessionId: string, text: string, startedAt = Date.now()): HistoryEntry {
+  const entry: HistoryEntry = {
+    id: generateId(),
+    sessionId: getCurrentSession("anthropic-messages", sessionId),
+    startedAt,
+    endpoint: "anthropic-messages",
+    request: { model: "claude-sonnet-4", messages: [{ role: "user", content: text }], stream: false },
+  }
+  insertEntry(entry)
+  updateEntry(entry.id, {
+    state: "completed",
+    response: {
+      success: true,
+      model: "claude-sonnet-4",
+      usage: { input_tokens: 10, output_tokens: 5 },
+      content: { role: "assistant", content: `reply to ${text}` },
+    },
+  })
+  return entry
+}
+
+/** Simulate a process restart: flush, drop in-memory state, reload from disk */
+async function restart(maxEntries = 200): Promise<void> {
+  await stopHistoryPersistence()
+  initHistory(true, maxEntries)
+  await startHistoryPersistence({ dir: tmpDir })
+}
+
+beforeEach(async () => {
+  snapshot = snapshotStateForTests()
+  tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "history-persist-test-"))
+  initHistory(true, 200)
+  await startHistoryPersistence({ dir: tmpDir })
+})
+
+afterEach(async () => {
+  await stopHistoryPersistence()
+  initHistory(true, 200)
+  restoreStateForTests(snapshot)
+  await fs.rm(tmpDir, { recursive: true, force: true })
+})
+
+describe("history persistence", () => {
+  test("restores settled entries and sessions after a restart", async () => {
+    const first = settleEntry("session-a", "hello", Date.now() - 1000)
+    settleEntry("session-a", "again")
+
+    await restart()
+
+    expect(historyState.entries).toHaveLength(0)
+    expect(getHistorySummaries().entries.map((summary) => summary.previewText)).toEqual(["again", "hello"])
+    expect(getEntry(first.id)?.response?.content).toEqual({ role: "assistant", content: "reply to hello" })
+    expect(getSession("session-a")).toMatchObject({
+      requestCount: 2,
+      totalInputTokens: 20,
+      totalOutputTokens: 10,
+      models: ["claude-sonnet-4"],
+    })
+    expect(getSessionEntries("session-a").entries.map((entry) => entry.id)[0]).toBe(first.id)
+  })
+
+  test("orders entries started in the same millisecond newest first", async () => {
+    const startedAt = Date.now()
+    const ids = [1, 2, 3].map((n) => settleEntry("session-f", `same ms ${n}`, startedAt).id)
+    const newestFirst = [...ids].reverse()
+
+    expect(getHistorySummaries().entries.map((summary) => summary.id)).toEqual(newestFirst)
+    expect(getHistory().entries.map((entry) => entry.id)).toEqual(newestFirst)
+
+    await restart()
+
+    expect(getHistorySummaries().entries.map((summary) => summary.id)).toEqual(newestFirst)
+    expect(getHistory({ search: "same ms" }).entries.map((entry) => entry.id)).toEqual(newestFirst)
+    expect(getSessionEntries("session-f").entries.map((entry) => entry.id)).toEqual(ids)
+  })
+
+  test("keeps evicted entries pageable and readable from disk", async () => {
+    initHistory(true, 2)
+    const entries = [1, 2, 3, 4].map((n) => settleEntry("session-b", `message ${n}`))
+    await getHistoryBackend()?.flush()
+
+    expect(historyState.entries).toHaveLength(2)
+    expect(getHistorySummaries().total).toBe(4)
+    expect(getEntry(entries[0].id)?.request.messages).toEqual([{ role: "user", content: "message 1" }])
+    expect(getSessionEntries("session-b").total).toBe(4)
+    expect(getHistorySummaries({ search: "message 1" }).entries.map((summary) => summary.id)).toEqual([entries[0].id])
+  })
+
+  test("retention drops days older than retention_days", async () => {
+    setHistoryConfig({ historyRetentionDays: 3 })
+    const old = settleEntry("session-c", "old", Date.now() - 10 * DAY_MS)
+    const recent = settleEntry("session-c", "recent")
+
+    expect(await pruneHistoryStorage()).toBe(1)
+    await restart()
+
+    expect(getEntry(old.id)).toBeUndefined()
+    expect(getEntry(recent.id)).toBeDefined()
+    expect(getSession("session-c")?.requestCount).toBe(1)
+  })
+
+  test("deleteSession removes persisted entries", async () => {
+    settleEntry("session-d", "secret")
+    const kept = settleEntry("session-e", "keep")
+
+    expect(deleteSession("session-d")).toBe(true)
+    await restart()
+
+    expect(getSession("session-d")).toBeUndefined()
+    expect(getHistorySummaries().entries.map((summary) => summary.id)).toEqual([kept.id])
+  })
+})
@@ -701,6 +701,28 @@ describe("getHistorySummaries", () => {
     expect(result.total).toBe(1)
   })
 
+  test("search text is rebuilt after a response update and kept out of summaries", () => {
+    const entry = createEntry("anthropic-messages", {
+      model: "test",
+      messages: [{ role: "user", content: "hi" }],
+    })
+    expect(getHistorySummaries({ search: "overloaded" }).total).toBe(0)
+
+    updateEntry(entry.id, {
+      response: {
+        success: false,
+        model: "test",
+        usage: { input_tokens: 0, output_tokens: 0 },
+        error: "overloaded_error: server busy",
+        content: null,
+      },
+    })
+
+    const result = getHistorySummaries({ search: "overloaded" })
+    expect(result.total).toBe(1)
+    expect(result.entries[0]).not.toHaveProperty("searchText")
+  })
+
   test("filters by sessionId", () => {
     const entry = createEntry("anthropic-messages", {
       model: "test",
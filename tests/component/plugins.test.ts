@@ -0,0 +1,307 @@
+/**
+ * Component tests for config.yaml hook plugins: loading, and how the pipeline
+ * runs each hook and records it in pipelineInfo.
+ */
+
+import type { ServerSentEventMessage } from "fetch-event-stream"
+
+import { afterEach, describe, expect, mock, test } from "bun:test"
+import fs from "node:fs/promises"
+import os from "node:os"
+import path from "node:path"
+
+import { createRequestContext } from "~/lib/context/request"
+import { HTTPError } from "~/lib/error"
+import {
+  applyWireRequestHooks,
+  getPlugins,
+  loadPlugins,
+  PluginVetoError,
+  runWithPluginScope,
+  setPluginsForTesting,
+} from "~/lib/plugins"
+import { executeRequestPipeline } from "~/lib/request/pipeline"
+
+import { createMockAdapter } from "../helpers/mock-adapter"
+import { createMockStrategy, createRetryStrategy } from "../helpers/mock-strategy"
+
+type TestPayload = { model: string; messages: Array<string>; tools?: Array<string> }
+
+function makeContext() {
+  return createRequestContext({ endpoint: "anthropic-messages", onEvent: () => {} })
+}
+
+function payload(): TestPayload {
+  return { model: "test-model", messages: ["hello"] }
+}
+
+async function* sse(events: Array<string>): AsyncGenerator<ServerSentEventMessage> {
+  for (const data of events) {
+    await Promise.resolve()
+    yield { data, event: "message" } as ServerSentEventMessage
+  }
+}
+
+afterEach(() => {
+  setPluginsForTesting([])
+})
+
+describe("plugin request hooks", () => {
+  test("onRequest rewrites the effective payload on every attempt", async () => {
+    setPluginsForTesting([
+      {
+        name: "inject-tools",
+        onRequest(request) {
+          const p = request.payload as unknown as TestPayload
+          p.tools = ["search"]
+        },
+      },
+    ])
+    const reqCtx = makeContext()
+    let calls = 0
+    const execute = mock((p: TestPayload) => {
+      calls++
+      if (calls === 1) return Promise.reject(new HTTPError("Too large", 413, ""))
+      return Promise.resolve({ result: { seen: p.tools }, queueWaitMs: 0 })
+    })
+
+    const result = await executeRequestPipeline({
+      adapter: createMockAdapter<TestPayload>({ execute }),
+      strategies: [createRetryStrategy<TestPayload>(payload())],
+      payload: payload(),
+      originalPayload: payload(),
+      model: undefined,
+      requestContext: reqCtx,
+    })
+
+    expect(result.response).toEqual({ seen: ["search"] })
+    expect(reqCtx.attempts[1].effectiveRequest?.payload).toMatchObject({ tools: ["search"] })
+    expect(reqCtx.pipelineInfo?.plugins).toEqual([
+      expect.objectContaining({ plugin: "inject-tools", hook: "onRequest", attempt: 0, changedFields: ["tools"] }),
+      expect.objectContaining({ plugin: "inject-tools", hook: "onRequest", attempt: 1, changedFields: ["tools"] }),
+    ])
+  })
+
+  test("onRequest applies once per attempt when a strategy retries with the same payload", async () => {
+    setPluginsForTesting([
+      {
+        name: "append-tool",
+        onRequest(request) {
+          const p = request.payload as unknown as TestPayload
+          p.tools = [...(p.tools ?? []), "search"]
+        },
+      },
+    ])
+    const reqCtx = makeContext()
+    const execute = mock((p: TestPayload) =>
+      execute.mock.calls.length === 1 ?
+        Promise.reject(new HTTPError("Bad gateway", 502, ""))
+      : Promise.resolve({ result: { seen: p.tools }, queueWaitMs: 0 }),
+    )
+    // Like network-retry: retry with the payload the strategy was handed
+    const sameAgain = createMockStrategy<TestPayload>({
+      canHandle: () => true,
+      handle: (_error, current) => Promise.resolve({ action: "retry", payload: current }),
+    })
+
+    const result = await executeRequestPipeline({
+      adapter: createMockAdapter<TestPayload>({ execute }),
+      strategies: [sameAgain],
+      payload: payload(),
+      originalPayload: payload(),
+      model: undefined,
+      requestContext: reqCtx,
+    })
+
+    expect(result.response).toEqual({ seen: ["search"] })
+    // What a repetition retry re-sends, so the hook is not applied on top of itself
+    expect(result.requestPayload).toEqual(payload())
+    expect(reqCtx.attempts.map((attempt) => attempt.effectiveRequest?.payload)).toEqual([
+      expect.objectContaining({ tools: ["search"] }),
+      expect.objectContaining({ tools: ["search"] }),
+    ])
+  })
+
+  test("a veto stops the request before upstream and reaches onError", async () => {
+    const onError = mock(() => {})
+    setPluginsForTesting([
+      {
+        name: "gatekeeper",
+        onRequest(_request, ctx) {
+          ctx.veto("model not allowed", 400)
+        },
+        onError,
+      },
+    ])
+    const reqCtx = makeContext()
+    const execute = mock(() => Promise.resolve({ result: {}, queueWaitMs: 0 }))
+
+    const run = executeRequestPipeline({
+      adapter: createMockAdapter<TestPayload>({ execute }),
+      strategies: [],
+      payload: payload(),
+      originalPayload: payload(),
+      model: undefined,
+      requestContext: reqCtx,
+    })
+
+    const error = await run.catch((e: unknown) => e)
+    expect(error).toBeInstanceOf(PluginVetoError)
+    expect((error as HTTPError).status).toBe(400)
+    expect((error as HTTPError).message).toBe('Request rejected by plugin "gatekeeper": model not allowed')
+    expect(execute).not.toHaveBeenCalled()
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 400, message: expect.stringContaining("model not allowed") }),
+      expect.objectContaining({ requestId: reqCtx.id }),
+    )
+    expect(reqCtx.pipelineInfo?.plugins?.map((run) => [run.hook, run.vetoed])).toEqual([
+      ["onRequest", true],
+      ["onError", undefined],
+    ])
+  })
+
+  test("a failing hook is recorded and its partial changes are discarded", async () => {
+    setPluginsForTesting([
+      {
+        name: "broken",
+        onRequest(request) {
+          ;(request.payload as unknown as TestPayload).messages.push("half-done")
+          throw new Error("boom")
+        },
+      },
+    ])
+    const reqCtx = makeContext()
+    const execute = mock((p: TestPayload) => Promise.resolve({ result: p.messages, queueWaitMs: 0 }))
+
+    const result = await executeRequestPipeline({
+      adapter: createMockAdapter<TestPayload>({ execute }),
+      strategies: [],
+      payload: payload(),
+      originalPayload: payload(),
+      model: undefined,
+      requestContext: reqCtx,
+    })
+
+    expect(result.response).toEqual(["hello"])
+    expect(reqCtx.pipelineInfo?.plugins).toEqual([
+      expect.objectContaining({ plugin: "broken", hook: "onRequest", error: "boom" }),
+    ])
+  })
+
+  test("onWireRequest only runs inside a plugin scope", async () => {
+    setPluginsForTesting([
+      {
+        name: "redact",
+        onWireRequest(request) {
+          return { ...request.payload, messages: ["[redacted]"] } as unknown as typeof request.payload
+        },
+      },
+    ])
+    const reqCtx = makeContext()
+    reqCtx.beginAttempt({})
+
+    expect(await applyWireRequestHooks("anthropic-messages", payload())).toEqual(payload())
+    const wire = await runWithPluginScope(reqCtx, () => applyWireRequestHooks("anthropic-messages", payload()))
+
+    expect(wire.messages).toEqual(["[redacted]"])
+    expect(reqCtx.pipelineInfo?.plugins).toEqual([
+      expect.objectContaining({ plugin: "redact", hook: "onWireRequest", changedFields: ["messages"] }),
+    ])
+  })
+})
+
+describe("plugin response hooks", () => {
+  test("onResponse rewrites non-streaming bodies", async () => {
+    setPluginsForTesting([
+      {
+        name: "stamp",
+        onResponse(response) {
+          return { ...response.body, id: "stamped" } as typeof response.body
+        },
+      },
+    ])
+    const reqCtx = makeContext()
+
+    const result = await executeRequestPipeline({
+      adapter: createMockAdapter<TestPayload>({
+        execute: mock(() => Promise.resolve({ result: { id: "msg_1", content: [] }, queueWaitMs: 0 })),
+      }),
+      strategies: [],
+      payload: payload(),
+      originalPayload: payload(),
+      model: undefined,
+      requestContext: reqCtx,
+    })
+
+    expect(result.response).toEqual({ id: "stamped", content: [] })
+    expect(reqCtx.pipelineInfo?.plugins?.[0]).toMatchObject({ hook: "onResponse", changedFields: ["id"] })
+  })
+
+  test("onStreamEvent rewrites and drops events, aggregated per stream", async () => {
+    setPluginsForTesting([
+      {
+        name: "filter",
+        onStreamEvent(event) {
+          const data = event.data as unknown as { type: string; text?: string }
+          if (data.type === "ping") return null
+          if (data.text) data.text = data.text.toUpperCase()
+        },
+      },
+    ])
+    const reqCtx = makeContext()
+
+    const result = await executeRequestPipeline({
+      adapter: createMockAdapter<TestPayload>({
+        execute: mock(() =>
+          Promise.resolve({
+            result: sse([
+              JSON.stringify({ type: "delta", text: "hi" }),
+              JSON.stringify({ type: "ping" }),
+              JSON.stringify({ type: "stop" }),
+              "[DONE]",
+            ]),
+            queueWaitMs: 0,
+          }),
+        ),
+      }),
+      strategies: [],
+      payload: payload(),
+      originalPayload: payload(),
+      model: undefined,
+      requestContext: reqCtx,
+    })
+
+    const forwarded: Array<string | undefined> = []
+    for await (const event of result.response as AsyncIterable<ServerSentEventMessage>) forwarded.push(event.data)
+
+    expect(forwarded).toEqual([
+      JSON.stringify({ type: "delta", text: "HI" }),
+      JSON.stringify({ type: "stop" }),
+      "[DONE]",
+    ])
+    expect(reqCtx.pipelineInfo?.plugins).toEqual([
+      expect.objectContaining({
+        plugin: "filter",
+        hook: "onStreamEvent",
+        events: { seen: 3, modified: 1, dropped: 1 },
+      }),
+    ])
+  })
+})
+
+describe("loadPlugins", () => {
+  test("loads plugin modules and factories, skipping ones that fail", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "copilot-api-plugins-"))
+    try {
+      await fs.writeFile(path.join(dir, "object.ts"), "export default { onRequest() {} }\n")
+      await fs.writeFile(path.join(dir, "factory.ts"), "export default async () => ({ name: 'made', onError() {} })\n")
+      await fs.writeFile(path.join(dir, "invalid.ts"), "export default { onRequest: 42 }\n")
+
+      await loadPlugins(["object.ts", "factory.ts", "invalid.ts"].map((file) => path.join(dir, file)))
+
+      expect(getPlugins().map((plugin) => plugin.name)).toEqual(["object", "made"])
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true })
+    }
+  })
+})
@@ -8,18 +8,27 @@
  * - Mode transitions (normal → rate-limited → recovering → normal)
  * - Queue management
  * - executeWithAdaptiveRateLimit wrapper
+ * - Concurrency caps, priority classes and fair queuing
  */
 
 import { afterEach, beforeEach, describe, expect, test } from "bun:test"
+import { Hono } from "hono"
 
 import {
   AdaptiveRateLimiter,
+  createRateLimitTicket,
   executeWithAdaptiveRateLimit,
   getAdaptiveRateLimiter,
   initAdaptiveRateLimiter,
+  type RateLimitTicket,
   resetAdaptiveRateLimiter,
+  resolveRequestPriority,
+  runWithRateLimitTicket,
 } from "~/lib/adaptive-rate-limiter"
+import { compileRateLimiterScheduling } from "~/lib/config/config"
 
+import { mockRequestContext } from "../helpers/factories"
+import { createFakeStream } from "../helpers/fake-stream"
 import { waitUntil } from "../helpers/wait-until"
 
 // ─── isRateLimitError ───
@@ -366,3 +375,209 @@ describe("AdaptiveRateLimiter sleep cancellation", () => {
     expect(result.queueWaitMs).toBeLessThan(2000)
   })
 })
+
+// ─── Concurrency caps and priority queuing ───
+
+describe("AdaptiveRateLimiter concurrency scheduling", () => {
+  /** Start a call that stays in flight until released */
+  async function holdSlot(limiter: AdaptiveRateLimiter, ticket: RateLimitTicket) {
+    let release: (() => void) | undefined
+    const done = limiter.execute(
+      () =>
+        new Promise<string>((resolve) => {
+          release = () => resolve("held")
+        }),
+      ticket,
+    )
+    await waitUntil(() => release !== undefined, { label: "held call to start" })
+    return { done, release: () => release?.() }
+  }
+
+  /** Queue a call that records its start in `order` */
+  function queueCall(limiter: AdaptiveRateLimiter, order: Array<string>, name: string, ticket: RateLimitTicket) {
+    return limiter.execute(() => {
+      order.push(name)
+      return Promise.resolve(name)
+    }, ticket)
+  }
+
+  test("starts waiting requests by priority class once a slot frees up", async () => {
+    const limiter = new AdaptiveRateLimiter({ maxConcurrent: 1 })
+    const order: Array<string> = []
+    const held = await holdSlot(limiter, { priority: "interactive" })
+
+    const calls = [
+      queueCall(limiter, order, "housekeeping", { priority: "housekeeping" }),
+      queueCall(limiter, order, "background", { priority: "background" }),
+      queueCall(limiter, order, "interactive", { priority: "interactive" }),
+    ]
+    expect(limiter.getStatus()).toMatchObject({
+      inFlight: 1,
+      waiting: { interactive: 1, background: 1, housekeeping: 1 },
+    })
+
+    held.release()
+    await Promise.all([held.done, ...calls])
+
+    expect(order).toEqual(["interactive", "background", "housekeeping"])
+    expect(limiter.getStatus().inFlight).toBe(0)
+  })
+
+  test("takes turns between client keys within a priority class", async () => {
+    const limiter = new AdaptiveRateLimiter({ maxConcurrent: 1 })
+    const order: Array<string> = []
+    const held = await holdSlot(limiter, { priority: "interactive", clientKey: "batch" })
+
+    const calls = [
+      queueCall(limiter, order, "batch-2", { priority: "interactive", clientKey: "batch" }),
+      queueCall(limiter, order, "batch-3", { priority: "interactive", clientKey: "batch" }),
+      queueCall(limiter, order, "alice-1", { priority: "interactive", clientKey: "alice" }),
+    ]
+
+    held.release()
+    await Promise.all([held.done, ...calls])
+
+    expect(order).toEqual(["alice-1", "batch-2", "batch-3"])
+  })
+
+  test("applies per-model and per-key caps without blocking other requests", async () => {
+    const limiter = new AdaptiveRateLimiter({ maxConcurrentPerKey: 1, maxConcurrentPerModel: { "claude-opus-*": 1 } })
+    const order: Array<string> = []
+    const opus = await holdSlot(limiter, { priority: "interactive", model: "claude-opus-4.6", clientKey: "alice" })
+
+    const blockedByModel = queueCall(limiter, order, "opus", {
+      priority: "interactive",
+      model: "claude-opus-4.5",
+      clientKey: "bob",
+    })
+    const blockedByKey = queueCall(limiter, order, "alice", {
+      priority: "interactive",
+      model: "gpt-4o",
+      clientKey: "alice",
+    })
+    await queueCall(limiter, order, "bob", { priority: "background", model: "gpt-4o", clientKey: "bob" })
+
+    expect(order).toEqual(["bob"])
+
+    opus.release()
+    await Promise.all([opus.done, blockedByModel, blockedByKey])
+    // Both are unblocked by the same release; alice goes first since bob was served more recently
+    expect(order).toEqual(["bob", "alice", "opus"])
+  })
+
+  test("reports queue positions while waiting and 0 once started", async () => {
+    const limiter = new AdaptiveRateLimiter({ maxConcurrent: 1 })
+    const held = await holdSlot(limiter, { priority: "interactive" })
+    const positions: Record<string, Array<number>> = { first: [], second: [] }
+
+    const first = limiter.execute(() => Promise.resolve("first"), {
+      priority: "background",
+      onQueuePosition: (position) => positions.first.push(position),
+    })
+    const second = limiter.execute(() => Promise.resolve("second"), {
+      priority: "interactive",
+      onQueuePosition: (position) => positions.second.push(position),
+    })
+
+    held.release()
+    const results = await Promise.all([held.done, first, second])
+
+    // The interactive arrival overtakes the waiting background request
+    expect(positions).toEqual({ first: [1, 2, 1, 0], second: [1, 0] })
+    expect(results[1].queueWaitMs).toBeGreaterThanOrEqual(0)
+  })
+
+  test("rejectQueued also rejects requests waiting for a slot", async () => {
+    const limiter = new AdaptiveRateLimiter({ maxConcurrent: 1 })
+    const held = await holdSlot(limiter, { priority: "interactive" })
+    const waiting = limiter.execute(() => Promise.resolve("never"), { priority: "interactive" })
+
+    expect(limiter.rejectQueued()).toBe(1)
+    const error = await waiting.catch((error: unknown) => error)
+    expect(error).toBeInstanceOf(Error)
+    expect((error as Error).message).toContain("Server shutting down")
+
+    held.release()
+    await held.done
+  })
+
+  test("holds the slot until a streamed result is drained or closed", async () => {
+    const limiter = new AdaptiveRateLimiter({ maxConcurrent: 1 })
+    const order: Array<string> = []
+    const events = () => createFakeStream(["a", "b"])
+
+    const { result: drained } = await limiter.execute(() => Promise.resolve(events()), { priority: "interactive" })
+    const waiting = queueCall(limiter, order, "after-drain", { priority: "interactive" })
+    await Promise.resolve()
+    expect(order).toEqual([])
+
+    const received: Array<string> = []
+    for await (const event of drained) received.push(event)
+    await waiting
+    expect(received).toEqual(["a", "b"])
+    expect(order).toEqual(["after-drain"])
+
+    const { result: closed } = await limiter.execute(() => Promise.resolve(events()), { priority: "interactive" })
+    const waitingForClose = queueCall(limiter, order, "after-close", { priority: "interactive" })
+    for await (const event of closed) {
+      if (event === "a") break
+    }
+    await waitingForClose
+    expect(order).toEqual(["after-drain", "after-close"])
+    expect(limiter.getStatus().inFlight).toBe(0)
+  })
+})
+
+describe("Request scheduling scope", () => {
+  beforeEach(() => {
+    resetAdaptiveRateLimiter()
+  })
+
+  afterEach(() => {
+    resetAdaptiveRateLimiter()
+  })
+
+  test("executeWithAdaptiveRateLimit schedules calls with the ticket of the surrounding scope", async () => {
+    initAdaptiveRateLimiter({ maxConcurrent: 1 })
+    const limiter = getAdaptiveRateLimiter()
+    if (!limiter) throw new Error("rate limiter not initialized")
+    const reqCtx = mockRequestContext()
+    let release: (() => void) | undefined
+    const held = limiter.execute(
+      () =>
+        new Promise<void>((resolve) => {
+          release = resolve
+        }),
+    )
+    await waitUntil(() => release !== undefined, { label: "held call to start" })
+
+    const ticket = createRateLimitTicket(reqCtx, "gpt-4o")
+    const queued = runWithRateLimitTicket(ticket, () => executeWithAdaptiveRateLimit(() => Promise.resolve("scoped")))
+
+    expect(reqCtx.queuePosition).toBe(1)
+    expect(limiter.getStatus().waiting.interactive).toBe(1)
+
+    release?.()
+    await held
+    expect((await queued).result).toBe("scoped")
+    expect(reqCtx.queuePosition).toBeUndefined()
+  })
+
+  test("resolveRequestPriority prefers the header, then configured routes, then the default", async () => {
+    initAdaptiveRateLimiter(
+      compileRateLimiterScheduling({
+        priority: { default: "background", routes: { "/v1/messages": "interactive", "/bogus": "urgent" as never } },
+      }),
+    )
+    const app = new Hono()
+    app.all("*", (c) => c.text(resolveRequestPriority(c)))
+
+    const priorityOf = async (path: string, headers?: Record<string, string>) =>
+      (await app.request(path, { headers })).text()
+
+    expect(await priorityOf("/v1/messages", { "x-copilot-priority": "Housekeeping" })).toBe("housekeeping")
+    expect(await priorityOf("/v1/messages", { "x-copilot-priority": "urgent" })).toBe("interactive")
+    expect(await priorityOf("/v1/chat/completions")).toBe("background")
+    expect(await priorityOf("/bogus")).toBe("background")
+  })
+})
@@ -119,6 +119,7 @@ describeWithToken("Model endpoint completeness", () => {
     const knownEndpoints = new Set([
       ENDPOINT.MESSAGES,
       ENDPOINT.CHAT_COMPLETIONS,
+      ENDPOINT.COMPLETIONS,
       ENDPOINT.RESPONSES,
       ENDPOINT.WS_RESPONSES,
       ENDPOINT.EMBEDDINGS,
@@ -1,5 +1,6 @@
 import { Hono } from "hono"
 
+import { apiKeyAuthMiddleware } from "~/lib/api-key-auth"
 import { forwardError } from "~/lib/error"
 import { state } from "~/lib/state"
 import { registerHttpRoutes } from "~/routes"
@@ -24,6 +25,8 @@ export function createFullTestApp(options: UiRoutesOptions = {}) {
     return c.json({ error: "Not Found" }, 404)
   })
 
+  app.use(apiKeyAuthMiddleware())
+
   app.get("/", (c) => c.text("Server running"))
 
   app.get("/health", (c) => {
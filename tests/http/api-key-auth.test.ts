@@ -0,0 +1,158 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, mock, test } from "bun:test"
+
+import type { ChatCompletionsPayload } from "~/types/api/openai-chat-completions"
+
+import {
+  type StateSnapshot,
+  restoreStateForTests,
+  setAuthConfig,
+  setModelOverrides,
+  setModels,
+  setStateForTests,
+  snapshotStateForTests,
+} from "~/lib/state"
+
+import { mockModel } from "../helpers/factories"
+import { bootstrapTestRuntime, resetTestRuntime } from "../helpers/test-bootstrap"
+
+const createChatCompletionsMock = mock((payload: ChatCompletionsPayload) =>
+  Promise.resolve({
+    id: "chatcmpl-auth-test",
+    object: "chat.completion",
+    created: 1,
+    model: payload.model,
+    choices: [{ index: 0, message: { role: "assistant", content: "ok" }, finish_reason: "stop" }],
+    usage: { prompt_tokens: 3, completion_tokens: 1, total_tokens: 4 },
+  }),
+)
+
+// eslint-disable-next-line @typescript-eslint/no-floating-promises -- Bun hoists module mocks before imports
+mock.module("~/lib/openai/chat-completions-client", () => ({
+  createChatCompletions: createChatCompletionsMock,
+}))
+
+const { createFullTestApp } = await import("../helpers/test-app")
+
+const app = createFullTestApp()
+const originalFetch = globalThis.fetch
+
+function chatRequest(model: string, headers: Record<string, string>) {
+  return app.request("/v1/chat/completions", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify({ model, messages: [{ role: "user", content: "Hello" }] }),
+  })
+}
+
+describe("inbound API-key auth", () => {
+  let snapshot: StateSnapshot
+
+  beforeAll(() => {
+    bootstrapTestRuntime()
+  })
+
+  beforeEach(() => {
+    snapshot = snapshotStateForTests()
+    createChatCompletionsMock.mockClear()
+    setModels({
+      object: "list",
+      data: [
+        mockModel("gpt-4o", { vendor: "OpenAI", supported_endpoints: ["/chat/completions"] }),
+        mockModel("gpt-5-mini", { vendor: "OpenAI", supported_endpoints: ["/chat/completions"] }),
+      ],
+    })
+    setAuthConfig({
+      apiKeys: [
+        { key: "sk-full", label: "full" },
+        { key: "sk-limited", label: "limited", allowedModels: ["gpt-4o"] },
+      ],
+    })
+  })
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch
+    restoreStateForTests(snapshot)
+    resetTestRuntime()
+  })
+
+  test("leaves public routes reachable without a key", async () => {
+    expect((await app.request("/")).status).toBe(200)
+    expect((await app.request("/health")).status).not.toBe(401)
+  })
+
+  test("rejects API and management routes without a valid key", async () => {
+    const missing = await chatRequest("gpt-4o", {})
+    const invalid = await chatRequest("gpt-4o", { Authorization: "Bearer sk-wrong" })
+    const history = await app.request("/history/api/entries")
+    const config = await app.request("/api/config")
+
+    expect(missing.status).toBe(401)
+    expect(await missing.json()).toMatchObject({ error: { type: "authentication_error" } })
+    expect(invalid.status).toBe(401)
+    expect(history.status).toBe(401)
+    expect(config.status).toBe(401)
+    expect(createChatCompletionsMock).not.toHaveBeenCalled()
+  })
+
+  test("accepts Bearer, x-api-key and x-goog-api-key headers and records the key label on history", async () => {
+    const viaBearer = await chatRequest("gpt-4o", { Authorization: "Bearer sk-full" })
+    const viaHeader = await chatRequest("gpt-5-mini", { "x-api-key": "sk-full" })
+    const viaGoogleHeader = await chatRequest("gpt-4o", { "x-goog-api-key": "sk-full" })
+
+    expect(viaBearer.status).toBe(200)
+    expect(viaHeader.status).toBe(200)
+    expect(viaGoogleHeader.status).toBe(200)
+
+    const res = await app.request("/history/api/entries", { headers: { "x-api-key": "sk-full" } })
+    const body = (await res.json()) as { entries: Array<{ apiKeyLabel?: string }> }
+    expect(body.entries).toHaveLength(3)
+    expect(body.entries.every((entry) => entry.apiKeyLabel === "full")).toBe(true)
+  })
+
+  test("serves the Web UI's management routes with a header key, or ?api_key= on GET", async () => {
+    const headers = { Authorization: "Bearer sk-full" }
+    for (const path of ["/history/api/entries", "/api/status", "/api/config", "/api/limits"]) {
+      expect((await app.request(path, { headers })).status).toBe(200)
+    }
+
+    // WebSocket upgrades and download links cannot set headers
+    expect((await app.request("/history/api/export?format=json&api_key=sk-full")).status).toBe(200)
+    expect((await app.request("/history/api/export?format=json&api_key=sk-wrong")).status).toBe(401)
+
+    const postWithQueryKey = await app.request("/v1/chat/completions?api_key=sk-full", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ model: "gpt-4o", messages: [{ role: "user", content: "Hello" }] }),
+    })
+    expect(postWithQueryKey.status).toBe(401)
+  })
+
+  test("enforces allowed_models with 403 and filters the model list", async () => {
+    const denied = await chatRequest("gpt-5-mini", { Authorization: "Bearer sk-limited" })
+    const allowed = await chatRequest("gpt-4o", { Authorization: "Bearer sk-limited" })
+
+    expect(denied.status).toBe(403)
+    expect(allowed.status).toBe(200)
+    expect(createChatCompletionsMock).toHaveBeenCalledTimes(1)
+
+    // Embeddings check the allowlist against the resolved model, not the alias the client sent
+    setModelOverrides({ "embed-alias": "gpt-4o" })
+    setStateForTests({ copilotToken: "copilot-test-token" })
+    const upstreamBodies: Array<unknown> = []
+    globalThis.fetch = mock((_url: string, init?: RequestInit) => {
+      upstreamBodies.push(JSON.parse(init?.body as string))
+      return Promise.resolve(Response.json({ object: "list", data: [], model: "gpt-4o" }))
+    }) as unknown as typeof fetch
+    const embeddings = await app.request("/v1/embeddings", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: "Bearer sk-limited" },
+      body: JSON.stringify({ model: "embed-alias", input: "Hello" }),
+    })
+    expect(embeddings.status).toBe(200)
+    expect(upstreamBodies).toEqual([{ model: "gpt-4o", input: ["Hello"] }])
+
+    const models = await app.request("/v1/models", { headers: { Authorization: "Bearer sk-limited" } })
+    const body = (await models.json()) as { data: Array<{ id: string }> }
+    expect(body.data.map((model) => model.id)).toEqual(["gpt-4o"])
+  })
+})
@@ -171,6 +171,7 @@ describe("POST /chat/completions via /responses translation", () => {
         model: "gpt-5-resp",
         stream: false,
         stop: ["END"],
+        seed: 7,
         tools: [
           {
             type: "function",
@@ -189,6 +190,10 @@ describe("POST /chat/completions via /responses translation", () => {
     })
 
     expect(res.status).toBe(200)
+    expect(JSON.parse(res.headers.get("x-copilot-api-warning") ?? "null")).toEqual({
+      code: "cc_to_responses_dropped_params",
+      params: ["seed"],
+    })
     expect(await res.json()).toMatchObject({
       id: "resp-http-test",
       object: "chat.completion",
@@ -218,12 +223,105 @@ describe("POST /chat/completions via /responses translation", () => {
     expect(historyEntry?.warningMessages).toEqual([
       {
         code: "cc_to_responses_dropped_params",
-        message: "Chat Completions -> Responses translation dropped unsupported params: stop",
+        message: "Chat Completions -> Responses translation dropped unsupported params: seed",
       },
     ])
     expect(warnSpy).toHaveBeenCalledWith(
-      "[CC→Responses] model=gpt-5-resp Chat Completions -> Responses translation dropped unsupported params: stop",
+      "[CC→Responses] model=gpt-5-resp Chat Completions -> Responses translation dropped unsupported params: seed",
+    )
+  })
+
+  test("emulates n and stop with one upstream request per choice", async () => {
+    setModels({
+      object: "list",
+      data: [
+        mockModel("gpt-5-resp", {
+          vendor: "OpenAI",
+          supported_endpoints: ["/responses"],
+        }),
+      ],
+    })
+
+    const res = await app.request("/chat/completions", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        model: "gpt-5-resp",
+        n: 2,
+        stop: " response",
+        messages: [{ role: "user", content: "hello" }],
+      }),
+    })
+
+    expect(res.status).toBe(200)
+    expect(res.headers.get("x-copilot-api-warning")).toBeNull()
+    expect(createResponsesMock).toHaveBeenCalledTimes(2)
+    const body = (await res.json()) as { choices: Array<unknown>; usage: unknown }
+    expect(body.choices).toEqual([
+      expect.objectContaining({ index: 0, message: expect.objectContaining({ content: "Translated" }) }),
+      expect.objectContaining({ index: 1, finish_reason: "stop" }),
+    ])
+    expect(body.usage).toEqual({ prompt_tokens: 10, completion_tokens: 6, total_tokens: 16 })
+  })
+
+  test("merges n streamed choices and cuts each at its stop sequence", async () => {
+    setModels({
+      object: "list",
+      data: [
+        mockModel("gpt-5-resp", {
+          vendor: "OpenAI",
+          supported_endpoints: ["/responses"],
+        }),
+      ],
+    })
+
+    const res = await app.request("/chat/completions", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        model: "gpt-5-resp",
+        stream: true,
+        n: 2,
+        stop: ["stream"],
+        messages: [{ role: "user", content: "stream please" }],
+      }),
+    })
+
+    const chunks = (await res.text())
+      .split("\n")
+      .filter((line) => line.startsWith("data: {"))
+      .map((line) => JSON.parse(line.slice(6)) as { choices: Array<{ index: number; delta: { content?: string } }> })
+    const textByChoice = [0, 1].map((index) =>
+      chunks
+        .flatMap((chunk) => chunk.choices)
+        .filter((choice) => choice.index === index)
+        .map((choice) => choice.delta.content ?? "")
+        .join(""),
     )
+
+    expect(createResponsesMock).toHaveBeenCalledTimes(2)
+    expect(textByChoice).toEqual(["Hello via responses ", "Hello via responses "])
+  })
+
+  test("rejects n above the emulation limit for responses-only models", async () => {
+    setModels({
+      object: "list",
+      data: [
+        mockModel("gpt-5-resp", {
+          vendor: "OpenAI",
+          supported_endpoints: ["/responses"],
+        }),
+      ],
+    })
+
+    const res = await app.request("/chat/completions", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ model: "gpt-5-resp", n: 17, messages: [{ role: "user", content: "hello" }] }),
+    })
+
+    expect(res.status).toBe(400)
+    expect(createResponsesMock).not.toHaveBeenCalled()
   })
 
   test("normalizes translated call ids before sending to responses upstream by default", async () => {
@@ -1,11 +1,22 @@
-import { afterEach, beforeAll, beforeEach, describe, expect, mock, test } from "bun:test"
+import { afterEach, beforeAll, beforeEach, describe, expect, mock, spyOn, test } from "bun:test"
 
 import type { ServerSentEventMessage } from "fetch-event-stream"
 
+import { mkdtemp, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import path from "node:path"
+
 import type { ChatCompletionsPayload } from "~/types/api/openai-chat-completions"
 
-import { type StateSnapshot, restoreStateForTests, setModels, snapshotStateForTests } from "~/lib/state"
+import {
+  type StateSnapshot,
+  restoreStateForTests,
+  setModels,
+  setStateForTests,
+  snapshotStateForTests,
+} from "~/lib/state"
 import { prepareChatCompletionsRequest } from "~/lib/openai/request-preparation"
+import { createResponseCache, setResponseCache } from "~/lib/response-cache"
 
 import { mockModel } from "../helpers/factories"
 import { bootstrapTestRuntime, resetTestRuntime } from "../helpers/test-bootstrap"
@@ -229,4 +240,77 @@ describe("POST /chat/completions", () => {
       },
     })
   })
+
+  describe("response cache", () => {
+    let cacheDir: string
+
+    beforeEach(async () => {
+      cacheDir = await mkdtemp(path.join(tmpdir(), "copilot-api-response-cache-"))
+      setStateForTests({ responseCacheEnabled: true })
+      setModels({
+        object: "list",
+        data: [mockModel("gpt-4o", { vendor: "OpenAI", supported_endpoints: ["/chat/completions"] })],
+      })
+    })
+
+    afterEach(async () => {
+      setResponseCache(null)
+      await rm(cacheDir, { recursive: true, force: true })
+    })
+
+    /** Send the same request twice, waiting for the first response to be stored */
+    async function sendTwice(body: Record<string, unknown>, headers: Record<string, string> = {}) {
+      const cache = createResponseCache(cacheDir)
+      const storeSpy = spyOn(cache, "set")
+      setResponseCache(cache)
+      const init = {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...headers },
+        body: JSON.stringify({ model: "gpt-4o", messages: [{ role: "user", content: "Deterministic" }], ...body }),
+      }
+
+      const first = await (await app.request("/chat/completions", init)).text()
+      await Promise.all(storeSpy.mock.results.map((result) => result.value as Promise<void>))
+      const second = await (await app.request("/chat/completions", init)).text()
+      return { first, second, storeCount: storeSpy.mock.calls.length }
+    }
+
+    test("replays a temperature-0 completion without calling upstream", async () => {
+      const { first, second, storeCount } = await sendTwice({ temperature: 0, stream: false })
+
+      expect(storeCount).toBe(1)
+      expect(createChatCompletionsMock).toHaveBeenCalledTimes(1)
+      expect(JSON.parse(second)).toEqual(JSON.parse(first))
+    })
+
+    test("replays recorded SSE events with their original framing", async () => {
+      const { first, second } = await sendTwice({ temperature: 0, stream: true })
+
+      expect(createChatCompletionsMock).toHaveBeenCalledTimes(1)
+      expect(second).toBe(first)
+      expect(second).toContain("event: message\ndata: ")
+      expect(second).toContain("data: [DONE]")
+    })
+
+    test("honours the cache header in both directions", async () => {
+      const optedIn = await sendTwice({ temperature: 0.7 }, { "x-copilot-api-cache": "true" })
+      expect(optedIn.storeCount).toBe(1)
+      expect(createChatCompletionsMock).toHaveBeenCalledTimes(1)
+
+      createChatCompletionsMock.mockClear()
+      const optedOut = await sendTwice(
+        { temperature: 0, messages: [{ role: "user", content: "Fresh" }] },
+        { "x-copilot-api-cache": "false" },
+      )
+      expect(optedOut.storeCount).toBe(0)
+      expect(createChatCompletionsMock).toHaveBeenCalledTimes(2)
+    })
+
+    test("leaves non-deterministic requests alone", async () => {
+      const { storeCount } = await sendTwice({ temperature: 1 })
+
+      expect(storeCount).toBe(0)
+      expect(createChatCompletionsMock).toHaveBeenCalledTimes(2)
+    })
+  })
 })
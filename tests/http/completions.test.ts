@@ -0,0 +1,209 @@
+import type { ServerSentEventMessage } from "fetch-event-stream"
+
+import { afterEach, beforeAll, beforeEach, describe, expect, mock, test } from "bun:test"
+
+import type { ChatCompletionsPayload } from "~/types/api/openai-chat-completions"
+import type { CompletionsPayload } from "~/types/api/openai-completions"
+
+import { getHistory } from "~/lib/history"
+import { prepareChatCompletionsRequest } from "~/lib/openai/request-preparation"
+import { type StateSnapshot, restoreStateForTests, setModels, snapshotStateForTests } from "~/lib/state"
+
+import { mockModel } from "../helpers/factories"
+import { createFakeStream } from "../helpers/fake-stream"
+import { bootstrapTestRuntime, resetTestRuntime } from "../helpers/test-bootstrap"
+import { waitUntil } from "../helpers/wait-until"
+
+let capturedChatPayload: ChatCompletionsPayload | undefined
+let capturedNativePayload: CompletionsPayload | undefined
+
+const createChatCompletionsMock = mock((payload: ChatCompletionsPayload) => {
+  capturedChatPayload = payload
+
+  if (payload.stream) {
+    return Promise.resolve(createMockChatStream(payload.model))
+  }
+
+  return Promise.resolve({
+    id: "chatcmpl-legacy",
+    object: "chat.completion",
+    created: 1,
+    model: payload.model,
+    choices: [
+      { index: 0, message: { role: "assistant", content: " world" }, finish_reason: "stop", logprobs: null },
+      { index: 1, message: { role: "assistant", content: " there" }, finish_reason: "length", logprobs: null },
+    ],
+    usage: { prompt_tokens: 4, completion_tokens: 2, total_tokens: 6 },
+  })
+})
+
+function createMockChatStream(model: string): AsyncGenerator<ServerSentEventMessage> {
+  const chunk = (content: string, finishReason: string | null) => ({
+    data: JSON.stringify({
+      id: "chatcmpl-legacy-stream",
+      object: "chat.completion.chunk",
+      created: 1,
+      model,
+      choices: [{ index: 0, delta: { content }, finish_reason: finishReason, logprobs: null }],
+    }),
+  })
+
+  return createFakeStream([
+    chunk(" wor", null),
+    chunk("ld", "stop"),
+    { data: "[DONE]" },
+  ] as Array<ServerSentEventMessage>)
+}
+
+const createCompletionsMock = mock((payload: CompletionsPayload) => {
+  capturedNativePayload = payload
+  return Promise.resolve({
+    id: "cmpl-native",
+    object: "text_completion",
+    created: 1,
+    model: payload.model,
+    choices: [{ index: 0, text: "native", logprobs: null, finish_reason: "stop" }],
+    usage: { prompt_tokens: 3, completion_tokens: 1, total_tokens: 4 },
+  })
+})
+
+// eslint-disable-next-line @typescript-eslint/no-floating-promises -- Bun hoists module mocks before imports
+mock.module("~/lib/openai/chat-completions-client", () => ({
+  createChatCompletions: createChatCompletionsMock,
+  prepareChatCompletionsRequest,
+}))
+
+// eslint-disable-next-line @typescript-eslint/no-floating-promises -- Bun hoists module mocks before imports
+mock.module("~/lib/openai/completions-client", () => ({
+  createCompletions: createCompletionsMock,
+}))
+
+const { createFullTestApp } = await import("../helpers/test-app")
+
+const app = createFullTestApp()
+
+function postCompletion(body: Record<string, unknown>) {
+  return app.request("/v1/completions", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  })
+}
+
+describe("POST /v1/completions", () => {
+  let snapshot: StateSnapshot
+
+  beforeAll(() => {
+    bootstrapTestRuntime()
+  })
+
+  beforeEach(() => {
+    snapshot = snapshotStateForTests()
+    capturedChatPayload = undefined
+    capturedNativePayload = undefined
+    createChatCompletionsMock.mockClear()
+    createCompletionsMock.mockClear()
+    setModels({
+      object: "list",
+      data: [
+        mockModel("gpt-4o", { vendor: "OpenAI", supported_endpoints: ["/chat/completions"] }),
+        mockModel("gpt-41-copilot", { vendor: "OpenAI", supported_endpoints: ["/completions"] }),
+        mockModel("claude-sonnet-4.6", { vendor: "Anthropic", supported_endpoints: ["/v1/messages"] }),
+      ],
+    })
+  })
+
+  afterEach(() => {
+    restoreStateForTests(snapshot)
+    resetTestRuntime()
+  })
+
+  test("translates to chat completions and returns text_completion choices with echo", async () => {
+    const res = await postCompletion({ model: "gpt-4o", prompt: "Hello", n: 2, stop: ["\n"], echo: true })
+
+    expect(res.status).toBe(200)
+    expect(await res.json()).toMatchObject({
+      id: "chatcmpl-legacy",
+      object: "text_completion",
+      choices: [
+        { index: 0, text: "Hello world", finish_reason: "stop", logprobs: null },
+        { index: 1, text: "Hello there", finish_reason: "length", logprobs: null },
+      ],
+      usage: { prompt_tokens: 4, completion_tokens: 2 },
+    })
+    expect(capturedChatPayload).toMatchObject({ model: "gpt-4o", n: 2, stop: ["\n"] })
+    expect(capturedChatPayload?.messages.at(-1)).toEqual({ role: "user", content: "Hello" })
+
+    const entry = getHistory({ endpoint: "openai-completions" }).entries[0]
+    expect(entry.request.messages).toEqual([{ role: "user", content: "Hello" }])
+    expect(entry.response?.content).toEqual({ role: "assistant", content: "Hello world" })
+    expect(entry.response?.usage.input_tokens).toBe(4)
+  })
+
+  test("streams text_completion chunks and records the accumulated text", async () => {
+    const res = await postCompletion({ model: "gpt-4o", prompt: "Hello", stream: true })
+
+    expect(res.status).toBe(200)
+    expect(res.headers.get("content-type")).toContain("text/event-stream")
+
+    const dataLines = (await res.text())
+      .split("\n")
+      .filter((line) => line.startsWith("data:"))
+      .map((line) => line.slice("data:".length).trim())
+    expect(dataLines.at(-1)).toBe("[DONE]")
+
+    const chunks = dataLines.slice(0, -1).map((line) => JSON.parse(line) as Record<string, unknown>)
+    expect(chunks.map((chunk) => chunk.object)).toEqual(["text_completion", "text_completion"])
+    expect(chunks.map((chunk) => (chunk.choices as Array<{ text: string }>)[0].text).join("")).toBe(" world")
+
+    await waitUntil(() => getHistory({ endpoint: "openai-completions" }).entries[0]?.response !== undefined, {
+      label: "streamed completion recorded",
+    })
+    const entry = getHistory({ endpoint: "openai-completions" }).entries[0]
+    expect(entry.response?.content).toEqual({ role: "assistant", content: " world" })
+    expect(entry.response?.stop_reason).toBe("stop")
+  })
+
+  test("sends suffix requests as fill-in-the-middle prompts", async () => {
+    await postCompletion({ model: "gpt-4o", prompt: "def add(a, b):\n    ", suffix: "\n\nprint(add(1, 2))" })
+
+    expect(capturedChatPayload?.messages.at(-1)?.content).toBe("def add(a, b):\n    <|fim_middle|>\n\nprint(add(1, 2))")
+  })
+
+  test("records a warning when best_of is dropped", async () => {
+    await postCompletion({ model: "gpt-4o", prompt: "Hello", best_of: 3 })
+
+    expect(capturedChatPayload).not.toHaveProperty("best_of")
+    const entry = getHistory({ endpoint: "openai-completions" }).entries[0]
+    expect(entry.warningMessages).toEqual([
+      {
+        code: "completions_to_cc_dropped_params",
+        message: "Completions translation dropped unsupported params: best_of",
+      },
+    ])
+  })
+
+  test("passes requests through unchanged for models with a native /completions endpoint", async () => {
+    const res = await postCompletion({ model: "gpt-41-copilot", prompt: "x = ", suffix: "\n", max_tokens: 8 })
+
+    expect(res.status).toBe(200)
+    expect(await res.json()).toMatchObject({ object: "text_completion", choices: [{ text: "native" }] })
+    expect(createChatCompletionsMock).not.toHaveBeenCalled()
+    expect(capturedNativePayload).toEqual({ model: "gpt-41-copilot", prompt: "x = ", suffix: "\n", max_tokens: 8 })
+  })
+
+  test("rejects multiple prompts and models without a completions-capable endpoint", async () => {
+    const multi = await postCompletion({ model: "gpt-4o", prompt: ["a", "b"] })
+    expect(multi.status).toBe(400)
+
+    const unsupported = await postCompletion({ model: "claude-sonnet-4.6", prompt: "a" })
+    expect(unsupported.status).toBe(400)
+    expect(await unsupported.json()).toEqual({
+      error: {
+        message: 'Model "claude-sonnet-4.6" does not support the /completions endpoint',
+        type: "error",
+      },
+    })
+    expect(createChatCompletionsMock).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,250 @@
+import type { ServerSentEventMessage } from "fetch-event-stream"
+
+import { afterEach, beforeAll, beforeEach, describe, expect, mock, test } from "bun:test"
+
+import type { ChatCompletionsPayload } from "~/types/api/openai-chat-completions"
+
+import { getHistory } from "~/lib/history"
+import { prepareChatCompletionsRequest } from "~/lib/openai/request-preparation"
+import { type StateSnapshot, restoreStateForTests, setModels, snapshotStateForTests } from "~/lib/state"
+
+import { mockModel } from "../helpers/factories"
+import { createFakeStream } from "../helpers/fake-stream"
+import { bootstrapTestRuntime, resetTestRuntime } from "../helpers/test-bootstrap"
+import { waitUntil } from "../helpers/wait-until"
+
+let capturedChatPayload: ChatCompletionsPayload | undefined
+
+const createChatCompletionsMock = mock((payload: ChatCompletionsPayload) => {
+  capturedChatPayload = payload
+
+  if (payload.stream) {
+    return Promise.resolve(createMockChatStream(payload.model))
+  }
+
+  return Promise.resolve({
+    id: "chatcmpl-gemini",
+    object: "chat.completion",
+    created: 1,
+    model: payload.model,
+    choices: [
+      {
+        index: 0,
+        message: {
+          role: "assistant",
+          content: "Checking the weather.",
+          tool_calls: [
+            { id: "call_1", type: "function", function: { name: "get_weather", arguments: '{"city":"Paris"}' } },
+          ],
+        },
+        finish_reason: "tool_calls",
+      },
+    ],
+    usage: { prompt_tokens: 12, completion_tokens: 8, total_tokens: 20 },
+  })
+})
+
+function createMockChatStream(model: string): AsyncGenerator<ServerSentEventMessage> {
+  const chunk = (choices: Array<Record<string, unknown>>, usage?: Record<string, number>) => ({
+    data: JSON.stringify({
+      id: "chatcmpl-gemini-stream",
+      object: "chat.completion.chunk",
+      created: 1,
+      model,
+      choices,
+      usage,
+    }),
+  })
+
+  return createFakeStream([
+    chunk([{ index: 0, delta: { role: "assistant", content: "Hel" }, finish_reason: null }]),
+    chunk([{ index: 0, delta: { content: "lo" }, finish_reason: null }]),
+    chunk([
+      {
+        index: 0,
+        delta: { tool_calls: [{ index: 0, id: "call_9", function: { name: "lookup", arguments: '{"q":' } }] },
+        finish_reason: null,
+      },
+    ]),
+    chunk([{ index: 0, delta: { tool_calls: [{ index: 0, function: { arguments: '"x"}' } }] }, finish_reason: null }]),
+    chunk([{ index: 0, delta: {}, finish_reason: "tool_calls" }]),
+    chunk([], { prompt_tokens: 5, completion_tokens: 3, total_tokens: 8 }),
+    { data: "[DONE]" },
+  ] as Array<ServerSentEventMessage>)
+}
+
+// eslint-disable-next-line @typescript-eslint/no-floating-promises -- Bun hoists module mocks before imports
+mock.module("~/lib/openai/chat-completions-client", () => ({
+  createChatCompletions: createChatCompletionsMock,
+  prepareChatCompletionsRequest,
+}))
+
+const { createFullTestApp } = await import("../helpers/test-app")
+
+const app = createFullTestApp()
+
+function postGemini(target: string, body: Record<string, unknown>, query = "") {
+  return app.request(`/v1beta/models/${target}${query}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  })
+}
+
+const weatherRequest = {
+  systemInstruction: { parts: [{ text: "Be brief." }] },
+  contents: [{ role: "user", parts: [{ text: "Weather in Paris?" }] }],
+  tools: [
+    {
+      functionDeclarations: [
+        {
+          name: "get_weather",
+          parameters: { type: "OBJECT", properties: { city: { type: "STRING" } }, required: ["city"] },
+        },
+      ],
+    },
+  ],
+  generationConfig: { temperature: 0.2, maxOutputTokens: 256, stopSequences: ["END"] },
+}
+
+describe("POST /v1beta/models/{model}:generateContent", () => {
+  let snapshot: StateSnapshot
+
+  beforeAll(() => {
+    bootstrapTestRuntime()
+  })
+
+  beforeEach(() => {
+    snapshot = snapshotStateForTests()
+    capturedChatPayload = undefined
+    createChatCompletionsMock.mockClear()
+    setModels({
+      object: "list",
+      data: [
+        mockModel("gemini-2.5-pro", { vendor: "Google", supported_endpoints: ["/chat/completions"] }),
+        mockModel("claude-sonnet-4.6", { vendor: "Anthropic", supported_endpoints: ["/v1/messages"] }),
+      ],
+    })
+  })
+
+  afterEach(() => {
+    restoreStateForTests(snapshot)
+    resetTestRuntime()
+  })
+
+  test("translates to chat completions and returns text and function call parts", async () => {
+    const res = await postGemini("gemini-2.5-pro:generateContent", weatherRequest)
+
+    expect(res.status).toBe(200)
+    expect(await res.json()).toEqual({
+      candidates: [
+        {
+          index: 0,
+          content: {
+            role: "model",
+            parts: [
+              { text: "Checking the weather." },
+              { functionCall: { id: "call_1", name: "get_weather", args: { city: "Paris" } } },
+            ],
+          },
+          finishReason: "STOP",
+        },
+      ],
+      usageMetadata: { promptTokenCount: 12, candidatesTokenCount: 8, totalTokenCount: 20 },
+      modelVersion: "gemini-2.5-pro",
+      responseId: "chatcmpl-gemini",
+    })
+    expect(capturedChatPayload).toMatchObject({
+      model: "gemini-2.5-pro",
+      messages: [
+        { role: "system", content: "Be brief." },
+        { role: "user", content: "Weather in Paris?" },
+      ],
+      temperature: 0.2,
+      max_tokens: 256,
+      stop: ["END"],
+      tools: [
+        {
+          type: "function",
+          function: {
+            name: "get_weather",
+            parameters: { type: "object", properties: { city: { type: "string" } }, required: ["city"] },
+          },
+        },
+      ],
+    })
+
+    const entry = getHistory({ endpoint: "gemini-generate-content" }).entries[0]
+    expect(entry.request.messages).toEqual(capturedChatPayload?.messages)
+    expect(entry.response?.content).toMatchObject({
+      role: "assistant",
+      content: "Checking the weather.",
+      tool_calls: [{ function: { name: "get_weather", arguments: '{"city":"Paris"}' } }],
+    })
+    expect(entry.response?.usage.input_tokens).toBe(12)
+  })
+
+  test("streams Gemini chunks over SSE with alt=sse and sends buffered function calls last", async () => {
+    const res = await postGemini("gemini-2.5-pro:streamGenerateContent", weatherRequest, "?alt=sse")
+
+    expect(res.status).toBe(200)
+    expect(res.headers.get("content-type")).toContain("text/event-stream")
+
+    const chunks = (await res.text())
+      .split("\n")
+      .filter((line) => line.startsWith("data:"))
+      .map((line) => JSON.parse(line.slice("data:".length)) as Record<string, unknown>)
+
+    expect(chunks.map((chunk) => chunk.candidates)).toEqual([
+      [{ index: 0, content: { role: "model", parts: [{ text: "Hel" }] } }],
+      [{ index: 0, content: { role: "model", parts: [{ text: "lo" }] } }],
+      [
+        {
+          index: 0,
+          content: { role: "model", parts: [{ functionCall: { id: "call_9", name: "lookup", args: { q: "x" } } }] },
+          finishReason: "STOP",
+        },
+      ],
+    ])
+    expect(chunks.at(-1)?.usageMetadata).toEqual({ promptTokenCount: 5, candidatesTokenCount: 3, totalTokenCount: 8 })
+    expect(capturedChatPayload?.stream_options).toEqual({ include_usage: true })
+
+    await waitUntil(() => getHistory({ endpoint: "gemini-generate-content" }).entries[0]?.response !== undefined, {
+      label: "streamed generateContent recorded",
+    })
+    const entry = getHistory({ endpoint: "gemini-generate-content" }).entries[0]
+    expect(entry.response?.content).toMatchObject({ content: "Hello", tool_calls: [{ id: "call_9" }] })
+    expect(entry.response?.usage.output_tokens).toBe(3)
+  })
+
+  test("streams a JSON array without alt=sse", async () => {
+    const res = await postGemini("gemini-2.5-pro:streamGenerateContent", weatherRequest)
+
+    expect(res.headers.get("content-type")).toContain("application/json")
+    const chunks = (await res.json()) as Array<{ candidates: Array<unknown> }>
+    expect(chunks).toHaveLength(3)
+  })
+
+  test("counts tokens locally without calling upstream", async () => {
+    const res = await postGemini("gemini-2.5-pro:countTokens", { contents: weatherRequest.contents })
+
+    expect(res.status).toBe(200)
+    const { totalTokens } = (await res.json()) as { totalTokens: number }
+    expect(totalTokens).toBeGreaterThan(0)
+    expect(createChatCompletionsMock).not.toHaveBeenCalled()
+  })
+
+  test("rejects unknown methods, unsupported parts and models without chat completions", async () => {
+    expect((await postGemini("gemini-2.5-pro:embedContent", weatherRequest)).status).toBe(404)
+
+    const audio = await postGemini("gemini-2.5-pro:generateContent", {
+      contents: [{ role: "user", parts: [{ inlineData: { mimeType: "audio/wav", data: "AAAA" } }] }],
+    })
+    expect(audio.status).toBe(400)
+
+    const unsupported = await postGemini("claude-sonnet-4.6:generateContent", weatherRequest)
+    expect(unsupported.status).toBe(400)
+    expect(createChatCompletionsMock).not.toHaveBeenCalled()
+    expect(getHistory({ endpoint: "gemini-generate-content" }).entries).toHaveLength(0)
+  })
+})
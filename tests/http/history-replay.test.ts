@@ -0,0 +1,169 @@
+import type { ServerSentEventMessage } from "fetch-event-stream"
+
+import { afterEach, beforeAll, beforeEach, describe, expect, mock, test } from "bun:test"
+
+import type { HistoryEntry } from "~/lib/history"
+import type { ChatCompletionsPayload } from "~/types/api/openai-chat-completions"
+
+import { prepareChatCompletionsRequest } from "~/lib/openai/request-preparation"
+import { type StateSnapshot, restoreStateForTests, setModels, snapshotStateForTests } from "~/lib/state"
+
+import { mockModel } from "../helpers/factories"
+import { createFakeStream } from "../helpers/fake-stream"
+import { bootstrapTestRuntime, resetTestRuntime } from "../helpers/test-bootstrap"
+
+let capturedChatPayload: ChatCompletionsPayload | undefined
+
+const createChatCompletionsMock = mock((payload: ChatCompletionsPayload) => {
+  capturedChatPayload = payload
+
+  if (payload.stream) {
+    return Promise.resolve(
+      createFakeStream([
+        {
+          data: JSON.stringify({
+            id: "chatcmpl-replay-stream",
+            object: "chat.completion.chunk",
+            created: 1,
+            model: payload.model,
+            choices: [{ index: 0, delta: { role: "assistant", content: "Streamed" }, finish_reason: "stop" }],
+          }),
+        },
+        { data: "[DONE]" },
+      ] as Array<ServerSentEventMessage>),
+    )
+  }
+
+  return Promise.resolve({
+    id: "chatcmpl-replay",
+    object: "chat.completion",
+    created: 1,
+    model: payload.model,
+    choices: [
+      { index: 0, message: { role: "assistant", content: `Answer from ${payload.model}` }, finish_reason: "stop" },
+    ],
+    usage: { prompt_tokens: 10, completion_tokens: 4, total_tokens: 14 },
+  })
+})
+
+// eslint-disable-next-line @typescript-eslint/no-floating-promises -- Bun hoists module mocks before imports
+mock.module("~/lib/openai/chat-completions-client", () => ({
+  createChatCompletions: createChatCompletionsMock,
+  prepareChatCompletionsRequest,
+}))
+
+const { createFullTestApp } = await import("../helpers/test-app")
+
+const app = createFullTestApp()
+
+function post(path: string, body?: Record<string, unknown>) {
+  return app.request(path, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: body ? JSON.stringify(body) : undefined,
+  })
+}
+
+async function recordChatCompletion(body: Record<string, unknown>): Promise<string> {
+  const res = await post("/v1/chat/completions", body)
+  expect(res.status).toBe(200)
+  await res.arrayBuffer()
+
+  const list = (await (await app.request("/history/api/entries")).json()) as { entries: Array<{ id: string }> }
+  return list.entries[0].id
+}
+
+describe("POST /history/api/entries/:id/replay", () => {
+  let snapshot: StateSnapshot
+
+  beforeAll(() => {
+    bootstrapTestRuntime()
+  })
+
+  beforeEach(() => {
+    snapshot = snapshotStateForTests()
+    capturedChatPayload = undefined
+    createChatCompletionsMock.mockClear()
+    setModels({
+      object: "list",
+      data: [
+        mockModel("gpt-4.1", { supported_endpoints: ["/chat/completions"] }),
+        mockModel("gpt-4o", { supported_endpoints: ["/chat/completions"] }),
+      ],
+    })
+  })
+
+  afterEach(() => {
+    restoreStateForTests(snapshot)
+    resetTestRuntime()
+  })
+
+  test("re-executes the original payload with overrides and links the new entry", async () => {
+    const sourceId = await recordChatCompletion({
+      model: "gpt-4.1",
+      messages: [
+        { role: "system", content: "Be brief." },
+        { role: "user", content: "Hi" },
+      ],
+      max_tokens: 100,
+    })
+
+    const res = await post(`/history/api/entries/${sourceId}/replay`, {
+      model: "gpt-4o",
+      system: "Answer in French.",
+      max_tokens: 50,
+    })
+
+    expect(res.status).toBe(200)
+    const entry = (await res.json()) as HistoryEntry
+    expect(entry.id).not.toBe(sourceId)
+    expect(entry.replayOf).toBe(sourceId)
+    expect(entry.response?.content).toMatchObject({ content: "Answer from gpt-4o" })
+    expect(capturedChatPayload).toMatchObject({
+      model: "gpt-4o",
+      max_tokens: 50,
+      messages: [
+        { role: "system", content: "Answer in French." },
+        { role: "user", content: "Hi" },
+      ],
+    })
+
+    const list = (await (await app.request("/history/api/entries")).json()) as {
+      entries: Array<{ id: string; replayOf?: string }>
+    }
+    expect(list.entries.find((summary) => summary.id === entry.id)?.replayOf).toBe(sourceId)
+  })
+
+  test("waits for a streamed replay to finish before returning its entry", async () => {
+    const sourceId = await recordChatCompletion({
+      model: "gpt-4.1",
+      messages: [{ role: "user", content: "Hi" }],
+      stream: true,
+    })
+
+    const res = await post(`/history/api/entries/${sourceId}/replay`, { source: "effective" })
+
+    expect(res.status).toBe(200)
+    expect(res.headers.get("content-type")).toContain("application/json")
+    const entry = (await res.json()) as HistoryEntry
+    expect(entry.state).toBe("completed")
+    expect(entry.response?.content).toMatchObject({ content: "Streamed" })
+    expect(createChatCompletionsMock).toHaveBeenCalledTimes(2)
+  })
+
+  test("rejects unknown entries and invalid overrides before calling upstream", async () => {
+    const missing = await post("/history/api/entries/nope/replay")
+    expect(missing.status).toBe(404)
+
+    const sourceId = await recordChatCompletion({ model: "gpt-4.1", messages: [{ role: "user", content: "Hi" }] })
+    createChatCompletionsMock.mockClear()
+
+    const badSource = await post(`/history/api/entries/${sourceId}/replay`, { source: "wire" })
+    expect(badSource.status).toBe(400)
+    expect(await badSource.json()).toEqual({ error: 'source must be "original" or "effective"' })
+
+    const badMessages = await post(`/history/api/entries/${sourceId}/replay`, { messages: "Hi" })
+    expect(badMessages.status).toBe(400)
+    expect(createChatCompletionsMock).not.toHaveBeenCalled()
+  })
+})
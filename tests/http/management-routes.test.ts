@@ -284,6 +284,27 @@ describe("management and history HTTP routes", () => {
     expect(body.totalOutputTokens).toBe(7)
   })
 
+  test("GET /metrics serves OpenMetrics text with scrape-time gauges", async () => {
+    setStateForTests({
+      copilotTokenInfo: {
+        token: "copilot_test",
+        expiresAt: 1_900_000_000,
+        refreshIn: 600,
+        raw: { token: "copilot_test" },
+      },
+    })
+    insertEntry(createHistoryEntry())
+
+    const res = await app.request("/metrics")
+    const body = await res.text()
+
+    expect(res.status).toBe(200)
+    expect(res.headers.get("content-type")).toContain("application/openmetrics-text")
+    expect(body).toContain("copilot_api_copilot_token_expiry_timestamp_seconds 1900000000")
+    expect(body).toContain("copilot_api_history_entries 1")
+    expect(body.endsWith("# EOF\n")).toBe(true)
+  })
+
   test("GET /history/api/entries/:id returns a full history entry through the mounted route", async () => {
     const entry = createHistoryEntry()
     insertEntry(entry)
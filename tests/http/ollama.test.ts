@@ -0,0 +1,245 @@
+import type { ServerSentEventMessage } from "fetch-event-stream"
+
+import { afterEach, beforeAll, beforeEach, describe, expect, mock, test } from "bun:test"
+
+import type { ChatCompletionsPayload } from "~/types/api/openai-chat-completions"
+
+import { getHistory } from "~/lib/history"
+import { prepareChatCompletionsRequest } from "~/lib/openai/request-preparation"
+import { type StateSnapshot, restoreStateForTests, setModels, snapshotStateForTests } from "~/lib/state"
+
+import { mockModel } from "../helpers/factories"
+import { createFakeStream } from "../helpers/fake-stream"
+import { bootstrapTestRuntime, resetTestRuntime } from "../helpers/test-bootstrap"
+
+let capturedChatPayload: ChatCompletionsPayload | undefined
+
+const createChatCompletionsMock = mock((payload: ChatCompletionsPayload) => {
+  capturedChatPayload = payload
+
+  if (payload.stream) {
+    return Promise.resolve(createMockChatStream(payload.model))
+  }
+
+  return Promise.resolve({
+    id: "chatcmpl-ollama",
+    object: "chat.completion",
+    created: 1,
+    model: payload.model,
+    choices: [
+      {
+        index: 0,
+        message: {
+          role: "assistant",
+          content: "Checking the weather.",
+          tool_calls: [
+            { id: "call_1", type: "function", function: { name: "get_weather", arguments: '{"city":"Paris"}' } },
+          ],
+        },
+        finish_reason: "tool_calls",
+      },
+    ],
+    usage: { prompt_tokens: 12, completion_tokens: 8, total_tokens: 20 },
+  })
+})
+
+function createMockChatStream(model: string): AsyncGenerator<ServerSentEventMessage> {
+  const chunk = (choices: Array<Record<string, unknown>>, usage?: Record<string, number>) => ({
+    data: JSON.stringify({
+      id: "chatcmpl-ollama-stream",
+      object: "chat.completion.chunk",
+      created: 1,
+      model,
+      choices,
+      usage,
+    }),
+  })
+
+  return createFakeStream([
+    chunk([{ index: 0, delta: { role: "assistant", content: "Hel" }, finish_reason: null }]),
+    chunk([{ index: 0, delta: { content: "lo" }, finish_reason: null }]),
+    chunk([{ index: 0, delta: {}, finish_reason: "length" }]),
+    chunk([], { prompt_tokens: 5, completion_tokens: 3, total_tokens: 8 }),
+    { data: "[DONE]" },
+  ] as Array<ServerSentEventMessage>)
+}
+
+// eslint-disable-next-line @typescript-eslint/no-floating-promises -- Bun hoists module mocks before imports
+mock.module("~/lib/openai/chat-completions-client", () => ({
+  createChatCompletions: createChatCompletionsMock,
+  prepareChatCompletionsRequest,
+}))
+
+const { createFullTestApp } = await import("../helpers/test-app")
+
+const app = createFullTestApp()
+
+function postOllama(path: string, body: Record<string, unknown>) {
+  return app.request(`/api/${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  })
+}
+
+async function readNdjson(res: Response): Promise<Array<Record<string, unknown>>> {
+  return (await res.text())
+    .split("\n")
+    .filter(Boolean)
+    .map((line) => JSON.parse(line) as Record<string, unknown>)
+}
+
+describe("Ollama API", () => {
+  let snapshot: StateSnapshot
+
+  beforeAll(() => {
+    bootstrapTestRuntime()
+  })
+
+  beforeEach(() => {
+    snapshot = snapshotStateForTests()
+    capturedChatPayload = undefined
+    createChatCompletionsMock.mockClear()
+    setModels({
+      object: "list",
+      data: [
+        mockModel("gpt-4.1", {
+          supported_endpoints: ["/chat/completions"],
+          capabilities: {
+            family: "gpt-4.1",
+            type: "chat",
+            limits: { max_context_window_tokens: 128_000 },
+            supports: { tool_calls: true, vision: true },
+          },
+        }),
+        mockModel("text-embedding-3-small", {
+          supported_endpoints: ["/v1/embeddings"],
+          capabilities: { type: "embeddings" },
+        }),
+      ],
+    })
+  })
+
+  afterEach(() => {
+    restoreStateForTests(snapshot)
+    resetTestRuntime()
+  })
+
+  test("GET /api/tags lists chat models with their context window", async () => {
+    const res = await app.request("/api/tags")
+
+    expect(res.status).toBe(200)
+    const { models } = (await res.json()) as { models: Array<Record<string, unknown>> }
+    expect(models).toHaveLength(1)
+    expect(models[0]).toMatchObject({
+      name: "gpt-4.1",
+      model: "gpt-4.1",
+      size: 0,
+      context_length: 128_000,
+      details: { family: "gpt-4.1", families: ["gpt-4.1"] },
+    })
+    expect(models[0].digest).toMatch(/^[\da-f]{64}$/)
+  })
+
+  test("POST /api/show reports context length and capabilities, accepting a :latest tag", async () => {
+    const res = await postOllama("show", { model: "gpt-4.1:latest" })
+
+    expect(res.status).toBe(200)
+    expect(await res.json()).toMatchObject({
+      parameters: "num_ctx 128000",
+      model_info: { "general.architecture": "gpt-4.1", "gpt-4.1.context_length": 128_000 },
+      capabilities: ["completion", "tools", "vision"],
+    })
+
+    const missing = await postOllama("show", { name: "llama3" })
+    expect(missing.status).toBe(404)
+    expect(await missing.json()).toEqual({ error: 'model "llama3" not found' })
+  })
+
+  test("POST /api/chat translates to chat completions and returns an Ollama message", async () => {
+    const res = await postOllama("chat", {
+      model: "gpt-4.1",
+      stream: false,
+      messages: [
+        { role: "system", content: "Be brief." },
+        { role: "user", content: "Weather in Paris?", images: ["iVBORw0KGgo"] },
+      ],
+      tools: [{ type: "function", function: { name: "get_weather", parameters: { type: "object" } } }],
+      options: { temperature: 0.2, num_predict: 256, num_ctx: 8192 },
+    })
+
+    expect(res.status).toBe(200)
+    expect(await res.json()).toMatchObject({
+      model: "gpt-4.1",
+      message: {
+        role: "assistant",
+        content: "Checking the weather.",
+        tool_calls: [{ function: { index: 0, name: "get_weather", arguments: { city: "Paris" } } }],
+      },
+      done: true,
+      done_reason: "stop",
+      prompt_eval_count: 12,
+      eval_count: 8,
+    })
+    expect(capturedChatPayload).toMatchObject({
+      model: "gpt-4.1",
+      temperature: 0.2,
+      max_tokens: 256,
+      messages: [
+        { role: "system", content: "Be brief." },
+        {
+          role: "user",
+          content: [
+            { type: "text", text: "Weather in Paris?" },
+            { type: "image_url", image_url: { url: "data:image/png;base64,iVBORw0KGgo" } },
+          ],
+        },
+      ],
+    })
+    expect(capturedChatPayload).not.toHaveProperty("num_ctx")
+
+    const entry = getHistory({ endpoint: "openai-chat-completions" }).entries[0]
+    expect(entry.rawPath).toBe("/api/chat")
+  })
+
+  test("POST /api/chat streams NDJSON by default", async () => {
+    const res = await postOllama("chat", { model: "gpt-4.1", messages: [{ role: "user", content: "Hi" }] })
+
+    expect(res.status).toBe(200)
+    expect(res.headers.get("content-type")).toContain("application/x-ndjson")
+
+    const lines = await readNdjson(res)
+    expect(lines.map((line) => line.message)).toEqual([
+      { role: "assistant", content: "Hel" },
+      { role: "assistant", content: "lo" },
+      { role: "assistant", content: "" },
+    ])
+    expect(lines.at(-1)).toMatchObject({ done: true, done_reason: "length", prompt_eval_count: 5, eval_count: 3 })
+    expect(capturedChatPayload?.stream_options).toEqual({ include_usage: true })
+  })
+
+  test("POST /api/generate streams the response text and answers load requests locally", async () => {
+    const res = await postOllama("generate", { model: "gpt-4.1:latest", prompt: "Hi", system: "Be brief." })
+
+    const lines = await readNdjson(res)
+    expect(lines.map((line) => line.response)).toEqual(["Hel", "lo", ""])
+    expect(lines.at(-1)).toMatchObject({ model: "gpt-4.1:latest", done: true })
+    expect(capturedChatPayload?.messages).toEqual([
+      { role: "system", content: "Be brief." },
+      { role: "user", content: "Hi" },
+    ])
+
+    createChatCompletionsMock.mockClear()
+    const load = await postOllama("generate", { model: "gpt-4.1" })
+    expect(await load.json()).toMatchObject({ response: "", done: true, done_reason: "load" })
+    expect(createChatCompletionsMock).not.toHaveBeenCalled()
+  })
+
+  test("rejects unknown models with an Ollama error body", async () => {
+    const res = await postOllama("chat", { model: "llama3", messages: [{ role: "user", content: "Hi" }] })
+
+    expect(res.status).toBe(404)
+    expect(await res.json()).toEqual({ error: 'model "llama3" not found' })
+    expect(createChatCompletionsMock).not.toHaveBeenCalled()
+  })
+})
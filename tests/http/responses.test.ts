@@ -2,7 +2,14 @@ import { afterEach, beforeAll, beforeEach, describe, expect, mock, test } from "
 
 import type { ResponsesPayload } from "~/types/api/openai-responses"
 
-import { type StateSnapshot, restoreStateForTests, setModels, setStateForTests, snapshotStateForTests } from "~/lib/state"
+import { recordStoredResponse, resetResponseStoreForTesting } from "~/lib/openai/response-store"
+import {
+  type StateSnapshot,
+  restoreStateForTests,
+  setModels,
+  setStateForTests,
+  snapshotStateForTests,
+} from "~/lib/state"
 
 import { mockModel } from "../helpers/factories"
 import { bootstrapTestRuntime, resetTestRuntime } from "../helpers/test-bootstrap"
@@ -157,6 +164,7 @@ describe("POST /responses", () => {
 
   afterEach(() => {
     globalThis.fetch = originalFetch
+    resetResponseStoreForTesting()
     restoreStateForTests(snapshot)
     resetTestRuntime()
   })
@@ -213,7 +221,7 @@ describe("POST /responses", () => {
             id: "call_123",
             call_id: "call_123",
             name: "lookup_weather",
-            arguments: "{\"city\":\"Paris\"}",
+            arguments: '{"city":"Paris"}',
           },
           {
             type: "function_call_output",
@@ -263,7 +271,7 @@ describe("POST /responses", () => {
             id: "call_999",
             call_id: "call_999",
             name: "lookup_weather",
-            arguments: "{\"city\":\"Berlin\"}",
+            arguments: '{"city":"Berlin"}',
           },
         ],
       }),
@@ -335,4 +343,54 @@ describe("POST /responses", () => {
       },
     })
   })
+
+  test("serves stored responses and their input items", async () => {
+    const response = (id: string, previousResponseId?: string) => ({
+      id,
+      object: "response" as const,
+      created_at: 1,
+      status: "completed" as const,
+      model: "gpt-4o",
+      output: [
+        {
+          type: "message" as const,
+          id: `msg_${id}`,
+          role: "assistant" as const,
+          status: "completed" as const,
+          content: [{ type: "output_text" as const, text: `answer ${id}`, annotations: [] }],
+        },
+      ],
+      usage: null,
+      tools: [],
+      tool_choice: "auto" as const,
+      parallel_tool_calls: false,
+      previous_response_id: previousResponseId,
+      store: false,
+    })
+    recordStoredResponse({ model: "gpt-4o", input: "first" }, response("resp_1"), undefined)
+    recordStoredResponse(
+      { model: "gpt-4o", input: "second", previous_response_id: "resp_1" },
+      response("resp_2"),
+      undefined,
+    )
+
+    const stored = await app.request("/v1/responses/resp_2")
+    expect(stored.status).toBe(200)
+    expect(await stored.json()).toMatchObject({ id: "resp_2", previous_response_id: "resp_1", store: true })
+
+    const items = await app.request("/v1/responses/resp_2/input_items?order=asc")
+    expect(await items.json()).toMatchObject({
+      object: "list",
+      data: [{ content: "first" }, { id: "msg_resp_1" }, { content: "second" }],
+      has_more: false,
+    })
+
+    const deleted = await app.request("/v1/responses/resp_2", { method: "DELETE" })
+    expect(await deleted.json()).toEqual({ id: "resp_2", object: "response.deleted", deleted: true })
+    const missing = await app.request("/v1/responses/resp_2/input_items")
+    expect(missing.status).toBe(404)
+    expect(await missing.json()).toMatchObject({
+      error: { message: "Response with id 'resp_2' not found.", type: "invalid_request_error" },
+    })
+  })
 })
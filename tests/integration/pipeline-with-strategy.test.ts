@@ -15,6 +15,8 @@ import { createRequestContextManager } from "~/lib/context/manager"
 import { HTTPError } from "~/lib/error"
 import { executeRequestPipeline } from "~/lib/request/pipeline"
 import { createAutoTruncateStrategy } from "~/lib/request/strategies/auto-truncate"
+import { createModelFallbackStrategy } from "~/lib/request/strategies/model-fallback"
+import { restoreStateForTests, setStateForTests, snapshotStateForTests } from "~/lib/state"
 
 import { mockModel } from "../helpers/factories"
 import { createMockAdapter } from "../helpers/mock-adapter"
@@ -394,3 +396,54 @@ describe("pipeline with responses-format adapter", () => {
     expect(executeFn).toHaveBeenCalledTimes(1)
   })
 })
+
+describe("pipeline with model-fallback strategy (integration)", () => {
+  const originalState = snapshotStateForTests()
+
+  afterEach(() => {
+    restoreStateForTests(originalState)
+  })
+
+  test("switches model on 503 and records the switch as a separate attempt", async () => {
+    const opus1m = mockModel("claude-opus-4.6-1m")
+    const opus = mockModel("claude-opus-4.6")
+    setStateForTests({
+      models: { object: "list", data: [opus1m, opus] },
+      modelFallbacks: { "claude-opus-4.6-1m": ["claude-opus-4.6"] },
+    })
+
+    const executedModels: Array<string | undefined> = []
+    const adapter = createResponsesAdapter()
+    adapter.execute = (p, model) => {
+      executedModels.push(model?.id)
+      if (p.model === "claude-opus-4.6-1m") {
+        return Promise.reject(
+          new HTTPError("Service Unavailable", 503, JSON.stringify({ error: { code: "upstream_rate_limited" } })),
+        )
+      }
+      return Promise.resolve({ result: { id: "resp_fb", model: p.model, output: [] }, queueWaitMs: 0 })
+    }
+
+    const manager = createRequestContextManager()
+    const reqCtx = manager.create({ endpoint: "openai-responses" })
+    reqCtx.setOriginalRequest({ model: "claude-opus-4.6-1m", messages: [], stream: false, payload: {} })
+
+    const payload = { ...responsesPayload, model: "claude-opus-4.6-1m" }
+    const result = await executeRequestPipeline({
+      adapter,
+      strategies: [createModelFallbackStrategy<ResponsesTestPayload>({ label: "test" })],
+      payload,
+      originalPayload: payload,
+      model: opus1m,
+      maxRetries: 2,
+      requestContext: reqCtx,
+    })
+
+    expect(executedModels).toEqual(["claude-opus-4.6-1m", "claude-opus-4.6"])
+    expect(result.model?.id).toBe("claude-opus-4.6")
+    expect(result.response).toEqual({ id: "resp_fb", model: "claude-opus-4.6", output: [] })
+    expect(reqCtx.attempts).toHaveLength(2)
+    expect(reqCtx.attempts[1].strategy).toBe("model-fallback")
+    expect(reqCtx.attempts[1].effectiveRequest?.resolvedModel?.id).toBe("claude-opus-4.6")
+  })
+})
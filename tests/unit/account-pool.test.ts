@@ -0,0 +1,182 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test"
+
+import { copilotHeaders } from "~/lib/copilot-api"
+import { HTTPError } from "~/lib/error"
+import { restoreStateForTests, setStateForTests, snapshotStateForTests, state } from "~/lib/state"
+import { runWithRoutingSession } from "~/lib/token/account-context"
+import { AccountPool, type AccountPoolOptions } from "~/lib/token/account-pool"
+import * as copilotClient from "~/lib/token/copilot-client"
+
+/**
+ * Unit tests for multi-account routing and failover in `~/lib/token/account-pool`.
+ */
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const originalFetch = globalThis.fetch
+
+function jsonResponse(body: unknown): Response {
+  return new Response(JSON.stringify(body), { status: 200, headers: { "content-type": "application/json" } })
+}
+
+/** Fake Copilot token endpoint: token = `cp-<github token>` */
+function fakeGitHubFetch(_input: string | URL | Request, init?: RequestInit): Promise<Response> {
+  const headers = (init?.headers ?? {}) as Record<string, string>
+  const githubToken = headers.authorization.replace("token ", "")
+  return Promise.resolve(
+    jsonResponse({ token: `cp-${githubToken}`, expires_at: Date.now() / 1000 + 3600, refresh_in: 1500 }),
+  )
+}
+
+/** Bearer token the current upstream call would send */
+function currentCopilotToken(): string {
+  return copilotHeaders(state).Authorization.replace("Bearer ", "")
+}
+
+function rateLimited(retryAfter?: number): HTTPError {
+  const headers = new Headers(retryAfter === undefined ? {} : { "retry-after": String(retryAfter) })
+  return new HTTPError("Rate limited", 429, "{}", undefined, headers)
+}
+
+async function createPool(options: Partial<AccountPoolOptions> = {}): Promise<AccountPool> {
+  const pool = new AccountPool(
+    {
+      accounts: [{ label: "second", githubToken: "gh-second", accountType: "business" }],
+      ...options,
+    },
+    "individual",
+  )
+  await pool.start()
+  return pool
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe("AccountPool", () => {
+  const originalState = snapshotStateForTests()
+  let pool: AccountPool | undefined
+
+  beforeEach(() => {
+    globalThis.fetch = fakeGitHubFetch as unknown as typeof fetch
+    setStateForTests({
+      githubToken: "gh-primary",
+      copilotToken: "cp-primary",
+      vsCodeVersion: "1.104.3",
+      accountType: "individual",
+    })
+  })
+
+  afterEach(() => {
+    pool?.stop()
+    pool = undefined
+    globalThis.fetch = originalFetch
+    restoreStateForTests(originalState)
+  })
+
+  test("round-robin alternates accounts and scopes upstream headers", async () => {
+    pool = await createPool()
+
+    const tokens: Array<string> = []
+    for (let i = 0; i < 4; i++) {
+      tokens.push(await pool.execute(() => Promise.resolve(currentCopilotToken())))
+    }
+
+    expect(tokens).toEqual(["cp-primary", "cp-gh-second", "cp-primary", "cp-gh-second"])
+    expect(currentCopilotToken()).toBe("cp-primary")
+  })
+
+  test("fails over on 429 and skips the account until its cooldown ends", async () => {
+    pool = await createPool()
+
+    const result = await pool.execute(() => {
+      if (currentCopilotToken() === "cp-primary") return Promise.reject(rateLimited(30))
+      return Promise.resolve("ok")
+    })
+    expect(result).toBe("ok")
+
+    const primary = pool.getStatus().find((account) => account.label === "primary")
+    expect(primary).toMatchObject({ available: false, failoverCount: 1, lastError: "429 rate_limited" })
+    expect(primary?.cooldownUntil).toBeGreaterThan(Date.now() + 25_000)
+
+    const next = await pool.execute(() => Promise.resolve(currentCopilotToken()))
+    expect(next).toBe("cp-gh-second")
+  })
+
+  test("uses the configured quota cooldown for 402 without Retry-After", async () => {
+    pool = await createPool({ quotaCooldownSeconds: 120 })
+
+    await pool.execute(() => {
+      if (currentCopilotToken() === "cp-primary") {
+        return Promise.reject(new HTTPError("Quota exceeded", 402, "{}"))
+      }
+      return Promise.resolve("ok")
+    })
+
+    const primary = pool.getStatus().find((account) => account.label === "primary")
+    expect(primary?.lastError).toBe("402 quota_exceeded")
+    expect(primary?.cooldownUntil).toBeGreaterThan(Date.now() + 110_000)
+  })
+
+  test("rethrows when every account is rate limited", async () => {
+    pool = await createPool()
+
+    let calls = 0
+    const attempt = pool.execute(() => {
+      calls++
+      return Promise.reject(rateLimited())
+    })
+
+    expect(attempt).rejects.toBeInstanceOf(HTTPError)
+    await attempt.catch(() => {})
+    expect(calls).toBe(2)
+    expect(pool.getStatus().every((account) => !account.available)).toBe(true)
+  })
+
+  test("least-premium-usage prefers the account with the most premium quota left", async () => {
+    const premiumRemaining: Record<string, number> = { "cp-primary": 10, "cp-gh-second": 80 }
+    const usageSpy = spyOn(copilotClient, "getCopilotUsage").mockImplementation(() =>
+      Promise.resolve({
+        quota_snapshots: {
+          premium_interactions: { percent_remaining: premiumRemaining[currentCopilotToken()], unlimited: false },
+        },
+      } as Awaited<ReturnType<typeof copilotClient.getCopilotUsage>>),
+    )
+    const usagePool = await createPool({ strategy: "least-premium-usage" })
+    pool = usagePool
+
+    const tokens = await Promise.all(
+      [1, 2, 3].map(() => usagePool.execute(() => Promise.resolve(currentCopilotToken()))),
+    )
+
+    expect(tokens).toEqual(["cp-gh-second", "cp-gh-second", "cp-gh-second"])
+    expect(usagePool.getStatus().map((account) => account.premiumPercentRemaining)).toEqual([10, 80])
+    usageSpy.mockRestore()
+  })
+
+  test("sticky-session keeps a session on one account", async () => {
+    const stickyPool = await createPool({ strategy: "sticky-session" })
+    pool = stickyPool
+    const run = (sessionId: string) =>
+      runWithRoutingSession(sessionId, () => stickyPool.execute(() => Promise.resolve(currentCopilotToken())))
+
+    const first = await run("session-a")
+    const other = await run("session-b")
+
+    expect(await run("session-a")).toBe(first)
+    expect(await run("session-b")).toBe(other)
+    expect(other).not.toBe(first)
+  })
+
+  test("disables accounts whose Copilot token cannot be obtained", async () => {
+    globalThis.fetch = (() => Promise.resolve(new Response("denied", { status: 401 }))) as unknown as typeof fetch
+    pool = await createPool()
+
+    expect(pool.getStatus().map((account) => account.enabled)).toEqual([true, false])
+    globalThis.fetch = fakeGitHubFetch as unknown as typeof fetch
+    expect(await pool.execute(() => Promise.resolve(currentCopilotToken()))).toBe("cp-primary")
+  })
+})
@@ -175,6 +175,105 @@ describe("prepareAnthropicRequest", () => {
     expect(prepared.wire.system).toEqual([{ type: "text", text: "system", cache_control: { type: "ephemeral" } }])
   })
 
+  test("places a rolling tail breakpoint and keeps the previous tail cached", () => {
+    setStateForTests({
+      copilotToken: "test-token",
+      vsCodeVersion: "1.100.0",
+      accountType: "individual",
+    })
+
+    const payload: MessagesPayload = {
+      ...basePayload(),
+      messages: [
+        { role: "user", content: "Read the file" },
+        { role: "assistant", content: [{ type: "tool_use", id: "toolu_1", name: "Read", input: {} }] },
+        { role: "user", content: [{ type: "tool_result", tool_use_id: "toolu_1", content: "contents" }] },
+        {
+          role: "assistant",
+          content: [
+            { type: "text", text: "Done." },
+            { type: "thinking", thinking: "…", signature: "sig" },
+          ],
+        },
+        { role: "user", content: [{ type: "text", text: "Thanks" }] },
+      ],
+    }
+    const original = structuredClone(payload)
+
+    const prepared = prepareAnthropicRequest(payload)
+    expect(prepared.wire.messages).toEqual([
+      payload.messages[0],
+      payload.messages[1],
+      {
+        role: "user",
+        content: [
+          { type: "tool_result", tool_use_id: "toolu_1", content: "contents", cache_control: { type: "ephemeral" } },
+        ],
+      },
+      payload.messages[3],
+      { role: "user", content: [{ type: "text", text: "Thanks", cache_control: { type: "ephemeral" } }] },
+    ])
+    expect(payload).toEqual(original)
+  })
+
+  test("skips thinking blocks and converts string content when placing message breakpoints", () => {
+    setStateForTests({
+      copilotToken: "test-token",
+      vsCodeVersion: "1.100.0",
+      accountType: "individual",
+    })
+
+    const prepared = prepareAnthropicRequest({
+      ...basePayload(),
+      messages: [
+        { role: "user", content: "Hi" },
+        {
+          role: "assistant",
+          content: [
+            { type: "text", text: "Hello" },
+            { type: "thinking", thinking: "…", signature: "sig" },
+          ],
+        },
+      ],
+    })
+
+    expect(prepared.wire.messages).toEqual([
+      { role: "user", content: [{ type: "text", text: "Hi", cache_control: { type: "ephemeral" } }] },
+      {
+        role: "assistant",
+        content: [
+          { type: "text", text: "Hello", cache_control: { type: "ephemeral" } },
+          { type: "thinking", thinking: "…", signature: "sig" },
+        ],
+      },
+    ])
+  })
+
+  test("gives messages only the breakpoints tools and system leave over", () => {
+    setStateForTests({
+      copilotToken: "test-token",
+      vsCodeVersion: "1.100.0",
+      accountType: "individual",
+    })
+
+    const prepared = prepareAnthropicRequest({
+      ...basePayload(),
+      system: [{ type: "text", text: "system" }],
+      tools: [{ name: "Read", input_schema: { type: "object" } }],
+      messages: [
+        { role: "user", content: "a" },
+        { role: "assistant", content: "b" },
+        { role: "user", content: "c" },
+        { role: "assistant", content: "d" },
+        { role: "user", content: "e" },
+      ],
+    })
+
+    expect(JSON.stringify(prepared.wire).match(/"cache_control"/g)).toHaveLength(4)
+    const messages = prepared.wire.messages as MessagesPayload["messages"]
+    expect(messages.map((message) => typeof message.content !== "string")).toEqual([false, false, true, false, true])
+  })
+
   test("clamps thinking budget to model metadata min and max before max_tokens", () => {
     setStateForTests({
       copilotToken: "test-token",
@@ -0,0 +1,332 @@
+/**
+ * Unit tests for per-user budgets: admission, premium request reservation and
+ * refunds, token accounting, model allowlists, snapshots and persistence.
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from "bun:test"
+import fs from "node:fs/promises"
+import os from "node:os"
+import path from "node:path"
+
+import type { RequestContextManager } from "~/lib/context/manager"
+
+import {
+  _resetBudgetsForTests,
+  _setBudgetsFilePathForTests,
+  type BudgetSubjects,
+  chargeBudgetSideCall,
+  enforceBudgets,
+  getBudgetSnapshot,
+  handleBudgetEvent,
+  initBudgets,
+  persistBudgets,
+  runWithBudgetScope,
+} from "~/lib/budgets"
+import { compileBudgetRules } from "~/lib/config/config"
+import { createRequestContextManager } from "~/lib/context/manager"
+import { BudgetExceededError } from "~/lib/error"
+import {
+  type StateSnapshot,
+  restoreStateForTests,
+  setBudgetConfig,
+  setModels,
+  snapshotStateForTests,
+} from "~/lib/state"
+
+import { mockModel } from "../helpers/factories"
+
+let manager: RequestContextManager
+let snapshot: StateSnapshot
+let tempDir: string
+
+const ALICE: BudgetSubjects = { api_key: "alice", session: "sess-1", ip: "10.0.0.1" }
+
+beforeEach(async () => {
+  snapshot = snapshotStateForTests()
+  tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "budgets-test-"))
+  _resetBudgetsForTests()
+  _setBudgetsFilePathForTests(path.join(tempDir, "budgets.json"))
+  manager = createRequestContextManager()
+  manager.on("change", handleBudgetEvent)
+  setModels({
+    object: "list",
+    data: [
+      mockModel("gpt-4o", { billing: { multiplier: 0 } }),
+      mockModel("claude-sonnet-4.6", { billing: { is_premium: true, multiplier: 1 } }),
+      mockModel("claude-opus-4.6", { billing: { is_premium: true, multiplier: 3 } }),
+    ],
+  })
+})
+
+afterEach(async () => {
+  restoreStateForTests(snapshot)
+  _resetBudgetsForTests()
+  await fs.rm(tempDir, { recursive: true, force: true })
+})
+
+function configure(rules: Parameters<typeof compileBudgetRules>[0]) {
+  setBudgetConfig({ budgetRules: compileBudgetRules(rules) })
+}
+
+/** Admit a request and settle it with the given token usage (or fail it) */
+function runRequest(model: string, subjects: BudgetSubjects, outcome: { tokens: number } | "failed" = { tokens: 0 }) {
+  const ctx = manager.create({ endpoint: "openai-chat-completions" })
+  enforceBudgets(ctx, subjects, model)
+  if (outcome === "failed") {
+    ctx.fail(model, new Error("upstream exploded"))
+  } else {
+    ctx.complete({
+      success: true,
+      model,
+      usage: { input_tokens: outcome.tokens, output_tokens: 0 },
+      content: null,
+    })
+  }
+}
+
+/** Premium requests ALICE's api key has used today under the "premium" rule */
+function premiumUsed(): number | undefined {
+  const subject = getBudgetSnapshot().find((entry) => entry.rule === "premium" && entry.subject === "alice")
+  return subject?.usage.find((usage) => usage.metric === "premium_requests")?.used
+}
+
+function rejectionOf(model: string, subjects: BudgetSubjects): BudgetExceededError {
+  const ctx = manager.create({ endpoint: "anthropic-messages" })
+  try {
+    enforceBudgets(ctx, subjects, model)
+  } catch (error) {
+    if (error instanceof BudgetExceededError) return error
+    throw error
+  }
+  throw new Error("request was not rejected")
+}
+
+// ============================================================================
+// Admission
+// ============================================================================
+
+describe("enforceBudgets", () => {
+  test("charges each request its premium multiplier and rejects once the daily allowance is used", () => {
+    configure([{ name: "premium", by: "api_key", premium_requests_per_day: 4 }])
+
+    runRequest("claude-opus-4.6", ALICE)
+    runRequest("claude-sonnet-4.6", ALICE)
+    // Included models cost nothing and stay available
+    runRequest("gpt-4o", ALICE)
+
+    const error = rejectionOf("claude-sonnet-4.6", ALICE)
+    expect(error.status).toBe(429)
+    expect(error.message).toStartWith('Budget "premium" exceeded for api key "alice": 4/4 premium requests per day')
+    expect(error.retryAfter).toBeGreaterThan(0)
+    expect(error.retryAfter).toBeLessThanOrEqual(24 * 60 * 60)
+    expect(() => runRequest("gpt-4o", ALICE)).not.toThrow()
+  })
+
+  test("keeps separate counters per subject and skips requests without one", () => {
+    configure([{ name: "premium", by: "api_key", premium_requests_per_day: 1 }])
+
+    runRequest("claude-sonnet-4.6", ALICE)
+    runRequest("claude-sonnet-4.6", { api_key: "bob" })
+    runRequest("claude-sonnet-4.6", {})
+    runRequest("claude-sonnet-4.6", {})
+
+    expect(rejectionOf("claude-sonnet-4.6", { api_key: "bob" }).message).toContain('api key "bob"')
+  })
+
+  test("only applies a rule to the subjects it lists", () => {
+    configure([{ name: "interns", by: "session", subjects: ["intern-*"], premium_requests_per_day: 0 }])
+
+    runRequest("claude-sonnet-4.6", ALICE)
+    expect(rejectionOf("claude-sonnet-4.6", { session: "intern-7" }).message).toContain('session "intern-7"')
+  })
+
+  test("refunds the premium reservation of a request that failed without usage", () => {
+    configure([{ name: "premium", by: "ip", premium_requests_per_day: 1 }])
+
+    runRequest("claude-sonnet-4.6", ALICE, "failed")
+    runRequest("claude-sonnet-4.6", ALICE)
+
+    expect(rejectionOf("claude-sonnet-4.6", ALICE).message).toContain('ip "10.0.0.1"')
+  })
+
+  test("reserves the multiplier once per requested choice", () => {
+    configure([{ name: "premium", by: "api_key", premium_requests_per_day: 4 }])
+
+    const ctx = manager.create({ endpoint: "openai-chat-completions" })
+    enforceBudgets(ctx, ALICE, "claude-sonnet-4.6", 3)
+
+    expect(premiumUsed()).toBe(3)
+    expect(rejectionOf("claude-opus-4.6", ALICE).message).toContain("3/4 premium requests per day")
+  })
+
+  test("charges every upstream attempt with the multiplier of the model it was sent to", () => {
+    configure([{ name: "premium", by: "api_key", premium_requests_per_day: 100 }])
+
+    const ctx = manager.create({ endpoint: "openai-chat-completions" })
+    enforceBudgets(ctx, ALICE, "claude-opus-4.6", 2)
+    for (const model of ["claude-opus-4.6", "claude-opus-4.6", "claude-sonnet-4.6"]) {
+      ctx.beginAttempt({})
+      ctx.setAttemptEffectiveRequest({
+        model,
+        resolvedModel: undefined,
+        messages: [],
+        payload: {},
+        format: ctx.endpoint,
+      })
+    }
+    ctx.complete({
+      success: true,
+      model: "claude-sonnet-4.6",
+      usage: { input_tokens: 10, output_tokens: 5 },
+      content: null,
+    })
+
+    // (3 + 3 + 1) × 2 choices
+    expect(premiumUsed()).toBe(14)
+  })
+
+  test("charges nothing for a request answered from the response cache", () => {
+    configure([
+      { name: "premium", by: "api_key", premium_requests_per_day: 100 },
+      { name: "tokens", by: "api_key", tokens_per_day: 1000 },
+    ])
+
+    const ctx = manager.create({ endpoint: "openai-chat-completions" })
+    enforceBudgets(ctx, ALICE, "claude-opus-4.6")
+    ctx.setPipelineInfo({ responseCache: { key: "abc", storedAt: 1 } })
+    ctx.complete({
+      success: true,
+      model: "claude-opus-4.6",
+      usage: { input_tokens: 400, output_tokens: 100 },
+      content: null,
+    })
+
+    expect(premiumUsed()).toBe(0)
+    expect(getBudgetSnapshot().filter((subject) => subject.rule === "tokens")).toEqual([])
+  })
+
+  test("charges upstream calls a request makes outside its attempts", () => {
+    configure([{ name: "premium", by: "api_key", premium_requests_per_day: 100 }])
+
+    const ctx = manager.create({ endpoint: "anthropic-messages" })
+    enforceBudgets(ctx, ALICE, "claude-sonnet-4.6")
+    runWithBudgetScope(ctx, () => chargeBudgetSideCall("claude-opus-4.6"))
+    // Outside the scope nothing is charged
+    chargeBudgetSideCall("claude-opus-4.6")
+    ctx.fail("claude-sonnet-4.6", new Error("upstream exploded"))
+
+    // The failed request's own reservation is refunded, the side call is not
+    expect(premiumUsed()).toBe(3)
+  })
+
+  test("adds token usage when requests settle and rejects once the hourly allowance is used", () => {
+    configure([{ name: "tokens", by: "api_key", tokens_per_hour: 1000 }])
+
+    runRequest("gpt-4o", ALICE, { tokens: 600 })
+    runRequest("gpt-4o", ALICE, { tokens: 600 })
+
+    const error = rejectionOf("gpt-4o", ALICE)
+    expect(error.message).toContain("1200/1000 tokens per hour")
+    expect(error.retryAfter).toBeLessThanOrEqual(60 * 60)
+  })
+
+  test("restricts subjects to allowed models and a maximum multiplier", () => {
+    configure([{ name: "cheap-only", by: "api_key", allowed_models: ["gpt-*", "claude-*"], max_multiplier: 1 }])
+
+    runRequest("gpt-4o", ALICE)
+    runRequest("claude-sonnet-4.6", ALICE)
+    expect(rejectionOf("claude-opus-4.6", ALICE).message).toBe(
+      'Budget "cheap-only" does not allow api key "alice" to use model "claude-opus-4.6" (3x premium requests, limit 1x)',
+    )
+    expect(rejectionOf("o3-mini", ALICE).retryAfter).toBeUndefined()
+  })
+
+  test("fails the request context of a rejected request", () => {
+    configure([{ name: "premium", by: "api_key", premium_requests_per_day: 0 }])
+    const states: Array<string> = []
+    manager.on("change", (event) => {
+      if (event.type === "failed") states.push(event.entry.response?.error ?? "")
+    })
+
+    rejectionOf("claude-sonnet-4.6", ALICE)
+
+    expect(states).toEqual([expect.stringContaining('Budget "premium" exceeded') as string])
+  })
+})
+
+// ============================================================================
+// Client error formats
+// ============================================================================
+
+describe("BudgetExceededError", () => {
+  test("renders the client's native error body", () => {
+    expect(new BudgetExceededError("over", "anthropic-messages").toResponseBody()).toEqual({
+      type: "error",
+      error: { type: "rate_limit_error", message: "over" },
+    })
+    expect(new BudgetExceededError("over", "openai-responses").toResponseBody()).toEqual({
+      error: { message: "over", type: "insufficient_quota", param: null, code: "insufficient_quota" },
+    })
+  })
+})
+
+// ============================================================================
+// Snapshot and persistence
+// ============================================================================
+
+describe("budget counters", () => {
+  test("are listed per rule and subject with their limits", () => {
+    configure([{ name: "team", by: "api_key", premium_requests_per_day: 10, tokens_per_hour: 5000 }])
+
+    runRequest("claude-opus-4.6", ALICE, { tokens: 1200 })
+
+    expect(getBudgetSnapshot()).toEqual([
+      {
+        rule: "team",
+        by: "api_key",
+        subject: "alice",
+        usage: [
+          { metric: "premium_requests", window: "day", used: 3, limit: 10, resetsAt: expect.any(Number) as number },
+          { metric: "tokens", window: "hour", used: 1200, limit: 5000, resetsAt: expect.any(Number) as number },
+        ],
+      },
+    ])
+  })
+
+  test("survive a restart within their window", async () => {
+    configure([{ name: "team", by: "api_key", premium_requests_per_day: 10 }])
+    runRequest("claude-opus-4.6", ALICE)
+    await persistBudgets()
+
+    await initBudgets()
+    runRequest("claude-opus-4.6", ALICE)
+
+    expect(getBudgetSnapshot()[0]?.usage[0]?.used).toBe(6)
+  })
+})
+
+// ============================================================================
+// compileBudgetRules
+// ============================================================================
+
+describe("compileBudgetRules", () => {
+  test("compiles limits and skips rules without a name, a valid subject kind or any limit", () => {
+    const rules = compileBudgetRules([
+      { name: "ok", by: "session", tokens_per_day: 100, premium_requests_per_hour: 2 },
+      { name: "", by: "api_key", tokens_per_day: 100 },
+      { name: "bad-by", by: "user" as never, tokens_per_day: 100 },
+      { name: "no-limits", by: "ip" },
+    ])
+
+    expect(rules).toEqual([
+      {
+        name: "ok",
+        by: "session",
+        limits: [
+          { metric: "premium_requests", window: "hour", limit: 2 },
+          { metric: "tokens", window: "day", limit: 100 },
+        ],
+      },
+    ])
+  })
+})
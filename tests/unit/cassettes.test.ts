@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, mock, test } from "bun:test"
+import { mkdtemp, readdir, readFile, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import path from "node:path"
+
+import type { Cassette } from "~/lib/cassettes"
+
+import { computeCassetteKey, flushCassettes, setCassetteMode, upstreamFetch } from "~/lib/cassettes"
+import { getModels } from "~/lib/models/client"
+import { restoreStateForTests, setStateForTests, snapshotStateForTests } from "~/lib/state"
+
+const originalFetch = globalThis.fetch
+const SSE_BODY = 'data: {"id":"1","choices":[{"delta":{"content":"hi"}}]}\n\ndata: [DONE]\n\n'
+
+function mockUpstream(body: string, init: ResponseInit) {
+  const fetchMock = mock(() => Promise.resolve(new Response(body, init)))
+  globalThis.fetch = fetchMock as unknown as typeof fetch
+  return fetchMock
+}
+
+describe("computeCassetteKey", () => {
+  test("ignores body key order but not method, path or content", () => {
+    const key = computeCassetteKey("POST", "/chat/completions", { model: "gpt-4o", stream: true })
+
+    expect(computeCassetteKey("post", "/chat/completions", { stream: true, model: "gpt-4o" })).toBe(key)
+    expect(computeCassetteKey("POST", "/responses", { model: "gpt-4o", stream: true })).not.toBe(key)
+    expect(computeCassetteKey("POST", "/chat/completions", { model: "gpt-4o", stream: false })).not.toBe(key)
+  })
+})
+
+describe("upstreamFetch cassettes", () => {
+  const originalState = snapshotStateForTests()
+  let dir: string
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "copilot-api-cassettes-"))
+    setStateForTests({ accountType: "individual", copilotToken: "copilot-test-token", fetchTimeout: 0 })
+  })
+
+  afterEach(async () => {
+    setCassetteMode(null)
+    globalThis.fetch = originalFetch
+    restoreStateForTests(originalState)
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  test("records the raw SSE stream and replays it byte for byte without the network", async () => {
+    setCassetteMode({ mode: "record", dir })
+    mockUpstream(SSE_BODY, { status: 200, headers: { "content-type": "text/event-stream", "x-request-id": "abc" } })
+
+    const live = await upstreamFetch("https://api.githubcopilot.com/chat/completions", {
+      method: "POST",
+      headers: { Authorization: "Bearer secret", "content-type": "application/json" },
+      body: JSON.stringify({ model: "gpt-4o", stream: true }),
+    })
+    expect(await live.text()).toBe(SSE_BODY)
+    await flushCassettes()
+
+    const [file] = await readdir(dir)
+    const cassette = JSON.parse(await readFile(path.join(dir, file), "utf8")) as Cassette
+    expect(cassette.request).toMatchObject({ method: "POST", path: "/chat/completions", body: { model: "gpt-4o" } })
+    expect(cassette.request.headers.authorization).toBe("***")
+    expect(cassette.response.headers["x-request-id"]).toBe("abc")
+
+    setCassetteMode({ mode: "replay", dir })
+    const fetchMock = mockUpstream("", { status: 500 })
+
+    // Different host (account type) and key order still match
+    const replayed = await upstreamFetch("https://api.business.githubcopilot.com/chat/completions", {
+      method: "POST",
+      body: JSON.stringify({ stream: true, model: "gpt-4o" }),
+    })
+
+    expect(fetchMock).not.toHaveBeenCalled()
+    expect(replayed.status).toBe(200)
+    expect(replayed.headers.get("content-type")).toBe("text/event-stream")
+    expect(await replayed.text()).toBe(SSE_BODY)
+  })
+
+  test("records and replays error responses with their status", async () => {
+    setCassetteMode({ mode: "record", dir })
+    mockUpstream('{"error":{"message":"rate limited"}}', { status: 429 })
+
+    const body = JSON.stringify({ model: "gpt-4o", messages: [] })
+    await upstreamFetch("https://api.githubcopilot.com/chat/completions", { method: "POST", body })
+    await flushCassettes()
+
+    setCassetteMode({ mode: "replay", dir })
+    const replayed = await upstreamFetch("https://api.githubcopilot.com/chat/completions", { method: "POST", body })
+
+    expect(replayed.status).toBe(429)
+    expect(await replayed.json()).toEqual({ error: { message: "rate limited" } })
+  })
+
+  test("answers unrecorded requests with a 404 naming the cassette", async () => {
+    setCassetteMode({ mode: "replay", dir })
+    const fetchMock = mockUpstream("", { status: 200 })
+
+    const response = await upstreamFetch("https://api.githubcopilot.com/embeddings", {
+      method: "POST",
+      body: JSON.stringify({ model: "text-embedding-3-small", input: ["x"] }),
+    })
+
+    expect(fetchMock).not.toHaveBeenCalled()
+    expect(response.status).toBe(404)
+    const body = (await response.json()) as { error: { message: string } }
+    expect(body.error.message).toContain("POST /embeddings")
+  })
+
+  test("serves the model list from a recording", async () => {
+    const models = { object: "list", data: [{ id: "gpt-4o" }] }
+    setCassetteMode({ mode: "record", dir })
+    mockUpstream(JSON.stringify(models), { status: 200, headers: { "content-type": "application/json" } })
+    await getModels()
+    await flushCassettes()
+
+    setCassetteMode({ mode: "replay", dir })
+    globalThis.fetch = mock(() => Promise.reject(new Error("network disabled"))) as unknown as typeof fetch
+
+    expect(await getModels()).toEqual(models as unknown as Awaited<ReturnType<typeof getModels>>)
+  })
+
+  test("passes straight through when no mode is set", async () => {
+    const fetchMock = mockUpstream("ok", { status: 200 })
+
+    const response = await upstreamFetch("https://api.githubcopilot.com/models")
+
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(await response.text()).toBe("ok")
+    expect(await readdir(dir)).toEqual([])
+  })
+})
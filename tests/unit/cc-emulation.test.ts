@@ -0,0 +1,168 @@
+import type { ServerSentEventMessage } from "fetch-event-stream"
+
+import { describe, expect, test } from "bun:test"
+
+import type { ChatCompletionChunk, ChatCompletionResponse } from "~/types/api/openai-chat-completions"
+
+import {
+  applyStopSequences,
+  enforceStopSequences,
+  getStopSequences,
+  mergeChoiceResponses,
+  mergeChoiceStreams,
+} from "~/lib/openai/translate/cc-emulation"
+
+function chunk(id: string, content: string | undefined, finishReason: "stop" | null = null): ChatCompletionChunk {
+  return {
+    id,
+    object: "chat.completion.chunk",
+    created: 1,
+    model: "gpt-5-resp",
+    choices: [
+      { index: 0, delta: content === undefined ? {} : { content }, finish_reason: finishReason, logprobs: null },
+    ],
+  }
+}
+
+function usageChunk(id: string, completionTokens: number): ChatCompletionChunk {
+  return {
+    id,
+    object: "chat.completion.chunk",
+    created: 1,
+    model: "gpt-5-resp",
+    choices: [],
+    usage: { prompt_tokens: 5, completion_tokens: completionTokens, total_tokens: 5 + completionTokens },
+  }
+}
+
+async function* toStream(chunks: Array<ChatCompletionChunk>): AsyncGenerator<ServerSentEventMessage> {
+  for (const item of chunks) {
+    await Promise.resolve()
+    yield { data: JSON.stringify(item), event: "message" } as ServerSentEventMessage
+  }
+  yield { data: "[DONE]" } as ServerSentEventMessage
+}
+
+async function collect(stream: AsyncIterable<ServerSentEventMessage>): Promise<Array<ChatCompletionChunk | "[DONE]">> {
+  const events: Array<ChatCompletionChunk | "[DONE]"> = []
+  for await (const event of stream) {
+    events.push(event.data === "[DONE]" ? "[DONE]" : (JSON.parse(event.data ?? "") as ChatCompletionChunk))
+  }
+  return events
+}
+
+function textOf(events: Array<ChatCompletionChunk | "[DONE]">, index = 0): string {
+  return events
+    .flatMap((event) => (event === "[DONE]" ? [] : event.choices))
+    .filter((choice) => choice.index === index)
+    .map((choice) => choice.delta.content ?? "")
+    .join("")
+}
+
+function response(id: string, content: string, completionTokens: number): ChatCompletionResponse {
+  return {
+    id,
+    object: "chat.completion",
+    created: 1,
+    model: "gpt-5-resp",
+    choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: "length", logprobs: null }],
+    usage: { prompt_tokens: 5, completion_tokens: completionTokens, total_tokens: 5 + completionTokens },
+  }
+}
+
+describe("getStopSequences", () => {
+  test("normalizes strings and drops empty sequences", () => {
+    expect(getStopSequences(undefined)).toEqual([])
+    expect(getStopSequences("END")).toEqual(["END"])
+    expect(getStopSequences(["", "a", "b"])).toEqual(["a", "b"])
+  })
+})
+
+describe("applyStopSequences", () => {
+  test("cuts content at the earliest stop sequence and finishes with stop", () => {
+    const result = applyStopSequences(response("r1", "one two three", 3), ["three", "two"])
+
+    expect(result.choices[0]).toMatchObject({ message: { content: "one " }, finish_reason: "stop" })
+  })
+
+  test("leaves content without a match untouched", () => {
+    const original = response("r1", "one two", 2)
+
+    expect(applyStopSequences(original, ["zzz"]).choices[0]).toBe(original.choices[0])
+  })
+})
+
+describe("enforceStopSequences", () => {
+  test("detects a stop sequence split across deltas and ends the stream", async () => {
+    const events = await collect(
+      enforceStopSequences(
+        toStream([
+          chunk("c1", "Hello EN"),
+          chunk("c1", "D of text"),
+          chunk("c1", undefined, "stop"),
+          usageChunk("c1", 4),
+        ]),
+        ["END"],
+      ),
+    )
+
+    expect(textOf(events)).toBe("Hello ")
+    expect(events.at(-2)).toMatchObject({ choices: [{ finish_reason: "stop" }] })
+    expect(events.at(-1)).toBe("[DONE]")
+    expect(events.some((event) => event !== "[DONE]" && event.usage)).toBe(false)
+  })
+
+  test("flushes held-back text when no stop sequence matches", async () => {
+    const events = await collect(
+      enforceStopSequences(
+        toStream([chunk("c1", "Hello E"), chunk("c1", "N"), chunk("c1", undefined, "stop"), usageChunk("c1", 3)]),
+        ["END"],
+      ),
+    )
+
+    expect(textOf(events)).toBe("Hello EN")
+    expect(events.filter((event) => event !== "[DONE]" && event.usage)).toHaveLength(1)
+    expect(events.at(-1)).toBe("[DONE]")
+  })
+
+  test("flushes held-back text when upstream ends without a finishing chunk", async () => {
+    const events = await collect(enforceStopSequences(toStream([chunk("c1", "Hello E"), chunk("c1", "N")]), ["END"]))
+
+    expect(textOf(events)).toBe("Hello EN")
+    expect(events.at(-1)).toBe("[DONE]")
+  })
+})
+
+describe("mergeChoiceResponses", () => {
+  test("re-indexes choices and sums usage", () => {
+    const merged = mergeChoiceResponses([response("r1", "a", 1), response("r2", "b", 2)])
+
+    expect(merged.id).toBe("r1")
+    expect(merged.choices.map((choice) => [choice.index, choice.message.content])).toEqual([
+      [0, "a"],
+      [1, "b"],
+    ])
+    expect(merged.usage).toEqual({ prompt_tokens: 10, completion_tokens: 3, total_tokens: 13 })
+  })
+})
+
+describe("mergeChoiceStreams", () => {
+  test("interleaves streams under one id with a single summed usage chunk", async () => {
+    const events = await collect(
+      mergeChoiceStreams([
+        toStream([chunk("c1", "first "), chunk("c1", "choice", "stop"), usageChunk("c1", 2)]),
+        toStream([chunk("c2", "second"), chunk("c2", undefined, "stop"), usageChunk("c2", 1)]),
+      ]),
+    )
+
+    expect(textOf(events, 0)).toBe("first choice")
+    expect(textOf(events, 1)).toBe("second")
+    expect(new Set(events.map((event) => (event === "[DONE]" ? "c1" : event.id)))).toEqual(new Set(["c1"]))
+
+    const usageEvents = events.filter((event) => event !== "[DONE]" && event.usage)
+    expect(usageEvents).toEqual([
+      expect.objectContaining({ choices: [], usage: { prompt_tokens: 10, completion_tokens: 3, total_tokens: 13 } }),
+    ])
+    expect(events.at(-1)).toBe("[DONE]")
+  })
+})
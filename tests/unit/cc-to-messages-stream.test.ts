@@ -0,0 +1,176 @@
+import type { ServerSentEventMessage } from "fetch-event-stream"
+
+import { describe, expect, test } from "bun:test"
+
+import type { ChatCompletionChunk } from "~/types/api/openai-chat-completions"
+
+import {
+  createMessagesStreamTranslator,
+  translateChatCompletionsStream,
+} from "~/lib/anthropic/translate/cc-to-messages-stream"
+import { enforceStopSequences } from "~/lib/openai/translate"
+
+import { createFakeStream } from "../helpers/fake-stream"
+
+function chunk(delta: Record<string, unknown>, finishReason: string | null = null): ChatCompletionChunk {
+  return {
+    id: "chatcmpl-stream",
+    object: "chat.completion.chunk",
+    created: 1,
+    model: "gpt-5-mini",
+    choices: [{ index: 0, delta, finish_reason: finishReason, logprobs: null }],
+  } as ChatCompletionChunk
+}
+
+describe("createMessagesStreamTranslator", () => {
+  test("frames text and tool call deltas as Anthropic content blocks", () => {
+    const translator = createMessagesStreamTranslator({ model: "gpt-5-mini" })
+
+    const events = [
+      ...translator.translate(chunk({ role: "assistant", content: "Hi" })),
+      ...translator.translate(chunk({ content: " there" })),
+      ...translator.translate(
+        chunk({ tool_calls: [{ index: 0, id: "call_1", type: "function", function: { name: "lookup" } }] }),
+      ),
+      ...translator.translate(chunk({ tool_calls: [{ index: 0, function: { arguments: '{"q":' } }] })),
+      ...translator.translate(chunk({ tool_calls: [{ index: 0, function: { arguments: '"x"}' } }] }, "tool_calls")),
+      ...translator.translate({
+        ...chunk({}),
+        choices: [],
+        usage: { prompt_tokens: 10, completion_tokens: 4, total_tokens: 14 },
+      }),
+      ...translator.finish(),
+    ]
+
+    expect(events.map((event) => event.type)).toEqual([
+      "message_start",
+      "content_block_start",
+      "content_block_delta",
+      "content_block_delta",
+      "content_block_stop",
+      "content_block_start",
+      "content_block_delta",
+      "content_block_delta",
+      "content_block_stop",
+      "message_delta",
+      "message_stop",
+    ])
+    expect(events[5]).toMatchObject({
+      type: "content_block_start",
+      index: 1,
+      content_block: { type: "tool_use", id: "call_1", name: "lookup" },
+    })
+    expect(events[7]).toMatchObject({ index: 1, delta: { type: "input_json_delta", partial_json: '"x"}' } })
+    expect(events[9]).toMatchObject({
+      type: "message_delta",
+      delta: { stop_reason: "tool_use" },
+      usage: { input_tokens: 10, output_tokens: 4 },
+    })
+  })
+
+  test("emits reasoning_text deltas as a thinking block before text", () => {
+    const translator = createMessagesStreamTranslator({ model: "gemini-2.5-pro" })
+
+    const events = [
+      ...translator.translate(chunk({ reasoning_text: "hmm" })),
+      ...translator.translate(chunk({ content: "Answer" }, "stop")),
+      ...translator.finish(),
+    ]
+
+    expect(events[1]).toMatchObject({ type: "content_block_start", index: 0, content_block: { type: "thinking" } })
+    expect(events[1]).not.toHaveProperty("content_block.signature")
+    expect(events[2]).toMatchObject({ delta: { type: "thinking_delta", thinking: "hmm" } })
+    expect(events[4]).toMatchObject({ type: "content_block_start", index: 1, content_block: { type: "text" } })
+    expect(events.at(-2)).toMatchObject({ type: "message_delta", delta: { stop_reason: "end_turn" } })
+  })
+
+  test("keeps tool blocks open while argument deltas of several calls interleave", () => {
+    const translator = createMessagesStreamTranslator({ model: "gpt-5-mini" })
+
+    const events = [
+      ...translator.translate(
+        chunk({
+          tool_calls: [
+            { index: 0, id: "call_1", type: "function", function: { name: "lookup", arguments: "" } },
+            { index: 1, id: "call_2", type: "function", function: { name: "fetch", arguments: "" } },
+          ],
+        }),
+      ),
+      ...translator.translate(chunk({ tool_calls: [{ index: 1, function: { arguments: '{"url":"b"}' } }] })),
+      ...translator.translate(
+        chunk({ tool_calls: [{ index: 0, function: { arguments: '{"q":"a"}' } }] }, "tool_calls"),
+      ),
+      ...translator.finish(),
+    ]
+
+    expect(events.map((event) => event.type)).toEqual([
+      "message_start",
+      "content_block_start",
+      "content_block_start",
+      "content_block_delta",
+      "content_block_delta",
+      "content_block_stop",
+      "content_block_stop",
+      "message_delta",
+      "message_stop",
+    ])
+    expect(events[3]).toMatchObject({ index: 1, delta: { partial_json: '{"url":"b"}' } })
+    expect(events[4]).toMatchObject({ index: 0, delta: { partial_json: '{"q":"a"}' } })
+    expect(events.slice(5, 7)).toEqual([
+      { type: "content_block_stop", index: 0 },
+      { type: "content_block_stop", index: 1 },
+    ])
+  })
+})
+
+describe("translateChatCompletionsStream", () => {
+  test("skips [DONE] and appends closing events with SSE event names", async () => {
+    const upstream = () =>
+      createFakeStream([
+        { data: JSON.stringify(chunk({ content: "Hello" }, "length")) } as ServerSentEventMessage,
+        { data: "[DONE]" } as ServerSentEventMessage,
+      ])
+
+    const messages: Array<ServerSentEventMessage> = []
+    for await (const message of translateChatCompletionsStream(
+      upstream(),
+      createMessagesStreamTranslator({ model: "gpt-5-mini" }),
+    )) {
+      messages.push(message)
+    }
+
+    expect(messages.map((message) => message.event)).toEqual([
+      "message_start",
+      "content_block_start",
+      "content_block_delta",
+      "content_block_stop",
+      "message_delta",
+      "message_stop",
+    ])
+    expect(JSON.parse(messages[4]?.data ?? "{}")).toMatchObject({ delta: { stop_reason: "max_tokens" } })
+  })
+
+  test("reports the client stop sequence that ended the stream", async () => {
+    const translator = createMessagesStreamTranslator({ model: "gpt-5-mini" })
+    const upstream = enforceStopSequences(
+      createFakeStream([
+        { data: JSON.stringify(chunk({ content: "Hello E" })) } as ServerSentEventMessage,
+        { data: JSON.stringify(chunk({ content: "ND more" })) } as ServerSentEventMessage,
+      ]),
+      ["END"],
+      translator.stopAt,
+    )
+
+    const events: Array<Record<string, unknown>> = []
+    for await (const message of translateChatCompletionsStream(upstream, translator)) {
+      events.push(JSON.parse(message.data ?? "") as Record<string, unknown>)
+    }
+
+    const text = events
+      .filter((event) => event.type === "content_block_delta")
+      .map((event) => (event.delta as { text: string }).text)
+      .join("")
+    expect(text).toBe("Hello ")
+    expect(events.at(-2)).toMatchObject({ delta: { stop_reason: "stop_sequence", stop_sequence: "END" } })
+  })
+})
@@ -0,0 +1,112 @@
+import type { ServerSentEventMessage } from "fetch-event-stream"
+
+import { describe, expect, test } from "bun:test"
+
+import type { ChatCompletionResponse } from "~/types/api/openai-chat-completions"
+import type { CompletionChunk } from "~/types/api/openai-completions"
+
+import {
+  translateChatCompletionToCompletion,
+  translateChatStreamToCompletions,
+  translateCompletionsToChatCompletions,
+} from "~/lib/openai/translate"
+
+import { createFakeStream } from "../helpers/fake-stream"
+
+describe("translateCompletionsToChatCompletions", () => {
+  test("maps logprobs to chat logprobs + top_logprobs and drops best_of", () => {
+    const payload = translateCompletionsToChatCompletions({
+      model: "gpt-4o",
+      prompt: ["Hello"],
+      logprobs: 2,
+      best_of: 3,
+      temperature: 0,
+    })
+
+    expect(payload).toMatchObject({ logprobs: true, top_logprobs: 2, temperature: 0 })
+    expect(payload).not.toHaveProperty("best_of")
+    expect(payload.messages.map((m) => m.role)).toEqual(["system", "user"])
+  })
+
+  test("rejects token-id prompts", () => {
+    expect(() =>
+      translateCompletionsToChatCompletions({ model: "gpt-4o", prompt: [[1, 2]] as unknown as Array<string> }),
+    ).toThrow("prompt must be a string")
+  })
+})
+
+describe("translateChatCompletionToCompletion", () => {
+  test("converts token logprobs to parallel arrays offset past the echoed prompt", () => {
+    const response = {
+      id: "chatcmpl-1",
+      object: "chat.completion",
+      created: 1,
+      model: "gpt-4o",
+      choices: [
+        {
+          index: 0,
+          message: { role: "assistant", content: " a b" },
+          finish_reason: "stop",
+          logprobs: {
+            content: [
+              { token: " a", logprob: -0.1, top_logprobs: [{ token: " a", logprob: -0.1 }] },
+              { token: " b", logprob: -0.2, top_logprobs: [] },
+            ],
+          },
+        },
+      ],
+    } satisfies ChatCompletionResponse
+
+    const completion = translateChatCompletionToCompletion(response, { model: "gpt-4o", prompt: "Hi", echo: true })
+
+    expect(completion.choices[0]).toEqual({
+      index: 0,
+      text: "Hi a b",
+      finish_reason: "stop",
+      logprobs: {
+        tokens: [" a", " b"],
+        token_logprobs: [-0.1, -0.2],
+        top_logprobs: [{ " a": -0.1 }, {}],
+        text_offset: [2, 4],
+      },
+    })
+  })
+})
+
+describe("translateChatStreamToCompletions", () => {
+  test("emits the echoed prompt once per choice before its first delta", async () => {
+    const deltas = [
+      [0, "x"],
+      [1, "y"],
+      [0, "z"],
+    ] as const
+    const upstream = createFakeStream<ServerSentEventMessage>([
+      ...deltas.map(
+        ([index, content]) =>
+          ({
+            data: JSON.stringify({
+              id: "c",
+              object: "chat.completion.chunk",
+              created: 1,
+              model: "gpt-4o",
+              choices: [{ index, delta: { content }, finish_reason: null, logprobs: null }],
+            }),
+          }) as ServerSentEventMessage,
+      ),
+      { data: "[DONE]" } as ServerSentEventMessage,
+    ])
+
+    const texts: Array<string> = []
+    for await (const event of translateChatStreamToCompletions(upstream, {
+      model: "gpt-4o",
+      prompt: "P",
+      echo: true,
+    })) {
+      if (event.data === "[DONE]") continue
+      const chunk = JSON.parse(event.data as string) as CompletionChunk
+      texts.push(chunk.choices.map((choice) => `${choice.index}:${choice.text}`).join(","))
+    }
+
+    expect(texts).toEqual(["0:P", "0:x", "1:P", "1:y", "0:z"])
+  })
+})
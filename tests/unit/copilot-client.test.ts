@@ -1,5 +1,6 @@
 import { afterEach, beforeEach, describe, expect, mock, test } from "bun:test"
 
+import { setCassetteMode } from "~/lib/cassettes"
 import { HTTPError } from "~/lib/error"
 import { getCopilotToken, getCopilotUsage } from "~/lib/token/copilot-client"
 import { restoreStateForTests, setStateForTests, snapshotStateForTests } from "~/lib/state"
@@ -18,6 +19,7 @@ describe("copilot token client", () => {
   })
 
   afterEach(() => {
+    setCassetteMode(null)
     globalThis.fetch = originalFetch
     restoreStateForTests(originalState)
   })
@@ -140,4 +142,14 @@ describe("copilot token client", () => {
 
     await expect(getCopilotUsage()).rejects.toBeInstanceOf(HTTPError)
   })
+
+  // getCopilotUsage is not covered here: tests/http/management-routes.test.ts mocks it for the whole bun process
+  test("replay mode stubs the token call without the network", async () => {
+    const fetchMock = mock(() => Promise.resolve(new Response("unexpected", { status: 500 })))
+    globalThis.fetch = fetchMock as unknown as typeof fetch
+    setCassetteMode({ mode: "replay", dir: "/nonexistent" })
+
+    expect((await getCopilotToken()).token).toBe("replay")
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
 })
@@ -0,0 +1,163 @@
+import type { ServerSentEventMessage } from "fetch-event-stream"
+
+import { describe, expect, test } from "bun:test"
+
+import type { GenerateContentResponse } from "~/types/api/gemini"
+
+import { toJsonSchema, translateChatStreamToGemini, translateGeminiToChatCompletions } from "~/lib/gemini/translate"
+
+import { mockModel } from "../helpers/factories"
+import { createFakeStream } from "../helpers/fake-stream"
+
+describe("translateGeminiToChatCompletions", () => {
+  test("pairs function responses with earlier calls by id, or by name when ids are missing", () => {
+    const { payload } = translateGeminiToChatCompletions({
+      model: "gemini-2.5-pro",
+      stream: false,
+      contents: [
+        { role: "user", parts: [{ text: "Compare Paris and Rome" }] },
+        {
+          role: "model",
+          parts: [
+            { text: "planning", thought: true },
+            { functionCall: { name: "get_weather", args: { city: "Paris" } } },
+            { functionCall: { id: "rome", name: "get_weather", args: { city: "Rome" } } },
+          ],
+        },
+        {
+          role: "user",
+          parts: [
+            { functionResponse: { id: "rome", name: "get_weather", response: { temp: 25 } } },
+            { functionResponse: { name: "get_weather", response: { temp: 18 } } },
+            { inlineData: { mimeType: "image/png", data: "iVBORw0" } },
+          ],
+        },
+      ],
+    })
+
+    expect(payload.messages).toEqual([
+      { role: "user", content: "Compare Paris and Rome" },
+      {
+        role: "assistant",
+        content: null,
+        tool_calls: [
+          { id: "call_1_1", type: "function", function: { name: "get_weather", arguments: '{"city":"Paris"}' } },
+          { id: "rome", type: "function", function: { name: "get_weather", arguments: '{"city":"Rome"}' } },
+        ],
+      },
+      { role: "tool", tool_call_id: "rome", content: '{"temp":25}' },
+      { role: "tool", tool_call_id: "call_1_1", content: '{"temp":18}' },
+      { role: "user", content: [{ type: "image_url", image_url: { url: "data:image/png;base64,iVBORw0" } }] },
+    ])
+  })
+
+  test("maps generation config and reports params without an equivalent", () => {
+    const { payload, droppedParams } = translateGeminiToChatCompletions(
+      {
+        model: "gemini-2.5-pro",
+        stream: true,
+        contents: [{ parts: [{ text: "hi" }] }],
+        tools: [{ googleSearch: {} }, { functionDeclarations: [{ name: "noop" }] }],
+        toolConfig: { functionCallingConfig: { mode: "ANY", allowedFunctionNames: ["noop"] } },
+        safetySettings: [{ category: "HARM_CATEGORY_HARASSMENT", threshold: "BLOCK_NONE" }],
+        generationConfig: {
+          topK: 40,
+          candidateCount: 2,
+          seed: 7,
+          responseMimeType: "application/json",
+          thinkingConfig: { thinkingBudget: 8192 },
+        },
+      },
+      {
+        model: mockModel("gemini-2.5-pro", {
+          capabilities: { supports: { reasoning_effort: ["low", "medium"] as unknown as boolean } },
+        }),
+      },
+    )
+
+    expect(payload).toMatchObject({
+      n: 2,
+      seed: 7,
+      stream: true,
+      stream_options: { include_usage: true },
+      response_format: { type: "json_object" },
+      reasoning_effort: "medium",
+      tool_choice: { type: "function", function: { name: "noop" } },
+      tools: [{ function: { name: "noop", parameters: { type: "object", properties: {} } } }],
+    })
+    expect(droppedParams).toEqual(["topK", "safetySettings", "googleSearch"])
+  })
+
+  test("rejects media other than images", () => {
+    expect(() =>
+      translateGeminiToChatCompletions({
+        model: "gemini-2.5-pro",
+        stream: false,
+        contents: [{ role: "user", parts: [{ fileData: { mimeType: "application/pdf", fileUri: "gs://a/b.pdf" } }] }],
+      }),
+    ).toThrow("Unsupported content part: fileData (application/pdf)")
+  })
+})
+
+describe("toJsonSchema", () => {
+  test("lowercases types recursively and turns nullable into a null type", () => {
+    expect(
+      toJsonSchema({
+        type: "OBJECT",
+        propertyOrdering: ["tags", "note"],
+        properties: {
+          tags: { type: "ARRAY", items: { type: "STRING", enum: ["a", "b"] } },
+          note: { type: "STRING", nullable: true },
+        },
+      }),
+    ).toEqual({
+      type: "object",
+      properties: {
+        tags: { type: "array", items: { type: "string", enum: ["a", "b"] } },
+        note: { type: ["string", "null"] },
+      },
+    })
+  })
+})
+
+describe("translateChatStreamToGemini", () => {
+  test("forwards reasoning and text per candidate and finishes every candidate in the last chunk", async () => {
+    const chunk = (choices: Array<Record<string, unknown>>) =>
+      ({
+        data: JSON.stringify({
+          id: "c1",
+          object: "chat.completion.chunk",
+          created: 1,
+          model: "gemini-2.5-pro",
+          choices,
+        }),
+      }) as ServerSentEventMessage
+
+    const upstream = createFakeStream([
+      chunk([{ index: 0, delta: { reasoning_text: "hmm" }, finish_reason: null }]),
+      chunk([
+        { index: 0, delta: { content: "A" }, finish_reason: "stop" },
+        { index: 1, delta: { content: "B" }, finish_reason: "length" },
+      ]),
+      { data: "[DONE]" } as ServerSentEventMessage,
+    ])
+
+    const chunks: Array<GenerateContentResponse> = []
+    for await (const event of translateChatStreamToGemini(upstream)) {
+      chunks.push(JSON.parse(event.data ?? "") as GenerateContentResponse)
+    }
+
+    expect(chunks.map((c) => c.candidates)).toEqual([
+      [{ index: 0, content: { role: "model", parts: [{ text: "hmm", thought: true }] } }],
+      [
+        { index: 0, content: { role: "model", parts: [{ text: "A" }] } },
+        { index: 1, content: { role: "model", parts: [{ text: "B" }] } },
+      ],
+      [
+        { index: 0, content: { role: "model", parts: [] }, finishReason: "STOP" },
+        { index: 1, content: { role: "model", parts: [] }, finishReason: "MAX_TOKENS" },
+      ],
+    ])
+    expect(chunks.at(-1)).toMatchObject({ responseId: "c1", modelVersion: "gemini-2.5-pro" })
+  })
+})
@@ -1,13 +1,19 @@
 import { afterEach, beforeEach, describe, expect, test } from "bun:test"
 
 import {
+  type EndpointType,
+  type UsageData,
   clearHistory,
   getCurrentSession,
+  getSession,
   getSessionIdFromHeaders,
+  getStats,
   historyState,
   initHistory,
+  insertEntry,
   registerResponseSession,
   resolveResponseSessionId,
+  updateEntry,
 } from "~/lib/history"
 
 describe("history session resolution", () => {
@@ -41,3 +47,72 @@ describe("history session resolution", () => {
     expect(resolveResponseSessionId("resp_followup")).toBe("resp_root")
   })
 })
+
+describe("session cache analytics", () => {
+  const start = Date.UTC(2026, 0, 1)
+  let sequence = 0
+
+  beforeEach(() => {
+    initHistory(true, 200)
+    sequence = 0
+  })
+
+  afterEach(() => {
+    clearHistory()
+  })
+
+  function respond(usage: UsageData, options: { minutesIn?: number; endpoint?: EndpointType } = {}): string {
+    const endpoint = options.endpoint ?? "anthropic-messages"
+    const id = `entry-${++sequence}`
+    const sessionId = getCurrentSession(endpoint, "session-1")
+    insertEntry({ id, sessionId, startedAt: start, endpoint, request: { model: "claude-sonnet-4" } })
+    updateEntry(id, {
+      endedAt: start + (options.minutesIn ?? sequence) * 60_000,
+      response: { success: true, model: "claude-sonnet-4", usage, content: null },
+    })
+    return id
+  }
+
+  test("accumulates hit rate and tokens saved from cache usage", () => {
+    respond({ input_tokens: 100, output_tokens: 10, cache_creation_input_tokens: 900 })
+    respond({ input_tokens: 100, output_tokens: 10, cache_read_input_tokens: 900, cache_creation_input_tokens: 1000 })
+
+    expect(getSession("session-1")?.cache).toEqual({
+      promptTokens: 3000,
+      readTokens: 900,
+      creationTokens: 1900,
+      hitRate: 0.3,
+      tokensSaved: 810,
+      busts: 0,
+    })
+    expect(getStats().cache.readTokens).toBe(900)
+  })
+
+  test("counts prompt tokens as reported by OpenAI-style endpoints, cached tokens included", () => {
+    respond({ input_tokens: 1000, output_tokens: 10, cache_read_input_tokens: 250 }, { endpoint: "openai-responses" })
+
+    expect(getSession("session-1")?.cache?.hitRate).toBe(0.25)
+  })
+
+  test("flags a turn that rewrites the prefix the previous turn cached", () => {
+    respond({ input_tokens: 10, output_tokens: 10, cache_creation_input_tokens: 5000 })
+    respond({ input_tokens: 10, output_tokens: 10, cache_read_input_tokens: 5000, cache_creation_input_tokens: 800 })
+    const bust = respond({ input_tokens: 10, output_tokens: 10, cache_creation_input_tokens: 6000 })
+
+    const cache = getSession("session-1")?.cache
+    expect(cache?.busts).toBe(1)
+    expect(cache?.lastBust).toEqual({
+      entryId: bust,
+      timestamp: start + 3 * 60_000,
+      expectedTokens: 5800,
+      readTokens: 0,
+    })
+  })
+
+  test("does not count a miss after the cache has expired as a bust", () => {
+    respond({ input_tokens: 10, output_tokens: 10, cache_creation_input_tokens: 5000 }, { minutesIn: 1 })
+    respond({ input_tokens: 10, output_tokens: 10, cache_creation_input_tokens: 5000 }, { minutesIn: 10 })
+
+    expect(getSession("session-1")?.cache?.busts).toBe(0)
+  })
+})
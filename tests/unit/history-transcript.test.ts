@@ -0,0 +1,228 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test"
+
+import {
+  type HistoryEntry,
+  clearHistory,
+  getCurrentSession,
+  initHistory,
+  insertEntry,
+  renderTranscript,
+} from "~/lib/history"
+import { historyRoutes } from "~/routes/history/route"
+
+function makeEntry(overrides: Partial<HistoryEntry> & Pick<HistoryEntry, "id" | "request">): HistoryEntry {
+  return {
+    startedAt: Date.UTC(2026, 0, 1),
+    endpoint: "anthropic-messages",
+    ...overrides,
+  }
+}
+
+const firstTurn = makeEntry({
+  id: "entry-1",
+  request: {
+    model: "claude-sonnet-4",
+    system: "You are terse.",
+    messages: [{ role: "user", content: "What is in README.md?" }],
+    tools: [{ name: "read_file", description: "Read a file", input_schema: { type: "object" } }],
+  },
+  response: {
+    success: true,
+    model: "claude-sonnet-4",
+    usage: { input_tokens: 20, output_tokens: 8 },
+    stop_reason: "tool_use",
+    content: {
+      role: "assistant",
+      content: [
+        { type: "thinking", thinking: "Need to read it.", signature: "sig" },
+        { type: "tool_use", id: "toolu_1", name: "read_file", input: { path: "README.md" } },
+      ],
+    },
+  },
+})
+
+const secondTurn = makeEntry({
+  id: "entry-2",
+  startedAt: Date.UTC(2026, 0, 1, 0, 1),
+  request: {
+    model: "claude-sonnet-4",
+    system: "You are terse.",
+    messages: [
+      ...(firstTurn.request.messages ?? []),
+      firstTurn.response?.content ?? { role: "assistant", content: null },
+      {
+        role: "user",
+        content: [{ type: "tool_result", tool_use_id: "toolu_1", content: "# Project <b>docs</b>" }],
+      },
+    ],
+    tools: firstTurn.request.tools,
+  },
+  response: {
+    success: true,
+    model: "claude-sonnet-4",
+    usage: { input_tokens: 40, output_tokens: 5 },
+    stop_reason: "end_turn",
+    content: { role: "assistant", content: [{ type: "text", text: "Project docs." }] },
+  },
+})
+
+describe("renderTranscript", () => {
+  test("markdown shows thinking, tool calls and results, and skips resent messages", () => {
+    const markdown = renderTranscript([firstTurn, secondTurn], "markdown", "Session s1")
+
+    expect(markdown).toStartWith("# Session s1\n")
+    expect(markdown).toContain("<summary>Thinking</summary>\n\nNeed to read it.")
+    expect(markdown).toContain('**Tool call** `read_file` (`toolu_1`)\n\n```json\n{\n  "path": "README.md"\n}\n```')
+    expect(markdown).toContain("**Tool result** (`toolu_1`)\n\n```\n# Project <b>docs</b>\n```")
+    expect(markdown).toContain("_Resends the 2 messages above._")
+    expect(markdown.match(/What is in README\.md\?/g)).toHaveLength(1)
+    // An unchanged system prompt is only shown once
+    expect(markdown.match(/### System/g)).toHaveLength(1)
+  })
+
+  test("marks where auto-truncation dropped messages", () => {
+    const truncated: HistoryEntry = {
+      ...secondTurn,
+      pipelineInfo: {
+        truncation: {
+          wasTruncated: true,
+          removedMessageCount: 2,
+          originalTokens: 150_000,
+          compactedTokens: 90_000,
+          processingTimeMs: 3,
+        },
+        messageMapping: [2],
+      },
+    }
+
+    const markdown = renderTranscript([truncated], "markdown", "Request")
+    const marker = "> **Truncated:** 2 earlier messages dropped before sending (150,000 → 90,000 tokens)"
+    expect(markdown).toContain(marker)
+    expect(markdown.indexOf(marker)).toBeGreaterThan(markdown.indexOf("toolu_1"))
+    expect(markdown.indexOf(marker)).toBeLessThan(markdown.indexOf("**Tool result**"))
+  })
+
+  test("html escapes content and renders a standalone document", () => {
+    const html = renderTranscript([secondTurn], "html", "Request <2>")
+
+    expect(html).toStartWith("<!doctype html>")
+    expect(html).toContain("<title>Request &lt;2&gt;</title>")
+    expect(html).toContain("# Project &lt;b&gt;docs&lt;/b&gt;")
+    expect(html).toContain('<details class="thinking"><summary>Thinking</summary>')
+  })
+
+  test("openai-jsonl writes one fine-tuning example per successful entry", () => {
+    const failed = makeEntry({
+      id: "entry-3",
+      request: { messages: [{ role: "user", content: "Hi" }] },
+      response: { success: false, model: "x", usage: { input_tokens: 0, output_tokens: 0 }, content: null },
+    })
+    const lines = renderTranscript([firstTurn, secondTurn, failed], "openai-jsonl", "s").trim().split("\n")
+
+    expect(lines).toHaveLength(2)
+    const example = JSON.parse(lines[1]) as { messages: Array<Record<string, unknown>>; tools: Array<unknown> }
+    expect(example.messages).toEqual([
+      { role: "system", content: "You are terse." },
+      { role: "user", content: "What is in README.md?" },
+      {
+        role: "assistant",
+        content: null,
+        tool_calls: [
+          { id: "toolu_1", type: "function", function: { name: "read_file", arguments: '{"path":"README.md"}' } },
+        ],
+      },
+      { role: "tool", tool_call_id: "toolu_1", content: "# Project <b>docs</b>" },
+      { role: "assistant", content: "Project docs." },
+    ])
+    expect(example.tools).toEqual([
+      { type: "function", function: { name: "read_file", description: "Read a file", parameters: { type: "object" } } },
+    ])
+  })
+
+  test("anthropic-jsonl moves system messages out and merges tool messages into user turns", () => {
+    const chat = makeEntry({
+      id: "entry-cc",
+      endpoint: "openai-chat-completions",
+      request: {
+        messages: [
+          { role: "system", content: "Be brief." },
+          { role: "user", content: "Weather?" },
+          {
+            role: "assistant",
+            content: null,
+            tool_calls: [
+              { id: "call_1", type: "function", function: { name: "weather", arguments: '{"city":"Oslo"}' } },
+            ],
+          },
+          { role: "tool", tool_call_id: "call_1", content: "Rain" },
+          { role: "user", content: "Thanks" },
+        ],
+        tools: [{ name: "weather" }],
+        payload: { tools: [{ type: "function", function: { name: "weather", parameters: { type: "object" } } }] },
+      },
+      response: {
+        success: true,
+        model: "gpt-4.1",
+        usage: { input_tokens: 1, output_tokens: 1 },
+        content: { role: "assistant", content: "It rains." },
+      },
+    })
+
+    const example = JSON.parse(renderTranscript([chat], "anthropic-jsonl", "s")) as Record<string, unknown>
+    expect(example).toEqual({
+      system: "Be brief.",
+      messages: [
+        { role: "user", content: [{ type: "text", text: "Weather?" }] },
+        { role: "assistant", content: [{ type: "tool_use", id: "call_1", name: "weather", input: { city: "Oslo" } }] },
+        {
+          role: "user",
+          content: [
+            { type: "tool_result", tool_use_id: "call_1", content: "Rain" },
+            { type: "text", text: "Thanks" },
+          ],
+        },
+        { role: "assistant", content: [{ type: "text", text: "It rains." }] },
+      ],
+      tools: [{ name: "weather", input_schema: { type: "object" } }],
+    })
+  })
+})
+
+describe("transcript export routes", () => {
+  beforeEach(() => {
+    initHistory(true, 200)
+  })
+
+  afterEach(() => {
+    clearHistory()
+  })
+
+  test("downloads a session transcript as an attachment", async () => {
+    const sessionId = getCurrentSession("anthropic-messages", "session-1")
+    insertEntry({ ...firstTurn, sessionId })
+    insertEntry({ ...secondTurn, sessionId })
+
+    const response = await historyRoutes.request("/api/sessions/session-1/export?format=html")
+    expect(response.status).toBe(200)
+    expect(response.headers.get("Content-Type")).toBe("text/html; charset=utf-8")
+    expect(response.headers.get("Content-Disposition")).toBe("attachment; filename=session-session-1.html")
+    expect(await response.text()).toContain("Project docs.")
+  })
+
+  test("exports a single entry and defaults to markdown", async () => {
+    insertEntry(firstTurn)
+
+    const response = await historyRoutes.request("/api/entries/entry-1/export")
+    expect(response.status).toBe(200)
+    expect(response.headers.get("Content-Disposition")).toBe("attachment; filename=entry-entry-1.md")
+    expect(await response.text()).toStartWith("# Request entry-1\n")
+  })
+
+  test("rejects unknown formats and sessions", async () => {
+    const badFormat = await historyRoutes.request("/api/sessions/session-1/export?format=pdf")
+    expect(badFormat.status).toBe(400)
+
+    const missing = await historyRoutes.request("/api/sessions/missing/export")
+    expect(missing.status).toBe(404)
+  })
+})
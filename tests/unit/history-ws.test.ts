@@ -63,7 +63,6 @@ function createMockSummary(overrides: Partial<EntrySummary> = {}): EntrySummary
     stream: false,
     messageCount: 0,
     previewText: "",
-    searchText: "",
     ...overrides,
   }
 }
@@ -80,6 +79,7 @@ function createMockStats(overrides: Partial<HistoryStats> = {}): HistoryStats {
     endpointDistribution: {},
     recentActivity: [],
     activeSessions: 1,
+    cache: { promptTokens: 0, readTokens: 0, creationTokens: 0, hitRate: 0, tokensSaved: 0, busts: 0 },
     ...overrides,
   }
 }
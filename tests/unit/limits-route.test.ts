@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test"
+
+import type { Model } from "~/lib/models/client"
+
+import { getLearnedLimits, onTokenLimitExceeded, resetAllLimitsForTesting, seedModelLimits } from "~/lib/auto-truncate"
+import { setStateForTests, state } from "~/lib/state"
+import { limitsRoutes } from "~/routes/limits/route"
+
+const sonnet = {
+  id: "claude-sonnet-4",
+  capabilities: { limits: { max_prompt_tokens: 168000, max_context_window_tokens: 200000, max_output_tokens: 16000 } },
+} as Model
+
+function put(model: string, body: unknown) {
+  return limitsRoutes.request(`/${model}`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  })
+}
+
+describe("limits routes", () => {
+  const originalModels = state.models
+  const originalOverrides = state.modelOverrides
+
+  beforeEach(() => {
+    resetAllLimitsForTesting()
+    setStateForTests({ models: { object: "list", data: [sonnet] } })
+  })
+
+  afterEach(() => {
+    resetAllLimitsForTesting()
+    setStateForTests({ models: originalModels, modelOverrides: originalOverrides })
+  })
+
+  test("lists learned limits next to the advertised ones", async () => {
+    onTokenLimitExceeded("claude-sonnet-4", 128000)
+    seedModelLimits({ "gpt-4o": 64000 })
+
+    const response = await limitsRoutes.request("/")
+    const { limits } = (await response.json()) as { limits: Array<Record<string, unknown>> }
+    expect(limits.map((l) => l.model)).toEqual(["claude-sonnet-4", "gpt-4o"])
+    expect(limits[0]).toMatchObject({
+      tokenLimit: 128000,
+      source: "learned",
+      pinned: false,
+      advertised: { maxPromptTokens: 168000, maxContextWindowTokens: 200000, maxOutputTokens: 16000 },
+    })
+    expect(limits[1]).toMatchObject({ source: "config", advertised: null })
+  })
+
+  test("overrides and pins a model", async () => {
+    const response = await put("claude-sonnet-4", { tokenLimit: 150000, pinned: true })
+    expect(response.status).toBe(200)
+    expect(await response.json()).toMatchObject({ model: "claude-sonnet-4", tokenLimit: 150000, source: "manual" })
+
+    const unpinned = await put("claude-sonnet-4", { pinned: false })
+    expect(await unpinned.json()).toMatchObject({ tokenLimit: 150000, pinned: false })
+  })
+
+  test("rejects invalid overrides", async () => {
+    expect((await put("gpt-4o", { pinned: true })).status).toBe(400)
+    expect((await put("gpt-4o", { tokenLimit: "big" })).status).toBe(400)
+    expect((await put("gpt-4o", { tokenLimit: 1000, calibrationFactor: 9 })).status).toBe(400)
+  })
+
+  test("reset returns the configured seed, or 404 for unknown models", async () => {
+    seedModelLimits({ "claude-sonnet-4": 160000 })
+    await put("claude-sonnet-4", { tokenLimit: 150000 })
+
+    const response = await limitsRoutes.request("/claude-sonnet-4", { method: "DELETE" })
+    expect(await response.json()).toMatchObject({ reset: true, limits: { tokenLimit: 160000, source: "config" } })
+
+    const missing = await limitsRoutes.request("/gpt-4o", { method: "DELETE" })
+    expect(missing.status).toBe(404)
+  })
+  test("resolves model aliases to the ID limits are learned under", async () => {
+    setStateForTests({ modelOverrides: { sonnet: "claude-sonnet-4" } })
+
+    const response = await put("sonnet", { tokenLimit: 150000 })
+    expect(await response.json()).toMatchObject({ model: "claude-sonnet-4", tokenLimit: 150000 })
+    expect(getLearnedLimits("claude-sonnet-4")?.tokenLimit).toBe(150000)
+
+    const reset = await limitsRoutes.request("/sonnet", { method: "DELETE" })
+    expect(await reset.json()).toMatchObject({ model: "claude-sonnet-4", reset: true })
+    expect(getLearnedLimits("claude-sonnet-4")).toBeUndefined()
+  })
+})
@@ -0,0 +1,183 @@
+import { describe, expect, test } from "bun:test"
+
+import type { MessagesPayload, ThinkingBlock } from "~/types/api/anthropic"
+import type { ChatCompletionResponse } from "~/types/api/openai-chat-completions"
+
+import { translateChatCompletionToMessage } from "~/lib/anthropic/translate/cc-to-messages"
+import { translateMessagesToChatCompletions } from "~/lib/anthropic/translate/messages-to-cc"
+
+import { mockModel } from "../helpers/factories"
+
+describe("translateMessagesToChatCompletions", () => {
+  test("translates system, tool_use/tool_result pairs, images, and sampling params", () => {
+    const payload: MessagesPayload = {
+      model: "gpt-5-mini",
+      max_tokens: 1024,
+      system: [
+        { type: "text", text: "You are helpful." },
+        { type: "text", text: "Be brief." },
+      ],
+      temperature: 0.3,
+      stop_sequences: ["END"],
+      stream: true,
+      metadata: { user_id: "user-1" },
+      messages: [
+        {
+          role: "user",
+          content: [
+            { type: "text", text: "What is in this image?" },
+            { type: "image", source: { type: "base64", media_type: "image/png", data: "aGVsbG8=" } },
+          ],
+        },
+        {
+          role: "assistant",
+          content: [
+            { type: "thinking", thinking: "Let me check", signature: "sig" },
+            { type: "text", text: "Checking." },
+            { type: "tool_use", id: "toolu_1", name: "lookup", input: { q: "cat" } },
+          ],
+        },
+        {
+          role: "user",
+          content: [
+            { type: "tool_result", tool_use_id: "toolu_1", content: [{ type: "text", text: "a cat" }] },
+            { type: "text", text: "Thanks" },
+          ],
+        },
+      ],
+      tools: [
+        { name: "lookup", description: "Look things up", input_schema: { type: "object", properties: {} } },
+        { name: "web_search", type: "web_search_20250305" },
+      ],
+      tool_choice: { type: "any" },
+    }
+
+    const { payload: translated, droppedParams } = translateMessagesToChatCompletions(payload)
+
+    expect(droppedParams).toEqual(["server_tools"])
+    expect(translated).toMatchObject({
+      model: "gpt-5-mini",
+      max_tokens: 1024,
+      temperature: 0.3,
+      stream: true,
+      stream_options: { include_usage: true },
+      user: "user-1",
+      tool_choice: "required",
+    })
+    expect(translated).not.toHaveProperty("stop")
+    expect(translated.tools).toEqual([
+      {
+        type: "function",
+        function: {
+          name: "lookup",
+          description: "Look things up",
+          parameters: { type: "object", properties: {} },
+        },
+      },
+    ])
+    expect(translated.messages).toEqual([
+      { role: "system", content: "You are helpful.\n\nBe brief." },
+      {
+        role: "user",
+        content: [
+          { type: "text", text: "What is in this image?" },
+          { type: "image_url", image_url: { url: "data:image/png;base64,aGVsbG8=" } },
+        ],
+      },
+      {
+        role: "assistant",
+        content: "Checking.",
+        tool_calls: [{ id: "toolu_1", type: "function", function: { name: "lookup", arguments: '{"q":"cat"}' } }],
+      },
+      { role: "tool", tool_call_id: "toolu_1", content: "a cat" },
+      { role: "user", content: "Thanks" },
+    ])
+  })
+
+  test("maps thinking budget to reasoning_effort only when the model advertises it", () => {
+    const payload: MessagesPayload = {
+      model: "gpt-5-mini",
+      max_tokens: 4096,
+      thinking: { type: "enabled", budget_tokens: 10_000 },
+      messages: [{ role: "user", content: "Think" }],
+    }
+    const reasoningModel = mockModel("gpt-5-mini", {
+      capabilities: { supports: { reasoning_effort: ["low", "medium", "high"] as unknown as boolean } },
+    })
+
+    expect(translateMessagesToChatCompletions(payload, { model: reasoningModel }).payload.reasoning_effort).toBe(
+      "medium",
+    )
+    expect(
+      translateMessagesToChatCompletions(payload, { model: mockModel("gpt-4o") }).payload.reasoning_effort,
+    ).toBeUndefined()
+  })
+})
+
+describe("translateChatCompletionToMessage", () => {
+  test("maps content, tool calls, finish reason, and cached usage", () => {
+    const response: ChatCompletionResponse = {
+      id: "chatcmpl-1",
+      object: "chat.completion",
+      created: 1,
+      model: "gpt-5-mini",
+      choices: [
+        {
+          index: 0,
+          message: {
+            role: "assistant",
+            content: "Calling tool",
+            tool_calls: [{ id: "call_1", type: "function", function: { name: "lookup", arguments: '{"q":"dog"}' } }],
+          },
+          finish_reason: "tool_calls",
+        },
+      ],
+      usage: {
+        prompt_tokens: 20,
+        completion_tokens: 5,
+        total_tokens: 25,
+        prompt_tokens_details: { cached_tokens: 8 },
+      },
+    }
+
+    const message = translateChatCompletionToMessage(response)
+
+    expect(message).toMatchObject({
+      id: "chatcmpl-1",
+      type: "message",
+      role: "assistant",
+      model: "gpt-5-mini",
+      stop_reason: "tool_use",
+      usage: { input_tokens: 12, output_tokens: 5, cache_read_input_tokens: 8 },
+    })
+    expect(message.content).toMatchObject([
+      { type: "text", text: "Calling tool" },
+      { type: "tool_use", id: "call_1", name: "lookup", input: { q: "dog" } },
+    ])
+  })
+
+  test("cuts text at the first client stop sequence and reports it", () => {
+    const response: ChatCompletionResponse = {
+      id: "chatcmpl-2",
+      object: "chat.completion",
+      created: 1,
+      model: "gpt-5-mini",
+      choices: [
+        {
+          index: 0,
+          message: { role: "assistant", content: "one, two END three STOP", reasoning_text: "Counting" },
+          finish_reason: "stop",
+        } as ChatCompletionResponse["choices"][number],
+      ],
+    }
+
+    const message = translateChatCompletionToMessage(response, { stopSequences: ["STOP", "END"] })
+
+    expect(message.stop_reason).toBe("stop_sequence")
+    expect(message.stop_sequence).toBe("END")
+    expect(message.content).toEqual([
+      { type: "thinking", thinking: "Counting" } as ThinkingBlock,
+      { type: "text", text: "one, two ", citations: null },
+    ])
+  })
+})
@@ -0,0 +1,185 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test"
+
+import type { HistoryEntryData } from "~/lib/context/types"
+import type { TuiLogEntry } from "~/lib/tui/types"
+
+import {
+  _resetMetricsForTests,
+  recordFirstStreamEvent,
+  recordRequestMetrics,
+  recordStreamFinished,
+  renderOpenMetrics,
+} from "~/lib/metrics"
+import { type StateSnapshot, restoreStateForTests, setStateForTests, snapshotStateForTests } from "~/lib/state"
+
+import { mockModel } from "../helpers/factories"
+
+let snapshot: StateSnapshot
+
+function makeEntry(overrides: Partial<HistoryEntryData> = {}): HistoryEntryData {
+  const startedAt = Date.UTC(2026, 3, 1, 12, 0, 0)
+  return {
+    id: "req_1",
+    endpoint: "anthropic-messages",
+    startedAt,
+    endedAt: startedAt + 1_500,
+    state: "completed",
+    active: false,
+    lastUpdatedAt: startedAt + 1_500,
+    queueWaitMs: 0,
+    attemptCount: 1,
+    durationMs: 1_500,
+    request: { model: "claude-sonnet-4.6", messages: [], stream: true },
+    response: {
+      success: true,
+      model: "claude-sonnet-4.6",
+      usage: {
+        input_tokens: 100,
+        output_tokens: 40,
+        cache_read_input_tokens: 20,
+        cache_creation_input_tokens: 5,
+        output_tokens_details: { reasoning_tokens: 12 },
+      },
+      content: null,
+    },
+    ...overrides,
+  }
+}
+
+function makeTuiEntry(overrides: Partial<TuiLogEntry> = {}): TuiLogEntry {
+  return {
+    id: "tui_1",
+    method: "POST",
+    path: "/v1/messages",
+    model: "claude-sonnet-4.6",
+    startTime: 1_000,
+    status: "streaming",
+    ...overrides,
+  }
+}
+
+beforeEach(() => {
+  _resetMetricsForTests()
+  snapshot = snapshotStateForTests()
+  setStateForTests({
+    models: { object: "list", data: [mockModel("claude-sonnet-4.6"), mockModel(String.raw`we"ird\model`)] },
+    modelOverrides: { sonnet: "claude-sonnet-4.6" },
+  })
+})
+
+afterEach(() => {
+  _resetMetricsForTests()
+  restoreStateForTests(snapshot)
+})
+
+describe("metrics", () => {
+  test("counts requests by endpoint, model and status", () => {
+    recordRequestMetrics(makeEntry())
+    recordRequestMetrics(makeEntry())
+    recordRequestMetrics(
+      makeEntry({
+        state: "failed",
+        response: {
+          success: false,
+          model: "claude-sonnet-4.6",
+          usage: { input_tokens: 0, output_tokens: 0 },
+          content: null,
+          status: 429,
+        },
+      }),
+    )
+    recordRequestMetrics(makeEntry({ state: "failed", response: undefined }))
+
+    const text = renderOpenMetrics()
+
+    expect(text).toContain("# TYPE copilot_api_requests counter")
+    expect(text).toContain(
+      'copilot_api_requests_total{endpoint="anthropic-messages",model="claude-sonnet-4.6",status="ok"} 2',
+    )
+    expect(text).toContain(
+      'copilot_api_requests_total{endpoint="anthropic-messages",model="claude-sonnet-4.6",status="429"} 1',
+    )
+    expect(text).toContain(
+      'copilot_api_requests_total{endpoint="anthropic-messages",model="claude-sonnet-4.6",status="error"} 1',
+    )
+  })
+
+  test("renders cumulative latency histogram buckets", () => {
+    recordRequestMetrics(makeEntry())
+    recordRequestMetrics(makeEntry({ endedAt: makeEntry().startedAt + 45_000 }))
+
+    const text = renderOpenMetrics()
+    const labels = 'endpoint="anthropic-messages",model="claude-sonnet-4.6"'
+
+    expect(text).toContain("# UNIT copilot_api_request_duration_seconds seconds")
+    expect(text).toContain(`copilot_api_request_duration_seconds_bucket{${labels},le="1"} 0`)
+    expect(text).toContain(`copilot_api_request_duration_seconds_bucket{${labels},le="2.5"} 1`)
+    expect(text).toContain(`copilot_api_request_duration_seconds_bucket{${labels},le="60"} 2`)
+    expect(text).toContain(`copilot_api_request_duration_seconds_bucket{${labels},le="+Inf"} 2`)
+    expect(text).toContain(`copilot_api_request_duration_seconds_count{${labels}} 2`)
+    expect(text).toContain(`copilot_api_request_duration_seconds_sum{${labels}} 46.5`)
+  })
+
+  test("counts tokens by type and retries by strategy", () => {
+    recordRequestMetrics(
+      makeEntry({
+        attempts: [
+          { index: 0, durationMs: 100, error: "503" },
+          { index: 1, durationMs: 900, strategy: "model-fallback" },
+        ],
+      }),
+    )
+
+    const text = renderOpenMetrics()
+
+    expect(text).toContain('copilot_api_tokens_total{model="claude-sonnet-4.6",type="input"} 100')
+    expect(text).toContain('copilot_api_tokens_total{model="claude-sonnet-4.6",type="output"} 40')
+    expect(text).toContain('copilot_api_tokens_total{model="claude-sonnet-4.6",type="cache_read"} 20')
+    expect(text).toContain('copilot_api_tokens_total{model="claude-sonnet-4.6",type="cache_write"} 5')
+    expect(text).toContain('copilot_api_tokens_total{model="claude-sonnet-4.6",type="reasoning"} 12')
+    expect(text).toContain('copilot_api_retries_total{strategy="model-fallback"} 1')
+  })
+
+  test("records time to first token and stream bytes from TUI entries", () => {
+    recordFirstStreamEvent(makeTuiEntry(), 1_800)
+    recordStreamFinished(makeTuiEntry({ streamBytesIn: 4096 }))
+    recordStreamFinished(makeTuiEntry({ path: "/models" }))
+
+    const text = renderOpenMetrics()
+
+    expect(text).toContain('copilot_api_time_to_first_token_seconds_bucket{model="claude-sonnet-4.6",le="1"} 1')
+    expect(text).toContain('copilot_api_time_to_first_token_seconds_sum{model="claude-sonnet-4.6"} 0.8')
+    expect(text).toContain('copilot_api_stream_received_bytes_total{model="claude-sonnet-4.6"} 4096')
+  })
+
+  test("labels resolve aliases and bucket unknown models as other", () => {
+    recordRequestMetrics(makeEntry({ response: undefined, request: { model: "sonnet", messages: [], stream: false } }))
+    recordRequestMetrics(
+      makeEntry({ response: undefined, request: { model: "made-up-model-1", messages: [], stream: false } }),
+    )
+    recordRequestMetrics(
+      makeEntry({ response: undefined, request: { model: "made-up-model-2", messages: [], stream: false } }),
+    )
+    recordFirstStreamEvent(makeTuiEntry({ model: "made-up-model-3" }), 1_800)
+
+    const text = renderOpenMetrics()
+
+    expect(text).toContain(
+      'copilot_api_requests_total{endpoint="anthropic-messages",model="claude-sonnet-4.6",status="ok"} 1',
+    )
+    expect(text).toContain('copilot_api_requests_total{endpoint="anthropic-messages",model="other",status="ok"} 2')
+    expect(text).toContain('copilot_api_time_to_first_token_seconds_count{model="other"} 1')
+    expect(text).not.toContain("made-up-model")
+  })
+
+  test("escapes label values and terminates with # EOF", () => {
+    recordRequestMetrics(
+      makeEntry({ response: undefined, request: { model: String.raw`we"ird\model`, messages: [], stream: false } }),
+    )
+
+    const text = renderOpenMetrics()
+
+    expect(text).toContain(String.raw`model="we\"ird\\model"`)
+    expect(text.endsWith("# EOF\n")).toBe(true)
+  })
+})
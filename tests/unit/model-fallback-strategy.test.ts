@@ -0,0 +1,186 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test"
+
+import type { RequestContext } from "~/lib/context/request"
+import type { ApiError } from "~/lib/error"
+import type { Model } from "~/lib/models/client"
+
+import { _resetBudgetsForTests, enforceBudgets } from "~/lib/budgets"
+import { compileBudgetRules } from "~/lib/config/config"
+import { createModelFallbackStrategy, getModelFallbackChain } from "~/lib/request/strategies/model-fallback"
+import {
+  restoreStateForTests,
+  setAuthConfig,
+  setBudgetConfig,
+  setStateForTests,
+  snapshotStateForTests,
+} from "~/lib/state"
+
+import { mockModel, mockRequestContext } from "../helpers/factories"
+
+/** Helper to create an ApiError for testing */
+function makeApiError(overrides: Partial<ApiError> = {}): ApiError {
+  return {
+    type: "upstream_rate_limited",
+    status: 503,
+    message: "Upstream provider rate limited",
+    raw: new Error("Upstream provider rate limited"),
+    ...overrides,
+  }
+}
+
+const MODELS: Array<Model> = [
+  mockModel("claude-opus-4.6-1m", { billing: { is_premium: true, multiplier: 3 } }),
+  mockModel("claude-opus-4.6", { billing: { is_premium: true, multiplier: 3 } }),
+  mockModel("claude-sonnet-4.6", {
+    capabilities: { family: "claude-sonnet-4.6", type: "chat", limits: { max_output_tokens: 2048 } },
+  }),
+  mockModel("gpt-5.1"),
+]
+
+type TestPayload = { model: string; max_tokens?: number }
+
+function makeContext(payload: TestPayload, requestContext?: RequestContext) {
+  return { attempt: 0, maxRetries: 3, originalPayload: payload, model: undefined, requestContext }
+}
+
+describe("createModelFallbackStrategy", () => {
+  const originalState = snapshotStateForTests()
+
+  beforeEach(() => {
+    setStateForTests({
+      models: { object: "list", data: MODELS },
+      modelOverrides: { "claude-opus-4.6": "claude-opus-4.6-1m" },
+      modelFallbacks: { "claude-opus-4.6-1m": ["claude-opus-4.6", "claude-sonnet-4.6"] },
+    })
+  })
+
+  afterEach(() => {
+    restoreStateForTests(originalState)
+    _resetBudgetsForTests()
+  })
+
+  test("handles 503 upstream_rate_limited and 5xx only", () => {
+    const strategy = createModelFallbackStrategy<TestPayload>({ label: "test" })
+
+    expect(strategy.name).toBe("model-fallback")
+    expect(strategy.canHandle(makeApiError())).toBe(true)
+    expect(strategy.canHandle(makeApiError({ type: "server_error", status: 502 }))).toBe(true)
+    expect(strategy.canHandle(makeApiError({ type: "rate_limited", status: 429 }))).toBe(false)
+    expect(strategy.canHandle(makeApiError({ type: "bad_request", status: 400 }))).toBe(false)
+    expect(strategy.canHandle(makeApiError({ type: "network_error", status: 0 }))).toBe(false)
+  })
+
+  test("is inactive when no fallback chains are configured", () => {
+    setStateForTests({ modelFallbacks: {} })
+    const strategy = createModelFallbackStrategy<TestPayload>({ label: "test" })
+
+    expect(strategy.canHandle(makeApiError())).toBe(false)
+  })
+
+  test("walks the chain in order, switching the resolved model", async () => {
+    const strategy = createModelFallbackStrategy<TestPayload>({ label: "test" })
+    const payload = { model: "claude-opus-4.6-1m" }
+
+    const first = await strategy.handle(makeApiError(), payload, makeContext(payload))
+    expect(first).toMatchObject({ action: "retry", payload: { model: "claude-opus-4.6" } })
+    if (first.action !== "retry") throw new Error("expected retry")
+    expect(first.model?.id).toBe("claude-opus-4.6")
+    expect(first.meta).toEqual({ fallbackFrom: "claude-opus-4.6-1m", fallbackTo: "claude-opus-4.6" })
+
+    const second = await strategy.handle(makeApiError(), first.payload, makeContext(payload))
+    expect(second).toMatchObject({ action: "retry", payload: { model: "claude-sonnet-4.6" } })
+
+    const third = await strategy.handle(makeApiError(), payload, makeContext(payload))
+    expect(third.action).toBe("abort")
+    expect(strategy.canHandle(makeApiError())).toBe(false)
+  })
+
+  test("skips unknown and unsupported models", async () => {
+    setStateForTests({
+      modelFallbacks: { "claude-opus-4.6-1m": ["claude-missing", "gpt-5.1", "claude-sonnet-4.6"] },
+    })
+    const strategy = createModelFallbackStrategy<TestPayload>({
+      isSupported: (model) => model.id.startsWith("claude-"),
+      label: "test",
+    })
+    const payload = { model: "claude-opus-4.6-1m" }
+
+    const result = await strategy.handle(makeApiError(), payload, makeContext(payload))
+
+    expect(result).toMatchObject({ action: "retry", payload: { model: "claude-sonnet-4.6" } })
+  })
+
+  test("skips models the request's API key may not use", async () => {
+    setAuthConfig({ apiKeys: [{ key: "sk-team", label: "team", allowedModels: ["claude-opus-*", "gpt-*"] }] })
+    setStateForTests({ modelFallbacks: { "claude-opus-4.6-1m": ["claude-sonnet-4.6", "gpt-5.1"] } })
+    const strategy = createModelFallbackStrategy<TestPayload>({ label: "test" })
+    const payload = { model: "claude-opus-4.6-1m" }
+    const reqCtx = mockRequestContext({ apiKeyLabel: "team" })
+
+    const result = await strategy.handle(makeApiError(), payload, makeContext(payload, reqCtx))
+
+    expect(result).toMatchObject({ action: "retry", payload: { model: "gpt-5.1" } })
+  })
+
+  test("skips models the request's budgets do not allow", async () => {
+    setBudgetConfig({
+      budgetRules: compileBudgetRules([
+        { name: "capped", by: "api_key", allowed_models: ["claude-*"], max_multiplier: 1 },
+      ]),
+    })
+    setStateForTests({
+      modelFallbacks: { "claude-opus-4.6-1m": ["gpt-5.1", "claude-opus-4.6", "claude-sonnet-4.6"] },
+    })
+    const strategy = createModelFallbackStrategy<TestPayload>({ label: "test" })
+    const payload = { model: "claude-opus-4.6-1m" }
+    const reqCtx = mockRequestContext()
+    enforceBudgets(reqCtx, { api_key: "alice" }, "claude-sonnet-4.6")
+
+    const result = await strategy.handle(makeApiError(), payload, makeContext(payload, reqCtx))
+
+    // gpt-5.1 is outside allowed_models, claude-opus-4.6 (3x) is over max_multiplier
+    expect(result).toMatchObject({ action: "retry", payload: { model: "claude-sonnet-4.6" } })
+  })
+
+  test("re-runs preparation for the fallback model", async () => {
+    setStateForTests({ modelFallbacks: { "claude-opus-4.6-1m": ["claude-sonnet-4.6"] } })
+    const strategy = createModelFallbackStrategy<TestPayload>({
+      prepare: (p, model) => ({ ...p, max_tokens: model.capabilities?.limits?.max_output_tokens }),
+      label: "test",
+    })
+    const payload = { model: "claude-opus-4.6-1m", max_tokens: 32_000 }
+
+    const result = await strategy.handle(makeApiError(), payload, makeContext(payload))
+
+    expect(result).toMatchObject({ action: "retry", payload: { model: "claude-sonnet-4.6", max_tokens: 2048 } })
+  })
+
+  test("aborts when the failing model has no chain", async () => {
+    const strategy = createModelFallbackStrategy<TestPayload>({ label: "test" })
+    const payload = { model: "gpt-5.1" }
+    const error = makeApiError()
+
+    const result = await strategy.handle(error, payload, makeContext(payload))
+
+    expect(result).toEqual({ action: "abort", error })
+  })
+})
+
+describe("getModelFallbackChain", () => {
+  const originalState = snapshotStateForTests()
+
+  afterEach(() => {
+    restoreStateForTests(originalState)
+  })
+
+  test("matches alias keys against the resolved model", () => {
+    setStateForTests({
+      models: { object: "list", data: MODELS },
+      modelOverrides: { opus: "claude-opus-4.6-1m" },
+      modelFallbacks: { opus: ["claude-sonnet-4.6"] },
+    })
+
+    expect(getModelFallbackChain("claude-opus-4.6-1m")).toEqual(["claude-sonnet-4.6"])
+    expect(getModelFallbackChain("gpt-5.1")).toEqual([])
+  })
+})
@@ -0,0 +1,175 @@
+import type { ServerSentEventMessage } from "fetch-event-stream"
+
+import { describe, expect, test } from "bun:test"
+
+import type { OllamaChatResponse } from "~/types/api/ollama"
+
+import {
+  translateChatStreamToOllama,
+  translateOllamaChatToChatCompletions,
+  translateOllamaGenerateToChatCompletions,
+} from "~/lib/ollama/translate"
+
+import { mockModel } from "../helpers/factories"
+import { createFakeStream } from "../helpers/fake-stream"
+
+describe("translateOllamaChatToChatCompletions", () => {
+  test("generates call ids and pairs tool results by tool_name, or in call order without one", () => {
+    const { payload } = translateOllamaChatToChatCompletions({
+      model: "gpt-4.1",
+      stream: false,
+      messages: [
+        { role: "user", content: "Compare Paris and Rome" },
+        {
+          role: "assistant",
+          content: "",
+          thinking: "planning",
+          tool_calls: [
+            { function: { name: "get_weather", arguments: { city: "Paris" } } },
+            { function: { name: "get_time", arguments: { city: "Rome" } } },
+          ],
+        },
+        { role: "tool", tool_name: "get_time", content: "12:00" },
+        { role: "tool", content: "18C" },
+      ],
+    })
+
+    expect(payload.messages).toEqual([
+      { role: "user", content: "Compare Paris and Rome" },
+      {
+        role: "assistant",
+        content: null,
+        tool_calls: [
+          { id: "call_1_0", type: "function", function: { name: "get_weather", arguments: '{"city":"Paris"}' } },
+          { id: "call_1_1", type: "function", function: { name: "get_time", arguments: '{"city":"Rome"}' } },
+        ],
+      },
+      { role: "tool", tool_call_id: "call_1_1", content: "12:00" },
+      { role: "tool", tool_call_id: "call_1_0", content: "18C" },
+    ])
+  })
+
+  test("maps options, format and think, and reports runner-only options", () => {
+    const { payload, droppedParams } = translateOllamaChatToChatCompletions(
+      {
+        model: "gpt-5",
+        messages: [{ role: "user", content: "hi" }],
+        format: { type: "object", properties: { answer: { type: "string" } } },
+        think: "high",
+        options: { num_predict: -1, stop: ["END"], seed: 7, top_k: 40, num_ctx: 8192 },
+      },
+      {
+        model: mockModel("gpt-5", {
+          capabilities: { supports: { reasoning_effort: ["low", "medium", "high"] as unknown as boolean } },
+        }),
+      },
+    )
+
+    expect(payload).toMatchObject({
+      stream: true,
+      stream_options: { include_usage: true },
+      stop: ["END"],
+      seed: 7,
+      reasoning_effort: "high",
+      response_format: {
+        type: "json_schema",
+        json_schema: { name: "response", schema: { type: "object", properties: { answer: { type: "string" } } } },
+      },
+    })
+    expect(payload).not.toHaveProperty("max_tokens")
+    expect(droppedParams).toEqual(["options.top_k", "options.num_ctx"])
+  })
+})
+
+describe("translateOllamaGenerateToChatCompletions", () => {
+  test("builds a single turn and reports fill-in-the-middle and template params", () => {
+    const { payload, droppedParams } = translateOllamaGenerateToChatCompletions({
+      model: "gpt-4.1",
+      prompt: "def add(",
+      suffix: "return a + b",
+      images: ["/9j/4AAQ"],
+      format: "json",
+      stream: false,
+    })
+
+    expect(payload.messages).toEqual([
+      {
+        role: "user",
+        content: [
+          { type: "text", text: "def add(" },
+          { type: "image_url", image_url: { url: "data:image/jpeg;base64,/9j/4AAQ" } },
+        ],
+      },
+    ])
+    expect(payload.response_format).toEqual({ type: "json_object" })
+    expect(payload.stream).toBeUndefined()
+    expect(droppedParams).toEqual(["suffix"])
+  })
+})
+
+describe("translateChatStreamToOllama", () => {
+  const chunk = (choices: Array<Record<string, unknown>>) =>
+    ({
+      data: JSON.stringify({ id: "c1", object: "chat.completion.chunk", created: 1, model: "gpt-4.1", choices }),
+    }) as ServerSentEventMessage
+
+  async function collect(events: Array<ServerSentEventMessage>) {
+    const chunks: Array<OllamaChatResponse> = []
+    for await (const response of translateChatStreamToOllama(createFakeStream(events), {
+      model: "gpt-4.1",
+      startedAt: performance.now(),
+    })) {
+      chunks.push(response)
+    }
+    return chunks
+  }
+
+  test("forwards thinking and text, then sends buffered tool calls before the done chunk", async () => {
+    const chunks = await collect([
+      chunk([{ index: 0, delta: { reasoning_text: "hmm" }, finish_reason: null }]),
+      chunk([{ index: 0, delta: { content: "Let me check." }, finish_reason: null }]),
+      chunk([
+        {
+          index: 0,
+          delta: { tool_calls: [{ index: 0, id: "call_9", function: { name: "lookup", arguments: '{"q":' } }] },
+          finish_reason: null,
+        },
+      ]),
+      chunk([
+        { index: 0, delta: { tool_calls: [{ index: 0, function: { arguments: '"x"}' } }] }, finish_reason: null },
+      ]),
+      chunk([{ index: 0, delta: {}, finish_reason: "tool_calls" }]),
+      { data: "[DONE]" } as ServerSentEventMessage,
+    ])
+
+    expect(chunks.map((c) => [c.message, c.done])).toEqual([
+      [{ role: "assistant", content: "", thinking: "hmm" }, false],
+      [{ role: "assistant", content: "Let me check." }, false],
+      [
+        {
+          role: "assistant",
+          content: "",
+          tool_calls: [{ function: { index: 0, name: "lookup", arguments: { q: "x" } } }],
+        },
+        false,
+      ],
+      [{ role: "assistant", content: "" }, true],
+    ])
+    expect(chunks.at(-1)?.done_reason).toBe("stop")
+  })
+
+  test("throws the message of an error event", async () => {
+    try {
+      await collect([
+        chunk([{ index: 0, delta: { content: "partial" }, finish_reason: null }]),
+        {
+          event: "error",
+          data: JSON.stringify({ error: { message: "Stream idle timeout", type: "timeout_error" } }),
+        } as ServerSentEventMessage,
+      ])
+      throw new Error("Expected the stream to throw")
+    } catch (error) {
+      expect((error as Error).message).toBe("Stream idle timeout")
+    }
+  })
+})
@@ -1,6 +1,6 @@
 import { describe, expect, test } from "bun:test"
 
-import { RepetitionDetector, createStreamRepetitionChecker } from "~/lib/repetition-detector"
+import { RepetitionDetector } from "~/lib/repetition-detector"
 
 describe("RepetitionDetector", () => {
   test("detects simple pattern repetition", () => {
@@ -115,28 +115,3 @@ describe("RepetitionDetector", () => {
     expect(detector.feed(pattern.repeat(4))).toBe(true)
   })
 })
-
-describe("createStreamRepetitionChecker", () => {
-  test("returns a function that checks for repetition", () => {
-    const checker = createStreamRepetitionChecker("test")
-    expect(typeof checker).toBe("function")
-  })
-
-  test("returns false for non-repetitive text", () => {
-    const checker = createStreamRepetitionChecker("test")
-    expect(checker("Hello, this is a normal response.")).toBe(false)
-  })
-
-  test("returns true when repetition detected", () => {
-    const checker = createStreamRepetitionChecker("test", { minPatternLength: 5, minRepetitions: 3 })
-    const pattern = "hello world "
-    expect(checker(pattern.repeat(5))).toBe(true)
-  })
-
-  test("returns true on subsequent calls after detection", () => {
-    const checker = createStreamRepetitionChecker("test", { minPatternLength: 5, minRepetitions: 3 })
-    const pattern = "hello world "
-    checker(pattern.repeat(5)) // triggers detection
-    expect(checker("more text")).toBe(true) // still true
-  })
-})
@@ -0,0 +1,288 @@
+import type { ServerSentEventMessage } from "fetch-event-stream"
+
+import { afterEach, beforeEach, describe, expect, test } from "bun:test"
+
+import type { RequestContext } from "~/lib/context/request"
+import type { ChatCompletionsPayload } from "~/types/api/openai-chat-completions"
+
+import {
+  executeWithAdaptiveRateLimit,
+  getAdaptiveRateLimiter,
+  initAdaptiveRateLimiter,
+  resetAdaptiveRateLimiter,
+} from "~/lib/adaptive-rate-limiter"
+import { createRequestContextManager } from "~/lib/context/manager"
+import {
+  REPETITION_NUDGE,
+  REPETITION_WARNING_CODE,
+  createAnthropicRepetitionFormat,
+  createChatCompletionsRepetitionFormat,
+  createResponsesRepetitionFormat,
+  executeRepetitionRetry,
+  guardStreamRepetition,
+  nudgeChatCompletionsPayload,
+  nudgeMessagesPayload,
+} from "~/lib/request/repetition-guard"
+import { type StateSnapshot, restoreStateForTests, setRepetitionConfig, snapshotStateForTests } from "~/lib/state"
+
+import { createFakeStream } from "../helpers/fake-stream"
+import { createMockAdapter } from "../helpers/mock-adapter"
+import { waitUntil } from "../helpers/wait-until"
+
+const LOOP = "loop again"
+
+let snapshot: StateSnapshot
+let reqCtx: RequestContext
+
+beforeEach(() => {
+  snapshot = snapshotStateForTests()
+  reqCtx = createRequestContextManager().create({ endpoint: "openai-chat-completions" })
+})
+
+afterEach(() => {
+  restoreStateForTests(snapshot)
+})
+
+/** Upstream stream that records whether the consumer closed it early */
+function trackedStream(events: Array<ServerSentEventMessage>) {
+  const tracker = { pulled: 0, closed: false }
+  async function* generate() {
+    try {
+      for (const event of await Promise.resolve(events)) {
+        tracker.pulled++
+        yield event
+      }
+    } finally {
+      if (tracker.pulled < events.length) tracker.closed = true
+    }
+  }
+  return { stream: generate(), tracker }
+}
+
+function ccChunk(content: string | undefined, finishReason: string | null = null): ServerSentEventMessage {
+  return {
+    data: JSON.stringify({
+      id: "chatcmpl-1",
+      object: "chat.completion.chunk",
+      created: 1,
+      model: "gpt-4o",
+      choices: [{ index: 0, delta: content === undefined ? {} : { content }, finish_reason: finishReason }],
+    }),
+  } as ServerSentEventMessage
+}
+
+function anthropicEvent(data: Record<string, unknown> & { type: string }): ServerSentEventMessage {
+  return { event: data.type, data: JSON.stringify(data) } as ServerSentEventMessage
+}
+
+function textDelta(index: number, text: string) {
+  return anthropicEvent({ type: "content_block_delta", index, delta: { type: "text_delta", text } })
+}
+
+async function collect(stream: AsyncIterable<ServerSentEventMessage>): Promise<Array<ServerSentEventMessage>> {
+  const events: Array<ServerSentEventMessage> = []
+  for await (const event of stream) events.push(event)
+  return events
+}
+
+function parse(event: ServerSentEventMessage): Record<string, unknown> {
+  return JSON.parse(event.data ?? "") as Record<string, unknown>
+}
+
+describe("guardStreamRepetition", () => {
+  test("warn policy forwards everything and records a warning", async () => {
+    const upstream = [ccChunk("Hi "), ccChunk(LOOP), ccChunk(LOOP), ccChunk(LOOP), ccChunk(LOOP), { data: "[DONE]" }]
+    const events = await collect(
+      guardStreamRepetition(createFakeStream(upstream), {
+        reqCtx,
+        format: createChatCompletionsRepetitionFormat(),
+      }),
+    )
+
+    expect(events).toHaveLength(upstream.length)
+    expect(reqCtx.warningMessages.map((w) => w.code)).toEqual([REPETITION_WARNING_CODE])
+  })
+
+  test("abort policy closes upstream and ends the chat stream with finish_reason stop", async () => {
+    setRepetitionConfig({ repetitionPolicy: "abort" })
+    const { stream, tracker } = trackedStream([
+      ccChunk("Hi "),
+      ccChunk(LOOP),
+      ccChunk(LOOP),
+      ccChunk(LOOP),
+      ccChunk(LOOP),
+      ccChunk(undefined, "stop"),
+      { data: "[DONE]" } as ServerSentEventMessage,
+    ])
+
+    const events = await collect(
+      guardStreamRepetition(stream, { reqCtx, format: createChatCompletionsRepetitionFormat() }),
+    )
+
+    expect(tracker.closed).toBe(true)
+    expect(events.at(-1)?.data).toBe("[DONE]")
+    expect(parse(events.at(-2) as ServerSentEventMessage)).toMatchObject({
+      id: "chatcmpl-1",
+      choices: [{ index: 0, delta: {}, finish_reason: "stop" }],
+    })
+    // The delta that completed the loop is not forwarded
+    const forwarded = events.slice(0, -2).map((e) => (parse(e).choices as Array<{ delta: { content?: string } }>)[0])
+    expect(forwarded.map((c) => c.delta.content).join("")).toBe(`Hi ${LOOP}${LOOP}`)
+    expect(reqCtx.warningMessages[0]?.message).toContain("upstream stream aborted")
+  })
+
+  test("abort-and-retry splices the retry into the same Anthropic message", async () => {
+    setRepetitionConfig({ repetitionPolicy: "abort-and-retry" })
+    const { stream } = trackedStream([
+      anthropicEvent({ type: "message_start", message: { id: "msg_1" } }),
+      anthropicEvent({ type: "content_block_start", index: 0, content_block: { type: "text", text: "" } }),
+      textDelta(0, LOOP),
+      textDelta(0, LOOP),
+      textDelta(0, LOOP),
+    ])
+    const retry = createFakeStream([
+      anthropicEvent({ type: "message_start", message: { id: "msg_2" } }),
+      anthropicEvent({ type: "content_block_start", index: 0, content_block: { type: "text", text: "" } }),
+      textDelta(0, "Fresh answer."),
+      anthropicEvent({ type: "content_block_stop", index: 0 }),
+      anthropicEvent({ type: "message_delta", delta: { stop_reason: "end_turn" }, usage: { output_tokens: 3 } }),
+      anthropicEvent({ type: "message_stop" }),
+    ])
+
+    const events = await collect(
+      guardStreamRepetition(stream, {
+        reqCtx,
+        format: createAnthropicRepetitionFormat(),
+        retry: () => Promise.resolve(retry),
+      }),
+    )
+
+    expect(events.map((e) => `${e.event}:${(parse(e).index as number | undefined) ?? ""}`)).toEqual([
+      "message_start:",
+      "content_block_start:0",
+      "content_block_delta:0",
+      "content_block_delta:0",
+      "content_block_stop:0",
+      "content_block_start:1",
+      "content_block_delta:1",
+      "content_block_stop:1",
+      "message_delta:",
+      "message_stop:",
+    ])
+    expect(reqCtx.warningMessages[0]?.message).toContain("retried with a nudge")
+  })
+
+  test("abort-and-retry falls back to abort when the retry cannot start", async () => {
+    setRepetitionConfig({ repetitionPolicy: "abort-and-retry" })
+    const { stream } = trackedStream([
+      anthropicEvent({ type: "message_start", message: { id: "msg_1" } }),
+      anthropicEvent({ type: "content_block_start", index: 0, content_block: { type: "text", text: "" } }),
+      textDelta(0, LOOP),
+      textDelta(0, LOOP),
+      textDelta(0, LOOP),
+    ])
+
+    const events = await collect(
+      guardStreamRepetition(stream, {
+        reqCtx,
+        format: createAnthropicRepetitionFormat(),
+        retry: () => Promise.reject(new Error("upstream down")),
+      }),
+    )
+
+    expect(events.slice(-3).map((e) => e.event)).toEqual(["content_block_stop", "message_delta", "message_stop"])
+    expect(parse(events.at(-2) as ServerSentEventMessage)).toMatchObject({ delta: { stop_reason: "end_turn" } })
+  })
+
+  test("abort closes open Responses items and completes the response", async () => {
+    setRepetitionConfig({ repetitionPolicy: "abort" })
+    const response = { id: "resp_1", object: "response", status: "in_progress", model: "gpt-5", output: [] }
+    const event = (data: Record<string, unknown> & { type: string }, sequenceNumber: number) =>
+      ({
+        event: data.type,
+        data: JSON.stringify({ ...data, sequence_number: sequenceNumber }),
+      }) as ServerSentEventMessage
+    const { stream } = trackedStream([
+      event({ type: "response.created", response }, 0),
+      event(
+        { type: "response.output_item.added", output_index: 0, item: { type: "message", id: "m", content: [] } },
+        1,
+      ),
+      event({ type: "response.content_part.added", output_index: 0, content_index: 0, part: {} }, 2),
+      event({ type: "response.output_text.delta", output_index: 0, content_index: 0, delta: LOOP }, 3),
+      event({ type: "response.output_text.delta", output_index: 0, content_index: 0, delta: LOOP }, 4),
+      event({ type: "response.output_text.delta", output_index: 0, content_index: 0, delta: LOOP }, 5),
+    ])
+
+    const events = await collect(guardStreamRepetition(stream, { reqCtx, format: createResponsesRepetitionFormat() }))
+    const tail = events.slice(5).map((e) => parse(e))
+
+    expect(tail.map((e) => [e.type, e.sequence_number])).toEqual([
+      ["response.output_text.done", 5],
+      ["response.content_part.done", 6],
+      ["response.output_item.done", 7],
+      ["response.completed", 8],
+    ])
+    expect(tail[0]?.text).toBe(LOOP + LOOP)
+    expect(tail[3]?.response).toMatchObject({
+      id: "resp_1",
+      status: "completed",
+      output: [{ type: "message", status: "incomplete", content: [{ type: "output_text", text: LOOP + LOOP }] }],
+    })
+  })
+})
+
+describe("executeRepetitionRetry", () => {
+  afterEach(() => {
+    resetAdaptiveRateLimiter()
+  })
+
+  test("schedules the retry with the request's rate limiter ticket", async () => {
+    initAdaptiveRateLimiter({ maxConcurrent: 1 })
+    const limiter = getAdaptiveRateLimiter()
+    if (!limiter) throw new Error("rate limiter not initialized")
+    let release: (() => void) | undefined
+    const held = limiter.execute(
+      () =>
+        new Promise<void>((resolve) => {
+          release = resolve
+        }),
+    )
+    await waitUntil(() => release !== undefined, { label: "held call to start" })
+
+    const retry = executeRepetitionRetry({
+      adapter: createMockAdapter<ChatCompletionsPayload>({
+        format: "openai-chat-completions",
+        execute: () => executeWithAdaptiveRateLimit(() => Promise.resolve(createFakeStream([ccChunk("fresh")]))),
+      }),
+      payload: { model: "gpt-4o", messages: [] },
+      model: undefined,
+      reqCtx,
+    })
+    await waitUntil(() => reqCtx.queuePosition === 1, { label: "retry to wait with its ticket" })
+
+    release?.()
+    await held
+    await retry
+    expect(reqCtx.queuePosition).toBeUndefined()
+    expect(reqCtx.attempts.at(-1)?.strategy).toBe("repetition-retry")
+  })
+})
+
+describe("repetition retry nudges", () => {
+  test("append the nudge to the system prompt and raise explicit temperatures", () => {
+    const messages = nudgeMessagesPayload({
+      model: "claude-sonnet-4.6",
+      max_tokens: 100,
+      messages: [{ role: "user", content: "hi" }],
+      system: "Be brief.",
+      temperature: 0.9,
+    })
+    expect(messages.system).toBe(`Be brief.\n\n${REPETITION_NUDGE}`)
+    expect(messages.temperature).toBe(1)
+
+    const chat = nudgeChatCompletionsPayload({ model: "gpt-4o", messages: [{ role: "user", content: "hi" }] })
+    expect(chat.messages[0]).toEqual({ role: "system", content: REPETITION_NUDGE })
+    expect(chat.temperature).toBeUndefined()
+  })
+})
@@ -181,4 +181,49 @@ describe("request telemetry", () => {
       },
     })
   })
+
+  test("aggregates per-API-key stats and persists them across restarts", async () => {
+    // Restart pruning is relative to the wall clock, so stay inside the live window
+    const now = Date.now()
+
+    recordSettledRequest("gpt-5.2", {
+      startedAt: now,
+      endedAt: now + 500,
+      success: true,
+      usage: { input_tokens: 10, output_tokens: 5 },
+      apiKeyLabel: "team-a",
+    })
+    recordSettledRequest("claude-sonnet-4.6", {
+      startedAt: now,
+      endedAt: now + 1_000,
+      success: false,
+      usage: { input_tokens: 30, output_tokens: 0 },
+      apiKeyLabel: "team-a",
+    })
+    recordSettledRequest("gpt-5.2", {
+      startedAt: now,
+      endedAt: now + 200,
+      success: true,
+      usage: { input_tokens: 1, output_tokens: 1 },
+    })
+
+    const snapshot = getRequestTelemetrySnapshot(now + 1_000)
+    expect(snapshot.apiKeysSinceStart).toHaveLength(1)
+    expect(snapshot.apiKeysSinceStart[0]).toMatchObject({
+      label: "team-a",
+      requestCount: 2,
+      successCount: 1,
+      failureCount: 1,
+      usage: { totalTokens: 45 },
+    })
+
+    await persistRequestTelemetry()
+    _resetRequestTelemetryForTests()
+    _setRequestTelemetryFilePathForTests(telemetryFile)
+    await initRequestTelemetry()
+
+    const restored = getRequestTelemetrySnapshot(now + 1_000)
+    expect(restored.apiKeysSinceStart).toHaveLength(0)
+    expect(restored.apiKeysLast7d).toEqual([expect.objectContaining({ label: "team-a", requestCount: 2 })])
+  })
 })
@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test"
+import { mkdtemp, readdir, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import path from "node:path"
+
+import type { CachedResponse } from "~/lib/response-cache"
+
+import { computeResponseCacheKey, createResponseCache } from "~/lib/response-cache"
+import { restoreStateForTests, setStateForTests, snapshotStateForTests } from "~/lib/state"
+
+function makeEntry(key: string, storedAt: number): CachedResponse {
+  return {
+    key,
+    endpoint: "anthropic-messages",
+    storedAt,
+    response: {
+      success: true,
+      model: "claude-sonnet-4.6",
+      usage: { input_tokens: 5, output_tokens: 2 },
+      content: null,
+    },
+    body: { id: key },
+  }
+}
+
+describe("computeResponseCacheKey", () => {
+  test("ignores object key order and undefined fields", () => {
+    const a = computeResponseCacheKey("anthropic-messages", {
+      model: "claude-sonnet-4.6",
+      temperature: 0,
+      messages: [{ role: "user", content: "hi" }],
+    })
+    const b = computeResponseCacheKey("anthropic-messages", {
+      messages: [{ content: "hi", role: "user" }],
+      temperature: 0,
+      top_p: undefined,
+      model: "claude-sonnet-4.6",
+    })
+
+    expect(a).toBe(b)
+    expect(a).toMatch(/^[\da-f]{64}$/)
+  })
+
+  test("separates endpoints, models and message order", () => {
+    const payload = { model: "gpt-5.1", messages: ["a", "b"] }
+    const key = computeResponseCacheKey("openai-chat-completions", payload)
+
+    expect(computeResponseCacheKey("anthropic-messages", payload)).not.toBe(key)
+    expect(computeResponseCacheKey("openai-chat-completions", { ...payload, model: "gpt-4o" })).not.toBe(key)
+    expect(computeResponseCacheKey("openai-chat-completions", { ...payload, messages: ["b", "a"] })).not.toBe(key)
+  })
+})
+
+describe("createResponseCache", () => {
+  const originalState = snapshotStateForTests()
+  let dir: string
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "copilot-api-response-cache-"))
+    setStateForTests({ responseCacheTtl: 60, responseCacheMaxEntries: 2 })
+  })
+
+  afterEach(async () => {
+    restoreStateForTests(originalState)
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  test("round-trips entries through disk and reloads them in a new instance", async () => {
+    const key = computeResponseCacheKey("anthropic-messages", { n: 1 })
+    await createResponseCache(dir).set(makeEntry(key, Date.now()))
+
+    const reloaded = await createResponseCache(dir).get(key)
+
+    expect(reloaded?.body).toEqual({ id: key })
+    expect(reloaded?.response.usage.input_tokens).toBe(5)
+  })
+
+  test("expires entries older than the TTL", async () => {
+    const cache = createResponseCache(dir)
+    const key = computeResponseCacheKey("anthropic-messages", { n: 1 })
+    await cache.set(makeEntry(key, 1_000_000))
+
+    expect(await cache.get(key, 1_000_000 + 59_000)).toBeDefined()
+    expect(await cache.get(key, 1_000_000 + 61_000)).toBeUndefined()
+    expect(await readdir(dir)).toEqual([])
+  })
+
+  test("never expires with a TTL of 0", async () => {
+    setStateForTests({ responseCacheTtl: 0 })
+    const cache = createResponseCache(dir)
+    const key = computeResponseCacheKey("anthropic-messages", { n: 1 })
+    await cache.set(makeEntry(key, 0))
+
+    expect(await cache.get(key, Date.now())).toBeDefined()
+  })
+
+  test("evicts the oldest entries beyond the cap", async () => {
+    const cache = createResponseCache(dir)
+    const keys = [1, 2, 3].map((n) => computeResponseCacheKey("anthropic-messages", { n }))
+    const now = Date.now()
+    await cache.set(makeEntry(keys[0], now - 3000))
+    await cache.set(makeEntry(keys[1], now - 2000))
+    await cache.set(makeEntry(keys[2], now - 1000))
+
+    expect(await cache.get(keys[0])).toBeUndefined()
+    expect(await cache.get(keys[1])).toBeDefined()
+    expect(await cache.get(keys[2])).toBeDefined()
+    expect(await readdir(dir)).toHaveLength(2)
+  })
+})
@@ -0,0 +1,245 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test"
+
+import type { ResponsesPayload, ResponsesResponse } from "~/types/api/openai-responses"
+
+import {
+  deleteStoredResponse,
+  getStoredResponse,
+  listStoredInputItems,
+  materializeResponseChain,
+  recordStoredResponse,
+  recordStoredStreamResponse,
+  resetResponseStoreForTesting,
+} from "~/lib/openai/response-store"
+import {
+  accumulateResponsesStreamEvent,
+  createResponsesStreamAccumulator,
+} from "~/lib/openai/responses-stream-accumulator"
+import { restoreStateForTests, setStateForTests, snapshotStateForTests } from "~/lib/state"
+
+function makeResponse(id: string, text: string): ResponsesResponse {
+  return {
+    id,
+    object: "response",
+    created_at: 1,
+    status: "completed",
+    model: "gpt-5.1",
+    output: [
+      { type: "reasoning", id: `rs_${id}`, summary: [] },
+      {
+        type: "message",
+        id: `msg_${id}`,
+        role: "assistant",
+        status: "completed",
+        content: [{ type: "output_text", text, annotations: [] }],
+      },
+    ],
+    usage: null,
+    tools: [],
+    tool_choice: "auto",
+    parallel_tool_calls: false,
+    store: false,
+  }
+}
+
+function makePayload(input: ResponsesPayload["input"], overrides: Partial<ResponsesPayload> = {}): ResponsesPayload {
+  return { model: "gpt-5.1", input, ...overrides }
+}
+
+describe("response store", () => {
+  const originalState = snapshotStateForTests()
+
+  beforeEach(() => {
+    resetResponseStoreForTesting()
+    setStateForTests({ responsesLocalStore: true, responsesStoreMaxEntries: 200, responsesStoreTtl: 60 })
+  })
+
+  afterEach(() => {
+    resetResponseStoreForTesting()
+    restoreStateForTests(originalState)
+  })
+
+  test("materializes the full chain and drops previous_response_id", () => {
+    recordStoredResponse(makePayload("first"), makeResponse("resp_1", "one"), undefined)
+    recordStoredResponse(
+      makePayload("second", { previous_response_id: "resp_1" }),
+      makeResponse("resp_2", "two"),
+      undefined,
+    )
+
+    const payload = materializeResponseChain(makePayload("third", { previous_response_id: "resp_2" }), undefined)
+
+    expect(payload.previous_response_id).toBeUndefined()
+    // Reasoning items without encrypted content are not replayed
+    expect(payload.input as Array<unknown>).toEqual([
+      { type: "message", role: "user", content: "first" },
+      makeResponse("resp_1", "one").output[1],
+      { type: "message", role: "user", content: "second" },
+      makeResponse("resp_2", "two").output[1],
+      { type: "message", role: "user", content: "third" },
+    ])
+  })
+
+  test("leaves unknown ids, store: false and a disabled store to upstream", () => {
+    recordStoredResponse(makePayload("secret", { store: false }), makeResponse("resp_private", "hidden"), undefined)
+    expect(getStoredResponse("resp_private", undefined)).toBeUndefined()
+
+    const unknown = makePayload("next", { previous_response_id: "resp_elsewhere" })
+    expect(materializeResponseChain(unknown, undefined)).toBe(unknown)
+
+    recordStoredResponse(makePayload("first"), makeResponse("resp_1", "one"), undefined)
+    setStateForTests({ responsesLocalStore: false })
+    const chained = makePayload("next", { previous_response_id: "resp_1" })
+    expect(materializeResponseChain(chained, undefined)).toBe(chained)
+  })
+
+  test("stores each turn's own input with a reference to the response it continued", () => {
+    recordStoredResponse(makePayload("first"), makeResponse("resp_1", "one"), undefined)
+    recordStoredResponse(
+      makePayload("second", { previous_response_id: "resp_1" }),
+      makeResponse("resp_2", "two"),
+      undefined,
+    )
+
+    const entry = getStoredResponse("resp_2", undefined)
+    expect(entry?.input).toEqual([{ type: "message", role: "user", content: "second" }])
+    expect(entry?.parent).toBe(getStoredResponse("resp_1", undefined))
+  })
+
+  test("keeps another API key's responses out of reach", () => {
+    recordStoredResponse(makePayload("first"), makeResponse("resp_1", "one"), "alice")
+
+    expect(getStoredResponse("resp_1", "bob")).toBeUndefined()
+    expect(getStoredResponse("resp_1", undefined)).toBeUndefined()
+    expect(deleteStoredResponse("resp_1", "bob")).toBe(false)
+
+    const chained = makePayload("next", { previous_response_id: "resp_1" })
+    expect(materializeResponseChain(chained, "bob")).toBe(chained)
+    recordStoredResponse(chained, makeResponse("resp_2", "two"), "bob")
+    expect(getStoredResponse("resp_2", "bob")).toBeUndefined()
+
+    expect(materializeResponseChain(chained, "alice").input).toHaveLength(3)
+    expect(deleteStoredResponse("resp_1", "alice")).toBe(true)
+  })
+
+  test("echoes the client's chaining fields on the stored response", () => {
+    recordStoredResponse(makePayload("first"), makeResponse("resp_1", "one"), undefined)
+    recordStoredResponse(
+      makePayload("second", { previous_response_id: "resp_1" }),
+      makeResponse("resp_2", "two"),
+      undefined,
+    )
+
+    expect(getStoredResponse("resp_2", undefined)?.response).toMatchObject({
+      previous_response_id: "resp_1",
+      store: true,
+    })
+  })
+
+  test("evicts least recently used entries over the cap, without breaking chains", () => {
+    setStateForTests({ responsesStoreMaxEntries: 2 })
+    recordStoredResponse(makePayload("first"), makeResponse("resp_1", "one"), undefined)
+    recordStoredResponse(
+      makePayload("second", { previous_response_id: "resp_1" }),
+      makeResponse("resp_2", "two"),
+      undefined,
+    )
+    getStoredResponse("resp_1", undefined)
+    recordStoredResponse(makePayload("other"), makeResponse("resp_3", "three"), undefined)
+
+    expect(getStoredResponse("resp_2", undefined)).toBeUndefined()
+    expect(getStoredResponse("resp_1", undefined)).toBeDefined()
+
+    recordStoredResponse(
+      makePayload("again", { previous_response_id: "resp_1" }),
+      makeResponse("resp_4", "four"),
+      undefined,
+    )
+    recordStoredResponse(makePayload("other"), makeResponse("resp_5", "five"), undefined)
+    expect(getStoredResponse("resp_1", undefined)).toBeUndefined()
+    expect(
+      materializeResponseChain(makePayload("next", { previous_response_id: "resp_4" }), undefined).input,
+    ).toHaveLength(5)
+  })
+
+  test("records streamed responses from output items when the completed event has no output", () => {
+    const response = makeResponse("resp_stream", "streamed")
+    const acc = createResponsesStreamAccumulator()
+    accumulateResponsesStreamEvent(
+      { type: "response.created", sequence_number: 0, response: { ...response, status: "in_progress", output: [] } },
+      acc,
+    )
+    recordStoredStreamResponse(makePayload("hi"), acc, undefined)
+    expect(getStoredResponse("resp_stream", undefined)).toBeUndefined()
+
+    accumulateResponsesStreamEvent(
+      { type: "response.output_item.done", sequence_number: 1, output_index: 0, item: response.output[1] },
+      acc,
+    )
+    accumulateResponsesStreamEvent(
+      { type: "response.completed", sequence_number: 2, response: { ...response, output: [] } },
+      acc,
+    )
+    recordStoredStreamResponse(makePayload("hi"), acc, undefined)
+
+    expect(getStoredResponse("resp_stream", undefined)?.response.output).toEqual([response.output[1]])
+  })
+
+  test("expires entries after the TTL since their last use", () => {
+    recordStoredResponse(makePayload("first"), makeResponse("resp_1", "one"), undefined, 1_000)
+
+    expect(getStoredResponse("resp_1", undefined, 50_000)).toBeDefined()
+    expect(getStoredResponse("resp_1", undefined, 100_000)).toBeDefined()
+    expect(getStoredResponse("resp_1", undefined, 170_000)).toBeUndefined()
+  })
+
+  test("deletes stored responses", () => {
+    recordStoredResponse(makePayload("first"), makeResponse("resp_1", "one"), undefined)
+
+    expect(deleteStoredResponse("resp_1", undefined)).toBe(true)
+    expect(deleteStoredResponse("resp_1", undefined)).toBe(false)
+    expect(getStoredResponse("resp_1", undefined)).toBeUndefined()
+  })
+
+  test("lists input items newest first with cursor pagination", () => {
+    const input = ["a", "b", "c"].map((text) => ({ role: "user" as const, content: text }))
+    recordStoredResponse(makePayload(input), makeResponse("resp_1", "one"), undefined)
+    const entry = getStoredResponse("resp_1", undefined)
+    if (!entry) throw new Error("expected stored response")
+
+    const page = listStoredInputItems(entry, { limit: 2 })
+    expect(page.data.map((item) => item.content)).toEqual(["c", "b"])
+    expect(page.data[0]).toMatchObject({ type: "message", id: "item_resp_1_2" })
+    expect(page.has_more).toBe(true)
+
+    const next = listStoredInputItems(entry, { limit: 2, after: page.last_id ?? undefined })
+    expect(next.data.map((item) => item.content)).toEqual(["a"])
+    expect(next.has_more).toBe(false)
+
+    expect(listStoredInputItems(entry, { order: "asc" }).first_id).toBe("item_resp_1_0")
+  })
+
+  test("returns an empty page for an unknown cursor", () => {
+    recordStoredResponse(
+      makePayload(["a", "b"].map((text) => ({ role: "user" as const, content: text }))),
+      makeResponse("resp_1", "one"),
+      undefined,
+    )
+    const entry = getStoredResponse("resp_1", undefined)
+    if (!entry) throw new Error("expected stored response")
+
+    const page = listStoredInputItems(entry, { after: "item_unknown" })
+    expect(page).toEqual({ object: "list", data: [], first_id: null, last_id: null, has_more: false })
+  })
+
+  test("hides stored responses while the local store is disabled", () => {
+    recordStoredResponse(makePayload("first"), makeResponse("resp_1", "one"), undefined)
+    setStateForTests({ responsesLocalStore: false })
+
+    expect(getStoredResponse("resp_1", undefined)).toBeUndefined()
+    expect(deleteStoredResponse("resp_1", undefined)).toBe(false)
+
+    setStateForTests({ responsesLocalStore: true })
+    expect(getStoredResponse("resp_1", undefined)).toBeDefined()
+  })
+})
@@ -0,0 +1,233 @@
+import { afterEach, beforeEach, describe, expect, mock, spyOn, test } from "bun:test"
+
+import type { RequestContextManager } from "~/lib/context/manager"
+import type { RetryStrategy } from "~/lib/request/pipeline"
+import type { FinishedSpan } from "~/lib/tracing"
+
+import { createRequestContextManager } from "~/lib/context/manager"
+import { HTTPError } from "~/lib/error"
+import { executeRequestPipeline } from "~/lib/request/pipeline"
+import { OtlpTraceExporter, handleTracingEvent, parseTraceParent, withRequestSpan } from "~/lib/tracing"
+import { _setTraceExporterForTests, encodeSpans } from "~/lib/tracing/exporter"
+import { _resetRequestSpansForTests } from "~/lib/tracing/request-spans"
+
+import { createMockAdapter } from "../helpers/mock-adapter"
+
+const INBOUND_TRACE_ID = "4bf92f3577b34da6a3ce929d0e0e4736"
+const INBOUND_SPAN_ID = "00f067aa0ba902b7"
+
+type TestPayload = { model: string; messages: Array<unknown> }
+
+let exported: Array<FinishedSpan>
+let exporter: OtlpTraceExporter
+let manager: RequestContextManager
+
+beforeEach(() => {
+  exported = []
+  exporter = new OtlpTraceExporter({ endpoint: "http://127.0.0.1:4318/v1/traces", serviceName: "test" })
+  spyOn(exporter, "enqueue").mockImplementation((span) => {
+    exported.push(span)
+  })
+  _setTraceExporterForTests(exporter)
+  manager = createRequestContextManager()
+  manager.on("change", handleTracingEvent)
+})
+
+afterEach(() => {
+  _setTraceExporterForTests(null)
+  _resetRequestSpansForTests()
+})
+
+function spanNamed(name: string): FinishedSpan {
+  const span = exported.find((s) => s.name === name)
+  if (!span) throw new Error(`span "${name}" not exported; got ${exported.map((s) => s.name).join(", ")}`)
+  return span
+}
+
+describe("parseTraceParent", () => {
+  test("parses sampled and unsampled version-00 headers", () => {
+    expect(parseTraceParent(`00-${INBOUND_TRACE_ID}-${INBOUND_SPAN_ID}-01`)).toEqual({
+      traceId: INBOUND_TRACE_ID,
+      spanId: INBOUND_SPAN_ID,
+      sampled: true,
+    })
+    expect(parseTraceParent(`00-${INBOUND_TRACE_ID}-${INBOUND_SPAN_ID}-00`)?.sampled).toBe(false)
+  })
+
+  test("rejects malformed and all-zero ids", () => {
+    expect(parseTraceParent(undefined)).toBeUndefined()
+    expect(parseTraceParent("garbage")).toBeUndefined()
+    expect(parseTraceParent(`00-${"0".repeat(32)}-${INBOUND_SPAN_ID}-01`)).toBeUndefined()
+    expect(parseTraceParent(`ff-${INBOUND_TRACE_ID}-${INBOUND_SPAN_ID}-01`)).toBeUndefined()
+    expect(parseTraceParent(`00-${INBOUND_TRACE_ID}-${INBOUND_SPAN_ID}-01-extra`)).toBeUndefined()
+  })
+})
+
+describe("request spans", () => {
+  test("continues the inbound trace and records attempts, strategies and usage", async () => {
+    const ctx = manager.create({
+      endpoint: "anthropic-messages",
+      rawPath: "/v1/messages",
+      traceParent: `00-${INBOUND_TRACE_ID}-${INBOUND_SPAN_ID}-01`,
+    })
+    ctx.setOriginalRequest({ model: "claude-sonnet-4.6", messages: [], stream: true, payload: {} })
+
+    withRequestSpan(ctx, "sanitize", () => "sanitized")
+
+    let calls = 0
+    const adapter = createMockAdapter<TestPayload>({
+      execute: () => {
+        calls++
+        if (calls === 1) return Promise.reject(new HTTPError("Service Unavailable", 502, ""))
+        return Promise.resolve({ result: { ok: true }, queueWaitMs: 250 })
+      },
+    })
+    const retry: RetryStrategy<TestPayload> = {
+      name: "server-retry",
+      canHandle: () => true,
+      handle: (_error, payload) => Promise.resolve({ action: "retry", payload }),
+    }
+    const payload = { model: "claude-sonnet-4.6", messages: [] }
+
+    await executeRequestPipeline({
+      adapter,
+      strategies: [retry],
+      payload,
+      originalPayload: payload,
+      model: undefined,
+      requestContext: ctx,
+    })
+    ctx.transition("streaming")
+    ctx.complete({
+      success: true,
+      model: "claude-sonnet-4.6",
+      usage: { input_tokens: 100, output_tokens: 40, cache_read_input_tokens: 20 },
+      content: null,
+    })
+
+    const root = spanNamed("/v1/messages")
+    expect(root.traceId).toBe(INBOUND_TRACE_ID)
+    expect(root.parentSpanId).toBe(INBOUND_SPAN_ID)
+    expect(root.attributes).toMatchObject({
+      "gen_ai.request.model": "claude-sonnet-4.6",
+      "gen_ai.response.model": "claude-sonnet-4.6",
+      "gen_ai.usage.input_tokens": 100,
+      "gen_ai.usage.output_tokens": 40,
+      "gen_ai.usage.cache_read_input_tokens": 20,
+      "copilot_api.attempt_count": 2,
+    })
+    expect(root.status.code).toBe(0)
+
+    const children = exported.filter((span) => span !== root)
+    for (const span of children) expect(span.traceId).toBe(INBOUND_TRACE_ID)
+
+    const attempts = exported.filter((span) => span.name === "upstream attempt")
+    expect(attempts).toHaveLength(2)
+    expect(attempts[0].attributes).toMatchObject({ "error.type": "server_error", "http.response.status_code": 502 })
+    expect(attempts[0].status.code).toBe(2)
+    expect(attempts[1].attributes["copilot_api.strategy"]).toBe("server-retry")
+
+    expect(spanNamed("strategy server-retry").attributes["copilot_api.strategy_action"]).toBe("retry")
+    const queueWait = spanNamed("rate_limiter.queue_wait")
+    expect(queueWait.parentSpanId).toBe(attempts[1].spanId)
+    expect(queueWait.endTimeMs - queueWait.startTimeMs).toBe(250)
+    expect(spanNamed("sanitize").parentSpanId).toBe(root.spanId)
+    expect(spanNamed("stream").parentSpanId).toBe(root.spanId)
+  })
+
+  test("marks failed requests with the classified error type", () => {
+    const ctx = manager.create({ endpoint: "openai-chat-completions", rawPath: "/v1/chat/completions" })
+    ctx.beginAttempt({})
+    ctx.setAttemptError({ type: "rate_limited", status: 429, message: "slow down", raw: null })
+    ctx.fail("gpt-5.1", new HTTPError("slow down", 429, ""))
+
+    const root = spanNamed("/v1/chat/completions")
+    expect(root.parentSpanId).toBeUndefined()
+    expect(root.attributes).toMatchObject({ "error.type": "rate_limited", "http.response.status_code": 429 })
+    expect(root.status).toEqual({ code: 2, message: "HTTP 429: slow down" })
+  })
+
+  test("records nothing when the inbound trace is not sampled", () => {
+    const ctx = manager.create({
+      endpoint: "anthropic-messages",
+      traceParent: `00-${INBOUND_TRACE_ID}-${INBOUND_SPAN_ID}-00`,
+    })
+    withRequestSpan(ctx, "sanitize", () => null)
+    ctx.complete({ success: true, model: "m", usage: { input_tokens: 1, output_tokens: 1 }, content: null })
+
+    expect(exported).toHaveLength(0)
+  })
+})
+
+describe("OTLP encoding", () => {
+  test("encodes spans with hex ids, nanosecond timestamps and typed attributes", () => {
+    const body = encodeSpans(
+      [
+        {
+          traceId: INBOUND_TRACE_ID,
+          spanId: INBOUND_SPAN_ID,
+          name: "stream",
+          kind: 1,
+          startTimeMs: 1_750_000_000_000,
+          endTimeMs: 1_750_000_000_250.5,
+          attributes: { model: "gpt-5.1", tokens: 12, ratio: 0.5, cached: true },
+          status: { code: 0 },
+        },
+      ],
+      { serviceName: "copilot-api", serviceVersion: "1.2.3" },
+    ) as {
+      resourceSpans: Array<{
+        resource: { attributes: Array<unknown> }
+        scopeSpans: Array<{ spans: Array<Record<string, unknown>> }>
+      }>
+    }
+
+    const [resourceSpans] = body.resourceSpans
+    expect(resourceSpans.resource.attributes).toContainEqual({
+      key: "service.name",
+      value: { stringValue: "copilot-api" },
+    })
+    const [span] = resourceSpans.scopeSpans[0].spans
+    expect(span.startTimeUnixNano).toBe("1750000000000000000")
+    expect(span.endTimeUnixNano).toBe("1750000000250500000")
+    expect(span.parentSpanId).toBeUndefined()
+    expect(span.attributes).toEqual([
+      { key: "model", value: { stringValue: "gpt-5.1" } },
+      { key: "tokens", value: { intValue: "12" } },
+      { key: "ratio", value: { doubleValue: 0.5 } },
+      { key: "cached", value: { boolValue: true } },
+    ])
+  })
+
+  test("flush POSTs queued spans to the collector", async () => {
+    const sender = new OtlpTraceExporter({
+      endpoint: "http://collector.test/v1/traces",
+      headers: { authorization: "Bearer t" },
+      serviceName: "test",
+    })
+    const originalFetch = globalThis.fetch
+    const fetchMock = mock((_url: string, _init: RequestInit) => Promise.resolve(new Response(null)))
+    globalThis.fetch = fetchMock as unknown as typeof fetch
+    try {
+      sender.enqueue({
+        traceId: INBOUND_TRACE_ID,
+        spanId: INBOUND_SPAN_ID,
+        name: "root",
+        kind: 2,
+        startTimeMs: 0,
+        endTimeMs: 1,
+        attributes: {},
+        status: { code: 0 },
+      })
+      await sender.shutdown()
+
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+      const [url, init] = fetchMock.mock.calls[0]
+      expect(url).toBe("http://collector.test/v1/traces")
+      expect(init.headers).toMatchObject({ "content-type": "application/json", authorization: "Bearer t" })
+      expect(JSON.parse(init.body as string).resourceSpans[0].scopeSpans[0].spans[0].name).toBe("root")
+    } finally {
+      globalThis.fetch = originalFetch
+    }
+  })
+})
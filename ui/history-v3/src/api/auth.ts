@@ -0,0 +1,49 @@
+/**
+ * API key for servers with `auth.api_keys` configured.
+ *
+ * The key is kept in localStorage and sent as `Authorization: Bearer` on fetch
+ * requests. WebSockets and download links cannot carry headers, so their URLs
+ * get `?api_key=` instead (the server accepts it on GET requests).
+ */
+
+const STORAGE_KEY = "copilot-api-key"
+
+type UnauthorizedListener = () => void
+const unauthorizedListeners = new Set<UnauthorizedListener>()
+
+export function getApiKey(): string | null {
+  try {
+    return localStorage.getItem(STORAGE_KEY)
+  } catch {
+    // Storage blocked by the browser (or absent outside one)
+    return null
+  }
+}
+
+export function setApiKey(key: string | null): void {
+  if (key) localStorage.setItem(STORAGE_KEY, key)
+  else localStorage.removeItem(STORAGE_KEY)
+}
+
+/** Headers to merge into a fetch request */
+export function authHeaders(): Record<string, string> {
+  const key = getApiKey()
+  return key ? { Authorization: `Bearer ${key}` } : {}
+}
+
+/** Add the key to a URL that is opened without custom headers (WebSocket, download link) */
+export function withApiKey(url: string): string {
+  const key = getApiKey()
+  if (!key) return url
+  return `${url}${url.includes("?") ? "&" : "?"}api_key=${encodeURIComponent(key)}`
+}
+
+/** Called by the HTTP client on a 401 response */
+export function notifyUnauthorized(): void {
+  for (const listener of unauthorizedListeners) listener()
+}
+
+export function onUnauthorized(listener: UnauthorizedListener): () => void {
+  unauthorizedListeners.add(listener)
+  return () => unauthorizedListeners.delete(listener)
+}
@@ -1,5 +1,17 @@
-import type { SummaryResult, HistoryEntry, HistoryStats, SessionResult, QueryOptions } from "@/types"
+import type {
+  SummaryResult,
+  HistoryEntry,
+  HistoryStats,
+  SessionResult,
+  QueryOptions,
+  ReplayOverrides,
+  ReplaySource,
+  TranscriptFormat,
+} from "@/types"
 import type { ConfigValidationError, ConfigYamlResponse, EditableConfig } from "@/types/config"
+import type { LearnedModelLimits, ModelLimitsUpdate } from "@/types/limits"
+
+import { authHeaders, notifyUnauthorized, withApiKey } from "./auth"
 
 const BASE = "/history/api"
 
@@ -14,28 +26,23 @@ class ApiError extends Error {
   }
 }
 
+async function toApiError(res: Response): Promise<ApiError> {
+  if (res.status === 401) notifyUnauthorized()
+  const body = await res.text().catch(() => "Unknown error")
+  return new ApiError(res.status, `${res.status}: ${body}`, body)
+}
+
 async function request<T>(path: string, options?: RequestInit): Promise<T> {
-  const res = await fetch(BASE + path, {
-    headers: { "Content-Type": "application/json" },
-    ...options,
-  })
-  if (!res.ok) {
-    const body = await res.text().catch(() => "Unknown error")
-    throw new ApiError(res.status, `${res.status}: ${body}`, body)
-  }
-  return res.json()
+  return requestRoot<T>(BASE + path, options)
 }
 
 /** Fetch from non-history API routes (e.g. /api/status, /models) */
 async function requestRoot<T>(path: string, options?: RequestInit): Promise<T> {
   const res = await fetch(path, {
-    headers: { "Content-Type": "application/json" },
     ...options,
+    headers: { "Content-Type": "application/json", ...authHeaders() },
   })
-  if (!res.ok) {
-    const body = await res.text().catch(() => "Unknown error")
-    throw new ApiError(res.status, `${res.status}: ${body}`, body)
-  }
+  if (!res.ok) throw await toApiError(res)
   return res.json()
 }
 
@@ -61,6 +68,14 @@ export const api = {
     return request<HistoryEntry>("/entries/" + id)
   },
 
+  /** Re-run an entry's original or effective payload; resolves to the new entry */
+  async replayEntry(id: string, options: ReplayOverrides & { source?: ReplaySource } = {}): Promise<HistoryEntry> {
+    return request<HistoryEntry>("/entries/" + id + "/replay", {
+      method: "POST",
+      body: JSON.stringify(options),
+    })
+  },
+
   async deleteEntries(): Promise<void> {
     await request("/entries", { method: "DELETE" })
   },
@@ -84,7 +99,20 @@ export const api = {
   },
 
   getExportUrl(format: "json" | "csv"): string {
-    return BASE + "/export?format=" + format
+    return withApiKey(BASE + "/export?format=" + format)
+  },
+
+  getSessionTranscriptUrl(sessionId: string, format: TranscriptFormat): string {
+    return withApiKey(`${BASE}/sessions/${encodeURIComponent(sessionId)}/export?format=${format}`)
+  },
+
+  getEntryTranscriptUrl(id: string, format: TranscriptFormat): string {
+    return withApiKey(`${BASE}/entries/${encodeURIComponent(id)}/export?format=${format}`)
+  },
+
+  /** Raw JSON of an entry, for opening in a new tab */
+  getEntryUrl(id: string): string {
+    return withApiKey(`${BASE}/entries/${encodeURIComponent(id)}`)
   },
 
   // --- New endpoints for pages ---
@@ -121,6 +149,44 @@ export const api = {
   async fetchModels(): Promise<{ data: Array<Record<string, unknown>> }> {
     return requestRoot<{ data: Array<Record<string, unknown>> }>("/models")
   },
+
+  /** Learned model limits and tokenizer calibration (Models page) */
+  async fetchModelLimits(): Promise<{ limits: Array<LearnedModelLimits> }> {
+    return requestRoot<{ limits: Array<LearnedModelLimits> }>("/api/limits")
+  },
+
+  /** Override or (un)pin a model's limits */
+  async updateModelLimits(model: string, update: ModelLimitsUpdate): Promise<LearnedModelLimits> {
+    return requestRoot<LearnedModelLimits>(`/api/limits/${encodeURIComponent(model)}`, {
+      method: "PUT",
+      body: JSON.stringify(update),
+    })
+  },
+
+  /** Forget learned and manual limits for a model */
+  async resetModelLimits(model: string): Promise<void> {
+    await requestRoot(`/api/limits/${encodeURIComponent(model)}`, { method: "DELETE" })
+  },
+
+  /** Estimate prompt tokens for an Anthropic-shaped payload (playground) */
+  async countTokens(payload: Record<string, unknown>): Promise<{ input_tokens: number }> {
+    return requestRoot<{ input_tokens: number }>("/v1/messages/count_tokens", {
+      method: "POST",
+      body: JSON.stringify(payload),
+    })
+  },
+
+  /** Send a streaming request to a client endpoint (playground); resolves once the SSE response starts */
+  async openStream(path: string, payload: Record<string, unknown>, signal: AbortSignal): Promise<Response> {
+    const res = await fetch(path, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...authHeaders() },
+      body: JSON.stringify(payload),
+      signal,
+    })
+    if (!res.ok) throw await toApiError(res)
+    return res
+  },
 }
 
 // Re-export for convenience
@@ -1,6 +1,8 @@
 import type { EntrySummary, HistoryStats } from "@/types"
 import type { WSMessage } from "@/types/ws"
 
+import { withApiKey } from "./auth"
+
 /** Active request summary from WS event */
 export interface ActiveRequestInfo {
   id: string
@@ -14,6 +16,10 @@ export interface ActiveRequestInfo {
   attemptCount?: number
   currentStrategy?: string
   queueWaitMs?: number
+  /** Rate limiter priority class */
+  priority?: string
+  /** Position in a rate limiter queue while waiting */
+  queuePosition?: number
 }
 
 /** Rate limiter change payload */
@@ -33,7 +39,7 @@ export interface ShutdownPhaseChangeInfo {
 
 /** Active request changed payload */
 export interface ActiveRequestChangedInfo {
-  action: "created" | "state_changed" | "completed" | "failed"
+  action: "created" | "state_changed" | "queue_position_changed" | "completed" | "failed"
   request?: ActiveRequestInfo
   requestId?: string
   activeCount: number
@@ -95,7 +101,7 @@ export class WSClient {
 
   private createConnection(): void {
     const protocol = location.protocol === "https:" ? "wss:" : "ws:"
-    const url = `${protocol}//${location.host}/ws`
+    const url = withApiKey(`${protocol}//${location.host}/ws`)
 
     try {
       this.ws = new WebSocket(url)
@@ -0,0 +1,29 @@
+import { ref } from "vue"
+
+import { getApiKey, onUnauthorized, setApiKey } from "@/api/auth"
+
+const required = ref(false)
+let subscribed = false
+
+/** Prompt state for servers that require an API key (shown after the first 401) */
+export function useApiKey() {
+  if (!subscribed) {
+    subscribed = true
+    onUnauthorized(() => {
+      required.value = true
+    })
+  }
+
+  /** Store the key and reload, so every request and the WebSocket reconnect with it */
+  function save(key: string): void {
+    setApiKey(key.trim() || null)
+    required.value = false
+    location.reload()
+  }
+
+  function dismiss(): void {
+    required.value = false
+  }
+
+  return { dismiss, hasStoredKey: () => getApiKey() !== null, required, save }
+}
@@ -60,12 +60,32 @@ export interface RequestTelemetrySnapshot {
   modelsLast7d: Array<RequestTelemetryModelStats & { buckets: Array<RequestTelemetryModelBucket> }>
 }
 
+export interface BudgetUsage {
+  metric: "premium_requests" | "tokens"
+  window: "hour" | "day"
+  used: number
+  limit: number
+  resetsAt: number
+}
+
+/** Current usage of one subject (API key, session or IP) under one budget rule */
+export interface BudgetSubjectUsage {
+  rule: string
+  by: string
+  subject: string
+  usage: Array<BudgetUsage>
+}
+
 export interface RateLimiterSnapshot {
   enabled: boolean
   mode: string | null
   queueLength: number
   consecutiveSuccesses: number
   rateLimitedAt: number | null
+  /** Upstream calls holding a concurrency slot */
+  inFlight: number
+  /** Waiting requests per priority class */
+  waiting: Record<string, number>
   config: Record<string, unknown> | null
 }
 
@@ -116,7 +136,7 @@ export function useDashboardStatus() {
     if (data.action === "created" && data.request) {
       cancelPendingRemoval(data.request.id)
       upsertActiveRequest(data.request)
-    } else if (data.action === "state_changed" && data.request) {
+    } else if ((data.action === "state_changed" || data.action === "queue_position_changed") && data.request) {
       const request = data.request
       cancelPendingRemoval(request.id)
       upsertActiveRequest(request)
@@ -174,6 +194,8 @@ export function useDashboardStatus() {
       queueLength: rateLimiterQueue.value ?? 0,
       consecutiveSuccesses: typeof source.consecutiveSuccesses === "number" ? source.consecutiveSuccesses : 0,
       rateLimitedAt: typeof source.rateLimitedAt === "number" ? source.rateLimitedAt : null,
+      inFlight: typeof source.inFlight === "number" ? source.inFlight : 0,
+      waiting: source.waiting && typeof source.waiting === "object" ? (source.waiting as Record<string, number>) : {},
       config: source.config && typeof source.config === "object" ? (source.config as Record<string, unknown>) : null,
     }
   })
@@ -268,6 +290,25 @@ export function useDashboardStatus() {
       modelsLast7d,
     }
   })
+  const budgets = computed<Array<BudgetSubjectUsage>>(() => {
+    const source = Array.isArray(status.value?.budgets) ? (status.value.budgets as Array<unknown>) : []
+    return source
+      .filter((entry): entry is Record<string, unknown> => Boolean(entry) && typeof entry === "object")
+      .map((entry) => ({
+        rule: typeof entry.rule === "string" ? entry.rule : "unknown",
+        by: typeof entry.by === "string" ? entry.by : "unknown",
+        subject: typeof entry.subject === "string" ? entry.subject : "unknown",
+        usage: (Array.isArray(entry.usage) ? entry.usage : [])
+          .filter((usage): usage is Record<string, unknown> => Boolean(usage) && typeof usage === "object")
+          .map((usage) => ({
+            metric: usage.metric === "tokens" ? ("tokens" as const) : ("premium_requests" as const),
+            window: usage.window === "day" ? ("day" as const) : ("hour" as const),
+            used: typeof usage.used === "number" ? usage.used : 0,
+            limit: typeof usage.limit === "number" ? usage.limit : 0,
+            resetsAt: typeof usage.resetsAt === "number" ? usage.resetsAt : 0,
+          })),
+      }))
+  })
   const quotaPlan = computed<string | null>(() => {
     const plan = quota.value?.plan
     return typeof plan === "string" ? plan : null
@@ -314,6 +355,7 @@ export function useDashboardStatus() {
   return {
     activeRequests,
     auth,
+    budgets,
     copilotExpiresAt,
     formatNumber: formatMetric,
     memory,
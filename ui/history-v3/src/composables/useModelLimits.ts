@@ -0,0 +1,64 @@
+import { onMounted, ref } from "vue"
+
+import type { LearnedModelLimits, ModelLimitsUpdate } from "@/types/limits"
+
+import { api } from "@/api/http"
+import { useToast } from "@/composables/useToast"
+
+/** Learned model limits with override, pin and reset actions (Models page) */
+export function useModelLimits() {
+  const { show } = useToast()
+  const limits = ref<Array<LearnedModelLimits>>([])
+  const loading = ref(false)
+  const error = ref<string | null>(null)
+  /** Model whose action is in flight */
+  const busyModel = ref<string | null>(null)
+
+  async function refresh(): Promise<void> {
+    loading.value = true
+    try {
+      limits.value = (await api.fetchModelLimits()).limits
+      error.value = null
+    } catch (e) {
+      error.value = e instanceof Error ? e.message : String(e)
+    } finally {
+      loading.value = false
+    }
+  }
+
+  async function runAction(model: string, action: () => Promise<unknown>, success: string): Promise<boolean> {
+    busyModel.value = model
+    try {
+      await action()
+      show(success, "success")
+      await refresh()
+      return true
+    } catch (e) {
+      show(e instanceof Error ? e.message : String(e), "error", 5000)
+      return false
+    } finally {
+      busyModel.value = null
+    }
+  }
+
+  function save(model: string, update: ModelLimitsUpdate): Promise<boolean> {
+    return runAction(model, () => api.updateModelLimits(model, update), `Limits for ${model} saved`)
+  }
+
+  function togglePin(row: LearnedModelLimits): Promise<boolean> {
+    const label = row.pinned ? "unpinned" : "pinned"
+    return runAction(
+      row.model,
+      () => api.updateModelLimits(row.model, { pinned: !row.pinned }),
+      `${row.model} ${label}`,
+    )
+  }
+
+  function reset(model: string): Promise<boolean> {
+    return runAction(model, () => api.resetModelLimits(model), `Limits for ${model} reset`)
+  }
+
+  onMounted(() => void refresh())
+
+  return { busyModel, error, limits, loading, refresh, reset, save, togglePin }
+}
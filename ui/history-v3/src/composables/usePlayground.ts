@@ -0,0 +1,204 @@
+import { computed, onUnmounted, reactive, ref, watch } from "vue"
+
+import { api } from "@/api/http"
+import { useModelsCatalog } from "@/composables/useModelsCatalog"
+import {
+  PLAYGROUND_FORMATS,
+  type PlaygroundFormat,
+  type PlaygroundInput,
+  type PlaygroundResult,
+  type PlaygroundTool,
+  type PlaygroundTurn,
+  buildCountTokensPayload,
+  buildPlaygroundPayload,
+  createPlaygroundResult,
+  createStreamDecoder,
+  finalizePlaygroundResult,
+  getDefaultFormat,
+  isPlaygroundModel,
+  readSseEvents,
+} from "@/utils/playground"
+
+/** Delay between the last edit and the count_tokens request */
+const TOKEN_COUNT_DEBOUNCE_MS = 500
+
+function parseTools(text: string): { tools: Array<PlaygroundTool>; error: string | null } {
+  if (!text.trim()) return { tools: [], error: null }
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch {
+    return { tools: [], error: "Tools must be valid JSON" }
+  }
+  if (!Array.isArray(parsed)) return { tools: [], error: "Tools must be a JSON array" }
+  for (const tool of parsed as Array<Record<string, unknown> | null>) {
+    if (!tool || typeof tool.name !== "string" || !tool.name) return { tools: [], error: "Every tool needs a name" }
+    if (typeof tool.input_schema !== "object" || tool.input_schema === null) {
+      return { tools: [], error: `Tool "${tool.name}" needs an input_schema object` }
+    }
+  }
+  return { tools: parsed as Array<PlaygroundTool>, error: null }
+}
+
+/** State and actions of the playground page */
+export function usePlayground() {
+  const { models, loading: modelsLoading } = useModelsCatalog()
+
+  const model = ref("")
+  const format = ref<PlaygroundFormat>("messages")
+  const system = ref("")
+  const messages = ref<Array<PlaygroundTurn>>([{ role: "user", content: "" }])
+  const toolsText = ref("")
+  const maxTokens = ref(4096)
+  const thinkingBudget = ref(0)
+
+  const tokenEstimate = ref<number | null>(null)
+  const counting = ref(false)
+
+  const running = ref(false)
+  const result = ref<PlaygroundResult | null>(null)
+  const error = ref<string | null>(null)
+  let controller: AbortController | null = null
+
+  const chatModels = computed(() =>
+    models.value.filter((m) => m.capabilities?.type !== "embeddings" && isPlaygroundModel(m)),
+  )
+  const selectedModel = computed(() => chatModels.value.find((m) => m.id === model.value))
+  const formatInfo = computed(() => PLAYGROUND_FORMATS.find((f) => f.value === format.value) ?? PLAYGROUND_FORMATS[0])
+
+  const parsedTools = computed(() => parseTools(toolsText.value))
+
+  const input = computed<PlaygroundInput | null>(() => {
+    if (!model.value || parsedTools.value.error) return null
+    return {
+      model: model.value,
+      system: system.value,
+      messages: messages.value,
+      tools: parsedTools.value.tools,
+      maxTokens: maxTokens.value,
+      thinkingBudget: thinkingBudget.value,
+    }
+  })
+
+  const canRun = computed(
+    () => !running.value && input.value !== null && messages.value.some((turn) => turn.content.trim()),
+  )
+
+  // Pick the first model once the catalog arrives, and its native format on every switch
+  watch(chatModels, (list) => {
+    if (!model.value && list.length > 0) model.value = list[0].id as string
+  })
+  watch(selectedModel, (m) => {
+    if (m) format.value = getDefaultFormat(m)
+  })
+
+  let countTimer: ReturnType<typeof setTimeout> | undefined
+  let countSeq = 0
+  watch(
+    input,
+    (value) => {
+      clearTimeout(countTimer)
+      if (!value) {
+        tokenEstimate.value = null
+        return
+      }
+      countTimer = setTimeout(() => void countTokens(value), TOKEN_COUNT_DEBOUNCE_MS)
+    },
+    { deep: true },
+  )
+
+  async function countTokens(value: PlaygroundInput): Promise<void> {
+    const seq = ++countSeq
+    counting.value = true
+    try {
+      const { input_tokens } = await api.countTokens(buildCountTokensPayload(value))
+      if (seq === countSeq) tokenEstimate.value = input_tokens
+    } catch {
+      // Estimates are best-effort
+      if (seq === countSeq) tokenEstimate.value = null
+    } finally {
+      if (seq === countSeq) counting.value = false
+    }
+  }
+
+  async function run(): Promise<void> {
+    if (!input.value || running.value) return
+    controller = new AbortController()
+    const live = reactive(createPlaygroundResult())
+    result.value = live
+    error.value = null
+    running.value = true
+
+    try {
+      const payload = buildPlaygroundPayload(format.value, input.value)
+      const response = await api.openStream(formatInfo.value.path, payload, controller.signal)
+      if (!response.body) throw new Error("Empty response body")
+
+      const decode = createStreamDecoder(format.value, live)
+      for await (const event of readSseEvents(response.body)) {
+        decode(event)
+      }
+      finalizePlaygroundResult(live)
+      if (live.error) error.value = live.error
+    } catch (e) {
+      if (!controller.signal.aborted) error.value = e instanceof Error ? e.message : String(e)
+    } finally {
+      running.value = false
+      controller = null
+    }
+  }
+
+  function stop(): void {
+    controller?.abort()
+  }
+
+  function addTurn(): void {
+    const last = messages.value.at(-1)
+    messages.value.push({ role: last?.role === "user" ? "assistant" : "user", content: "" })
+  }
+
+  function removeTurn(index: number): void {
+    messages.value.splice(index, 1)
+  }
+
+  /** Continue the conversation: append the response text as an assistant turn, then an empty user turn */
+  function keepResponse(): void {
+    if (!result.value) return
+    const text = result.value.message.content
+      .filter((block) => block.type === "text")
+      .map((block) => (block as { text: string }).text)
+      .join("")
+    messages.value.push({ role: "assistant", content: text }, { role: "user", content: "" })
+    result.value = null
+  }
+
+  onUnmounted(() => {
+    clearTimeout(countTimer)
+    controller?.abort()
+  })
+
+  return {
+    addTurn,
+    canRun,
+    chatModels,
+    counting,
+    error,
+    format,
+    formatInfo,
+    keepResponse,
+    maxTokens,
+    messages,
+    model,
+    modelsLoading,
+    removeTurn,
+    result,
+    run,
+    running,
+    stop,
+    system,
+    thinkingBudget,
+    tokenEstimate,
+    toolsError: computed(() => parsedTools.value.error),
+    toolsText,
+  }
+}
@@ -71,6 +71,11 @@ const router = createRouter({
       name: "v-models",
       component: () => import("@/pages/vuetify/VModelsPage.vue"),
     },
+    {
+      path: "/v/playground",
+      name: "v-playground",
+      component: () => import("@/pages/vuetify/VPlaygroundPage.vue"),
+    },
     {
       path: "/v/usage",
       redirect: "/v/dashboard",
@@ -22,6 +22,19 @@ export interface ConfigYamlResponse {
   history?: {
     limit?: number
     min_entries?: number
+    persist?: boolean
+    retention_days?: number
+    max_disk_mb?: number
+  }
+  response_cache?: {
+    enabled?: boolean
+    ttl_seconds?: number
+    max_entries?: number
+  }
+  repetition_detector?: {
+    policy?: "warn" | "abort" | "abort-and-retry"
+    min_pattern_length?: number
+    min_repetitions?: number
   }
   anthropic?: {
     strip_server_tools?: boolean
@@ -40,6 +53,9 @@ export interface ConfigYamlResponse {
   "openai-responses"?: {
     normalize_call_ids?: boolean
     upstream_websocket?: boolean
+    local_store?: boolean
+    store_max_entries?: number
+    store_ttl_seconds?: number
   }
   rate_limiter?: {
     retry_interval?: number
@@ -48,6 +64,11 @@ export interface ConfigYamlResponse {
     consecutive_successes?: number
   }
   compress_tool_results_before_truncate?: boolean
+  auto_truncate?: {
+    mode?: "truncate" | "summarize"
+    summary_model?: string
+    summary_max_tokens?: number
+  }
   system_prompt_overrides?: Array<PromptOverrideRule>
   system_prompt_prepend?: string
   system_prompt_append?: string
@@ -67,6 +88,19 @@ export interface EditableConfig {
   history?: {
     limit?: number | null
     min_entries?: number | null
+    persist?: boolean | null
+    retention_days?: number | null
+    max_disk_mb?: number | null
+  } | null
+  response_cache?: {
+    enabled?: boolean | null
+    ttl_seconds?: number | null
+    max_entries?: number | null
+  } | null
+  repetition_detector?: {
+    policy?: "warn" | "abort" | "abort-and-retry" | null
+    min_pattern_length?: number | null
+    min_repetitions?: number | null
   } | null
   anthropic?: {
     strip_server_tools?: boolean | null
@@ -85,6 +119,9 @@ export interface EditableConfig {
   "openai-responses"?: {
     normalize_call_ids?: boolean | null
     upstream_websocket?: boolean | null
+    local_store?: boolean | null
+    store_max_entries?: number | null
+    store_ttl_seconds?: number | null
   } | null
   rate_limiter?: {
     retry_interval?: number | null
@@ -93,6 +130,11 @@ export interface EditableConfig {
     consecutive_successes?: number | null
   } | null
   compress_tool_results_before_truncate?: boolean | null
+  auto_truncate?: {
+    mode?: "truncate" | "summarize" | null
+    summary_model?: string | null
+    summary_max_tokens?: number | null
+  } | null
   system_prompt_overrides?: Array<PromptOverrideRule> | null
   system_prompt_prepend?: string | null
   system_prompt_append?: string | null
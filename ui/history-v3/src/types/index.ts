@@ -5,6 +5,7 @@
  */
 
 export type {
+  CacheEfficiency,
   ContentBlock,
   CursorResult,
   EndpointType,
@@ -16,12 +17,20 @@ export type {
   ImageSource,
   MessageContent,
   PipelineInfo,
+  PluginHookInfo,
+  PluginHookName,
   PreprocessInfo,
   QueryOptions,
   RedactedThinkingContentBlock,
+  RedactionFinding,
+  RedactionMode,
+  ReplayOverrides,
+  ReplaySource,
+  ResponseCacheInfo,
   SanitizationInfo,
   ServerToolUseContentBlock,
   Session,
+  SessionCacheStats,
   SessionResult,
   SseEventRecord,
   SummaryResult,
@@ -33,6 +42,7 @@ export type {
   ToolResultImageBlock,
   ToolResultTextBlock,
   ToolUseContentBlock,
+  TranscriptFormat,
   TruncationInfo,
   UsageData,
   WarningMessage,
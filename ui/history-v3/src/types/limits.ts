@@ -0,0 +1,28 @@
+/** Where auto-truncate got a model's limits from */
+export type ModelLimitsSource = "learned" | "config" | "manual"
+
+/** One row of GET /api/limits */
+export interface LearnedModelLimits {
+  model: string
+  tokenLimit: number
+  /** Actual tokens / GPT tokenizer estimate, learned by EWMA */
+  calibrationFactor: number
+  sampleCount: number
+  updatedAt: number
+  source: ModelLimitsSource
+  pinned: boolean
+  /** Share of tokenLimit the pre-check keeps free, narrowing as samples accumulate */
+  safetyMargin: number
+  /** `capabilities.limits` from the model catalog, when the model is listed */
+  advertised: {
+    maxContextWindowTokens: number | null
+    maxPromptTokens: number | null
+    maxOutputTokens: number | null
+  } | null
+}
+
+export interface ModelLimitsUpdate {
+  tokenLimit?: number
+  calibrationFactor?: number
+  pinned?: boolean
+}
@@ -0,0 +1,407 @@
+/**
+ * Playground request building and stream decoding.
+ *
+ * The playground edits a format-neutral prompt (system text, plain-text turns,
+ * Anthropic-style tool definitions, a thinking budget) and sends it to the
+ * proxy's own client endpoints, so runs are recorded in history like any other
+ * request. Streamed events of each format are folded into an Anthropic-style
+ * assistant message that the history message components can render.
+ */
+
+import type { ModelData } from "@/composables/useModelsCatalog"
+import type { ContentBlock, MessageContent, ToolUseContentBlock } from "@/types"
+
+import { getEffectiveEndpoints } from "./model-endpoints"
+
+export type PlaygroundFormat = "messages" | "chat-completions" | "responses"
+
+export interface PlaygroundFormatInfo {
+  value: PlaygroundFormat
+  label: string
+  /** Proxy route the request is sent to */
+  path: string
+  /** Upstream endpoint that serves this format natively (as listed in supported_endpoints) */
+  endpoint: string
+}
+
+export const PLAYGROUND_FORMATS: Array<PlaygroundFormatInfo> = [
+  { value: "messages", label: "Messages", path: "/v1/messages", endpoint: "/v1/messages" },
+  { value: "chat-completions", label: "Chat Completions", path: "/v1/chat/completions", endpoint: "/chat/completions" },
+  { value: "responses", label: "Responses", path: "/v1/responses", endpoint: "/responses" },
+]
+
+export interface PlaygroundTurn {
+  role: "user" | "assistant"
+  content: string
+}
+
+/** Tool definition as edited in the playground (Anthropic shape) */
+export interface PlaygroundTool {
+  name: string
+  description?: string
+  input_schema: Record<string, unknown>
+}
+
+export interface PlaygroundInput {
+  model: string
+  system: string
+  messages: Array<PlaygroundTurn>
+  tools: Array<PlaygroundTool>
+  maxTokens: number
+  /** Thinking budget in tokens; 0 disables thinking */
+  thinkingBudget: number
+}
+
+/** Models that can answer a prompt: any that serves one of the playground formats */
+export function isPlaygroundModel(model: ModelData): boolean {
+  const endpoints = getEffectiveEndpoints(model)
+  return PLAYGROUND_FORMATS.some((format) => endpoints.includes(format.endpoint))
+}
+
+/** The format a model serves natively, preferring Messages, then Chat Completions */
+export function getDefaultFormat(model: ModelData | undefined): PlaygroundFormat {
+  const endpoints = model ? getEffectiveEndpoints(model) : []
+  return PLAYGROUND_FORMATS.find((format) => endpoints.includes(format.endpoint))?.value ?? "messages"
+}
+
+/** Same thresholds the proxy uses when translating a Messages thinking budget to reasoning_effort */
+function budgetToEffort(budget: number): "low" | "medium" | "high" {
+  if (budget <= 4096) return "low"
+  if (budget <= 16_384) return "medium"
+  return "high"
+}
+
+/** Build the streaming request body for a format */
+export function buildPlaygroundPayload(format: PlaygroundFormat, input: PlaygroundInput): Record<string, unknown> {
+  const system = input.system.trim()
+  const thinking = input.thinkingBudget > 0
+
+  switch (format) {
+    case "messages": {
+      return {
+        model: input.model,
+        max_tokens: input.maxTokens,
+        stream: true,
+        ...(system && { system }),
+        messages: input.messages,
+        ...(input.tools.length > 0 && { tools: input.tools }),
+        ...(thinking && { thinking: { type: "enabled", budget_tokens: input.thinkingBudget } }),
+      }
+    }
+    case "chat-completions": {
+      return {
+        model: input.model,
+        max_tokens: input.maxTokens,
+        stream: true,
+        stream_options: { include_usage: true },
+        messages: [...(system ? [{ role: "system", content: system }] : []), ...input.messages],
+        ...(input.tools.length > 0 && {
+          tools: input.tools.map((tool) => ({
+            type: "function",
+            function: { name: tool.name, description: tool.description, parameters: tool.input_schema },
+          })),
+        }),
+        ...(thinking && { reasoning_effort: budgetToEffort(input.thinkingBudget) }),
+      }
+    }
+    // "responses"
+    default: {
+      return {
+        model: input.model,
+        max_output_tokens: input.maxTokens,
+        stream: true,
+        ...(system && { instructions: system }),
+        input: input.messages,
+        ...(input.tools.length > 0 && {
+          tools: input.tools.map((tool) => ({
+            type: "function",
+            name: tool.name,
+            description: tool.description,
+            parameters: tool.input_schema,
+          })),
+        }),
+        ...(thinking && { reasoning: { effort: budgetToEffort(input.thinkingBudget), summary: "auto" } }),
+      }
+    }
+  }
+}
+
+/** Request body for /v1/messages/count_tokens, which estimates any model's prompt */
+export function buildCountTokensPayload(input: PlaygroundInput): Record<string, unknown> {
+  const { stream: _stream, max_tokens: _maxTokens, ...payload } = buildPlaygroundPayload("messages", input)
+  return payload
+}
+
+// ─── Stream decoding ───
+
+export interface SseEvent {
+  event?: string
+  data: string
+}
+
+/** Split a text/event-stream body into events */
+export async function* readSseEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<SseEvent> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ""
+  let event: string | undefined
+  let data: Array<string> = []
+
+  for (;;) {
+    const { done, value } = await reader.read()
+    // A final blank line flushes an event the stream ended without terminating
+    buffer += done ? decoder.decode() + "\n\n" : decoder.decode(value, { stream: true })
+
+    let newline = buffer.indexOf("\n")
+    while (newline !== -1) {
+      const line = buffer.slice(0, newline).replace(/\r$/, "")
+      buffer = buffer.slice(newline + 1)
+      newline = buffer.indexOf("\n")
+
+      if (line === "") {
+        if (data.length > 0) yield { event, data: data.join("\n") }
+        event = undefined
+        data = []
+      } else if (line.startsWith("event:")) {
+        event = line.slice(6).trim()
+      } else if (line.startsWith("data:")) {
+        data.push(line.slice(5).replace(/^ /, ""))
+      }
+    }
+    if (done) break
+  }
+}
+
+export interface PlaygroundUsage {
+  input_tokens: number
+  output_tokens: number
+}
+
+/** Streamed response folded into Anthropic-style blocks */
+export interface PlaygroundResult {
+  message: MessageContent & { content: Array<ContentBlock> }
+  usage?: PlaygroundUsage
+  stopReason?: string
+  error?: string
+}
+
+type DraftToolUse = ToolUseContentBlock & { partialJson: string }
+
+export function createPlaygroundResult(): PlaygroundResult {
+  return { message: { role: "assistant", content: [] } }
+}
+
+function lastBlockOfType<T extends ContentBlock["type"]>(result: PlaygroundResult, type: T) {
+  const last = result.message.content.at(-1)
+  return last?.type === type ? (last as Extract<ContentBlock, { type: T }>) : undefined
+}
+
+function appendText(result: PlaygroundResult, text: string) {
+  const block = lastBlockOfType(result, "text")
+  if (block) block.text += text
+  else result.message.content.push({ type: "text", text })
+}
+
+function appendThinking(result: PlaygroundResult, thinking: string) {
+  const block = lastBlockOfType(result, "thinking")
+  if (block) block.thinking += thinking
+  else result.message.content.push({ type: "thinking", thinking })
+}
+
+function startToolUse(result: PlaygroundResult, id: string, name: string): DraftToolUse {
+  const block: DraftToolUse = { type: "tool_use", id, name, input: {}, partialJson: "" }
+  result.message.content.push(block)
+  return block
+}
+
+function appendToolInput(block: DraftToolUse, json: string) {
+  block.partialJson += json
+  try {
+    block.input = JSON.parse(block.partialJson) as Record<string, unknown>
+  } catch {
+    // Incomplete JSON: keep the last complete input until more arrives
+  }
+}
+
+function errorMessage(payload: Record<string, unknown>): string {
+  const error = payload.error as { message?: string } | string | undefined
+  if (typeof error === "string") return error
+  return error?.message ?? "Stream error"
+}
+
+/**
+ * Returns a function that folds one SSE event of `format` into `result`.
+ * Tool calls are tracked by their stream index so interleaved argument deltas
+ * land on the right block.
+ */
+export function createStreamDecoder(format: PlaygroundFormat, result: PlaygroundResult): (event: SseEvent) => void {
+  const toolsByIndex = new Map<number, DraftToolUse>()
+
+  return (event) => {
+    if (event.data === "[DONE]") return
+    let payload: Record<string, unknown>
+    try {
+      payload = JSON.parse(event.data) as Record<string, unknown>
+    } catch {
+      return
+    }
+    if (event.event === "error" || payload.type === "error") {
+      result.error = errorMessage(payload)
+      return
+    }
+
+    STREAM_DECODERS[format](payload, result, toolsByIndex)
+  }
+}
+
+type EventDecoder = (
+  payload: Record<string, unknown>,
+  result: PlaygroundResult,
+  toolsByIndex: Map<number, DraftToolUse>,
+) => void
+
+function decodeMessagesEvent(
+  payload: Record<string, unknown>,
+  result: PlaygroundResult,
+  toolsByIndex: Map<number, DraftToolUse>,
+) {
+  const index = payload.index as number
+  switch (payload.type) {
+    case "message_start": {
+      const usage = (payload.message as { usage?: PlaygroundUsage } | undefined)?.usage
+      if (usage) result.usage = { input_tokens: usage.input_tokens, output_tokens: usage.output_tokens }
+      break
+    }
+    case "content_block_start": {
+      const block = payload.content_block as { type: string; id?: string; name?: string }
+      if (block.type === "tool_use") toolsByIndex.set(index, startToolUse(result, block.id ?? "", block.name ?? ""))
+      break
+    }
+    case "content_block_delta": {
+      const delta = payload.delta as { type: string; text?: string; thinking?: string; partial_json?: string }
+      switch (delta.type) {
+        case "text_delta": {
+          appendText(result, delta.text ?? "")
+          break
+        }
+        case "thinking_delta": {
+          appendThinking(result, delta.thinking ?? "")
+          break
+        }
+        case "input_json_delta": {
+          const tool = toolsByIndex.get(index)
+          if (tool) appendToolInput(tool, delta.partial_json ?? "")
+
+          break
+        }
+        // No default
+      }
+      break
+    }
+    case "message_delta": {
+      const delta = payload.delta as { stop_reason?: string } | undefined
+      const usage = payload.usage as Partial<PlaygroundUsage> | undefined
+      if (delta?.stop_reason) result.stopReason = delta.stop_reason
+      if (usage?.output_tokens !== undefined) {
+        result.usage = { input_tokens: result.usage?.input_tokens ?? 0, output_tokens: usage.output_tokens }
+      }
+      break
+    }
+    default: {
+      break
+    }
+  }
+}
+
+interface ChatChunkToolCall {
+  index: number
+  id?: string
+  function?: { name?: string; arguments?: string }
+}
+
+function decodeChatCompletionsChunk(
+  payload: Record<string, unknown>,
+  result: PlaygroundResult,
+  toolsByIndex: Map<number, DraftToolUse>,
+) {
+  const choice = (payload.choices as Array<Record<string, unknown>> | undefined)?.[0]
+  const delta = choice?.delta as
+    | { content?: string | null; reasoning_text?: string | null; tool_calls?: Array<ChatChunkToolCall> }
+    | undefined
+
+  if (delta?.reasoning_text) appendThinking(result, delta.reasoning_text)
+  if (delta?.content) appendText(result, delta.content)
+  for (const call of delta?.tool_calls ?? []) {
+    let tool = toolsByIndex.get(call.index)
+    if (!tool) {
+      tool = startToolUse(result, call.id ?? `call_${call.index}`, call.function?.name ?? "")
+      toolsByIndex.set(call.index, tool)
+    }
+    if (call.function?.arguments) appendToolInput(tool, call.function.arguments)
+  }
+  if (choice?.finish_reason) result.stopReason = choice.finish_reason as string
+
+  const usage = payload.usage as { prompt_tokens: number; completion_tokens: number } | undefined
+  if (usage) result.usage = { input_tokens: usage.prompt_tokens, output_tokens: usage.completion_tokens }
+}
+
+function decodeResponsesEvent(
+  payload: Record<string, unknown>,
+  result: PlaygroundResult,
+  toolsByIndex: Map<number, DraftToolUse>,
+) {
+  const outputIndex = payload.output_index as number
+  switch (payload.type) {
+    case "response.output_text.delta": {
+      appendText(result, payload.delta as string)
+      break
+    }
+    case "response.reasoning_summary_text.delta": {
+      appendThinking(result, payload.delta as string)
+      break
+    }
+    case "response.output_item.added": {
+      const item = payload.item as { type: string; call_id?: string; name?: string }
+      if (item.type === "function_call") {
+        toolsByIndex.set(outputIndex, startToolUse(result, item.call_id ?? "", item.name ?? ""))
+      }
+      break
+    }
+    case "response.function_call_arguments.delta": {
+      const tool = toolsByIndex.get(outputIndex)
+      if (tool) appendToolInput(tool, payload.delta as string)
+      break
+    }
+    case "response.completed":
+    case "response.incomplete":
+    case "response.failed": {
+      const response = payload.response as {
+        status?: string
+        usage?: PlaygroundUsage
+        error?: { message?: string } | null
+      }
+      result.stopReason = response.status
+      if (response.usage) {
+        result.usage = { input_tokens: response.usage.input_tokens, output_tokens: response.usage.output_tokens }
+      }
+      if (response.error?.message) result.error = response.error.message
+      break
+    }
+    default: {
+      break
+    }
+  }
+}
+
+const STREAM_DECODERS: Record<PlaygroundFormat, EventDecoder> = {
+  messages: decodeMessagesEvent,
+  "chat-completions": decodeChatCompletionsChunk,
+  responses: decodeResponsesEvent,
+}
+
+/** Drop the decoder's bookkeeping so blocks match the history content types */
+export function finalizePlaygroundResult(result: PlaygroundResult): void {
+  for (const block of result.message.content) {
+    if (block.type === "tool_use") delete (block as Partial<DraftToolUse>).partialJson
+  }
+}
@@ -8,6 +8,7 @@ export const vuetifyNavLinks: Array<NavLink> = [
   { path: "/v/config", label: "Config" },
   { path: "/v/models", label: "Models" },
   { path: "/v/activity", label: "Activity" },
+  { path: "/v/playground", label: "Playground" },
 ]
 
 export const legacyNavLinks: Array<NavLink> = [
@@ -27,6 +28,7 @@ const variantSwitchByPath: Record<string, string | null> = {
   "/v/models": null,
   "/v/config": null,
   "/v/usage": null,
+  "/v/playground": null,
 }
 
 export function isVuetifyPath(path: string): boolean {
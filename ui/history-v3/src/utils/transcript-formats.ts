@@ -0,0 +1,9 @@
+import type { TranscriptFormat } from "@/types"
+
+/** Download choices for session and entry transcripts, in menu order */
+export const transcriptFormatOptions: Array<{ value: TranscriptFormat; label: string }> = [
+  { value: "markdown", label: "Markdown" },
+  { value: "html", label: "HTML" },
+  { value: "openai-jsonl", label: "OpenAI JSONL" },
+  { value: "anthropic-jsonl", label: "Anthropic JSONL" },
+]
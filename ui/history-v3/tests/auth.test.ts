@@ -0,0 +1,79 @@
+/**
+ * Tests for the Web UI's API key handling.
+ */
+import { afterEach, beforeEach, describe, expect, test } from "bun:test"
+
+import { authHeaders, notifyUnauthorized, onUnauthorized, setApiKey, withApiKey } from "../src/api/auth"
+import { api, ApiError } from "../src/api/http"
+
+const store = new Map<string, string>()
+const originalStorage = (globalThis as { localStorage?: Storage }).localStorage
+const originalFetch = globalThis.fetch
+
+beforeEach(() => {
+  store.clear()
+  ;(globalThis as { localStorage?: unknown }).localStorage = {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => store.set(key, value),
+    removeItem: (key: string) => store.delete(key),
+  }
+})
+
+afterEach(() => {
+  ;(globalThis as { localStorage?: unknown }).localStorage = originalStorage
+  globalThis.fetch = originalFetch
+})
+
+describe("api key", () => {
+  test("adds nothing until a key is stored", () => {
+    expect(authHeaders()).toEqual({})
+    expect(withApiKey("/ws")).toBe("/ws")
+  })
+
+  test("sends a stored key as Bearer header and as api_key query param", () => {
+    setApiKey("sk test")
+    expect(authHeaders()).toEqual({ Authorization: "Bearer sk test" })
+    expect(withApiKey("ws://host/ws")).toBe("ws://host/ws?api_key=sk%20test")
+    expect(withApiKey("/history/api/export?format=csv")).toBe("/history/api/export?format=csv&api_key=sk%20test")
+
+    setApiKey(null)
+    expect(authHeaders()).toEqual({})
+  })
+
+  test("notifies unauthorized listeners until they unsubscribe", () => {
+    let calls = 0
+    const unsubscribe = onUnauthorized(() => calls++)
+    notifyUnauthorized()
+    unsubscribe()
+    notifyUnauthorized()
+    expect(calls).toBe(1)
+  })
+})
+
+describe("playground requests", () => {
+  test("send the stored key to the client endpoints", async () => {
+    const authorizations: Array<string | null> = []
+    globalThis.fetch = ((_path: string, init?: RequestInit) => {
+      authorizations.push(new Headers(init?.headers).get("Authorization"))
+      return Promise.resolve(Response.json({ input_tokens: 3 }))
+    }) as typeof fetch
+    setApiKey("sk-ui")
+
+    await api.openStream("/v1/messages", { model: "m" }, new AbortController().signal)
+    await api.countTokens({ model: "m" })
+
+    expect(authorizations).toEqual(["Bearer sk-ui", "Bearer sk-ui"])
+  })
+
+  test("report a rejected key", async () => {
+    globalThis.fetch = (() =>
+      Promise.resolve(new Response("Invalid API key", { status: 401 }))) as unknown as typeof fetch
+    let unauthorized = 0
+    const unsubscribe = onUnauthorized(() => unauthorized++)
+
+    const error = await api.openStream("/v1/messages", {}, new AbortController().signal).catch((e: unknown) => e)
+    unsubscribe()
+    expect(error).toBeInstanceOf(ApiError)
+    expect(unauthorized).toBe(1)
+  })
+})
@@ -0,0 +1,206 @@
+/**
+ * Tests for the playground's request building and stream decoding.
+ */
+import { describe, expect, test } from "bun:test"
+
+import {
+  type PlaygroundInput,
+  type SseEvent,
+  buildCountTokensPayload,
+  buildPlaygroundPayload,
+  createPlaygroundResult,
+  createStreamDecoder,
+  finalizePlaygroundResult,
+  readSseEvents,
+} from "../src/utils/playground"
+
+function makeInput(overrides: Partial<PlaygroundInput> = {}): PlaygroundInput {
+  return {
+    model: "claude-sonnet-4",
+    system: "Be brief.",
+    messages: [{ role: "user", content: "Hi" }],
+    tools: [],
+    maxTokens: 1024,
+    thinkingBudget: 0,
+    ...overrides,
+  }
+}
+
+const weatherTool = { name: "get_weather", description: "Weather", input_schema: { type: "object" } }
+
+function streamOf(...chunks: Array<string>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk))
+      controller.close()
+    },
+  })
+}
+
+function data(payload: unknown, event?: string): SseEvent {
+  return { event, data: JSON.stringify(payload) }
+}
+
+// ═══ buildPlaygroundPayload ═══
+
+describe("buildPlaygroundPayload", () => {
+  test("builds a streaming Messages request with thinking and tools", () => {
+    const payload = buildPlaygroundPayload("messages", makeInput({ tools: [weatherTool], thinkingBudget: 8000 }))
+    expect(payload).toEqual({
+      model: "claude-sonnet-4",
+      max_tokens: 1024,
+      stream: true,
+      system: "Be brief.",
+      messages: [{ role: "user", content: "Hi" }],
+      tools: [weatherTool],
+      thinking: { type: "enabled", budget_tokens: 8000 },
+    })
+  })
+
+  test("puts the system prompt first and maps the budget to reasoning_effort for Chat Completions", () => {
+    const payload = buildPlaygroundPayload(
+      "chat-completions",
+      makeInput({ tools: [weatherTool], thinkingBudget: 2000 }),
+    )
+    expect(payload.messages).toEqual([
+      { role: "system", content: "Be brief." },
+      { role: "user", content: "Hi" },
+    ])
+    expect(payload.tools).toEqual([
+      {
+        type: "function",
+        function: { name: "get_weather", description: "Weather", parameters: { type: "object" } },
+      },
+    ])
+    expect(payload.reasoning_effort).toBe("low")
+    expect(payload.stream_options).toEqual({ include_usage: true })
+  })
+
+  test("uses instructions, input and max_output_tokens for Responses", () => {
+    const payload = buildPlaygroundPayload("responses", makeInput({ thinkingBudget: 32_000 }))
+    expect(payload.instructions).toBe("Be brief.")
+    expect(payload.input).toEqual([{ role: "user", content: "Hi" }])
+    expect(payload.max_output_tokens).toBe(1024)
+    expect(payload.reasoning).toEqual({ effort: "high", summary: "auto" })
+    expect(payload).not.toHaveProperty("max_tokens")
+  })
+
+  test("omits empty system prompts, tools and disabled thinking", () => {
+    const payload = buildPlaygroundPayload("messages", makeInput({ system: "  " }))
+    expect(payload).not.toHaveProperty("system")
+    expect(payload).not.toHaveProperty("tools")
+    expect(payload).not.toHaveProperty("thinking")
+  })
+})
+
+describe("buildCountTokensPayload", () => {
+  test("is the Messages request without stream and max_tokens", () => {
+    const payload = buildCountTokensPayload(makeInput())
+    expect(payload).toEqual({
+      model: "claude-sonnet-4",
+      system: "Be brief.",
+      messages: [{ role: "user", content: "Hi" }],
+    })
+  })
+})
+
+// ═══ readSseEvents ═══
+
+describe("readSseEvents", () => {
+  test("splits events across chunk boundaries", async () => {
+    const body = streamOf('event: message_start\ndata: {"a":', "1}\n\ndata: [DONE]\r\n\r\n")
+    const events: Array<SseEvent> = []
+    for await (const event of readSseEvents(body)) events.push(event)
+    expect(events).toEqual([
+      { event: "message_start", data: '{"a":1}' },
+      { event: undefined, data: "[DONE]" },
+    ])
+  })
+
+  test("yields a trailing event without a blank line", async () => {
+    const events: Array<SseEvent> = []
+    for await (const event of readSseEvents(streamOf("data: tail"))) events.push(event)
+    expect(events).toEqual([{ event: undefined, data: "tail" }])
+  })
+})
+
+// ═══ createStreamDecoder ═══
+
+describe("createStreamDecoder", () => {
+  test("folds Messages events into thinking, text and tool_use blocks", () => {
+    const result = createPlaygroundResult()
+    const decode = createStreamDecoder("messages", result)
+    decode(data({ type: "message_start", message: { usage: { input_tokens: 12, output_tokens: 0 } } }))
+    decode(data({ type: "content_block_start", index: 0, content_block: { type: "thinking" } }))
+    decode(data({ type: "content_block_delta", index: 0, delta: { type: "thinking_delta", thinking: "Hmm" } }))
+    decode(data({ type: "content_block_delta", index: 1, delta: { type: "text_delta", text: "Hel" } }))
+    decode(data({ type: "content_block_delta", index: 1, delta: { type: "text_delta", text: "lo" } }))
+    decode(data({ type: "content_block_start", index: 2, content_block: { type: "tool_use", id: "t1", name: "f" } }))
+    decode(data({ type: "content_block_delta", index: 2, delta: { type: "input_json_delta", partial_json: '{"x"' } }))
+    decode(data({ type: "content_block_delta", index: 2, delta: { type: "input_json_delta", partial_json: ":1}" } }))
+    decode(data({ type: "message_delta", delta: { stop_reason: "tool_use" }, usage: { output_tokens: 7 } }))
+    finalizePlaygroundResult(result)
+
+    expect(result.message.content).toEqual([
+      { type: "thinking", thinking: "Hmm" },
+      { type: "text", text: "Hello" },
+      { type: "tool_use", id: "t1", name: "f", input: { x: 1 } },
+    ])
+    expect(result.stopReason).toBe("tool_use")
+    expect(result.usage).toEqual({ input_tokens: 12, output_tokens: 7 })
+  })
+
+  test("tracks interleaved Chat Completions tool calls by index", () => {
+    const result = createPlaygroundResult()
+    const decode = createStreamDecoder("chat-completions", result)
+    const toolDelta = (index: number, fn: Record<string, string>, id?: string) =>
+      data({ choices: [{ delta: { tool_calls: [{ index, id, function: fn }] } }] })
+    decode(data({ choices: [{ delta: { content: "Calling" } }] }))
+    decode(toolDelta(0, { name: "a", arguments: "" }, "c0"))
+    decode(toolDelta(1, { name: "b", arguments: '{"y":' }, "c1"))
+    decode(toolDelta(0, { arguments: '{"x":1}' }))
+    decode(toolDelta(1, { arguments: "2}" }))
+    decode(data({ choices: [{ delta: {}, finish_reason: "tool_calls" }] }))
+    decode(data({ choices: [], usage: { prompt_tokens: 3, completion_tokens: 4 } }))
+    decode({ data: "[DONE]" })
+    finalizePlaygroundResult(result)
+
+    expect(result.message.content).toEqual([
+      { type: "text", text: "Calling" },
+      { type: "tool_use", id: "c0", name: "a", input: { x: 1 } },
+      { type: "tool_use", id: "c1", name: "b", input: { y: 2 } },
+    ])
+    expect(result.stopReason).toBe("tool_calls")
+    expect(result.usage).toEqual({ input_tokens: 3, output_tokens: 4 })
+  })
+
+  test("decodes Responses text, reasoning summaries and completion", () => {
+    const result = createPlaygroundResult()
+    const decode = createStreamDecoder("responses", result)
+    decode(data({ type: "response.reasoning_summary_text.delta", delta: "Think" }))
+    decode(data({ type: "response.output_text.delta", delta: "Answer" }))
+    decode(
+      data({
+        type: "response.completed",
+        response: { status: "completed", usage: { input_tokens: 5, output_tokens: 6, total_tokens: 11 } },
+      }),
+    )
+
+    expect(result.message.content).toEqual([
+      { type: "thinking", thinking: "Think" },
+      { type: "text", text: "Answer" },
+    ])
+    expect(result.stopReason).toBe("completed")
+    expect(result.usage).toEqual({ input_tokens: 5, output_tokens: 6 })
+  })
+
+  test("records error events", () => {
+    const result = createPlaygroundResult()
+    createStreamDecoder(
+      "messages",
+      result,
+    )(data({ type: "error", error: { type: "overloaded_error", message: "Overloaded" } }, "error"))
+    expect(result.error).toBe("Overloaded")
+  })
+})
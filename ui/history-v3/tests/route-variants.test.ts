@@ -29,6 +29,10 @@ describe("route variants", () => {
     expect(getVariantSwitchPath("/v/config")).toBeNull()
   })
 
+  test("hides the variant switch on /v/playground because there is no legacy page", () => {
+    expect(getVariantSwitchPath("/v/playground")).toBeNull()
+  })
+
   test("resolves router base from Vite BASE_URL and falls back to root", () => {
     expect(resolveRouterBase("/ui/")).toBe("/ui/")
     expect(resolveRouterBase("/")).toBe("/")
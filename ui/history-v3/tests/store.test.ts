@@ -46,6 +46,7 @@ function makeStats(overrides: Partial<HistoryStats> = {}): HistoryStats {
     endpointDistribution: {},
     recentActivity: [],
     activeSessions: 0,
+    cache: { promptTokens: 0, readTokens: 0, creationTokens: 0, hitRate: 0, tokensSaved: 0, busts: 0 },
     ...overrides,
   }
 }
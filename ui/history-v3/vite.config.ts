@@ -56,6 +56,10 @@ export default defineConfig(({ command }) => {
           target: backendHttpUrl,
           changeOrigin: true,
         },
+        "/v1": {
+          target: backendHttpUrl,
+          changeOrigin: true,
+        },
       },
     },
   }
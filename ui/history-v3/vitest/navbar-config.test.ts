@@ -17,6 +17,7 @@ function makeRouter() {
       { path: "/v/config", component: { template: "<div />" } },
       { path: "/v/models", component: { template: "<div />" } },
       { path: "/v/activity", component: { template: "<div />" } },
+      { path: "/v/playground", component: { template: "<div />" } },
       { path: "/logs", component: { template: "<div />" } },
     ],
   })
@@ -75,7 +76,7 @@ describe("NavBar config route integration", () => {
     const wrapper = await mountNavBarAt("/v/config")
     const labels = wrapper.findAll('[data-testid="v-tab"]').map((node) => node.text())
 
-    expect(labels).toEqual(["Dashboard", "Config", "Models", "Activity"])
+    expect(labels).toEqual(["Dashboard", "Config", "Models", "Activity", "Playground"])
     expect(wrapper.find('[data-testid="v-app-bar"]').exists()).toBe(true)
     expect(wrapper.find(".switch-link").exists()).toBe(false)
     expect(wrapper.text()).toContain("System")